@@ -0,0 +1,94 @@
+import { generateConflictMarkers, hasConflictMarkers, mergeThreeWay, renderMergeResult } from '@/components/ScriptEditor/services/conflictResolution'
+import { matchLines } from '@/components/ScriptEditor/services/conflictResolution/diff'
+
+function lines(...values: string[]): string {
+  return `${values.join('\n')}\n`
+}
+
+describe('conflictResolution', () => {
+  describe('matchLines', () => {
+    it('should return the longest common subsequence as index pairs', () => {
+      expect(matchLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c'])).toHaveLength(4)
+      expect(matchLines(['x', 'a', 'y'], ['a'])).toEqual([[1, 0]])
+      expect(matchLines([], ['a'])).toEqual([])
+    })
+
+    it('should keep matches in ascending order on both sides', () => {
+      const matches = matchLines(['1', '2', '3', '4', '5', '6'], ['0', '1', '3', 'x', '4', '6', '7'])
+      expect(matches).toEqual([
+        [0, 1],
+        [2, 2],
+        [3, 4],
+        [5, 5],
+      ])
+    })
+  })
+
+  describe('mergeThreeWay', () => {
+    const base = lines('const a = 1', 'const b = 2', 'const c = 3', 'const d = 4', 'const e = 5')
+
+    it('should merge non-overlapping changes from both sides without conflicts', () => {
+      const ours = lines('const a = 10', 'const b = 2', 'const c = 3', 'const d = 4', 'const e = 5')
+      const theirs = lines('const a = 1', 'const b = 2', 'const c = 3', 'const d = 4', 'const e = 50', 'const f = 6')
+
+      const { hunks, conflicts } = mergeThreeWay(base, ours, theirs)
+      expect(conflicts).toBe(0)
+      expect(renderMergeResult(hunks)).toBe(lines('const a = 10', 'const b = 2', 'const c = 3', 'const d = 4', 'const e = 50', 'const f = 6'))
+    })
+
+    it('should take identical changes from both sides once', () => {
+      const changed = lines('const a = 1', 'const b = 20', 'const c = 3', 'const d = 4', 'const e = 5')
+      const { hunks, conflicts } = mergeThreeWay(base, changed, changed)
+      expect(conflicts).toBe(0)
+      expect(renderMergeResult(hunks)).toBe(changed)
+    })
+
+    it('should apply a deletion on one side', () => {
+      const theirs = lines('const a = 1', 'const b = 2', 'const d = 4', 'const e = 5')
+      const { hunks, conflicts } = mergeThreeWay(base, base, theirs)
+      expect(conflicts).toBe(0)
+      expect(renderMergeResult(hunks)).toBe(theirs)
+    })
+
+    it('should mark only the overlapping hunk as a conflict', () => {
+      const ours = lines('const a = 10', 'const b = 2', 'const c = 30', 'const d = 4', 'const e = 5')
+      const theirs = lines('const a = 1', 'const b = 2', 'const c = 300', 'const d = 4', 'const e = 5')
+
+      const { hunks, conflicts } = mergeThreeWay(base, ours, theirs)
+      expect(conflicts).toBe(1)
+      expect(hunks.find((hunk) => hunk.type === 'conflict')).toEqual({ type: 'conflict', base: ['const c = 3'], ours: ['const c = 30'], theirs: ['const c = 300'] })
+      expect(renderMergeResult(hunks)).toBe(
+        lines('const a = 10', 'const b = 2', '<<<<<<< Editor', 'const c = 30', '=======', 'const c = 300', '>>>>>>> Local', 'const d = 4', 'const e = 5')
+      )
+    })
+
+    it('should mark every differing hunk when there is no base', () => {
+      const ours = lines('a', 'b', 'c', 'd')
+      const theirs = lines('a', 'x', 'c', 'd', 'e')
+
+      const { hunks, conflicts } = mergeThreeWay(null, ours, theirs)
+      expect(conflicts).toBe(2)
+      expect(hunks.filter((hunk) => hunk.type === 'conflict')).toEqual([
+        { type: 'conflict', base: null, ours: ['b'], theirs: ['x'] },
+        { type: 'conflict', base: null, ours: [], theirs: ['e'] },
+      ])
+    })
+  })
+
+  describe('renderMergeResult', () => {
+    it('should apply resolutions by conflict index', () => {
+      const { hunks } = mergeThreeWay(null, lines('a', 'b', 'c', 'd'), lines('a', 'x', 'c', 'y'))
+
+      expect(renderMergeResult(hunks, { 0: 'ours', 1: 'theirs' })).toBe(lines('a', 'b', 'c', 'y'))
+      expect(renderMergeResult(hunks, { 0: 'both', 1: 'ours' })).toBe(lines('a', 'b', 'x', 'c', 'd'))
+      expect(hasConflictMarkers(renderMergeResult(hunks, { 0: 'ours' }))).toBe(true)
+    })
+  })
+
+  describe('generateConflictMarkers', () => {
+    it('should only wrap conflicting lines instead of the whole file', () => {
+      const merged = generateConflictMarkers(lines('keep', 'ours'), lines('keep', 'theirs'))
+      expect(merged).toBe(lines('keep', '<<<<<<< Editor', 'ours', '=======', 'theirs', '>>>>>>> Local'))
+    })
+  })
+})
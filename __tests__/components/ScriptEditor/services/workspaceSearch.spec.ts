@@ -0,0 +1,69 @@
+import { buildWorkspaceSearchRegExp, previewWorkspaceReplace, searchWorkspaceFiles } from '@/components/ScriptEditor/services/workspaceSearch'
+
+describe('workspaceSearch', () => {
+  const files = {
+    'b.ts': 'const fooBar = 1\nfoo(fooBar)\n',
+    'a.ts': 'Foo.run()\r\nconst x = "$1"\n',
+    'c.ts': 'nothing here\n',
+  }
+
+  describe('searchWorkspaceFiles', () => {
+    it('should group case-insensitive matches by file with 1-based positions', () => {
+      const result = searchWorkspaceFiles(files, { query: 'foo' })
+
+      expect(result.totalMatches).toBe(4)
+      expect(result.truncated).toBe(false)
+      expect(result.files.map(({ path }) => path)).toEqual(['a.ts', 'b.ts'])
+      expect(result.files[0].matches).toEqual([{ line: 1, column: 1, length: 3, lineText: 'Foo.run()' }])
+      expect(result.files[1].matches.map(({ line, column }) => [line, column])).toEqual([
+        [1, 7],
+        [2, 1],
+        [2, 5],
+      ])
+    })
+
+    it('should honour case and whole-word options', () => {
+      expect(searchWorkspaceFiles(files, { query: 'Foo', caseSensitive: true }).totalMatches).toBe(1)
+      expect(searchWorkspaceFiles(files, { query: 'foo', wholeWord: true }).files.map(({ path, matches }) => [path, matches.length])).toEqual([
+        ['a.ts', 1],
+        ['b.ts', 1],
+      ])
+    })
+
+    it('should treat the query as a regular expression when asked', () => {
+      const result = searchWorkspaceFiles(files, { query: '^const \\w+', regex: true })
+      expect(result.files.flatMap(({ path, matches }) => matches.map(({ line, length }) => [path, line, length]))).toEqual([
+        ['a.ts', 2, 7],
+        ['b.ts', 1, 12],
+      ])
+    })
+
+    it('should escape the query when not using regular expressions', () => {
+      expect(searchWorkspaceFiles(files, { query: '.run(' }).totalMatches).toBe(1)
+    })
+  })
+
+  describe('buildWorkspaceSearchRegExp', () => {
+    it('should reject empty, invalid and empty-matching patterns', () => {
+      expect(() => buildWorkspaceSearchRegExp({ query: '' })).toThrow('Search query must not be empty')
+      expect(() => buildWorkspaceSearchRegExp({ query: '(', regex: true })).toThrow('Invalid regular expression')
+      expect(() => buildWorkspaceSearchRegExp({ query: 'a*', regex: true })).toThrow('Search pattern must not match empty text')
+    })
+  })
+
+  describe('previewWorkspaceReplace', () => {
+    it('should return per-file before and after content without touching unmatched files', () => {
+      const previews = previewWorkspaceReplace(files, { query: 'foo', wholeWord: true }, 'bar')
+
+      expect(previews).toEqual([
+        { path: 'a.ts', original: files['a.ts'], modified: 'bar.run()\r\nconst x = "$1"\n', replacements: 1 },
+        { path: 'b.ts', original: files['b.ts'], modified: 'const fooBar = 1\nbar(fooBar)\n', replacements: 1 },
+      ])
+    })
+
+    it('should expand capture groups only for regular expressions', () => {
+      expect(previewWorkspaceReplace(files, { query: 'foo(\\w+)', regex: true, caseSensitive: true }, '$1Baz')[0].modified).toBe('const BarBaz = 1\nfoo(BarBaz)\n')
+      expect(previewWorkspaceReplace(files, { query: 'Foo', caseSensitive: true }, '$&$1')[0].modified).toBe('$&$1.run()\r\nconst x = "$1"\n')
+    })
+  })
+})
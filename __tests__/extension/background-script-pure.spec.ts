@@ -0,0 +1,50 @@
+import {
+  backgroundGmStorageKey,
+  buildBackgroundScriptAlarmName,
+  collectGmScopeValues,
+  isBackgroundScriptRequestAllowed,
+  normalizeBackgroundScriptEntries,
+  parseBackgroundScriptAlarmName,
+} from '@ext/shell/background-scripts/background-script-pure'
+import { buildScriptPermissionRegistryKey, createEmptyScriptPermissionRegistry } from '@shared/script-permission'
+
+describe('background script helpers', () => {
+  const context = { scriptKey: 'key-1', file: 'poller.ts' }
+
+  it('should round-trip alarm names', () => {
+    const name = buildBackgroundScriptAlarmName('key-1', 'poller.ts')
+    expect(name).toBe('vws-bg|key-1|poller.ts')
+    expect(parseBackgroundScriptAlarmName(name)).toEqual(context)
+    expect(parseBackgroundScriptAlarmName('vws-bg-sync')).toBeNull()
+    expect(parseBackgroundScriptAlarmName('vws-bg|key-1|')).toBeNull()
+  })
+
+  it('should keep only manifest entries with a valid schedule and URL', () => {
+    expect(
+      normalizeBackgroundScriptEntries([
+        { file: 'poller.ts', schedule: '@hourly', url: 'https://s/static/k/scripts/poller.ts', connect: ['api.example.com', 1] },
+        { file: 'broken.ts', schedule: 'every hour', url: 'https://s/x' },
+        { file: 'nourl.ts', schedule: '@daily' },
+      ])
+    ).toEqual([{ file: 'poller.ts', schedule: '@hourly', url: 'https://s/static/k/scripts/poller.ts', connect: ['api.example.com'] }])
+    expect(normalizeBackgroundScriptEntries(undefined)).toEqual([])
+  })
+
+  it('should allow requests to @connect hosts, persistent allows and trusted scriptKeys only', () => {
+    const registry = createEmptyScriptPermissionRegistry()
+    expect(isBackgroundScriptRequestAllowed(context, ['api.example.com'], 'https://api.example.com/status', registry, 'ask')).toBe(true)
+    expect(isBackgroundScriptRequestAllowed(context, ['*'], 'https://other.example/', registry, 'ask')).toBe(true)
+    expect(isBackgroundScriptRequestAllowed(context, ['api.example.com'], 'https://other.example/', registry, 'ask')).toBe(false)
+    expect(isBackgroundScriptRequestAllowed(context, [], 'https://other.example/', registry, 'trust')).toBe(true)
+
+    registry.entries[buildScriptPermissionRegistryKey('key-1', 'poller.ts', 'network', 'other.example')] = { decision: 'allow', remember: 'persistent', updatedAt: 1 }
+    expect(isBackgroundScriptRequestAllowed(context, [], 'https://other.example/', registry, 'ask')).toBe(true)
+    registry.entries[buildScriptPermissionRegistryKey('key-1', 'poller.ts', 'network', 'other.example')] = { decision: 'deny', remember: 'persistent', updatedAt: 1 }
+    expect(isBackgroundScriptRequestAllowed(context, [], 'https://other.example/', registry, 'trust')).toBe(false)
+  })
+
+  it('should read and address GM values of one gmScope', () => {
+    const storage = { [backgroundGmStorageKey('work', 'count')]: 3, vws_gm_home_count: 9, vws_extension_rules: [] }
+    expect(collectGmScopeValues(storage, 'work')).toEqual({ count: 3 })
+  })
+})
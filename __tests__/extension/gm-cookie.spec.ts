@@ -0,0 +1,49 @@
+import { handleGmCookie } from '@ext/shell/gm-cookie'
+import { ensureScriptPermissionForTab } from '@ext/shell/permission-manager'
+import { PERMISSION_DENIED_CODE } from '@shared/script-permission'
+
+jest.mock('@ext/shell/permission-manager', () => ({
+  ensureScriptPermissionForTab: jest.fn(),
+}))
+
+const mockedEnsure = ensureScriptPermissionForTab as jest.MockedFunction<typeof ensureScriptPermissionForTab>
+
+describe('gm-cookie', () => {
+  const context = { scriptKey: 'key', file: 'demo.ts' }
+  const getAll = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockedEnsure.mockResolvedValue(true)
+    getAll.mockResolvedValue([])
+    global.chrome = {
+      cookies: { getAll, getAllCookieStores: jest.fn(async () => []) },
+    } as unknown as typeof chrome
+  })
+
+  it('should list cookies when the grant matches the action and host', async () => {
+    const permission = { ...context, capability: 'cookie-read' as const, resource: 'shop.example.com' }
+
+    await expect(handleGmCookie({ type: 'GM_COOKIE', action: 'list', details: { url: 'https://shop.example.com/' }, permission }, 1)).resolves.toEqual({
+      ok: true,
+      cookies: [],
+    })
+    expect(mockedEnsure).toHaveBeenCalledWith(1, permission)
+  })
+
+  it('should refuse tab calls without a grant or with a grant for another action or host', async () => {
+    const details = { url: 'https://shop.example.com/' }
+
+    await expect(handleGmCookie({ type: 'GM_COOKIE', action: 'list', details }, 1)).rejects.toThrow(PERMISSION_DENIED_CODE)
+    await expect(
+      handleGmCookie(
+        { type: 'GM_COOKIE', action: 'set', details: { ...details, name: 'a' }, permission: { ...context, capability: 'cookie-read', resource: 'shop.example.com' } },
+        1
+      )
+    ).rejects.toThrow(PERMISSION_DENIED_CODE)
+    await expect(
+      handleGmCookie({ type: 'GM_COOKIE', action: 'list', details, permission: { ...context, capability: 'cookie-read', resource: 'other.example.com' } }, 1)
+    ).rejects.toThrow(PERMISSION_DENIED_CODE)
+    expect(getAll).not.toHaveBeenCalled()
+  })
+})
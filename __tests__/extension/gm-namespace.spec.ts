@@ -0,0 +1,89 @@
+import { createGmNamespace } from '@ext/page/gm-namespace'
+import type { GMApi } from '@ext/page/gm-types'
+
+describe('gm-namespace', () => {
+  const createCallbacks = (): Omit<GMApi, 'GM' | 'unsafeWindow'> => {
+    const store: Record<string, unknown> = {}
+    return {
+      GM_getValue: jest.fn((key: string, defaultValue?: unknown) => (key in store ? store[key] : defaultValue)) as GMApi['GM_getValue'],
+      GM_setValue: jest.fn((key: string, value: unknown) => {
+        store[key] = value
+      }),
+      GM_deleteValue: jest.fn(),
+      GM_listValues: jest.fn(() => Object.keys(store)),
+      GM_setValues: jest.fn(),
+      GM_getValues: jest.fn(() => ({})),
+      GM_deleteValues: jest.fn(),
+      GM_addValueChangeListener: jest.fn(() => 'l1'),
+      GM_removeValueChangeListener: jest.fn(),
+      GM_xmlhttpRequest: jest.fn(),
+      GM_registerMenuCommand: jest.fn(() => 'menu-1'),
+      GM_unregisterMenuCommand: jest.fn(),
+      GM_addElement: jest.fn(),
+      GM_addStyle: jest.fn(),
+      GM_log: jest.fn(),
+      GM_notification: jest.fn((_details, ondone) => ondone?.()),
+      GM_openInTab: jest.fn(() => null),
+      GM_setClipboard: jest.fn(),
+      GM_captureVisibleTab: jest.fn(),
+      GM_download: jest.fn((details) => {
+        if (typeof details !== 'string') {
+          if (String(details.url).includes('fail')) {
+            details.onerror?.({ error: 'not_permitted' })
+          } else {
+            details.onload?.()
+          }
+        }
+        return { abort: jest.fn() }
+      }),
+      GM_cookie: {
+        list: jest.fn((_details, callback) => callback?.([], 'denied')),
+        set: jest.fn((_details, callback) => callback?.()),
+        delete: jest.fn((_details, callback) => callback?.('denied')),
+      },
+      GM_getTab: jest.fn((callback) => callback?.({ step: 1 })),
+      GM_saveTab: jest.fn((_tab, callback) => callback?.()),
+      GM_getTabs: jest.fn((callback) => callback?.({})),
+      GM_webRequest: jest.fn(),
+      GM_getResourceText: jest.fn(() => 'text'),
+      GM_getResourceURL: jest.fn(() => 'blob:resource'),
+      GM_info: { scriptHandler: 'MagickMonkey' },
+    }
+  }
+
+  it('should resolve value APIs with the callback results and call them synchronously', async () => {
+    const callbacks = createCallbacks()
+    const gm = createGmNamespace(callbacks, { xmlHttpRequest: jest.fn(), setClipboard: jest.fn() })
+
+    const pending = gm.setValue('a', 1)
+    expect(callbacks.GM_setValue).toHaveBeenCalledWith('a', 1)
+    await pending
+
+    await expect(gm.getValue('a')).resolves.toBe(1)
+    await expect(gm.getValue('missing', 'fallback')).resolves.toBe('fallback')
+    await expect(gm.listValues()).resolves.toEqual(['a'])
+    await expect(gm.getResourceUrl('logo')).resolves.toBe('blob:resource')
+    expect(gm.info).toBe(callbacks.GM_info)
+  })
+
+  it('should reject when the callback form reports an error', async () => {
+    const gm = createGmNamespace(createCallbacks(), { xmlHttpRequest: jest.fn(), setClipboard: jest.fn() })
+
+    await expect(gm.download('https://example.com/file.zip')).resolves.toBeUndefined()
+    await expect(gm.download({ url: 'https://example.com/fail.zip' })).rejects.toThrow('not_permitted')
+    await expect(gm.cookie.list()).rejects.toThrow('denied')
+    await expect(gm.cookie.set({ name: 'a', value: '1' })).resolves.toBeUndefined()
+    await expect(gm.cookie.delete({ name: 'a' })).rejects.toThrow('denied')
+    await expect(gm.getTab()).resolves.toEqual({ step: 1 })
+    await expect(gm.saveTab({ step: 2 })).resolves.toBeUndefined()
+  })
+
+  it('should use the promise implementations for xmlHttpRequest and setClipboard', async () => {
+    const setClipboard = jest.fn().mockRejectedValue(new Error('Permission denied'))
+    const xmlHttpRequest = jest.fn()
+    const gm = createGmNamespace(createCallbacks(), { xmlHttpRequest, setClipboard })
+
+    await expect(gm.setClipboard('copied')).rejects.toThrow('Permission denied')
+    expect(gm.xmlHttpRequest).toBe(xmlHttpRequest)
+  })
+})
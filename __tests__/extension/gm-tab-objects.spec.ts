@@ -0,0 +1,46 @@
+import { clearGmTabObjects, getGmTabObject, GM_TAB_OBJECTS_SESSION_KEY, listGmTabObjects, saveGmTabObject } from '@ext/shell/gm-tab-objects'
+
+describe('gm-tab-objects', () => {
+  let sessionBlob: Record<string, unknown>
+
+  beforeEach(() => {
+    sessionBlob = {}
+    global.chrome = {
+      storage: {
+        session: {
+          get: jest.fn(async (key: string) => (sessionBlob[key] != null ? { [key]: structuredClone(sessionBlob[key]) } : {})),
+          set: jest.fn(async (items: Record<string, unknown>) => {
+            Object.assign(sessionBlob, structuredClone(items))
+          }),
+          remove: jest.fn(async (key: string) => {
+            delete sessionBlob[key]
+          }),
+        },
+      },
+    } as unknown as typeof chrome
+  })
+
+  it('should return an empty object before the first save', async () => {
+    expect(await getGmTabObject('scope-a', 1)).toEqual({})
+  })
+
+  it('should keep concurrent saves from different tabs and scopes apart', async () => {
+    await Promise.all([saveGmTabObject('scope-a', 1, { step: 1 }), saveGmTabObject('scope-a', 2, { step: 2 }), saveGmTabObject('scope-b', 1, { other: true })])
+
+    expect(await getGmTabObject('scope-a', 1)).toEqual({ step: 1 })
+    expect(await listGmTabObjects('scope-a')).toEqual({ 1: { step: 1 }, 2: { step: 2 } })
+    expect(await listGmTabObjects('scope-b')).toEqual({ 1: { other: true } })
+  })
+
+  it('should drop a closed tab from every scope', async () => {
+    await saveGmTabObject('scope-a', 1, { step: 1 })
+    await saveGmTabObject('scope-b', 1, { other: true })
+    await saveGmTabObject('scope-a', 2, { step: 2 })
+
+    await clearGmTabObjects(1)
+
+    expect(sessionBlob[GM_TAB_OBJECTS_SESSION_KEY]).toEqual({ 'scope-a': { 2: { step: 2 } } })
+    await saveGmTabObject('scope-a', 2, null)
+    expect(sessionBlob[GM_TAB_OBJECTS_SESSION_KEY]).toBeUndefined()
+  })
+})
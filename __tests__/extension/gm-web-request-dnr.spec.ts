@@ -0,0 +1,89 @@
+import {
+  addGmWebRequestRules,
+  buildGmWebRequestDnrRules,
+  clearGmWebRequestRulesForTab,
+  globToDnrUrlFilter,
+  GM_WEB_REQUEST_DNR_RULE_ID_MIN,
+  removeGmWebRequestRules,
+} from '@ext/shell/gm-web-request-dnr'
+
+describe('gm-web-request-dnr', () => {
+  const sequentialIds = () => {
+    let id = 0
+    return () => ++id
+  }
+
+  it('should anchor globs unless they start or end with a wildcard', () => {
+    expect(globToDnrUrlFilter('*')).toBe('*')
+    expect(globToDnrUrlFilter('*://ads.example.com/*')).toBe('*://ads.example.com/*')
+    expect(globToDnrUrlFilter('https://example.com/track.js')).toBe('|https://example.com/track.js|')
+    expect(globToDnrUrlFilter('https://example.com/*')).toBe('|https://example.com/*')
+  })
+
+  it('should map cancel, redirect and exclude selectors to DNR rules scoped to the tab and its page host', () => {
+    const rules = buildGmWebRequestDnrRules(
+      [
+        { selector: '*cancel.me/*', action: 'cancel' },
+        { selector: { include: '*', exclude: 'http://exclude.me/*' }, action: { redirect: 'http://new_static.url' } },
+        { selector: { match: '*://match.me/*' }, action: { redirect: { from: '([^:]+)://match.me/(.*)', to: '$1://redirected.to/$2' } } },
+      ],
+      sequentialIds(),
+      7,
+      'shop.example.com'
+    )
+
+    const scope = { tabIds: [7], initiatorDomains: ['shop.example.com'] }
+    expect(rules).toEqual([
+      { id: 1, priority: 1, action: { type: 'block' }, condition: { ...scope, urlFilter: '*cancel.me/*' } },
+      { id: 2, priority: 1, action: { type: 'redirect', redirect: { url: 'http://new_static.url' } }, condition: { ...scope, urlFilter: '*' } },
+      { id: 3, priority: 2, action: { type: 'allow' }, condition: { ...scope, urlFilter: '|http://exclude.me/*' } },
+      {
+        id: 4,
+        priority: 1,
+        action: { type: 'redirect', redirect: { regexSubstitution: '\\1://redirected.to/\\2' } },
+        condition: { ...scope, regexFilter: '([^:]+)://match.me/(.*)' },
+      },
+    ])
+  })
+
+  it('should reject rules without a selector or an action', () => {
+    expect(() => buildGmWebRequestDnrRules([{ selector: {}, action: 'cancel' }], sequentialIds(), 1, 'example.com')).toThrow('needs a selector')
+    expect(() => buildGmWebRequestDnrRules([{ selector: '*', action: {} }], sequentialIds(), 1, 'example.com')).toThrow('needs a cancel or redirect action')
+  })
+
+  it('should track rule ids per tab and only remove ids the tab owns', async () => {
+    let sessionRules: chrome.declarativeNetRequest.Rule[] = [{ id: GM_WEB_REQUEST_DNR_RULE_ID_MIN } as chrome.declarativeNetRequest.Rule]
+    const sessionBlob: Record<string, unknown> = {}
+    global.chrome = {
+      declarativeNetRequest: {
+        getSessionRules: jest.fn(async () => sessionRules),
+        updateSessionRules: jest.fn(async ({ addRules = [], removeRuleIds = [] }: chrome.declarativeNetRequest.UpdateRuleOptions) => {
+          sessionRules = [...sessionRules.filter((rule) => !removeRuleIds.includes(rule.id)), ...addRules]
+        }),
+      },
+      storage: {
+        session: {
+          get: jest.fn(async (key: string) => (sessionBlob[key] != null ? { [key]: sessionBlob[key] } : {})),
+          set: jest.fn(async (items: Record<string, unknown>) => Object.assign(sessionBlob, items)),
+          remove: jest.fn(async (key: string) => {
+            delete sessionBlob[key]
+          }),
+        },
+      },
+    } as unknown as typeof chrome
+
+    const first = await addGmWebRequestRules(1, 'https://a.example.com/page', [{ selector: '*ads*', action: 'cancel' }])
+    const second = await addGmWebRequestRules(2, 'https://b.example.com/', [{ selector: '*track*', action: 'cancel' }])
+
+    expect(first).toEqual([GM_WEB_REQUEST_DNR_RULE_ID_MIN + 1])
+    expect(second).toEqual([GM_WEB_REQUEST_DNR_RULE_ID_MIN + 2])
+    expect(sessionRules.find((rule) => rule.id === first[0])?.condition).toEqual({ tabIds: [1], initiatorDomains: ['a.example.com'], urlFilter: '*ads*' })
+
+    await removeGmWebRequestRules(1, second)
+    expect(sessionRules.map((rule) => rule.id)).toContain(second[0])
+
+    await clearGmWebRequestRulesForTab(2)
+    await removeGmWebRequestRules(1, first)
+    expect(sessionRules.map((rule) => rule.id)).toEqual([GM_WEB_REQUEST_DNR_RULE_ID_MIN])
+  })
+})
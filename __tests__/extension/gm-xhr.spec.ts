@@ -0,0 +1,127 @@
+import { base64ToBytes } from '@ext/shared/base64-bytes'
+import type { BridgeXhrEvent } from '@ext/shared/messages'
+import { handleBridgeXhr } from '@ext/shell/background-bridge'
+import { buildXhrRequestInit, resolveXhrCharset, runBridgeXhr } from '@ext/shell/gm-xhr'
+import { ensureScriptPermissionForTab } from '@ext/shell/permission-manager'
+import { PERMISSION_DENIED_CODE } from '@shared/script-permission'
+
+jest.mock('@ext/shell/permission-manager', () => ({
+  ensureScriptPermissionForTab: jest.fn(),
+}))
+
+const mockedEnsure = ensureScriptPermissionForTab as jest.MockedFunction<typeof ensureScriptPermissionForTab>
+
+function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk))
+      controller.close()
+    },
+  })
+}
+
+/** fetch that never settles until its signal aborts */
+function hangingFetch(): jest.Mock {
+  return jest.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')))
+      })
+  )
+}
+
+async function collect(details: Parameters<typeof runBridgeXhr>[0], tabId?: number, signal?: AbortSignal): Promise<BridgeXhrEvent[]> {
+  const events: BridgeXhrEvent[] = []
+  await runBridgeXhr(details, tabId, (event) => events.push(event), signal)
+  return events
+}
+
+describe('gm-xhr', () => {
+  const originalFetch = global.fetch
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockedEnsure.mockResolvedValue(true)
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should stream text chunks with progress, then load', async () => {
+    const encoder = new TextEncoder()
+    fetchMock.mockResolvedValue(
+      new Response(streamOf([encoder.encode('hel'), encoder.encode('lo')]), { status: 200, statusText: 'OK', headers: { 'content-length': '5', 'content-type': 'text/plain' } })
+    )
+
+    const events = await collect({ url: 'https://api.example.com/data' })
+
+    expect(events).toEqual([
+      { type: 'headers', status: 200, statusText: 'OK', responseHeaders: 'content-length: 5\r\ncontent-type: text/plain', finalUrl: 'https://api.example.com/data', total: 5 },
+      { type: 'chunk', data: 'hel', encoding: 'text', loaded: 3, total: 5 },
+      { type: 'chunk', data: 'lo', encoding: 'text', loaded: 5, total: 5 },
+      { type: 'load' },
+    ])
+  })
+
+  it('should send binary chunks base64 and buffer them for one-shot callers', async () => {
+    fetchMock.mockImplementation(async () => new Response(streamOf([new Uint8Array([0, 1]), new Uint8Array([254, 255])])))
+
+    const events = await collect({ url: 'https://cdn.example.com/file.bin', responseType: 'arraybuffer' })
+    const result = await handleBridgeXhr({ url: 'https://cdn.example.com/file.bin', responseType: 'arraybuffer' })
+
+    expect(events.filter((event) => event.type === 'chunk').map((event) => (event as { encoding: string }).encoding)).toEqual(['base64', 'base64'])
+    expect(result.ok && 'xhr' in result && Array.from(base64ToBytes(result.xhr.responseBase64!))).toEqual([0, 1, 254, 255])
+  })
+
+  it('should end with timeout when the whole request outlives its timeout', async () => {
+    global.fetch = hangingFetch()
+
+    expect(await collect({ url: 'https://slow.example.com/', timeout: 10 })).toEqual([{ type: 'timeout' }])
+  })
+
+  it('should end with abort when the caller aborts', async () => {
+    global.fetch = hangingFetch()
+    const controller = new AbortController()
+
+    const pending = collect({ url: 'https://slow.example.com/' }, undefined, controller.signal)
+    controller.abort()
+
+    expect(await pending).toEqual([{ type: 'abort' }])
+  })
+
+  it('should deny without fetching when the permission resource does not match the URL', async () => {
+    const permission = { scriptKey: 'key', file: 'a.ts', capability: 'network' as const, resource: 'api.example.com' }
+
+    expect(await collect({ url: 'https://evil.example.net/', permission }, 1)).toEqual([{ type: 'error', error: PERMISSION_DENIED_CODE }])
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(mockedEnsure).not.toHaveBeenCalled()
+  })
+
+  it('should map GM options to fetch options', () => {
+    const init = buildXhrRequestInit(
+      { url: 'https://api.example.com/', method: 'post', data: 'AAE=', dataEncoding: 'base64', anonymous: true, redirect: 'manual', nocache: true, user: 'u', password: 'p' },
+      new AbortController().signal
+    )
+
+    expect(init).toMatchObject({ method: 'POST', credentials: 'omit', redirect: 'manual', cache: 'no-store' })
+    expect(Array.from(init.body as Uint8Array)).toEqual([0, 1])
+    expect((init.headers as Headers).get('authorization')).toBe(`Basic ${btoa('u:p')}`)
+    expect(buildXhrRequestInit({ url: 'https://api.example.com/' }, new AbortController().signal)).toMatchObject({
+      method: 'GET',
+      credentials: 'include',
+      redirect: 'follow',
+      body: undefined,
+    })
+  })
+
+  it('should prefer the overridden charset and fall back to utf-8', () => {
+    expect(resolveXhrCharset('text/html; charset=utf-8', 'text/plain; charset=windows-1252')).toBe('windows-1252')
+    expect(resolveXhrCharset('text/html; charset="ISO-8859-2"')).toBe('iso-8859-2')
+    expect(resolveXhrCharset('text/html; charset=bogus')).toBe('utf-8')
+    expect(resolveXhrCharset(null)).toBe('utf-8')
+  })
+})
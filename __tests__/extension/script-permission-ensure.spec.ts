@@ -1,5 +1,5 @@
 import { sendPageBridgeRequest } from '@ext/page/page-bridge-client'
-import { ensureScriptPermission, ensureScriptPermissionRequest, getActiveScriptPermissionContext } from '@ext/page/script-permission-scope'
+import { ensureScriptPermission, ensureScriptPermissionRequest, ensureScriptPermissionSync, getActiveScriptPermissionContext } from '@ext/page/script-permission-scope'
 import { enterScriptPermissionScope, exitScriptPermissionScope } from '@shared/script-permission-scope'
 
 jest.mock('@ext/page/page-bridge-client', () => ({
@@ -86,4 +86,16 @@ describe('script-permission-ensure', () => {
 
     expect(mockedSendPageBridgeRequest).not.toHaveBeenCalled()
   })
+
+  it('should throw from the sync gate until the background allow is cached on the page', async () => {
+    enterScriptPermissionScope('shopline-debug.ts')
+
+    expect(() => ensureScriptPermissionSync('inject-script', 'cdn.example.com')).toThrow('Inject page scripts permission required')
+    expect(() => ensureScriptPermissionSync('inject-script', 'cdn.example.com')).toThrow('retry after granting')
+    expect(mockedSendPageBridgeRequest).toHaveBeenCalledTimes(1)
+
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(() => ensureScriptPermissionSync('inject-script', 'cdn.example.com')).not.toThrow()
+    exitScriptPermissionScope()
+  })
 })
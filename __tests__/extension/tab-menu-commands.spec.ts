@@ -0,0 +1,65 @@
+import {
+  clearTabMenuCommands,
+  getTabMenuCommands,
+  normalizeMenuCommandEntries,
+  setTabMenuCommands,
+  simulateTabMenuCommandsServiceWorkerRestart,
+  TAB_MENU_COMMANDS_SESSION_KEY,
+} from '@ext/shared/tab-menu-commands'
+
+describe('tab-menu-commands', () => {
+  const tabId = 7
+  let sessionBlob: Record<string, unknown>
+
+  beforeEach(() => {
+    sessionBlob = {}
+    simulateTabMenuCommandsServiceWorkerRestart()
+    global.chrome = {
+      storage: {
+        session: {
+          get: jest.fn(async (key: string) => (sessionBlob[key] != null ? { [key]: sessionBlob[key] } : {})),
+          set: jest.fn(async (items: Record<string, unknown>) => {
+            Object.assign(sessionBlob, items)
+          }),
+        },
+      },
+    } as unknown as typeof chrome
+  })
+
+  it('should keep well-formed commands and drop duplicates and blank captions', () => {
+    expect(
+      normalizeMenuCommandEntries([
+        { id: 'menu-1', caption: ' Toggle dark mode ', accessKey: 'dk', file: 'dark.ts', scriptKey: 'key' },
+        { id: 'menu-1', caption: 'Duplicate' },
+        { id: 'menu-2', caption: '   ' },
+        { id: 3, caption: 'Numeric id' },
+        { id: 'menu-4', caption: 'Stay open', autoClose: false, title: 'Keeps the popup open' },
+      ])
+    ).toEqual([
+      { id: 'menu-1', caption: 'Toggle dark mode', accessKey: 'd', file: 'dark.ts', scriptKey: 'key' },
+      { id: 'menu-4', caption: 'Stay open', title: 'Keeps the popup open', autoClose: false },
+    ])
+    expect(normalizeMenuCommandEntries('nope')).toEqual([])
+  })
+
+  it('should restore commands after a service worker restart', async () => {
+    await setTabMenuCommands(tabId, [{ id: 'menu-1', caption: 'Export' }])
+
+    simulateTabMenuCommandsServiceWorkerRestart()
+
+    expect(await getTabMenuCommands(tabId)).toEqual([{ id: 'menu-1', caption: 'Export' }])
+    expect(sessionBlob[TAB_MENU_COMMANDS_SESSION_KEY]).toEqual({ [tabId]: [{ id: 'menu-1', caption: 'Export' }] })
+  })
+
+  it('should clear commands for a new document or an empty report', async () => {
+    await setTabMenuCommands(tabId, [{ id: 'menu-1', caption: 'Export' }])
+    await setTabMenuCommands(8, [{ id: 'menu-1', caption: 'Import' }])
+
+    await clearTabMenuCommands(tabId)
+    await setTabMenuCommands(8, [])
+
+    expect(await getTabMenuCommands(tabId)).toEqual([])
+    expect(await getTabMenuCommands(8)).toEqual([])
+    expect(sessionBlob[TAB_MENU_COMMANDS_SESSION_KEY]).toEqual({})
+  })
+})
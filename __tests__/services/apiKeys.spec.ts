@@ -0,0 +1,109 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { API_KEY_USAGE_FILE, API_KEYS_FILE } from '@/constants/file'
+import { API_KEY_LAST_USED_RESOLUTION_MS, authenticateApiKey, createApiKey, isScopedApiKey, listApiKeys, revokeApiKey } from '@/services/auth/apiKeys'
+import { checkScopeGrant, FULL_SCOPE_GRANT, matchesFileGlob } from '@/services/auth/apiKeyScopes'
+
+describe('API key scopes', () => {
+  it('should match flat filenames against globs', () => {
+    expect(matchesFileGlob('shop-cart.ts', 'shop-*.ts')).toBe(true)
+    expect(matchesFileGlob('shop-cart.js', 'shop-*.ts')).toBe(false)
+    expect(matchesFileGlob('a1.ts', 'a?.ts')).toBe(true)
+    expect(matchesFileGlob('a12.ts', 'a?.ts')).toBe(false)
+    expect(matchesFileGlob('demoXts', 'demo.ts')).toBe(false)
+  })
+
+  it('should allow everything for the full grant', () => {
+    expect(checkScopeGrant(FULL_SCOPE_GRANT, 'rules:write')).toBeNull()
+    expect(checkScopeGrant(FULL_SCOPE_GRANT, 'ota:publish', 'any.ts')).toBeNull()
+  })
+
+  it('should imply read access from any scope', () => {
+    expect(checkScopeGrant({ scopes: ['ota:publish'], files: [] }, 'scripts:read')).toBeNull()
+    expect(checkScopeGrant({ scopes: [], files: [] }, 'scripts:read')).toBe('API key lacks the scripts:read scope')
+  })
+
+  it('should deny missing scopes and files outside the globs', () => {
+    const grant = { scopes: ['scripts:write'] as const, files: ['shop-*.ts'] }
+    expect(checkScopeGrant(grant, 'scripts:write', 'shop-cart.ts')).toBeNull()
+    expect(checkScopeGrant(grant, 'scripts:write', 'blog.ts')).toBe('API key scripts:write scope does not cover blog.ts')
+    expect(checkScopeGrant(grant, 'ota:publish', 'shop-cart.ts')).toBe('API key lacks the ota:publish scope')
+    expect(checkScopeGrant(grant, 'rules:write')).toBe('API key lacks the rules:write scope')
+  })
+})
+
+describe('API keys', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-apikeys-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    jest.useRealTimers()
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should issue a key once and store only its hash', async () => {
+    const { apiKey, key } = await createApiKey({ name: ' CI ', scopes: ['scripts:read', 'scripts:read'], files: [' shop-*.ts ', ''], createdBy: 'alice' })
+
+    expect(isScopedApiKey(key)).toBe(true)
+    expect(key).toMatch(new RegExp(`^mmk_${apiKey.id}_`))
+    expect(apiKey).toMatchObject({ name: 'CI', scopes: ['scripts:read'], files: ['shop-*.ts'], createdBy: 'alice', expiresAt: null, lastUsedAt: null })
+    expect(apiKey).not.toHaveProperty('hash')
+
+    const stored = await readFile(join(directory, API_KEYS_FILE), 'utf8')
+    expect(stored).not.toContain(key)
+    expect(await listApiKeys()).toEqual([apiKey])
+  })
+
+  it('should reject invalid input', async () => {
+    await expect(createApiKey({ name: ' ', scopes: ['scripts:read'], createdBy: 'alice' })).rejects.toThrow('API key name is required')
+    await expect(createApiKey({ name: 'x', scopes: [], createdBy: 'alice' })).rejects.toThrow('API key needs at least one valid scope')
+    await expect(createApiKey({ name: 'x', scopes: ['admin' as never], createdBy: 'alice' })).rejects.toThrow('API key needs at least one valid scope')
+    await expect(createApiKey({ name: 'x', scopes: ['scripts:write'], files: ['dir/*.ts'], createdBy: 'alice' })).rejects.toThrow('cannot contain path separators')
+    await expect(createApiKey({ name: 'x', scopes: ['scripts:read'], expiresAt: Date.now() - 1, createdBy: 'alice' })).rejects.toThrow('API key expiry must be in the future')
+  })
+
+  it('should authenticate issued keys and reject tampered, expired and revoked ones', async () => {
+    const { apiKey, key } = await createApiKey({ name: 'CI', scopes: ['scripts:write'], expiresAt: Date.now() + 60_000, createdBy: 'alice' })
+
+    expect(await authenticateApiKey(key)).toMatchObject({ id: apiKey.id, scopes: ['scripts:write'] })
+    expect(await authenticateApiKey(`${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`)).toBeNull()
+    expect(await authenticateApiKey('not-a-key')).toBeNull()
+
+    jest.useFakeTimers({ now: Date.now() + 120_000 })
+    expect(await authenticateApiKey(key)).toBeNull()
+    jest.useRealTimers()
+
+    await revokeApiKey(apiKey.id)
+    expect(await authenticateApiKey(key)).toBeNull()
+    await expect(revokeApiKey(apiKey.id)).rejects.toThrow(`API key ${apiKey.id} not found`)
+  })
+
+  it('should record last use at a coarse resolution', async () => {
+    const start = Date.now()
+    jest.useFakeTimers({ now: start })
+    const { apiKey, key } = await createApiKey({ name: 'CI', scopes: ['scripts:read'], createdBy: 'alice' })
+    const storedKeys = await readFile(join(directory, API_KEYS_FILE), 'utf8')
+
+    await authenticateApiKey(key)
+    expect((await listApiKeys())[0].lastUsedAt).toBe(start)
+    // Authentication writes only the usage file, never the key list a revoke changes.
+    expect(await readFile(join(directory, API_KEYS_FILE), 'utf8')).toBe(storedKeys)
+    expect(JSON.parse(await readFile(join(directory, API_KEY_USAGE_FILE), 'utf8')).lastUsedAt).toEqual({ [apiKey.id]: start })
+
+    jest.setSystemTime(start + 1000)
+    await authenticateApiKey(key)
+    expect((await listApiKeys())[0].lastUsedAt).toBe(start)
+
+    jest.setSystemTime(start + API_KEY_LAST_USED_RESOLUTION_MS)
+    await authenticateApiKey(key)
+    expect((await listApiKeys())[0].lastUsedAt).toBe(start + API_KEY_LAST_USED_RESOLUTION_MS)
+  })
+})
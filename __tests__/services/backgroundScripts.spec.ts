@@ -0,0 +1,100 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { compileRuntimeScriptModules, isBackgroundScriptModule, toRuntimeBackgroundScript } from '@/services/runtime/moduleManifest'
+import { readManagedScriptIndex, upsertManagedScriptFile, validateManagedScriptSources } from '@/services/scripts/gistScripts'
+import { getScriptStorage } from '@/services/storage'
+import { getRemoteScriptContent } from '@/services/tampermonkey/createUserScript.server'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+// Only createUserScript formats; loading the real module needs ESM support in Jest
+jest.mock('prettier', () => ({ format: jest.fn() }))
+
+const POLLER_SCRIPT = `// ==UserScript==
+// @name         Poller
+// @version      1.0.0
+// @run-at       background
+// @schedule     */15 * * * *
+// @connect      api.example.com
+// ==/UserScript==
+
+GM_xmlhttpRequest({ url: 'https://api.example.com/status', onload: (res) => GME_notification(res.responseText) })
+`
+
+const PAGE_SCRIPT = `// ==UserScript==
+// @name         Page
+// @version      1.0.0
+// @match        https://example.com/*
+// ==/UserScript==
+
+console.log('page')
+`
+
+describe('background scripts', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-background-scripts-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should keep background scripts out of page bundles and compile them without a URL guard', async () => {
+    const bundle = await getRemoteScriptContent({ 'poller.ts': POLLER_SCRIPT, 'page.ts': PAGE_SCRIPT }, { strictCompile: true, scriptBuiltAt: 1 })
+    expect(bundle).toContain('// page.ts')
+    expect(bundle).not.toContain('poller.ts')
+
+    const payload = await getRemoteScriptContent({ 'poller.ts': POLLER_SCRIPT }, { strictCompile: true, scriptBuiltAt: 1, includeBackground: true })
+    expect(payload).toContain('// poller.ts')
+    expect(payload).toContain('api.example.com/status')
+    expect(payload).not.toContain('matchScript(')
+  })
+
+  it('should list background scripts apart from page modules in the manifest', async () => {
+    await upsertManagedScriptFile('poller.ts', POLLER_SCRIPT)
+    await upsertManagedScriptFile('page.ts', PAGE_SCRIPT)
+    const index = await readManagedScriptIndex()
+    const snapshot = await getScriptStorage().fetchSnapshot()
+    const files = Object.fromEntries(Object.entries(snapshot.files).map(([name, file]) => [name, { content: file.content }]))
+
+    const compiled = await compileRuntimeScriptModules(index.scripts, files, 1)
+    expect(compiled.filter((module) => !isBackgroundScriptModule(module)).map(({ script }) => script.filename)).toEqual(['page.ts'])
+
+    const background = compiled.filter(isBackgroundScriptModule).map((module) => toRuntimeBackgroundScript('https://scripts.example.com', 'key', module))
+    expect(background).toEqual([
+      {
+        file: 'poller.ts',
+        schedule: '*/15 * * * *',
+        connect: ['api.example.com'],
+        track: 'alpha',
+        url: expect.stringContaining('/static/key/'),
+        hash: { algorithm: 'sha1', value: expect.stringMatching(/^[0-9a-f]{40}$/) },
+      },
+    ])
+  })
+
+  it('should require a valid @schedule on background scripts', async () => {
+    const [missing, invalid, stray] = await validateManagedScriptSources({
+      'missing.ts': POLLER_SCRIPT.replace('// @schedule     */15 * * * *\n', ''),
+      'invalid.ts': POLLER_SCRIPT.replace('*/15 * * * *', '*/15 * *'),
+      'stray.ts': PAGE_SCRIPT.replace('// ==/UserScript==', '// @schedule @hourly\n// ==/UserScript=='),
+    })
+
+    expect(missing.ok).toBe(false)
+    expect(missing.diagnostics).toContain('@schedule is required for @run-at background scripts')
+    expect(invalid.ok).toBe(false)
+    expect(invalid.diagnostics[0]).toContain('must have 5 fields')
+    expect(stray.ok).toBe(true)
+    expect(stray.details).toEqual([expect.objectContaining({ severity: 'warning', message: '@schedule only applies to @run-at background scripts' })])
+  })
+})
@@ -0,0 +1,101 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { previewScriptCompile } from '@/services/runtime/compilePreview'
+import { upsertManagedScriptFile } from '@/services/scripts/gistScripts'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+// Only createUserScript formats; loading the real module needs ESM support in Jest
+jest.mock('prettier', () => ({ format: jest.fn() }))
+
+function userscript(name: string, body: string, extraHeader = ''): string {
+  return `// ==UserScript==
+// @name         ${name}
+// @version      1.0.0
+// @match        https://example.com/*
+${extraHeader}// ==/UserScript==
+
+${body}
+`
+}
+
+describe('compile preview', () => {
+  const originalEnv = process.env
+  const baseUrl = 'https://scripts.example.com'
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-compile-preview-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+    await upsertManagedScriptFile('demo.js', userscript('Demo', "console.log('v1')", '// @grant        GM_setValue\n'))
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should compile changed buffers without writing them', async () => {
+    const stored = await readFile(join(directory, 'demo.js'), 'utf8')
+    const preview = await previewScriptCompile([{ file: 'demo.js', content: userscript('Demo', "console.log('v2')", '// @grant        GM_setValue\n') }], { baseUrl })
+
+    expect(preview.diagnostics).toEqual([])
+    expect(preview.modules).toHaveLength(1)
+    expect(preview.modules[0]).toMatchObject({ file: 'demo.js', track: 'alpha' })
+    expect(preview.modules[0].content).toContain("console.log('v2')")
+    expect(preview.modules[0].previousHash).not.toBe(preview.modules[0].hash)
+    expect(preview.manifest.scriptModules).toEqual([expect.objectContaining({ file: 'demo.js', type: 'changed' })])
+    expect(preview.manifest.scriptModules[0].after?.url).toContain(`${baseUrl}/static/`)
+    expect(await readFile(join(directory, 'demo.js'), 'utf8')).toBe(stored)
+  })
+
+  it('should report added and removed modules with collected grants and connects', async () => {
+    const preview = await previewScriptCompile(
+      [
+        { file: 'demo.js', content: null },
+        {
+          file: 'fetcher.js',
+          content: userscript('Fetcher', "GM_xmlhttpRequest({ url: 'https://api.example.com' })", '// @grant        GM_xmlhttpRequest\n// @connect      api.example.com\n'),
+        },
+      ],
+      { baseUrl, saveAsDebug: true }
+    )
+
+    expect(preview.manifest.scriptModules.map(({ file, type }) => [file, type])).toEqual([
+      ['demo.js', 'removed'],
+      ['fetcher.js', 'added'],
+    ])
+    expect(preview.manifest.scriptPolicies.map(({ file, before, after }) => [file, Boolean(before), Boolean(after)])).toEqual([
+      ['demo.js', true, false],
+      ['fetcher.js', false, true],
+    ])
+    expect(preview.grants).toEqual({ values: ['GM_xmlhttpRequest'], added: ['GM_xmlhttpRequest'], removed: ['GM_setValue'] })
+    expect(preview.connects).toEqual({ values: ['api.example.com'], added: ['api.example.com'], removed: [] })
+  })
+
+  it('should return positioned diagnostics for files that fail to transpile', async () => {
+    const preview = await previewScriptCompile([{ file: 'demo.js', content: userscript('Demo', 'const = 1') }], { baseUrl })
+
+    expect(preview.diagnostics).toContainEqual(expect.objectContaining({ file: 'demo.js', line: 7, column: 9, severity: 'error', code: 'TS1134' }))
+    expect(preview.diagnostics.every((diagnostic) => diagnostic.file === 'demo.js' && diagnostic.code !== 'compile')).toBe(true)
+    expect(preview.modules).toEqual([])
+    expect(preview.manifest.scriptModules).toEqual([expect.objectContaining({ file: 'demo.js', type: 'removed' })])
+  })
+
+  it('should include importers whose payload changes with a helper', async () => {
+    await upsertManagedScriptFile('helper.js', userscript('Helper', "export function greet() { return 'hi' }"))
+    await upsertManagedScriptFile('main.js', userscript('Main', "import { greet } from './helper'\nconsole.log(greet())"))
+
+    const preview = await previewScriptCompile([{ file: 'helper.js', content: userscript('Helper', "export function greet() { return 'hello' }") }], { baseUrl })
+
+    expect(preview.diagnostics).toEqual([])
+    expect(preview.modules.map((module) => module.file)).toEqual(['helper.js', 'main.js'])
+    expect(preview.modules.find((module) => module.file === 'main.js')?.content).toContain("'hello'")
+    expect(preview.modules.some((module) => module.file === 'demo.js')).toBe(false)
+  })
+})
@@ -14,6 +14,7 @@ import {
   updateManagedScriptIndexMetadata,
   upsertManagedScriptFile,
   validateManagedScriptFile,
+  validateManagedScriptSources,
 } from '@/services/scripts/gistScripts'
 
 jest.mock('@/services/gist', () => ({
@@ -23,6 +24,11 @@ jest.mock('@/services/gist', () => ({
   writeGistFiles: jest.fn(),
 }))
 
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
 const scriptContent = `// ==UserScript==
 // @name Demo Script
 // @version 1.0.0
@@ -297,6 +303,10 @@ describe('gist script token-efficient editing helpers', () => {
             file: 'demo.ts',
             content: expect.stringContaining("const label = 'Copy TSV'"),
           },
+          {
+            file: 'magickmonkey.scripts.revisions.json',
+            content: expect.any(String),
+          },
           {
             file: 'magickmonkey.scripts.index.json',
             content: expect.any(String),
@@ -378,6 +388,10 @@ describe('gist script token-efficient editing helpers', () => {
           file: 'other.ts',
           content: expect.stringContaining("const ready = true\nconsole.log('other')"),
         },
+        {
+          file: 'magickmonkey.scripts.revisions.json',
+          content: expect.any(String),
+        },
         {
           file: 'magickmonkey.scripts.index.json',
           content: expect.any(String),
@@ -478,6 +492,7 @@ describe('gist script token-efficient editing helpers', () => {
           closeCount: 1,
         },
         diagnostics: [],
+        details: [],
       })
     })
 
@@ -512,6 +527,58 @@ console.log('bad')
       expect(result.diagnostics).toContain('@version must be semver x.x.x or x.x.x-prerelease (got "0.1")')
     })
 
+    it('reports unresolvable imports and missing exports against stored scripts', async () => {
+      const importer = `// ==UserScript==
+// @name Importer
+// @version 1.0.0
+// ==/UserScript==
+
+import { run, label } from './demo'
+import { helper } from './missing'
+console.log(run, label, helper)
+`
+      const demoModule = scriptContent.replace('function run()', 'export function run()')
+      mockGist({ 'demo.ts': demoModule, 'importer.ts': importer })
+      mockRead({ 'importer.ts': importer })
+
+      const result = await validateManagedScriptFile('importer.ts')
+
+      expect(result.ok).toBe(false)
+      expect(result.diagnostics).toEqual([
+        'importer.ts (7:1): Cannot resolve import "./missing"; imports must name a managed script ("./name")',
+        'importer.ts (6:1): "./demo" has no export named "label"',
+      ])
+    })
+
+    it('type-checks against GM typings and stored scripts when requested', async () => {
+      const checked = `// ==UserScript==
+// @name Checked
+// @version 1.0.0
+// ==/UserScript==
+
+GME_waitFor(() => document.body, { contianer: document.body })
+`
+      mockGist({ 'demo.ts': scriptContent, 'checked.ts': checked })
+      mockRead({ 'checked.ts': checked })
+
+      expect((await validateManagedScriptFile('checked.ts')).ok).toBe(true)
+
+      const result = await validateManagedScriptFile('checked.ts', { typeCheck: true })
+      expect(result.ok).toBe(false)
+      expect(result.details).toEqual([expect.objectContaining({ file: 'checked.ts', line: 6, column: 36, severity: 'error' })])
+      expect(result.diagnostics[0]).toMatch(/^checked\.ts \(6:36\): .*contianer/)
+    })
+
+    it('validates unsaved sources over the stored scripts', async () => {
+      mockGist({ 'demo.ts': scriptContent })
+      const importer = scriptContent.replace("const label = 'Copy CSV'", "import { run } from './demo'\nconst label = 'Copy CSV'")
+      const exporter = scriptContent.replace('function run()', 'export function run()')
+
+      const [demo, next] = await validateManagedScriptSources({ 'demo.ts': exporter, 'next.ts': importer }, { typeCheck: true })
+      expect(demo.details).toEqual([])
+      expect(next.details).toEqual([expect.objectContaining({ code: 'TS2440' })])
+    })
+
     it('rejects upsert when @version is not semver x.x.x', async () => {
       await expect(
         upsertManagedScriptFile(
@@ -581,5 +648,24 @@ console.log('bad')
       const index = getWrittenIndex()
       expect(index.scripts[0].updatedAt).toBeGreaterThan(before)
     })
+
+    it('attributes content changes to the current actor and keeps earlier attribution for unchanged files', async () => {
+      mockGist({ 'demo.ts': scriptContent, 'other.ts': otherScriptContent })
+      await upsertManagedScriptFile('demo.ts', scriptContent)
+      const firstIndex = getWrittenIndex()
+      const otherEntry = firstIndex.scripts.find((script: { filename: string }) => script.filename === 'other.ts')
+
+      mockGist({
+        'demo.ts': scriptContent,
+        'other.ts': otherScriptContent,
+        'magickmonkey.scripts.index.json': JSON.stringify({ ...firstIndex, scripts: [{ ...otherEntry, updatedBy: 'bob', publishedBy: 'bob', publishedAt: 1 }] }),
+      })
+      mockWriteGistFiles.mockClear()
+      await upsertManagedScriptFile('demo.ts', scriptContent.replace('Demo Script', 'Demo Script v2'))
+
+      const index = getWrittenIndex()
+      expect(index.scripts.find((script: { filename: string }) => script.filename === 'demo.ts')).toMatchObject({ updatedBy: 'alice' })
+      expect(index.scripts.find((script: { filename: string }) => script.filename === 'other.ts')).toMatchObject({ updatedBy: 'bob', publishedBy: 'bob', publishedAt: 1 })
+    })
   })
 })
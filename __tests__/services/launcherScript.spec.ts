@@ -0,0 +1,86 @@
+import { createLauncherScript } from '@/services/tampermonkey/launcherScript'
+
+describe('launcherScript', () => {
+  const script = createLauncherScript({
+    baseUrl: 'https://webscripts.example.com',
+    key: 'abc123',
+    launcherScriptUrl: 'https://webscripts.example.com/static/abc123/tampermonkey.user.js',
+  })
+
+  /** Evaluate the launcher's `createGmNamespace` against stubbed Tampermonkey grants. */
+  const loadGmNamespace = (grants: Record<string, unknown>) => {
+    const source = script.slice(script.indexOf('  function createGmNamespace()'), script.indexOf('  function runPreset('))
+    const names = Object.keys(grants)
+    return new Function(...names, `${source}\nreturn createGmNamespace();`)(...names.map((name) => grants[name]))
+  }
+
+  const stubGrants = (overrides: Record<string, unknown> = {}) => {
+    const grants: Record<string, unknown> = {}
+    for (const line of script.match(/\/\/ @grant\s+\S+/g) ?? []) {
+      grants[line.replace(/\/\/ @grant\s+/, '')] = jest.fn()
+    }
+    grants.GM_cookie = { list: jest.fn(), set: jest.fn(), delete: jest.fn() }
+    grants.GM = undefined
+    return { ...grants, ...overrides }
+  }
+
+  it('should parse and pass GM to remote scripts through the grants string', () => {
+    expect(() => new Function(script)).not.toThrow()
+    expect(script).toContain("...(typeof GM !== 'undefined' ? { GM } : {})")
+    expect(script).not.toMatch(/\/\/ @grant\s+GM\n/)
+  })
+
+  it('should wrap GM_* callbacks in promises', async () => {
+    const gm = loadGmNamespace(
+      stubGrants({
+        GM_getValue: (key: string, defaultValue: unknown) => (key === 'a' ? 1 : defaultValue),
+        GM_xmlhttpRequest: (details: { url: string; onload: (res: unknown) => void; onerror: (res: unknown) => void }) => {
+          if (details.url.includes('fail')) {
+            details.onerror({ error: 'Refused to connect' })
+          } else {
+            details.onload({ status: 200, responseText: 'ok' })
+          }
+          return { abort: jest.fn() }
+        },
+        GM_setClipboard: (_data: string, _info: unknown, done: () => void) => done(),
+      })
+    )
+
+    await expect(gm.getValue('a')).resolves.toBe(1)
+    await expect(gm.getValue('b', 'fallback')).resolves.toBe('fallback')
+    await expect(gm.setClipboard('copied')).resolves.toBeUndefined()
+    await expect(gm.xmlHttpRequest({ url: 'https://example.com/' })).resolves.toEqual({ status: 200, responseText: 'ok' })
+    await expect(gm.xmlHttpRequest({ url: 'https://example.com/fail' })).rejects.toThrow('Refused to connect')
+    expect(typeof gm.xmlHttpRequest({ url: 'https://example.com/' }).abort).toBe('function')
+  })
+
+  it('should only add members for granted functions', async () => {
+    const gm = loadGmNamespace({ GM_getValue: () => 1, GM_info: { script: { name: 'demo' } } })
+
+    expect(Object.keys(gm).sort()).toEqual(['getValue', 'info'])
+    await expect(gm.getValue('a')).resolves.toBe(1)
+  })
+
+  it('should reject when a callback or onerror reports a failure', async () => {
+    const gm = loadGmNamespace(
+      stubGrants({
+        GM_saveTab: (_tab: unknown, done: (error?: string) => void) => done('quota exceeded'),
+        GM_setClipboard: (_data: string, _info: unknown, done: (error?: string) => void) => done('Document is not focused'),
+        GM_notification: (details: { onerror?: (error: unknown) => void }) => details.onerror?.({ error: 'Notifications blocked' }),
+      })
+    )
+
+    await expect(gm.saveTab({ step: 1 })).rejects.toThrow('quota exceeded')
+    await expect(gm.setClipboard('copied')).rejects.toThrow('Document is not focused')
+    await expect(gm.notification({ text: 'hi' })).rejects.toThrow('Notifications blocked')
+  })
+
+  it("should keep Tampermonkey's own GM methods", () => {
+    const nativeGetValue = jest.fn()
+    const gm = loadGmNamespace(stubGrants({ GM: { getValue: nativeGetValue, info: { scriptHandler: 'Tampermonkey' } } }))
+
+    expect(gm.getValue).toBe(nativeGetValue)
+    expect(gm.info).toEqual({ scriptHandler: 'Tampermonkey' })
+    expect(typeof gm.setValue).toBe('function')
+  })
+})
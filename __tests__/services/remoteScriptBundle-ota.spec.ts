@@ -1,4 +1,4 @@
-import { buildScriptFilesForBundleTrack, resolveScriptSourceForBundleTrack } from '@/shared/script-bundle-track'
+import { buildScriptFilesForBundleTrack, resolveRolloutBaselineSource, resolveScriptSourceForBundleTrack } from '@/shared/script-bundle-track'
 
 describe('remoteScriptBundle OTA tracks', () => {
   it('should exclude alpha scripts from stable bundle sources', () => {
@@ -23,6 +23,18 @@ describe('remoteScriptBundle OTA tracks', () => {
     expect(resolveScriptSourceForBundleTrack(script, gistFiles, 'stable')).toBe('v1')
   })
 
+  it('should serve the candidate on stable track and the baseline only on request during an active rollout', () => {
+    const rollout = { version: '1.1.0', baselineVersion: '1.0.0', percent: 10, status: 'active' as const, failureThreshold: 0.05, minSamples: 20, autoPromote: true, startedAt: 0 }
+    const script = { filename: 'demo.ts', ota: { stage: 'stable' as const, autoUpgrade: true, rollout } }
+    const gistFiles = {
+      'demo.ts': { content: 'v1.1' },
+      'releases.demo.ts@1.0.0': { content: 'v1' },
+    }
+    expect(resolveScriptSourceForBundleTrack(script, gistFiles, 'stable')).toBe('v1.1')
+    expect(resolveRolloutBaselineSource(script, gistFiles)).toBe('v1')
+    expect(resolveRolloutBaselineSource({ ...script, ota: { ...script.ota, rollout: { ...rollout, status: 'rolled-back' as const } } }, gistFiles)).toBeNull()
+  })
+
   it('should build stable files map without alpha-only scripts', () => {
     const stable = { filename: 'a.ts', ota: { stage: 'stable' as const, autoUpgrade: true } }
     const alpha = { filename: 'b.ts', ota: { stage: 'alpha' as const, autoUpgrade: false } }
@@ -0,0 +1,124 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { ENTRY_SCRIPT_RULES_FILE } from '@/constants/file'
+import { buildRuntimeRuleSet, getRuleSetReleaseStatus, hashRuleSetContent, publishRuleSet, resolveServedRuleSet, rollbackRuleSet } from '@/services/scripts/ruleSetReleases'
+import { getScriptStorage } from '@/services/storage'
+import { selectRuntimeRuleSet } from '@/shared/rule-set-ota'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+function rules(...wildcards: string[]): string {
+  return JSON.stringify(wildcards.map((wildcard, index) => ({ id: String(index + 1), wildcard, script: 'demo.ts' })))
+}
+
+async function writeRules(content: string): Promise<void> {
+  await getScriptStorage().writeFile(ENTRY_SCRIPT_RULES_FILE, content)
+}
+
+async function readFiles() {
+  return (await getScriptStorage().fetchSnapshot()).files
+}
+
+describe('selectRuntimeRuleSet', () => {
+  const ruleSet = { url: 'https://a.test/rule?version=2', hash: 'stable', version: 2, alpha: { url: 'https://a.test/rule?track=alpha', hash: 'working' } }
+
+  it('should give alpha clients the working rules and everyone else the stable release', () => {
+    expect(selectRuntimeRuleSet(ruleSet, 'alpha')).toEqual({ url: 'https://a.test/rule?track=alpha', hash: 'working' })
+    expect(selectRuntimeRuleSet(ruleSet, 'stable')).toEqual({ url: 'https://a.test/rule?version=2', hash: 'stable', version: 2 })
+    expect(selectRuntimeRuleSet({ url: 'https://a.test/rule', hash: 'x' }, 'alpha')).toEqual({ url: 'https://a.test/rule', hash: 'x' })
+    expect(selectRuntimeRuleSet(undefined, 'stable')).toBeNull()
+  })
+})
+
+describe('rule set releases', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-rule-set-releases-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should serve the working rules to every track before the first publish', async () => {
+    await writeRules(rules('https://a.com/*'))
+    const files = await readFiles()
+
+    expect(resolveServedRuleSet(files, 'stable')).toEqual({ content: rules('https://a.com/*'), hash: hashRuleSetContent(rules('https://a.com/*')) })
+    expect(buildRuntimeRuleSet('https://scripts.test', 'key', files)).toEqual({
+      url: 'https://scripts.test/api/tampermonkey/key/rule',
+      hash: hashRuleSetContent(rules('https://a.com/*')),
+    })
+    expect(await getRuleSetReleaseStatus()).toEqual({
+      stableVersion: null,
+      releases: [],
+      workingHash: hashRuleSetContent(rules('https://a.com/*')),
+      unpublishedChanges: false,
+    })
+  })
+
+  it('should keep stable clients on the published release while edits stage to alpha', async () => {
+    await writeRules(rules('https://a.com/*'))
+    const published = await publishRuleSet()
+    expect(published.stableVersion).toBe(1)
+    expect(published.releases).toEqual([expect.objectContaining({ version: 1, hash: hashRuleSetContent(rules('https://a.com/*')), publishedBy: 'alice' })])
+
+    await writeRules(rules('https://a.com/*', 'https://b.com/*'))
+    const files = await readFiles()
+
+    expect(resolveServedRuleSet(files, 'stable')?.content).toBe(rules('https://a.com/*'))
+    expect(resolveServedRuleSet(files, 'alpha')?.content).toBe(rules('https://a.com/*', 'https://b.com/*'))
+    expect(buildRuntimeRuleSet('https://scripts.test', 'key', files)).toEqual({
+      url: 'https://scripts.test/api/tampermonkey/key/rule?version=1',
+      hash: hashRuleSetContent(rules('https://a.com/*')),
+      version: 1,
+      alpha: { url: 'https://scripts.test/api/tampermonkey/key/rule?track=alpha', hash: hashRuleSetContent(rules('https://a.com/*', 'https://b.com/*')) },
+    })
+    expect((await getRuleSetReleaseStatus()).unpublishedChanges).toBe(true)
+  })
+
+  it('should reject publishing unchanged or malformed rules', async () => {
+    await expect(publishRuleSet()).rejects.toThrow(`${ENTRY_SCRIPT_RULES_FILE} does not exist`)
+
+    await writeRules('{"wildcard":"https://a.com/*"}')
+    await expect(publishRuleSet()).rejects.toThrow(`${ENTRY_SCRIPT_RULES_FILE} is not a JSON array of rules`)
+
+    await writeRules(rules('https://a.com/*'))
+    await publishRuleSet()
+    await expect(publishRuleSet()).rejects.toThrow('Rule set 1 already matches the working rules')
+  })
+
+  it('should roll stable clients back without touching the working rules', async () => {
+    await expect(rollbackRuleSet()).rejects.toThrow('Rules have not been published yet')
+
+    await writeRules(rules('https://a.com/*'))
+    await publishRuleSet()
+    await expect(rollbackRuleSet()).rejects.toThrow('No release before rule set 1 to roll back to')
+
+    await writeRules(rules('https://b.com/*'))
+    await publishRuleSet()
+    await expect(rollbackRuleSet(2)).rejects.toThrow('Rule set 2 is already stable')
+    await expect(rollbackRuleSet(7)).rejects.toThrow('Rule set 7 does not exist')
+
+    const status = await rollbackRuleSet()
+    expect(status.stableVersion).toBe(1)
+    expect(status.releases.map((release) => release.version)).toEqual([2, 1])
+
+    const files = await readFiles()
+    expect(resolveServedRuleSet(files, 'stable')).toEqual(expect.objectContaining({ content: rules('https://a.com/*'), version: 1 }))
+    expect(files[ENTRY_SCRIPT_RULES_FILE].content).toBe(rules('https://b.com/*'))
+
+    // Publishing again continues the release numbering
+    await writeRules(rules('https://c.com/*'))
+    expect((await publishRuleSet()).stableVersion).toBe(3)
+  })
+})
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto'
+import { lookup } from 'dns/promises'
+import { EventEmitter } from 'events'
+import type { IncomingMessage, RequestOptions } from 'http'
+import { request as httpsRequest } from 'https'
+import type { LookupFunction } from 'net'
+import { Readable } from 'stream'
+
+import { SCRIPT_ASSETS_FILE } from '@/constants/file'
+import {
+  buildScriptAssetStoragePath,
+  buildScriptAssetWrites,
+  createScriptAssetResolver,
+  parseScriptAssetLock,
+  parseScriptAssetRefs,
+  readPinnedScriptAsset,
+  SCRIPT_ASSET_MAX_BYTES,
+  verifyScriptAssetIntegrity,
+} from '@/services/scripts/scriptAssets'
+import type { ScriptStorageFile, ScriptStorageWrite } from '@/services/storage'
+
+jest.mock('dns/promises', () => ({
+  lookup: jest.fn(async (host: string) => [{ address: host === 'intranet.example.com' ? '10.0.0.5' : '93.184.216.34', family: 4 }]),
+}))
+
+jest.mock('http', () => ({ request: jest.fn((url: URL, options: unknown, callback: unknown) => mockRequest(url, options, callback)) }))
+jest.mock('https', () => ({ request: jest.fn((url: URL, options: unknown, callback: unknown) => mockRequest(url, options, callback)) }))
+
+const LIB_URL = 'https://cdn.example.com/lib.js'
+const CSS_URL = 'https://cdn.example.com/style.css'
+const IMG_URL = 'https://cdn.example.com/icon.png'
+
+const BODIES: Record<string, { body: Buffer; type: string }> = {
+  [LIB_URL]: { body: Buffer.from('window.lib = 1\n'), type: 'application/javascript' },
+  [CSS_URL]: { body: Buffer.from('body { color: red }'), type: 'text/css; charset=utf-8' },
+  [IMG_URL]: { body: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]), type: 'image/png' },
+}
+
+const REDIRECTS: Record<string, string> = {
+  'https://cdn.example.com/moved.js': '/lib.js',
+  'https://cdn.example.com/metadata.js': 'http://[::ffff:169.254.169.254]/latest/meta-data',
+}
+
+/** Serves BODIES / REDIRECTS in place of a real connection */
+function mockRequest(url: URL, _options: unknown, callback: unknown) {
+  const respond = callback as (message: IncomingMessage) => void
+  return Object.assign(new EventEmitter(), {
+    end() {
+      const redirect = REDIRECTS[url.href]
+      const asset = BODIES[url.href]
+      const [statusCode, statusMessage, headers, body] = redirect
+        ? [302, 'Found', { location: redirect }, null]
+        : asset
+          ? [200, 'OK', { 'content-type': asset.type }, asset.body]
+          : [404, 'Not Found', {}, Buffer.from('missing')]
+      respond(Object.assign(Readable.from(body ? [body] : []), { statusCode, statusMessage, headers }) as unknown as IncomingMessage)
+    },
+  })
+}
+
+function sha1(bytes: Buffer): string {
+  return createHash('sha1').update(bytes).digest('hex')
+}
+
+function script(headers: string[]): string {
+  return ['// ==UserScript==', '// @name Demo', '// @match https://example.com/*', ...headers, '// ==/UserScript==', '', "console.log('x')", ''].join('\n')
+}
+
+function apply(files: Record<string, ScriptStorageFile>, writes: ScriptStorageWrite[]): Record<string, ScriptStorageFile> {
+  const next = { ...files }
+  for (const { file, content } of writes) {
+    if (content === null) {
+      delete next[file]
+    } else {
+      next[file] = { content }
+    }
+  }
+  return next
+}
+
+describe('script assets', () => {
+  const requestMock = jest.mocked(httpsRequest)
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should parse @require and @resource references with integrity fragments', () => {
+    const refs = parseScriptAssetRefs(script([`// @require ${LIB_URL}#sha256=ABC`, `// @resource css ${CSS_URL}`, '// @resource broken']))
+    expect(refs).toEqual([
+      { kind: 'require', url: LIB_URL, integrity: 'sha256=ABC' },
+      { kind: 'resource', name: 'css', url: CSS_URL },
+    ])
+    expect(parseScriptAssetRefs("console.log('no header')")).toEqual([])
+  })
+
+  it('should verify sha256 hex and sha384 base64 digests', () => {
+    const bytes = BODIES[LIB_URL].body
+    const hex = createHash('sha256').update(bytes).digest('hex')
+    const b64 = createHash('sha384').update(bytes).digest('base64')
+    expect(verifyScriptAssetIntegrity(bytes, `sha256=${hex.toUpperCase()}`)).toBe(true)
+    expect(verifyScriptAssetIntegrity(bytes, `sha384-${b64}`)).toBe(true)
+    expect(verifyScriptAssetIntegrity(bytes, 'sha256=00')).toBe(false)
+    expect(verifyScriptAssetIntegrity(bytes, 'md5=00')).toBe(false)
+  })
+
+  it('should pin new assets and write the lock', async () => {
+    const writes = [{ file: 'demo.ts', content: script([`// @require ${LIB_URL}`, `// @resource icon ${IMG_URL}`]) }]
+    const assetWrites = await buildScriptAssetWrites({}, writes)
+
+    const pinned = [buildScriptAssetStoragePath(sha1(BODIES[IMG_URL].body)), buildScriptAssetStoragePath(sha1(BODIES[LIB_URL].body))]
+    expect(assetWrites.map((write) => write.file)).toEqual([...pinned, SCRIPT_ASSETS_FILE])
+    const lock = parseScriptAssetLock(assetWrites[2].content!)
+    expect(lock.assets[LIB_URL]).toMatchObject({ encoding: 'utf8', byteLength: BODIES[LIB_URL].body.byteLength })
+    expect(lock.assets[IMG_URL]).toMatchObject({ encoding: 'base64', contentType: 'image/png' })
+    expect(lock.assets[LIB_URL].integrity).toMatch(/^sha384-/)
+  })
+
+  it('should reuse pinned assets without refetching', async () => {
+    const first = [{ file: 'demo.ts', content: script([`// @require ${LIB_URL}`]) }]
+    const files = apply({}, [...first, ...(await buildScriptAssetWrites({}, first))])
+    requestMock.mockClear()
+
+    const second = [{ file: 'demo.ts', content: script([`// @require ${LIB_URL}`, '// @grant none']) }]
+    expect(await buildScriptAssetWrites(files, second)).toEqual([])
+    expect(requestMock).not.toHaveBeenCalled()
+  })
+
+  it('should prune assets no script references', async () => {
+    const first = [{ file: 'demo.ts', content: script([`// @require ${LIB_URL}`]) }]
+    const files = apply({}, [...first, ...(await buildScriptAssetWrites({}, first))])
+
+    const assetWrites = await buildScriptAssetWrites(files, [{ file: 'demo.ts', content: null }])
+    expect(assetWrites[0]).toEqual({ file: buildScriptAssetStoragePath(sha1(BODIES[LIB_URL].body)), content: null })
+    expect(parseScriptAssetLock(assetWrites[1].content!).assets).toEqual({})
+  })
+
+  it('should reject assets failing their integrity hint', async () => {
+    const writes = [{ file: 'demo.ts', content: script([`// @require ${LIB_URL}#sha256=deadbeef`]) }]
+    await expect(buildScriptAssetWrites({}, writes)).rejects.toThrow('Integrity check failed')
+  })
+
+  it('should surface fetch failures', async () => {
+    const writes = [{ file: 'demo.ts', content: script(['// @require https://cdn.example.com/missing.js']) }]
+    await expect(buildScriptAssetWrites({}, writes)).rejects.toThrow('404')
+  })
+
+  it('should follow redirects but refuse hosts resolving to non-public addresses on any hop', async () => {
+    const pin = (url: string) => buildScriptAssetWrites({}, [{ file: 'demo.ts', content: script([`// @require ${url}`]) }])
+
+    await expect(pin('https://cdn.example.com/moved.js')).resolves.toContainEqual({ file: buildScriptAssetStoragePath(sha1(BODIES[LIB_URL].body)), content: 'window.lib = 1\n' })
+    await expect(pin('http://127.0.0.1:3000/api/scripts')).rejects.toThrow('non-public address 127.0.0.1')
+    await expect(pin('https://intranet.example.com/lib.js')).rejects.toThrow('non-public address 10.0.0.5')
+
+    requestMock.mockClear()
+    await expect(pin('https://cdn.example.com/metadata.js')).rejects.toThrow('non-public address ::ffff:a9fe:a9fe')
+    expect(requestMock.mock.calls.map(([url]) => (url as URL).href)).toEqual(['https://cdn.example.com/metadata.js'])
+  })
+
+  it('should connect only to the address that was checked', async () => {
+    await buildScriptAssetWrites({}, [{ file: 'demo.ts', content: script([`// @require ${LIB_URL}`]) }])
+    expect(lookup).toHaveBeenCalledTimes(1)
+
+    // The connection's lookup answers from the checked result instead of resolving again, so DNS cannot rebind it.
+    const [, options] = requestMock.mock.calls[0] as unknown as [URL, RequestOptions]
+    const pinned = await new Promise<string>((resolve) => (options.lookup as LookupFunction)('cdn.example.com', {}, (_error, address) => resolve(address as string)))
+    expect(pinned).toBe('93.184.216.34')
+    expect(lookup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should limit assets by their size as stored', async () => {
+    const url = 'https://cdn.example.com/large.png'
+    // Fits as raw bytes, but not once base64-encoded for storage.
+    BODIES[url] = { body: Buffer.alloc(Math.ceil(SCRIPT_ASSET_MAX_BYTES * 0.8)), type: 'image/png' }
+    try {
+      await expect(buildScriptAssetWrites({}, [{ file: 'demo.ts', content: script([`// @resource big ${url}`]) }])).rejects.toThrow('bytes as stored (base64)')
+    } finally {
+      delete BODIES[url]
+    }
+  })
+
+  it('should resolve pinned requires and resources from storage', async () => {
+    const writes = [{ file: 'demo.ts', content: script([`// @require ${LIB_URL}`, `// @resource css ${CSS_URL}`, `// @resource icon ${IMG_URL}`]) }]
+    const files = apply({}, [...writes, ...(await buildScriptAssetWrites({}, writes))])
+    const resolver = createScriptAssetResolver(files)
+
+    expect(resolver.require(`${LIB_URL}#sha256=ignored`)).toBe('window.lib = 1\n')
+    expect(resolver.resource(CSS_URL)?.text).toBe('body { color: red }')
+    expect(resolver.resource(IMG_URL)?.text).toBeNull()
+    expect(resolver.require('https://cdn.example.com/unknown.js')).toBeNull()
+
+    const pinned = readPinnedScriptAsset(files, sha1(BODIES[IMG_URL].body))
+    expect(pinned?.bytes.equals(BODIES[IMG_URL].body)).toBe(true)
+    expect(readPinnedScriptAsset(files, 'f'.repeat(40))).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { orderRuntimeScriptModules, type RuntimeScriptModule } from '@/services/runtime/moduleManifest'
+import { readManagedScriptIndex, rebuildManagedScriptIndex, saveManagedScriptFiles, validateManagedScriptSources } from '@/services/scripts/gistScripts'
+import { buildScriptDependencyGraph, listLoadOrderDependencies } from '@/services/scripts/scriptDependencyGraph'
+import { getScriptStorage } from '@/services/storage'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+// Only createUserScript formats; loading the real module needs ESM support in Jest
+jest.mock('prettier', () => ({ format: jest.fn() }))
+
+function script(name: string, dependsOn: string[] = []): string {
+  return `// ==UserScript==
+// @name         ${name}
+// @version      1.0.0
+// @match        https://example.com/*
+${dependsOn.map((dep) => `// @depends-on   ${dep}\n`).join('')}// ==/UserScript==
+
+console.log('${name}')
+`
+}
+
+function module(file: string, dependsOn: string[]): RuntimeScriptModule {
+  return { file, match: [], track: 'alpha', url: `https://scripts.example.com/${file}`, hash: { algorithm: 'sha1', value: file }, dependsOn }
+}
+
+describe('buildScriptDependencyGraph', () => {
+  it('should order dependencies before dependents with ties by filename', () => {
+    const graph = buildScriptDependencyGraph([
+      { filename: 'app.ts', dependsOn: ['ui.ts', 'core.ts'] },
+      { filename: 'ui.ts', dependsOn: ['core.ts'] },
+      { filename: 'core.ts' },
+      { filename: 'extra.ts' },
+    ])
+
+    expect(graph.order).toEqual(['core.ts', 'extra.ts', 'ui.ts', 'app.ts'])
+    expect(graph.issues).toEqual([])
+    expect(graph.edges).toEqual([
+      { from: 'app.ts', to: 'ui.ts', kind: 'dependsOn' },
+      { from: 'app.ts', to: 'core.ts', kind: 'dependsOn' },
+      { from: 'ui.ts', to: 'core.ts', kind: 'dependsOn' },
+    ])
+  })
+
+  it('should flag missing and cyclic dependencies and ignore cycle edges for load order', () => {
+    const graph = buildScriptDependencyGraph([
+      { filename: 'a.ts', dependsOn: ['b.ts'] },
+      { filename: 'b.ts', dependsOn: ['c.ts'] },
+      { filename: 'c.ts', dependsOn: ['a.ts', 'gone.ts'] },
+      { filename: 'd.ts', dependsOn: ['a.ts'] },
+      { filename: 'self.ts', dependsOn: ['self.ts'] },
+    ])
+
+    expect(graph.issues).toEqual([
+      { file: 'c.ts', kind: 'missing', dependency: 'gone.ts', message: '@depends-on gone.ts: no managed script with that name' },
+      { file: 'a.ts', kind: 'cycle', cycle: ['a.ts', 'b.ts', 'c.ts', 'a.ts'], message: 'Circular @depends-on: a.ts → b.ts → c.ts → a.ts' },
+      { file: 'self.ts', kind: 'cycle', cycle: ['self.ts', 'self.ts'], message: 'Circular @depends-on: self.ts → self.ts' },
+    ])
+    expect(graph.order).toEqual(['a.ts', 'b.ts', 'c.ts', 'd.ts', 'self.ts'])
+    expect(listLoadOrderDependencies(graph, 'c.ts')).toEqual([])
+    expect(listLoadOrderDependencies(graph, 'd.ts')).toEqual(['a.ts'])
+  })
+
+  it('should add import edges when sources are given', () => {
+    const sources = {
+      'app.ts': "import { helper } from './helper'\nhelper()\n",
+      'helper.ts': 'export function helper() {}\n',
+    }
+    const graph = buildScriptDependencyGraph([{ filename: 'app.ts', match: ['https://example.com/*'] }, { filename: 'helper.ts' }], sources)
+
+    expect(graph.edges).toEqual([{ from: 'app.ts', to: 'helper.ts', kind: 'import' }])
+    expect(graph.nodes[0]).toEqual({ file: 'app.ts', match: ['https://example.com/*'] })
+    // Imports are bundled, so they do not constrain load order
+    expect(graph.order).toEqual(['app.ts', 'helper.ts'])
+  })
+})
+
+describe('orderRuntimeScriptModules', () => {
+  it('should sort manifest modules topologically and drop missing and cyclic dependencies', () => {
+    const scripts = [
+      { filename: 'app.ts', byteLength: 1, dependsOn: ['core.ts', 'gone.ts'] },
+      { filename: 'core.ts', byteLength: 1, dependsOn: ['zeta.ts'] },
+      { filename: 'zeta.ts', byteLength: 1 },
+      { filename: 'x.ts', byteLength: 1, dependsOn: ['y.ts'] },
+      { filename: 'y.ts', byteLength: 1, dependsOn: ['x.ts'] },
+    ]
+    const ordered = orderRuntimeScriptModules(
+      scripts.map((entry) => module(entry.filename, entry.dependsOn ?? [])),
+      scripts
+    )
+
+    expect(ordered.map((entry) => [entry.file, entry.dependsOn])).toEqual([
+      ['x.ts', []],
+      ['y.ts', []],
+      ['zeta.ts', []],
+      ['core.ts', ['zeta.ts']],
+      ['app.ts', ['core.ts']],
+    ])
+  })
+})
+
+describe('managed script dependencies', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-script-dependencies-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should index @depends-on and record missing dependencies', async () => {
+    await saveManagedScriptFiles([
+      { file: 'core.ts', content: script('Core') },
+      { file: 'app.ts', content: script('App', ['core.ts', 'missing.ts']) },
+    ])
+
+    const index = await readManagedScriptIndex()
+    expect(index.scripts.find((entry) => entry.filename === 'app.ts')?.dependsOn).toEqual(['core.ts', 'missing.ts'])
+    expect(index.dependencyIssues).toEqual([expect.objectContaining({ file: 'app.ts', kind: 'missing', dependency: 'missing.ts' })])
+  })
+
+  it('should reject a save that closes a dependency cycle', async () => {
+    await saveManagedScriptFiles([
+      { file: 'a.ts', content: script('A', ['b.ts']) },
+      { file: 'b.ts', content: script('B') },
+    ])
+
+    await expect(saveManagedScriptFiles([{ file: 'b.ts', content: script('B', ['a.ts']) }])).rejects.toThrow('Circular @depends-on: a.ts → b.ts → a.ts')
+  })
+
+  it('should flag cycles written outside the save path when the index is rebuilt', async () => {
+    await getScriptStorage().writeFiles([
+      { file: 'a.ts', content: script('A', ['b.ts']) },
+      { file: 'b.ts', content: script('B', ['a.ts']) },
+    ])
+
+    const index = await rebuildManagedScriptIndex()
+    expect(index.dependencyIssues).toEqual([expect.objectContaining({ kind: 'cycle', cycle: ['a.ts', 'b.ts', 'a.ts'] })])
+    expect((await readManagedScriptIndex()).dependencyIssues).toEqual(index.dependencyIssues)
+  })
+
+  it('should report dependency problems when validating unsaved sources', async () => {
+    await saveManagedScriptFiles([
+      { file: 'a.ts', content: script('A', ['b.ts']) },
+      { file: 'b.ts', content: script('B') },
+    ])
+
+    const [cyclic, missing] = await validateManagedScriptSources({ 'b.ts': script('B', ['a.ts']), 'c.ts': script('C', ['nope.ts']) })
+
+    expect(cyclic.ok).toBe(false)
+    expect(cyclic.diagnostics).toContain('b.ts (1:1): Circular @depends-on: a.ts → b.ts → a.ts')
+    expect(missing.ok).toBe(true)
+    expect(missing.details).toEqual([expect.objectContaining({ severity: 'warning', message: '@depends-on nope.ts: no managed script with that name' })])
+  })
+})
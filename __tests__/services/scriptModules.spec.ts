@@ -0,0 +1,118 @@
+import * as ts from 'typescript'
+
+import { formatScriptDiagnostic } from '@/services/scripts/scriptDiagnostics'
+import { bundleScriptModule, collectScriptModuleDiagnostics, hasScriptModuleSyntax, listScriptModuleImports, resolveScriptModuleSpecifier } from '@/services/scripts/scriptModules'
+
+function header(name: string): string {
+  return `// ==UserScript==\n// @name ${name}\n// @version 1.0.0\n// ==/UserScript==\n`
+}
+
+/** Transpile a bundle the way the compiler does and run it, returning what it logged. */
+function run(source: string): unknown[] {
+  const output = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.None, target: ts.ScriptTarget.ESNext } }).outputText
+  const logs: unknown[] = []
+
+  new Function('log', output)((value: unknown) => logs.push(value))
+  return logs
+}
+
+describe('script modules', () => {
+  const modules: Record<string, string> = {
+    'shared-utils.ts': `${header('Shared utils')}
+import { pad } from './format'
+export interface Options { width: number }
+const unusedSecret = 'secret'
+export function label(text: string, options: Options) { return pad(text, options.width) + suffix() }
+function suffix() { return '!' }
+export function unused() { return unusedSecret }
+export default function () { return 'default' }
+export * from './constants'
+`,
+    'format.ts': `${header('Format')}
+export const pad = (text: string, width: number) => text.padEnd(width, '.')
+export const upper = (text: string) => text.toUpperCase()
+`,
+    'constants.ts': `${header('Constants')}
+export const GREETING = 'hi'
+export const FAREWELL = 'bye'
+`,
+  }
+
+  it('should resolve sibling managed scripts with or without extension', () => {
+    expect(resolveScriptModuleSpecifier('./format', modules)).toBe('format.ts')
+    expect(resolveScriptModuleSpecifier('./format.ts', modules)).toBe('format.ts')
+    expect(resolveScriptModuleSpecifier('../format', modules)).toBeNull()
+    expect(resolveScriptModuleSpecifier('format', modules)).toBeNull()
+    expect(resolveScriptModuleSpecifier('./missing', modules)).toBeNull()
+  })
+
+  it('should list value imports and skip type-only ones', () => {
+    expect(listScriptModuleImports(`import type { Options } from './shared-utils'\nimport { pad } from './format'\nexport * from './constants'`)).toEqual([
+      './format',
+      './constants',
+    ])
+    expect(listScriptModuleImports("console.log('no imports')")).toEqual([])
+    expect(hasScriptModuleSyntax('export const a = 1')).toBe(true)
+    expect(hasScriptModuleSyntax("const important = 'export'")).toBe(false)
+  })
+
+  it('should inline imported helpers and run them', () => {
+    const entry = `import greet, { label, GREETING, type Options } from './shared-utils'
+import * as format from './format'
+const options: Options = { width: 6 }
+export const result = label(GREETING, options)
+log(result)
+log(greet())
+log(format.upper('x'))
+`
+    const bundled = bundleScriptModule('main.ts', entry, { ...modules, 'main.ts': entry })
+    expect(bundled).not.toMatch(/^\s*(?:import|export)\b/m)
+    expect(run(bundled)).toEqual(['hi....!', 'default', 'X'])
+  })
+
+  it('should tree-shake declarations no importer needs', () => {
+    const entry = `import { pad } from './format'\nlog(pad('a', 2))`
+    const bundled = bundleScriptModule('main.ts', entry, { ...modules, 'main.ts': entry })
+    expect(bundled).toContain('const pad =')
+    expect(bundled).not.toContain('upper')
+
+    const viaUtils = `import { label } from './shared-utils'\nlog(label('a', { width: 1 }))`
+    const shaken = bundleScriptModule('main.ts', viaUtils, { ...modules, 'main.ts': viaUtils })
+    expect(shaken).not.toContain('unusedSecret')
+    expect(shaken).not.toContain('FAREWELL')
+    expect(run(shaken)).toEqual(['a!'])
+  })
+
+  it('should leave scripts without imports runnable after dropping export keywords', () => {
+    const entry = `export function main() { log('main') }\nmain()`
+    expect(run(bundleScriptModule('main.ts', entry, { 'main.ts': entry }))).toEqual(['main'])
+  })
+
+  it('should report unresolvable imports and missing exports', () => {
+    const entry = `import { pad, nope } from './format'\nimport { a } from './missing'\nimport _ from 'lodash'\nlog(pad, nope, a, _)`
+    expect(collectScriptModuleDiagnostics('main.ts', entry, modules).map(formatScriptDiagnostic)).toEqual([
+      'main.ts (2:1): Cannot resolve import "./missing"; imports must name a managed script ("./name")',
+      'main.ts (3:1): Only managed scripts can be imported ("lodash"); load libraries with @require',
+      'main.ts (1:1): "./format" has no export named "nope"',
+    ])
+    expect(collectScriptModuleDiagnostics('main.ts', entry, modules)[0]).toEqual({
+      file: 'main.ts',
+      line: 2,
+      column: 1,
+      severity: 'error',
+      code: 'import',
+      message: expect.any(String),
+    })
+    expect(() => bundleScriptModule('main.ts', entry, modules)).toThrow('Cannot resolve import "./missing"')
+  })
+
+  it('should detect import cycles', () => {
+    const cyclic = {
+      'a.ts': `import { b } from './b'\nexport const a = () => b()`,
+      'b.ts': `import { c } from './c'\nexport const b = () => c()`,
+      'c.ts': `import { a } from './a'\nexport const c = () => a()`,
+    }
+    expect(collectScriptModuleDiagnostics('a.ts', cyclic['a.ts'], cyclic).map(formatScriptDiagnostic)).toEqual(['a.ts (1:1): Circular import a.ts → b.ts → c.ts → a.ts'])
+    expect(() => bundleScriptModule('a.ts', cyclic['a.ts'], cyclic)).toThrow('Circular import')
+  })
+})
@@ -0,0 +1,158 @@
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { deleteManagedScriptFile, renameManagedScriptFile, upsertManagedScriptFile } from '@/services/scripts/gistScripts'
+import { buildScriptRevisionWrites, hashRevisionContent, SCRIPT_REVISION_LIMIT, SCRIPT_REVISIONS_MAX_BYTES } from '@/services/scripts/scriptRevisionLog'
+import { diffManagedScriptRevision, getManagedScriptRevision, listManagedScriptRevisions, restoreManagedScriptRevision } from '@/services/scripts/scriptRevisions'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+function script(body: string): string {
+  return `// ==UserScript==
+// @name Demo
+// @version 1.0.0
+// @match https://example.com/*
+// ==/UserScript==
+
+${body}
+`
+}
+
+describe('script revisions', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-revisions-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should record author, trace id and content hash on every save', async () => {
+    await upsertManagedScriptFile('demo.ts', script("console.log('v1')"))
+    await upsertManagedScriptFile('demo.ts', script("console.log('v2')"))
+    await upsertManagedScriptFile('demo.ts', script("console.log('v2')"))
+
+    const { revisions } = await listManagedScriptRevisions('demo.ts')
+    expect(revisions.map(({ id, action }) => [id, action])).toEqual([
+      [2, 'update'],
+      [1, 'create'],
+    ])
+    expect(revisions[0]).toMatchObject({ author: 'alice', traceId: 'trace-1', contentHash: expect.stringMatching(/^[0-9a-f]{64}$/) })
+
+    const { content } = await getManagedScriptRevision('demo.ts', 1)
+    expect(content).toBe(script("console.log('v1')"))
+  })
+
+  it('should capture pre-existing content as a baseline revision', async () => {
+    await writeFile(join(directory, 'demo.ts'), script("console.log('legacy')"))
+    await upsertManagedScriptFile('demo.ts', script("console.log('next')"))
+
+    const { revisions } = await listManagedScriptRevisions('demo.ts')
+    expect(revisions.map(({ action, author }) => [action, author])).toEqual([
+      ['update', 'alice'],
+      ['baseline', 'system'],
+    ])
+  })
+
+  it('should diff a revision against the current content', async () => {
+    await upsertManagedScriptFile('demo.ts', script("console.log('v1')"))
+    await upsertManagedScriptFile('demo.ts', script("console.log('v2')"))
+
+    const diff = await diffManagedScriptRevision('demo.ts', 1)
+    expect(diff).toMatchObject({ from: 1, to: 'current', additions: 1, deletions: 1 })
+    expect(diff.patch).toContain("-console.log('v1')\n+console.log('v2')")
+    expect((await diffManagedScriptRevision('demo.ts', 2)).patch).toBe('')
+  })
+
+  it('should restore through the save path and record the rollback', async () => {
+    await upsertManagedScriptFile('demo.ts', script("console.log('v1')"))
+    await upsertManagedScriptFile('demo.ts', script("console.log('v2')"))
+
+    const result = await restoreManagedScriptRevision('demo.ts', 1)
+    expect(result.revision).toMatchObject({ id: 3, action: 'restore', restoredFrom: 1 })
+
+    const { content } = await getManagedScriptRevision('demo.ts', 3)
+    expect(content).toBe(script("console.log('v1')"))
+    expect((await diffManagedScriptRevision('demo.ts', 1)).patch).toBe('')
+  })
+
+  it('should keep history across deletes so a deleted script can be restored', async () => {
+    await upsertManagedScriptFile('demo.ts', script("console.log('v1')"))
+    await deleteManagedScriptFile('demo.ts')
+
+    const { revisions } = await listManagedScriptRevisions('demo.ts')
+    expect(revisions[0]).toMatchObject({ id: 2, action: 'delete', byteLength: 0 })
+    await expect(restoreManagedScriptRevision('demo.ts', 2)).rejects.toThrow('has no content to restore')
+
+    await restoreManagedScriptRevision('demo.ts', 1)
+    expect(await readdir(directory)).toContain('demo.ts')
+  })
+
+  it('should link both sides of a rename', async () => {
+    await upsertManagedScriptFile('old.ts', script("console.log('v1')"))
+    await renameManagedScriptFile('old.ts', 'new.ts')
+
+    expect((await listManagedScriptRevisions('old.ts')).revisions[0]).toMatchObject({ action: 'delete', renamedTo: 'new.ts' })
+    expect((await listManagedScriptRevisions('new.ts')).revisions[0]).toMatchObject({ action: 'create', renamedFrom: 'old.ts' })
+  })
+
+  it('should reject unknown revisions', async () => {
+    await upsertManagedScriptFile('demo.ts', script("console.log('v1')"))
+    await expect(getManagedScriptRevision('demo.ts', 9)).rejects.toThrow('Revision 9 not found for demo.ts')
+  })
+})
+
+describe('buildScriptRevisionWrites', () => {
+  it('should ignore unmanaged files', () => {
+    expect(buildScriptRevisionWrites({}, [{ file: 'releases.demo.ts@1.0.0', content: 'x' }], { now: 1, baselineAt: 0 })).toEqual([])
+  })
+
+  /** Apply one script write plus the revision writes it produces to an in-memory storage. */
+  function save(files: Record<string, { content: string }>, file: string, content: string, now: number) {
+    const writes = buildScriptRevisionWrites(files, [{ file, content }], { now, baselineAt: 0 })
+    for (const write of [{ file, content }, ...writes]) {
+      if (write.content === null) delete files[write.file]
+      else files[write.file] = { content: write.content }
+    }
+    return writes
+  }
+
+  it('should keep revision contents in the log file and prune revisions past the limit', () => {
+    const files: Record<string, { content: string }> = {}
+    for (let version = 0; version <= SCRIPT_REVISION_LIMIT; version++) {
+      expect(save(files, 'demo.ts', `v${version}`, version).map(({ file }) => file)).toEqual(['magickmonkey.scripts.revisions.json'])
+    }
+
+    const log = JSON.parse(files['magickmonkey.scripts.revisions.json'].content)
+    expect(log.files['demo.ts']).toHaveLength(SCRIPT_REVISION_LIMIT)
+    expect(log.files['demo.ts'][0].id).toBe(2)
+    expect(Object.values(log.contents)).toHaveLength(SCRIPT_REVISION_LIMIT)
+    expect(Object.values(log.contents)).not.toContain('v0')
+    expect(Object.keys(files).sort()).toEqual(['demo.ts', 'magickmonkey.scripts.revisions.json'])
+  })
+
+  it('should drop the oldest revisions across all files once the log passes the size cap', () => {
+    const files: Record<string, { content: string }> = {}
+    const large = (label: string) => `${label}:${'x'.repeat(SCRIPT_REVISIONS_MAX_BYTES / 4)}`
+    save(files, 'a.ts', large('a1'), 1)
+    save(files, 'b.ts', large('b1'), 2)
+    save(files, 'a.ts', large('a2'), 3)
+    save(files, 'b.ts', large('b2'), 4)
+
+    const raw = files['magickmonkey.scripts.revisions.json'].content
+    expect(Buffer.byteLength(raw, 'utf8')).toBeLessThanOrEqual(SCRIPT_REVISIONS_MAX_BYTES)
+    const log = JSON.parse(raw)
+    expect(log.files['a.ts'].map(({ id }: { id: number }) => id)).toEqual([2])
+    expect(log.files['b.ts'].map(({ id }: { id: number }) => id)).toEqual([1, 2])
+    expect(Object.keys(log.contents).sort()).toEqual([large('a2'), large('b1'), large('b2')].map(hashRevisionContent).sort())
+  })
+})
@@ -0,0 +1,138 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import {
+  promoteManagedScriptRollout,
+  publishManagedScriptStable,
+  readManagedScriptIndex,
+  rollbackManagedScriptRollout,
+  setManagedScriptRolloutPercent,
+  upsertManagedScriptFile,
+} from '@/services/scripts/gistScripts'
+import { evaluateScriptRollouts, evaluateScriptRolloutsFromTelemetry, getManagedScriptRolloutStatus } from '@/services/scripts/scriptRollouts'
+import { recordScriptTelemetry } from '@/services/telemetry'
+import { flushStorageTelemetry } from '@/services/telemetry/storage'
+import { isClientInRolloutCohort } from '@/shared/ota-rollout'
+import { buildScriptFilesForBundleTrack } from '@/shared/script-bundle-track'
+import { resolveScriptOtaPolicy } from '@/shared/script-ota-policy'
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+function script(version: string, body: string): string {
+  return `// ==UserScript==
+// @name Demo
+// @version ${version}
+// @match https://example.com/*
+// ==/UserScript==
+
+${body}
+`
+}
+
+async function startRollout(options?: { minSamples: number; autoPromote?: boolean }): Promise<void> {
+  await upsertManagedScriptFile('demo.ts', script('1.0.0', "console.log('v1')"))
+  await publishManagedScriptStable('demo.ts')
+  await upsertManagedScriptFile('demo.ts', script('1.1.0', "console.log('v2')"))
+  await publishManagedScriptStable('demo.ts', { rollout: { percent: 10, failureThreshold: 0.5, ...options } })
+}
+
+/** Client ids the active rollout of demo.ts places inside (or outside) its cohort. */
+async function cohortClients(count: number, inCohort = true): Promise<string[]> {
+  const { rollout } = resolveScriptOtaPolicy((await readManagedScriptIndex()).scripts.find(({ filename }) => filename === 'demo.ts')?.ota)
+  const clients: string[] = []
+  for (let i = 0; clients.length < count; i++) {
+    if (isClientInRolloutCohort(rollout!, 'demo.ts', `client-${i}`) === inCohort) {
+      clients.push(`client-${i}`)
+    }
+  }
+  return clients
+}
+
+function events(kind: ScriptTelemetryEvent['kind'], clients: string[], version = '1.1.0'): ScriptTelemetryEvent[] {
+  return clients.map((clientId) => ({ kind, file: 'demo.ts', traceId: '0123456789abcdef', url: '', at: Date.now(), version, clientId }))
+}
+
+describe('script rollouts', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-rollouts-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory, SCRIPTS_TELEMETRY_SINK: 'storage' }
+  })
+
+  afterEach(async () => {
+    await flushStorageTelemetry()
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should require an earlier stable release as rollback baseline', async () => {
+    await upsertManagedScriptFile('demo.ts', script('1.0.0', "console.log('v1')"))
+    await expect(publishManagedScriptStable('demo.ts', { rollout: { percent: 10 } })).rejects.toThrow('needs an earlier stable release')
+    await expect(setManagedScriptRolloutPercent('demo.ts', 20)).rejects.toThrow('has no active rollout')
+  })
+
+  it('should report the active rollout and widen its cohort', async () => {
+    await startRollout()
+    await setManagedScriptRolloutPercent('demo.ts', 50)
+
+    const status = await getManagedScriptRolloutStatus('demo.ts')
+    expect(status.rollout).toMatchObject({ version: '1.1.0', baselineVersion: '1.0.0', percent: 50, status: 'active' })
+  })
+
+  it('should serve the baseline release to everyone after a rollback', async () => {
+    await startRollout()
+    await rollbackManagedScriptRollout('demo.ts')
+
+    const index = await readManagedScriptIndex()
+    const entry = index.scripts.find(({ filename }) => filename === 'demo.ts')!
+    expect(entry.ota?.rollout).toMatchObject({ status: 'rolled-back', rolledBackAt: expect.any(Number) })
+    const files = {
+      'demo.ts': { content: script('1.1.0', "console.log('v2')") },
+      'releases.demo.ts@1.0.0': { content: script('1.0.0', "console.log('v1')") },
+    }
+    expect(buildScriptFilesForBundleTrack(index.scripts, files, 'stable')['demo.ts']).toContain("console.log('v1')")
+  })
+
+  it('should end the rollout on promotion', async () => {
+    await startRollout()
+    await promoteManagedScriptRollout('demo.ts')
+    expect((await getManagedScriptRolloutStatus('demo.ts')).rollout).toBeNull()
+  })
+
+  it('should count distinct cohort clients from telemetry and ignore other versions and clients outside the cohort', async () => {
+    await startRollout({ minSamples: 10 })
+    const [a, b, c] = await cohortClients(3)
+    const [outsider] = await cohortClients(1, false)
+    await recordScriptTelemetry([...events('execution', [a, a, b]), ...events('error', [b]), ...events('error', [c], '1.0.0'), ...events('error', [outsider])])
+
+    expect(await evaluateScriptRollouts()).toEqual([])
+    const status = await getManagedScriptRolloutStatus('demo.ts')
+    expect(status.rollout).toMatchObject({ version: '1.1.0', status: 'active' })
+    expect(status.health).toEqual({ successes: 1, failures: 1 })
+  })
+
+  it('should roll back when telemetry failures cross the threshold', async () => {
+    await startRollout({ minSamples: 2 })
+    const [a, b] = await cohortClients(2)
+    await recordScriptTelemetry([...events('execution', [a, b]), ...events('error', [b])])
+
+    expect(await evaluateScriptRolloutsFromTelemetry(events('error', [b]))).toEqual([{ file: 'demo.ts', version: '1.1.0', verdict: 'rollback' }])
+    expect((await getManagedScriptRolloutStatus('demo.ts')).rollout).toMatchObject({ status: 'rolled-back' })
+    // Throttled: a second batch right away does not read the index again
+    expect(await evaluateScriptRolloutsFromTelemetry(events('error', [a]))).toEqual([])
+  })
+
+  it('should promote healthy rollouts automatically', async () => {
+    await startRollout({ minSamples: 2 })
+    await recordScriptTelemetry(events('execution', await cohortClients(2)))
+    expect(await evaluateScriptRollouts()).toEqual([{ file: 'demo.ts', version: '1.1.0', verdict: 'promote' }])
+    expect((await getManagedScriptRolloutStatus('demo.ts')).rollout).toBeNull()
+  })
+})
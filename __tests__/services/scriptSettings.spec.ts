@@ -0,0 +1,69 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { getScriptsWithMeta } from '@/app/actions/tampermonkey'
+import { readManagedScriptIndex, upsertManagedScriptFile, validateManagedScriptSources } from '@/services/scripts/gistScripts'
+import { getRemoteScriptContent } from '@/services/tampermonkey/createUserScript.server'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+// Only createUserScript formats; loading the real module needs ESM support in Jest
+jest.mock('prettier', () => ({ format: jest.fn() }))
+
+const SETTINGS_SCRIPT = `// ==UserScript==
+// @name         Banner
+// @version      1.0.0
+// @match        https://example.com/*
+// @setting      message string "Hello there" Banner text
+// @setting      theme select(light|dark) dark
+// ==/UserScript==
+
+const { message } = GME_getSettings()
+document.body.append(message)
+`
+
+const THEME_FIELD = { key: 'theme', type: 'select', label: 'theme', default: 'dark', options: ['light', 'dark'] }
+const MESSAGE_FIELD = { key: 'message', type: 'string', label: 'Banner text', default: 'Hello there' }
+
+describe('script settings', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-script-settings-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should record @setting declarations in the script index and scripts list', async () => {
+    await upsertManagedScriptFile('banner.ts', SETTINGS_SCRIPT)
+
+    const index = await readManagedScriptIndex()
+    expect(index.scripts.find((script) => script.filename === 'banner.ts')?.settings).toEqual([MESSAGE_FIELD, THEME_FIELD])
+
+    const { scripts } = await getScriptsWithMeta()
+    expect(scripts.find((script) => script.file === 'banner.ts')?.settings).toEqual([MESSAGE_FIELD, THEME_FIELD])
+  })
+
+  it('should register the schema in the compiled module wrapper', async () => {
+    const payload = await getRemoteScriptContent({ 'banner.ts': SETTINGS_SCRIPT }, { strictCompile: true, scriptBuiltAt: 1 })
+    expect(payload).toContain(`registerScriptSettings("banner.ts", ${JSON.stringify([MESSAGE_FIELD, THEME_FIELD])})`)
+  })
+
+  it('should report invalid @setting declarations', async () => {
+    const [result] = await validateManagedScriptSources({
+      'banner.ts': SETTINGS_SCRIPT.replace('select(light|dark) dark', 'select(light|dark) blue'),
+    })
+
+    expect(result.ok).toBe(false)
+    expect(result.diagnostics).toContain('@setting theme: default "blue" is not a valid option of light|dark')
+  })
+})
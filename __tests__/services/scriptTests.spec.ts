@@ -0,0 +1,175 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { upsertManagedScriptFile } from '@/services/scripts/gistScripts'
+import { runScriptTestFile, runScriptTests } from '@/services/scripts/scriptTests'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+// Only createUserScript formats; loading the real module needs ESM support in Jest
+jest.mock('prettier', () => ({ format: jest.fn() }))
+
+const BANNER_SCRIPT = `// ==UserScript==
+// @name         Banner
+// @version      1.0.0
+// @match        https://example.com/*
+// @grant        GM_setValue
+// @grant        GM_notification
+// ==/UserScript==
+
+const banner = document.createElement('div')
+banner.id = 'banner'
+banner.textContent = 'Visits: ' + (GM_getValue('visits', 0) + 1)
+document.body.appendChild(banner)
+GM_setValue('visits', GM_getValue('visits', 0) + 1)
+GM_notification({ text: 'Banner ready' })
+GM_registerMenuCommand('Hide banner', () => banner.remove())
+`
+
+describe('script tests', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-script-tests-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+    await upsertManagedScriptFile('banner.ts', BANNER_SCRIPT)
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should run the compiled script against a fake page with recorded GM stubs', async () => {
+    const result = await runScriptTestFile('banner.test.ts', {
+      sources: {
+        'banner.test.ts': `
+          test('adds the banner', async ({ load }) => {
+            const page = await load('https://example.com/home', { values: { visits: 2 } })
+            expect(page.document.getElementById('banner')?.textContent).toBe('Visits: 3')
+            expect(page.gm.values).toEqual({ visits: 3 })
+            expect(page.gm.notifications.map((n) => n.text)).toEqual(['Banner ready'])
+            page.gm.menuCommands[0].run()
+            expect(page.document.getElementById('banner')).toBeNull()
+          })
+
+          test('skips pages outside @match', async ({ load }) => {
+            const page = await load('https://other.example/')
+            expect(page.document.getElementById('banner')).toBeNull()
+            expect(page.gm.called('GM_setValue')).toHaveLength(0)
+          })
+
+          test('fails on a wrong expectation', async ({ load }) => {
+            const page = await load('https://example.com/')
+            expect(page.gm.values.visits).not.toBe(1)
+          })
+        `,
+      },
+    })
+
+    expect(result.target).toBe('banner.ts')
+    expect(result.error).toBeUndefined()
+    expect(result.tests.map(({ name, status }) => [name, status])).toEqual([
+      ['adds the banner', 'passed'],
+      ['skips pages outside @match', 'passed'],
+      ['fails on a wrong expectation', 'failed'],
+    ])
+    expect(result.tests[2].error).toContain('expect(received).not.toBe(1)')
+    expect(result).toMatchObject({ passed: 2, failed: 1 })
+  })
+
+  it('should use unsaved script sources and answer requests from canned responses', async () => {
+    const result = await runScriptTestFile('banner.test.ts', {
+      sources: {
+        'banner.ts': `// ==UserScript==
+// @name         Banner
+// @match        https://example.com/*
+// ==/UserScript==
+
+GM_xmlhttpRequest({
+  url: 'https://api.example.com/greeting',
+  onload: (response) => {
+    document.body.dataset.greeting = response.responseText
+  },
+})
+`,
+        'banner.test.ts': `
+          test('renders the greeting', async ({ load }) => {
+            const page = await load('https://example.com/', { responses: { 'https://api.example.com/greeting': 'hello' } })
+            await page.wait()
+            expect(page.document.body.dataset.greeting).toBe('hello')
+            expect(page.gm.requests).toEqual([{ method: 'GET', url: 'https://api.example.com/greeting', headers: {} }])
+          })
+        `,
+      },
+    })
+
+    expect(result.tests).toEqual([expect.objectContaining({ name: 'renders the greeting', status: 'passed' })])
+  })
+
+  it('should run tests in a sandbox process without the server environment and stop tests that block it', async () => {
+    process.env.SCRIPT_TEST_SECRET = 'secret'
+    const result = await runScriptTestFile('banner.test.ts', {
+      sources: {
+        'banner.test.ts': `
+          test('escapes to the host process', () => {
+            const hostProcess = test.constructor.constructor('return process')()
+            expect(hostProcess.pid).not.toBe(${process.pid})
+            expect(hostProcess.env.SCRIPT_TEST_SECRET).toBeUndefined()
+            let code = null
+            try {
+              hostProcess.mainModule.require('fs').readFileSync('${join(process.cwd(), 'package.json')}')
+            } catch (error) {
+              code = error.code
+            }
+            expect(code).toBe('ERR_ACCESS_DENIED')
+          })
+
+          test('keeps timers inside the test context', async () => {
+            expect(setTimeout.constructor.constructor('return typeof process')()).toBe('undefined')
+            const id = setTimeout(() => {}, 10)
+            expect(typeof id).toBe('number')
+            clearTimeout(id)
+            expect(await new Promise((resolve) => setTimeout(resolve, 1, 'fired'))).toBe('fired')
+          })
+
+          test('blocks the event loop', async () => {
+            await Promise.resolve()
+            while (true) {}
+          })
+
+          test('never runs', () => {})
+        `,
+      },
+    })
+
+    expect(result.tests.map(({ name, status, error }) => [name, status, error])).toEqual([
+      ['escapes to the host process', 'passed', undefined],
+      ['keeps timers inside the test context', 'passed', undefined],
+      ['blocks the event loop', 'failed', 'Test timed out after 5000ms'],
+      ['never runs', 'failed', 'Not run: the sandbox was stopped after a timeout'],
+    ])
+  })
+
+  it('should report files that cannot run', async () => {
+    const results = await runScriptTests({
+      sources: {
+        'missing.test.ts': "test('never runs', () => {})",
+        'banner.test.ts': "import { x } from './banner'\ntest('x', () => {})",
+      },
+    })
+
+    expect(results.map(({ file, target }) => [file, target])).toEqual([
+      ['banner.test.ts', 'banner.ts'],
+      ['missing.test.ts', null],
+    ])
+    expect(results[0].error).toContain('cannot use import')
+    expect(results[1].error).toContain('missing.ts')
+    expect(results.every((result) => result.tests.length === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,197 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { SCRIPT_INDEX_FILE } from '@/constants/file'
+import { upsertManagedScriptFile } from '@/services/scripts/gistScripts'
+import {
+  applyScriptImport,
+  buildScriptBackupArchive,
+  buildStandaloneUserscript,
+  convertUserscriptForImport,
+  exportStandaloneUserscripts,
+  parseScriptImportArchive,
+  previewScriptImport,
+  toImportedScriptFilename,
+} from '@/services/scripts/scriptTransfer'
+import { readZipArchive, writeZipArchive } from '@/services/scripts/zipArchive'
+
+jest.mock('@/services/context', () => ({
+  getActor: jest.fn(() => 'alice'),
+  getTraceId: jest.fn(() => 'trace-1'),
+}))
+
+function userscript(name: string, extraHeader = '', body = "console.log('hi')"): string {
+  return `// ==UserScript==
+// @name         ${name}
+${extraHeader}// @match        https://example.com/*
+// ==/UserScript==
+
+${body}
+`
+}
+
+describe('zip archive', () => {
+  it('should read back the entries it writes', () => {
+    const data = writeZipArchive([
+      { name: 'a.user.js', content: 'alert(1)' },
+      { name: 'dir/ü.json', content: Buffer.from('{"x":1}') },
+    ])
+
+    expect(readZipArchive(data).map(({ name, content }) => [name, content.toString('utf8')])).toEqual([
+      ['a.user.js', 'alert(1)'],
+      ['dir/ü.json', '{"x":1}'],
+    ])
+  })
+
+  it('should reject data that is not a zip archive', () => {
+    expect(() => readZipArchive(Buffer.from('not a zip at all, definitely not one'))).toThrow('Not a ZIP archive')
+  })
+})
+
+describe('script import', () => {
+  it('should derive a filename from the script name', () => {
+    expect(toImportedScriptFilename('My Cool Script!')).toBe('my-cool-script.js')
+    expect(toImportedScriptFilename('helper.user.js')).toBe('helper.js')
+    expect(toImportedScriptFilename('***')).toBe('script.js')
+  })
+
+  it('should normalize versions and map localized names and tags', () => {
+    const candidate = convertUserscriptForImport(userscript('Demo', '// @name:zh-CN  演示\n// @version      1.2\n// @tag          productivity\n'), 'demo.user.js')
+
+    expect(candidate).toMatchObject({ filename: 'demo.js', name: 'Demo', version: '1.2.0', aliases: ['演示'], keywords: ['productivity'], enabled: true })
+    expect(candidate.content).toContain('// @version      1.2.0\n')
+    expect(candidate.warnings).toEqual(['@version 1.2 normalized to 1.2.0'])
+  })
+
+  it('should add a version when the header has none', () => {
+    const candidate = convertUserscriptForImport(userscript('Demo'), 'demo.user.js')
+
+    expect(candidate.version).toBe('1.0.0')
+    expect(candidate.content).toContain('// @version      1.0.0\n// ==/UserScript==')
+  })
+
+  it('should reject sources without a userscript header', () => {
+    expect(() => convertUserscriptForImport("console.log('hi')", 'plain.js')).toThrow('No // ==UserScript== header')
+  })
+
+  it('should read Tampermonkey exports with their enabled state', () => {
+    const data = writeZipArchive([
+      { name: 'Alpha.user.js', content: userscript('Alpha', '// @version 1.0.0\n') },
+      { name: 'Beta.user.js', content: userscript('Beta', '// @version 2.0.0\n') },
+      { name: 'Beta.options.json', content: JSON.stringify({ settings: { enabled: false } }) },
+      { name: 'README.txt', content: 'ignored' },
+      { name: 'Broken.user.js', content: 'no header' },
+    ])
+
+    const preview = parseScriptImportArchive(data)
+    expect(preview.scripts.map(({ filename, enabled }) => [filename, enabled])).toEqual([
+      ['alpha.js', true],
+      ['beta.js', false],
+    ])
+    expect(preview.skipped).toEqual([{ source: 'Broken.user.js', reason: 'No // ==UserScript== header' }])
+    expect(preview.rules).toBeNull()
+  })
+
+  it('should read the Violentmonkey manifest for the enabled state', () => {
+    const data = writeZipArchive([
+      { name: 'Alpha.user.js', content: userscript('Alpha', '// @version 1.0.0\n') },
+      { name: 'violentmonkey', content: JSON.stringify({ scripts: { Alpha: { config: { enabled: 0 } } } }) },
+    ])
+
+    expect(parseScriptImportArchive(data).scripts[0].enabled).toBe(false)
+  })
+})
+
+describe('script export', () => {
+  it('should inline imports and compile TypeScript into a standalone userscript', () => {
+    const modules = {
+      'main.ts': `// ==UserScript==
+// @name Main
+// @version 1.0.0
+// @match https://example.com/*
+// ==/UserScript==
+
+import { greet } from './lib'
+const name: string = 'world'
+greet(name)
+`,
+      'lib.ts': 'export function greet(name: string) { console.log(`hi ${name}`) }\n',
+    }
+
+    const output = buildStandaloneUserscript('main.ts', modules)
+    expect(output.startsWith('// ==UserScript==\n// @name Main\n')).toBe(true)
+    expect(output).toContain('console.log(`hi ${name}`)')
+    expect(output).not.toMatch(/^\s*import /m)
+    expect(output).not.toContain(': string')
+  })
+})
+
+describe('script transfer storage', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-transfer-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should flag existing and duplicate filenames in the preview', async () => {
+    await upsertManagedScriptFile('demo.js', userscript('Demo', '// @version 1.0.0\n'))
+    const data = writeZipArchive([
+      { name: 'a/Demo.user.js', content: userscript('Demo', '// @version 1.0.0\n') },
+      { name: 'b/Demo.user.js', content: userscript('Demo', '// @version 1.0.0\n') },
+    ])
+
+    const preview = await previewScriptImport({ kind: 'archive', data })
+    expect(preview.scripts.map(({ filename, exists }) => [filename, exists])).toEqual([
+      ['demo.js', true],
+      ['demo-2.js', false],
+    ])
+  })
+
+  it('should refuse import URLs on non-public addresses', async () => {
+    await expect(previewScriptImport({ kind: 'url', url: 'http://169.254.169.254/latest/user-data' })).rejects.toThrow('non-public address 169.254.169.254')
+  })
+
+  it('should write imported scripts with index metadata on the alpha track', async () => {
+    const preview = await previewScriptImport({ kind: 'userscript', name: 'demo.user.js', content: userscript('Demo', '// @name:fr Démo\n// @version 1.1\n') })
+
+    await expect(applyScriptImport(preview.scripts)).resolves.toEqual(['demo.js'])
+    await expect(applyScriptImport(preview.scripts)).rejects.toThrow('demo.js already exist')
+
+    const index = JSON.parse(await readFile(join(directory, SCRIPT_INDEX_FILE), 'utf8'))
+    expect(index.scripts).toEqual([expect.objectContaining({ filename: 'demo.js', name: 'Demo', version: '1.1.0', aliases: ['Démo'], updatedBy: 'alice' })])
+    expect(index.scripts[0].ota).toMatchObject({ stage: 'alpha' })
+  })
+
+  it('should restore a backup archive with its index metadata', async () => {
+    await upsertManagedScriptFile('demo.js', userscript('Demo', '// @version 1.0.0\n'))
+    await upsertManagedScriptFile('other.js', userscript('Other', '// @version 1.0.0\n'))
+    const archive = await buildScriptBackupArchive(['demo.js'])
+
+    expect(readZipArchive(archive).map(({ name }) => name)).toEqual([SCRIPT_INDEX_FILE, 'scripts/demo.js', 'demo.user.js'])
+
+    const preview = parseScriptImportArchive(archive)
+    expect(preview.scripts.map(({ filename, content }) => [filename, content])).toEqual([['demo.js', userscript('Demo', '// @version 1.0.0\n')]])
+    expect(preview.rules).toBeNull()
+  })
+
+  it('should export several scripts as a zip of userscripts', async () => {
+    await upsertManagedScriptFile('demo.js', userscript('Demo', '// @version 1.0.0\n'))
+    await upsertManagedScriptFile('other.js', userscript('Other', '// @version 1.0.0\n'))
+
+    const single = await exportStandaloneUserscripts(['demo.js'])
+    expect(single.name).toBe('demo.user.js')
+
+    const bundle = await exportStandaloneUserscripts(['demo.js', 'other.js'])
+    expect(bundle.name).toBe('userscripts.zip')
+    expect(readZipArchive(bundle.data).map(({ name }) => name)).toEqual(['demo.user.js', 'other.user.js'])
+    await expect(exportStandaloneUserscripts(['missing.js'])).rejects.toThrow('File missing.js not found')
+  })
+})
@@ -0,0 +1,36 @@
+import { typeCheckScript } from '@/services/scripts/scriptTypeCheck'
+
+function script(body: string[]): string {
+  return ['// ==UserScript==', '// @name Demo', '// @version 1.0.0', '// ==/UserScript==', '', ...body, ''].join('\n')
+}
+
+describe('typeCheckScript', () => {
+  it('should accept scripts using GM and GME globals correctly', () => {
+    const content = script(["GME_waitFor(() => document.querySelector<HTMLElement>('#app'), { container: document.body }).then((node) => GM_setValue('seen', !!node))"])
+    expect(typeCheckScript('demo.ts', content, {})).toEqual([])
+  })
+
+  it('should report misspelled GME_waitFor options with their position', () => {
+    const content = script(["GME_waitFor(() => document.querySelector<HTMLElement>('#app'), { contianer: document.body })"])
+    const [diagnostic] = typeCheckScript('demo.ts', content, {})
+    expect(diagnostic).toMatchObject({ file: 'demo.ts', line: 6, column: 66, severity: 'error' })
+    expect(diagnostic.code).toMatch(/^TS(2353|2561)$/)
+    expect(diagnostic.message).toContain('contianer')
+  })
+
+  it('should check imports against managed scripts and declaration files', () => {
+    const modules = {
+      'format.ts': 'export function format(value: number): string {\n  return value.toFixed(2)\n}\n',
+      'site.d.ts': 'declare const SITE_CONFIG: { id: string }\n',
+    }
+    const content = script(["import { format } from './format'", 'format(SITE_CONFIG.id)'])
+    const diagnostics = typeCheckScript('demo.ts', content, modules)
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({ line: 7, column: 8, code: 'TS2345' })
+  })
+
+  it('should scope top-level declarations to each script', () => {
+    const modules = { 'other.ts': script(['const shared = 1']) }
+    expect(typeCheckScript('demo.ts', script(['const shared = 2']), modules)).toEqual([])
+  })
+})
@@ -0,0 +1,101 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { getScriptTelemetrySummary, getTelemetrySinkKind, recordScriptTelemetry } from '@/services/telemetry'
+import { flushStorageTelemetry, STORAGE_TELEMETRY_LIMIT } from '@/services/telemetry/storage'
+import { summarizeScriptTelemetry } from '@/services/telemetry/summary'
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+const traceId = '0123456789abcdef'
+
+function execution(file: string, at = Date.now()): ScriptTelemetryEvent {
+  return { kind: 'execution', file, traceId, url: 'https://example.com/', at }
+}
+
+function failure(file: string, url: string, message = 'boom', at = Date.now()): ScriptTelemetryEvent {
+  return { kind: 'error', file, traceId, url, at, message, stack: `Error: ${message}` }
+}
+
+describe('script telemetry', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-telemetry-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should be disabled unless a sink is configured', async () => {
+    expect(getTelemetrySinkKind()).toBe('none')
+    expect(await recordScriptTelemetry([execution('demo.ts')])).toBe(0)
+    expect(await getScriptTelemetrySummary()).toMatchObject({ sink: 'none', scripts: [], topFailingUrls: [] })
+
+    process.env.SCRIPTS_TELEMETRY_SINK = 'kafka'
+    expect(() => getTelemetrySinkKind()).toThrow('SCRIPTS_TELEMETRY_SINK must be one of none, memory, storage')
+  })
+
+  it('should rank scripts by error rate with their top failing URLs', () => {
+    const events = [
+      execution('demo.ts'),
+      execution('demo.ts'),
+      execution('demo.ts'),
+      execution('demo.ts'),
+      failure('demo.ts', 'https://example.com/a', 'first', 1),
+      failure('demo.ts', 'https://example.com/b', 'latest', 3),
+      failure('demo.ts', 'https://example.com/a', 'middle', 2),
+      execution('other.ts'),
+      execution('other.ts'),
+      failure('other.ts', 'https://example.com/b'),
+      execution('quiet.ts'),
+    ]
+    const summary = summarizeScriptTelemetry(events, 0)
+    expect(summary.scripts.map(({ file, executions, errors, errorRate }) => [file, executions, errors, errorRate])).toEqual([
+      ['demo.ts', 4, 3, 0.75],
+      ['other.ts', 2, 1, 0.5],
+      ['quiet.ts', 1, 0, 0],
+    ])
+    expect(summary.scripts[0].topFailingUrls).toEqual([
+      { url: 'https://example.com/a', errors: 2, files: ['demo.ts'] },
+      { url: 'https://example.com/b', errors: 1, files: ['demo.ts'] },
+    ])
+    expect(summary.scripts[0].lastError).toMatchObject({ message: 'latest', at: 3, stack: 'Error: latest' })
+    expect(summary.topFailingUrls[0]).toEqual({ url: 'https://example.com/a', errors: 2, files: ['demo.ts'] })
+    expect(summary.topFailingUrls[1]).toEqual({ url: 'https://example.com/b', errors: 2, files: ['demo.ts', 'other.ts'] })
+  })
+
+  it('should keep a bounded window of events in script storage', async () => {
+    process.env.SCRIPTS_TELEMETRY_SINK = 'storage'
+    const stale = execution('demo.ts', 1)
+    const batch = Array.from({ length: STORAGE_TELEMETRY_LIMIT }, () => execution('demo.ts'))
+    expect(await recordScriptTelemetry([stale])).toBe(1)
+    expect(await recordScriptTelemetry([...batch, failure('demo.ts', 'https://example.com/a')])).toBe(STORAGE_TELEMETRY_LIMIT + 1)
+    await flushStorageTelemetry()
+
+    const stored = JSON.parse(await readFile(join(directory, 'magickmonkey.scripts.telemetry.json'), 'utf8'))
+    expect(stored.events).toHaveLength(STORAGE_TELEMETRY_LIMIT)
+
+    const summary = await getScriptTelemetrySummary()
+    expect(summary.sink).toBe('storage')
+    expect(summary.scripts).toEqual([expect.objectContaining({ file: 'demo.ts', executions: STORAGE_TELEMETRY_LIMIT - 1, errors: 1 })])
+  })
+
+  it('should buffer batches and write them to storage in one flush', async () => {
+    process.env.SCRIPTS_TELEMETRY_SINK = 'storage'
+    const file = join(directory, 'magickmonkey.scripts.telemetry.json')
+    await recordScriptTelemetry([execution('demo.ts')])
+    await recordScriptTelemetry([failure('demo.ts', 'https://example.com/a')])
+
+    await expect(readFile(file, 'utf8')).rejects.toThrow()
+    expect((await getScriptTelemetrySummary()).scripts).toEqual([expect.objectContaining({ file: 'demo.ts', executions: 1, errors: 1 })])
+
+    await flushStorageTelemetry()
+    expect(JSON.parse(await readFile(file, 'utf8')).events).toHaveLength(2)
+    expect((await getScriptTelemetrySummary()).scripts).toEqual([expect.objectContaining({ file: 'demo.ts', executions: 1, errors: 1 })])
+  })
+})
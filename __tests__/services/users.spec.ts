@@ -0,0 +1,122 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { USERS_FILE } from '@/constants/file'
+import { checkScopeGrant } from '@/services/auth/apiKeyScopes'
+import { getRoleScopeGrant } from '@/services/auth/userRoles'
+import { createUser, deleteUser, findUserByIdentity, listUsers, resolveSessionUser, updateUser, verifyUserPassword } from '@/services/auth/users'
+
+/** Request context the users read is cached on; none outside a request */
+let mockContext: object | undefined
+
+jest.mock('@/services/context', () => ({
+  getContext: jest.fn(() => mockContext),
+}))
+
+describe('user roles', () => {
+  it('should map roles onto scope grants', () => {
+    expect(checkScopeGrant(getRoleScopeGrant('viewer'), 'scripts:read')).toBeNull()
+    expect(checkScopeGrant(getRoleScopeGrant('viewer'), 'scripts:write', 'demo.ts')).not.toBeNull()
+    expect(checkScopeGrant(getRoleScopeGrant('editor'), 'scripts:write', 'demo.ts')).toBeNull()
+    expect(checkScopeGrant(getRoleScopeGrant('editor'), 'ota:publish', 'demo.ts')).not.toBeNull()
+    expect(checkScopeGrant(getRoleScopeGrant('publisher'), 'ota:publish', 'demo.ts')).toBeNull()
+    expect(getRoleScopeGrant('admin').scopes).toBe('*')
+  })
+})
+
+describe('users', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vws-users-'))
+    process.env = { ...originalEnv, SCRIPTS_STORAGE: 'local', SCRIPTS_STORAGE_DIR: directory, ACCESS_USERNAME: 'root', ACCESS_PASSWORD: 'root-pass', JWT_SECRET: 'jwt-secret' }
+    delete process.env.ACCESS_2FA_SECRET
+  })
+
+  afterEach(async () => {
+    mockContext = undefined
+    process.env = originalEnv
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should store encrypted credentials and verify logins', async () => {
+    const user = await createUser({ username: 'alice', role: 'editor', password: 'secret', totpSecret: ' TOTP ', createdBy: 'root' })
+
+    expect(user).toMatchObject({ username: 'alice', role: 'editor', identities: [], createdBy: 'root', hasPassword: true, has2FA: true })
+    const stored = await readFile(join(directory, USERS_FILE), 'utf8')
+    expect(stored).not.toContain('secret')
+    expect(stored).not.toContain('TOTP')
+    expect(stored).not.toContain('scrypt:')
+    expect(await verifyUserPassword('alice', 'secret')).toEqual({ username: 'alice', role: 'editor', totpSecret: 'TOTP' })
+    expect(await verifyUserPassword('alice', 'wrong')).toBeNull()
+    expect(await verifyUserPassword('root', 'root-pass')).toEqual({ username: 'root', role: 'admin' })
+    expect(await verifyUserPassword('root', 'secret')).toBeNull()
+
+    process.env.ACCESS_SECRETS_KEY = 'other-key'
+    await expect(verifyUserPassword('alice', 'secret')).rejects.toThrow('cannot be decrypted')
+  })
+
+  it('should reject invalid accounts', async () => {
+    await expect(createUser({ username: 'root', role: 'viewer', password: 'x', createdBy: 'root' })).rejects.toThrow('reserved for the bootstrap admin')
+    await expect(createUser({ username: 'a b', role: 'viewer', password: 'x', createdBy: 'root' })).rejects.toThrow('Username must be')
+    await expect(createUser({ username: 'bob', role: 'owner' as never, password: 'x', createdBy: 'root' })).rejects.toThrow('Unknown role')
+    await expect(createUser({ username: 'bob', role: 'viewer', createdBy: 'root' })).rejects.toThrow('needs a password or a linked identity')
+    await expect(createUser({ username: 'bob', role: 'viewer', identities: ['github:bob'], createdBy: 'root' })).rejects.toThrow('must look like')
+
+    await createUser({ username: 'bob', role: 'viewer', identities: ['oauth:bob'], createdBy: 'root' })
+    await expect(createUser({ username: 'bob', role: 'viewer', password: 'x', createdBy: 'root' })).rejects.toThrow('User bob already exists')
+    await expect(createUser({ username: 'carol', role: 'viewer', identities: ['oauth:bob'], createdBy: 'root' })).rejects.toThrow('already linked to bob')
+  })
+
+  it('should resolve linked identities', async () => {
+    await createUser({ username: 'bob', role: 'publisher', identities: ['oauth:bob', 'signet:u_1'], createdBy: 'root' })
+
+    expect(await findUserByIdentity('signet:u_1')).toEqual({ username: 'bob', role: 'publisher' })
+    expect(await findUserByIdentity('signet:u_2')).toBeNull()
+  })
+
+  it('should apply role changes and deletions to existing sessions', async () => {
+    // Without accounts only the bootstrap admin has a session.
+    expect(await resolveSessionUser('anyone')).toBeNull()
+    expect(await resolveSessionUser('root')).toEqual({ username: 'root', role: 'admin' })
+
+    await createUser({ username: 'alice', role: 'viewer', password: 'secret', createdBy: 'root' })
+    expect(await resolveSessionUser('alice')).toEqual({ username: 'alice', role: 'viewer' })
+    expect(await resolveSessionUser('root')).toEqual({ username: 'root', role: 'admin' })
+    expect(await resolveSessionUser('anyone')).toBeNull()
+
+    await updateUser('alice', { role: 'publisher', password: '', identities: ['oauth:alice'] })
+    expect(await resolveSessionUser('alice')).toEqual({ username: 'alice', role: 'publisher' })
+    expect(await verifyUserPassword('alice', 'secret')).toBeNull()
+
+    await deleteUser('alice')
+    expect(await resolveSessionUser('alice')).toBeNull()
+    expect(await listUsers()).toEqual([])
+    await expect(deleteUser('alice')).rejects.toThrow('User alice not found')
+  })
+
+  it('should read the users file once per request', async () => {
+    await createUser({ username: 'alice', role: 'viewer', password: 'secret', createdBy: 'root' })
+
+    mockContext = {}
+    expect(await resolveSessionUser('alice')).toEqual({ username: 'alice', role: 'viewer' })
+    await writeFile(join(directory, USERS_FILE), JSON.stringify({ version: 1, users: [] }))
+    expect(await resolveSessionUser('alice')).toEqual({ username: 'alice', role: 'viewer' })
+
+    mockContext = {}
+    expect(await resolveSessionUser('alice')).toBeNull()
+  })
+
+  it('should keep an admin when no bootstrap admin is configured', async () => {
+    process.env.ACCESS_PASSWORD = ''
+    await createUser({ username: 'alice', role: 'admin', password: 'secret', createdBy: 'root' })
+    await createUser({ username: 'bob', role: 'editor', password: 'secret', createdBy: 'alice' })
+
+    await expect(updateUser('alice', { role: 'editor' })).rejects.toThrow('At least one admin is required')
+    await expect(deleteUser('alice')).rejects.toThrow('At least one admin is required')
+    await updateUser('bob', { role: 'admin' })
+    await deleteUser('alice')
+  })
+})
@@ -0,0 +1,32 @@
+import { createUnifiedLineDiff, diffLines } from '@shared/line-diff'
+
+describe('line-diff', () => {
+  it('should return an empty patch for identical content', () => {
+    expect(createUnifiedLineDiff('a\nb\n', 'a\nb\n')).toEqual({ patch: '', additions: 0, deletions: 0 })
+  })
+
+  it('should produce ordered add / remove operations', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'remove', line: 'b' },
+      { type: 'add', line: 'x' },
+      { type: 'equal', line: 'c' },
+    ])
+  })
+
+  it('should build unified hunks with limited context', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n')
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '')
+
+    const { patch, additions, deletions } = createUnifiedLineDiff(before, after, 2)
+    expect(additions).toBe(1)
+    expect(deletions).toBe(2)
+    expect(patch).toBe(
+      ['@@ -1,4 +1,4 @@', ' line 1', '-line 2', '+line two', ' line 3', ' line 4', '@@ -16,5 +16,4 @@', ' line 16', ' line 17', '-line 18', ' line 19', ' line 20', ''].join('\n')
+    )
+  })
+
+  it('should handle additions to an empty file', () => {
+    expect(createUnifiedLineDiff('', 'a\nb\n').patch).toBe('@@ -0,0 +1,2 @@\n+a\n+b\n')
+  })
+})
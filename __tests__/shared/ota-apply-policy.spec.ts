@@ -85,4 +85,36 @@ describe('ota-apply-policy', () => {
       })
     ).toEqual({ apply: false, reason: 'locked-version-mismatch' })
   })
+
+  it('should keep the cached baseline for clients outside an active rollout cohort, even on manual update', () => {
+    const rollout = { version: '1.1.0', baselineVersion: '1.0.0', percent: 0, status: 'active' as const, failureThreshold: 0.05, minSamples: 20, autoPromote: true, startedAt: 0 }
+    const input = {
+      moduleId: 'demo.ts',
+      remoteHash: 'remote',
+      localHash: 'local',
+      hasLocalCache: true,
+      scriptPolicy: { stage: 'stable' as const, autoUpgrade: true, version: '1.1.0', rollout },
+      clientPrefs: { clientId: 'client-1' },
+    }
+    expect(decideOtaModuleApply(input)).toEqual({ apply: false, reason: 'rollout-not-in-cohort' })
+    expect(decideOtaModuleApply({ ...input, scriptPolicy: { ...input.scriptPolicy, rollout: { ...rollout, percent: 100 } } })).toEqual({
+      apply: true,
+      reason: 'policy-allowed',
+    })
+    expect(decideOtaModuleApply({ ...input, clientPrefs: { clientId: 'client-1', manualUpdate: true } })).toEqual({ apply: false, reason: 'rollout-not-in-cohort' })
+  })
+
+  it('should keep fresh installs outside an active rollout cohort off the candidate', () => {
+    const rollout = { version: '1.1.0', baselineVersion: '1.0.0', percent: 0, status: 'active' as const, failureThreshold: 0.05, minSamples: 20, autoPromote: true, startedAt: 0 }
+    expect(
+      decideOtaModuleApply({
+        moduleId: 'demo.ts',
+        remoteHash: 'remote',
+        localHash: null,
+        hasLocalCache: false,
+        scriptPolicy: { stage: 'stable', autoUpgrade: true, version: '1.1.0', rollout },
+        clientPrefs: { clientId: 'client-1' },
+      })
+    ).toEqual({ apply: false, reason: 'rollout-not-in-cohort' })
+  })
 })
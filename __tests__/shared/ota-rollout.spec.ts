@@ -0,0 +1,47 @@
+import { computeRolloutBucket, evaluateRolloutHealth, isClientInRolloutCohort } from '@/shared/ota-rollout'
+import type { ScriptOtaRollout } from '@/shared/script-ota-policy'
+
+const rollout: ScriptOtaRollout = {
+  version: '1.1.0',
+  baselineVersion: '1.0.0',
+  percent: 25,
+  status: 'active',
+  failureThreshold: 0.1,
+  minSamples: 10,
+  autoPromote: true,
+  startedAt: 0,
+}
+
+describe('ota-rollout', () => {
+  it('should place clients in stable buckets per candidate', () => {
+    const bucket = computeRolloutBucket('client-1', 'demo.ts', '1.1.0')
+    expect(bucket).toBeGreaterThanOrEqual(0)
+    expect(bucket).toBeLessThan(100)
+    expect(computeRolloutBucket('client-1', 'demo.ts', '1.1.0')).toBe(bucket)
+  })
+
+  it('should admit roughly the rollout percentage of clients', () => {
+    const clients = Array.from({ length: 1000 }, (_, i) => `client-${i}`)
+    const admitted = clients.filter((clientId) => isClientInRolloutCohort(rollout, 'demo.ts', clientId)).length
+    expect(admitted).toBeGreaterThan(180)
+    expect(admitted).toBeLessThan(320)
+  })
+
+  it('should keep clients without an id or rolled-back rollouts on the baseline', () => {
+    expect(isClientInRolloutCohort({ ...rollout, percent: 99 }, 'demo.ts', '')).toBe(false)
+    expect(isClientInRolloutCohort({ ...rollout, percent: 100, status: 'rolled-back' }, 'demo.ts', 'client-1')).toBe(false)
+  })
+
+  it('should wait for enough samples before deciding', () => {
+    expect(evaluateRolloutHealth(rollout, { successes: 5, failures: 4 })).toBeNull()
+  })
+
+  it('should roll back once the failure rate reaches the threshold', () => {
+    expect(evaluateRolloutHealth(rollout, { successes: 9, failures: 1 })).toBe('rollback')
+  })
+
+  it('should promote healthy rollouts only when auto-promotion is on', () => {
+    expect(evaluateRolloutHealth(rollout, { successes: 20, failures: 1 })).toBe('promote')
+    expect(evaluateRolloutHealth({ ...rollout, autoPromote: false }, { successes: 20, failures: 1 })).toBeNull()
+  })
+})
@@ -28,6 +28,21 @@ describe('remote-script-ota-merge', () => {
     expect(shouldApplyRemoteScriptModuleUpgrade('demo-a.ts', { ...LEGACY_SCRIPT_OTA_DEFAULTS, autoUpgrade: false }, true, true)).toBe(true)
   })
 
+  it('should run the cached baseline or withhold a rollout candidate outside the cohort', () => {
+    const rollout = { version: '2.0.0', baselineVersion: '1.0.0', percent: 0, status: 'active' as const, failureThreshold: 0.05, minSamples: 20, autoPromote: true, startedAt: 0 }
+    const scriptPolicies = { 'demo-a.ts': { ...LEGACY_SCRIPT_OTA_DEFAULTS, version: '2.0.0', rollout }, 'demo-b.ts': LEGACY_SCRIPT_OTA_DEFAULTS }
+
+    const cachedResult = mergeRemoteBundleWithOtaPolicy({ content: bundle, moduleCache: cache, scriptPolicies, clientId: 'client-1' })
+    expect(cachedResult.pinnedFromCache).toEqual(['demo-a.ts'])
+    expect(cachedResult.withheld).toEqual([])
+    expect(cachedResult.content).toContain("console.log('a-v1')")
+
+    const freshResult = mergeRemoteBundleWithOtaPolicy({ content: bundle, scriptPolicies, clientId: 'client-1' })
+    expect(freshResult.withheld).toEqual(['demo-a.ts'])
+    expect(freshResult.content).not.toContain('demo-a.ts')
+    expect(freshResult.content).toContain("console.log('b-v2')")
+  })
+
   it('should block locked version mismatch for script modules', () => {
     expect(shouldApplyRemoteScriptModuleUpgrade('demo-a.ts', { ...LEGACY_SCRIPT_OTA_DEFAULTS, lockedVersion: '1.0.0', version: '2.0.0' }, true, false)).toBe(false)
   })
@@ -0,0 +1,99 @@
+import { evaluateRuleConditions, normalizeRuleConditions, resolveRuleDecision, sortRulesByPriority, validateRuleConditions } from '@shared/rule-engine'
+
+const URL = 'https://example.com/page'
+
+describe('evaluateRuleConditions', () => {
+  it('should check frame, user agent and device against the context', () => {
+    const desktop = 'Mozilla/5.0 (Macintosh) Chrome/120'
+    const mobile = 'Mozilla/5.0 (iPhone) Mobile Safari'
+
+    expect(evaluateRuleConditions({ frame: 'top' }, { isTopFrame: true })).toBe(true)
+    expect(evaluateRuleConditions({ frame: 'top' }, { isTopFrame: false })).toBe(false)
+    expect(evaluateRuleConditions({ frame: 'iframe' }, { isTopFrame: false })).toBe(true)
+    expect(evaluateRuleConditions({ userAgent: 'chrome' }, { userAgent: desktop })).toBe(true)
+    expect(evaluateRuleConditions({ userAgent: '/firefox|safari/i' }, { userAgent: desktop })).toBe(false)
+    expect(evaluateRuleConditions({ device: 'mobile' }, { userAgent: mobile })).toBe(true)
+    expect(evaluateRuleConditions({ device: 'mobile' }, { userAgent: desktop })).toBe(false)
+  })
+
+  it('should check cookie, localStorage and selector presence', () => {
+    const context = {
+      hasCookie: (name: string) => name === 'session',
+      hasLocalStorageKey: (key: string) => key === 'token',
+      hasElement: (selector: string) => selector === '#app',
+    }
+
+    expect(evaluateRuleConditions({ cookie: 'session', localStorage: 'token', selector: '#app' }, context)).toBe(true)
+    expect(evaluateRuleConditions({ cookie: 'other' }, context)).toBe(false)
+    expect(evaluateRuleConditions({ localStorage: 'other' }, context)).toBe(false)
+    expect(evaluateRuleConditions({ selector: '.missing' }, context)).toBe(false)
+  })
+
+  it('should treat facts missing from the context as passing', () => {
+    expect(evaluateRuleConditions({ frame: 'iframe', cookie: 'session', selector: '#app', device: 'mobile' }, {})).toBe(true)
+  })
+
+  it('should evaluate time windows, including windows past midnight', () => {
+    // 2026-03-02 is a Monday
+    const at = (day: number, hours: number, minutes = 0) => ({ now: new Date(2026, 2, day, hours, minutes) })
+
+    expect(evaluateRuleConditions({ time: { from: '09:00', to: '17:00' } }, at(2, 9))).toBe(true)
+    expect(evaluateRuleConditions({ time: { from: '09:00', to: '17:00' } }, at(2, 17))).toBe(false)
+    expect(evaluateRuleConditions({ time: { from: '09:00', to: '17:00', days: [1] } }, at(3, 10))).toBe(false)
+    expect(evaluateRuleConditions({ time: { from: '22:00', to: '02:00' } }, at(2, 23, 30))).toBe(true)
+    expect(evaluateRuleConditions({ time: { from: '22:00', to: '02:00' } }, at(2, 3))).toBe(false)
+    // 01:00 on Tuesday belongs to Monday's window
+    expect(evaluateRuleConditions({ time: { from: '22:00', to: '02:00', days: [1] } }, at(3, 1))).toBe(true)
+  })
+})
+
+describe('validateRuleConditions', () => {
+  it('should report malformed conditions', () => {
+    expect(validateRuleConditions({ frame: 'top', time: { from: '08:00', to: '18:30', days: [1, 5] } })).toEqual([])
+    expect(validateRuleConditions({ time: { from: '8am', to: '18:00', days: [7] }, userAgent: '/(/', selector: ' ' })).toEqual([
+      'time window must use HH:MM (00:00–23:59)',
+      'time window days must be 0 (Sunday) to 6 (Saturday)',
+      'userAgent /(/ is not a valid regular expression',
+      'selector must not be empty',
+    ])
+  })
+})
+
+describe('normalizeRuleConditions', () => {
+  it('should keep only well-formed fields', () => {
+    expect(normalizeRuleConditions({ frame: 'side', device: 'mobile', cookie: ' sid ', selector: '', time: { from: '01:00', to: '02:00', days: [9, 0] } })).toEqual({
+      device: 'mobile',
+      cookie: 'sid',
+      time: { from: '01:00', to: '02:00', days: [0] },
+    })
+    expect(normalizeRuleConditions({ frame: 'side' })).toBeUndefined()
+    expect(normalizeRuleConditions('top')).toBeUndefined()
+  })
+})
+
+describe('resolveRuleDecision', () => {
+  it('should let the highest-priority active rule decide', () => {
+    const rules = [
+      { id: 'run', wildcard: 'https://example.com/*', script: 'a.ts' },
+      { id: 'block', wildcard: 'https://example.com/page', script: 'a.ts', mode: 'exclude' as const, priority: 10 },
+    ]
+
+    expect(resolveRuleDecision(rules, URL)).toEqual({ matched: false, source: 'exclude', rule: rules[1] })
+    expect(resolveRuleDecision(rules, 'https://example.com/other')).toEqual({ matched: true, source: 'script', rule: rules[0] })
+  })
+
+  it('should skip disabled rules and rules whose conditions fail', () => {
+    const rules = [
+      { wildcard: 'https://example.com/*', mode: 'exclude' as const, enabled: false },
+      { wildcard: 'https://example.com/*', conditions: { frame: 'top' as const } },
+    ]
+
+    expect(resolveRuleDecision(rules, URL, { isTopFrame: true }).source).toBe('script')
+    expect(resolveRuleDecision(rules, URL, { isTopFrame: false })).toEqual({ matched: false, source: 'none' })
+  })
+
+  it('should prefer include over exclude over script on equal priority', () => {
+    const sorted = sortRulesByPriority([{ mode: 'script' as const }, { mode: 'exclude' as const }, { mode: 'include' as const }, { mode: 'script' as const, priority: 1 }])
+    expect(sorted.map((rule) => `${rule.mode}:${rule.priority ?? 0}`)).toEqual(['script:1', 'include:0', 'exclude:0', 'script:0'])
+  })
+})
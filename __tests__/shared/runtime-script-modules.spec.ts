@@ -35,6 +35,14 @@ describe('filterScriptModulesByUrl', () => {
     const matched = filterScriptModulesByUrl(catalog, 'https://admin.example.com/', [{ script: 'b.ts', wildcard: 'https://admin.example.com/*' }])
     expect(matched.map((m) => m.file)).toEqual(['b.ts'])
   })
+
+  it('should let an exclude RULE row veto @match and skip rows whose conditions fail', () => {
+    const rules = [{ script: 'a.ts', wildcard: 'https://shop.example.com/admin/*', mode: 'exclude' as const }]
+    expect(filterScriptModulesByUrl(catalog, 'https://shop.example.com/admin/users', rules)).toEqual([])
+
+    const framed = [{ script: 'b.ts', wildcard: 'https://admin.example.com/*', conditions: { frame: 'top' as const } }]
+    expect(filterScriptModulesByUrl(catalog, 'https://admin.example.com/', framed, { context: { isTopFrame: false } })).toEqual([])
+  })
 })
 
 describe('topoSortScriptModulesWithDeps', () => {
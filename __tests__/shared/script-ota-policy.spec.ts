@@ -5,6 +5,7 @@ import {
   NEW_SCRIPT_OTA_DEFAULTS,
   resolveRuntimeOtaPolicy,
   resolveScriptOtaPolicy,
+  resolveScriptPinnedVersion,
 } from '@/shared/script-ota-policy'
 
 describe('script-ota-policy', () => {
@@ -44,4 +45,26 @@ describe('script-ota-policy', () => {
   it('should resolve match-fallback scriptLoadMode when set in index', () => {
     expect(resolveRuntimeOtaPolicy({ scriptLoadMode: 'match-fallback' }, '0.2.0').scriptLoadMode).toBe('match-fallback')
   })
+
+  it('should resolve a staged rollout with defaults for stable scripts only', () => {
+    const rollout = { version: '1.1.0', baselineVersion: '1.0.0', percent: 10 }
+    expect(resolveScriptOtaPolicy({ stage: 'stable', rollout: rollout as never }).rollout).toEqual({
+      version: '1.1.0',
+      baselineVersion: '1.0.0',
+      percent: 10,
+      status: 'active',
+      failureThreshold: 0.05,
+      minSamples: 20,
+      autoPromote: true,
+      startedAt: 0,
+    })
+    expect(resolveScriptOtaPolicy({ stage: 'alpha', rollout: rollout as never }).rollout).toBeUndefined()
+  })
+
+  it('should serve the baseline version once a rollout is rolled back', () => {
+    const ota = { stage: 'stable' as const, rollout: { version: '1.1.0', baselineVersion: '1.0.0', percent: 10, status: 'rolled-back' as const } }
+    expect(buildScriptPolicySummary({ filename: 'demo.ts', version: '1.1.0', ota: ota as never }).version).toBe('1.0.0')
+    expect(resolveScriptPinnedVersion(resolveScriptOtaPolicy(ota as never))).toBe('1.0.0')
+    expect(resolveScriptPinnedVersion(resolveScriptOtaPolicy({ stage: 'stable', lockedVersion: '0.9.0' }))).toBe('0.9.0')
+  })
 })
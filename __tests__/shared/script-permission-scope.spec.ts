@@ -1,4 +1,11 @@
-import { enterScriptPermissionScope, exitScriptPermissionScope, isScriptPermissionEnforced, SCRIPT_PERMISSION_ENFORCE_KEY } from '@shared/script-permission-scope'
+import {
+  ensureScopedScriptPermission,
+  enterScriptPermissionScope,
+  exitScriptPermissionScope,
+  isScriptPermissionEnforced,
+  SCRIPT_PERMISSION_ENFORCE_KEY,
+  SCRIPT_PERMISSION_GATE_KEY,
+} from '@shared/script-permission-scope'
 
 describe('script-permission-scope', () => {
   afterEach(() => {
@@ -6,6 +13,7 @@ describe('script-permission-scope', () => {
     delete g.__VWS_PERMISSION_STACK__
     delete g[SCRIPT_PERMISSION_ENFORCE_KEY]
     delete g.__GLOBAL__
+    delete g[SCRIPT_PERMISSION_GATE_KEY]
   })
 
   it('enforces only inside enterScriptPermissionScope', () => {
@@ -32,4 +40,24 @@ describe('script-permission-scope', () => {
     expect(sandbox.__VWS_PERMISSION_STACK__).toEqual([{ file: 'shopline-debug.ts' }])
     expect(isScriptPermissionEnforced()).toBe(true)
   })
+
+  it('should run the installed gate only for calls made inside a script scope', async () => {
+    const ensure = jest.fn().mockRejectedValue(new Error('Message other tabs denied'))
+    ;(globalThis as Record<string, unknown>)[SCRIPT_PERMISSION_GATE_KEY] = { ensure, ensureSync: jest.fn(), isAllowedSync: jest.fn() }
+
+    await expect(ensureScopedScriptPermission('tab-message', 'tab-comm')).resolves.toBeUndefined()
+    expect(ensure).not.toHaveBeenCalled()
+
+    enterScriptPermissionScope('demo.ts')
+    const pending = ensureScopedScriptPermission('tab-message', 'tab-comm')
+    exitScriptPermissionScope()
+    await expect(pending).rejects.toThrow('denied')
+    expect(ensure).toHaveBeenCalledWith('tab-message', 'tab-comm')
+  })
+
+  it('should allow scoped calls when no gate is installed (Tampermonkey)', async () => {
+    enterScriptPermissionScope('demo.ts')
+    await expect(ensureScopedScriptPermission('webmcp-tool', 'search')).resolves.toBeUndefined()
+    exitScriptPermissionScope()
+  })
 })
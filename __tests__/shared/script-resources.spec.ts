@@ -0,0 +1,52 @@
+import { enterScriptPermissionScope, exitScriptPermissionScope, SCRIPT_PERMISSION_ENFORCE_KEY } from '@shared/script-permission-scope'
+import { installScriptResourceApi, registerScriptResources, resolveScriptResource, SCRIPT_RESOURCES_KEY } from '@shared/script-resources'
+
+describe('script-resources', () => {
+  afterEach(() => {
+    const g = globalThis as Record<string, unknown>
+    delete g[SCRIPT_RESOURCES_KEY]
+    delete g.__VWS_PERMISSION_STACK__
+    delete g[SCRIPT_PERMISSION_ENFORCE_KEY]
+    delete g.__BASE_URL__
+    delete g.__GLOBAL__
+  })
+
+  it('should resolve root-relative urls against __BASE_URL__', () => {
+    ;(globalThis as Record<string, unknown>).__BASE_URL__ = 'https://mm.example.com/'
+    registerScriptResources('a.ts', { css: { url: '/static/key/abc/assets/css', text: 'body{}' } })
+    expect(resolveScriptResource('css')).toEqual({ url: 'https://mm.example.com/static/key/abc/assets/css', text: 'body{}' })
+  })
+
+  it('should prefer the active script scope when names collide', () => {
+    registerScriptResources('a.ts', { icon: { url: 'https://cdn/a.png', text: null } })
+    registerScriptResources('b.ts', { icon: { url: 'https://cdn/b.png', text: null } })
+
+    expect(resolveScriptResource('icon')).toBeNull()
+    enterScriptPermissionScope('b.ts')
+    expect(resolveScriptResource('icon')?.url).toBe('https://cdn/b.png')
+    exitScriptPermissionScope()
+  })
+
+  it('should register into the launcher sandbox __GLOBAL__', () => {
+    const sandbox: Record<string, unknown> = {}
+    ;(globalThis as Record<string, unknown>).__GLOBAL__ = sandbox
+    registerScriptResources('a.ts', { css: { url: 'https://cdn/a.css', text: 'a' } })
+    expect(sandbox[SCRIPT_RESOURCES_KEY]).toEqual({ 'a.ts': { css: { url: 'https://cdn/a.css', text: 'a' } } })
+  })
+
+  it('should fall back to the host manager for unregistered names', () => {
+    const host: Record<string, unknown> = {
+      GM_getResourceText: (name: string) => `native:${name}`,
+      GM_getResourceURL: (name: string) => `native-url:${name}`,
+    }
+    installScriptResourceApi(host)
+    installScriptResourceApi(host)
+    registerScriptResources('a.ts', { css: { url: 'https://cdn/a.css', text: 'a' } })
+
+    const api = host as { GM_getResourceText: (name: string) => string | null; GM_getResourceURL: (name: string) => string | null }
+    expect(api.GM_getResourceText('css')).toBe('a')
+    expect(api.GM_getResourceURL('css')).toBe('https://cdn/a.css')
+    expect(api.GM_getResourceText('launcher')).toBe('native:launcher')
+    expect(api.GM_getResourceURL('launcher')).toBe('native-url:launcher')
+  })
+})
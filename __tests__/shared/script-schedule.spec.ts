@@ -0,0 +1,48 @@
+import { getNextCronRunAt, isBackgroundRunAt, parseCronSchedule, validateCronSchedule } from '@/shared/script-schedule'
+
+/** Local-time epoch ms (cron is evaluated in local time) */
+function at(year: number, month: number, day: number, hour: number, minute: number): number {
+  return new Date(year, month - 1, day, hour, minute).getTime()
+}
+
+describe('script-schedule', () => {
+  it('should recognize background run-at values', () => {
+    expect(isBackgroundRunAt('background')).toBe(true)
+    expect(isBackgroundRunAt(' Background ')).toBe(true)
+    expect(isBackgroundRunAt('document-idle')).toBe(false)
+    expect(isBackgroundRunAt(undefined)).toBe(false)
+  })
+
+  it('should parse lists, ranges, steps and macros', () => {
+    const schedule = parseCronSchedule('0,30 9-17/2 * * 1-5')
+    expect([...schedule.minutes]).toEqual([0, 30])
+    expect([...schedule.hours]).toEqual([9, 11, 13, 15, 17])
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+    expect(schedule.anyDayOfMonth).toBe(true)
+
+    expect([...parseCronSchedule('@hourly').minutes]).toEqual([0])
+    expect([...parseCronSchedule('0 0 * * 7').daysOfWeek]).toEqual([0])
+    expect([...parseCronSchedule('5/20 * * * *').minutes]).toEqual([5, 25, 45])
+  })
+
+  it('should report malformed expressions', () => {
+    expect(validateCronSchedule('*/5 * * * *')).toBeNull()
+    expect(validateCronSchedule('* * *')).toContain('must have 5 fields')
+    expect(validateCronSchedule('60 * * * *')).toContain('out of range 0-59')
+    expect(validateCronSchedule('a * * * *')).toContain('Invalid cron minute "a"')
+  })
+
+  it('should compute the next run strictly after the reference time', () => {
+    expect(getNextCronRunAt('*/15 * * * *', at(2026, 3, 10, 8, 7))).toBe(at(2026, 3, 10, 8, 15))
+    expect(getNextCronRunAt('*/15 * * * *', at(2026, 3, 10, 8, 15))).toBe(at(2026, 3, 10, 8, 30))
+    expect(getNextCronRunAt('@daily', at(2026, 12, 31, 23, 59))).toBe(at(2027, 1, 1, 0, 0))
+    // 2026-03-10 is a Tuesday
+    expect(getNextCronRunAt('30 9 * * 1', at(2026, 3, 10, 12, 0))).toBe(at(2026, 3, 16, 9, 30))
+  })
+
+  it('should match either restricted day field and give up on impossible dates', () => {
+    // The 1st of the month or any Friday, whichever comes first
+    expect(getNextCronRunAt('0 12 1 * 5', at(2026, 3, 10, 0, 0))).toBe(at(2026, 3, 13, 12, 0))
+    expect(getNextCronRunAt('0 0 31 2 *', at(2026, 1, 1, 0, 0))).toBeNull()
+  })
+})
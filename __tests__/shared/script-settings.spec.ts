@@ -0,0 +1,97 @@
+import { enterScriptPermissionScope, exitScriptPermissionScope, SCRIPT_PERMISSION_ENFORCE_KEY, SCRIPT_PERMISSION_GATE_KEY } from '@shared/script-permission-scope'
+import {
+  buildScriptSettingsGmKey,
+  getScriptSettings,
+  normalizeScriptSettingFields,
+  parseScriptSettingDeclaration,
+  parseScriptSettingDeclarations,
+  parseScriptSettingsGmKey,
+  registerScriptSettings,
+  resolveScriptSettings,
+  SCRIPT_SETTINGS_KEY,
+} from '@shared/script-settings'
+
+describe('script-settings', () => {
+  afterEach(() => {
+    const g = globalThis as Record<string, unknown>
+    delete g[SCRIPT_SETTINGS_KEY]
+    delete g.__VWS_PERMISSION_STACK__
+    delete g[SCRIPT_PERMISSION_ENFORCE_KEY]
+    delete g.GM_getValue
+    delete g[SCRIPT_PERMISSION_GATE_KEY]
+  })
+
+  it('should parse typed declarations with defaults and labels', () => {
+    expect(parseScriptSettingDeclaration('refreshSeconds number 30 Refresh interval (seconds)')).toEqual({
+      key: 'refreshSeconds',
+      type: 'number',
+      label: 'Refresh interval (seconds)',
+      default: 30,
+    })
+    expect(parseScriptSettingDeclaration('theme select(light|dark) dark')).toEqual({ key: 'theme', type: 'select', label: 'theme', default: 'dark', options: ['light', 'dark'] })
+    expect(parseScriptSettingDeclaration('showBanner boolean true Show banner')).toMatchObject({ type: 'boolean', default: true })
+    expect(parseScriptSettingDeclaration('greeting string "Hello there" Greeting')).toMatchObject({ type: 'string', default: 'Hello there', label: 'Greeting' })
+    expect(parseScriptSettingDeclaration('token string ""')).toMatchObject({ default: '' })
+  })
+
+  it('should reject malformed declarations', () => {
+    expect(() => parseScriptSettingDeclaration('theme')).toThrow('must be "key type default [label]"')
+    expect(() => parseScriptSettingDeclaration('1st string a')).toThrow('@setting key "1st"')
+    expect(() => parseScriptSettingDeclaration('size color red')).toThrow('unknown type "color"')
+    expect(() => parseScriptSettingDeclaration('size number')).toThrow('default value is required')
+    expect(() => parseScriptSettingDeclaration('size number big')).toThrow('is not a valid number')
+    expect(() => parseScriptSettingDeclaration('theme select(light|dark) blue')).toThrow('option of light|dark')
+
+    expect(parseScriptSettingDeclarations(['a number 1', 'a string x', 'b boolean maybe'])).toEqual({
+      fields: [{ key: 'a', type: 'number', label: 'a', default: 1 }],
+      errors: ['@setting a is declared more than once', '@setting b: default "maybe" is not a valid boolean'],
+    })
+  })
+
+  it('should fill defaults and drop saved values that no longer fit', () => {
+    const { fields } = parseScriptSettingDeclarations(['refresh number 30', 'theme select(light|dark) light', 'banner boolean true'])
+    expect(resolveScriptSettings(fields, { refresh: 10, theme: 'blue', removed: 'x' })).toEqual({ refresh: 10, theme: 'light', banner: true })
+    expect(resolveScriptSettings(fields, null)).toEqual({ refresh: 30, theme: 'light', banner: true })
+    expect(normalizeScriptSettingFields([{ key: 'ok', type: 'number', default: 2 }, { key: 'bad', type: 'select', default: 'x' }, null])).toEqual([
+      { key: 'ok', type: 'number', label: 'ok', default: 2 },
+    ])
+  })
+
+  it('should read the running script settings from GM storage', () => {
+    const stored: Record<string, unknown> = { [buildScriptSettingsGmKey('b.ts')]: { limit: 5 } }
+    ;(globalThis as Record<string, unknown>).GM_getValue = (key: string, fallback?: unknown) => (key in stored ? stored[key] : fallback)
+    registerScriptSettings('a.ts', parseScriptSettingDeclarations(['limit number 1']).fields)
+    expect(getScriptSettings()).toEqual({ limit: 1 })
+
+    registerScriptSettings('b.ts', parseScriptSettingDeclarations(['limit number 2']).fields)
+    expect(getScriptSettings()).toEqual({})
+    expect(getScriptSettings('b.ts')).toEqual({ limit: 5 })
+
+    enterScriptPermissionScope('a.ts')
+    expect(getScriptSettings()).toEqual({ limit: 1 })
+    exitScriptPermissionScope()
+  })
+
+  it("should gate reading another script's settings from inside a script scope", () => {
+    const ensureSync = jest.fn(() => {
+      throw new Error('cross-script-storage permission required')
+    })
+    const g = globalThis as Record<string, unknown>
+    g[SCRIPT_PERMISSION_GATE_KEY] = { ensure: jest.fn(), ensureSync, isAllowedSync: jest.fn(() => false) }
+    g.GM_getValue = (_key: string, fallback?: unknown) => fallback
+    registerScriptSettings('a.ts', parseScriptSettingDeclarations(['limit number 1']).fields)
+    registerScriptSettings('b.ts', parseScriptSettingDeclarations(['limit number 2']).fields)
+
+    expect(getScriptSettings('b.ts')).toEqual({ limit: 2 })
+    expect(ensureSync).not.toHaveBeenCalled()
+
+    enterScriptPermissionScope('a.ts')
+    expect(getScriptSettings('a.ts')).toEqual({ limit: 1 })
+    expect(() => getScriptSettings('b.ts')).toThrow('permission required')
+    expect(ensureSync).toHaveBeenCalledWith('cross-script-storage', 'b.ts')
+    exitScriptPermissionScope()
+
+    expect(parseScriptSettingsGmKey(buildScriptSettingsGmKey('b.ts'))).toBe('b.ts')
+    expect(parseScriptSettingsGmKey('counter')).toBeNull()
+  })
+})
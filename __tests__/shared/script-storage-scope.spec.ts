@@ -0,0 +1,84 @@
+import { enterScriptPermissionScope, exitScriptPermissionScope, SCRIPT_PERMISSION_ENFORCE_KEY, SCRIPT_PERMISSION_GATE_KEY } from '@shared/script-permission-scope'
+import { buildScriptSettingsGmKey } from '@shared/script-settings'
+import {
+  claimScriptStorageKey,
+  ensureScriptStorageAccess,
+  isScriptStorageAccessAllowed,
+  normalizeScriptStorageOwners,
+  releaseScriptStorageKey,
+  resolveScriptStorageOwner,
+  SCRIPT_STORAGE_OWNERS_GM_KEY,
+} from '@shared/script-storage-scope'
+
+describe('script-storage-scope', () => {
+  const ensureSync = jest.fn((capability: string, resource: string) => {
+    throw new Error(`${capability} permission required for ${resource}`)
+  })
+  const isAllowedSync = jest.fn<boolean, [string, string, { file: string }?]>(() => false)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(globalThis as Record<string, unknown>)[SCRIPT_PERMISSION_GATE_KEY] = { ensure: jest.fn(), ensureSync, isAllowedSync }
+  })
+
+  afterEach(() => {
+    const g = globalThis as Record<string, unknown>
+    delete g.__VWS_PERMISSION_STACK__
+    delete g[SCRIPT_PERMISSION_ENFORCE_KEY]
+    delete g[SCRIPT_PERMISSION_GATE_KEY]
+  })
+
+  it('should resolve owners from settings keys and first writers', () => {
+    const owners = normalizeScriptStorageOwners({ counter: 'a.ts', broken: 1 })
+    expect(owners).toEqual({ counter: 'a.ts' })
+    expect(resolveScriptStorageOwner('counter', owners)).toBe('a.ts')
+    expect(resolveScriptStorageOwner(buildScriptSettingsGmKey('b.ts'), owners)).toBe('b.ts')
+    expect(resolveScriptStorageOwner('free', owners)).toBeNull()
+    expect(resolveScriptStorageOwner('toString', owners)).toBeNull()
+  })
+
+  it('should claim unowned keys for the running script and release them on delete', () => {
+    expect(claimScriptStorageKey('counter', {})).toBeNull()
+
+    enterScriptPermissionScope('a.ts')
+    const owners = claimScriptStorageKey('counter', {})
+    expect(owners).toEqual({ counter: 'a.ts' })
+    expect(claimScriptStorageKey('counter', owners!)).toBeNull()
+    expect(claimScriptStorageKey(buildScriptSettingsGmKey('a.ts'), {})).toBeNull()
+    exitScriptPermissionScope()
+
+    expect(releaseScriptStorageKey('counter', owners!)).toEqual({})
+    expect(releaseScriptStorageKey('free', owners!)).toBeNull()
+  })
+
+  it("should gate every access to another script's keys and pass the script's own", () => {
+    const owners = { counter: 'a.ts', other: 'b.ts' }
+    expect(() => ensureScriptStorageAccess('other', owners)).not.toThrow()
+
+    enterScriptPermissionScope('a.ts')
+    expect(() => ensureScriptStorageAccess('counter', owners)).not.toThrow()
+    expect(() => ensureScriptStorageAccess('free', owners)).not.toThrow()
+    expect(() => ensureScriptStorageAccess('other', owners)).toThrow('cross-script-storage permission required for b.ts')
+    expect(() => ensureScriptStorageAccess(buildScriptSettingsGmKey('b.ts'), owners)).toThrow('b.ts')
+    expect(() => ensureScriptStorageAccess(SCRIPT_STORAGE_OWNERS_GM_KEY, owners)).toThrow('reserved')
+    exitScriptPermissionScope()
+
+    expect(ensureSync).toHaveBeenCalledTimes(2)
+  })
+
+  it('should check list and listener access without prompting', () => {
+    const owners = { counter: 'a.ts', other: 'b.ts' }
+    expect(isScriptStorageAccessAllowed(SCRIPT_STORAGE_OWNERS_GM_KEY, owners)).toBe(true)
+
+    enterScriptPermissionScope('a.ts')
+    expect(['counter', 'other', 'free', SCRIPT_STORAGE_OWNERS_GM_KEY].filter((key) => isScriptStorageAccessAllowed(key, owners))).toEqual(['counter', 'free'])
+    isAllowedSync.mockReturnValueOnce(true)
+    expect(isScriptStorageAccessAllowed('other', owners)).toBe(true)
+    exitScriptPermissionScope()
+
+    expect(isScriptStorageAccessAllowed('other', owners, { file: 'a.ts' })).toBe(false)
+    expect(isAllowedSync).toHaveBeenLastCalledWith('cross-script-storage', 'b.ts', { file: 'a.ts' })
+    expect(isScriptStorageAccessAllowed('other', owners, null)).toBe(true)
+    expect(ensureSync).not.toHaveBeenCalled()
+  })
+})
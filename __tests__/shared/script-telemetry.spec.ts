@@ -0,0 +1,51 @@
+import { normalizeScriptTelemetryEvent, stripTelemetryUrl } from '@/shared/script-telemetry'
+
+const traceId = '0123456789abcdef'
+
+describe('script-telemetry', () => {
+  it('should strip query strings and fragments from page URLs', () => {
+    expect(stripTelemetryUrl('https://example.com/search?q=secret#top')).toBe('https://example.com/search')
+    expect(stripTelemetryUrl('chrome://extensions')).toBe('')
+    expect(stripTelemetryUrl('not a url')).toBe('')
+  })
+
+  it('should normalize error events and clamp free text', () => {
+    const event = normalizeScriptTelemetryEvent({
+      kind: 'error',
+      file: 'demo.ts',
+      traceId: traceId.toUpperCase(),
+      url: 'https://example.com/a?token=1',
+      at: 1700000000000.5,
+      message: 'x'.repeat(2000),
+      stack: 'Error: x\n    at demo.ts:1:1',
+    })
+    expect(event).toMatchObject({ kind: 'error', file: 'demo.ts', traceId, url: 'https://example.com/a', at: 1700000000000, stack: 'Error: x\n    at demo.ts:1:1' })
+    expect(event?.message).toHaveLength(1000)
+  })
+
+  it('should drop error fields from execution events', () => {
+    expect(normalizeScriptTelemetryEvent({ kind: 'execution', file: 'demo.ts', traceId, url: 'https://example.com/', at: 1, message: 'ignored' })).toEqual({
+      kind: 'execution',
+      file: 'demo.ts',
+      traceId,
+      url: 'https://example.com/',
+      at: 1,
+    })
+  })
+
+  it('should keep rollout fields only when both version and client id are valid', () => {
+    const valid = { kind: 'execution', file: 'demo.ts', traceId, url: '', at: 1 }
+    expect(normalizeScriptTelemetryEvent({ ...valid, version: '1.1.0', clientId: 'client-1' })).toEqual({ ...valid, version: '1.1.0', clientId: 'client-1' })
+    expect(normalizeScriptTelemetryEvent({ ...valid, version: '1.1.0' })).toEqual(valid)
+    expect(normalizeScriptTelemetryEvent({ ...valid, version: '1.1.0', clientId: 'x'.repeat(200) })).toEqual(valid)
+  })
+
+  it('should reject events without kind, file, valid trace id or time', () => {
+    const valid = { kind: 'execution', file: 'demo.ts', traceId, at: 1 }
+    expect(normalizeScriptTelemetryEvent(null)).toBeNull()
+    expect(normalizeScriptTelemetryEvent({ ...valid, kind: 'crash' })).toBeNull()
+    expect(normalizeScriptTelemetryEvent({ ...valid, file: ' ' })).toBeNull()
+    expect(normalizeScriptTelemetryEvent({ ...valid, traceId: 'nope' })).toBeNull()
+    expect(normalizeScriptTelemetryEvent({ ...valid, at: 'now' })).toBeNull()
+  })
+})
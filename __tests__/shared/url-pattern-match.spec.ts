@@ -0,0 +1,132 @@
+import { filterScriptModulesByUrl, type RuntimeScriptModuleCatalogEntry } from '@shared/runtime-script-modules'
+import { matchIncludePattern, matchScriptUrl, matchUrlPattern, type ScriptUrlMatchRules } from '@shared/url-pattern-match'
+
+/** [pattern, url, expected] */
+type ConformanceCase = [string, string, boolean]
+
+describe('url-pattern-match conformance', () => {
+  describe('@match', () => {
+    const cases: ConformanceCase[] = [
+      ['https://example.com/*', 'https://example.com/', true],
+      ['https://example.com/*', 'https://example.com/a/b?c=1', true],
+      ['https://example.com/*', 'https://example.com', true],
+      ['https://example.com/*', 'http://example.com/', false],
+      ['https://example.com/*', 'https://example.com.evil.com/', false],
+      ['https://example.com/*', 'https://evil.com/?https://example.com/', false],
+      ['*://example.com/*', 'http://example.com/', true],
+      ['*://example.com/*', 'https://example.com/', true],
+      ['*://example.com/*', 'ftp://example.com/', false],
+      ['*://*.example.com/*', 'https://example.com/', true],
+      ['*://*.example.com/*', 'https://a.b.example.com/x', true],
+      ['*://*.example.com/*', 'https://evil-example.com/', false],
+      ['*://*.example.com/*', 'https://example.com.evil.com/', false],
+      ['*://*/*', 'https://any.host.test/path', true],
+      ['https://example.com/foo*', 'https://example.com/foobar', true],
+      ['https://example.com/foo*', 'https://example.com/bar/foo', false],
+      ['https://example.com/a?b', 'https://example.com/a?b', true],
+      ['https://example.com/a?b', 'https://example.com/ab', false],
+      ['https://example.com/*', 'https://example.com:8443/x', true],
+      ['https://example.com:8443/*', 'https://example.com:8443/x', true],
+      ['https://example.com:8443/*', 'https://example.com/x', false],
+      ['https://example.com/path', 'https://example.com/path#section', true],
+      ['file:///*', 'file:///home/user/index.html', true],
+      ['<all_urls>', 'https://example.com/', true],
+      ['<all_urls>', 'file:///tmp/a.html', true],
+      ['<all_urls>', 'chrome://extensions/', false],
+      ['https://EXAMPLE.com/*', 'https://example.com/', true],
+    ]
+
+    it.each(cases)('should evaluate %s against %s as %s', (pattern, url, expected) => {
+      expect(matchUrlPattern(pattern, url)).toBe(expected)
+    })
+
+    it('should keep legacy globs working for RULE wildcards', () => {
+      expect(matchUrlPattern('*example.com*', 'https://www.example.com/x')).toBe(true)
+      expect(matchUrlPattern('https://*github.com/*', 'https://gist.github.com/x')).toBe(true)
+      expect(matchUrlPattern('*example.com*', 'https://other.test/')).toBe(false)
+    })
+
+    it('should not match empty patterns', () => {
+      expect(matchUrlPattern('', 'https://example.com/')).toBe(false)
+      expect(matchUrlPattern('   ', 'https://example.com/')).toBe(false)
+    })
+  })
+
+  describe('@include / @exclude', () => {
+    const cases: ConformanceCase[] = [
+      ['*', 'https://example.com/', true],
+      ['*', 'about:blank', false],
+      ['<all_urls>', 'http://example.com/', true],
+      ['https://example.com/*', 'https://example.com/a', true],
+      ['http*://example.com/*', 'https://example.com/a', true],
+      ['http*://example.com/*', 'http://example.com/a', true],
+      ['*://example.com/*', 'https://example.com/a', true],
+      ['*://*.example.com/*', 'https://example.com/', true],
+      ['*://*.example.com/*', 'https://www.example.com/', true],
+      ['*://*.example.com/*', 'https://evil-example.com/', false],
+      ['*://*.example.com/*', 'https://evil.com/?x=.example.com/', false],
+      ['https://example.tld/*', 'https://example.com/', true],
+      ['https://example.tld/*', 'https://example.co.uk/a', true],
+      ['https://example.tld/*', 'https://example.evil.com/', false],
+      ['*example.com*', 'https://www.example.com/a', true],
+      ['/^https:\\/\\/(www\\.)?example\\.com\\/a\\d+$/', 'https://www.example.com/a42', true],
+      ['/^https:\\/\\/(www\\.)?example\\.com\\/a\\d+$/', 'https://www.example.com/b42', false],
+      ['/EXAMPLE\\.com/i', 'https://example.com/', true],
+      ['/EXAMPLE\\.com/', 'https://example.com/', false],
+      ['/example\\.com/g', 'https://example.com/', true],
+      ['/[unclosed/', 'https://example.com/', false],
+    ]
+
+    it.each(cases)('should evaluate %s against %s as %s', (pattern, url, expected) => {
+      expect(matchIncludePattern(pattern, url)).toBe(expected)
+    })
+
+    it('should give stable results for repeated regex tests', () => {
+      expect(matchIncludePattern('/example\\.com/g', 'https://example.com/')).toBe(true)
+      expect(matchIncludePattern('/example\\.com/g', 'https://example.com/')).toBe(true)
+    })
+  })
+
+  describe('matchScriptUrl', () => {
+    const cases: Array<[string, ScriptUrlMatchRules, string, boolean]> = [
+      ['no rules', {}, 'https://example.com/', false],
+      ['@match only', { match: ['https://example.com/*'] }, 'https://example.com/a', true],
+      ['@include only', { include: ['/example\\.com\\/a/'] }, 'https://example.com/a', true],
+      ['@match or @include', { match: ['https://a.test/*'], include: ['https://b.test/*'] }, 'https://b.test/x', true],
+      ['@exclude vetoes @match', { match: ['https://example.com/*'], exclude: ['https://example.com/admin*'] }, 'https://example.com/admin/users', false],
+      ['@exclude leaves others', { match: ['https://example.com/*'], exclude: ['https://example.com/admin*'] }, 'https://example.com/shop', true],
+      ['@exclude regex', { include: ['*'], exclude: ['/\\/logout$/'] }, 'https://example.com/logout', false],
+      ['@exclude-match vetoes @include', { include: ['*'], excludeMatch: ['*://*.bank.test/*'] }, 'https://www.bank.test/', false],
+      ['@exclude-match host boundary', { include: ['*'], excludeMatch: ['*://*.bank.test/*'] }, 'https://evil-bank.test/', true],
+      ['<all_urls> with exclude', { match: ['<all_urls>'], exclude: ['*://localhost/*'] }, 'http://localhost/', false],
+    ]
+
+    it.each(cases)('should apply %s', (_label, rules, url, expected) => {
+      expect(matchScriptUrl(rules, url)).toBe(expected)
+    })
+  })
+
+  describe('filterScriptModulesByUrl', () => {
+    const module = (file: string, rules: Partial<RuntimeScriptModuleCatalogEntry>): RuntimeScriptModuleCatalogEntry => ({
+      file,
+      match: [],
+      track: 'stable',
+      url: `https://cdn/${file}.js`,
+      hash: { algorithm: 'sha1', value: file },
+      ...rules,
+    })
+
+    it('should let header excludes veto RULE wildcard matches', () => {
+      const catalog = [module('a.ts', { exclude: ['*://example.com/private/*'] })]
+      const rules = [{ script: 'a.ts', wildcard: '*://example.com/*' }]
+      expect(filterScriptModulesByUrl(catalog, 'https://example.com/private/x', rules)).toEqual([])
+      expect(filterScriptModulesByUrl(catalog, 'https://example.com/public', rules).map((m) => m.file)).toEqual(['a.ts'])
+    })
+
+    it('should skip @noframes modules outside the top frame', () => {
+      const catalog = [module('top.ts', { match: ['*://*/*'], noframes: true }), module('any.ts', { include: ['*'] })]
+      expect(filterScriptModulesByUrl(catalog, 'https://example.com/', [], { isTopFrame: false }).map((m) => m.file)).toEqual(['any.ts'])
+      expect(filterScriptModulesByUrl(catalog, 'https://example.com/', [], { isTopFrame: true }).map((m) => m.file)).toEqual(['top.ts', 'any.ts'])
+    })
+  })
+})
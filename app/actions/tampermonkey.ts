@@ -1,10 +1,11 @@
 'use server'
 
-import { ENTRY_SCRIPT_RULES_FILE, EXCLUDED_FILES, SCRIPT_INDEX_FILE, SCRIPTS_FILE_EXTENSION } from '@/constants/file'
-import { fetchGist, getGistInfo, readGistFile, writeGistFile } from '@/services/gist'
+import { ENTRY_SCRIPT_RULES_FILE, EXCLUDED_FILES, isScriptTestFilename, SCRIPT_INDEX_FILE, SCRIPTS_FILE_EXTENSION } from '@/constants/file'
 import { buildScriptDisplayMetaByFilenameFromIndexContent, buildScriptUpdatedAtMapFromIndexContent } from '@/services/scripts/gistScripts'
+import { getScriptStorage } from '@/services/storage'
 import { extractMeta } from '@/services/tampermonkey/meta'
 import { isRuleConfig, type RuleConfig } from '@/services/tampermonkey/types'
+import type { ScriptSettingField } from '@/shared/script-settings'
 
 export interface Script {
   name: string
@@ -21,25 +22,25 @@ export interface Script {
   author?: string
   /** SHA-256 from script index when available */
   contentHash?: string
+  /** `@setting` declarations from script index when the script has any */
+  settings?: ScriptSettingField[]
 }
 
 export async function getScriptsGistUpdatedAt(): Promise<number> {
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  return new Date(gist.updated_at).getTime()
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  return new Date(snapshot.updatedAt).getTime()
 }
 
 export async function getScriptsWithMeta(): Promise<{ scripts: Script[]; gistUpdatedAt: number }> {
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  const gistUpdatedAt = new Date(gist.updated_at).getTime()
-  const updatedAtByFile = buildScriptUpdatedAtMapFromIndexContent(gist.files[SCRIPT_INDEX_FILE]?.content, gistUpdatedAt)
-  const displayMetaByFile = buildScriptDisplayMetaByFilenameFromIndexContent(gist.files[SCRIPT_INDEX_FILE]?.content)
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const gistUpdatedAt = new Date(snapshot.updatedAt).getTime()
+  const updatedAtByFile = buildScriptUpdatedAtMapFromIndexContent(snapshot.files[SCRIPT_INDEX_FILE]?.content, gistUpdatedAt)
+  const displayMetaByFile = buildScriptDisplayMetaByFilenameFromIndexContent(snapshot.files[SCRIPT_INDEX_FILE]?.content)
 
   const scripts = Array.from<Script>(
     (function* () {
-      for (const [file, info] of Object.entries(gist.files)) {
-        if (!SCRIPTS_FILE_EXTENSION.some((ext) => file.endsWith(ext)) || EXCLUDED_FILES.includes(file)) {
+      for (const [file, info] of Object.entries(snapshot.files)) {
+        if (!SCRIPTS_FILE_EXTENSION.some((ext) => file.endsWith(ext)) || EXCLUDED_FILES.includes(file) || isScriptTestFilename(file)) {
           continue
         }
 
@@ -55,6 +56,7 @@ export async function getScriptsWithMeta(): Promise<{ scripts: Script[]; gistUpd
         const version = indexMeta?.version ?? (typeof headerVersion === 'string' ? headerVersion : undefined)
         const author = indexMeta?.author ?? (typeof headerAuthor === 'string' ? headerAuthor : undefined)
         const contentHash = indexMeta?.contentHash
+        const settings = indexMeta?.settings
 
         yield {
           file,
@@ -65,6 +67,7 @@ export async function getScriptsWithMeta(): Promise<{ scripts: Script[]; gistUpd
           ...(version ? { version } : {}),
           ...(author ? { author } : {}),
           ...(contentHash ? { contentHash } : {}),
+          ...(settings ? { settings } : {}),
         } satisfies Script
       }
     })()
@@ -80,14 +83,12 @@ export async function getScripts(): Promise<Script[]> {
 }
 
 export async function getRules(): Promise<RuleConfig[]> {
-  const { gistId, gistToken } = getGistInfo()
-  const content = await readGistFile({ fileName: ENTRY_SCRIPT_RULES_FILE, gistId, gistToken })
+  const content = await getScriptStorage().readFile(ENTRY_SCRIPT_RULES_FILE)
   const rules = JSON.parse(content)
   return rules.filter(isRuleConfig)
 }
 
 export async function updateRules(rules: RuleConfig[]) {
-  const { gistId, gistToken } = getGistInfo()
   const content = JSON.stringify(rules, null, 2)
-  await writeGistFile({ gistId, gistToken, fileName: ENTRY_SCRIPT_RULES_FILE, content: content })
+  await getScriptStorage().writeFile(ENTRY_SCRIPT_RULES_FILE, content)
 }
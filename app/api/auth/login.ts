@@ -5,6 +5,7 @@ import { serialize } from 'cookie'
 import { verify2fa } from '@/services/2fa'
 import { AUTH_TOKEN_NAME } from '@/services/auth/constants'
 import { getSessionMaxAge } from '@/services/auth/sessionDuration'
+import { verifyUserPassword } from '@/services/auth/users'
 import { generateToken } from '@/utils/jwt'
 
 export async function login(username: string, password: string, token: string, rememberMe = false) {
@@ -16,11 +17,13 @@ export async function login(username: string, password: string, token: string, r
     throw new Error('Password is required')
   }
 
-  if (process.env.ACCESS_USERNAME !== username || process.env.ACCESS_PASSWORD !== password) {
+  // Bootstrap admin from ACCESS_USERNAME / ACCESS_PASSWORD, or a stored account
+  const user = await verifyUserPassword(username, password)
+  if (!user) {
     throw new Error('Invalid username or password')
   }
 
-  const secret = process.env.ACCESS_2FA_SECRET
+  const secret = user.totpSecret
   if (secret && !(token && (await verify2fa({ token, secret })))) {
     // eslint-disable-next-line no-console
     console.warn('Invalid 2FA token')
@@ -28,7 +31,7 @@ export async function login(username: string, password: string, token: string, r
   }
 
   const maxAge = getSessionMaxAge(rememberMe)
-  const authToken = await generateToken({ authenticated: true, sub: username }, { expiresIn: maxAge })
+  const authToken = await generateToken({ authenticated: true, sub: user.username }, { expiresIn: maxAge })
   const cookie = serialize(AUTH_TOKEN_NAME, authToken, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
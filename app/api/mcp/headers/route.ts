@@ -1,6 +1,6 @@
 import { api } from '@/initializer/controller'
 import { jsonSuccess, jsonUnauthorized } from '@/initializer/response'
-import { validateCookie } from '@/services/auth/access'
+import { getSessionUser } from '@/services/auth/access'
 import { getConfiguredMCPHeaders } from '@/services/auth/integrationAuth'
 
 interface MCPHeadersPayload {
@@ -9,15 +9,16 @@ interface MCPHeadersPayload {
 }
 
 /**
- * GET /api/mcp/headers - return MCP endpoint and auth headers for signed-in users.
+ * GET /api/mcp/headers - return MCP endpoint for signed-in users, and the full-access auth headers for admins.
  */
 export const GET = api(async (req) => {
-  if (!(await validateCookie())) {
+  const user = await getSessionUser()
+  if (!user) {
     return jsonUnauthorized()
   }
 
   return jsonSuccess({
     endpoint: `${req.nextUrl.origin}/api/mcp`,
-    headers: getConfiguredMCPHeaders(),
+    headers: user.role === 'admin' ? getConfiguredMCPHeaders() : {},
   } satisfies MCPHeadersPayload)
 })
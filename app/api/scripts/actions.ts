@@ -1,16 +1,65 @@
 'use server'
 
+import { updateRules } from '@/app/actions/tampermonkey'
+import {
+  API_KEY_USAGE_FILE,
+  API_KEYS_FILE,
+  ENTRY_SCRIPT_RULES_FILE,
+  isScriptAssetStorageFile,
+  isScriptRevisionStorageFile,
+  isScriptTestFilename,
+  RULE_SET_RELEASES_FILE,
+  SCRIPT_TELEMETRY_FILE,
+  USERS_FILE,
+} from '@/constants/file'
 import { withAuthAction } from '@/initializer/wrapper'
-import { fetchGist, getGistInfo } from '@/services/gist'
-import { listManagedScriptFiles, lockManagedScriptVersion, publishManagedScriptStable, saveManagedScriptFiles, unlockManagedScriptVersion } from '@/services/scripts/gistScripts'
+import { assertScriptScope } from '@/services/auth/integrationAuth'
+import { previewScriptCompile } from '@/services/runtime/compilePreview'
+import {
+  buildManagedScriptDependencyGraph,
+  listManagedScriptFiles,
+  lockManagedScriptVersion,
+  publishManagedScriptStable,
+  saveManagedScriptFiles,
+  unlockManagedScriptVersion,
+  validateManagedScriptSources,
+} from '@/services/scripts/gistScripts'
+import { getRuleSetReleaseStatus, publishRuleSet, rollbackRuleSet } from '@/services/scripts/ruleSetReleases'
+import { getManagedScriptRevision, listManagedScriptRevisions, restoreManagedScriptRevision } from '@/services/scripts/scriptRevisions'
+import { runScriptTests } from '@/services/scripts/scriptTests'
+import { applyScriptImport, previewScriptImport, type ScriptImportWrite } from '@/services/scripts/scriptTransfer'
+import { getScriptStorage } from '@/services/storage'
+import type { RuleConfig } from '@/services/tampermonkey/types'
+import { getScriptTelemetrySummary } from '@/services/telemetry'
 
+/**
+ * Storage files managed by the server (revisions, assets, rollouts, rule set releases, telemetry, API keys, users); hidden from and not writable by the editor.
+ */
+function isInternalStorageFile(filename: string): boolean {
+  return (
+    isScriptRevisionStorageFile(filename) ||
+    isScriptAssetStorageFile(filename) ||
+    filename === RULE_SET_RELEASES_FILE ||
+    filename === SCRIPT_TELEMETRY_FILE ||
+    filename === API_KEYS_FILE ||
+    filename === API_KEY_USAGE_FILE ||
+    filename === USERS_FILE
+  )
+}
+
+/**
+ * Read every editable Gist file (internal storage files excluded) for the editor.
+ */
 export const fetchFiles = withAuthAction(async () => {
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
+  assertScriptScope('scripts:read')
+  const snapshot = await getScriptStorage().fetchSnapshot()
 
   const files = Object.fromEntries(
     (function* () {
-      for (const [filename, { content, raw_url: rawUrl }] of Object.entries(gist.files)) {
+      for (const [filename, { content, rawUrl = '' }] of Object.entries(snapshot.files)) {
+        if (isInternalStorageFile(filename)) {
+          continue
+        }
         yield [filename, { content, rawUrl }]
       }
     })()
@@ -18,7 +67,7 @@ export const fetchFiles = withAuthAction(async () => {
 
   return {
     files,
-    updatedAt: new Date(gist.updated_at).getTime(),
+    updatedAt: new Date(snapshot.updatedAt).getTime(),
   }
 })
 
@@ -28,9 +77,68 @@ export const fetchFiles = withAuthAction(async () => {
  * @param options When `saveAsDebug` is true, managed scripts are marked alpha / no auto-upgrade
  */
 export const saveScriptFiles = withAuthAction(async (files: Array<{ file: string; content: string | null }>, options?: { saveAsDebug?: boolean; traceId?: string }) => {
+  for (const { file } of files) {
+    if (isInternalStorageFile(file)) {
+      throw new Error(`${file} is not editable`)
+    }
+    if (file === ENTRY_SCRIPT_RULES_FILE) {
+      assertScriptScope('rules:write')
+    } else {
+      assertScriptScope('scripts:write', file)
+    }
+  }
   await saveManagedScriptFiles(files, options?.saveAsDebug != null ? { saveAsDebug: options.saveAsDebug } : undefined)
 })
 
+/**
+ * Type-check unsaved editor buffers against the GM / GME typings and the stored scripts before publishing.
+ * @param files Script sources by filename
+ * @param options Optional TraceId for client correlation
+ * @returns Error diagnostics across all files (empty when every file is valid)
+ */
+export const validateScriptFiles = withAuthAction(async (files: Record<string, string>, options?: { traceId?: string }) => {
+  void options
+  assertScriptScope('scripts:read')
+  // Script tests are not userscripts (no header) and run in the test harness instead
+  const scripts = Object.fromEntries(Object.entries(files).filter(([file]) => !isScriptTestFilename(file)))
+  const results = await validateManagedScriptSources(scripts, { typeCheck: true })
+  return results.flatMap((result) => result.details.filter((detail) => detail.severity === 'error'))
+})
+
+/**
+ * Dry-run compile unsaved editor buffers into the runtime modules without writing to storage.
+ * @param files File writes (null content deletes)
+ * @param options `baseUrl` for module URLs in the manifest changes; `saveAsDebug` previews a debug save
+ * @returns Affected per-module payloads, manifest changes, collected grants / connects and diagnostics
+ */
+export const previewScriptFilesCompile = withAuthAction(
+  async (files: Array<{ file: string; content: string | null }>, options?: { baseUrl?: string; saveAsDebug?: boolean; traceId?: string }) => {
+    assertScriptScope('scripts:read')
+    return previewScriptCompile(files, { baseUrl: options?.baseUrl ?? '', saveAsDebug: options?.saveAsDebug })
+  }
+)
+
+/**
+ * Run script tests (`*.test.ts`) against their scripts in jsdom pages with recorded GM stubs.
+ * Tests execute script code on the server, so this needs `scripts:write`.
+ * @param options `files` limits the run (default: every test file); `sources` are unsaved editor buffers
+ * @returns One result per test file
+ */
+export const runScriptTestFiles = withAuthAction(async (options?: { files?: string[]; sources?: Record<string, string>; traceId?: string }) => {
+  assertScriptScope('scripts:write')
+  return runScriptTests({ files: options?.files, sources: options?.sources })
+})
+
+/**
+ * Script dependency graph for the editor, with the unsaved buffers applied.
+ * @param options `sources` maps unsaved filenames to content (null for deleted files)
+ * @returns Nodes with `@match` coverage, `@depends-on` / import edges, load order and issues
+ */
+export const getScriptDependencyGraph = withAuthAction(async (options?: { sources?: Record<string, string | null>; traceId?: string }) => {
+  assertScriptScope('scripts:read')
+  return buildManagedScriptDependencyGraph(options?.sources)
+})
+
 /**
  * Publish the active managed script to stable (releases snapshot + OTA policy).
  * @param filename Managed script filename
@@ -38,6 +146,7 @@ export const saveScriptFiles = withAuthAction(async (files: Array<{ file: string
  */
 export const publishScriptStable = withAuthAction(async (filename: string, options?: { traceId?: string }) => {
   void options
+  assertScriptScope('ota:publish', filename)
   return publishManagedScriptStable(filename)
 })
 
@@ -49,6 +158,7 @@ export const publishScriptStable = withAuthAction(async (filename: string, optio
  */
 export const lockScriptVersion = withAuthAction(async (filename: string, version?: string, options?: { traceId?: string }) => {
   void options
+  assertScriptScope('ota:publish', filename)
   return lockManagedScriptVersion(filename, version)
 })
 
@@ -59,14 +169,119 @@ export const lockScriptVersion = withAuthAction(async (filename: string, version
  */
 export const unlockScriptVersion = withAuthAction(async (filename: string, options?: { traceId?: string }) => {
   void options
+  assertScriptScope('ota:publish', filename)
   return unlockManagedScriptVersion(filename)
 })
 
+/**
+ * Release state of the URL rule set (stable release, releases, unpublished changes) for the rule panel.
+ */
+export const fetchRuleSetReleases = withAuthAction(async () => {
+  assertScriptScope('scripts:read')
+  return getRuleSetReleaseStatus()
+})
+
+/**
+ * Publish the saved URL rules as the next rule set release for stable clients.
+ * @param options Optional TraceId for client correlation
+ */
+export const publishRuleSetRelease = withAuthAction(async (options?: { traceId?: string }) => {
+  void options
+  assertScriptScope('rules:write')
+  assertScriptScope('ota:publish')
+  return publishRuleSet()
+})
+
+/**
+ * Serve an earlier rule set release to stable clients again.
+ * @param version Release to restore; defaults to the one before the current stable release
+ * @param options Optional TraceId for client correlation
+ */
+export const rollbackRuleSetRelease = withAuthAction(async (version?: number, options?: { traceId?: string }) => {
+  void options
+  assertScriptScope('rules:write')
+  assertScriptScope('ota:publish')
+  return rollbackRuleSet(version)
+})
+
 /**
  * Read managed script index metadata (including OTA policy) for the editor.
  * @param filename Managed script filename
  */
 export const fetchManagedScriptMeta = withAuthAction(async (filename: string) => {
+  assertScriptScope('scripts:read')
   const { files } = await listManagedScriptFiles()
   return files.find((file) => file.filename === filename) ?? null
 })
+
+/**
+ * List recorded revisions of a managed script (newest first) for the history panel.
+ * @param filename Managed script filename
+ */
+export const fetchScriptRevisions = withAuthAction(async (filename: string) => {
+  assertScriptScope('scripts:read')
+  return listManagedScriptRevisions(filename)
+})
+
+/**
+ * Read one revision's content (for the history diff view).
+ * @param filename Managed script filename
+ * @param id Revision id
+ */
+export const fetchScriptRevision = withAuthAction(async (filename: string, id: number) => {
+  assertScriptScope('scripts:read')
+  return getManagedScriptRevision(filename, id)
+})
+
+/**
+ * Roll a managed script back to a revision (recorded as a new `restore` revision).
+ * @param filename Managed script filename
+ * @param id Revision id
+ * @param options Optional TraceId for client correlation
+ */
+export const restoreScriptRevision = withAuthAction(async (filename: string, id: number, options?: { traceId?: string }) => {
+  void options
+  assertScriptScope('scripts:write', filename)
+  return restoreManagedScriptRevision(filename, id)
+})
+
+/**
+ * Per-script error rates and top failing URLs reported by opted-in clients (telemetry dashboard).
+ */
+export const fetchScriptTelemetrySummary = withAuthAction(async () => {
+  assertScriptScope('scripts:read')
+  return getScriptTelemetrySummary()
+})
+
+/**
+ * Read an import source (Tampermonkey / Violentmonkey zip, backup archive, `.user.js` upload or URL) for the import wizard.
+ * @param source Archive as base64, uploaded userscript, or URL
+ * @returns Scripts that would be written, backup rules, and skipped entries
+ */
+export const previewScriptImportSource = withAuthAction(
+  async (source: { kind: 'archive'; base64: string } | { kind: 'userscript'; name: string; content: string } | { kind: 'url'; url: string }) => {
+    assertScriptScope('scripts:write')
+    return previewScriptImport(source.kind === 'archive' ? { kind: 'archive', data: Buffer.from(source.base64, 'base64') } : source)
+  }
+)
+
+/**
+ * Write the scripts selected in the import wizard, and optionally replace the URL rules from a backup archive.
+ * @param scripts Scripts to write
+ * @param options `overwrite` replaces stored scripts with the same filename; `rules` replaces the URL rules
+ * @returns Written filenames
+ */
+export const importScripts = withAuthAction(async (scripts: ScriptImportWrite[], options?: { overwrite?: boolean; rules?: RuleConfig[] | null; traceId?: string }) => {
+  for (const { filename } of scripts) {
+    assertScriptScope('scripts:write', filename)
+  }
+  if (options?.rules) {
+    assertScriptScope('rules:write')
+  }
+
+  const imported = await applyScriptImport(scripts, { overwrite: options?.overwrite })
+  if (options?.rules) {
+    await updateRules(options.rules)
+  }
+  return imported
+})
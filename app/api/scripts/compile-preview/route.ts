@@ -0,0 +1,38 @@
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonInvalidParameters, jsonSuccess, jsonUnauthorized } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { previewScriptCompile } from '@/services/runtime/compilePreview'
+
+/**
+ * POST /api/scripts/compile-preview — dry-run compile of unsaved buffers; nothing is written to storage.
+ * Body: `{ files: { [filename]: content | null }, saveAsDebug?: boolean }` (null deletes the file).
+ * Returns the affected per-module payloads, the `module-manifest.json` changes, collected `@grant` / `@connect`
+ * values and diagnostics. Accepts the session cookie or an API key with `scripts:read`.
+ */
+export const POST = api(async (req) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const body = (await req.json().catch(() => null)) as { files?: unknown; saveAsDebug?: unknown } | null
+  const files = body?.files
+  if (!files || typeof files !== 'object' || Array.isArray(files)) {
+    return jsonInvalidParameters('body.files must map filenames to content')
+  }
+
+  const writes = Object.entries(files as Record<string, unknown>)
+    .filter((entry): entry is [string, string | null] => typeof entry[1] === 'string' || entry[1] === null)
+    .map(([file, content]) => ({ file, content }))
+  if (writes.length === 0) {
+    return jsonInvalidParameters('body.files must not be empty')
+  }
+
+  const url = new URL(req.url)
+  const preview = await previewScriptCompile(writes, { baseUrl: `${url.protocol}//${url.host}`, saveAsDebug: body?.saveAsDebug === true })
+  return jsonSuccess(preview)
+})
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonInvalidParameters, jsonUnauthorized } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { buildScriptBackupArchive, exportStandaloneUserscripts } from '@/services/scripts/scriptTransfer'
+
+/**
+ * GET /api/scripts/export?files=a.ts&files=b.ts&format=userscript|backup — download managed scripts.
+ * `userscript` (default) returns one installable `.user.js` (a zip of them for several files); `backup`
+ * returns a zip with the raw sources, their script index entries, the URL rules and the `.user.js` files.
+ * Accepts the session cookie or an API key with `scripts:read`.
+ */
+export const GET = api(async (req, context) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const files = context.searchParams
+    .getAll('files')
+    .flatMap((value) => value.split(','))
+    .map((file) => file.trim())
+    .filter(Boolean)
+  const format = context.searchParams.get('format') ?? 'userscript'
+  if (format !== 'userscript' && format !== 'backup') {
+    return jsonInvalidParameters('format must be userscript or backup')
+  }
+
+  const { name, contentType, data } =
+    format === 'backup'
+      ? { name: `magickmonkey-backup-${new Date().toISOString().slice(0, 10)}.zip`, contentType: 'application/zip', data: await buildScriptBackupArchive(files) }
+      : await exportStandaloneUserscripts(files)
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${name}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+})
@@ -1,9 +1,22 @@
 import { api } from '@/initializer/controller'
-import { jsonSuccess } from '@/initializer/response'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
 
 import { fetchFiles } from './actions'
 
-export const GET = api(async () => {
-  const files = await fetchFiles()
+/**
+ * GET /api/scripts — every editable Gist file. Accepts the session cookie or an API key with `scripts:read`.
+ */
+export const GET = api(async (req) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const files = await fetchFiles.$$()
   return jsonSuccess({ files })
 })
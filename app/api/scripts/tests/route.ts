@@ -0,0 +1,34 @@
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonInvalidParameters, jsonSuccess, jsonUnauthorized } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { runScriptTests } from '@/services/scripts/scriptTests'
+
+/**
+ * POST /api/scripts/tests — run script tests (`*.test.ts`) against their scripts in jsdom pages with recorded GM stubs.
+ * Body: `{ files?: string[], sources?: { [filename]: content } }`; `sources` are unsaved contents taking precedence
+ * over stored files. Tests run script code on the server, so this needs the session cookie or an API key with `scripts:write`.
+ */
+export const POST = api(async (req) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('scripts:write')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const body = (await req.json().catch(() => ({}))) as { files?: unknown; sources?: unknown } | null
+  const files = body?.files
+  if (files !== undefined && (!Array.isArray(files) || !files.every((file) => typeof file === 'string'))) {
+    return jsonInvalidParameters('body.files must be an array of filenames')
+  }
+
+  const sources = body?.sources
+  if (sources !== undefined && (!sources || typeof sources !== 'object' || Array.isArray(sources) || !Object.values(sources).every((content) => typeof content === 'string'))) {
+    return jsonInvalidParameters('body.sources must map filenames to content')
+  }
+
+  const results = await runScriptTests({ files: files as string[] | undefined, sources: sources as Record<string, string> | undefined })
+  return jsonSuccess(results)
+})
@@ -1,19 +1,39 @@
-import { getRules } from '@/app/actions/tampermonkey'
+import type { NextRequest } from 'next/server'
+
 import { api } from '@/initializer/controller'
 import { josnNotFound, jsonSuccess } from '@/initializer/response'
+import { readRuleSetReleaseContent, resolveServedRuleSet } from '@/services/scripts/ruleSetReleases'
+import { getScriptStorage } from '@/services/storage'
 import { getTampermonkeyScriptKey } from '@/services/tampermonkey/createBanner'
+import { isRuleConfig } from '@/services/tampermonkey/types'
 
 export interface Params {
   key: string
 }
 
-export const GET = api<Params>(async (_, context) => {
+/**
+ * GET /api/tampermonkey/:key/rule — rules for clients: the stable release by default, the working rules with
+ * `?track=alpha`, or one release with `?version=N` (URLs listed in the manifest `ruleSet`).
+ */
+export const GET = api<Params>(async (req: NextRequest, context) => {
   const params = await context.params
   const key = getTampermonkeyScriptKey()
   if (params.key !== key) {
     return josnNotFound()
   }
 
-  const rules = await getRules()
-  return jsonSuccess(rules)
+  const { searchParams } = req.nextUrl
+  const { files } = await getScriptStorage().fetchSnapshot()
+  const version = Number(searchParams.get('version'))
+  const content = searchParams.has('version')
+    ? Number.isInteger(version) && version > 0
+      ? readRuleSetReleaseContent(files, version)
+      : null
+    : (resolveServedRuleSet(files, searchParams.get('track') === 'alpha' ? 'alpha' : 'stable')?.content ?? '[]')
+  if (content === null) {
+    return josnNotFound()
+  }
+
+  const rules = JSON.parse(content) as unknown
+  return jsonSuccess(Array.isArray(rules) ? rules.filter(isRuleConfig) : [])
 })
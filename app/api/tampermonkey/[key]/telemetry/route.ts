@@ -0,0 +1,37 @@
+import { api } from '@/initializer/controller'
+import { josnNotFound, jsonInvalidParameters, jsonSuccess } from '@/initializer/response'
+import { evaluateScriptRolloutsFromTelemetry } from '@/services/scripts/scriptRollouts'
+import { getTampermonkeyScriptKey } from '@/services/tampermonkey/createBanner'
+import { getTelemetrySinkKind, recordScriptTelemetry } from '@/services/telemetry'
+import { MAX_TELEMETRY_BATCH, normalizeScriptTelemetryEvent, type ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+export interface Params {
+  key: string
+}
+
+/**
+ * POST /api/tampermonkey/:key/telemetry — body `{ "events": [{ kind, file, traceId, url, at, message?, stack?, version?, clientId? }] }`
+ * from clients that opted in. Not found unless `SCRIPTS_TELEMETRY_SINK` selects a sink. Events from rollout cohorts
+ * (`version` + `clientId`) also drive automatic promotion and rollback of staged rollouts.
+ */
+export const POST = api<Params>(async (request, context) => {
+  const params = await context.params
+  if (params.key !== getTampermonkeyScriptKey() || getTelemetrySinkKind() === 'none') {
+    return josnNotFound()
+  }
+
+  const body = (await request.json().catch(() => null)) as { events?: unknown } | null
+  const raw = Array.isArray(body?.events) ? body.events : null
+  if (!raw || raw.length === 0 || raw.length > MAX_TELEMETRY_BATCH) {
+    return jsonInvalidParameters(`body.events must be 1-${MAX_TELEMETRY_BATCH} { kind, file, traceId, url, at } events`)
+  }
+
+  // Drop malformed events instead of failing the batch; clients do not retry
+  const events = raw.map(normalizeScriptTelemetryEvent).filter((event): event is ScriptTelemetryEvent => event !== null)
+  const accepted = await recordScriptTelemetry(events)
+  await evaluateScriptRolloutsFromTelemetry(events).catch((error) => {
+    // eslint-disable-next-line no-console
+    console.error('[telemetry] rollout evaluation failed:', error)
+  })
+  return jsonSuccess({ accepted, rejected: raw.length - events.length })
+})
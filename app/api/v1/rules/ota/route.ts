@@ -0,0 +1,61 @@
+import type { NextRequest } from 'next/server'
+
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { getRuleSetReleaseStatus, publishRuleSet, rollbackRuleSet } from '@/services/scripts/ruleSetReleases'
+
+type RuleSetOtaActionBody = {
+  action?: unknown
+  version?: unknown
+}
+
+/**
+ * GET /api/v1/rules/ota — rule set releases, the stable release and whether the working rules are unpublished.
+ */
+export const GET = api(async (req: NextRequest) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  return jsonSuccess(await getRuleSetReleaseStatus())
+})
+
+/**
+ * POST /api/v1/rules/ota — publish the working rules as a release, or roll stable clients back to an earlier one.
+ */
+export const POST = api(async (req: NextRequest) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('rules:write') ?? checkScriptScope('ota:publish')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const body = (await req.json().catch(() => null)) as RuleSetOtaActionBody | null
+  const action = typeof body?.action === 'string' ? body.action.trim() : ''
+  if (!action) {
+    return standardResponseError('body.action is required (publish | rollback)', { code: 400 }).toJsonResponse(400)
+  }
+
+  try {
+    if (action === 'publish') {
+      return jsonSuccess({ action, ...(await publishRuleSet()) })
+    }
+    if (action === 'rollback') {
+      const version = typeof body?.version === 'number' ? body.version : undefined
+      return jsonSuccess({ action, ...(await rollbackRuleSet(version)) })
+    }
+    return standardResponseError('unknown action', { code: 400 }).toJsonResponse(400)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return standardResponseError(message, { code: 400 }).toJsonResponse(400)
+  }
+})
@@ -0,0 +1,51 @@
+import type { NextRequest } from 'next/server'
+
+import { getRules, updateRules } from '@/app/actions/tampermonkey'
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { isRuleConfig } from '@/services/tampermonkey/types'
+import { validateRuleConditions } from '@/shared/rule-engine'
+
+/**
+ * GET /api/v1/rules — URL rules (wildcard → script, with optional mode, priority, enabled flag and conditions).
+ */
+export const GET = api(async (req: NextRequest) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const rules = await getRules()
+  return jsonSuccess({ rules })
+})
+
+/**
+ * PUT /api/v1/rules — replace all URL rules. Body: `{ rules: RuleConfig[] }`.
+ */
+export const PUT = api(async (req: NextRequest) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const denied = checkScriptScope('rules:write')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const body = (await req.json().catch(() => null)) as { rules?: unknown } | null
+  if (!body || !Array.isArray(body.rules) || !body.rules.every(isRuleConfig)) {
+    return standardResponseError('body must be JSON with "rules": { id, wildcard, script, mode?, enabled?, priority?, conditions? }[]', { code: 400 }).toJsonResponse(400)
+  }
+  const conditionErrors = body.rules.flatMap((rule) => validateRuleConditions(rule.conditions).map((message) => `rule ${rule.id}: ${message}`))
+  if (conditionErrors.length > 0) {
+    return standardResponseError(conditionErrors.join('; '), { code: 400 }).toJsonResponse(400)
+  }
+
+  await updateRules(body.rules)
+  return jsonSuccess({ rules: body.rules })
+})
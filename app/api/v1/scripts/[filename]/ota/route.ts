@@ -1,9 +1,19 @@
 import type { NextRequest } from 'next/server'
 
 import { api } from '@/initializer/controller'
-import { jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
-import { authorizeScriptIntegration } from '@/services/auth/integrationAuth'
-import { isManagedScriptFilename, lockManagedScriptVersion, publishManagedScriptStable, unlockManagedScriptVersion } from '@/services/scripts/gistScripts'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import {
+  isManagedScriptFilename,
+  lockManagedScriptVersion,
+  promoteManagedScriptRollout,
+  publishManagedScriptStable,
+  rollbackManagedScriptRollout,
+  type ScriptRolloutOptions,
+  setManagedScriptRolloutPercent,
+  unlockManagedScriptVersion,
+} from '@/services/scripts/gistScripts'
+import { getManagedScriptRolloutStatus } from '@/services/scripts/scriptRollouts'
 
 export interface FilenameParams {
   filename: string
@@ -12,10 +22,52 @@ export interface FilenameParams {
 type OtaActionBody = {
   action?: unknown
   version?: unknown
+  rollout?: unknown
+  percent?: unknown
 }
 
+function parseRolloutOptions(raw: unknown): ScriptRolloutOptions | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined
+  }
+  const { percent, failureThreshold, minSamples, autoPromote } = raw as Record<string, unknown>
+  return {
+    percent: typeof percent === 'number' ? percent : NaN,
+    ...(typeof failureThreshold === 'number' ? { failureThreshold } : {}),
+    ...(typeof minSamples === 'number' ? { minSamples } : {}),
+    ...(typeof autoPromote === 'boolean' ? { autoPromote } : {}),
+  }
+}
+
+/**
+ * GET /api/v1/scripts/:filename/ota — staged rollout state and its health in script telemetry.
+ */
+export const GET = api<FilenameParams>(async (req: NextRequest, context) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const { filename: raw } = await context.params
+  const filename = decodeURIComponent(raw)
+  if (!isManagedScriptFilename(filename)) {
+    return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  try {
+    const data = await getManagedScriptRolloutStatus(filename)
+    return jsonSuccess(data)
+  } catch {
+    return standardResponseError('not found', { code: 404 }).toJsonResponse(404)
+  }
+})
+
 /**
- * POST /api/v1/scripts/:filename/ota — publish-stable, lock, or unlock fleet OTA policy.
+ * POST /api/v1/scripts/:filename/ota — publish-stable (optionally staged), lock, unlock, or steer a rollout.
  */
 export const POST = api<FilenameParams>(async (req: NextRequest, context) => {
   if (!(await authorizeScriptIntegration(req))) {
@@ -28,15 +80,20 @@ export const POST = api<FilenameParams>(async (req: NextRequest, context) => {
     return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
   }
 
+  const denied = checkScriptScope('ota:publish', filename)
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
   const body = (await req.json().catch(() => null)) as OtaActionBody | null
   const action = typeof body?.action === 'string' ? body.action.trim() : ''
   if (!action) {
-    return standardResponseError('body.action is required (publish-stable | lock | unlock)', { code: 400 }).toJsonResponse(400)
+    return standardResponseError('body.action is required (publish-stable | lock | unlock | rollout-percent | promote | rollback)', { code: 400 }).toJsonResponse(400)
   }
 
   try {
     if (action === 'publish-stable') {
-      const script = await publishManagedScriptStable(filename)
+      const script = await publishManagedScriptStable(filename, { rollout: parseRolloutOptions(body?.rollout) })
       return jsonSuccess({ filename, action, script })
     }
     if (action === 'lock') {
@@ -48,6 +105,18 @@ export const POST = api<FilenameParams>(async (req: NextRequest, context) => {
       const script = await unlockManagedScriptVersion(filename)
       return jsonSuccess({ filename, action, script })
     }
+    if (action === 'rollout-percent') {
+      const script = await setManagedScriptRolloutPercent(filename, typeof body?.percent === 'number' ? body.percent : NaN)
+      return jsonSuccess({ filename, action, script })
+    }
+    if (action === 'promote') {
+      const script = await promoteManagedScriptRollout(filename)
+      return jsonSuccess({ filename, action, script })
+    }
+    if (action === 'rollback') {
+      const script = await rollbackManagedScriptRollout(filename)
+      return jsonSuccess({ filename, action, script })
+    }
     return standardResponseError('unknown action', { code: 400 }).toJsonResponse(400)
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
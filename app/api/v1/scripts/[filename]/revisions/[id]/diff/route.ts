@@ -0,0 +1,50 @@
+import type { NextRequest } from 'next/server'
+
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { isManagedScriptFilename } from '@/services/scripts/gistScripts'
+import { diffManagedScriptRevision } from '@/services/scripts/scriptRevisions'
+
+export interface RevisionParams {
+  filename: string
+  id: string
+}
+
+/**
+ * GET /api/v1/scripts/:filename/revisions/:id/diff?against=current|<id> — unified diff (defaults to current content).
+ */
+export const GET = api<RevisionParams>(async (req: NextRequest, context) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const { filename: raw, id: rawId } = await context.params
+  const filename = decodeURIComponent(raw)
+  const id = Number(rawId)
+  if (!isManagedScriptFilename(filename)) {
+    return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+  if (!Number.isInteger(id) || id < 1) {
+    return standardResponseError('invalid revision id', { code: 400 }).toJsonResponse(400)
+  }
+
+  const rawAgainst = context.searchParams.get('against')?.trim() || 'current'
+  const against = rawAgainst === 'current' ? 'current' : Number(rawAgainst)
+  if (against !== 'current' && (!Number.isInteger(against) || against < 1)) {
+    return standardResponseError('against must be "current" or a revision id', { code: 400 }).toJsonResponse(400)
+  }
+
+  try {
+    const data = await diffManagedScriptRevision(filename, id, against)
+    return jsonSuccess(data)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return standardResponseError(message, { code: 404 }).toJsonResponse(404)
+  }
+})
@@ -0,0 +1,44 @@
+import type { NextRequest } from 'next/server'
+
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { isManagedScriptFilename } from '@/services/scripts/gistScripts'
+import { restoreManagedScriptRevision } from '@/services/scripts/scriptRevisions'
+
+export interface RevisionParams {
+  filename: string
+  id: string
+}
+
+/**
+ * POST /api/v1/scripts/:filename/revisions/:id/restore — roll back to a revision (recorded as a new `restore` revision).
+ */
+export const POST = api<RevisionParams>(async (req: NextRequest, context) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const { filename: raw, id: rawId } = await context.params
+  const filename = decodeURIComponent(raw)
+  const id = Number(rawId)
+  if (!isManagedScriptFilename(filename)) {
+    return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
+  }
+
+  const denied = checkScriptScope('scripts:write', filename)
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+  if (!Number.isInteger(id) || id < 1) {
+    return standardResponseError('invalid revision id', { code: 400 }).toJsonResponse(400)
+  }
+
+  try {
+    const data = await restoreManagedScriptRevision(filename, id)
+    return jsonSuccess(data)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return standardResponseError(message, { code: 400 }).toJsonResponse(400)
+  }
+})
@@ -0,0 +1,44 @@
+import type { NextRequest } from 'next/server'
+
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { isManagedScriptFilename } from '@/services/scripts/gistScripts'
+import { getManagedScriptRevision } from '@/services/scripts/scriptRevisions'
+
+export interface RevisionParams {
+  filename: string
+  id: string
+}
+
+/**
+ * GET /api/v1/scripts/:filename/revisions/:id — one revision with its content (`null` for deletes).
+ */
+export const GET = api<RevisionParams>(async (req: NextRequest, context) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const { filename: raw, id: rawId } = await context.params
+  const filename = decodeURIComponent(raw)
+  const id = Number(rawId)
+  if (!isManagedScriptFilename(filename)) {
+    return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+  if (!Number.isInteger(id) || id < 1) {
+    return standardResponseError('invalid revision id', { code: 400 }).toJsonResponse(400)
+  }
+
+  try {
+    const data = await getManagedScriptRevision(filename, id)
+    return jsonSuccess(data)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return standardResponseError(message, { code: 404 }).toJsonResponse(404)
+  }
+})
@@ -0,0 +1,34 @@
+import type { NextRequest } from 'next/server'
+
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { isManagedScriptFilename } from '@/services/scripts/gistScripts'
+import { listManagedScriptRevisions } from '@/services/scripts/scriptRevisions'
+
+export interface FilenameParams {
+  filename: string
+}
+
+/**
+ * GET /api/v1/scripts/:filename/revisions — recorded revisions, newest first (no content).
+ */
+export const GET = api<FilenameParams>(async (req: NextRequest, context) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const { filename: raw } = await context.params
+  const filename = decodeURIComponent(raw)
+  if (!isManagedScriptFilename(filename)) {
+    return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const data = await listManagedScriptRevisions(filename)
+  return jsonSuccess(data)
+})
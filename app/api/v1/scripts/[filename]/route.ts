@@ -1,8 +1,8 @@
 import type { NextRequest } from 'next/server'
 
 import { api } from '@/initializer/controller'
-import { jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
-import { authorizeScriptIntegration } from '@/services/auth/integrationAuth'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
 import { deleteManagedScriptFile, getManagedScriptFile, isManagedScriptFilename, upsertManagedScriptFile } from '@/services/scripts/gistScripts'
 
 export interface FilenameParams {
@@ -23,6 +23,11 @@ export const GET = api<FilenameParams>(async (req: NextRequest, context) => {
     return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
   }
 
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
   try {
     const data = await getManagedScriptFile(filename)
     return jsonSuccess(data)
@@ -45,6 +50,11 @@ export const PUT = api<FilenameParams>(async (req: NextRequest, context) => {
     return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
   }
 
+  const denied = checkScriptScope('scripts:write', filename)
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
   const body = (await req.json().catch(() => null)) as { content?: unknown } | null
   if (!body || typeof body.content !== 'string') {
     return standardResponseError('body must be JSON with string "content"', { code: 400 }).toJsonResponse(400)
@@ -68,6 +78,11 @@ export const DELETE = api<FilenameParams>(async (req: NextRequest, context) => {
     return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
   }
 
+  const denied = checkScriptScope('scripts:write', filename)
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
   try {
     await deleteManagedScriptFile(filename)
   } catch {
@@ -0,0 +1,38 @@
+import type { NextRequest } from 'next/server'
+
+import { api } from '@/initializer/controller'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized, standardResponseError } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
+import { isManagedScriptFilename, validateManagedScriptFile } from '@/services/scripts/gistScripts'
+
+export interface FilenameParams {
+  filename: string
+}
+
+/**
+ * GET /api/v1/scripts/:filename/validate?typeCheck=true — header, syntax and import diagnostics (plus types when requested).
+ */
+export const GET = api<FilenameParams>(async (req: NextRequest, context) => {
+  if (!(await authorizeScriptIntegration(req))) {
+    return jsonUnauthorized()
+  }
+
+  const { filename: raw } = await context.params
+  const filename = decodeURIComponent(raw)
+  if (!isManagedScriptFilename(filename)) {
+    return standardResponseError('invalid script filename', { code: 400 }).toJsonResponse(400)
+  }
+
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
+  const typeCheck = context.searchParams.get('typeCheck') === 'true'
+  try {
+    const data = await validateManagedScriptFile(filename, { typeCheck })
+    return jsonSuccess(data)
+  } catch {
+    return standardResponseError('not found', { code: 404 }).toJsonResponse(404)
+  }
+})
@@ -1,6 +1,6 @@
 import { api } from '@/initializer/controller'
-import { jsonSuccess, jsonUnauthorized } from '@/initializer/response'
-import { authorizeScriptIntegration } from '@/services/auth/integrationAuth'
+import { jsonForbidden, jsonSuccess, jsonUnauthorized } from '@/initializer/response'
+import { authorizeScriptIntegration, checkScriptScope } from '@/services/auth/integrationAuth'
 import { listManagedScriptFiles } from '@/services/scripts/gistScripts'
 
 /**
@@ -11,6 +11,11 @@ export const GET = api(async (req) => {
     return jsonUnauthorized()
   }
 
+  const denied = checkScriptScope('scripts:read')
+  if (denied) {
+    return jsonForbidden(denied)
+  }
+
   const { files, gistUpdatedAt } = await listManagedScriptFiles()
   return jsonSuccess({ files, gistUpdatedAt })
 })
@@ -6,6 +6,7 @@ import { loadSignetSdk } from '@/lib/load-signet-sdk'
 import { getSignetAuthCenterOrigin, getSignetSdkModuleUrl } from '@/lib/signet-sdk-url'
 import { AUTH_TOKEN_NAME, VF2FA_NEXT_COOKIE, VF2FA_OAUTH_STATE_COOKIE, VF2FA_REMEMBER_ME_COOKIE } from '@/services/auth/constants'
 import { getSessionMaxAge } from '@/services/auth/sessionDuration'
+import { findUserByIdentity } from '@/services/auth/users'
 import { generateToken } from '@/utils/jwt'
 
 /**
@@ -35,7 +36,8 @@ function safeRelativePath(raw: string | undefined, fallback: string): string {
  * Register this URL in the auth center `ALLOWED_REDIRECT_URLS`, e.g.
  * `http://localhost:3001/auth/vercel-2fa/callback`.
  *
- * Flow: validates `state` cookie, validates the short-lived login JWT via `POST /api/auth/verify`, then mints a local session JWT.
+ * Flow: validates `state` cookie, validates the short-lived login JWT via `POST /api/auth/verify`, maps the Signet subject to a
+ * user linked to `signet:<sub>`, then mints a local session JWT.
  */
 export async function GET(request: Request) {
   const authCenterOrigin = getSignetAuthCenterOrigin()
@@ -100,9 +102,19 @@ export async function GET(request: Request) {
     undefined
   const displayEmail = (typeof user?.email === 'string' && user.email.trim()) || (typeof claimsFromApi?.email === 'string' && claimsFromApi.email.trim()) || undefined
 
+  // Only linked accounts: a Signet subject is linked under Settings -> Users by the bootstrap admin (ACCESS_USERNAME).
+  const account = await findUserByIdentity(`signet:${sub}`)
+  if (!account) {
+    const target = new URL('/', url.origin)
+    target.searchParams.set('vf2fa_error', 'not_linked')
+    const headers = new Headers()
+    appendClearVF2FACookies(headers)
+    return NextResponse.redirect(target, { headers })
+  }
+
   const sessionPayload: Record<string, unknown> = {
     authenticated: true,
-    sub,
+    sub: account.username,
   }
   if (displayUsername) {
     sessionPayload.username = displayUsername
@@ -8,6 +8,7 @@ import { FileStateProvider } from '@/components/ScriptEditor/context/FileStateCo
 import { LayoutProvider } from '@/components/ScriptEditor/context/LayoutContext'
 import { TabBarProvider } from '@/components/ScriptEditor/context/TabBarContext'
 import { ENTRY_SCRIPT_RULES_FILE } from '@/constants/file'
+import type { UserRole } from '@/services/auth/userRoles'
 import type { RuleConfig } from '@/services/tampermonkey/types'
 
 import { EditorContent } from './components/EditorContent'
@@ -18,6 +19,8 @@ const EDITOR_POST_MESSAGE_TYPE = 'web-script-editor-message'
 
 export interface EditorProps {
   displayUsername: string
+  /** Role of the signed-in user; hides actions the server would reject */
+  role: UserRole
   files: Record<
     string,
     {
@@ -32,7 +35,7 @@ export interface EditorProps {
 }
 
 export default function Editor(props: EditorProps) {
-  const { files: inFiles, scriptKey, displayUsername, rules: initialRules } = props
+  const { files: inFiles, scriptKey, displayUsername, role, rules: initialRules } = props
 
   // Rules state
   const [rules, setRules] = useState<RuleConfig[]>(initialRules)
@@ -95,6 +98,7 @@ export default function Editor(props: EditorProps) {
               <EditorContent
                 scriptKey={scriptKey}
                 displayUsername={displayUsername}
+                role={role}
                 initialFiles={initialFiles}
                 tampermonkeyTypings={props.tampermonkeyTypings}
                 rules={rules}
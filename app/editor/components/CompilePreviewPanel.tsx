@@ -0,0 +1,261 @@
+'use client'
+
+import Editor from '@monaco-editor/react'
+import { type ReactNode, useState } from 'react'
+import { FiCpu, FiPlay } from 'react-icons/fi'
+
+import { previewScriptFilesCompile } from '@/app/api/scripts/actions'
+import { useNotification } from '@/components/Notification'
+import { useFileState } from '@/components/ScriptEditor/context/FileStateContext'
+import { FileStatus } from '@/components/ScriptEditor/types'
+import { Spinner } from '@/components/Spinner'
+import { EXCLUDED_FILES, SCRIPTS_FILE_EXTENSION } from '@/constants/file'
+import type { CollectedHeaderValues, RuntimeScriptModuleChange, ScriptCompilePreview } from '@/services/runtime/compilePreview'
+import { createTraceId } from '@/shared/trace-id'
+
+const CHANGE_COLORS: Record<RuntimeScriptModuleChange['type'], string> = {
+  added: 'text-[#86efac]',
+  removed: 'text-[#f87171]',
+  changed: 'text-[#93c5fd]',
+}
+
+function shortHash(hash: string | null | undefined): string {
+  return hash ? hash.slice(0, 8) : '—'
+}
+
+function Section({ title, count, children }: { title: string; count?: number; children: ReactNode }) {
+  return (
+    <section className="border-b border-[#2a303a]">
+      <h3 className="px-3 py-1.5 text-[10px] font-semibold uppercase text-[#9aa4b2] bg-[#171a21]">
+        {title}
+        {count !== undefined && <span className="ml-1.5 text-[#6f7a8a]">{count}</span>}
+      </h3>
+      {children}
+    </section>
+  )
+}
+
+function HeaderValues({ values }: { values: CollectedHeaderValues }) {
+  if (values.values.length === 0 && values.removed.length === 0) {
+    return <p className="px-3 py-1.5 text-xs text-[#6f7a8a]">None</p>
+  }
+  return (
+    <div className="px-3 py-1.5 flex flex-wrap gap-1 text-xs font-mono">
+      {values.values.map((value) => (
+        <span key={value} className={`px-1.5 rounded bg-[#1b1f27] ${values.added.includes(value) ? 'text-[#86efac]' : 'text-[#cbd5e1]'}`}>
+          {values.added.includes(value) ? '+ ' : ''}
+          {value}
+        </span>
+      ))}
+      {values.removed.map((value) => (
+        <span key={value} className="px-1.5 rounded bg-[#1b1f27] text-[#f87171] line-through">
+          {value}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Compile preview panel: dry-runs the unsaved script buffers through the server compile (as a debug save would),
+ * showing the resulting per-module payloads, `module-manifest.json` changes, collected grants / connects and
+ * diagnostics without writing anything.
+ */
+export function CompilePreviewPanel() {
+  const fileState = useFileState()
+  const notification = useNotification()
+
+  const [preview, setPreview] = useState<ScriptCompilePreview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedModule, setSelectedModule] = useState<string | null>(null)
+  const [expandedChange, setExpandedChange] = useState<string | null>(null)
+
+  const writes = Object.values(fileState.files)
+    .filter((file) => !EXCLUDED_FILES.includes(file.path) && SCRIPTS_FILE_EXTENSION.some((ext) => file.path.endsWith(ext)))
+    .filter((file) => file.status === FileStatus.Deleted || fileState.hasUnsavedChanges(file.path))
+    .map((file) => ({ file: file.path, content: file.status === FileStatus.Deleted ? null : file.content.modifiedContent }))
+
+  async function handleRun() {
+    if (isLoading || writes.length === 0) return
+
+    setIsLoading(true)
+    try {
+      const result = await previewScriptFilesCompile(writes, { baseUrl: window.location.origin, saveAsDebug: true, traceId: createTraceId() })
+      setPreview(result)
+      setSelectedModule((current) => (current && result.modules.some((module) => module.file === current) ? current : (result.modules[0]?.file ?? null)))
+      setExpandedChange(null)
+    } catch (error) {
+      notification.error(`Compile preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selected = preview?.modules.find((module) => module.file === selectedModule) ?? null
+
+  return (
+    <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+      <div className="h-[33px] px-3 text-xs font-semibold text-[#cbd5e1] uppercase border-b border-[#2a303a] bg-[#111318] sticky top-0 z-10 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FiCpu className="w-3.5 h-3.5 text-[#3b82f6]" />
+          <span>Compile preview</span>
+        </div>
+        <button
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-[#1f3b63] text-[#e6eaf0] normal-case font-normal hover:bg-[#2563eb] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          onClick={() => void handleRun()}
+          disabled={isLoading || writes.length === 0}
+          title={writes.length === 0 ? 'No unsaved script changes' : 'Compile unsaved changes without saving'}
+          type="button"
+        >
+          {isLoading ? (
+            <span className="w-3 h-3 flex items-center justify-center scale-[0.6]">
+              <Spinner />
+            </span>
+          ) : (
+            <FiPlay className="w-3 h-3" />
+          )}
+          <span>Run</span>
+        </button>
+      </div>
+
+      <div className="px-3 py-2 border-b border-[#2a303a] bg-[#171a21]">
+        <p className="text-xs text-[#6f7a8a]">
+          {writes.length === 0 ? 'No unsaved script changes' : `${writes.length} unsaved file(s) compiled as a debug save; nothing is written`}
+        </p>
+      </div>
+
+      {!preview ? (
+        <div className="flex-1 flex items-center justify-center text-[#6f7a8a] px-4">
+          <div className="text-center">
+            <p className="text-sm mb-1">No preview yet</p>
+            <p className="text-xs">Run to see the compiled modules and manifest changes</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className={`${selected ? 'max-h-[55%]' : 'flex-1'} overflow-auto`}>
+            <Section title="Diagnostics" count={preview.diagnostics.length}>
+              {preview.diagnostics.length === 0 ? (
+                <p className="px-3 py-1.5 text-xs text-[#86efac]">No problems</p>
+              ) : (
+                <ul>
+                  {preview.diagnostics.map((diagnostic, index) => (
+                    <li key={index} className="px-3 py-1 text-xs border-b border-[#1b1f27]">
+                      <span className={diagnostic.severity === 'error' ? 'text-[#f87171]' : 'text-[#fbbf24]'}>{diagnostic.severity}</span>
+                      <span className="ml-2 text-[#cbd5e1] font-mono">
+                        {diagnostic.file}:{diagnostic.line}:{diagnostic.column}
+                      </span>
+                      <p className="text-[#9aa4b2] whitespace-pre-wrap break-words">{diagnostic.message}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="Modules" count={preview.modules.length}>
+              {preview.modules.length === 0 ? (
+                <p className="px-3 py-1.5 text-xs text-[#6f7a8a]">No module payload changes</p>
+              ) : (
+                <ul>
+                  {preview.modules.map((module) => (
+                    <li key={module.file}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedModule(module.file === selectedModule ? null : module.file)}
+                        className={`w-full text-left px-3 py-1.5 text-xs border-b border-[#1b1f27] flex items-center justify-between gap-2 transition-colors ${
+                          module.file === selectedModule ? 'bg-[#1f3b63]' : 'hover:bg-[#171a21]'
+                        }`}
+                      >
+                        <span className="truncate text-[#cbd5e1]">{module.file}</span>
+                        <span className="shrink-0 font-mono text-[#6f7a8a]">
+                          <span className={module.track === 'alpha' ? 'text-[#fbbf24]' : 'text-[#86efac]'}>{module.track}</span> {shortHash(module.previousHash)} →{' '}
+                          {shortHash(module.hash)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="module-manifest.json" count={preview.manifest.scriptModules.length + preview.manifest.scriptPolicies.length}>
+              {preview.manifest.scriptModules.length === 0 && preview.manifest.scriptPolicies.length === 0 ? (
+                <p className="px-3 py-1.5 text-xs text-[#6f7a8a]">Unchanged</p>
+              ) : (
+                <ul>
+                  {preview.manifest.scriptModules.map((change) => (
+                    <li key={`module:${change.file}`} className="border-b border-[#1b1f27]">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedChange(expandedChange === `module:${change.file}` ? null : `module:${change.file}`)}
+                        className="w-full text-left px-3 py-1 text-xs flex items-center gap-2 hover:bg-[#171a21]"
+                      >
+                        <span className={`w-14 shrink-0 ${CHANGE_COLORS[change.type]}`}>{change.type}</span>
+                        <span className="truncate text-[#cbd5e1]">scriptModules · {change.file}</span>
+                      </button>
+                      {expandedChange === `module:${change.file}` && (
+                        <pre className="px-3 pb-2 text-[11px] text-[#9aa4b2] whitespace-pre-wrap break-all">
+                          {JSON.stringify({ before: change.before, after: change.after }, null, 2)}
+                        </pre>
+                      )}
+                    </li>
+                  ))}
+                  {preview.manifest.scriptPolicies.map((change) => (
+                    <li key={`policy:${change.file}`} className="border-b border-[#1b1f27]">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedChange(expandedChange === `policy:${change.file}` ? null : `policy:${change.file}`)}
+                        className="w-full text-left px-3 py-1 text-xs flex items-center gap-2 hover:bg-[#171a21]"
+                      >
+                        <span className="w-14 shrink-0 text-[#93c5fd]">policy</span>
+                        <span className="truncate text-[#cbd5e1]">scriptPolicies · {change.file}</span>
+                      </button>
+                      {expandedChange === `policy:${change.file}` && (
+                        <pre className="px-3 pb-2 text-[11px] text-[#9aa4b2] whitespace-pre-wrap break-all">
+                          {JSON.stringify({ before: change.before, after: change.after }, null, 2)}
+                        </pre>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="@grant">
+              <HeaderValues values={preview.grants} />
+            </Section>
+            <Section title="@connect">
+              <HeaderValues values={preview.connects} />
+            </Section>
+          </div>
+
+          {selected && (
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="h-[33px] px-3 flex items-center border-b border-[#2a303a] text-xs text-[#cbd5e1]">
+                <span className="truncate">{selected.file} payload</span>
+              </div>
+              <div className="flex-1 min-h-0">
+                <Editor
+                  height="100%"
+                  width="100%"
+                  value={selected.content}
+                  language="javascript"
+                  theme="vs-dark"
+                  options={{
+                    readOnly: true,
+                    fontSize: 11,
+                    minimap: { enabled: false },
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                    lineNumbers: 'off',
+                    glyphMargin: false,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
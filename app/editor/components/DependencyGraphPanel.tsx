@@ -0,0 +1,345 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { FiAlertTriangle, FiExternalLink, FiGitMerge, FiRefreshCw } from 'react-icons/fi'
+
+import { getScriptDependencyGraph } from '@/app/api/scripts/actions'
+import { useNotification } from '@/components/Notification'
+import { useFileState } from '@/components/ScriptEditor/context/FileStateContext'
+import { useTabBar } from '@/components/ScriptEditor/hooks/useTabBar'
+import { FileStatus } from '@/components/ScriptEditor/types'
+import { Spinner } from '@/components/Spinner'
+import type { ScriptDependencyEdge, ScriptDependencyGraph, ScriptDependencyGraphNode } from '@/services/scripts/scriptDependencyGraph'
+import { type RuntimeScriptModuleCatalogEntry, scriptModuleMatchesUrl, topoSortScriptModulesWithDeps } from '@/shared/runtime-script-modules'
+import { isBackgroundRunAt } from '@/shared/script-schedule'
+import { createTraceId } from '@/shared/trace-id'
+
+const NODE_WIDTH = 148
+const NODE_HEIGHT = 34
+const COLUMN_GAP = 16
+const ROW_GAP = 44
+const PADDING = 12
+
+interface NodeLayout {
+  node: ScriptDependencyGraphNode
+  x: number
+  y: number
+}
+
+/**
+ * Rows of the graph: scripts without dependencies first, every script one row below its deepest dependency.
+ * Edges inside a cycle are ignored so cycle members share a row.
+ */
+function layoutGraph(graph: ScriptDependencyGraph): { nodes: Map<string, NodeLayout>; width: number; height: number } {
+  const outgoing = new Map<string, string[]>()
+  for (const edge of graph.edges) {
+    if (!edge.cyclic) {
+      outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge.to])
+    }
+  }
+
+  const depth = new Map<string, number>()
+  const measure = (file: string, visiting: Set<string>): number => {
+    const known = depth.get(file)
+    if (known !== undefined) {
+      return known
+    }
+    if (visiting.has(file)) {
+      return 0
+    }
+    visiting.add(file)
+    const value = Math.max(-1, ...(outgoing.get(file) ?? []).map((dep) => measure(dep, visiting))) + 1
+    visiting.delete(file)
+    depth.set(file, value)
+    return value
+  }
+
+  const rows: ScriptDependencyGraphNode[][] = []
+  for (const node of graph.nodes) {
+    const row = measure(node.file, new Set())
+    rows[row] = [...(rows[row] ?? []), node]
+  }
+
+  const columns = Math.max(1, ...rows.map((row) => row?.length ?? 0))
+  const width = PADDING * 2 + columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP
+  const nodes = new Map<string, NodeLayout>()
+  rows.forEach((row, rowIndex) => {
+    const rowWidth = row.length * NODE_WIDTH + (row.length - 1) * COLUMN_GAP
+    row.forEach((node, column) => {
+      nodes.set(node.file, {
+        node,
+        x: (width - rowWidth) / 2 + column * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + rowIndex * (NODE_HEIGHT + ROW_GAP),
+      })
+    })
+  })
+  return { nodes, width, height: PADDING * 2 + rows.length * NODE_HEIGHT + Math.max(0, rows.length - 1) * ROW_GAP }
+}
+
+function edgeColor(edge: ScriptDependencyEdge): string {
+  if (edge.cyclic) return '#f87171'
+  return edge.kind === 'dependsOn' ? '#3b82f6' : '#6f7a8a'
+}
+
+/**
+ * Catalog entries for the URL check (header rules only; RULE rows live in the rules panel).
+ */
+function toCatalog(graph: ScriptDependencyGraph): RuntimeScriptModuleCatalogEntry[] {
+  return graph.nodes
+    .filter((node) => !isBackgroundRunAt(node.runAt))
+    .map((node) => ({
+      file: node.file,
+      match: node.match,
+      include: node.include,
+      exclude: node.exclude,
+      excludeMatch: node.excludeMatch,
+      noframes: node.noframes,
+      track: 'alpha',
+      url: '',
+      hash: { algorithm: 'sha1', value: '' },
+      dependsOn: graph.edges.filter((edge) => edge.kind === 'dependsOn' && edge.from === node.file && !edge.cyclic).map((edge) => edge.to),
+    }))
+}
+
+function CoverageList({ label, values }: { label: string; values?: string[] }) {
+  if (!values?.length) return null
+  return (
+    <div className="mt-1">
+      <span className="text-[#6f7a8a]">{label}</span>
+      <ul className="ml-3">
+        {values.map((value) => (
+          <li key={value} className="font-mono text-[11px] text-[#cbd5e1] break-all">
+            {value}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * Dependency graph panel: scripts as nodes in load order, `@depends-on` and import edges, `@match` coverage of the
+ * selected script, and which scripts (with their dependencies) load on a test URL. Uses the unsaved buffers.
+ */
+export function DependencyGraphPanel() {
+  const tabBar = useTabBar()
+  const fileState = useFileState()
+  const notification = useNotification()
+
+  const [graph, setGraph] = useState<ScriptDependencyGraph | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [selected, setSelected] = useState<string | null>(null)
+  const [hovered, setHovered] = useState<string | null>(null)
+  const [testUrl, setTestUrl] = useState('')
+
+  // Built once on open: refreshing on every keystroke would re-parse all scripts; Refresh picks up edits
+  const loadGraph = useCallback(async () => {
+    setLoading(true)
+    try {
+      const sources = Object.fromEntries(
+        Object.values(fileState.files)
+          .filter((file) => file.status === FileStatus.Deleted || fileState.hasUnsavedChanges(file.path))
+          .map((file) => [file.path, file.status === FileStatus.Deleted ? null : file.content.modifiedContent])
+      )
+      setGraph(await getScriptDependencyGraph({ sources, traceId: createTraceId() }))
+    } catch (error) {
+      notification.error(`Loading the dependency graph failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadGraph()
+  }, [loadGraph])
+
+  const layout = useMemo(() => (graph ? layoutGraph(graph) : null), [graph])
+
+  const loadedOnUrl = useMemo(() => {
+    if (!graph || !/^https?:\/\//.test(testUrl.trim())) return null
+    const catalog = toCatalog(graph)
+    const matched = catalog.filter((entry) =>
+      scriptModuleMatchesUrl(entry.file, { match: entry.match, include: entry.include, exclude: entry.exclude, excludeMatch: entry.excludeMatch }, [], testUrl.trim())
+    )
+    return { matched: new Set(matched.map((entry) => entry.file)), order: topoSortScriptModulesWithDeps(matched, catalog).map((entry) => entry.file) }
+  }, [graph, testUrl])
+
+  const focus = hovered ?? selected
+  const selectedNode = graph?.nodes.find((node) => node.file === selected) ?? null
+  const issuesByFile = new Map<string, string[]>()
+  for (const issue of graph?.issues ?? []) {
+    for (const file of issue.kind === 'cycle' ? new Set(issue.cycle) : [issue.file]) {
+      issuesByFile.set(file, [...(issuesByFile.get(file) ?? []), issue.message])
+    }
+  }
+
+  function nodeColors(file: string): { fill: string; stroke: string } {
+    if (issuesByFile.has(file)) return { fill: '#2a1618', stroke: '#f87171' }
+    if (loadedOnUrl?.matched.has(file)) return { fill: '#14261c', stroke: '#86efac' }
+    if (loadedOnUrl?.order.includes(file)) return { fill: '#1b2334', stroke: '#3b82f6' }
+    if (file === selected) return { fill: '#1f3b63', stroke: '#3b82f6' }
+    return { fill: '#171a21', stroke: '#2a303a' }
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+      <div className="h-[33px] px-3 text-xs font-semibold text-[#cbd5e1] uppercase border-b border-[#2a303a] bg-[#111318] sticky top-0 z-10 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FiGitMerge className="w-3.5 h-3.5 text-[#3b82f6]" />
+          <span>Dependencies</span>
+        </div>
+        <button
+          className="flex items-center gap-1 px-2 py-0.5 rounded text-[#cbd5e1] normal-case font-normal hover:bg-[#1b1f27] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          onClick={() => void loadGraph()}
+          disabled={loading}
+          title="Rebuild the graph from the unsaved buffers"
+          type="button"
+        >
+          {loading ? (
+            <span className="w-3 h-3 flex items-center justify-center scale-[0.6]">
+              <Spinner />
+            </span>
+          ) : (
+            <FiRefreshCw className="w-3 h-3" />
+          )}
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      <div className="px-3 py-2 border-b border-[#2a303a]">
+        <input
+          type="url"
+          value={testUrl}
+          onChange={(event) => setTestUrl(event.target.value)}
+          placeholder="Test URL, e.g. https://example.com/page"
+          className="w-full px-2 py-1 rounded bg-[#171a21] border border-[#2a303a] text-xs text-[#e6eaf0] placeholder:text-[#6f7a8a] focus:outline-none focus:border-[#3b82f6]"
+          aria-label="Test URL"
+        />
+        {loadedOnUrl && (
+          <p className="mt-1 text-[11px] text-[#9aa4b2] break-words">
+            {loadedOnUrl.order.length === 0 ? 'No script matches this URL' : `Loads in order: ${loadedOnUrl.order.join(' → ')}`}
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {!graph || !layout ? (
+          <div className="h-full flex items-center justify-center text-[#6f7a8a] text-sm">{loading ? 'Building graph…' : 'No graph'}</div>
+        ) : graph.nodes.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-[#6f7a8a] text-sm">No scripts</div>
+        ) : (
+          <>
+            {graph.issues.length > 0 && (
+              <ul className="border-b border-[#2a303a]">
+                {graph.issues.map((issue) => (
+                  <li key={`${issue.kind}:${issue.file}:${issue.dependency ?? ''}`} className="px-3 py-1 flex items-start gap-2 text-xs text-[#f87171]">
+                    <FiAlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                    <span className="break-words">
+                      {issue.kind === 'missing' ? `${issue.file}: ` : ''}
+                      {issue.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <svg width={layout.width} height={layout.height} className="block mx-auto" role="img" aria-label="Script dependency graph">
+              <defs>
+                {['#3b82f6', '#6f7a8a', '#f87171'].map((color) => (
+                  <marker key={color} id={`dep-arrow-${color.slice(1)}`} viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L8,4 L0,8 z" fill={color} />
+                  </marker>
+                ))}
+              </defs>
+              {graph.edges.map((edge) => {
+                const from = layout.nodes.get(edge.from)
+                const to = layout.nodes.get(edge.to)
+                if (!from || !to) return null
+                const color = edgeColor(edge)
+                const dimmed = focus !== null && edge.from !== focus && edge.to !== focus
+                return (
+                  <line
+                    key={`${edge.kind}:${edge.from}:${edge.to}`}
+                    x1={from.x + NODE_WIDTH / 2}
+                    y1={from.y}
+                    x2={to.x + NODE_WIDTH / 2}
+                    y2={to.y + NODE_HEIGHT}
+                    stroke={color}
+                    strokeWidth={1.5}
+                    strokeDasharray={edge.kind === 'import' ? '4 3' : undefined}
+                    markerEnd={`url(#dep-arrow-${color.slice(1)})`}
+                    opacity={dimmed ? 0.2 : 1}
+                  />
+                )
+              })}
+              {[...layout.nodes.values()].map(({ node, x, y }) => {
+                const colors = nodeColors(node.file)
+                return (
+                  <g
+                    key={node.file}
+                    transform={`translate(${x}, ${y})`}
+                    className="cursor-pointer"
+                    onClick={() => setSelected(node.file === selected ? null : node.file)}
+                    onDoubleClick={() => tabBar.openTab(node.file)}
+                    onMouseEnter={() => setHovered(node.file)}
+                    onMouseLeave={() => setHovered(null)}
+                  >
+                    <title>{`${node.file}${node.name ? ` — ${node.name}` : ''}\n${node.match.length > 0 ? node.match.join('\n') : 'no @match'}`}</title>
+                    <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={4} fill={colors.fill} stroke={colors.stroke} />
+                    <text x={8} y={14} fontSize={11} fill="#e6eaf0">
+                      {node.file.length > 22 ? `${node.file.slice(0, 21)}…` : node.file}
+                    </text>
+                    <text x={8} y={27} fontSize={10} fill="#6f7a8a">
+                      {isBackgroundRunAt(node.runAt) ? 'background' : `${node.match.length + (node.include?.length ?? 0)} match rule(s)`}
+                    </text>
+                  </g>
+                )
+              })}
+            </svg>
+
+            <div className="px-3 py-2 flex flex-wrap gap-3 text-[11px] text-[#9aa4b2] border-t border-[#2a303a]">
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-4 border-t-2 border-[#3b82f6]" /> @depends-on
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-4 border-t-2 border-dashed border-[#6f7a8a]" /> import (bundled)
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-4 border-t-2 border-[#f87171]" /> cycle
+              </span>
+            </div>
+
+            {selectedNode && (
+              <div className="px-3 py-2 border-t border-[#2a303a] text-xs text-[#cbd5e1]">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold truncate">{selectedNode.name ?? selectedNode.file}</span>
+                  <button
+                    type="button"
+                    onClick={() => tabBar.openTab(selectedNode.file)}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-[#1b1f27] text-[#9aa4b2] hover:text-[#e6eaf0]"
+                  >
+                    <FiExternalLink className="w-3 h-3" />
+                    <span>Open</span>
+                  </button>
+                </div>
+                <p className="text-[#6f7a8a]">
+                  {selectedNode.file}
+                  {selectedNode.runAt ? ` · @run-at ${selectedNode.runAt}` : ''}
+                  {selectedNode.noframes ? ' · @noframes' : ''}
+                </p>
+                <CoverageList label="@match" values={selectedNode.match} />
+                <CoverageList label="@include" values={selectedNode.include} />
+                <CoverageList label="@exclude" values={selectedNode.exclude} />
+                <CoverageList label="@exclude-match" values={selectedNode.excludeMatch} />
+                <CoverageList label="Depends on" values={graph.edges.filter((edge) => edge.kind === 'dependsOn' && edge.from === selectedNode.file).map((edge) => edge.to)} />
+                <CoverageList label="Imports" values={graph.edges.filter((edge) => edge.kind === 'import' && edge.from === selectedNode.file).map((edge) => edge.to)} />
+                <CoverageList label="Required by" values={graph.edges.filter((edge) => edge.to === selectedNode.file).map((edge) => `${edge.from} (${edge.kind})`)} />
+                <CoverageList label="Issues" values={issuesByFile.get(selectedNode.file)} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
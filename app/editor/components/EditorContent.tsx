@@ -3,22 +3,31 @@
 import { useRouter } from 'next/navigation'
 import { useCallback, useEffect, useRef, useState } from 'react'
 
-import { fetchFiles, fetchManagedScriptMeta, lockScriptVersion, publishScriptStable, saveScriptFiles, unlockScriptVersion } from '@/app/api/scripts/actions'
+import { fetchFiles, fetchManagedScriptMeta, lockScriptVersion, publishScriptStable, saveScriptFiles, unlockScriptVersion, validateScriptFiles } from '@/app/api/scripts/actions'
 import { useNotification } from '@/components/Notification'
 import { useFileState } from '@/components/ScriptEditor/context/FileStateContext'
 import { useTabBar } from '@/components/ScriptEditor/hooks/useTabBar'
 import { ScriptEditorContent } from '@/components/ScriptEditor/ScriptEditorContent'
 import { FileStatus } from '@/components/ScriptEditor/types'
 import { ENTRY_SCRIPT_RULES_FILE, EXCLUDED_FILES, isManagedScriptFilename, SCRIPTS_FILE_EXTENSION } from '@/constants/file'
+import type { UserRole } from '@/services/auth/userRoles'
+import { formatScriptDiagnostic } from '@/services/scripts/scriptDiagnostics'
 import type { RuleConfig } from '@/services/tampermonkey/types'
 import type { ScriptOtaPolicy } from '@/shared/script-ota-policy'
+import { SCRIPT_TEST_TYPINGS } from '@/shared/script-test-typings'
 import { createTraceId, shortTraceId } from '@/shared/trace-id'
 import { tracedFetch } from '@/shared/traced-fetch'
 
 import { useEditorContentWebMcpSlots } from '../webmcp/slots/useEditorContentWebMcpSlots'
 import { AIPanel } from './AIPanel'
+import { CompilePreviewPanel } from './CompilePreviewPanel'
+import { DependencyGraphPanel } from './DependencyGraphPanel'
 import { EditorHeaderWrapper } from './EditorHeaderWrapper'
+import { HistoryPanel } from './HistoryPanel'
 import { RulePanel } from './RulePanel'
+import { TelemetryPanel } from './TelemetryPanel'
+import { TestsPanel } from './TestsPanel'
+import { TransferPanel } from './TransferPanel'
 
 /**
  * EditorContent component props
@@ -26,9 +35,13 @@ import { RulePanel } from './RulePanel'
 /** PostMessage type that Tampermonkey preset listens for (must match preset dev-mode.ts) */
 const EDITOR_POST_MESSAGE_TYPE = 'web-script-editor-message'
 
+/** Type errors listed in the publish notification; the rest are summarized as "+N more" */
+const MAX_REPORTED_DIAGNOSTICS = 5
+
 export interface EditorContentProps {
   scriptKey: string
   displayUsername: string
+  role: UserRole
   initialFiles: Record<string, string>
   tampermonkeyTypings: string
   rules: RuleConfig[]
@@ -47,6 +60,7 @@ export interface EditorContentProps {
 export function EditorContent({
   scriptKey,
   displayUsername,
+  role,
   initialFiles,
   tampermonkeyTypings,
   rules,
@@ -172,6 +186,26 @@ export function EditorContent({
     window.postMessage({ type: EDITOR_POST_MESSAGE_TYPE, message: { type: 'script-publish-push' } }, window.location.origin)
   }, [])
 
+  /**
+   * Type-check scripts against the GM / GME typings; shows the first errors and returns false when any are found.
+   */
+  const checkScriptTypes = useCallback(
+    async (files: Record<string, string>, traceId?: string) => {
+      const errors = await validateScriptFiles(files, { traceId })
+      if (errors.length === 0) {
+        return true
+      }
+
+      const lines = errors.slice(0, MAX_REPORTED_DIAGNOSTICS).map(formatScriptDiagnostic)
+      if (errors.length > MAX_REPORTED_DIAGNOSTICS) {
+        lines.push(`+${errors.length - MAX_REPORTED_DIAGNOSTICS} more`)
+      }
+      notification.error(`Type check failed:\n${lines.join('\n')}`)
+      return false
+    },
+    [notification]
+  )
+
   /**
    * Save changed scripts to Gist as ALPHA debug builds (does not promote to stable).
    */
@@ -216,6 +250,10 @@ export function EditorContent({
       if (Object.keys(filesToPublish).length > 0) {
         // Validate scripts server-side (same as remote bundle; no preset) before persisting to Gist.
         // Delete-only publishes have no script body to compile.
+        if (!(await checkScriptTypes(filesToPublish))) {
+          setIsPublishing(false)
+          return
+        }
         const compileRes = await fetch('/tampermonkey/compile', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -304,7 +342,7 @@ export function EditorContent({
     } finally {
       setIsPublishing(false)
     }
-  }, [fileState, router, isPublishing, isSaving, notification, triggerScriptUpdatePush, tabBar.activeTab, refreshActiveScriptOta])
+  }, [fileState, router, isPublishing, isSaving, notification, triggerScriptUpdatePush, tabBar.activeTab, refreshActiveScriptOta, checkScriptTypes])
 
   /**
    * Publish the active managed script to stable (releases snapshot).
@@ -332,6 +370,9 @@ export function EditorContent({
       const traceId = createTraceId()
       // eslint-disable-next-line no-console -- editor action correlation
       console.info(`[editor] publish-stable traceId=${traceId} short=${shortTraceId(traceId)}`)
+      if (!(await checkScriptTypes({ [filename]: file.content.modifiedContent }, traceId))) {
+        return
+      }
       const compileRes = await tracedFetch('/tampermonkey/compile', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -360,7 +401,7 @@ export function EditorContent({
     } finally {
       setIsPublishing(false)
     }
-  }, [fileState, tabBar.activeTab, router, isPublishing, isSaving, notification, triggerScriptUpdatePush, refreshActiveScriptOta])
+  }, [fileState, tabBar.activeTab, router, isPublishing, isSaving, notification, triggerScriptUpdatePush, refreshActiveScriptOta, checkScriptTypes])
 
   const handleLockVersion = useCallback(async () => {
     if (isPublishing || isSaving) {
@@ -425,6 +466,8 @@ export function EditorContent({
   }, [tabBar.activeTab, activeScriptOta?.lockedVersion, isPublishing, isSaving, notification, router])
 
   const canPublishStable = Boolean(tabBar.activeTab && isManagedScriptFilename(tabBar.activeTab))
+  // Publishing and version locks need the publisher role
+  const mayPublish = role === 'publisher' || role === 'admin'
 
   useEditorContentWebMcpSlots({
     isEditorDevMode,
@@ -443,13 +486,14 @@ export function EditorContent({
       <EditorHeaderWrapper
         scriptKey={scriptKey}
         displayUsername={displayUsername}
+        role={role}
         onSave={handlePublish}
-        onPublishStable={handlePublishStable}
+        onPublishStable={mayPublish ? handlePublishStable : undefined}
         canPublishStable={canPublishStable}
         activeScriptFilename={tabBar.activeTab}
         activeScriptOta={activeScriptOta}
-        onLockVersion={handleLockVersion}
-        onUnlockVersion={handleUnlockVersion}
+        onLockVersion={mayPublish ? handleLockVersion : undefined}
+        onUnlockVersion={mayPublish ? handleUnlockVersion : undefined}
         isSaving={isPublishing || isSaving}
         isEditorDevMode={isEditorDevMode}
         onToggleEditorDevMode={onToggleEditorDevMode}
@@ -462,7 +506,10 @@ export function EditorContent({
           initialFiles={initialFiles}
           hideHeader={true}
           hideFooter={true}
-          extraLibs={[{ content: tampermonkeyTypings, filePath: 'file:///typings.d.ts' }]}
+          extraLibs={[
+            { content: tampermonkeyTypings, filePath: 'file:///typings.d.ts' },
+            { content: SCRIPT_TEST_TYPINGS, filePath: 'file:///script-tests.d.ts' },
+          ]}
           typingsForLocal={tampermonkeyTypings}
           onSave={handleEditorSave}
           onReloadOnlineFiles={handleReloadOnlineFiles}
@@ -481,6 +528,24 @@ export function EditorContent({
             if (panelType === 'rules') {
               return <RulePanel allRules={rules} onRulesChange={onRulesChange} />
             }
+            if (panelType === 'history') {
+              return <HistoryPanel />
+            }
+            if (panelType === 'telemetry') {
+              return <TelemetryPanel />
+            }
+            if (panelType === 'transfer') {
+              return <TransferPanel canImport={role !== 'viewer'} onRulesChange={onRulesChange} />
+            }
+            if (panelType === 'compile-preview') {
+              return <CompilePreviewPanel />
+            }
+            if (panelType === 'tests') {
+              return <TestsPanel />
+            }
+            if (panelType === 'dependency-graph') {
+              return <DependencyGraphPanel />
+            }
             return null
           }}
         />
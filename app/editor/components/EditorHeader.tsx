@@ -4,14 +4,16 @@ import Image from 'next/image'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { FiChevronDown, FiLock, FiLogOut, FiPlay, FiPlayCircle, FiUnlock, FiUser, FiZap } from 'react-icons/fi'
+import { FiActivity, FiChevronDown, FiClock, FiCpu, FiGitMerge, FiLock, FiLogOut, FiPlay, FiPlayCircle, FiSettings, FiUnlock, FiUser, FiZap } from 'react-icons/fi'
 import { IoExtensionPuzzleOutline } from 'react-icons/io5'
 import { LuAsterisk } from 'react-icons/lu'
-import { MdOutlineCloudUpload, MdOutlineKeyboard } from 'react-icons/md'
+import { MdImportExport, MdOutlineCloudUpload, MdOutlineKeyboard } from 'react-icons/md'
 import { SiTampermonkey } from 'react-icons/si'
+import { TbTestPipe } from 'react-icons/tb'
 
 import { Spinner } from '@/components/Spinner'
 import { Tooltip } from '@/components/Tooltip'
+import type { UserRole } from '@/services/auth/userRoles'
 import { CHROME_EXTENSION_ZIP_FILENAME, CHROME_EXTENSION_ZIP_PATH } from '@/shared/chrome-extension-download'
 import type { ScriptOtaPolicy } from '@/shared/script-ota-policy'
 
@@ -78,6 +80,7 @@ function requestExtensionBridge(
 interface EditorHeaderProps {
   scriptKey: string
   displayUsername: string
+  role: UserRole
   onSave: () => void
   onPublishStable?: () => void
   canPublishStable?: boolean
@@ -94,6 +97,18 @@ interface EditorHeaderProps {
   isAIDisabled?: boolean
   onToggleRules?: () => void
   isRulesOpen?: boolean
+  onToggleHistory?: () => void
+  isHistoryOpen?: boolean
+  onToggleTelemetry?: () => void
+  isTelemetryOpen?: boolean
+  onToggleTransfer?: () => void
+  isTransferOpen?: boolean
+  onToggleCompilePreview?: () => void
+  isCompilePreviewOpen?: boolean
+  onToggleTests?: () => void
+  isTestsOpen?: boolean
+  onToggleDependencyGraph?: () => void
+  isDependencyGraphOpen?: boolean
 }
 
 /**
@@ -102,6 +117,7 @@ interface EditorHeaderProps {
 export default function EditorHeader({
   scriptKey,
   displayUsername,
+  role,
   onSave,
   onPublishStable,
   canPublishStable = false,
@@ -118,6 +134,18 @@ export default function EditorHeader({
   isAIDisabled = false,
   onToggleRules,
   isRulesOpen = false,
+  onToggleHistory,
+  isHistoryOpen = false,
+  onToggleTelemetry,
+  isTelemetryOpen = false,
+  onToggleTransfer,
+  isTransferOpen = false,
+  onToggleCompilePreview,
+  isCompilePreviewOpen = false,
+  onToggleTests,
+  isTestsOpen = false,
+  onToggleDependencyGraph,
+  isDependencyGraphOpen = false,
 }: EditorHeaderProps) {
   const router = useRouter()
   const [isChecking, setIsChecking] = useState(false)
@@ -331,6 +359,60 @@ export default function EditorHeader({
           </Tooltip>
         )}
 
+        {onToggleHistory && (
+          <Tooltip content={isHistoryOpen ? 'Close history' : 'Revision history'} placement="bottom">
+            <button type="button" onClick={onToggleHistory} disabled={isSaving} className={isHistoryOpen ? iconBtnActiveBlue : iconBtn} aria-label="Revision history">
+              <FiClock className="w-4 h-4" />
+            </button>
+          </Tooltip>
+        )}
+
+        {onToggleTelemetry && (
+          <Tooltip content={isTelemetryOpen ? 'Close telemetry' : 'Script telemetry'} placement="bottom">
+            <button type="button" onClick={onToggleTelemetry} disabled={isSaving} className={isTelemetryOpen ? iconBtnActiveBlue : iconBtn} aria-label="Script telemetry">
+              <FiActivity className="w-4 h-4" />
+            </button>
+          </Tooltip>
+        )}
+
+        {onToggleTransfer && (
+          <Tooltip content={isTransferOpen ? 'Close import / export' : 'Import / export'} placement="bottom">
+            <button type="button" onClick={onToggleTransfer} disabled={isSaving} className={isTransferOpen ? iconBtnActiveBlue : iconBtn} aria-label="Import / export">
+              <MdImportExport className="w-4 h-4" />
+            </button>
+          </Tooltip>
+        )}
+
+        {onToggleCompilePreview && (
+          <Tooltip content={isCompilePreviewOpen ? 'Close compile preview' : 'Compile preview'} placement="bottom">
+            <button type="button" onClick={onToggleCompilePreview} disabled={isSaving} className={isCompilePreviewOpen ? iconBtnActiveBlue : iconBtn} aria-label="Compile preview">
+              <FiCpu className="w-4 h-4" />
+            </button>
+          </Tooltip>
+        )}
+
+        {onToggleTests && (
+          <Tooltip content={isTestsOpen ? 'Close tests' : 'Script tests'} placement="bottom">
+            <button type="button" onClick={onToggleTests} disabled={isSaving} className={isTestsOpen ? iconBtnActiveBlue : iconBtn} aria-label="Script tests">
+              <TbTestPipe className="w-4 h-4" />
+            </button>
+          </Tooltip>
+        )}
+
+        {onToggleDependencyGraph && (
+          <Tooltip content={isDependencyGraphOpen ? 'Close dependency graph' : 'Dependency graph'} placement="bottom">
+            <button
+              type="button"
+              onClick={onToggleDependencyGraph}
+              disabled={isSaving}
+              className={isDependencyGraphOpen ? iconBtnActiveBlue : iconBtn}
+              aria-label="Dependency graph"
+            >
+              <FiGitMerge className="w-4 h-4" />
+            </button>
+          </Tooltip>
+        )}
+
         {onToggleAI && (
           <Tooltip content={isAIOpen ? 'Close AI panel' : 'AI rewrite'} placement="bottom">
             <button type="button" onClick={onToggleAI} disabled={isSaving || isAIDisabled} className={isAIOpen ? iconBtnActiveBlue : iconBtn} aria-label="AI rewrite">
@@ -469,8 +551,8 @@ export default function EditorHeader({
         </Tooltip>
         {userMenuOpen ? (
           <div className="absolute right-0 top-full mt-1 py-1 bg-[#171a21] border border-[#2a303a] rounded-md shadow-lg min-w-[180px] z-[70]" role="menu">
-            <div className="px-3 py-2 text-xs text-[#9aa4b2] border-b border-[#2a303a] truncate" title={displayUsername}>
-              {displayUsername}
+            <div className="px-3 py-2 text-xs text-[#9aa4b2] border-b border-[#2a303a] truncate" title={`${displayUsername} (${role})`}>
+              {displayUsername} · {role}
             </div>
             {canPublishStable && activeScriptOta ? (
               <div className="px-3 py-2 text-xs text-[#9aa4b2] border-b border-[#2a303a]">
@@ -508,6 +590,17 @@ export default function EditorHeader({
                 Unlock version
               </button>
             ) : null}
+            {role === 'admin' ? (
+              <Link
+                href="/settings"
+                role="menuitem"
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-[#e6eaf0] hover:bg-[#2a303a] text-left"
+                onClick={() => setUserMenuOpen(false)}
+              >
+                <FiSettings className="w-4 h-4" />
+                Settings
+              </Link>
+            ) : null}
             <button
               type="button"
               role="menuitem"
@@ -1,6 +1,7 @@
 'use client'
 
 import { useLayout } from '@/components/ScriptEditor/hooks/useLayout'
+import type { UserRole } from '@/services/auth/userRoles'
 import type { ScriptOtaPolicy } from '@/shared/script-ota-policy'
 
 import { useEditorPageSlot } from '../webmcp/editorPageHandleSystem'
@@ -9,6 +10,7 @@ import EditorHeader from './EditorHeader'
 interface EditorHeaderWrapperProps {
   scriptKey: string
   displayUsername: string
+  role: UserRole
   onSave: () => void
   onPublishStable?: () => void
   canPublishStable?: boolean
@@ -56,6 +58,18 @@ export function EditorHeaderWrapper(props: EditorHeaderWrapperProps) {
       isAIOpen={layout.rightPanelType === 'ai'}
       onToggleRules={() => layout.toggleRightPanel('rules')}
       isRulesOpen={layout.rightPanelType === 'rules'}
+      onToggleHistory={() => layout.toggleRightPanel('history')}
+      isHistoryOpen={layout.rightPanelType === 'history'}
+      onToggleTelemetry={() => layout.toggleRightPanel('telemetry')}
+      isTelemetryOpen={layout.rightPanelType === 'telemetry'}
+      onToggleTransfer={() => layout.toggleRightPanel('transfer')}
+      isTransferOpen={layout.rightPanelType === 'transfer'}
+      onToggleCompilePreview={() => layout.toggleRightPanel('compile-preview')}
+      isCompilePreviewOpen={layout.rightPanelType === 'compile-preview'}
+      onToggleTests={() => layout.toggleRightPanel('tests')}
+      isTestsOpen={layout.rightPanelType === 'tests'}
+      onToggleDependencyGraph={() => layout.toggleRightPanel('dependency-graph')}
+      isDependencyGraphOpen={layout.rightPanelType === 'dependency-graph'}
     />
   )
 }
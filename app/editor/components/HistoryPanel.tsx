@@ -0,0 +1,262 @@
+'use client'
+
+import { DiffEditor } from '@monaco-editor/react'
+import { useCallback, useEffect, useState } from 'react'
+import { FiClock, FiRefreshCw, FiRotateCcw } from 'react-icons/fi'
+
+import { fetchScriptRevision, fetchScriptRevisions, restoreScriptRevision } from '@/app/api/scripts/actions'
+import { useNotification } from '@/components/Notification'
+import { useFileState } from '@/components/ScriptEditor/context/FileStateContext'
+import { useTabBar } from '@/components/ScriptEditor/hooks/useTabBar'
+import { Spinner } from '@/components/Spinner'
+import { isManagedScriptFilename } from '@/constants/file'
+import type { ScriptRevision } from '@/services/scripts/scriptRevisions'
+import { formatAbsoluteTime24h, formatRelativeTime } from '@/shared/format-relative-time'
+import { createTraceId } from '@/shared/trace-id'
+
+const ACTION_LABELS: Record<ScriptRevision['action'], string> = {
+  baseline: 'Baseline',
+  create: 'Created',
+  update: 'Saved',
+  delete: 'Deleted',
+  restore: 'Restored',
+}
+
+const ACTION_COLORS: Record<ScriptRevision['action'], string> = {
+  baseline: 'text-[#9aa4b2]',
+  create: 'text-[#86efac]',
+  update: 'text-[#93c5fd]',
+  delete: 'text-[#f87171]',
+  restore: 'text-[#fbbf24]',
+}
+
+/**
+ * Revision history panel for the active managed script: list recorded revisions,
+ * diff one against the editor buffer, and roll the stored script back to it.
+ */
+export function HistoryPanel() {
+  const tabBar = useTabBar()
+  const fileState = useFileState()
+  const notification = useNotification()
+  const notifyError = notification.error
+  const filename = tabBar.activeTab
+  const isManaged = Boolean(filename && isManagedScriptFilename(filename))
+
+  const [revisions, setRevisions] = useState<ScriptRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [selectedContent, setSelectedContent] = useState<string | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const currentContent = filename ? (fileState.getFile(filename)?.content.modifiedContent ?? '') : ''
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? null
+
+  const loadRevisions = useCallback(async () => {
+    if (!filename || !isManagedScriptFilename(filename)) {
+      setRevisions([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await fetchScriptRevisions(filename)
+      setRevisions(result.revisions)
+    } catch (error) {
+      setRevisions([])
+      notifyError(`Failed to load history: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filename, notifyError])
+
+  useEffect(() => {
+    setSelectedId(null)
+    setSelectedContent(null)
+    void loadRevisions()
+  }, [loadRevisions])
+
+  /**
+   * Select a revision and load its content for the diff view
+   * @param revision Revision to inspect
+   */
+  async function handleSelect(revision: ScriptRevision) {
+    if (!filename) return
+
+    setSelectedId(revision.id)
+    setSelectedContent(null)
+    try {
+      const result = await fetchScriptRevision(filename, revision.id)
+      setSelectedContent(result.content ?? '')
+    } catch (error) {
+      notification.error(`Failed to load revision: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Restore the selected revision on the server and load it into the editor buffer
+   */
+  async function handleRestore() {
+    if (!filename || !selected || selectedContent === null || isRestoring) return
+    if (fileState.hasUnsavedChanges(filename) && !window.confirm(`${filename} has unsaved changes. Restoring revision #${selected.id} will discard them. Continue?`)) {
+      return
+    }
+
+    setIsRestoring(true)
+    try {
+      await restoreScriptRevision(filename, selected.id, { traceId: createTraceId() })
+      if (fileState.getFile(filename)) {
+        fileState.updateFile(filename, selectedContent)
+      } else {
+        fileState.createFile(filename, selectedContent)
+      }
+      fileState.markFileAsUnchanged(filename)
+      notification.success(`Restored ${filename} to revision #${selected.id}`)
+      await loadRevisions()
+    } catch (error) {
+      notification.error(`Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const header = (
+    <div className="h-[33px] px-3 text-xs font-semibold text-[#cbd5e1] uppercase border-b border-[#2a303a] bg-[#111318] sticky top-0 z-10 flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <FiClock className="w-3.5 h-3.5 text-[#3b82f6]" />
+        <span>History</span>
+      </div>
+      {isManaged && (
+        <button
+          className="p-1 hover:bg-[#3a4352] rounded text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+          onClick={() => void loadRevisions()}
+          disabled={isLoading}
+          title="Refresh history"
+          type="button"
+        >
+          <FiRefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      )}
+    </div>
+  )
+
+  if (!filename || !isManaged) {
+    return (
+      <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+        {header}
+        <div className="flex-1 flex items-center justify-center text-[#6f7a8a] px-4">
+          <div className="text-center">
+            <p className="text-sm mb-1">No history</p>
+            <p className="text-xs">Select a managed script file (.ts / .js) to see its revisions</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+      {header}
+
+      <div className="px-3 py-2 border-b border-[#2a303a] bg-[#171a21]">
+        <p className="text-xs text-[#6f7a8a] truncate">Saved revisions of {filename}; diff shows revision → editor</p>
+      </div>
+
+      <div className={`${selected ? 'max-h-[40%]' : 'flex-1'} overflow-auto border-b border-[#2a303a]`}>
+        {isLoading && revisions.length === 0 ? (
+          <div className="p-4 flex justify-center">
+            <Spinner />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="p-4 text-center text-[#6f7a8a]">
+            <p className="text-sm mb-1">No revisions yet</p>
+            <p className="text-xs">Revisions are recorded each time this script is saved</p>
+          </div>
+        ) : (
+          <ul>
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => void handleSelect(revision)}
+                  className={`w-full text-left px-3 py-1.5 text-xs border-b border-[#1b1f27] transition-colors ${
+                    revision.id === selectedId ? 'bg-[#1f3b63]' : 'hover:bg-[#171a21]'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className="text-[#6f7a8a] font-mono">#{revision.id}</span>
+                      <span className={ACTION_COLORS[revision.action]}>{ACTION_LABELS[revision.action]}</span>
+                      {revision.restoredFrom !== undefined && <span className="text-[#6f7a8a]">from #{revision.restoredFrom}</span>}
+                      {revision.renamedFrom && <span className="text-[#6f7a8a] truncate">from {revision.renamedFrom}</span>}
+                      {revision.renamedTo && <span className="text-[#6f7a8a] truncate">to {revision.renamedTo}</span>}
+                    </span>
+                    <span className="text-[#6f7a8a] shrink-0" title={formatAbsoluteTime24h(revision.createdAt)}>
+                      {formatRelativeTime(revision.createdAt)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-[#6f7a8a] mt-0.5">
+                    <span className="truncate">{revision.author}</span>
+                    <span className="font-mono shrink-0">{revision.contentHash ? revision.contentHash.slice(0, 8) : '—'}</span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selected && (
+        <div className="flex-1 flex flex-col min-h-0">
+          <div className="h-[33px] px-3 flex items-center justify-between border-b border-[#2a303a] text-xs text-[#cbd5e1]">
+            <span>
+              #{selected.id} → editor
+              {selected.traceId && <span className="ml-2 text-[#6f7a8a] font-mono">{selected.traceId.slice(0, 8)}</span>}
+            </span>
+            <button
+              type="button"
+              onClick={() => void handleRestore()}
+              disabled={isRestoring || selectedContent === null || selected.action === 'delete'}
+              className="flex items-center gap-1 px-2 py-0.5 rounded bg-[#1f3b63] text-[#e6eaf0] hover:bg-[#2563eb] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title={selected.action === 'delete' ? 'Delete revisions have no content to restore' : `Restore revision #${selected.id}`}
+            >
+              {isRestoring ? (
+                <span className="w-3 h-3 flex items-center justify-center scale-[0.6]">
+                  <Spinner />
+                </span>
+              ) : (
+                <FiRotateCcw className="w-3 h-3" />
+              )}
+              <span>Restore</span>
+            </button>
+          </div>
+          <div className="flex-1 min-h-0">
+            {selectedContent === null ? (
+              <div className="h-full flex items-center justify-center">
+                <Spinner />
+              </div>
+            ) : (
+              <DiffEditor
+                height="100%"
+                width="100%"
+                original={selectedContent}
+                modified={currentContent}
+                language={filename.endsWith('.ts') ? 'typescript' : 'javascript'}
+                theme="vs-dark"
+                options={{
+                  readOnly: true,
+                  fontSize: 11,
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                  renderSideBySide: false,
+                  lineNumbers: 'off',
+                  glyphMargin: false,
+                }}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
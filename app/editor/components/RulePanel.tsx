@@ -1,10 +1,149 @@
 'use client'
 
-import React, { useEffect, useRef, useState } from 'react'
-import { FiGlobe, FiX } from 'react-icons/fi'
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { FiGlobe, FiRotateCcw, FiSliders, FiUploadCloud, FiX } from 'react-icons/fi'
 
+import { fetchRuleSetReleases, publishRuleSetRelease, rollbackRuleSetRelease } from '@/app/api/scripts/actions'
+import { useNotification } from '@/components/Notification'
 import { SCRIPTS_FILE_EXTENSION } from '@/constants/file'
+import type { RuleSetReleaseStatus } from '@/services/scripts/ruleSetReleases'
 import type { RuleConfig } from '@/services/tampermonkey/types'
+import { type RuleConditions, validateRuleConditions } from '@/shared/rule-engine'
+import { createTraceId } from '@/shared/trace-id'
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const fieldClass = 'h-6 px-1.5 text-xs bg-[#111318] border border-[#2a303a] rounded text-[#cbd5e1] placeholder:text-[#6f7a8a] focus:outline-none focus:border-[#3b82f6] min-w-0'
+
+/**
+ * Drop empty condition fields so saved rules only carry conditions that are set.
+ * @param conditions Edited conditions
+ */
+function compactConditions(conditions: RuleConditions): RuleConditions | undefined {
+  const next: RuleConditions = {}
+  for (const [key, value] of Object.entries(conditions) as Array<[keyof RuleConditions, RuleConditions[keyof RuleConditions]]>) {
+    if (value !== undefined && value !== '') {
+      Object.assign(next, { [key]: value })
+    }
+  }
+  return Object.keys(next).length > 0 ? next : undefined
+}
+
+interface RuleConditionsEditorProps {
+  rule: RuleConfig
+  onChange: (patch: Partial<RuleConfig>) => void
+}
+
+/**
+ * Mode, priority and conditions of one rule.
+ */
+function RuleConditionsEditor({ rule, onChange }: RuleConditionsEditorProps) {
+  const conditions = rule.conditions ?? {}
+  const errors = validateRuleConditions(rule.conditions)
+
+  function setCondition<K extends keyof RuleConditions>(key: K, value: RuleConditions[K] | '') {
+    onChange({ conditions: compactConditions({ ...conditions, [key]: value === '' ? undefined : value }) })
+  }
+
+  function setTime(patch: Partial<NonNullable<RuleConditions['time']>>) {
+    const time = { from: '', to: '', ...conditions.time, ...patch }
+    setCondition('time', time.from || time.to || time.days?.length ? time : undefined)
+  }
+
+  function toggleDay(day: number) {
+    const days = conditions.time?.days ?? []
+    const next = days.includes(day) ? days.filter((value) => value !== day) : [...days, day].sort()
+    setTime({ days: next.length > 0 ? next : undefined })
+  }
+
+  return (
+    <div className="px-2 pb-2 pt-1 space-y-1.5 text-xs text-[#9aa4b2] bg-[#171a21]">
+      <div className="grid grid-cols-2 gap-1.5">
+        <label className="flex flex-col gap-0.5">
+          <span>Action</span>
+          <select value={rule.mode ?? 'script'} onChange={(e) => onChange({ mode: e.target.value === 'exclude' ? 'exclude' : undefined })} className={fieldClass}>
+            <option value="script">Run script</option>
+            <option value="exclude">Exclude script</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span>Priority</span>
+          <input
+            type="number"
+            value={rule.priority ?? 0}
+            onChange={(e) => onChange({ priority: Number(e.target.value) || undefined })}
+            className={fieldClass}
+            title="Higher-priority rules decide first"
+          />
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span>Frame</span>
+          <select value={conditions.frame ?? ''} onChange={(e) => setCondition('frame', e.target.value as RuleConditions['frame'] | '')} className={fieldClass}>
+            <option value="">Any</option>
+            <option value="top">Top frame</option>
+            <option value="iframe">Iframes</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span>Device</span>
+          <select value={conditions.device ?? ''} onChange={(e) => setCondition('device', e.target.value as RuleConditions['device'] | '')} className={fieldClass}>
+            <option value="">Any</option>
+            <option value="desktop">Desktop</option>
+            <option value="mobile">Mobile</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-col gap-0.5">
+        <span>Time window (local)</span>
+        <div className="flex items-center gap-1">
+          <input type="time" value={conditions.time?.from ?? ''} onChange={(e) => setTime({ from: e.target.value })} className={`${fieldClass} flex-1`} aria-label="From" />
+          <span>–</span>
+          <input type="time" value={conditions.time?.to ?? ''} onChange={(e) => setTime({ to: e.target.value })} className={`${fieldClass} flex-1`} aria-label="To" />
+        </div>
+        <div className="flex gap-0.5">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`flex-1 py-0.5 rounded text-[10px] ${conditions.time?.days?.includes(day) ? 'bg-[#1f3b63] text-[#e6eaf0]' : 'bg-[#111318] text-[#6f7a8a] hover:text-[#cbd5e1]'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        <label className="flex flex-col gap-0.5">
+          <span>Cookie set</span>
+          <input type="text" value={conditions.cookie ?? ''} onChange={(e) => setCondition('cookie', e.target.value)} placeholder="session_id" className={fieldClass} />
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span>localStorage key set</span>
+          <input type="text" value={conditions.localStorage ?? ''} onChange={(e) => setCondition('localStorage', e.target.value)} placeholder="token" className={fieldClass} />
+        </label>
+      </div>
+      <label className="flex flex-col gap-0.5">
+        <span>User agent contains (or /regex/)</span>
+        <input type="text" value={conditions.userAgent ?? ''} onChange={(e) => setCondition('userAgent', e.target.value)} placeholder="Chrome" className={fieldClass} />
+      </label>
+      <label className="flex flex-col gap-0.5">
+        <span>Element present (CSS selector)</span>
+        <input type="text" value={conditions.selector ?? ''} onChange={(e) => setCondition('selector', e.target.value)} placeholder="#app" className={fieldClass} />
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="text-[#f87171]">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
 
 export interface RulePanelProps {
   /** All rules from the rule file */
@@ -13,6 +152,107 @@ export interface RulePanelProps {
   onRulesChange: (rules: RuleConfig[]) => void
 }
 
+/**
+ * Rule set release bar: publish the saved rules to stable clients or roll them back to an earlier release.
+ */
+function RuleReleaseBar() {
+  const notification = useNotification()
+  const [status, setStatus] = useState<RuleSetReleaseStatus | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [rollbackTarget, setRollbackTarget] = useState<number | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setStatus(await fetchRuleSetReleases())
+    } catch (error) {
+      notification.error(`Loading rule releases failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [notification])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function run(action: () => Promise<RuleSetReleaseStatus>, success: (next: RuleSetReleaseStatus) => string) {
+    setBusy(true)
+    try {
+      const next = await action()
+      setStatus(next)
+      setRollbackTarget(null)
+      notification.success(success(next))
+    } catch (error) {
+      notification.error(error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!status) {
+    return null
+  }
+
+  const olderReleases = status.releases.filter((release) => release.version !== status.stableVersion)
+
+  return (
+    <div className="px-3 py-2 border-t border-[#2a303a] bg-[#171a21] text-xs text-[#9aa4b2] space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {status.stableVersion ? `Stable rule set v${status.stableVersion}` : 'Not published: saved rules reach every client'}
+          {status.unpublishedChanges && <span className="ml-1.5 text-[#fbbf24]">· saved changes reach alpha clients only</span>}
+        </span>
+        <button
+          type="button"
+          disabled={busy || (Boolean(status.stableVersion) && !status.unpublishedChanges)}
+          onClick={() =>
+            void run(
+              () => publishRuleSetRelease({ traceId: createTraceId() }),
+              (next) => `Published rule set v${next.stableVersion}`
+            )
+          }
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[#cbd5e1] hover:bg-[#3a4352] disabled:opacity-40 disabled:hover:bg-transparent flex-shrink-0"
+          title="Publish the saved rules to stable clients"
+        >
+          <FiUploadCloud className="w-3 h-3" />
+          Publish
+        </button>
+      </div>
+      {olderReleases.length > 0 && (
+        <div className="flex items-center gap-1.5">
+          <select
+            value={rollbackTarget ?? ''}
+            onChange={(e) => setRollbackTarget(e.target.value ? Number(e.target.value) : null)}
+            className={`${fieldClass} flex-1`}
+            aria-label="Release to roll back to"
+          >
+            <option value="">Previous release</option>
+            {olderReleases.map((release) => (
+              <option key={release.version} value={release.version}>
+                v{release.version} · {new Date(release.publishedAt).toLocaleString()}
+                {release.publishedBy ? ` · ${release.publishedBy}` : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() =>
+              void run(
+                () => rollbackRuleSetRelease(rollbackTarget ?? undefined, { traceId: createTraceId() }),
+                (next) => `Stable clients now use rule set v${next.stableVersion}`
+              )
+            }
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[#cbd5e1] hover:bg-[#3a4352] disabled:opacity-40 flex-shrink-0"
+            title="Serve an earlier release to stable clients"
+          >
+            <FiRotateCcw className="w-3 h-3" />
+            Roll back
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
 /**
  * Rule panel component for managing rules in the editor
  * Displays rules filtered by the currently selected file
@@ -24,6 +264,7 @@ export function RulePanel(props: RulePanelProps) {
   const tabBar = useTabBar()
   const selectedFile = tabBar.activeTab
   const [rules, setRules] = useState<RuleConfig[]>([])
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
   const inputRefs = useRef<Record<string, HTMLInputElement | null>>({})
 
   /**
@@ -53,14 +294,21 @@ export function RulePanel(props: RulePanelProps) {
   }, [allRules, selectedFile, isScript])
 
   /**
-   * Handle wildcard change for a rule
+   * Handle a change to one rule (wildcard, mode, priority, enabled flag or conditions)
    * @param id Rule ID
-   * @param wildcard New wildcard value
+   * @param patch Changed fields; undefined values are removed
    */
-  function handleWildcardChange(id: string, wildcard: string) {
+  function handleRuleChange(id: string, patch: Partial<RuleConfig>) {
     if (!selectedFile) return
 
-    const updatedRules = rules.map((rule) => (rule.id === id ? { ...rule, wildcard } : rule))
+    const updatedRules = rules.map((rule) => {
+      if (rule.id !== id) return rule
+      const next: RuleConfig = { ...rule, ...patch }
+      for (const key of Object.keys(patch) as Array<keyof RuleConfig>) {
+        if (next[key] === undefined) delete next[key]
+      }
+      return next
+    })
     setRules(updatedRules)
 
     // Merge with other rules and notify parent
@@ -143,6 +391,18 @@ export function RulePanel(props: RulePanelProps) {
     onRulesChange([...otherRules, ...updatedRules])
   }
 
+  /**
+   * Show or hide the conditions editor of a rule
+   * @param id Rule ID
+   */
+  function toggleExpanded(id: string) {
+    setExpanded((current) => {
+      const next = new Set(current)
+      if (!next.delete(id)) next.add(id)
+      return next
+    })
+  }
+
   /**
    * Handle key down on input
    * @param e Keyboard event
@@ -265,32 +525,56 @@ export function RulePanel(props: RulePanelProps) {
         ) : (
           <div className="py-1">
             {rules.map((rule) => (
-              <div key={rule.id} className="flex items-center gap-2 px-2 py-1 hover:bg-[#202634] transition-colors border-b border-[#2a303a] last:border-b-0">
-                <input
-                  ref={(el) => {
-                    inputRefs.current[rule.id] = el
-                  }}
-                  type="text"
-                  value={rule.wildcard}
-                  onChange={(e) => handleWildcardChange(rule.id, e.target.value)}
-                  onKeyDown={(e) => handleKeyDown(e, rule.id)}
-                  placeholder="*://*.example.com/*"
-                  className="flex-1 h-5 px-1.5 text-xs bg-transparent border-none text-[#cbd5e1] placeholder:text-[#6f7a8a] focus:outline-none focus:bg-[#111318] focus:ring-1 focus:ring-[#3b82f6] rounded"
-                />
-                <button
-                  onClick={() => handleDeleteRule(rule.id)}
-                  className="p-0.5 hover:bg-[#3a4352] rounded text-gray-400 hover:text-red-400 transition-colors flex-shrink-0"
-                  title="Delete Rule"
-                  type="button"
-                  tabIndex={-1}
-                >
-                  <FiX className="w-3 h-3" />
-                </button>
+              <div key={rule.id} className="border-b border-[#2a303a] last:border-b-0">
+                <div className={`flex items-center gap-2 px-2 py-1 hover:bg-[#202634] transition-colors ${rule.enabled === false ? 'opacity-50' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled !== false}
+                    onChange={(e) => handleRuleChange(rule.id, { enabled: e.target.checked ? undefined : false })}
+                    title={rule.enabled === false ? 'Enable rule' : 'Disable rule'}
+                    className="accent-[#3b82f6] flex-shrink-0"
+                    tabIndex={-1}
+                  />
+                  <input
+                    ref={(el) => {
+                      inputRefs.current[rule.id] = el
+                    }}
+                    type="text"
+                    value={rule.wildcard}
+                    onChange={(e) => handleRuleChange(rule.id, { wildcard: e.target.value })}
+                    onKeyDown={(e) => handleKeyDown(e, rule.id)}
+                    placeholder="*://*.example.com/*"
+                    className="flex-1 h-5 px-1.5 text-xs bg-transparent border-none text-[#cbd5e1] placeholder:text-[#6f7a8a] focus:outline-none focus:bg-[#111318] focus:ring-1 focus:ring-[#3b82f6] rounded"
+                  />
+                  {rule.mode === 'exclude' && <span className="text-[10px] text-[#f87171] flex-shrink-0">exclude</span>}
+                  {rule.priority ? <span className="text-[10px] text-[#9aa4b2] flex-shrink-0">p{rule.priority}</span> : null}
+                  <button
+                    onClick={() => toggleExpanded(rule.id)}
+                    className={`p-0.5 hover:bg-[#3a4352] rounded transition-colors flex-shrink-0 ${rule.conditions || expanded.has(rule.id) ? 'text-[#3b82f6]' : 'text-gray-400 hover:text-white'}`}
+                    title="Action, priority and conditions"
+                    type="button"
+                    tabIndex={-1}
+                  >
+                    <FiSliders className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteRule(rule.id)}
+                    className="p-0.5 hover:bg-[#3a4352] rounded text-gray-400 hover:text-red-400 transition-colors flex-shrink-0"
+                    title="Delete Rule"
+                    type="button"
+                    tabIndex={-1}
+                  >
+                    <FiX className="w-3 h-3" />
+                  </button>
+                </div>
+                {expanded.has(rule.id) && <RuleConditionsEditor rule={rule} onChange={(patch) => handleRuleChange(rule.id, patch)} />}
               </div>
             ))}
           </div>
         )}
       </div>
+
+      <RuleReleaseBar />
     </div>
   )
 }
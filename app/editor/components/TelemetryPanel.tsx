@@ -0,0 +1,196 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FiActivity, FiRefreshCw } from 'react-icons/fi'
+
+import { fetchScriptTelemetrySummary } from '@/app/api/scripts/actions'
+import { useNotification } from '@/components/Notification'
+import { useTabBar } from '@/components/ScriptEditor/hooks/useTabBar'
+import { Spinner } from '@/components/Spinner'
+import type { FailingUrl, ScriptTelemetryScriptSummary, ScriptTelemetrySummary, TelemetrySinkKind } from '@/services/telemetry'
+import { formatAbsoluteTime24h, formatRelativeTime } from '@/shared/format-relative-time'
+import { shortTraceId } from '@/shared/trace-id'
+
+/** Error rate at or above which a script is shown in red (amber below, green without errors). */
+const HIGH_ERROR_RATE = 0.1
+
+function formatErrorRate(rate: number): string {
+  return `${(rate * 100).toFixed(rate > 0 && rate < 0.01 ? 1 : 0)}%`
+}
+
+function errorRateColor(summary: ScriptTelemetryScriptSummary): string {
+  if (summary.errors === 0) return 'text-[#86efac]'
+  return summary.errorRate >= HIGH_ERROR_RATE ? 'text-[#f87171]' : 'text-[#fbbf24]'
+}
+
+function FailingUrlList({ urls, showFiles }: { urls: FailingUrl[]; showFiles: boolean }) {
+  return (
+    <ul>
+      {urls.map((entry) => (
+        <li key={entry.url} className="flex items-center justify-between gap-2 py-0.5 text-xs">
+          <span className="min-w-0">
+            <span className="block truncate text-[#cbd5e1]" title={entry.url}>
+              {entry.url}
+            </span>
+            {showFiles && <span className="block truncate text-[#6f7a8a]">{entry.files.join(', ')}</span>}
+          </span>
+          <span className="shrink-0 font-mono text-[#f87171]">{entry.errors}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Fleet telemetry dashboard: per-script execution counts and error rates reported by opted-in clients,
+ * the URLs scripts fail on most, and the latest error (message, stack, TraceId) of the selected script.
+ */
+export function TelemetryPanel() {
+  const tabBar = useTabBar()
+  const notification = useNotification()
+  const notifyError = notification.error
+
+  const [summary, setSummary] = useState<({ sink: TelemetrySinkKind } & ScriptTelemetrySummary) | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedFile, setSelectedFile] = useState<string | null>(null)
+
+  const loadSummary = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setSummary(await fetchScriptTelemetrySummary())
+    } catch (error) {
+      notifyError(`Failed to load telemetry: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [notifyError])
+
+  useEffect(() => {
+    void loadSummary()
+  }, [loadSummary])
+
+  // Follow the active tab until a row is picked
+  const expandedFile = selectedFile ?? tabBar.activeTab
+
+  const header = (
+    <div className="h-[33px] px-3 text-xs font-semibold text-[#cbd5e1] uppercase border-b border-[#2a303a] bg-[#111318] sticky top-0 z-10 flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <FiActivity className="w-3.5 h-3.5 text-[#3b82f6]" />
+        <span>Telemetry</span>
+      </div>
+      <button
+        className="p-1 hover:bg-[#3a4352] rounded text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+        onClick={() => void loadSummary()}
+        disabled={isLoading}
+        title="Refresh telemetry"
+        type="button"
+      >
+        <FiRefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+      </button>
+    </div>
+  )
+
+  if (!summary) {
+    return (
+      <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+        {header}
+        <div className="flex-1 flex items-center justify-center">{isLoading && <Spinner />}</div>
+      </div>
+    )
+  }
+
+  if (summary.sink === 'none' || summary.scripts.length === 0) {
+    return (
+      <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+        {header}
+        <div className="flex-1 flex items-center justify-center text-[#6f7a8a] px-4">
+          <div className="text-center">
+            {summary.sink === 'none' ? (
+              <>
+                <p className="text-sm mb-1">Telemetry is off</p>
+                <p className="text-xs">Set SCRIPTS_TELEMETRY_SINK to memory or storage on the server</p>
+              </>
+            ) : (
+              <>
+                <p className="text-sm mb-1">No reports yet</p>
+                <p className="text-xs">Clients report once a user turns on Telemetry in the userscript menu</p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+      {header}
+
+      <div className="px-3 py-2 border-b border-[#2a303a] bg-[#171a21]">
+        <p className="text-xs text-[#6f7a8a] truncate" title={formatAbsoluteTime24h(summary.since)}>
+          Reports since {formatRelativeTime(summary.since)} ({summary.sink} sink)
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <ul className="border-b border-[#2a303a]">
+          {summary.scripts.map((script) => {
+            const isExpanded = script.file === expandedFile
+            return (
+              <li key={script.file} className="border-b border-[#1b1f27]">
+                <button
+                  type="button"
+                  onClick={() => setSelectedFile(isExpanded ? '' : script.file)}
+                  className={`w-full text-left px-3 py-1.5 text-xs transition-colors ${isExpanded ? 'bg-[#1f3b63]' : 'hover:bg-[#171a21]'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-[#e6eaf0]">{script.file}</span>
+                    <span className={`font-mono shrink-0 ${errorRateColor(script)}`}>{formatErrorRate(script.errorRate)}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-[#6f7a8a] mt-0.5">
+                    <span>
+                      {script.executions} runs · {script.errors} errors
+                    </span>
+                    {script.lastError && (
+                      <span className="shrink-0" title={formatAbsoluteTime24h(script.lastError.at)}>
+                        {formatRelativeTime(script.lastError.at)}
+                      </span>
+                    )}
+                  </div>
+                </button>
+
+                {isExpanded && script.lastError && (
+                  <div className="px-3 py-2 bg-[#0d0f13] space-y-2">
+                    <div>
+                      <div className="text-[10px] uppercase text-[#6f7a8a] mb-0.5">Top failing URLs</div>
+                      <FailingUrlList urls={script.topFailingUrls} showFiles={false} />
+                    </div>
+                    <div>
+                      <div className="text-[10px] uppercase text-[#6f7a8a] mb-0.5 flex items-center justify-between">
+                        <span>Latest error</span>
+                        <span className="font-mono normal-case" title={script.lastError.traceId}>
+                          {shortTraceId(script.lastError.traceId)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-[#f87171] break-words">{script.lastError.message ?? 'Unknown error'}</p>
+                      {script.lastError.stack && (
+                        <pre className="mt-1 max-h-40 overflow-auto text-[10px] leading-4 text-[#9aa4b2] whitespace-pre-wrap break-all">{script.lastError.stack}</pre>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+
+        {summary.topFailingUrls.length > 0 && (
+          <div className="px-3 py-2">
+            <div className="text-[10px] uppercase text-[#6f7a8a] mb-1">Top failing URLs (all scripts)</div>
+            <FailingUrlList urls={summary.topFailingUrls} showFiles={true} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import { FiCheck, FiFilePlus, FiPlay, FiX } from 'react-icons/fi'
+import { TbTestPipe } from 'react-icons/tb'
+
+import { runScriptTestFiles } from '@/app/api/scripts/actions'
+import { useNotification } from '@/components/Notification'
+import { useFileState } from '@/components/ScriptEditor/context/FileStateContext'
+import { useTabBar } from '@/components/ScriptEditor/hooks/useTabBar'
+import { FileStatus } from '@/components/ScriptEditor/types'
+import { Spinner } from '@/components/Spinner'
+import { isManagedScriptFilename, isScriptTestFilename } from '@/constants/file'
+import type { ScriptTestFileResult } from '@/services/scripts/scriptTests'
+import { createTraceId } from '@/shared/trace-id'
+
+/**
+ * Scaffold for a new test file of `script`.
+ * @param script Managed script filename
+ */
+function createTestTemplate(script: string): string {
+  return `// Tests for ${script}: load(url) runs the script in a fake page with recorded GM_* stubs (page.gm).
+
+test('runs on a matching page', async ({ load }) => {
+  const page = await load('https://example.com/', { html: '<main></main>' })
+  expect(page.gm.errors).toEqual([])
+})
+`
+}
+
+/**
+ * Script tests panel: runs `*.test.ts` files against their scripts in jsdom pages with recorded GM stubs,
+ * using the unsaved editor buffers, and scaffolds a test file for the active script.
+ */
+export function TestsPanel() {
+  const tabBar = useTabBar()
+  const fileState = useFileState()
+  const notification = useNotification()
+
+  const [results, setResults] = useState<Record<string, ScriptTestFileResult>>({})
+  const [running, setRunning] = useState<string | null>(null)
+
+  const files = Object.values(fileState.files).filter((file) => file.status !== FileStatus.Deleted)
+  const testFiles = files
+    .map((file) => file.path)
+    .filter(isScriptTestFilename)
+    .sort()
+  const activeFile = tabBar.activeTab
+  const newTestFile = activeFile && isManagedScriptFilename(activeFile) ? activeFile.replace(/\.(ts|js)$/, '.test.$1') : null
+
+  async function handleRun(target: string | null) {
+    if (running || testFiles.length === 0) return
+
+    setRunning(target ?? '*')
+    try {
+      const sources = Object.fromEntries(files.filter((file) => fileState.hasUnsavedChanges(file.path)).map((file) => [file.path, file.content.modifiedContent]))
+      const runResults = await runScriptTestFiles({ files: target ? [target] : testFiles, sources, traceId: createTraceId() })
+      setResults((current) => ({ ...(target ? current : {}), ...Object.fromEntries(runResults.map((result) => [result.file, result])) }))
+    } catch (error) {
+      notification.error(`Running tests failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  function handleNewTest() {
+    if (!activeFile || !newTestFile) return
+    if (!fileState.getFile(newTestFile) || fileState.getFile(newTestFile)?.status === FileStatus.Deleted) {
+      fileState.createFile(newTestFile, createTestTemplate(activeFile))
+    }
+    tabBar.openTab(newTestFile)
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+      <div className="h-[33px] px-3 text-xs font-semibold text-[#cbd5e1] uppercase border-b border-[#2a303a] bg-[#111318] sticky top-0 z-10 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <TbTestPipe className="w-3.5 h-3.5 text-[#3b82f6]" />
+          <span>Tests</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            className="flex items-center gap-1 px-2 py-0.5 rounded text-[#cbd5e1] normal-case font-normal hover:bg-[#1b1f27] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            onClick={handleNewTest}
+            disabled={!newTestFile}
+            title={newTestFile ? `Open or create ${newTestFile}` : 'Open a managed script to add tests'}
+            type="button"
+          >
+            <FiFilePlus className="w-3 h-3" />
+            <span>New test</span>
+          </button>
+          <button
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-[#1f3b63] text-[#e6eaf0] normal-case font-normal hover:bg-[#2563eb] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            onClick={() => void handleRun(null)}
+            disabled={Boolean(running) || testFiles.length === 0}
+            title={testFiles.length === 0 ? 'No test files' : 'Run all tests against the unsaved buffers'}
+            type="button"
+          >
+            {running === '*' ? (
+              <span className="w-3 h-3 flex items-center justify-center scale-[0.6]">
+                <Spinner />
+              </span>
+            ) : (
+              <FiPlay className="w-3 h-3" />
+            )}
+            <span>Run all</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {testFiles.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-[#6f7a8a] px-4">
+            <div className="text-center">
+              <p className="text-sm mb-1">No tests yet</p>
+              <p className="text-xs">Add `name.test.ts` next to a script, or use New test on the open script</p>
+            </div>
+          </div>
+        ) : (
+          <ul>
+            {testFiles.map((file) => {
+              const result = results[file]
+              return (
+                <li key={file} className="border-b border-[#2a303a]">
+                  <div className="px-3 py-1.5 flex items-center justify-between gap-2 bg-[#171a21]">
+                    <button type="button" onClick={() => tabBar.openTab(file)} className="truncate text-xs text-[#cbd5e1] hover:underline text-left">
+                      {file}
+                    </button>
+                    <div className="flex items-center gap-2 shrink-0 text-xs">
+                      {result && !result.error && (
+                        <span className={result.failed > 0 ? 'text-[#f87171]' : 'text-[#86efac]'}>
+                          {result.passed}/{result.tests.length} passed · {result.durationMs}ms
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => void handleRun(file)}
+                        disabled={Boolean(running)}
+                        className="p-1 rounded text-[#9aa4b2] hover:text-[#e6eaf0] hover:bg-[#1b1f27] disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label={`Run ${file}`}
+                      >
+                        {running === file ? (
+                          <span className="w-3 h-3 flex items-center justify-center scale-[0.6]">
+                            <Spinner />
+                          </span>
+                        ) : (
+                          <FiPlay className="w-3 h-3" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                  {result?.error && <p className="px-3 py-1.5 text-xs text-[#f87171] whitespace-pre-wrap break-words">{result.error}</p>}
+                  {result && result.tests.length > 0 && (
+                    <ul>
+                      {result.tests.map((test) => (
+                        <li key={test.name} className="px-3 py-1 text-xs border-t border-[#1b1f27]">
+                          <div className="flex items-center gap-2">
+                            {test.status === 'passed' ? <FiCheck className="w-3 h-3 shrink-0 text-[#86efac]" /> : <FiX className="w-3 h-3 shrink-0 text-[#f87171]" />}
+                            <span className="truncate text-[#cbd5e1]">{test.name}</span>
+                            <span className="ml-auto shrink-0 text-[#6f7a8a]">{test.durationMs}ms</span>
+                          </div>
+                          {test.error && <pre className="mt-1 ml-5 text-[11px] text-[#f87171] whitespace-pre-wrap break-words">{test.error}</pre>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {result && result.tests.length === 0 && !result.error && <p className="px-3 py-1.5 text-xs text-[#6f7a8a]">No tests declared</p>}
+                  {result && result.logs.length > 0 && (
+                    <pre className="px-3 py-1.5 text-[11px] text-[#9aa4b2] whitespace-pre-wrap break-words border-t border-[#1b1f27]">{result.logs.join('\n')}</pre>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { FiDownload, FiUpload } from 'react-icons/fi'
+import { MdImportExport } from 'react-icons/md'
+
+import { importScripts, previewScriptImportSource } from '@/app/api/scripts/actions'
+import { useNotification } from '@/components/Notification'
+import { useFileState } from '@/components/ScriptEditor/context/FileStateContext'
+import { FileStatus } from '@/components/ScriptEditor/types'
+import { Spinner } from '@/components/Spinner'
+import { isManagedScriptFilename } from '@/constants/file'
+import type { ScriptImportPreview } from '@/services/scripts/scriptTransfer'
+import type { RuleConfig } from '@/services/tampermonkey/types'
+import { createTraceId } from '@/shared/trace-id'
+
+export interface TransferPanelProps {
+  /** Import needs write access; viewers only see export */
+  canImport: boolean
+  onRulesChange: (rules: RuleConfig[]) => void
+}
+
+const inputClass = 'w-full h-7 px-2 rounded bg-[#171a21] border border-[#2a303a] text-[#e6eaf0] text-xs focus:outline-none focus:border-[#3b82f6]'
+const buttonClass =
+  'inline-flex items-center gap-1.5 px-2.5 py-1 rounded text-xs bg-[#2a303a] text-[#e6eaf0] hover:bg-[#3b82f6] hover:text-white disabled:opacity-50 disabled:hover:bg-[#2a303a] transition-colors'
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''))
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
+
+/**
+ * Import wizard (Tampermonkey / Violentmonkey zip exports, backup archives, `.user.js` files or URLs)
+ * and export of managed scripts as installable `.user.js` files or a backup archive.
+ */
+export function TransferPanel({ canImport, onRulesChange }: TransferPanelProps) {
+  const fileState = useFileState()
+  const notification = useNotification()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [url, setUrl] = useState('')
+  const [preview, setPreview] = useState<ScriptImportPreview | null>(null)
+  const [selected, setSelected] = useState<Record<string, boolean>>({})
+  const [filenames, setFilenames] = useState<Record<string, string>>({})
+  const [overwrite, setOverwrite] = useState(false)
+  const [replaceRules, setReplaceRules] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [exportSelection, setExportSelection] = useState<Record<string, boolean>>({})
+
+  const managedFiles = useMemo(
+    () =>
+      Object.values(fileState.files)
+        .filter((file) => file.status !== FileStatus.Deleted && isManagedScriptFilename(file.path))
+        .map((file) => file.path)
+        .sort(),
+    [fileState.files]
+  )
+  const exportFiles = managedFiles.filter((file) => exportSelection[file])
+
+  async function loadPreview(source: Parameters<typeof previewScriptImportSource>[0]) {
+    setIsLoading(true)
+    try {
+      const next = await previewScriptImportSource(source)
+      setPreview(next)
+      setSelected(Object.fromEntries(next.scripts.map((script) => [script.source, script.enabled && !script.exists])))
+      setFilenames(Object.fromEntries(next.scripts.map((script) => [script.source, script.filename])))
+      setReplaceRules(false)
+    } catch (error) {
+      notification.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    if (file.name.endsWith('.zip')) {
+      await loadPreview({ kind: 'archive', base64: await readFileAsBase64(file) })
+    } else {
+      await loadPreview({ kind: 'userscript', name: file.name, content: await file.text() })
+    }
+  }
+
+  async function handleImport() {
+    if (!preview) return
+    const scripts = preview.scripts
+      .filter((script) => selected[script.source])
+      .map((script) => ({ filename: filenames[script.source]?.trim() || script.filename, content: script.content, aliases: script.aliases, keywords: script.keywords }))
+    const rules = replaceRules ? preview.rules : null
+
+    setIsLoading(true)
+    try {
+      const imported = await importScripts(scripts, { overwrite, rules, traceId: createTraceId() })
+      for (const script of scripts) {
+        if (fileState.getFile(script.filename)) {
+          fileState.updateFile(script.filename, script.content)
+        } else {
+          fileState.createFile(script.filename, script.content)
+        }
+        fileState.markFileAsUnchanged(script.filename)
+      }
+      if (rules) {
+        onRulesChange(rules)
+      }
+      setPreview(null)
+      notification.success(`Imported ${imported.length} script${imported.length === 1 ? '' : 's'} to the alpha track`)
+    } catch (error) {
+      notification.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function download(format: 'userscript' | 'backup') {
+    const params = new URLSearchParams({ format })
+    exportFiles.forEach((file) => params.append('files', file))
+    const link = document.createElement('a')
+    link.href = `/api/scripts/export?${params}`
+    link.rel = 'noopener'
+    link.click()
+  }
+
+  const selectedCount = preview ? preview.scripts.filter((script) => selected[script.source]).length : 0
+
+  return (
+    <div className="h-full flex flex-col bg-[#111318] border-l border-[#2a303a] overflow-hidden">
+      <div className="h-[33px] px-3 text-xs font-semibold text-[#cbd5e1] uppercase border-b border-[#2a303a] bg-[#111318] sticky top-0 z-10 flex items-center gap-2">
+        <MdImportExport className="w-3.5 h-3.5 text-[#3b82f6]" />
+        <span>Import / export</span>
+        {isLoading && <Spinner />}
+      </div>
+
+      <div className="flex-1 overflow-y-auto text-xs text-[#cbd5e1]">
+        {canImport && (
+          <section className="px-3 py-3 border-b border-[#2a303a] space-y-2">
+            <h3 className="text-[11px] font-semibold uppercase text-[#8fb9ff]">Import</h3>
+            <p className="text-[#6f7a8a]">Tampermonkey / Violentmonkey zip exports, backup archives or single .user.js files. Imported scripts start on the alpha track.</p>
+            <input ref={fileInputRef} type="file" accept=".zip,.js" className="hidden" onChange={(event) => void handleFileChange(event)} />
+            <button type="button" className={buttonClass} disabled={isLoading} onClick={() => fileInputRef.current?.click()}>
+              <FiUpload className="w-3.5 h-3.5" />
+              Choose file
+            </button>
+            <form
+              className="flex items-center gap-1.5"
+              onSubmit={(event) => {
+                event.preventDefault()
+                if (url.trim()) void loadPreview({ kind: 'url', url: url.trim() })
+              }}
+            >
+              <input className={inputClass} value={url} onChange={(event) => setUrl(event.target.value)} placeholder="https://…/script.user.js" />
+              <button type="submit" className={buttonClass} disabled={isLoading || !url.trim()}>
+                Fetch
+              </button>
+            </form>
+
+            {preview && (
+              <div className="space-y-2 pt-1">
+                <ul className="space-y-1.5">
+                  {preview.scripts.map((script) => (
+                    <li key={script.source} className="rounded border border-[#2a303a] bg-[#171a21] px-2 py-1.5">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(selected[script.source])}
+                          onChange={(event) => setSelected((current) => ({ ...current, [script.source]: event.target.checked }))}
+                        />
+                        <span className="min-w-0 flex-1 truncate text-[#e6eaf0]" title={script.source}>
+                          {script.name}
+                        </span>
+                        <span className="shrink-0 font-mono text-[#6f7a8a]">v{script.version}</span>
+                      </label>
+                      <input
+                        className={`${inputClass} mt-1 font-mono`}
+                        value={filenames[script.source] ?? script.filename}
+                        onChange={(event) => setFilenames((current) => ({ ...current, [script.source]: event.target.value }))}
+                        aria-label={`Filename for ${script.name}`}
+                      />
+                      {!script.enabled && <div className="mt-1 text-[#6f7a8a]">Disabled in the source script manager</div>}
+                      {script.exists && <div className="mt-1 text-[#fbbf24]">{script.filename} already exists</div>}
+                      {script.warnings.map((warning) => (
+                        <div key={warning} className="mt-1 text-[#fbbf24]">
+                          {warning}
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+                {preview.skipped.map((entry) => (
+                  <div key={entry.source} className="text-[#f87171]">
+                    Skipped {entry.source}: {entry.reason}
+                  </div>
+                ))}
+                {preview.rules && (
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={replaceRules} onChange={(event) => setReplaceRules(event.target.checked)} />
+                    Replace URL rules with the {preview.rules.length} in the backup
+                  </label>
+                )}
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={overwrite} onChange={(event) => setOverwrite(event.target.checked)} />
+                  Overwrite existing scripts
+                </label>
+                <div className="flex items-center gap-1.5">
+                  <button type="button" className={buttonClass} disabled={isLoading || selectedCount === 0} onClick={() => void handleImport()}>
+                    Import {selectedCount} script{selectedCount === 1 ? '' : 's'}
+                  </button>
+                  <button type="button" className={buttonClass} disabled={isLoading} onClick={() => setPreview(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+        )}
+
+        <section className="px-3 py-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-[11px] font-semibold uppercase text-[#8fb9ff]">Export</h3>
+            <button
+              type="button"
+              className="text-[#9aa4b2] hover:text-white"
+              onClick={() => setExportSelection(exportFiles.length === managedFiles.length ? {} : Object.fromEntries(managedFiles.map((file) => [file, true])))}
+            >
+              {exportFiles.length === managedFiles.length && managedFiles.length > 0 ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <p className="text-[#6f7a8a]">Saved content is exported. Standalone .user.js files inline imported scripts; GME_* helpers only exist under the launcher.</p>
+          <ul className="space-y-0.5">
+            {managedFiles.map((file) => (
+              <li key={file}>
+                <label className="flex items-center gap-2 cursor-pointer font-mono">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(exportSelection[file])}
+                    onChange={(event) => setExportSelection((current) => ({ ...current, [file]: event.target.checked }))}
+                  />
+                  <span className="truncate">{file}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-1.5">
+            <button type="button" className={buttonClass} disabled={exportFiles.length === 0} onClick={() => download('userscript')}>
+              <FiDownload className="w-3.5 h-3.5" />
+              .user.js
+            </button>
+            <button type="button" className={buttonClass} disabled={exportFiles.length === 0} onClick={() => download('backup')}>
+              <FiDownload className="w-3.5 h-3.5" />
+              Backup archive
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,7 @@
-import { cookies } from 'next/headers'
-
 import { getRules } from '@/app/actions/tampermonkey'
 import { fetchFiles } from '@/app/api/scripts/actions'
-import { checkAccess } from '@/services/auth/access'
-import { AUTH_TOKEN_NAME } from '@/services/auth/constants'
+import { requireSessionUser } from '@/services/auth/access'
 import { getTampermonkeyScriptKey } from '@/services/tampermonkey/createBanner'
-import { verifyToken } from '@/utils/jwt'
 
 import Editor from './Editor'
 import { loadTampermonkeyTypings } from './typings'
@@ -42,7 +38,7 @@ async function loadRulesWithFallback() {
 }
 
 export default async function Home() {
-  await checkAccess({ isApiRouter: false, redirectUrl: '/editor' })
+  const user = await requireSessionUser({ redirectUrl: '/editor' })
 
   try {
     const scriptKey = getTampermonkeyScriptKey()
@@ -50,20 +46,9 @@ export default async function Home() {
     const tampermonkeyTypings = loadTampermonkeyTypings()
     const rules = await loadRulesWithFallback()
 
-    const cookieStore = await cookies()
-    const token = cookieStore.get(AUTH_TOKEN_NAME)?.value
-    const payload = token ? await verifyToken(token) : null
-    const p = payload as Record<string, unknown> | undefined
-    /** Prefer readable profile claims; `sub` is an opaque id from Vercel 2FA. */
-    const displayUsername =
-      (p && typeof p.preferred_username === 'string' && p.preferred_username.trim()) ||
-      (p && typeof p.username === 'string' && p.username.trim()) ||
-      (p && typeof p.email === 'string' && p.email.trim()) ||
-      (p && typeof p.sub === 'string' && p.sub.trim()) ||
-      process.env.ACCESS_USERNAME ||
-      'Admin'
-
-    return <Editor displayUsername={displayUsername} files={files} scriptKey={scriptKey} updatedAt={updatedAt} tampermonkeyTypings={tampermonkeyTypings} rules={rules} />
+    return (
+      <Editor displayUsername={user.username} role={user.role} files={files} scriptKey={scriptKey} updatedAt={updatedAt} tampermonkeyTypings={tampermonkeyTypings} rules={rules} />
+    )
   } catch (err) {
     // eslint-disable-next-line no-console -- editor page errors must be visible in terminal
     console.error('[editor] page failed:', err)
@@ -124,7 +124,9 @@ function LoginForm(props: LoginFormProps) {
           ? 'Signet login state check failed. Try signing in again.'
           : err === 'verify_failed'
             ? 'Could not verify login with the auth center. Check auth center origin env (see getSignetAuthCenterOrigin) and auth center logs.'
-            : `Signet login error: ${err}`
+            : err === 'not_linked'
+              ? 'This Signet account is not linked to a user. Ask an admin to add its identity under Settings → Users.'
+              : `Signet login error: ${err}`
     alertRef.current?.show(message, { type: 'error' })
     params.delete('vf2fa_error')
     const qs = params.toString()
@@ -0,0 +1,227 @@
+'use client'
+
+import { useRequest } from 'ahooks'
+import { useRef, useState } from 'react'
+import { FiCopy, FiKey, FiTrash2 } from 'react-icons/fi'
+
+import type { AlertImperativeHandler } from '@/components/Alert'
+import Alert from '@/components/Alert'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { Spinner } from '@/components/Spinner'
+import type { ApiKey } from '@/services/auth/apiKeys'
+import { API_KEY_SCOPE_LABELS, API_KEY_SCOPES, type ApiKeyScope } from '@/services/auth/apiKeyScopes'
+import { formatAbsoluteTime24h, formatRelativeTime } from '@/shared/format-relative-time'
+
+import { createScopedApiKey, fetchApiKeys, revokeScopedApiKey } from './actions'
+
+export interface ApiKeysSettingsProps {
+  initialApiKeys: ApiKey[]
+}
+
+const inputClass =
+  'mt-1 w-full px-3 py-2 bg-[#171a21] border border-[#2a303a] rounded text-sm text-[#e6eaf0] placeholder:text-[#6f7a8a] focus:ring-2 focus:ring-[#3b82f6]/30 focus:border-[#3b82f6] focus:outline-none transition-colors'
+
+function parseFileGlobs(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+}
+
+function formatExpiry(expiresAt: number | null): string {
+  if (expiresAt === null) return 'Never expires'
+  return expiresAt <= Date.now() ? 'Expired' : `Expires ${formatAbsoluteTime24h(expiresAt)}`
+}
+
+/**
+ * API key management: issue keys with scopes, file globs and expiry (the key is shown once),
+ * list keys with last use, and revoke them.
+ */
+export function ApiKeysSettings({ initialApiKeys }: ApiKeysSettingsProps) {
+  const alertRef = useRef<AlertImperativeHandler>(null)
+  const [apiKeys, setApiKeys] = useState(initialApiKeys)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['scripts:read'])
+  const [fileGlobs, setFileGlobs] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState('90')
+  const [issuedKey, setIssuedKey] = useState<{ name: string; key: string } | null>(null)
+  const [pendingRevoke, setPendingRevoke] = useState<ApiKey | null>(null)
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((item) => item !== scope) : [...current, scope]))
+  }
+
+  const { run: create, loading: creating } = useRequest(
+    async () => {
+      const days = expiresInDays.trim() ? Number(expiresInDays) : null
+      if (days !== null && (!Number.isInteger(days) || days <= 0)) {
+        throw new Error('Expiry must be a whole number of days, or empty for no expiry')
+      }
+      const { apiKey, key } = await createScopedApiKey({ name, scopes, files: parseFileGlobs(fileGlobs), expiresInDays: days })
+      return { apiKey, key }
+    },
+    {
+      manual: true,
+      onSuccess: ({ apiKey, key }) => {
+        setApiKeys((current) => [apiKey, ...current])
+        setIssuedKey({ name: apiKey.name, key })
+        setName('')
+        setFileGlobs('')
+      },
+      onError: (error: Error) => {
+        alertRef.current?.show(error.message, { type: 'error' })
+      },
+    }
+  )
+
+  const { run: revoke, loading: revoking } = useRequest(
+    async (id: string) => {
+      await revokeScopedApiKey(id)
+      return fetchApiKeys()
+    },
+    {
+      manual: true,
+      onSuccess: (keys) => setApiKeys(keys),
+      onError: (error: Error) => {
+        alertRef.current?.show(error.message, { type: 'error' })
+      },
+    }
+  )
+
+  const copyIssuedKey = async () => {
+    if (!issuedKey) return
+    try {
+      await navigator.clipboard.writeText(issuedKey.key)
+      alertRef.current?.show('API key copied', { type: 'success' })
+    } catch {
+      alertRef.current?.show('Copy failed; select the key and copy it manually', { type: 'error' })
+    }
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    create()
+  }
+
+  return (
+    <>
+      <Alert ref={alertRef} />
+
+      <section className="rounded border border-[#2a303a] bg-[#171a21]">
+        <div className="px-4 py-3 border-b border-[#2a303a] flex items-center gap-2">
+          <FiKey className="w-4 h-4 text-[#3b82f6]" />
+          <h2 className="text-sm font-semibold">API keys</h2>
+        </div>
+        <p className="px-4 pt-3 text-xs text-[#9aa4b2]">
+          Keys authenticate REST v1, MCP and <code>/api/scripts</code> through the <code>x-api-key</code> header. Each key can only perform the operations its scopes allow.
+        </p>
+
+        <form className="px-4 py-3 space-y-3" onSubmit={handleSubmit}>
+          <label className="block text-xs text-[#9aa4b2]">
+            Name
+            <input className={inputClass} value={name} onChange={(event) => setName(event.target.value)} placeholder="e.g. CI deploy" />
+          </label>
+
+          <fieldset className="space-y-1">
+            <legend className="text-xs text-[#9aa4b2] mb-1">Scopes</legend>
+            {API_KEY_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input type="checkbox" className="mt-1" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                <span>
+                  <code className="text-[#e6eaf0]">{scope}</code>
+                  <span className="block text-xs text-[#6f7a8a]">{API_KEY_SCOPE_LABELS[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="block text-xs text-[#9aa4b2]">
+            Files (optional)
+            <input className={inputClass} value={fileGlobs} onChange={(event) => setFileGlobs(event.target.value)} placeholder="e.g. shop-*.ts, tools.ts" />
+            <span className="block mt-1 text-[#6f7a8a]">Globs limiting scripts:write and ota:publish; empty allows every file.</span>
+          </label>
+
+          <label className="block text-xs text-[#9aa4b2]">
+            Expires in days (optional)
+            <input className={inputClass} inputMode="numeric" value={expiresInDays} onChange={(event) => setExpiresInDays(event.target.value)} placeholder="Never" />
+          </label>
+
+          <button
+            type="submit"
+            disabled={creating || !name.trim() || scopes.length === 0}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm bg-[#3b82f6] text-white hover:bg-[#2563eb] disabled:opacity-50 transition-colors"
+          >
+            {creating && <Spinner />}
+            Create key
+          </button>
+        </form>
+
+        {issuedKey && (
+          <div className="mx-4 mb-3 rounded border border-[#854d0e] bg-[#1c1917] px-3 py-2">
+            <p className="text-xs text-[#fbbf24] mb-1">Copy the key for {issuedKey.name} now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 truncate text-xs select-all" title={issuedKey.key}>
+                {issuedKey.key}
+              </code>
+              <button type="button" onClick={() => void copyIssuedKey()} className="p-1 rounded text-[#9aa4b2] hover:text-white hover:bg-[#2a303a]" title="Copy key">
+                <FiCopy className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <ul className="border-t border-[#2a303a]">
+          {apiKeys.length === 0 && <li className="px-4 py-3 text-xs text-[#6f7a8a]">No API keys yet</li>}
+          {apiKeys.map((apiKey) => (
+            <li key={apiKey.id} className="px-4 py-2 border-b border-[#1b1f27] last:border-b-0 flex items-start justify-between gap-3">
+              <div className="min-w-0 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-[#e6eaf0] truncate">{apiKey.name}</span>
+                  <code className="text-[#6f7a8a]">mmk_{apiKey.id}_…</code>
+                </div>
+                <div className="text-[#9aa4b2] mt-0.5">
+                  {apiKey.scopes.join(', ')}
+                  {apiKey.files.length > 0 && <> · {apiKey.files.join(', ')}</>}
+                </div>
+                <div className="text-[#6f7a8a] mt-0.5">
+                  <span title={formatAbsoluteTime24h(apiKey.createdAt)}>
+                    Created {formatRelativeTime(apiKey.createdAt)} by {apiKey.createdBy}
+                  </span>
+                  {' · '}
+                  {apiKey.lastUsedAt === null ? 'Never used' : <span title={formatAbsoluteTime24h(apiKey.lastUsedAt)}>Last used {formatRelativeTime(apiKey.lastUsedAt)}</span>}
+                  {' · '}
+                  {formatExpiry(apiKey.expiresAt)}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => setPendingRevoke(apiKey)}
+                disabled={revoking}
+                className="shrink-0 p-1.5 rounded text-[#9aa4b2] hover:text-[#f87171] hover:bg-[#2a303a] disabled:opacity-50 transition-colors"
+                title="Revoke key"
+              >
+                <FiTrash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <ConfirmDialog
+        open={pendingRevoke !== null}
+        title="Revoke API key"
+        message={`Revoke "${pendingRevoke?.name}"? Integrations using it are rejected immediately.`}
+        buttons={[
+          { label: 'Revoke', value: 'revoke', variant: 'primary' },
+          { label: 'Cancel', value: 'cancel' },
+        ]}
+        onClose={(value) => {
+          if (value === 'revoke' && pendingRevoke) {
+            revoke(pendingRevoke.id)
+          }
+          setPendingRevoke(null)
+        }}
+      />
+    </>
+  )
+}
@@ -0,0 +1,16 @@
+import Link from 'next/link'
+import { FiArrowLeft } from 'react-icons/fi'
+
+/**
+ * Settings page title with a link back to the editor.
+ */
+export function SettingsHeader() {
+  return (
+    <div className="flex items-center gap-3">
+      <Link href="/editor" className="p-1.5 rounded text-[#9aa4b2] hover:text-white hover:bg-[#2a303a] transition-colors" title="Back to editor">
+        <FiArrowLeft className="w-4 h-4" />
+      </Link>
+      <h1 className="text-lg font-semibold">Settings</h1>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useRequest } from 'ahooks'
+import { useRef, useState } from 'react'
+import { FiLock, FiTrash2, FiUsers } from 'react-icons/fi'
+
+import type { AlertImperativeHandler } from '@/components/Alert'
+import Alert from '@/components/Alert'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { Spinner } from '@/components/Spinner'
+import { USER_ROLE_LABELS, USER_ROLES, type UserRole } from '@/services/auth/userRoles'
+import type { User } from '@/services/auth/users'
+import { formatAbsoluteTime24h, formatRelativeTime } from '@/shared/format-relative-time'
+
+import { createAccount, deleteAccount, fetchUsers, updateAccount } from './actions'
+
+export interface UsersSettingsProps {
+  initialUsers: User[]
+  /** Signed-in admin; cannot change their own role or delete themselves */
+  currentUsername: string
+}
+
+const inputClass =
+  'mt-1 w-full px-3 py-2 bg-[#171a21] border border-[#2a303a] rounded text-sm text-[#e6eaf0] placeholder:text-[#6f7a8a] focus:ring-2 focus:ring-[#3b82f6]/30 focus:border-[#3b82f6] focus:outline-none transition-colors'
+
+const selectClass = 'px-2 py-1 bg-[#171a21] border border-[#2a303a] rounded text-xs text-[#e6eaf0] focus:border-[#3b82f6] focus:outline-none'
+
+function parseIdentities(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((identity) => identity.trim())
+    .filter(Boolean)
+}
+
+/**
+ * User management: create accounts with a role, password, 2FA secret and linked OAuth / Signet identities,
+ * change roles, reset passwords and delete accounts.
+ */
+export function UsersSettings({ initialUsers, currentUsername }: UsersSettingsProps) {
+  const alertRef = useRef<AlertImperativeHandler>(null)
+  const [users, setUsers] = useState(initialUsers)
+  const [username, setUsername] = useState('')
+  const [role, setRole] = useState<UserRole>('editor')
+  const [password, setPassword] = useState('')
+  const [totpSecret, setTotpSecret] = useState('')
+  const [identities, setIdentities] = useState('')
+  const [pendingDelete, setPendingDelete] = useState<User | null>(null)
+
+  const showError = (error: Error) => {
+    alertRef.current?.show(error.message, { type: 'error' })
+  }
+
+  const { run: create, loading: creating } = useRequest(() => createAccount({ username, role, password, totpSecret, identities: parseIdentities(identities) }), {
+    manual: true,
+    onSuccess: (user) => {
+      setUsers((current) => [...current, user])
+      setUsername('')
+      setPassword('')
+      setTotpSecret('')
+      setIdentities('')
+    },
+    onError: showError,
+  })
+
+  const { run: update, loading: updating } = useRequest(
+    async (target: string, input: Parameters<typeof updateAccount>[1]) => {
+      await updateAccount(target, input)
+      return fetchUsers()
+    },
+    {
+      manual: true,
+      onSuccess: (next) => {
+        setUsers(next)
+        alertRef.current?.show('User updated', { type: 'success' })
+      },
+      onError: showError,
+    }
+  )
+
+  const { run: remove, loading: removing } = useRequest(
+    async (target: string) => {
+      await deleteAccount(target)
+      return fetchUsers()
+    },
+    {
+      manual: true,
+      onSuccess: (next) => setUsers(next),
+      onError: showError,
+    }
+  )
+
+  const resetPassword = (user: User) => {
+    const next = window.prompt(`New password for ${user.username} (empty removes password login)`)
+    if (next !== null) {
+      update(user.username, { password: next })
+    }
+  }
+
+  const editIdentities = (user: User) => {
+    const next = window.prompt(`Linked identities for ${user.username} (comma separated)`, user.identities.join(', '))
+    if (next !== null) {
+      update(user.username, { identities: parseIdentities(next) })
+    }
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    create()
+  }
+
+  const busy = updating || removing
+
+  return (
+    <>
+      <Alert ref={alertRef} />
+
+      <section className="rounded border border-[#2a303a] bg-[#171a21]">
+        <div className="px-4 py-3 border-b border-[#2a303a] flex items-center gap-2">
+          <FiUsers className="w-4 h-4 text-[#3b82f6]" />
+          <h2 className="text-sm font-semibold">Users</h2>
+        </div>
+        <p className="px-4 pt-3 text-xs text-[#9aa4b2]">
+          The <code>ACCESS_USERNAME</code> account is always an admin. Users sign in with a password or through a linked identity (<code>oauth:&lt;username&gt;</code>,{' '}
+          <code>signet:&lt;subject&gt;</code>).
+        </p>
+
+        <form className="px-4 py-3 space-y-3" onSubmit={handleSubmit}>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-[#9aa4b2]">
+              Username
+              <input className={inputClass} value={username} onChange={(event) => setUsername(event.target.value)} placeholder="e.g. alice" autoComplete="off" />
+            </label>
+            <label className="block text-xs text-[#9aa4b2]">
+              Password (optional)
+              <input className={inputClass} type="password" value={password} onChange={(event) => setPassword(event.target.value)} autoComplete="new-password" />
+            </label>
+          </div>
+
+          <fieldset className="space-y-1">
+            <legend className="text-xs text-[#9aa4b2] mb-1">Role</legend>
+            {USER_ROLES.map((value) => (
+              <label key={value} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input type="radio" name="role" className="mt-1" checked={role === value} onChange={() => setRole(value)} />
+                <span>
+                  <span className="text-[#e6eaf0]">{value}</span>
+                  <span className="block text-xs text-[#6f7a8a]">{USER_ROLE_LABELS[value]}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="block text-xs text-[#9aa4b2]">
+            2FA secret (optional)
+            <input className={inputClass} value={totpSecret} onChange={(event) => setTotpSecret(event.target.value)} placeholder="Base32 TOTP secret" autoComplete="off" />
+          </label>
+
+          <label className="block text-xs text-[#9aa4b2]">
+            Linked identities (optional)
+            <input className={inputClass} value={identities} onChange={(event) => setIdentities(event.target.value)} placeholder="e.g. oauth:alice, signet:u_123" />
+          </label>
+
+          <button
+            type="submit"
+            disabled={creating || !username.trim() || (!password && parseIdentities(identities).length === 0)}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm bg-[#3b82f6] text-white hover:bg-[#2563eb] disabled:opacity-50 transition-colors"
+          >
+            {creating && <Spinner />}
+            Create user
+          </button>
+        </form>
+
+        <ul className="border-t border-[#2a303a]">
+          {users.length === 0 && <li className="px-4 py-3 text-xs text-[#6f7a8a]">No users yet; only the bootstrap admin can sign in</li>}
+          {users.map((user) => {
+            const isSelf = user.username === currentUsername
+            return (
+              <li key={user.username} className="px-4 py-2 border-b border-[#1b1f27] last:border-b-0 flex items-start justify-between gap-3">
+                <div className="min-w-0 text-xs">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-[#e6eaf0] truncate">{user.username}</span>
+                    {isSelf && <span className="text-[#6f7a8a]">(you)</span>}
+                  </div>
+                  <div className="text-[#9aa4b2] mt-0.5">
+                    {user.hasPassword ? 'Password' : 'No password'}
+                    {user.has2FA && ' · 2FA'}
+                    {' · '}
+                    <button type="button" onClick={() => editIdentities(user)} disabled={busy} className="hover:text-white underline-offset-2 hover:underline">
+                      {user.identities.length > 0 ? user.identities.join(', ') : 'No linked identities'}
+                    </button>
+                  </div>
+                  <div className="text-[#6f7a8a] mt-0.5">
+                    <span title={formatAbsoluteTime24h(user.createdAt)}>
+                      Created {formatRelativeTime(user.createdAt)} by {user.createdBy}
+                    </span>
+                  </div>
+                </div>
+                <div className="shrink-0 flex items-center gap-1">
+                  <select
+                    className={selectClass}
+                    value={user.role}
+                    disabled={busy || isSelf}
+                    onChange={(event) => update(user.username, { role: event.target.value as UserRole })}
+                    title={isSelf ? 'You cannot change your own role' : 'Role'}
+                  >
+                    {USER_ROLES.map((value) => (
+                      <option key={value} value={value}>
+                        {value}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => resetPassword(user)}
+                    disabled={busy}
+                    className="p-1.5 rounded text-[#9aa4b2] hover:text-white hover:bg-[#2a303a] disabled:opacity-50 transition-colors"
+                    title="Reset password"
+                  >
+                    <FiLock className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPendingDelete(user)}
+                    disabled={busy || isSelf}
+                    className="p-1.5 rounded text-[#9aa4b2] hover:text-[#f87171] hover:bg-[#2a303a] disabled:opacity-50 transition-colors"
+                    title={isSelf ? 'You cannot delete your own account' : 'Delete user'}
+                  >
+                    <FiTrash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      </section>
+
+      <ConfirmDialog
+        open={pendingDelete !== null}
+        title="Delete user"
+        message={`Delete "${pendingDelete?.username}"? Their sessions stop working immediately.`}
+        buttons={[
+          { label: 'Delete', value: 'delete', variant: 'primary' },
+          { label: 'Cancel', value: 'cancel' },
+        ]}
+        onClose={(value) => {
+          if (value === 'delete' && pendingDelete) {
+            remove(pendingDelete.username)
+          }
+          setPendingDelete(null)
+        }}
+      />
+    </>
+  )
+}
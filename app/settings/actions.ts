@@ -0,0 +1,88 @@
+'use server'
+
+import { withAuthAction } from '@/initializer/wrapper'
+import { getSessionUser } from '@/services/auth/access'
+import { createApiKey, listApiKeys, revokeApiKey } from '@/services/auth/apiKeys'
+import type { ApiKeyScope } from '@/services/auth/apiKeyScopes'
+import type { UserRole } from '@/services/auth/userRoles'
+import { createUser, deleteUser, listUsers, updateUser, type UpdateUserInput } from '@/services/auth/users'
+import { getActor } from '@/services/context'
+
+async function assertAdmin(): Promise<void> {
+  if ((await getSessionUser())?.role !== 'admin') {
+    throw new Error('Only admins can manage users and API keys')
+  }
+}
+
+function assertNotSelf(username: string): void {
+  if (username === getActor()) {
+    throw new Error('You cannot change your own role or delete your own account')
+  }
+}
+
+/**
+ * List issued API keys (metadata only) for the settings page.
+ */
+export const fetchApiKeys = withAuthAction(async () => {
+  await assertAdmin()
+  return listApiKeys()
+})
+
+/**
+ * Issue a scoped API key. The key is returned once and cannot be read again.
+ * @param input Name, scopes, file globs and optional expiry in days
+ */
+export const createScopedApiKey = withAuthAction(async (input: { name: string; scopes: ApiKeyScope[]; files: string[]; expiresInDays: number | null }) => {
+  await assertAdmin()
+  const expiresAt = input.expiresInDays == null ? null : Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000
+  return createApiKey({ name: input.name, scopes: input.scopes, files: input.files, expiresAt, createdBy: getActor() ?? 'unknown' })
+})
+
+/**
+ * Revoke an API key; integrations using it are rejected from now on.
+ * @param id Key id
+ */
+export const revokeScopedApiKey = withAuthAction(async (id: string) => {
+  await assertAdmin()
+  await revokeApiKey(id)
+})
+
+/**
+ * List user accounts for the settings page.
+ */
+export const fetchUsers = withAuthAction(async () => {
+  await assertAdmin()
+  return listUsers()
+})
+
+/**
+ * Create a user account.
+ * @param input Username, role, optional password / 2FA secret and linked identities
+ */
+export const createAccount = withAuthAction(async (input: { username: string; role: UserRole; password: string; totpSecret: string; identities: string[] }) => {
+  await assertAdmin()
+  return createUser({ ...input, createdBy: getActor() ?? 'unknown' })
+})
+
+/**
+ * Change a user's role, password, 2FA secret or linked identities.
+ * @param username Account to change
+ * @param input Fields to change
+ */
+export const updateAccount = withAuthAction(async (username: string, input: UpdateUserInput) => {
+  await assertAdmin()
+  if (input.role !== undefined) {
+    assertNotSelf(username)
+  }
+  return updateUser(username, input)
+})
+
+/**
+ * Delete a user account; its sessions stop working on their next request.
+ * @param username Account to delete
+ */
+export const deleteAccount = withAuthAction(async (username: string) => {
+  await assertAdmin()
+  assertNotSelf(username)
+  await deleteUser(username)
+})
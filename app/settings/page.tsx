@@ -0,0 +1,31 @@
+import { redirect } from 'next/navigation'
+
+import { requireSessionUser } from '@/services/auth/access'
+import { listApiKeys } from '@/services/auth/apiKeys'
+import { listUsers } from '@/services/auth/users'
+
+import { ApiKeysSettings } from './ApiKeysSettings'
+import { SettingsHeader } from './SettingsHeader'
+import { UsersSettings } from './UsersSettings'
+
+/** Auth reads cookies; cannot be statically generated at build time. */
+export const dynamic = 'force-dynamic'
+
+export default async function SettingsPage() {
+  const user = await requireSessionUser({ redirectUrl: '/settings' })
+  if (user.role !== 'admin') {
+    redirect('/editor')
+  }
+
+  const [apiKeys, users] = await Promise.all([listApiKeys(), listUsers()])
+
+  return (
+    <div className="min-h-screen bg-[#111318] px-4 py-8 text-[#e6eaf0]">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <SettingsHeader />
+        <UsersSettings initialUsers={users} currentUsername={user.username} />
+        <ApiKeysSettings initialApiKeys={apiKeys} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+import { serveScriptAsset } from '@/services/runtime/serveScriptAsset'
+
+interface Params {
+  key: string
+  hash: string
+  file: string
+}
+
+/**
+ * GET /static/[key]/[hash]/assets/[file]
+ */
+export async function GET(req: Request, context: { params: Promise<Params> }) {
+  const params = await context.params
+  return serveScriptAsset(req, { key: params.key, hash: params.hash })
+}
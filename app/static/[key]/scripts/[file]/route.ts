@@ -6,9 +6,10 @@ interface Params {
 }
 
 /**
- * GET /static/[key]/scripts/[file]
+ * GET /static/[key]/scripts/[file] — `?rollout=baseline` serves the baseline release of an active rollout
  */
 export async function GET(req: Request, context: { params: Promise<Params> }) {
   const params = await context.params
-  return serveRemoteScriptModule(req, { key: params.key, file: params.file, track: 'stable' })
+  const rolloutBaseline = new URL(req.url).searchParams.get('rollout') === 'baseline'
+  return serveRemoteScriptModule(req, { key: params.key, file: params.file, track: 'stable', rolloutBaseline })
 }
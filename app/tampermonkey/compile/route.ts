@@ -2,12 +2,16 @@ import { NextResponse } from 'next/server'
 
 import { EXCLUDED_FILES } from '@/constants/file'
 import { plainText } from '@/initializer/controller'
-import { fetchGist, getGistInfo } from '@/services/gist'
+import { createScriptAssetResolver, parseScriptAssetRefs } from '@/services/scripts/scriptAssets'
+import { collectScriptModuleSources, listScriptModuleImports } from '@/services/scripts/scriptModules'
+import { getScriptStorage } from '@/services/storage'
 import { getRemoteScriptContent } from '@/services/tampermonkey/createUserScript.server'
 
 /**
  * POST /tampermonkey/compile
  * Compiles script files only (same pipeline as tampermonkey-remote.js). No preset, no userscript banner.
+ * `@require` / `@resource` resolve against assets pinned in storage (pinned when a script is saved);
+ * imports resolve against the posted files first, then the saved managed scripts.
  */
 export const POST = plainText(async (req) => {
   const body = (await req.json()) as { files?: Record<string, string> }
@@ -17,7 +21,11 @@ export const POST = plainText(async (req) => {
   }
 
   try {
-    const content = await getRemoteScriptContent(files)
+    const needsStorage = Object.values(files).some((source) => parseScriptAssetRefs(source).length > 0 || listScriptModuleImports(source).length > 0)
+    const storedFiles = needsStorage ? (await getScriptStorage().fetchSnapshot()).files : undefined
+    const assets = storedFiles ? createScriptAssetResolver(storedFiles) : undefined
+    const modules = storedFiles ? collectScriptModuleSources(storedFiles, files) : undefined
+    const content = await getRemoteScriptContent(files, { strictCompile: true, assets, modules })
     return content.replace(/\r\n/g, '\n')
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err)
@@ -30,11 +38,10 @@ export const GET = plainText(async (req) => {
     throw new Error('Only available in development mode')
   }
 
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
+  const snapshot = await getScriptStorage().fetchSnapshot()
   const files = Object.fromEntries(
     (function* () {
-      for (const [file, { content }] of Object.entries(gist.files)) {
+      for (const [file, { content }] of Object.entries(snapshot.files)) {
         if (!(file.endsWith('.js') || (file.endsWith('.ts') && !file.endsWith('.d.ts')))) {
           continue
         }
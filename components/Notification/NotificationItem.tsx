@@ -105,7 +105,7 @@ export function NotificationItem({ notification, onClose }: NotificationItemProp
         {/* Content */}
         <div className="flex-1 min-w-0">
           {notification.title && <div className="text-sm font-semibold text-[#cccccc] mb-1">{notification.title}</div>}
-          <div className="text-sm text-[#cccccc] leading-relaxed break-words">{notification.message}</div>
+          <div className="text-sm text-[#cccccc] leading-relaxed break-words whitespace-pre-line">{notification.message}</div>
           {/* Linear progress bar for Loading */}
           {showProgressBar && (
             <div className="mt-2 h-1.5 w-full rounded-full bg-[#3e3e42] overflow-hidden">
@@ -1,10 +1,11 @@
 'use client'
 
-import { useCallback, useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 
 import InternalCodeEditor, { type CodeEditorRef } from './components/Editor'
 import FileListPanel from './components/FileListPanel'
 import { Resizer } from './components/Resizer'
+import SearchPanel from './components/SearchPanel'
 import TabBar from './components/TabBar'
 import { useFileState } from './context/FileStateContext'
 import { LocalMapProvider, useLocalMap } from './context/LocalMapContext'
@@ -64,6 +65,7 @@ function ScriptEditorContentBody({
   const codeEditorRef = useRef<CodeEditorRef>(null)
   const lastActiveTabRef = useRef<string | null>(null)
   const activeTabRef = useRef<string | null>(null)
+  const [isWorkspaceSearchOpen, setIsWorkspaceSearchOpen] = useState(false)
 
   useScriptEditorWebMcpSlots({
     onSaveLocal: async (filename) => {
@@ -137,6 +139,14 @@ function ScriptEditorContentBody({
     tabBar.openTab(path, options)
   }
 
+  /**
+   * Open a workspace search match; the jump waits for the tab switch to load the file into the editor
+   */
+  function handleOpenSearchMatch(path: string, line: number) {
+    tabBar.openTab(path)
+    setTimeout(() => codeEditorRef.current?.navigateToLine(line), 100)
+  }
+
   /**
    * Handle file deletion
    */
@@ -270,16 +280,21 @@ function ScriptEditorContentBody({
       <div className="flex-1 flex overflow-hidden min-h-0">
         {/* Left: File List Panel */}
         <div className="flex-shrink-0" style={{ width: `${layout.leftPanelWidth}px` }}>
-          <FileListPanel
-            selectedFile={tabBar.activeTab}
-            onSelectFile={handleSelectFile}
-            onDeleteFile={readOnly ? undefined : handleDeleteFile}
-            onAddFile={handleAddFile}
-            onRenameFile={readOnly ? undefined : handleRenameFile}
-            isLoading={!fileStorage.isInitialized}
-            onResetToOnline={handleResetToOnline}
-            readOnly={readOnly}
-          />
+          {isWorkspaceSearchOpen ? (
+            <SearchPanel onOpenMatch={handleOpenSearchMatch} onClose={() => setIsWorkspaceSearchOpen(false)} readOnly={readOnly} />
+          ) : (
+            <FileListPanel
+              selectedFile={tabBar.activeTab}
+              onSelectFile={handleSelectFile}
+              onDeleteFile={readOnly ? undefined : handleDeleteFile}
+              onAddFile={handleAddFile}
+              onRenameFile={readOnly ? undefined : handleRenameFile}
+              isLoading={!fileStorage.isInitialized}
+              onResetToOnline={handleResetToOnline}
+              readOnly={readOnly}
+              onOpenWorkspaceSearch={() => setIsWorkspaceSearchOpen(true)}
+            />
+          )}
         </div>
 
         {/* Resizer */}
@@ -1,7 +1,7 @@
 'use client'
 
 import { FiDownloadCloud, FiFolder, FiPlus, FiX } from 'react-icons/fi'
-import { TbFolderOff } from 'react-icons/tb'
+import { TbFileSearch, TbFolderOff } from 'react-icons/tb'
 import { VscSearch } from 'react-icons/vsc'
 
 import { useLocalMap } from '@/components/ScriptEditor/context/LocalMapContext'
@@ -33,6 +33,8 @@ export interface FileListPanelHeaderProps {
   onStartAdd: () => void
   /** Callback when new file is added (parent provides onAddFile) */
   onAddFile?: (filePath: string) => void
+  /** Callback to switch to workspace search */
+  onOpenWorkspaceSearch?: () => void
 }
 
 /**
@@ -50,6 +52,7 @@ export function FileListPanelHeader({
   isResettingToOnline,
   onStartAdd,
   onAddFile,
+  onOpenWorkspaceSearch,
 }: FileListPanelHeaderProps) {
   const localMap = useLocalMap()
 
@@ -115,6 +118,19 @@ export function FileListPanelHeader({
               <VscSearch className="w-3.5 h-3.5" />
             </button>
           </Tooltip>
+          {onOpenWorkspaceSearch && (
+            <Tooltip content="Search in all files (Cmd+Shift+F / Ctrl+Shift+F)" placement="bottom">
+              <button
+                className="p-1 hover:bg-[#3a4352] rounded text-gray-400 hover:text-white transition-colors"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onOpenWorkspaceSearch()
+                }}
+              >
+                <TbFileSearch className="w-3.5 h-3.5" />
+              </button>
+            </Tooltip>
+          )}
           {onResetToOnline && (
             <Tooltip content="Clear local cache and reload from online" placement="bottom">
               <button
@@ -30,6 +30,7 @@ export default function FileListPanel({
   isLoading = false,
   onResetToOnline,
   readOnly = false,
+  onOpenWorkspaceSearch,
 }: FileListPanelProps) {
   const fileState = useFileState()
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set())
@@ -109,6 +110,11 @@ export default function FileListPanel({
   // Handle search keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'f' && onOpenWorkspaceSearch) {
+        e.preventDefault()
+        onOpenWorkspaceSearch()
+        return
+      }
       if ((e.metaKey || e.ctrlKey) && e.key === 'f' && !isSearchOpen) {
         e.preventDefault()
         setIsSearchOpen(true)
@@ -121,7 +127,7 @@ export default function FileListPanel({
 
     document.addEventListener('keydown', handleKeyDown)
     return () => document.removeEventListener('keydown', handleKeyDown)
-  }, [isSearchOpen])
+  }, [isSearchOpen, onOpenWorkspaceSearch])
 
   // Auto-scroll to selected file
   useEffect(() => {
@@ -301,6 +307,7 @@ export default function FileListPanel({
         isResettingToOnline={isResettingToOnline}
         onStartAdd={handleStartAdd}
         onAddFile={onAddFile}
+        onOpenWorkspaceSearch={onOpenWorkspaceSearch}
       />
 
       {/* File tree */}
@@ -33,6 +33,8 @@ export interface FileListPanelProps {
   onResetToOnline?: () => void | Promise<void>
   /** When true, header actions (reset to online, add file) are disabled (e.g. local map mode) */
   readOnly?: boolean
+  /** Callback to switch to workspace search (search and replace across files) */
+  onOpenWorkspaceSearch?: () => void
 }
 
 /**
@@ -0,0 +1,157 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { VscGitMerge } from 'react-icons/vsc'
+
+import { type ConflictResolution, type MergeHunk, renderMergeResult } from '@/components/ScriptEditor/services/conflictResolution'
+
+/** Stable lines shown around a conflict; longer unchanged runs are collapsed */
+const CONTEXT_LINES = 3
+
+/** One file with conflicts left after the automatic merge */
+export interface MergeViewFile {
+  path: string
+  hunks: MergeHunk[]
+}
+
+export interface MergeViewProps {
+  files: MergeViewFile[]
+  /** Called with the merged content of every file; unresolved conflicts keep conflict markers */
+  onFinish: (contents: Record<string, string>) => void
+  onCancel: () => void
+}
+
+const buttonClass = 'px-2.5 py-1 rounded text-xs transition-colors'
+
+function ResolutionButton({ active, label, onClick }: { active: boolean; label: string; onClick: () => void }) {
+  return (
+    <button className={`${buttonClass} ${active ? 'bg-[#3b82f6] text-white' : 'bg-[#2a303a] text-[#cbd5e1] hover:bg-[#3a4352]'}`} onClick={onClick}>
+      {label}
+    </button>
+  )
+}
+
+function StableLines({ lines, isFirst, isLast }: { lines: string[]; isFirst: boolean; isLast: boolean }) {
+  const head = isFirst ? [] : lines.slice(0, CONTEXT_LINES)
+  const tail = isLast ? [] : lines.slice(Math.max(head.length, lines.length - CONTEXT_LINES))
+  const hidden = lines.length - head.length - tail.length
+  return (
+    <pre className="px-3 text-[#6f7a8a] whitespace-pre-wrap break-all">
+      {head.map((line) => `${line}\n`)}
+      {hidden > 0 && <span className="block py-0.5 text-[#4b5563] italic">⋯ {hidden} unchanged lines</span>}
+      {tail.map((line) => `${line}\n`)}
+    </pre>
+  )
+}
+
+/**
+ * Side-by-side merge view: conflicts left after the three-way merge are shown with the Editor version on the
+ * left and the Local version on the right; each is resolved by keeping one side or both.
+ */
+export default function MergeView({ files, onFinish, onCancel }: MergeViewProps) {
+  const [activePath, setActivePath] = useState(files[0]?.path ?? '')
+  const [resolutions, setResolutions] = useState<Record<string, Record<number, ConflictResolution>>>({})
+
+  const activeFile = files.find((file) => file.path === activePath) ?? files[0]
+  const unresolved = useMemo(
+    () =>
+      Object.fromEntries(
+        files.map((file) => [file.path, file.hunks.filter((hunk) => hunk.type === 'conflict').length - Object.keys(resolutions[file.path] ?? {}).length] as const)
+      ),
+    [files, resolutions]
+  )
+  const totalUnresolved = Object.values(unresolved).reduce((sum, count) => sum + count, 0)
+
+  function resolve(path: string, index: number, resolution: ConflictResolution) {
+    setResolutions((current) => ({ ...current, [path]: { ...current[path], [index]: resolution } }))
+  }
+
+  function resolveAll(resolution: ConflictResolution) {
+    if (!activeFile) return
+    const count = activeFile.hunks.filter((hunk) => hunk.type === 'conflict').length
+    setResolutions((current) => ({ ...current, [activeFile.path]: Object.fromEntries(Array.from({ length: count }, (_, index) => [index, resolution])) }))
+  }
+
+  function handleFinish() {
+    onFinish(Object.fromEntries(files.map((file) => [file.path, renderMergeResult(file.hunks, resolutions[file.path])])))
+  }
+
+  let conflictIndex = 0
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-[#111318] text-[#cbd5e1] text-xs">
+      <div className="h-[40px] px-4 flex items-center justify-between border-b border-[#2a303a] bg-[#171a21] flex-shrink-0">
+        <div className="flex items-center gap-2 font-semibold text-sm">
+          <VscGitMerge className="w-4 h-4 text-[#3b82f6]" />
+          Resolve merge conflicts
+        </div>
+        <div className="flex items-center gap-2">
+          {totalUnresolved > 0 && <span className="text-[#fbbf24]">{totalUnresolved} unresolved conflict(s) will keep conflict markers</span>}
+          <button className={`${buttonClass} bg-[#2a303a] hover:bg-[#3a4352]`} onClick={onCancel}>
+            Cancel
+          </button>
+          <button className={`${buttonClass} bg-[#3b82f6] text-white hover:bg-[#2563eb]`} onClick={handleFinish}>
+            Apply merge
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <ul className="w-56 flex-shrink-0 border-r border-[#2a303a] overflow-y-auto py-1">
+          {files.map((file) => (
+            <li key={file.path}>
+              <button
+                className={`w-full px-3 py-1.5 flex items-center gap-2 text-left ${file.path === activeFile?.path ? 'bg-[#2a303a] text-white' : 'hover:bg-[#1b1f27]'}`}
+                onClick={() => setActivePath(file.path)}
+              >
+                <span className="flex-1 truncate">{file.path}</span>
+                <span className={unresolved[file.path] > 0 ? 'text-[#fbbf24]' : 'text-[#86efac]'}>{unresolved[file.path] > 0 ? unresolved[file.path] : '✓'}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {activeFile && (
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="px-3 py-2 flex items-center gap-1.5 border-b border-[#2a303a] flex-shrink-0">
+              <span className="mr-auto text-[#9aa4b2]">Non-conflicting changes were merged automatically.</span>
+              <span className="text-[#6f7a8a]">All conflicts in this file:</span>
+              <ResolutionButton active={false} label="Editor" onClick={() => resolveAll('ours')} />
+              <ResolutionButton active={false} label="Local" onClick={() => resolveAll('theirs')} />
+            </div>
+            <div className="flex-1 overflow-y-auto font-mono py-2">
+              {activeFile.hunks.map((hunk, hunkIndex) => {
+                if (hunk.type === 'stable') {
+                  return <StableLines key={hunkIndex} lines={hunk.lines} isFirst={hunkIndex === 0} isLast={hunkIndex === activeFile.hunks.length - 1} />
+                }
+                const index = conflictIndex++
+                const resolution = resolutions[activeFile.path]?.[index]
+                const keepsOurs = resolution === 'ours' || resolution === 'both'
+                const keepsTheirs = resolution === 'theirs' || resolution === 'both'
+                return (
+                  <div key={hunkIndex} className="my-2 mx-3 rounded border border-[#3a4352] overflow-hidden">
+                    <div className="grid grid-cols-2 divide-x divide-[#3a4352]">
+                      <div className={keepsOurs ? 'bg-[#1e3a2a]' : resolution ? 'opacity-50' : 'bg-[#1b2433]'}>
+                        <div className="px-2 py-1 text-[10px] uppercase text-[#93c5fd] border-b border-[#3a4352]">Editor</div>
+                        <pre className="px-2 py-1 whitespace-pre-wrap break-all min-h-[1.5em]">{hunk.ours.join('\n')}</pre>
+                      </div>
+                      <div className={keepsTheirs ? 'bg-[#1e3a2a]' : resolution ? 'opacity-50' : 'bg-[#2d2417]'}>
+                        <div className="px-2 py-1 text-[10px] uppercase text-[#fbbf24] border-b border-[#3a4352]">Local</div>
+                        <pre className="px-2 py-1 whitespace-pre-wrap break-all min-h-[1.5em]">{hunk.theirs.join('\n')}</pre>
+                      </div>
+                    </div>
+                    <div className="px-2 py-1.5 flex items-center gap-1.5 border-t border-[#3a4352] bg-[#171a21] font-sans">
+                      <ResolutionButton active={resolution === 'ours'} label="Accept editor" onClick={() => resolve(activeFile.path, index, 'ours')} />
+                      <ResolutionButton active={resolution === 'theirs'} label="Accept local" onClick={() => resolve(activeFile.path, index, 'theirs')} />
+                      <ResolutionButton active={resolution === 'both'} label="Accept both" onClick={() => resolve(activeFile.path, index, 'both')} />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
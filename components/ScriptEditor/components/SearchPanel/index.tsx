@@ -0,0 +1,302 @@
+'use client'
+
+import { DiffEditor } from '@monaco-editor/react'
+import { useDeferredValue, useMemo, useState } from 'react'
+import { VscCaseSensitive, VscChevronDown, VscChevronRight, VscClose, VscRegex, VscReplaceAll, VscWholeWord } from 'react-icons/vsc'
+
+import { useFileState } from '@/components/ScriptEditor/context/FileStateContext'
+import { previewWorkspaceReplace, searchWorkspaceFiles, type WorkspaceReplacePreview, type WorkspaceSearchOptions } from '@/components/ScriptEditor/services/workspaceSearch'
+import { FileStatus } from '@/components/ScriptEditor/types'
+import { Tooltip } from '@/components/Tooltip'
+
+export interface SearchPanelProps {
+  /** Open a file at a match */
+  onOpenMatch: (path: string, line: number) => void
+  /** Return to the file list */
+  onClose: () => void
+  /** When true, replace is disabled (e.g. local map mode) */
+  readOnly?: boolean
+}
+
+const toggleClass = (active: boolean) =>
+  `p-1 rounded transition-colors ${active ? 'bg-[#3b82f6]/30 text-white ring-1 ring-[#3b82f6]' : 'text-gray-400 hover:bg-[#3a4352] hover:text-white'}`
+
+const inputClass = 'w-full h-7 px-2 rounded bg-[#171a21] border border-[#2a303a] text-[#e6eaf0] text-xs placeholder:text-[#6f7a8a] focus:outline-none focus:border-[#3b82f6]'
+
+const buttonClass =
+  'inline-flex items-center gap-1.5 px-2.5 py-1 rounded text-xs bg-[#2a303a] text-[#e6eaf0] hover:bg-[#3b82f6] hover:text-white disabled:opacity-50 disabled:hover:bg-[#2a303a] transition-colors'
+
+function getDiffLanguage(path: string): string {
+  if (path.endsWith('.json')) return 'json'
+  if (path.endsWith('.js')) return 'javascript'
+  return 'typescript'
+}
+
+/**
+ * Workspace search panel: regex / case / whole-word search across all local buffers with results grouped
+ * by file, and replace-all with a per-file diff preview before the buffers are changed.
+ */
+export default function SearchPanel({ onOpenMatch, onClose, readOnly = false }: SearchPanelProps) {
+  const fileState = useFileState()
+  const [query, setQuery] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [previews, setPreviews] = useState<WorkspaceReplacePreview[] | null>(null)
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [diffPath, setDiffPath] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const contents = useMemo(() => {
+    const record: Record<string, string> = {}
+    for (const file of Object.values(fileState.files)) {
+      if (file.status !== FileStatus.Deleted) {
+        record[file.path] = file.content.modifiedContent
+      }
+    }
+    return record
+  }, [fileState.files])
+
+  const deferredQuery = useDeferredValue(query)
+  const options = useMemo<WorkspaceSearchOptions>(() => ({ query: deferredQuery, regex, caseSensitive, wholeWord }), [deferredQuery, regex, caseSensitive, wholeWord])
+  const { result, error } = useMemo(() => {
+    if (!options.query) {
+      return { result: null, error: null }
+    }
+    try {
+      return { result: searchWorkspaceFiles(contents, options), error: null }
+    } catch (searchError) {
+      return { result: null, error: searchError instanceof Error ? searchError.message : String(searchError) }
+    }
+  }, [contents, options])
+
+  function toggleCollapsed(path: string) {
+    setCollapsed((current) => {
+      const next = new Set(current)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }
+
+  function handlePreviewReplace() {
+    try {
+      const next = previewWorkspaceReplace(contents, options, replacement)
+      setPreviews(next)
+      setExcluded(new Set())
+      setDiffPath(next[0]?.path ?? null)
+      setMessage(next.length === 0 ? 'Nothing to replace' : null)
+    } catch (replaceError) {
+      setMessage(replaceError instanceof Error ? replaceError.message : String(replaceError))
+    }
+  }
+
+  function handleApply() {
+    if (!previews) return
+    let applied = 0
+    const stale: string[] = []
+    for (const preview of previews) {
+      if (excluded.has(preview.path)) continue
+      // Skip buffers edited after the preview was taken rather than overwriting those edits
+      if (fileState.getFile(preview.path)?.content.modifiedContent !== preview.original) {
+        stale.push(preview.path)
+        continue
+      }
+      fileState.updateFile(preview.path, preview.modified)
+      applied++
+    }
+    setPreviews(null)
+    setDiffPath(null)
+    setMessage(
+      `Replaced in ${applied} file${applied === 1 ? '' : 's'} (not saved yet)` + (stale.length > 0 ? `; skipped ${stale.join(', ')} because it changed after the preview` : '')
+    )
+  }
+
+  const diffPreview = previews?.find((preview) => preview.path === diffPath) ?? null
+  const includedPreviews = previews?.filter((preview) => !excluded.has(preview.path)) ?? []
+
+  return (
+    <div className="h-full flex flex-col bg-[#111318] border-r border-[#2a303a] overflow-hidden">
+      <div className="h-[33px] px-3 text-xs font-semibold text-[#cbd5e1] uppercase border-b border-[#2a303a] bg-[#111318] flex items-center justify-between flex-shrink-0">
+        Search
+        <Tooltip content="Back to files" placement="bottom">
+          <button className="p-1 hover:bg-[#3a4352] rounded text-gray-400 hover:text-white transition-colors" onClick={onClose} aria-label="Back to files">
+            <VscClose className="w-3.5 h-3.5" />
+          </button>
+        </Tooltip>
+      </div>
+
+      <div className="px-3 py-2 border-b border-[#2a303a] space-y-1.5 flex-shrink-0">
+        <div className="flex items-center gap-1">
+          <input
+            className={inputClass}
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value)
+              setPreviews(null)
+              setMessage(null)
+            }}
+            placeholder="Search"
+            autoFocus
+            aria-label="Search in files"
+          />
+          <button
+            className={toggleClass(caseSensitive)}
+            onClick={() => {
+              setCaseSensitive((value) => !value)
+              setPreviews(null)
+            }}
+            title="Match case"
+            aria-pressed={caseSensitive}
+          >
+            <VscCaseSensitive className="w-3.5 h-3.5" />
+          </button>
+          <button
+            className={toggleClass(wholeWord)}
+            onClick={() => {
+              setWholeWord((value) => !value)
+              setPreviews(null)
+            }}
+            title="Match whole word"
+            aria-pressed={wholeWord}
+          >
+            <VscWholeWord className="w-3.5 h-3.5" />
+          </button>
+          <button
+            className={toggleClass(regex)}
+            onClick={() => {
+              setRegex((value) => !value)
+              setPreviews(null)
+            }}
+            title="Use regular expression"
+            aria-pressed={regex}
+          >
+            <VscRegex className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        {!readOnly && (
+          <div className="flex items-center gap-1">
+            <input className={inputClass} value={replacement} onChange={(event) => setReplacement(event.target.value)} placeholder="Replace" aria-label="Replace with" />
+            <button
+              className={toggleClass(false)}
+              onClick={handlePreviewReplace}
+              disabled={!result || result.totalMatches === 0}
+              title="Preview replace all"
+              aria-label="Preview replace all"
+            >
+              <VscReplaceAll className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+        {error && <div className="text-xs text-[#f87171]">{error}</div>}
+        {message && <div className="text-xs text-[#9aa4b2]">{message}</div>}
+      </div>
+
+      {previews && previews.length > 0 ? (
+        <div className="flex-1 flex flex-col min-h-0 text-xs">
+          <ul className="max-h-[40%] overflow-y-auto border-b border-[#2a303a]">
+            {previews.map((preview) => (
+              <li
+                key={preview.path}
+                className={`px-3 py-1 flex items-center gap-2 cursor-pointer ${diffPath === preview.path ? 'bg-[#2a303a]' : 'hover:bg-[#1b1f27]'}`}
+                onClick={() => setDiffPath(preview.path)}
+              >
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(preview.path)}
+                  onClick={(event) => event.stopPropagation()}
+                  onChange={(event) =>
+                    setExcluded((current) => {
+                      const next = new Set(current)
+                      if (event.target.checked) next.delete(preview.path)
+                      else next.add(preview.path)
+                      return next
+                    })
+                  }
+                  aria-label={`Replace in ${preview.path}`}
+                />
+                <span className="flex-1 truncate text-[#e6eaf0]">{preview.path}</span>
+                <span className="text-[#6f7a8a]">{preview.replacements}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex-1 min-h-0">
+            {diffPreview && (
+              <DiffEditor
+                height="100%"
+                width="100%"
+                original={diffPreview.original}
+                modified={diffPreview.modified}
+                language={getDiffLanguage(diffPreview.path)}
+                theme="vs-dark"
+                options={{
+                  readOnly: true,
+                  fontSize: 11,
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                  renderSideBySide: false,
+                  lineNumbers: 'off',
+                }}
+              />
+            )}
+          </div>
+          <div className="px-3 py-2 border-t border-[#2a303a] flex items-center gap-1.5">
+            <button className={buttonClass} onClick={handleApply} disabled={includedPreviews.length === 0}>
+              Replace in {includedPreviews.length} file{includedPreviews.length === 1 ? '' : 's'}
+            </button>
+            <button className={buttonClass} onClick={() => setPreviews(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto text-xs">
+          {result && (
+            <div className="px-3 py-1.5 text-[#6f7a8a]">
+              {result.totalMatches === 0
+                ? 'No results'
+                : `${result.totalMatches}${result.truncated ? '+' : ''} result${result.totalMatches === 1 ? '' : 's'} in ${result.files.length} file${result.files.length === 1 ? '' : 's'}`}
+            </div>
+          )}
+          {result?.files.map((file) => {
+            const isCollapsed = collapsed.has(file.path)
+            return (
+              <div key={file.path}>
+                <button className="w-full px-2 py-1 flex items-center gap-1 text-left hover:bg-[#1b1f27]" onClick={() => toggleCollapsed(file.path)}>
+                  {isCollapsed ? <VscChevronRight className="w-3.5 h-3.5 flex-shrink-0" /> : <VscChevronDown className="w-3.5 h-3.5 flex-shrink-0" />}
+                  <span className="flex-1 truncate text-[#e6eaf0]">{file.path}</span>
+                  <span className="px-1.5 rounded-full bg-[#2a303a] text-[#9aa4b2]">{file.matches.length}</span>
+                </button>
+                {!isCollapsed &&
+                  file.matches.map((match) => {
+                    const start = match.column - 1
+                    const end = Math.min(match.lineText.length, start + match.length)
+                    const prefixStart = Math.max(0, start - 30)
+                    return (
+                      <button
+                        key={`${match.line}:${match.column}`}
+                        className="w-full pl-7 pr-2 py-0.5 flex items-baseline gap-2 text-left hover:bg-[#1b1f27] font-mono"
+                        onClick={() => onOpenMatch(file.path, match.line)}
+                        title={`${file.path}:${match.line}:${match.column}`}
+                      >
+                        <span className="truncate text-[#9aa4b2]">
+                          {prefixStart > 0 && '…'}
+                          {match.lineText.slice(prefixStart, start).trimStart()}
+                          <span className="bg-[#3b82f6]/40 text-white rounded-sm">{match.lineText.slice(start, end)}</span>
+                          {match.lineText.slice(end)}
+                        </span>
+                        <span className="ml-auto flex-shrink-0 text-[#6f7a8a]">{match.line}</span>
+                      </button>
+                    )
+                  })}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
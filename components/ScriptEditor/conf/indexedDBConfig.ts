@@ -19,6 +19,7 @@ export const DB_NAME = MM_SCRIPT_EDITOR_DB_NAME
  * Version 4: Merged file contents into single table, simplified table structure
  * Version 5: Added layout store for editor panel state
  * Version 6: Renamed database to mm_script_editor (MagickMonkey)
+ * Version 7: Added sync bases store for local folder three-way merge
  */
 export const DB_VERSION = MM_SCRIPT_EDITOR_DB_VERSION
 
@@ -34,6 +35,8 @@ export const OBJECT_STORES = {
   TABS: 'tabs',
   /** Layout table */
   LAYOUT: 'layout',
+  /** Last-synced local folder contents (merge base), keyed by storage key */
+  SYNC_BASES: 'syncBases',
 } as const
 
 /**
@@ -130,6 +133,11 @@ export const TABS_STORE_CONFIG: ObjectStoreConfig = createSimpleTableConfig(OBJE
  */
 export const LAYOUT_STORE_CONFIG: ObjectStoreConfig = createSimpleTableConfig(OBJECT_STORES.LAYOUT)
 
+/**
+ * Sync bases table configuration
+ */
+export const SYNC_BASES_STORE_CONFIG: ObjectStoreConfig = createSimpleTableConfig(OBJECT_STORES.SYNC_BASES)
+
 /**
  * All object store configuration mappings
  */
@@ -138,6 +146,7 @@ export const STORE_CONFIGS: Record<string, ObjectStoreConfig> = {
   [OBJECT_STORES.FILE_CONTENTS]: FILE_CONTENTS_STORE_CONFIG,
   [OBJECT_STORES.TABS]: TABS_STORE_CONFIG,
   [OBJECT_STORES.LAYOUT]: LAYOUT_STORE_CONFIG,
+  [OBJECT_STORES.SYNC_BASES]: SYNC_BASES_STORE_CONFIG,
 }
 
 /**
@@ -4,12 +4,14 @@ import { createContext, useCallback, useContext, useEffect, useMemo, useRef, use
 
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { useNotification } from '@/components/Notification'
+import MergeView, { type MergeViewFile } from '@/components/ScriptEditor/components/MergeView'
 import { contentEqualsByHash, hashString } from '@/utils/hash'
 
 import { useFileState } from '../context/FileStateContext'
 import { useFileStorage } from '../hooks/useFileStorage'
-import { generateConflictMarkers } from '../services/conflictResolution'
+import { hasConflictMarkers, mergeThreeWay, renderMergeResult } from '../services/conflictResolution'
 import { getFileAtPath, isLocalFileMapSupported, readFilesFromDirectoryWithHashes, requestLocalDirectory, writeFilesToDirectory } from '../services/localFileMap'
+import { type SyncBase, syncBaseStorageService } from '../services/syncBaseStorage'
 import { FileStatus } from '../types'
 import { stripFileSystemAccessGlobalBlock } from '../utils/typingsForLocal'
 
@@ -47,6 +49,20 @@ interface PendingMapToLocal {
   filesToWriteToDisk: Record<string, string>
 }
 
+/** Map-to-local waiting for the merge view: automatically merged files and files with conflicts left */
+interface PendingMerge {
+  pending: PendingMapToLocal
+  merged: Record<string, string>
+  files: MergeViewFile[]
+}
+
+/**
+ * Pair last-synced contents with their hashes for {@link syncBaseStorageService}.
+ */
+function toSyncBases(contents: Record<string, string>, hashes: Record<string, string>): Record<string, SyncBase> {
+  return Object.fromEntries(Object.entries(contents).flatMap(([path, content]) => (hashes[path] ? [[path, { hash: hashes[path], content }] as const] : [])))
+}
+
 /** Notify type for local map feedback */
 export type LocalMapNotifyType = 'success' | 'error' | 'warning'
 
@@ -97,6 +113,7 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
   const [conflictDialogOpen, setConflictDialogOpen] = useState(false)
   const [conflictList, setConflictList] = useState<LocalMapConflictItem[]>([])
   const [pendingMapToLocal, setPendingMapToLocal] = useState<PendingMapToLocal | null>(null)
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null)
   const lastFileHashesRef = useRef<Record<string, string>>({})
   const isLocalMapBusyRef = useRef(isLocalMapBusy)
   isLocalMapBusyRef.current = isLocalMapBusy
@@ -124,8 +141,9 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
       const hashEntries = await Promise.all(Object.entries(filesToWrite).map(async ([path, content]) => [path, await hashString(content)] as const))
       const initialHashes: Record<string, string> = Object.fromEntries(hashEntries)
       lastFileHashesRef.current = initialHashes
+      await syncBaseStorageService.saveSyncBases(storageKey, toSyncBases(filesToWrite, initialHashes))
     },
-    []
+    [storageKey]
   )
 
   const onMapToLocal = useCallback(async () => {
@@ -202,6 +220,47 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
     }
   }, [fileState.files, finishMapToLocal, isLocalMapBusy, isLocalMapMode, onNotify, typingsForLocal])
 
+  /**
+   * Write the chosen contents and enter local map mode. Merged files also replace the editor content.
+   */
+  const completeMapToLocal = useCallback(
+    async (pending: PendingMapToLocal, filesToWrite: Record<string, string>, filesToWriteToDisk: Record<string, string>, merged: Record<string, string>, successMsg: string) => {
+      const progress = notificationRef.current.loading('Writing files to local folder...', { title: 'Map to local' })
+      try {
+        await finishMapToLocal(pending.handle, filesToWrite, filesToWriteToDisk, (c, t) => progress.updateProgress(t ? Math.round((c / t) * 100) : 0))
+        if (Object.keys(merged).length > 0) {
+          for (const [path, content] of Object.entries(merged)) {
+            fileStateRef.current.updateFile(path, content)
+          }
+          await persistRef.current()
+        }
+        setLocalDirHandle(pending.handle)
+        setIsLocalMapMode(true)
+        onNotify?.('success', successMsg)
+      } finally {
+        progress.close()
+      }
+    },
+    [finishMapToLocal, onNotify]
+  )
+
+  /**
+   * Write merged contents to both sides; conflicts left unresolved keep conflict markers.
+   */
+  const completeMerge = useCallback(
+    async (pending: PendingMapToLocal, merged: Record<string, string>) => {
+      const withMarkers = Object.values(merged).some(hasConflictMarkers)
+      await completeMapToLocal(
+        pending,
+        { ...pending.filesToWrite, ...merged },
+        { ...pending.filesToWriteToDisk, ...merged },
+        merged,
+        withMarkers ? 'Mapped with conflict markers; resolve the remaining conflicts in your local editor.' : 'Mapped to local with editor and local changes merged.'
+      )
+    },
+    [completeMapToLocal]
+  )
+
   const handleConflictClose = useCallback(
     async (result: string | null) => {
       setConflictDialogOpen(false)
@@ -214,20 +273,38 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
         setIsLocalMapBusy(false)
         return
       }
+      let awaitingMergeView = false
       try {
-        let filesToWrite = pending.filesToWrite
-        let filesToWriteToDisk = pending.filesToWriteToDisk
         if (result === 'resolve') {
-          const nextWrite = { ...pending.filesToWrite }
-          const nextDisk = { ...pending.filesToWriteToDisk }
+          // Three-way merge against the content of the last sync; only true conflicts go to the merge view
+          const bases = await syncBaseStorageService.loadSyncBases(storageKey)
+          const merged: Record<string, string> = {}
+          const files: MergeViewFile[] = []
           for (const item of conflictList) {
-            const merged = generateConflictMarkers(item.editorContent, item.localContent)
-            nextWrite[item.path] = merged
-            nextDisk[item.path] = merged
+            const base = bases[item.path]
+            if (base && base.hash === (await hashString(item.localContent))) {
+              merged[item.path] = item.editorContent
+              continue
+            }
+            const { hunks, conflicts } = mergeThreeWay(base?.content ?? null, item.editorContent, item.localContent)
+            if (conflicts === 0) {
+              merged[item.path] = renderMergeResult(hunks)
+            } else {
+              files.push({ path: item.path, hunks })
+            }
           }
-          filesToWrite = nextWrite
-          filesToWriteToDisk = nextDisk
-        } else if (result === 'useLocal') {
+          if (files.length > 0) {
+            awaitingMergeView = true
+            setPendingMerge({ pending, merged, files })
+            return
+          }
+          await completeMerge(pending, merged)
+          return
+        }
+
+        let filesToWrite = pending.filesToWrite
+        let filesToWriteToDisk = pending.filesToWriteToDisk
+        if (result === 'useLocal') {
           const nextWrite = { ...pending.filesToWrite }
           const nextDisk = { ...pending.filesToWriteToDisk }
           for (const item of conflictList) {
@@ -238,28 +315,36 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
           filesToWriteToDisk = nextDisk
         }
         // useCurrent: keep filesToWrite/filesToWriteToDisk as-is (editor wins)
-        const progress = notificationRef.current.loading('Writing files to local folder...', { title: 'Map to local' })
-        try {
-          await finishMapToLocal(pending.handle, filesToWrite, filesToWriteToDisk, (c, t) => progress.updateProgress(t ? Math.round((c / t) * 100) : 0))
-          setLocalDirHandle(pending.handle)
-          setIsLocalMapMode(true)
-          const successMsg =
-            result === 'resolve'
-              ? 'Mapped with conflict markers; resolve in local editor and sync.'
-              : result === 'useLocal'
-                ? 'Mapped to local; conflicting file(s) left unchanged.'
-                : 'Mapped to local.'
-          onNotify?.('success', successMsg)
-        } finally {
-          progress.close()
+        await completeMapToLocal(pending, filesToWrite, filesToWriteToDisk, {}, result === 'useLocal' ? 'Mapped to local; conflicting file(s) left unchanged.' : 'Mapped to local.')
+      } catch (err) {
+        onNotify?.('error', `Map to local failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      } finally {
+        if (!awaitingMergeView) {
+          setIsLocalMapBusy(false)
+        }
+      }
+    },
+    [completeMapToLocal, completeMerge, conflictList, onNotify, pendingMapToLocal, storageKey]
+  )
+
+  const handleMergeFinish = useCallback(
+    async (contents: Record<string, string> | null) => {
+      const current = pendingMerge
+      setPendingMerge(null)
+      try {
+        if (!current || !contents) {
+          setLocalDirHandle(null)
+          setIsLocalMapMode(false)
+          return
         }
+        await completeMerge(current.pending, { ...current.merged, ...contents })
       } catch (err) {
         onNotify?.('error', `Map to local failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
       } finally {
         setIsLocalMapBusy(false)
       }
     },
-    [conflictList, finishMapToLocal, onNotify, pendingMapToLocal]
+    [completeMerge, onNotify, pendingMerge]
   )
 
   // Auto-sync: poll continuously regardless of window visibility; run one after another (no setInterval)
@@ -332,6 +417,7 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
           }
           await persistRef.current()
           lastFileHashesRef.current = hashes
+          await syncBaseStorageService.saveSyncBases(storageKey, toSyncBases(contents, hashes))
           setLastSyncedAt(Date.now())
           onLocalFilesSyncedRef.current?.()
         } else {
@@ -356,7 +442,7 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
         pollTimeoutRef.current = null
       }
     }
-  }, [isLocalMapMode, localDirHandle])
+  }, [isLocalMapMode, localDirHandle, storageKey])
 
   const onCloseLocalMap = useCallback(() => {
     localDirHandleRef.current = null
@@ -403,10 +489,11 @@ export function LocalMapProvider({ storageKey, onNotify, typingsForLocal, onLoca
         buttons={[
           { label: 'Use current', value: 'useCurrent', variant: 'primary' },
           { label: 'Use local', value: 'useLocal' },
-          { label: 'Resolve conflict', value: 'resolve' },
+          { label: 'Merge', value: 'resolve' },
           { label: 'Cancel', value: 'cancel' },
         ]}
       />
+      {pendingMerge && <MergeView files={pendingMerge.files} onFinish={(contents) => handleMergeFinish(contents)} onCancel={() => handleMergeFinish(null)} />}
     </LocalMapContext.Provider>
   )
 }
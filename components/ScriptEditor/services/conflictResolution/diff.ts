@@ -0,0 +1,93 @@
+'use client'
+
+/**
+ * Line diff (Myers) used by the three-way merge.
+ */
+
+/**
+ * Longest common subsequence of two line arrays as matched index pairs.
+ * Common prefix and suffix are matched directly; the middle uses Myers' O(ND) algorithm.
+ * @param a Old lines
+ * @param b New lines
+ * @returns Pairs `[indexInA, indexInB]` in ascending order
+ */
+export function matchLines(a: readonly string[], b: readonly string[]): Array<[number, number]> {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++
+  }
+
+  const matches: Array<[number, number]> = []
+  for (let i = 0; i < prefix; i++) {
+    matches.push([i, i])
+  }
+  for (const [i, j] of myersMatches(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix))) {
+    matches.push([i + prefix, j + prefix])
+  }
+  for (let i = suffix; i > 0; i--) {
+    matches.push([a.length - i, b.length - i])
+  }
+  return matches
+}
+
+function myersMatches(a: readonly string[], b: readonly string[]): Array<[number, number]> {
+  const n = a.length
+  const m = b.length
+  if (n === 0 || m === 0) {
+    return []
+  }
+
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // Furthest x per diagonal after each edit distance d, for k in [-d, d]
+  const trace: Int32Array[] = []
+
+  search: for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1))
+        break search
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1))
+  }
+
+  const matches: Array<[number, number]> = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1]
+    const at = (k: number) => previous[k + d - 1]
+    const k = x - y
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1))
+    const previousK = down ? k + 1 : k - 1
+    const previousX = at(previousK)
+    const startX = down ? previousX : previousX + 1
+    while (x > startX) {
+      x--
+      y--
+      matches.push([x, y])
+    }
+    x = previousX
+    y = previousX - previousK
+  }
+  while (x > 0 && y > 0) {
+    x--
+    y--
+    matches.push([x, y])
+  }
+
+  return matches.reverse()
+}
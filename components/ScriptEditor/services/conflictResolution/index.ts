@@ -1,9 +1,12 @@
 'use client'
 
+import { matchLines } from './diff'
+
 /**
  * Conflict resolution service.
- * Generates merge content with Git-style conflict markers for two file versions.
- * One conflict block containing the full Editor content and full Local content (like Git).
+ * Three-way merges Editor and Local content against the last-synced base: hunks changed on one side only
+ * merge automatically, and only hunks changed differently on both sides become conflicts. Unresolved
+ * conflicts are written with Git-style conflict markers.
  */
 
 /** Git-style conflict marker labels */
@@ -11,16 +14,169 @@ const MARKER_OURS = '<<<<<<< Editor'
 const MARKER_SEP = '======='
 const MARKER_THEIRS = '>>>>>>> Local'
 
+/** A run of lines both sides agree on, or a conflict between them */
+export type MergeHunk =
+  | { type: 'stable'; lines: string[] }
+  | {
+      type: 'conflict'
+      /** Base lines of the hunk; null when no base was available */
+      base: string[] | null
+      /** Editor lines */
+      ours: string[]
+      /** Local lines */
+      theirs: string[]
+    }
+
+export interface ThreeWayMergeResult {
+  hunks: MergeHunk[]
+  /** Number of conflict hunks */
+  conflicts: number
+}
+
+/** How a conflict hunk is resolved: keep Editor, keep Local, or keep both (Editor first) */
+export type ConflictResolution = 'ours' | 'theirs' | 'both'
+
+function sameLines(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+function toIndexMap(length: number, matches: Array<[number, number]>): Int32Array {
+  const map = new Int32Array(length).fill(-1)
+  for (const [from, to] of matches) {
+    map[from] = to
+  }
+  return map
+}
+
+class HunkBuilder {
+  readonly hunks: MergeHunk[] = []
+  conflicts = 0
+
+  stable(lines: readonly string[]): void {
+    if (lines.length === 0) return
+    const last = this.hunks[this.hunks.length - 1]
+    if (last?.type === 'stable') {
+      last.lines.push(...lines)
+    } else {
+      this.hunks.push({ type: 'stable', lines: [...lines] })
+    }
+  }
+
+  conflict(base: string[] | null, ours: string[], theirs: string[]): void {
+    this.hunks.push({ type: 'conflict', base, ours, theirs })
+    this.conflicts++
+  }
+}
+
+function mergeWithBase(base: string[], ours: string[], theirs: string[]): HunkBuilder {
+  const oursAt = toIndexMap(base.length, matchLines(base, ours))
+  const theirsAt = toIndexMap(base.length, matchLines(base, theirs))
+  const builder = new HunkBuilder()
+  let o = 0
+  let a = 0
+  let b = 0
+
+  while (o < base.length || a < ours.length || b < theirs.length) {
+    if (o < base.length && oursAt[o] === a && theirsAt[o] === b) {
+      builder.stable([base[o]])
+      o++
+      a++
+      b++
+      continue
+    }
+
+    // Next base line both sides still contain ends the unstable chunk
+    let next = o
+    while (next < base.length && (oursAt[next] < 0 || theirsAt[next] < 0)) {
+      next++
+    }
+    const oursEnd = next < base.length ? oursAt[next] : ours.length
+    const theirsEnd = next < base.length ? theirsAt[next] : theirs.length
+    const baseChunk = base.slice(o, next)
+    const oursChunk = ours.slice(a, oursEnd)
+    const theirsChunk = theirs.slice(b, theirsEnd)
+
+    if (sameLines(oursChunk, baseChunk)) {
+      builder.stable(theirsChunk)
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      builder.stable(oursChunk)
+    } else {
+      builder.conflict(baseChunk, oursChunk, theirsChunk)
+    }
+    o = next
+    a = oursEnd
+    b = theirsEnd
+  }
+
+  return builder
+}
+
+function mergeWithoutBase(ours: string[], theirs: string[]): HunkBuilder {
+  const builder = new HunkBuilder()
+  let a = 0
+  let b = 0
+  for (const [i, j] of [...matchLines(ours, theirs), [ours.length, theirs.length] as [number, number]]) {
+    if (i > a || j > b) {
+      builder.conflict(null, ours.slice(a, i), theirs.slice(b, j))
+    }
+    if (i < ours.length) {
+      builder.stable([ours[i]])
+    }
+    a = i + 1
+    b = j + 1
+  }
+  return builder
+}
+
+/**
+ * Three-way merge Editor and Local content.
+ * @param base Content at the last sync, or null when unknown (every differing hunk is then a conflict)
+ * @param ours Editor content
+ * @param theirs Local file content
+ * @returns Merged hunks
+ */
+export function mergeThreeWay(base: string | null, ours: string, theirs: string): ThreeWayMergeResult {
+  const { hunks, conflicts } = base === null ? mergeWithoutBase(ours.split('\n'), theirs.split('\n')) : mergeWithBase(base.split('\n'), ours.split('\n'), theirs.split('\n'))
+  return { hunks, conflicts }
+}
+
+/**
+ * Render merged hunks; conflicts without a resolution are written with conflict markers.
+ * @param hunks Hunks from {@link mergeThreeWay}
+ * @param resolutions Resolutions by conflict index (0-based, in hunk order)
+ * @returns File content
+ */
+export function renderMergeResult(hunks: readonly MergeHunk[], resolutions: Readonly<Record<number, ConflictResolution>> = {}): string {
+  const lines: string[] = []
+  let conflictIndex = 0
+  for (const hunk of hunks) {
+    if (hunk.type === 'stable') {
+      lines.push(...hunk.lines)
+      continue
+    }
+    const resolution = resolutions[conflictIndex++]
+    if (resolution === 'ours') {
+      lines.push(...hunk.ours)
+    } else if (resolution === 'theirs') {
+      lines.push(...hunk.theirs)
+    } else if (resolution === 'both') {
+      lines.push(...hunk.ours, ...hunk.theirs)
+    } else {
+      lines.push(MARKER_OURS, ...hunk.ours, MARKER_SEP, ...hunk.theirs, MARKER_THEIRS)
+    }
+  }
+  return lines.join('\n')
+}
+
 /**
- * Generate merged content with Git-style conflict markers.
- * The conflict block contains the complete Editor content and complete Local content,
- * so the user can resolve with full context in the file.
+ * Generate merged content with Git-style conflict markers around the hunks that truly conflict.
  * @param ours Editor / current content (full)
  * @param theirs Local file content (full)
- * @returns Single string: <<<<<<< Editor + full ours + ======= + full theirs + >>>>>>> Local
+ * @param base Content at the last sync; without it every differing hunk is marked
+ * @returns Merged content
  */
-export function generateConflictMarkers(ours: string, theirs: string): string {
-  return `${MARKER_OURS}\n${ours}\n${MARKER_SEP}\n${theirs}\n${MARKER_THEIRS}\n`
+export function generateConflictMarkers(ours: string, theirs: string, base: string | null = null): string {
+  return renderMergeResult(mergeThreeWay(base, ours, theirs).hunks)
 }
 
 /**
@@ -0,0 +1,106 @@
+'use client'
+
+import { indexedDBService, OBJECT_STORES } from './indexedDBService'
+
+/** Content of a file at the last local folder sync */
+export interface SyncBase {
+  /** SHA-256 of `content`, as computed by `readFilesFromDirectoryWithHashes` */
+  hash: string
+  content: string
+}
+
+/**
+ * Sync bases structure for IndexedDB
+ */
+interface SyncBasesState {
+  /** Last-synced content by file path */
+  bases: Record<string, SyncBase>
+  /** Last updated timestamp */
+  updatedAt: number
+}
+
+/**
+ * Object store name for sync bases
+ */
+const STORE_NAME = OBJECT_STORES.SYNC_BASES
+
+/**
+ * Sync base storage service using IndexedDB
+ * Keeps the file contents of the last local folder sync so a later map-to-local can three-way merge
+ * editor and local changes against them.
+ */
+export class SyncBaseStorageService {
+  /**
+   * Open the sync bases object store, retrying once while a database upgrade may still be creating it
+   * @param mode Transaction mode
+   * @returns Object store, or null if it does not exist
+   */
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+    if (!(await indexedDBService.hasObjectStore(STORE_NAME))) {
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      if (!(await indexedDBService.hasObjectStore(STORE_NAME))) {
+        // eslint-disable-next-line no-console
+        console.error(`[SyncBaseStorageService] Object store '${STORE_NAME}' not found`)
+        return null
+      }
+    }
+    const db = await indexedDBService.getDB()
+    return db.transaction([STORE_NAME], mode).objectStore(STORE_NAME)
+  }
+
+  /**
+   * Replace the sync bases of an editor
+   * @param storageKey Editor storage key
+   * @param bases Last-synced content by file path
+   */
+  async saveSyncBases(storageKey: string, bases: Record<string, SyncBase>): Promise<void> {
+    if (!indexedDBService.isAvailable()) {
+      return
+    }
+
+    try {
+      const store = await this.getStore('readwrite')
+      if (!store) return
+      const state: SyncBasesState = { bases, updatedAt: Date.now() }
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(state, storageKey)
+        request.onsuccess = () => resolve()
+        request.onerror = () => reject(request.error)
+      })
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[SyncBaseStorageService] Failed to save sync bases to IndexedDB:', error)
+    }
+  }
+
+  /**
+   * Load the sync bases of an editor
+   * @param storageKey Editor storage key
+   * @returns Last-synced content by file path (empty when never synced)
+   */
+  async loadSyncBases(storageKey: string): Promise<Record<string, SyncBase>> {
+    if (!indexedDBService.isAvailable()) {
+      return {}
+    }
+
+    try {
+      const store = await this.getStore('readonly')
+      if (!store) return {}
+      const state = await new Promise<SyncBasesState | undefined>((resolve, reject) => {
+        const request = store.get(storageKey)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      return state?.bases ?? {}
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[SyncBaseStorageService] Failed to load sync bases from IndexedDB:', error)
+      return {}
+    }
+  }
+}
+
+/**
+ * Singleton instance of SyncBaseStorageService
+ */
+export const syncBaseStorageService = new SyncBaseStorageService()
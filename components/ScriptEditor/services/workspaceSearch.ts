@@ -0,0 +1,156 @@
+/**
+ * Workspace-wide search and replace over the editor's local file buffers.
+ * Pure functions: callers pass file contents and apply replacements to `FileStateContext` themselves.
+ */
+
+/** Stop collecting matches after this many (the result is flagged as truncated) */
+export const WORKSPACE_SEARCH_MAX_MATCHES = 2000
+
+export interface WorkspaceSearchOptions {
+  query: string
+  /** Treat `query` as a regular expression */
+  regex?: boolean
+  caseSensitive?: boolean
+  /** Only match whole words */
+  wholeWord?: boolean
+}
+
+/** One match, 1-based like Monaco positions */
+export interface WorkspaceSearchMatch {
+  line: number
+  column: number
+  /** Matched text length */
+  length: number
+  /** Full text of the line the match starts on */
+  lineText: string
+}
+
+/** Matches grouped by file */
+export interface WorkspaceSearchFileResult {
+  path: string
+  matches: WorkspaceSearchMatch[]
+}
+
+export interface WorkspaceSearchResult {
+  files: WorkspaceSearchFileResult[]
+  totalMatches: number
+  /** More matches exist than {@link WORKSPACE_SEARCH_MAX_MATCHES} */
+  truncated: boolean
+}
+
+/** Replacement of one file, for the preview diff */
+export interface WorkspaceReplacePreview {
+  path: string
+  original: string
+  modified: string
+  replacements: number
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build the global regular expression for search options.
+ * @param options Search options
+ * @returns Regular expression with the `g` flag
+ */
+export function buildWorkspaceSearchRegExp(options: WorkspaceSearchOptions): RegExp {
+  if (!options.query) {
+    throw new Error('Search query must not be empty')
+  }
+
+  const source = options.regex ? options.query : escapeRegExp(options.query)
+  let matcher: RegExp
+  try {
+    matcher = new RegExp(options.wholeWord ? `\\b(?:${source})\\b` : source, options.caseSensitive ? 'gm' : 'gim')
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (new RegExp(matcher.source, matcher.flags.replace('g', '')).test('')) {
+    throw new Error('Search pattern must not match empty text')
+  }
+  return matcher
+}
+
+function toLineStarts(content: string): number[] {
+  const starts = [0]
+  for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+    starts.push(index + 1)
+  }
+  return starts
+}
+
+/**
+ * Find every match in a set of files.
+ * @param files File contents keyed by path
+ * @param options Search options
+ * @returns Matches grouped by file, files in path order
+ */
+export function searchWorkspaceFiles(files: Record<string, string>, options: WorkspaceSearchOptions): WorkspaceSearchResult {
+  const matcher = buildWorkspaceSearchRegExp(options)
+  const result: WorkspaceSearchResult = { files: [], totalMatches: 0, truncated: false }
+
+  for (const path of Object.keys(files).sort((a, b) => a.localeCompare(b))) {
+    const content = files[path]
+    const lineStarts = toLineStarts(content)
+    const matches: WorkspaceSearchMatch[] = []
+    let lineIndex = 0
+
+    matcher.lastIndex = 0
+    for (let match = matcher.exec(content); match; match = matcher.exec(content)) {
+      if (result.totalMatches >= WORKSPACE_SEARCH_MAX_MATCHES) {
+        result.truncated = true
+        break
+      }
+      while (lineIndex + 1 < lineStarts.length && lineStarts[lineIndex + 1] <= match.index) {
+        lineIndex++
+      }
+      const lineEnd = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] - 1 : content.length
+      matches.push({
+        line: lineIndex + 1,
+        column: match.index - lineStarts[lineIndex] + 1,
+        length: match[0].length,
+        lineText: content.slice(lineStarts[lineIndex], lineEnd).replace(/\r$/, ''),
+      })
+      result.totalMatches++
+    }
+
+    if (matches.length > 0) {
+      result.files.push({ path, matches })
+    }
+    if (result.truncated) {
+      break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Compute the content of every file after replacing all matches. Regex replacements may use `$1`, `$<name>` and `$&`.
+ * @param files File contents keyed by path
+ * @param options Search options
+ * @param replacement Replacement text
+ * @returns Changed files in path order
+ */
+export function previewWorkspaceReplace(files: Record<string, string>, options: WorkspaceSearchOptions, replacement: string): WorkspaceReplacePreview[] {
+  const matcher = buildWorkspaceSearchRegExp(options)
+  // Literal searches replace literally: `$` has no special meaning there
+  const replaceValue = options.regex ? replacement : replacement.replace(/\$/g, '$$$$')
+  const previews: WorkspaceReplacePreview[] = []
+
+  for (const path of Object.keys(files).sort((a, b) => a.localeCompare(b))) {
+    const original = files[path]
+    const replacements = original.match(matcher)?.length ?? 0
+    if (replacements === 0) {
+      continue
+    }
+    const modified = original.replace(matcher, replaceValue)
+    if (modified !== original) {
+      previews.push({ path, original, modified, replacements })
+    }
+  }
+
+  return previews
+}
@@ -1,3 +1,22 @@
-export { ENTRY_SCRIPT_FILE, ENTRY_SCRIPT_RULES_FILE, EXCLUDED_FILES, isManagedScriptFilename, SCRIPT_INDEX_FILE, SCRIPTS_FILE_EXTENSION } from '../shared/managed-script-files'
+export {
+  API_KEY_USAGE_FILE,
+  API_KEYS_FILE,
+  ASSETS_PREFIX,
+  ENTRY_SCRIPT_FILE,
+  ENTRY_SCRIPT_RULES_FILE,
+  EXCLUDED_FILES,
+  getScriptTestTargetCandidates,
+  isManagedScriptFilename,
+  isScriptAssetStorageFile,
+  isScriptRevisionStorageFile,
+  isScriptTestFilename,
+  RULE_SET_RELEASES_FILE,
+  SCRIPT_ASSETS_FILE,
+  SCRIPT_INDEX_FILE,
+  SCRIPT_REVISIONS_FILE,
+  SCRIPT_TELEMETRY_FILE,
+  SCRIPTS_FILE_EXTENSION,
+  USERS_FILE,
+} from '../shared/managed-script-files'
 
 export const EDITOR_SUPPORTED_EXTENSIONS = ['.ts', '.js', '.json']
@@ -10,6 +10,8 @@ const PAGE_OUTPUT = {
   popup: 'popup.html',
   admin: 'admin.html',
   sidepanel: 'sidepanel.html',
+  'background-runner': 'background-runner.html',
+  'background-sandbox': 'background-sandbox.html',
 }
 
 const LEGACY_REDIRECTS = {
@@ -4,6 +4,10 @@ export const REQUEST_EVENT = 'vws-gm-request'
 export const RESPONSE_EVENT = 'vws-gm-response'
 export const STORAGE_CHANGED_EVENT = 'vws-gm-storage-changed'
 export const PERMISSION_ALLOW_KEYS_CHANGED_EVENT = 'vws-permission-allow-keys-changed'
+/** Background → content → page: run a `GM_registerMenuCommand` callback (popup / context menu click). */
+export const MENU_COMMAND_INVOKE_EVENT = 'vws-menu-command-invoke'
+/** Content → page: streamed `GM_xmlhttpRequest` events (`{ xhrId, event }`). */
+export const XHR_EVENT = 'vws-gm-xhr-event'
 export const BRIDGE_MESSAGE_SOURCE = EXTENSION_BRIDGE_MESSAGE_SOURCE
 export const WEB_MESSAGE_SOURCE = 'magickmonkey-web'
 export const WEB_RESPONSE_SOURCE = 'magickmonkey-extension'
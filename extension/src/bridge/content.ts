@@ -4,6 +4,7 @@
 
 import { isCloudflareChallengeRtTkUrl } from '../shared/extension-storage/shell-master-switch-pure'
 import { installBridgeListeners } from './bridge-listeners'
+import { installMenuCommandRelay } from './menu-command-relay'
 import { bootstrapPageBridge, notifyTabPageLoad } from './page-bootstrap'
 import { installPermissionAllowSyncListener } from './permission-allow-sync'
 import { installPermissionModalListener } from './permission-modal'
@@ -26,6 +27,7 @@ if (isCloudflareChallengeRtTkUrl(pageUrl)) {
   installBridgeListeners()
   installPermissionModalListener()
   installPermissionAllowSyncListener()
+  installMenuCommandRelay()
   notifyTabPageLoad()
   void bootstrapPageBridge().catch(() => undefined)
 }
@@ -1,10 +1,10 @@
 import type { ScriptPermissionContext, ScriptPermissionRequest } from '@shared/script-permission'
 
-import type { GMRequestDetails } from '../page/gm-types'
 import { createExtensionLogger, permissionLogger } from '../shared/logger'
-import type { ShellResponse } from '../shared/messages'
+import type { BridgeCookieDetails, BridgeWebRequestRule, BridgeXhrDetails, ShellResponse } from '../shared/messages'
 import { BRIDGE_MESSAGE_SOURCE, GM_STORAGE_PREFIX, RESPONSE_EVENT, STORAGE_CHANGED_EVENT } from './constants'
 import { isExtensionContextInvalidated } from './extension-context'
+import { abortXhrRelay, startXhrRelay } from './gm-xhr-relay'
 
 const screenshotLogger = createExtensionLogger('Screenshot')
 const CAPTURE_MESSAGE_TIMEOUT_MS = 65_000
@@ -53,23 +53,12 @@ export function postStorageChanged(key: string, oldValue: unknown, newValue: unk
   window.postMessage({ source: BRIDGE_MESSAGE_SOURCE, type: STORAGE_CHANGED_EVENT, payload: { key, oldValue, newValue } }, '*')
 }
 
-async function handleXhr(details: GMRequestDetails, permission?: ScriptPermissionRequest): Promise<{ status: number; responseText: string; responseHeaders?: string }> {
-  const response = (await chrome.runtime.sendMessage({
-    type: 'GM_XHR',
-    details: {
-      method: details.method,
-      url: details.url,
-      headers: details.headers,
-      data: details.data,
-      timeout: details.timeout,
-      responseType: details.responseType,
-      permission,
-    },
-  })) as ShellResponse
-  if (!response?.ok || !('xhr' in response)) {
-    throw new Error(response?.ok === false ? response.error : 'GM_XHR failed')
+async function sendGmShellMessage(message: Record<string, unknown>): Promise<ShellResponse> {
+  const response = (await chrome.runtime.sendMessage(message)) as ShellResponse
+  if (!response?.ok) {
+    throw new Error(response?.ok === false ? response.error : `${String(message.type)} failed`)
   }
-  return response.xhr
+  return response
 }
 
 function isRequestDetail(value: unknown): value is { id: number; method: string; args: unknown[] } {
@@ -101,10 +90,16 @@ export function handleBridgeRequest(value: unknown): void {
         respond(id, true)
         return
       }
-      if (method === 'xhr') {
-        const [details, permission] = args as [GMRequestDetails, ScriptPermissionRequest | undefined]
-        const result = await handleXhr(details, permission)
-        respond(id, result)
+      if (method === 'xhrStart') {
+        const [xhrId, details, permission] = args as [string, BridgeXhrDetails, ScriptPermissionRequest | undefined]
+        startXhrRelay(xhrId, details, permission)
+        respond(id, true)
+        return
+      }
+      if (method === 'xhrAbort') {
+        const [xhrId] = args as [string]
+        abortXhrRelay(xhrId)
+        respond(id, true)
         return
       }
       if (method === 'captureScreenshot') {
@@ -161,6 +156,36 @@ export function handleBridgeRequest(value: unknown): void {
         respond(id, response?.ok === true && Array.isArray(response.grantedKeys) ? response.grantedKeys : [])
         return
       }
+      if (method === 'setMenuCommands') {
+        const [commands] = args as [unknown]
+        await chrome.runtime.sendMessage({ type: 'SET_MENU_COMMANDS', details: { commands } })
+        respond(id, true)
+        return
+      }
+      if (method === 'cookie') {
+        const [action, details, permission] = args as ['list' | 'set' | 'delete', BridgeCookieDetails, ScriptPermissionRequest | undefined]
+        const response = await sendGmShellMessage({ type: 'GM_COOKIE', action, details, permission })
+        respond(id, 'cookies' in response ? (response.cookies ?? []) : [])
+        return
+      }
+      if (method === 'tabObject') {
+        const [action, scope, tab, permission] = args as ['get' | 'save' | 'list', string, unknown, ScriptPermissionRequest | undefined]
+        const response = await sendGmShellMessage({ type: 'GM_TAB_OBJECT', action, scope, tab, permission })
+        respond(id, action === 'list' ? ('tabObjects' in response ? response.tabObjects : {}) : 'tabObject' in response ? response.tabObject : undefined)
+        return
+      }
+      if (method === 'webRequest') {
+        const [rules, permission] = args as [BridgeWebRequestRule[], ScriptPermissionRequest | undefined]
+        const response = await sendGmShellMessage({ type: 'GM_WEB_REQUEST', rules, permission })
+        respond(id, 'webRequestRuleIds' in response ? (response.webRequestRuleIds ?? []) : [])
+        return
+      }
+      if (method === 'webRequestRemove') {
+        const [ruleIds] = args as [number[]]
+        await sendGmShellMessage({ type: 'GM_WEB_REQUEST_REMOVE', ruleIds })
+        respond(id, true)
+        return
+      }
       if (method === 'openSidePanel') {
         const response = (await chrome.runtime.sendMessage({ type: 'OPEN_SIDE_PANEL' })) as ShellResponse
         if (!response?.ok) {
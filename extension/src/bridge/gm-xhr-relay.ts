@@ -0,0 +1,62 @@
+import { type BridgeXhrDetails, type BridgeXhrEvent, GM_XHR_PORT_NAME } from '@ext/shared/messages'
+import type { ScriptPermissionRequest } from '@shared/script-permission'
+
+import { BRIDGE_MESSAGE_SOURCE, XHR_EVENT } from './constants'
+import { isExtensionContextInvalidated } from './extension-context'
+
+/** Open background ports by page-assigned request id. */
+const xhrPorts = new Map<string, chrome.runtime.Port>()
+
+function isTerminalXhrEvent(event: BridgeXhrEvent): boolean {
+  return event.type === 'load' || event.type === 'error' || event.type === 'timeout' || event.type === 'abort'
+}
+
+function postXhrEvent(xhrId: string, event: BridgeXhrEvent): void {
+  window.postMessage({ source: BRIDGE_MESSAGE_SOURCE, type: XHR_EVENT, payload: { xhrId, event } }, window.location.origin)
+}
+
+/**
+ * Start a streamed request: one background port per request, events relayed to the page as `XHR_EVENT`.
+ * @param xhrId Page-assigned request id
+ * @param details Serialized request (binary bodies already base64)
+ * @param permission Permission context re-checked in background
+ */
+export function startXhrRelay(xhrId: string, details: BridgeXhrDetails, permission?: ScriptPermissionRequest): void {
+  if (xhrPorts.has(xhrId)) {
+    return
+  }
+  let port: chrome.runtime.Port
+  try {
+    port = chrome.runtime.connect({ name: GM_XHR_PORT_NAME })
+  } catch (error) {
+    isExtensionContextInvalidated(error)
+    postXhrEvent(xhrId, { type: 'error', error: error instanceof Error ? error.message : String(error) })
+    return
+  }
+  xhrPorts.set(xhrId, port)
+  let settled = false
+  port.onMessage.addListener((event: BridgeXhrEvent) => {
+    postXhrEvent(xhrId, event)
+    if (isTerminalXhrEvent(event)) {
+      settled = true
+      xhrPorts.delete(xhrId)
+      port.disconnect()
+    }
+  })
+  port.onDisconnect.addListener(() => {
+    xhrPorts.delete(xhrId)
+    if (!settled) {
+      settled = true
+      postXhrEvent(xhrId, { type: 'error', error: 'GM_XHR connection to background lost' })
+    }
+  })
+  port.postMessage({ type: 'start', details: { ...details, permission } })
+}
+
+/**
+ * Abort a running request; the page still receives the `abort` event.
+ * @param xhrId Page-assigned request id
+ */
+export function abortXhrRelay(xhrId: string): void {
+  xhrPorts.get(xhrId)?.postMessage({ type: 'abort' })
+}
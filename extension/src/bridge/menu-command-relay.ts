@@ -0,0 +1,25 @@
+import { BRIDGE_MESSAGE_SOURCE, MENU_COMMAND_INVOKE_EVENT } from './constants'
+
+let menuCommandRelayInstalled = false
+
+/** Forward popup / context-menu command clicks from background to the page world. */
+export function installMenuCommandRelay(): void {
+  if (menuCommandRelayInstalled) {
+    return
+  }
+  menuCommandRelayInstalled = true
+
+  chrome.runtime.onMessage.addListener((message: { type?: string; payload?: { id?: unknown } }) => {
+    if (message?.type !== MENU_COMMAND_INVOKE_EVENT || typeof message.payload?.id !== 'string') {
+      return
+    }
+    window.postMessage(
+      {
+        source: BRIDGE_MESSAGE_SOURCE,
+        type: MENU_COMMAND_INVOKE_EVENT,
+        payload: { id: message.payload.id },
+      },
+      window.location.origin
+    )
+  })
+}
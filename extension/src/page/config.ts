@@ -49,7 +49,15 @@ const EXTENSION_GRANTS = [
   'GM_unregisterMenuCommand',
   'GM_captureVisibleTab',
   'GM_download',
+  'GM_cookie',
+  'GM_getTab',
+  'GM_saveTab',
+  'GM_getTabs',
+  'GM_webRequest',
+  'GM_getResourceText',
+  'GM_getResourceURL',
   'GM_info',
+  'GM',
   'unsafeWindow',
 ] as const
 
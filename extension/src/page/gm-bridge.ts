@@ -2,27 +2,63 @@
  * GM_* APIs on the page (MAIN world). Storage and XHR are delegated to the isolated content-script bridge.
  */
 
+import { MENU_COMMAND_INVOKE_EVENT, XHR_EVENT } from '@ext/bridge/constants'
 import { gmLogger, permissionLogger } from '@ext/shared/logger'
 import { setCachedShellLogOutputMode } from '@ext/shared/shell-log-output-cache'
+import type { MenuCommandEntry } from '@ext/shared/tab-menu-commands'
 import { appendAdoptedStyles } from '@shared/adopted-page-styles'
 import { LEGACY_AUTO_UPDATE_SCRIPT_KEY, SHELL_LOG_PERSIST_ENABLED_KEY, SHELL_NETWORK_ENABLED_KEY } from '@shared/launcher-constants'
 import type { ScriptPermissionRequest } from '@shared/script-permission'
 import { normalizePermissionNetworkHost } from '@shared/script-permission'
+import { readScriptPermissionStack, type ScriptPermissionStackFrame } from '@shared/script-permission-scope'
+import { createScriptResourceApi } from '@shared/script-resources'
+import {
+  claimScriptStorageKey,
+  ensureScriptStorageAccess,
+  isScriptStorageAccessAllowed,
+  normalizeScriptStorageOwners,
+  readActiveScriptStorageFrame,
+  releaseScriptStorageKey,
+  SCRIPT_STORAGE_OWNERS_GM_KEY,
+  type ScriptStorageOwners,
+} from '@shared/script-storage-scope'
 import { normalizeShellLogOutputMode, SHELL_LOG_OUTPUT_MODE_KEY } from '@shared/shell-log-output'
 import { readBoundProxyTargetProperty } from '@shared/with-global-sandbox'
 
-import type { GMApi, GMRequestDetails, GMResponse, GMValue } from './gm-types'
+import { createGmBrowserApis } from './gm-browser-apis'
+import { createGmNamespace } from './gm-namespace'
+import type { GMApi, GMMenuCommandOptions, GMRequestDetails, GMRequestHandle, GMValue } from './gm-types'
+import { gmXmlhttpRequest, gmXmlHttpRequestAsync, handlePageXhrEvent } from './gm-xhr'
 import { sendPageBridgeRequest, setPageBridgeToken } from './page-bridge-client'
 import { isPagePermissionAllowed, rememberPagePermissionAllow } from './page-permission-allow-cache'
-import { ensureScriptPermission, getActiveScriptPermissionContext, isScriptPermissionEnforced, ScriptPermissionDeniedError } from './script-permission-scope'
+import {
+  ensureScriptPermission,
+  ensureScriptPermissionSync,
+  getActiveScriptPermissionContext,
+  installScriptPermissionGate,
+  isScriptPermissionEnforced,
+  ScriptPermissionDeniedError,
+} from './script-permission-scope'
 
 const STORAGE_CHANGED_EVENT = 'vws-gm-storage-changed'
 const BRIDGE_MESSAGE_SOURCE = 'vws-extension-bridge'
-const XHR_CALLBACK_KEYS = new Set(['onabort', 'onerror', 'onload', 'onloadend', 'onloadstart', 'onprogress', 'onreadystatechange', 'ontimeout'])
 
-const changeListeners = new Map<string, Map<string, (name: string, oldValue: GMValue, newValue: GMValue) => void>>()
+/** Registered menu command: what the popup shows, and the page-local callback it runs. */
+interface PageMenuCommand {
+  entry: MenuCommandEntry
+  onClick: () => void
+}
+
+/** Value change listener, with the script that registered it (null outside a script scope) */
+interface ValueChangeListener {
+  fn: (name: string, oldValue: GMValue, newValue: GMValue) => void
+  frame: ScriptPermissionStackFrame | null
+}
+
+const changeListeners = new Map<string, Map<string, ValueChangeListener>>()
 let listenerSeq = 0
 let activeGmScope: string | null = null
+let menuCommandsSyncQueued = false
 const GM_GLOBAL_KEYS = new Set<string>([SHELL_NETWORK_ENABLED_KEY, SHELL_LOG_PERSIST_ENABLED_KEY, SHELL_LOG_OUTPUT_MODE_KEY, LEGACY_AUTO_UPDATE_SCRIPT_KEY])
 
 /**
@@ -75,6 +111,56 @@ function getStore(): Record<string, GMValue> {
   return window.__VWS_GM_STORE__
 }
 
+function readStorageOwners(): ScriptStorageOwners {
+  return normalizeScriptStorageOwners(getStore()[physicalGmKey(SCRIPT_STORAGE_OWNERS_GM_KEY)])
+}
+
+/** Persist key owners like any GM value; no change event, scripts cannot read the key. */
+function writeStorageOwners(owners: ScriptStorageOwners | null): void {
+  if (!owners) {
+    return
+  }
+  const physical = physicalGmKey(SCRIPT_STORAGE_OWNERS_GM_KEY)
+  getStore()[physical] = owners
+  void sendRequest('setValue', [physical, owners]).catch((e) => {
+    gmLogger.error('setValue failed:', e)
+  })
+}
+
+function getMenuCommands(): Map<string, PageMenuCommand> {
+  const host = window as unknown as { __VWS_MENU_COMMANDS__?: Map<string, PageMenuCommand> }
+  return (host.__VWS_MENU_COMMANDS__ ??= new Map())
+}
+
+/** Report the command list to the background once per task, however many commands changed. */
+function scheduleMenuCommandsSync(): void {
+  if (menuCommandsSyncQueued) {
+    return
+  }
+  menuCommandsSyncQueued = true
+  queueMicrotask(() => {
+    menuCommandsSyncQueued = false
+    const entries = [...getMenuCommands().values()].map(({ entry }) => entry)
+    void sendRequest('setMenuCommands', [entries]).catch((e) => {
+      gmLogger.debug('setMenuCommands failed:', e)
+    })
+  })
+}
+
+function invokeMenuCommand(payload: unknown): void {
+  const id = payload && typeof payload === 'object' ? (payload as { id?: unknown }).id : undefined
+  const command = typeof id === 'string' ? getMenuCommands().get(id) : undefined
+  if (!command) {
+    gmLogger.warn('Menu command not found:', id)
+    return
+  }
+  try {
+    command.onClick()
+  } catch (error) {
+    gmLogger.error(`Menu command "${command.entry.caption}" failed:`, error)
+  }
+}
+
 function sendRequest<T>(method: string, args: unknown[], timeoutMs?: number): Promise<T> {
   return sendPageBridgeRequest<T>(method, args, timeoutMs)
 }
@@ -105,7 +191,12 @@ function notifyValueChange(key: string, oldValue: GMValue, newValue: GMValue): v
   if (!listeners) {
     return
   }
-  for (const fn of listeners.values()) {
+  const owners = readStorageOwners()
+  for (const { fn, frame } of listeners.values()) {
+    // The key may have been claimed by another script after the listener was registered.
+    if (!isScriptStorageAccessAllowed(key, owners, frame)) {
+      continue
+    }
     try {
       fn(key, oldValue, newValue)
     } catch {
@@ -114,32 +205,6 @@ function notifyValueChange(key: string, oldValue: GMValue, newValue: GMValue): v
   }
 }
 
-function sanitizeXhrDetails(details: GMRequestDetails): Record<string, unknown> {
-  const payload: Record<string, unknown> = {}
-  for (const [key, value] of Object.entries(details)) {
-    if (XHR_CALLBACK_KEYS.has(key) || typeof value === 'function') {
-      continue
-    }
-    payload[key] = value
-  }
-  return payload
-}
-
-function buildXhrPermissionRequest(details: GMRequestDetails, context: ReturnType<typeof getActiveScriptPermissionContext>): ScriptPermissionRequest | undefined {
-  if (!context) {
-    return undefined
-  }
-  const networkResource = normalizePermissionNetworkHost(String(details.url ?? ''))
-  if (!networkResource) {
-    return undefined
-  }
-  return {
-    ...context,
-    capability: 'network',
-    resource: networkResource,
-  }
-}
-
 function buildCapturePermissionRequest(context: ReturnType<typeof getActiveScriptPermissionContext>): ScriptPermissionRequest | undefined {
   if (!context) {
     return undefined
@@ -250,10 +315,42 @@ function createUnsafeWindowGate(): Window {
   })
 }
 
+/** `inject-script` resource for `GM_addElement('script')`: the `src` host, or `*` for inline code and unparsable URLs. */
+function injectScriptPermissionResource(src: string): string {
+  if (!src) {
+    return '*'
+  }
+  try {
+    return normalizePermissionNetworkHost(new URL(src, location.href).href) ?? '*'
+  } catch {
+    return '*'
+  }
+}
+
 function isBlobLike(value: unknown): value is Blob {
   return typeof value === 'object' && value !== null && typeof (value as Blob).size === 'number' && typeof (value as Blob).slice === 'function'
 }
 
+/**
+ * Clipboard write behind the `clipboard-write` permission (`GM_setClipboard` / `GM.setClipboard`).
+ * The permission context is read before the first await, i.e. at the API call site.
+ */
+async function writeClipboard(data: string | Blob): Promise<void> {
+  if (isScriptPermissionEnforced()) {
+    const permissionContext = getActiveScriptPermissionContext()
+    await ensureScriptPermission('clipboard-write', '*', permissionContext)
+  }
+  if (isBlobLike(data)) {
+    if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
+      throw new Error('Image clipboard write is not supported in this browser')
+    }
+    const type = data.type || 'image/png'
+    await navigator.clipboard.write([new ClipboardItem({ [type]: data })])
+    return
+  }
+  await (navigator.clipboard?.writeText(data) ?? Promise.resolve())
+}
+
 function triggerBrowserDownload(url: string, filename: string): void {
   const anchor = document.createElement('a')
   anchor.href = url
@@ -265,30 +362,6 @@ function triggerBrowserDownload(url: string, filename: string): void {
   anchor.remove()
 }
 
-function buildXhrResponse(
-  res: { status: number; statusText?: string; responseText: string; responseHeaders?: string; finalUrl?: string },
-  responseType?: GMRequestDetails['responseType']
-): GMResponse {
-  let response: unknown = res.responseText
-  if (responseType === 'json') {
-    try {
-      response = res.responseText ? JSON.parse(res.responseText) : null
-    } catch {
-      response = null
-    }
-  }
-  return {
-    finalUrl: res.finalUrl,
-    readyState: 4,
-    response,
-    responseText: res.responseText,
-    responseXML: null,
-    status: res.status,
-    statusText: res.statusText ?? '',
-    responseHeaders: res.responseHeaders,
-  }
-}
-
 window.addEventListener('vws-gm-storage-changed', ((event: CustomEvent<{ key: string; oldValue: GMValue; newValue: GMValue }>) => {
   handleStorageChanged(event.detail)
 }) as EventListener)
@@ -303,6 +376,14 @@ window.addEventListener('message', (event: MessageEvent) => {
   }
   if (type === STORAGE_CHANGED_EVENT) {
     handleStorageChanged(payload)
+    return
+  }
+  if (type === MENU_COMMAND_INVOKE_EVENT) {
+    invokeMenuCommand(payload)
+    return
+  }
+  if (type === XHR_EVENT) {
+    handlePageXhrEvent(payload)
   }
 })
 
@@ -312,10 +393,11 @@ window.addEventListener('message', (event: MessageEvent) => {
  */
 export function installGmApiOnPage(): GMApi {
   const store = getStore()
-  const menuCommands = ((window as unknown as { __VWS_MENU_COMMANDS__?: Map<string, () => void> }).__VWS_MENU_COMMANDS__ ??= new Map())
+  const menuCommands = getMenuCommands()
 
-  const api: GMApi = {
+  const callbacks: Omit<GMApi, 'GM'> = {
     GM_getValue<T = GMValue>(key: string, defaultValue?: T): T {
+      ensureScriptStorageAccess(key, readStorageOwners())
       const physical = physicalGmKey(key)
       if (physical in store) {
         return store[physical] as T
@@ -326,6 +408,11 @@ export function installGmApiOnPage(): GMApi {
       return defaultValue as T
     },
     GM_setValue(key: string, value: GMValue): void {
+      const owners = readStorageOwners()
+      ensureScriptStorageAccess(key, owners)
+      if (!GM_GLOBAL_KEYS.has(key)) {
+        writeStorageOwners(claimScriptStorageKey(key, owners))
+      }
       const physical = physicalGmKey(key)
       const oldValue = store[physical]
       store[physical] = value
@@ -335,6 +422,9 @@ export function installGmApiOnPage(): GMApi {
       notifyValueChange(key, oldValue, value)
     },
     GM_deleteValue(key: string): void {
+      const owners = readStorageOwners()
+      ensureScriptStorageAccess(key, owners)
+      writeStorageOwners(releaseScriptStorageKey(key, owners))
       const physical = physicalGmKey(key)
       const oldValue = store[physical]
       delete store[physical]
@@ -344,32 +434,34 @@ export function installGmApiOnPage(): GMApi {
       notifyValueChange(key, oldValue, undefined)
     },
     GM_listValues(): string[] {
-      return logicalGmKeys()
+      const owners = readStorageOwners()
+      return logicalGmKeys().filter((key) => isScriptStorageAccessAllowed(key, owners))
     },
     GM_setValues(values: Record<string, GMValue>): void {
       for (const [key, value] of Object.entries(values)) {
-        api.GM_setValue(key, value)
+        callbacks.GM_setValue(key, value)
       }
     },
     GM_getValues(keys: string[] | Record<string, GMValue>): Record<string, GMValue> {
       const result: Record<string, GMValue> = {}
       const entries = Array.isArray(keys) ? keys.map((key) => [key, undefined] as const) : Object.entries(keys)
       for (const [key, defaultValue] of entries) {
-        result[key] = api.GM_getValue(key, defaultValue)
+        result[key] = callbacks.GM_getValue(key, defaultValue)
       }
       return result
     },
     GM_deleteValues(keys: string[]): void {
       for (const key of keys) {
-        api.GM_deleteValue(key)
+        callbacks.GM_deleteValue(key)
       }
     },
     GM_addValueChangeListener(name: string, listener: (n: string, o: GMValue, v: GMValue) => void): string {
+      ensureScriptStorageAccess(name, readStorageOwners())
       const id = `l${++listenerSeq}`
       if (!changeListeners.has(name)) {
         changeListeners.set(name, new Map())
       }
-      changeListeners.get(name)!.set(id, listener)
+      changeListeners.get(name)!.set(id, { fn: listener, frame: readActiveScriptStorageFrame() })
       return id
     },
     GM_removeValueChangeListener(listenerId: string): void {
@@ -377,52 +469,38 @@ export function installGmApiOnPage(): GMApi {
         listeners.delete(listenerId)
       }
     },
-    GM_xmlhttpRequest(details: GMRequestDetails): void {
-      const { onload, onerror, onprogress, onreadystatechange, ontimeout, onabort } = details
-      void onprogress
-      const enforced = isScriptPermissionEnforced()
-      const permissionContext = enforced ? getActiveScriptPermissionContext() : null
-      const xhrPayload = sanitizeXhrDetails(details)
-      const permissionRequest = enforced ? buildXhrPermissionRequest(details, permissionContext) : undefined
-      void (async () => {
-        try {
-          if (enforced) {
-            if (!permissionRequest) {
-              throw new ScriptPermissionDeniedError('Invalid request URL for network permission')
-            }
-            await ensureScriptPermission('network', permissionRequest.resource, permissionContext)
-          }
-          const res = await sendRequest<{ status: number; statusText?: string; responseText: string; responseHeaders?: string; finalUrl?: string }>('xhr', [
-            xhrPayload,
-            permissionRequest,
-          ])
-          const response = buildXhrResponse(res, details.responseType)
-          onreadystatechange?.(response)
-          onload?.(response)
-        } catch (err) {
-          if (err instanceof ScriptPermissionDeniedError) {
-            onerror?.(err)
-            return
-          }
-          if (err instanceof Error && err.name === 'AbortError') {
-            ontimeout?.(err)
-            return
-          }
-          onabort?.(err)
-          onerror?.(err)
-        }
-      })()
+    GM_xmlhttpRequest(details: GMRequestDetails): GMRequestHandle {
+      return gmXmlhttpRequest(details)
     },
-    GM_registerMenuCommand(caption: string, onClick: () => void): string {
+    GM_registerMenuCommand(caption: string, onClick: () => void, optionsOrAccessKey?: GMMenuCommandOptions | string): string {
       gmLogger.debug('Menu registered:', caption)
-      const id = `menu-${++listenerSeq}`
-      menuCommands.set(id, onClick)
+      const options = typeof optionsOrAccessKey === 'string' ? { accessKey: optionsOrAccessKey } : (optionsOrAccessKey ?? {})
+      const id = options.id !== undefined && options.id !== '' ? String(options.id) : `menu-${++listenerSeq}`
+      const stack = readScriptPermissionStack()
+      const file = stack[stack.length - 1]?.file
+      const scriptKey = file ? getActiveScriptPermissionContext()?.scriptKey : undefined
+      const entry: MenuCommandEntry = {
+        id,
+        caption: String(caption),
+        ...(options.accessKey ? { accessKey: options.accessKey } : {}),
+        ...(options.title ? { title: options.title } : {}),
+        ...(options.autoClose === false ? { autoClose: false } : {}),
+        ...(file ? { file } : {}),
+        ...(scriptKey ? { scriptKey } : {}),
+      }
+      menuCommands.set(id, { entry, onClick })
+      scheduleMenuCommandsSync()
       return id
     },
     GM_unregisterMenuCommand(menuCmdId: string | number): void {
-      menuCommands.delete(String(menuCmdId))
+      if (menuCommands.delete(String(menuCmdId))) {
+        scheduleMenuCommandsSync()
+      }
     },
     GM_addElement(tagName: string, attributes: Record<string, unknown> = {}): HTMLElement {
+      if (String(tagName).toLowerCase() === 'script') {
+        ensureScriptPermissionSync('inject-script', injectScriptPermissionResource(typeof attributes.src === 'string' ? attributes.src : ''))
+      }
       const el = document.createElement(tagName)
       for (const [key, value] of Object.entries(attributes)) {
         if (key === 'textContent') {
@@ -476,27 +554,10 @@ export function installGmApiOnPage(): GMApi {
       return null
     },
     GM_setClipboard(data: string | Blob, _info?: unknown, cb?: () => void): void {
-      void (async () => {
-        try {
-          if (isScriptPermissionEnforced()) {
-            const permissionContext = getActiveScriptPermissionContext()
-            await ensureScriptPermission('clipboard-write', '*', permissionContext)
-          }
-          if (isBlobLike(data)) {
-            if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
-              throw new Error('Image clipboard write is not supported in this browser')
-            }
-            const type = data.type || 'image/png'
-            await navigator.clipboard.write([new ClipboardItem({ [type]: data })])
-          } else {
-            const write = navigator.clipboard?.writeText(data) ?? Promise.resolve()
-            await write
-          }
-          cb?.()
-        } catch (error) {
-          gmLogger.error('setClipboard failed:', error)
-        }
-      })()
+      writeClipboard(data).then(
+        () => cb?.(),
+        (error) => gmLogger.error('setClipboard failed:', error)
+      )
     },
     async GM_captureVisibleTab(options?: { format?: 'png' | 'jpeg'; quality?: number }): Promise<Blob> {
       const enforced = isScriptPermissionEnforced()
@@ -579,6 +640,9 @@ export function installGmApiOnPage(): GMApi {
         },
       }
     },
+    ...createGmBrowserApis(() => activeGmScope ?? ''),
+    // Pinned `@resource` entries registered by each remote module wrapper.
+    ...createScriptResourceApi(),
     GM_info: {
       script: {
         name: 'MagickMonkey Chrome Extension',
@@ -590,11 +654,16 @@ export function installGmApiOnPage(): GMApi {
     },
     unsafeWindow: createUnsafeWindowGate(),
   }
+  const api: GMApi = {
+    ...callbacks,
+    GM: createGmNamespace(callbacks, { xmlHttpRequest: gmXmlHttpRequestAsync, setClipboard: (data) => writeClipboard(data) }),
+  }
 
   const g = globalThis as Record<string, unknown>
   for (const [key, value] of Object.entries(api)) {
     g[key] = value
   }
+  installScriptPermissionGate()
 
   /**
    * Open MagickMonkey Agent side panel via the extension bridge.
@@ -0,0 +1,142 @@
+/**
+ * Browser-level GM APIs on the page: `GM_cookie`, `GM_getTab` / `GM_saveTab` / `GM_getTabs` and `GM_webRequest`.
+ * Each call is gated by its own permission capability, then served by the service worker through the content bridge.
+ */
+
+import { gmLogger } from '@ext/shared/logger'
+import type { BridgeCookie, BridgeCookieDetails, BridgeWebRequestRule } from '@ext/shared/messages'
+import { normalizePermissionNetworkHost, type ScriptPermissionCapability, type ScriptPermissionRequest } from '@shared/script-permission'
+
+import type { GMApi, GMWebRequestListener } from './gm-types'
+import { sendPageBridgeRequest } from './page-bridge-client'
+import { ensureScriptPermission, getActiveScriptPermissionContext, isScriptPermissionEnforced } from './script-permission-scope'
+
+type GmBrowserApis = Pick<GMApi, 'GM_cookie' | 'GM_getTab' | 'GM_saveTab' | 'GM_getTabs' | 'GM_webRequest'>
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Capture the permission context at the API call site (the script scope may exit before the async gate runs).
+ * @returns Gate that prompts when needed and resolves with the request the background re-checks
+ */
+function captureGmPermission(capability: ScriptPermissionCapability, resource: string): () => Promise<ScriptPermissionRequest | undefined> {
+  const enforced = isScriptPermissionEnforced()
+  const context = enforced ? getActiveScriptPermissionContext() : null
+  return async () => {
+    if (!enforced) {
+      return undefined
+    }
+    await ensureScriptPermission(capability, resource, context)
+    return context ? { ...context, capability, resource } : undefined
+  }
+}
+
+function withCookieTarget(details: BridgeCookieDetails | undefined): BridgeCookieDetails {
+  const target = { ...details }
+  if (!target.url && !target.domain) {
+    target.url = location.href
+  }
+  return target
+}
+
+function cookieResource(details: BridgeCookieDetails): string {
+  return normalizePermissionNetworkHost(details.url ?? details.domain?.replace(/^\./, '') ?? '') ?? ''
+}
+
+function describeWebRequestAction(rule: BridgeWebRequestRule): 'cancel' | 'redirect' {
+  return rule.action !== 'cancel' && rule.action?.redirect ? 'redirect' : 'cancel'
+}
+
+/**
+ * @param getGmScope Current GM scope (tab objects are namespaced like GM values)
+ * @returns APIs to spread into the page GM globals
+ */
+export function createGmBrowserApis(getGmScope: () => string): GmBrowserApis {
+  const cookieCall = <T>(action: 'list' | 'set' | 'delete', details: BridgeCookieDetails | undefined, done: (result: T | undefined, error?: string) => void): void => {
+    const target = withCookieTarget(details)
+    const gate = captureGmPermission(action === 'list' ? 'cookie-read' : 'cookie-write', cookieResource(target))
+    void (async () => {
+      try {
+        const permission = await gate()
+        done(await sendPageBridgeRequest<T>('cookie', [action, target, permission]))
+      } catch (error) {
+        gmLogger.warn(`GM_cookie.${action} failed:`, error)
+        done(undefined, errorMessage(error))
+      }
+    })()
+  }
+
+  const tabObjectCall = <T>(action: 'get' | 'save' | 'list', tab: unknown, done?: (result: T | undefined, error?: string) => void): void => {
+    const scope = getGmScope()
+    const gate = captureGmPermission('tab-storage', '*')
+    void (async () => {
+      try {
+        const permission = await gate()
+        done?.(await sendPageBridgeRequest<T>('tabObject', [action, scope, tab, permission]))
+      } catch (error) {
+        gmLogger.warn(`GM tab object ${action} failed:`, error)
+        done?.(undefined, errorMessage(error))
+      }
+    })()
+  }
+
+  return {
+    GM_cookie: {
+      list(details, callback) {
+        cookieCall<BridgeCookie[]>('list', details, (cookies, error) => callback?.(cookies ?? [], error))
+      },
+      set(details, callback) {
+        cookieCall<BridgeCookie[]>('set', details, (_cookies, error) => callback?.(error))
+      },
+      delete(details, callback) {
+        cookieCall<boolean>('delete', details, (_result, error) => callback?.(error))
+      },
+    },
+    GM_getTab(callback) {
+      tabObjectCall<Record<string, unknown>>('get', undefined, (tab) => callback?.(tab ?? {}))
+    },
+    GM_saveTab(tab, callback) {
+      tabObjectCall<boolean>('save', tab, (_result, error) => callback?.(error))
+    },
+    GM_getTabs(callback) {
+      tabObjectCall<Record<string, Record<string, unknown>>>('list', undefined, (tabs) => callback?.(tabs ?? {}))
+    },
+    GM_webRequest(rules, listener?: GMWebRequestListener) {
+      const list = JSON.parse(JSON.stringify(Array.isArray(rules) ? rules : [rules])) as BridgeWebRequestRule[]
+      const gate = captureGmPermission('web-request', normalizePermissionNetworkHost(location.href) ?? '*')
+      let ruleIds: number[] = []
+      let aborted = false
+      const removeRules = () => {
+        const ids = ruleIds
+        ruleIds = []
+        if (ids.length > 0) {
+          void sendPageBridgeRequest('webRequestRemove', [ids]).catch((error) => {
+            gmLogger.debug('webRequestRemove failed:', error)
+          })
+        }
+      }
+      void (async () => {
+        try {
+          const permission = await gate()
+          ruleIds = await sendPageBridgeRequest<number[]>('webRequest', [list, permission])
+          if (aborted) {
+            removeRules()
+          }
+        } catch (error) {
+          gmLogger.warn('GM_webRequest failed:', error)
+          for (const rule of list) {
+            listener?.(describeWebRequestAction(rule), 'error', { rule, description: errorMessage(error) })
+          }
+        }
+      })()
+      return {
+        abort: () => {
+          aborted = true
+          removeRules()
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Greasemonkey 4 style `GM.*` promise API built on the page's callback `GM_*` functions.
+ * Each method calls its `GM_*` counterpart synchronously, so the script permission context and GM scope
+ * are captured at the call site exactly as for the callback form.
+ */
+
+import type { GMApi, GMNamespace } from './gm-types'
+
+type GmCallbackApi = Omit<GMApi, 'GM' | 'unsafeWindow'>
+
+/** Methods whose callback form cannot report failure; the page passes promise implementations instead. */
+type GmNamespaceAsyncMethods = Pick<GMNamespace, 'xmlHttpRequest' | 'setClipboard'>
+
+function settle(resolve: () => void, reject: (error: Error) => void): (error?: string) => void {
+  return (error) => (error ? reject(new Error(error)) : resolve())
+}
+
+/**
+ * @param api Callback `GM_*` functions (already installed on the page)
+ * @param asyncMethods Promise implementations that reject on failure
+ * @returns `GM` namespace object
+ */
+export function createGmNamespace(api: GmCallbackApi, asyncMethods: GmNamespaceAsyncMethods): GMNamespace {
+  return {
+    info: api.GM_info,
+    getValue: async (key, defaultValue) => api.GM_getValue(key, defaultValue),
+    setValue: async (key, value) => api.GM_setValue(key, value),
+    deleteValue: async (key) => api.GM_deleteValue(key),
+    listValues: async () => api.GM_listValues(),
+    getValues: async (keys) => api.GM_getValues(keys),
+    setValues: async (values) => api.GM_setValues(values),
+    deleteValues: async (keys) => api.GM_deleteValues(keys),
+    addValueChangeListener: async (name, listener) => api.GM_addValueChangeListener(name, listener),
+    removeValueChangeListener: async (listenerId) => api.GM_removeValueChangeListener(listenerId),
+    xmlHttpRequest: asyncMethods.xmlHttpRequest,
+    setClipboard: asyncMethods.setClipboard,
+    notification: (details) => new Promise((resolve) => api.GM_notification(details, resolve)),
+    openInTab: async (url, options) => api.GM_openInTab(url, options),
+    registerMenuCommand: async (caption, onClick, optionsOrAccessKey) => api.GM_registerMenuCommand(caption, onClick, optionsOrAccessKey),
+    unregisterMenuCommand: async (menuCmdId) => api.GM_unregisterMenuCommand(menuCmdId),
+    addElement: async (tagName, attributes) => api.GM_addElement(tagName, attributes),
+    addStyle: async (css) => api.GM_addStyle(css),
+    log: async (...messages) => api.GM_log(...messages),
+    download: (details, name) =>
+      new Promise((resolve, reject) => {
+        // The string form of GM_download has no callbacks; the object form reports onload / onerror.
+        const target = typeof details === 'string' ? { url: details, name: name ?? 'download' } : details
+        api.GM_download({ ...target, onload: () => resolve(), onerror: ({ error }) => reject(new Error(error)) }, name)
+      }),
+    getResourceText: async (name) => api.GM_getResourceText(name),
+    getResourceUrl: async (name) => api.GM_getResourceURL(name),
+    getTab: () => new Promise((resolve) => api.GM_getTab(resolve)),
+    saveTab: (tab) => new Promise((resolve, reject) => api.GM_saveTab(tab, settle(resolve, reject))),
+    getTabs: () => new Promise((resolve) => api.GM_getTabs(resolve)),
+    cookie: {
+      list: (details) => new Promise((resolve, reject) => api.GM_cookie.list(details, (cookies, error) => (error ? reject(new Error(error)) : resolve(cookies)))),
+      set: (details) => new Promise((resolve, reject) => api.GM_cookie.set(details, settle(resolve, reject))),
+      delete: (details) => new Promise((resolve, reject) => api.GM_cookie.delete(details, settle(resolve, reject))),
+    },
+  }
+}
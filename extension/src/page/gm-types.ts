@@ -1,13 +1,31 @@
-/** Minimal Tampermonkey GM_xmlhttpRequest details (launcher + preset subset). */
+import type { BridgeCookie, BridgeCookieDetails, BridgeWebRequestRule } from '@ext/shared/messages'
+
+/** Tampermonkey GM_xmlhttpRequest details (everything except `fetch` / `proxy` / `cookiePartition`). */
 export interface GMRequestDetails {
   method?: string
-  url: string
+  url: string | URL
   headers?: Record<string, string>
-  data?: string
+  /** Strings go as-is; Blob / ArrayBuffer / typed arrays / FormData are sent binary; plain objects as JSON */
+  data?: string | Blob | ArrayBuffer | ArrayBufferView | FormData | URLSearchParams | Record<string, unknown> | unknown[]
+  redirect?: 'follow' | 'error' | 'manual'
+  /** Extra cookies for this request (`a=1; b=2`) */
+  cookie?: string
+  nocache?: boolean
+  revalidate?: boolean
+  /** Whole request, in ms */
   timeout?: number
+  /** Copied to every response object */
+  context?: unknown
   responseType?: 'arraybuffer' | 'blob' | 'json' | 'stream' | 'text'
+  overrideMimeType?: string
+  /** Do not send the browser's cookies */
+  anonymous?: boolean
+  user?: string
+  password?: string
   onload?: (response: GMResponse) => void
   onerror?: (error: unknown) => void
+  onloadstart?: (response: GMResponse) => void
+  onloadend?: (response: GMResponse) => void
   onprogress?: (event: GMProgress) => void
   onabort?: (error: unknown) => void
   onreadystatechange?: (response: GMResponse) => void
@@ -23,16 +41,79 @@ export interface GMResponse {
   status: number
   statusText: string
   responseHeaders?: string
+  context?: unknown
 }
 
-export interface GMProgress {
+export interface GMProgress extends GMResponse {
   loaded: number
   total: number
   lengthComputable: boolean
 }
 
+/** Returned by `GM_xmlhttpRequest`; `abort()` cancels the background fetch. */
+export interface GMRequestHandle {
+  abort: () => void
+}
+
+/** Promise-style `GM.*` namespace (Greasemonkey 4 / Tampermonkey names) over the same `GM_*` implementations. */
+export interface GMNamespace {
+  info: Record<string, unknown>
+  getValue: <T = GMValue>(key: string, defaultValue?: T) => Promise<T>
+  setValue: (key: string, value: GMValue) => Promise<void>
+  deleteValue: (key: string) => Promise<void>
+  listValues: () => Promise<string[]>
+  getValues: (keys: string[] | Record<string, GMValue>) => Promise<Record<string, GMValue>>
+  setValues: (values: Record<string, GMValue>) => Promise<void>
+  deleteValues: (keys: string[]) => Promise<void>
+  addValueChangeListener: (name: string, listener: (name: string, oldValue: GMValue, newValue: GMValue) => void) => Promise<string>
+  removeValueChangeListener: (listenerId: string) => Promise<void>
+  /** Resolves with the `onload` response; rejects on error / timeout / abort */
+  xmlHttpRequest: (details: GMRequestDetails) => Promise<GMResponse> & GMRequestHandle
+  /** Rejects when the permission is denied or the clipboard write fails */
+  setClipboard: (data: string | Blob, info?: unknown) => Promise<void>
+  /** Resolves when the notification is done */
+  notification: (details: string | { text?: string; title?: string; timeout?: number; onclick?: () => void }) => Promise<void>
+  openInTab: (url: string, options?: unknown) => Promise<Window | null>
+  registerMenuCommand: (caption: string, onClick: () => void, optionsOrAccessKey?: GMMenuCommandOptions | string) => Promise<string>
+  unregisterMenuCommand: (menuCmdId: string | number) => Promise<void>
+  addElement: (tagName: string, attributes?: Record<string, unknown>) => Promise<HTMLElement>
+  addStyle: (css: string) => Promise<HTMLStyleElement>
+  log: (...messages: unknown[]) => Promise<void>
+  /** Resolves on `onload`, rejects on `onerror` */
+  download: (details: string | { url: string | Blob | File; name?: string }, name?: string) => Promise<void>
+  getResourceText: (name: string) => Promise<string | null>
+  /** Greasemonkey 4 spelling of `GM_getResourceURL` */
+  getResourceUrl: (name: string) => Promise<string | null>
+  getTab: () => Promise<Record<string, unknown>>
+  saveTab: (tab: unknown) => Promise<void>
+  getTabs: () => Promise<Record<string, Record<string, unknown>>>
+  cookie: {
+    list: (details?: BridgeCookieDetails) => Promise<BridgeCookie[]>
+    set: (details: BridgeCookieDetails) => Promise<void>
+    delete: (details: BridgeCookieDetails) => Promise<void>
+  }
+}
+
+/** Tampermonkey `GM_registerMenuCommand` options; `id` re-registers (updates) an existing command. */
+export interface GMMenuCommandOptions {
+  id?: string | number
+  accessKey?: string
+  autoClose?: boolean
+  title?: string
+}
+
 export type GMValue = unknown
 
+/** Tampermonkey `GM_cookie`; `url` defaults to the page URL when neither `url` nor `domain` is given. */
+export interface GMCookieApi {
+  list: (details?: BridgeCookieDetails, callback?: (cookies: BridgeCookie[], error?: string) => void) => void
+  set: (details: BridgeCookieDetails, callback?: (error?: string) => void) => void
+  delete: (details: BridgeCookieDetails, callback?: (error?: string) => void) => void
+}
+
+/** Called when a `GM_webRequest` rule could not be installed (DNR does not report matches back). */
+export type GMWebRequestListener = (info: 'cancel' | 'redirect', message: 'ok' | 'error', details: { rule: BridgeWebRequestRule; description?: string }) => void
+
 export interface GMApi {
   GM_getValue: <T = GMValue>(key: string, defaultValue?: T) => T
   GM_setValue: (key: string, value: GMValue) => void
@@ -43,8 +124,8 @@ export interface GMApi {
   GM_deleteValues: (keys: string[]) => void
   GM_addValueChangeListener: (name: string, listener: (name: string, oldValue: GMValue, newValue: GMValue) => void) => string
   GM_removeValueChangeListener: (listenerId: string) => void
-  GM_xmlhttpRequest: (details: GMRequestDetails) => void
-  GM_registerMenuCommand: (caption: string, onClick: () => void) => string
+  GM_xmlhttpRequest: (details: GMRequestDetails) => GMRequestHandle
+  GM_registerMenuCommand: (caption: string, onClick: () => void, optionsOrAccessKey?: GMMenuCommandOptions | string) => string
   GM_unregisterMenuCommand: (menuCmdId: string | number) => void
   GM_addElement: (tagName: string, attributes?: Record<string, unknown>) => HTMLElement
   GM_addStyle: (css: string) => HTMLStyleElement
@@ -57,6 +138,14 @@ export interface GMApi {
     details: string | { url: string | Blob | File; name?: string; onerror?: (error: { error: string }) => void; onload?: () => void },
     name?: string
   ) => { abort: () => void }
+  GM_cookie: GMCookieApi
+  GM_getTab: (callback?: (tab: Record<string, unknown>) => void) => void
+  GM_saveTab: (tab: unknown, callback?: (error?: string) => void) => void
+  GM_getTabs: (callback?: (tabs: Record<string, Record<string, unknown>>) => void) => void
+  GM_webRequest: (rules: BridgeWebRequestRule | BridgeWebRequestRule[], listener?: GMWebRequestListener) => GMRequestHandle
+  GM_getResourceText: (name: string) => string | null
+  GM_getResourceURL: (name: string) => string | null
   GM_info: Record<string, unknown>
+  GM: GMNamespace
   unsafeWindow: Window
 }
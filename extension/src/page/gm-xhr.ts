@@ -0,0 +1,347 @@
+/**
+ * Page side of `GM_xmlhttpRequest`: encodes the request, then turns streamed background events
+ * (`XHR_EVENT` from the content bridge) into Tampermonkey-style callbacks.
+ */
+
+import { base64ToBytes, bytesToBase64 } from '@ext/shared/base64-bytes'
+import { gmLogger } from '@ext/shared/logger'
+import type { BridgeXhrDetails, BridgeXhrEvent } from '@ext/shared/messages'
+import type { ScriptPermissionRequest } from '@shared/script-permission'
+import { normalizePermissionNetworkHost, PERMISSION_DENIED_CODE } from '@shared/script-permission'
+
+import type { GMRequestDetails, GMRequestHandle, GMResponse } from './gm-types'
+import { sendPageBridgeRequest } from './page-bridge-client'
+import { ensureScriptPermission, getActiveScriptPermissionContext, isScriptPermissionEnforced, ScriptPermissionDeniedError } from './script-permission-scope'
+
+type XhrHeaders = Extract<BridgeXhrEvent, { type: 'headers' }>
+
+/** One in-flight request between `xhrStart` and its terminal event. */
+interface PageXhr {
+  details: GMRequestDetails
+  head?: XhrHeaders
+  text: string
+  chunks: Uint8Array[]
+  loaded: number
+  total: number | null
+  stream?: ReadableStream<Uint8Array>
+  streamController?: ReadableStreamDefaultController<Uint8Array>
+}
+
+const activeXhrs = new Map<string, PageXhr>()
+let xhrSeq = 0
+
+function isTextResponseType(responseType: GMRequestDetails['responseType']): boolean {
+  return responseType == null || responseType === 'text' || responseType === 'json'
+}
+
+function isBinaryBody(data: unknown): data is Blob | ArrayBuffer | ArrayBufferView | FormData {
+  return data instanceof Blob || data instanceof ArrayBuffer || ArrayBuffer.isView(data) || data instanceof FormData
+}
+
+/**
+ * Serialize a GM request body for JSON messaging.
+ * @param data `details.data`
+ * @returns Body fields plus the content type implied by the body (multipart boundary, Blob type, …)
+ */
+export async function encodeXhrBody(data: GMRequestDetails['data']): Promise<Pick<BridgeXhrDetails, 'data' | 'dataEncoding'> & { contentType?: string }> {
+  if (data == null) {
+    return {}
+  }
+  if (typeof data === 'string') {
+    return { data }
+  }
+  if (data instanceof URLSearchParams) {
+    return { data: data.toString(), contentType: 'application/x-www-form-urlencoded;charset=UTF-8' }
+  }
+  if (isBinaryBody(data)) {
+    const encoded = new Response(data as BodyInit)
+    const bytes = new Uint8Array(await encoded.arrayBuffer())
+    return { data: bytesToBase64(bytes), dataEncoding: 'base64', contentType: encoded.headers.get('content-type') ?? undefined }
+  }
+  return { data: JSON.stringify(data), contentType: 'application/json' }
+}
+
+function buildXhrPermissionRequest(url: string, context: ReturnType<typeof getActiveScriptPermissionContext>): ScriptPermissionRequest | undefined {
+  if (!context) {
+    return undefined
+  }
+  const networkResource = normalizePermissionNetworkHost(url)
+  if (!networkResource) {
+    return undefined
+  }
+  return {
+    ...context,
+    capability: 'network',
+    resource: networkResource,
+  }
+}
+
+async function buildBridgeXhrDetails(details: GMRequestDetails, url: string): Promise<BridgeXhrDetails> {
+  const body = await encodeXhrBody(details.data)
+  const headers = { ...details.headers }
+  if (body.contentType && !Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+    headers['content-type'] = body.contentType
+  }
+  return {
+    method: details.method,
+    url,
+    headers,
+    data: body.data,
+    dataEncoding: body.dataEncoding,
+    timeout: details.timeout,
+    responseType: details.responseType,
+    overrideMimeType: details.overrideMimeType,
+    anonymous: details.anonymous,
+    cookie: details.cookie,
+    redirect: details.redirect,
+    nocache: details.nocache,
+    revalidate: details.revalidate,
+    user: details.user,
+    password: details.password,
+  }
+}
+
+function readResponseContentType(state: PageXhr): string {
+  if (state.details.overrideMimeType) {
+    return state.details.overrideMimeType
+  }
+  const line = state.head?.responseHeaders.split('\r\n').find((header) => header.toLowerCase().startsWith('content-type:'))
+  return line ? line.slice(line.indexOf(':') + 1).trim() : ''
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes
+}
+
+function buildFinalResponseBody(state: PageXhr): unknown {
+  switch (state.details.responseType) {
+    case 'json':
+      try {
+        return state.text ? JSON.parse(state.text) : null
+      } catch {
+        return null
+      }
+    case 'arraybuffer':
+      return concatChunks(state.chunks).buffer
+    case 'blob':
+      return new Blob([concatChunks(state.chunks)], { type: readResponseContentType(state) })
+    case 'stream':
+      return state.stream
+    default:
+      return state.text
+  }
+}
+
+function buildResponse(state: PageXhr, readyState: number): GMResponse {
+  const head = state.head
+  const text = isTextResponseType(state.details.responseType)
+  let response: unknown
+  if (readyState === 4) {
+    response = buildFinalResponseBody(state)
+  } else if (state.details.responseType === 'stream') {
+    response = state.stream
+  } else if (text && state.details.responseType !== 'json') {
+    response = state.text
+  }
+  return {
+    finalUrl: head?.finalUrl ?? String(state.details.url),
+    readyState,
+    response,
+    responseText: text ? state.text : '',
+    responseXML: null,
+    status: head?.status ?? 0,
+    statusText: head?.statusText ?? '',
+    responseHeaders: head?.responseHeaders ?? '',
+    context: state.details.context,
+  }
+}
+
+function invokeXhrCallback<T>(name: string, callback: ((value: T) => void) | undefined, value: T): void {
+  if (!callback) {
+    return
+  }
+  try {
+    callback(value)
+  } catch (error) {
+    gmLogger.error(`GM_xmlhttpRequest ${name} callback failed:`, error)
+  }
+}
+
+function finishXhr(state: PageXhr, event: Extract<BridgeXhrEvent, { type: 'load' | 'error' | 'timeout' | 'abort' }>): void {
+  const { details } = state
+  if (event.type === 'load') {
+    state.streamController?.close()
+    const response = buildResponse(state, 4)
+    invokeXhrCallback('onreadystatechange', details.onreadystatechange, response)
+    invokeXhrCallback('onload', details.onload, response)
+    invokeXhrCallback('onloadend', details.onloadend, response)
+    return
+  }
+  const error =
+    event.type !== 'error'
+      ? new Error(`GM_xmlhttpRequest ${event.type}`)
+      : event.error === PERMISSION_DENIED_CODE
+        ? new ScriptPermissionDeniedError('Network permission denied')
+        : new Error(event.error)
+  state.streamController?.error(error)
+  if (event.type === 'timeout') {
+    invokeXhrCallback('ontimeout', details.ontimeout, error)
+  } else if (event.type === 'abort') {
+    invokeXhrCallback('onabort', details.onabort, error)
+  } else {
+    invokeXhrCallback('onerror', details.onerror, error)
+  }
+  invokeXhrCallback('onloadend', details.onloadend, buildResponse(state, 4))
+}
+
+function applyXhrEvent(state: PageXhr, event: BridgeXhrEvent): boolean {
+  const { details } = state
+  switch (event.type) {
+    case 'headers': {
+      state.head = event
+      state.total = event.total
+      if (details.responseType === 'stream') {
+        state.stream = new ReadableStream<Uint8Array>({
+          start: (controller) => {
+            state.streamController = controller
+          },
+        })
+      }
+      const response = buildResponse(state, 2)
+      invokeXhrCallback('onloadstart', details.onloadstart, response)
+      invokeXhrCallback('onreadystatechange', details.onreadystatechange, response)
+      return false
+    }
+    case 'chunk': {
+      if (event.encoding === 'text') {
+        state.text += event.data
+      } else {
+        const bytes = base64ToBytes(event.data)
+        if (state.streamController) {
+          state.streamController.enqueue(bytes)
+        } else {
+          state.chunks.push(bytes)
+        }
+      }
+      state.loaded = event.loaded
+      const response = buildResponse(state, 3)
+      invokeXhrCallback('onreadystatechange', details.onreadystatechange, response)
+      invokeXhrCallback('onprogress', details.onprogress, {
+        ...response,
+        loaded: state.loaded,
+        total: state.total ?? 0,
+        lengthComputable: state.total != null,
+      })
+      return false
+    }
+    default:
+      finishXhr(state, event)
+      return true
+  }
+}
+
+/**
+ * Route one `XHR_EVENT` from the content bridge to its request.
+ * @param payload `{ xhrId, event }`
+ */
+export function handlePageXhrEvent(payload: unknown): void {
+  if (!payload || typeof payload !== 'object') {
+    return
+  }
+  const { xhrId, event } = payload as { xhrId?: unknown; event?: BridgeXhrEvent }
+  const state = typeof xhrId === 'string' ? activeXhrs.get(xhrId) : undefined
+  if (!state || !event || typeof event.type !== 'string') {
+    return
+  }
+  if (applyXhrEvent(state, event)) {
+    activeXhrs.delete(xhrId as string)
+  }
+}
+
+/**
+ * `GM_xmlhttpRequest`: permission check, then a streamed background fetch.
+ * @param details Tampermonkey request details
+ * @returns Handle whose `abort()` cancels the fetch (fires `onabort`)
+ */
+export function gmXmlhttpRequest(details: GMRequestDetails): GMRequestHandle {
+  const xhrId = `xhr-${++xhrSeq}-${Date.now().toString(36)}`
+  const url = String(details.url ?? '')
+  const state: PageXhr = { details, text: '', chunks: [], loaded: 0, total: null }
+  const enforced = isScriptPermissionEnforced()
+  const permissionContext = enforced ? getActiveScriptPermissionContext() : null
+  const permissionRequest = enforced ? buildXhrPermissionRequest(url, permissionContext) : undefined
+  let aborted = false
+
+  void (async () => {
+    try {
+      if (enforced) {
+        if (!permissionRequest) {
+          throw new ScriptPermissionDeniedError('Invalid request URL for network permission')
+        }
+        await ensureScriptPermission('network', permissionRequest.resource, permissionContext)
+      }
+      const payload = await buildBridgeXhrDetails(details, url)
+      if (aborted) {
+        finishXhr(state, { type: 'abort' })
+        return
+      }
+      activeXhrs.set(xhrId, state)
+      await sendPageBridgeRequest('xhrStart', [xhrId, payload, permissionRequest])
+    } catch (err) {
+      activeXhrs.delete(xhrId)
+      invokeXhrCallback('onerror', details.onerror, err)
+    }
+  })()
+
+  return {
+    abort: () => {
+      if (aborted) {
+        return
+      }
+      aborted = true
+      if (activeXhrs.has(xhrId)) {
+        void sendPageBridgeRequest('xhrAbort', [xhrId]).catch((error) => {
+          gmLogger.debug('xhrAbort failed:', error)
+        })
+      }
+    },
+  }
+}
+
+/**
+ * `GM.xmlHttpRequest`: same request, settled as a promise; per-request callbacks still run.
+ * @param details Tampermonkey request details
+ * @returns Promise of the final response with an `abort()` method
+ */
+export function gmXmlHttpRequestAsync(details: GMRequestDetails): Promise<GMResponse> & GMRequestHandle {
+  let handle: GMRequestHandle | undefined
+  const promise = new Promise<GMResponse>((resolve, reject) => {
+    handle = gmXmlhttpRequest({
+      ...details,
+      // Settle before the user's callback: a throwing callback must not leave the promise pending.
+      onload: (response) => {
+        resolve(response)
+        details.onload?.(response)
+      },
+      onerror: (error) => {
+        reject(error)
+        details.onerror?.(error)
+      },
+      ontimeout: (error) => {
+        reject(error)
+        details.ontimeout?.(error)
+      },
+      onabort: (error) => {
+        reject(error)
+        details.onabort?.(error)
+      },
+    })
+  })
+  return Object.assign(promise, { abort: () => handle?.abort() })
+}
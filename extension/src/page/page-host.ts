@@ -79,6 +79,7 @@ export function startPageHost(gm: GMApi, options: PageHostStartOptions): void {
 
   let runtimeScriptUrl = resolveRuntimeScriptUrl(gm, scopedScriptBundleUrlKey, globals)
   let lastScriptPolicies: RuntimePresetReadyPayload['scriptPolicies'] = {}
+  let lastRuleSet: RuntimePresetReadyPayload['ruleSet'] = null
   let otaManualUpdateForLoad = false
   let presetExecuted = false
 
@@ -242,6 +243,7 @@ export function startPageHost(gm: GMApi, options: PageHostStartOptions): void {
     g.__VWS_SCRIPT_KEY__ = scriptKey
     g.__VWS_ENABLED_SCRIPTS__ = enabledScripts
     g.__VWS_SCRIPT_POLICIES__ = lastScriptPolicies
+    g.__VWS_RULE_SET__ = lastRuleSet
     g.__VWS_OTA_MANUAL_UPDATE__ = otaManualUpdateForLoad
     setActiveGmScope(gmScope)
     const launcherGlobals: Record<string, string | boolean> = {
@@ -297,6 +299,7 @@ export function startPageHost(gm: GMApi, options: PageHostStartOptions): void {
     }
     runtimeScriptUrl = payload.runtimeScriptUrl || runtimeScriptUrl
     lastScriptPolicies = payload.scriptPolicies
+    lastRuleSet = payload.ruleSet ?? null
     otaManualUpdateForLoad = payload.otaManualUpdate
     const payloadGlobals = resolvePayloadGlobals(payload.globals)
     bootLog('info', 'runtime:preset-ready from background loader')
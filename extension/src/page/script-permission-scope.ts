@@ -13,6 +13,9 @@ import {
   readPermissionHosts,
   readScriptPermissionStack,
   SCRIPT_CONTENT_HASH_MAP_KEY,
+  SCRIPT_PERMISSION_GATE_KEY,
+  type ScriptPermissionGate,
+  type ScriptPermissionStackFrame,
 } from '@shared/script-permission-scope'
 
 import { sendPageBridgeRequest } from './page-bridge-client'
@@ -65,9 +68,12 @@ function readContentHashByFile(): Record<string, string> {
 }
 
 export function getActiveScriptPermissionContext(): ScriptPermissionContext | null {
-  const scriptKey = readScriptKeyFromGlobal()
   const stack = readScriptPermissionStack()
-  const frame = stack[stack.length - 1]
+  return buildScriptPermissionContext(stack[stack.length - 1])
+}
+
+function buildScriptPermissionContext(frame: ScriptPermissionStackFrame | undefined): ScriptPermissionContext | null {
+  const scriptKey = readScriptKeyFromGlobal()
   if (!scriptKey || !frame?.file) {
     return null
   }
@@ -154,6 +160,49 @@ export async function ensureScriptPermissionRequest(request: ScriptPermissionReq
   }
 }
 
+/** Background prompts started by {@link ensureScriptPermissionSync}, by registry-style key. */
+const pendingSyncPermissionKeys = new Set<string>()
+
+/**
+ * Gate a synchronous API (no await possible): passes once the page has an allow cached, otherwise starts the
+ * prompt in the background and throws so the script can retry after granting (like `unsafeWindow`).
+ * @param capability Permission capability id
+ * @param resource Resource key
+ */
+export function ensureScriptPermissionSync(capability: ScriptPermissionCapability, resource: string): void {
+  if (!isScriptPermissionEnforced()) {
+    return
+  }
+  const request = buildRequest(capability, resource)
+  if (!request) {
+    throw new ScriptPermissionDeniedError('No active script permission context')
+  }
+  if (isPagePermissionAllowed(request)) {
+    return
+  }
+  const pendingKey = `${request.scriptKey}:${request.file}:${capability}:${resource}`
+  if (!pendingSyncPermissionKeys.has(pendingKey)) {
+    pendingSyncPermissionKeys.add(pendingKey)
+    void ensureScriptPermissionRequest(request)
+      .catch((error) => permissionLogger.warn('ensureSync:denied', { file: request.file, capability, resource, error: String(error) }))
+      .finally(() => pendingSyncPermissionKeys.delete(pendingKey))
+  }
+  throw new ScriptPermissionDeniedError(`${formatPermissionCapabilityLabel(capability)} permission required for ${request.file} (${resource}) — retry after granting`)
+}
+
+/** Expose the gate to preset services (`TabCommunication`, `GME_registerWebMcpTool`, `GME_getSettings`). */
+export function installScriptPermissionGate(): void {
+  const gate: ScriptPermissionGate = {
+    ensure: (capability, resource) => ensureScriptPermission(capability, resource, getActiveScriptPermissionContext()),
+    ensureSync: ensureScriptPermissionSync,
+    isAllowedSync: (capability, resource, frame) => {
+      const request = buildRequest(capability, resource, frame ? buildScriptPermissionContext(frame) : getActiveScriptPermissionContext())
+      return !!request && isPagePermissionAllowed(request)
+    },
+  }
+  ;(globalThis as Record<string, unknown>)[SCRIPT_PERMISSION_GATE_KEY] = gate
+}
+
 /**
  * Pre-authorize @connect hosts for the current tab session (no prompt).
  * @param connects Hosts from script metadata `@connect`
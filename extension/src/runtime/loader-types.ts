@@ -1,3 +1,4 @@
+import type { RuntimeRuleSet, RuntimeRuleSetTarget } from '@shared/rule-set-ota'
 import type { RuntimeScriptModuleCatalogEntry } from '@shared/runtime-script-modules'
 import type { ScriptOtaPolicy } from '@shared/script-ota-policy'
 
@@ -38,6 +39,7 @@ export interface LoaderModuleManifest {
   }
   scriptPolicies?: Record<string, ScriptOtaPolicy & { version?: string }>
   scriptModules?: RuntimeScriptModuleCatalogEntry[]
+  ruleSet?: RuntimeRuleSet
 }
 
 /** Payload relayed to page world when preset is ready. */
@@ -47,6 +49,8 @@ export interface RuntimePresetReadyPayload {
   globals: Record<string, string | boolean>
   runtimeScriptUrl: string
   scriptPolicies: Record<string, ScriptOtaPolicy & { version?: string }>
+  /** Rule set for this entry's track (alpha when it accepts alpha builds); null without a manifest rule set */
+  ruleSet: RuntimeRuleSetTarget | null
   otaManualUpdate: boolean
   enabledScripts: Record<string, boolean>
   contentHashByFile: Record<string, string>
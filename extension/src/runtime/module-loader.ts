@@ -10,12 +10,14 @@ import {
   PRESET_PREVIOUS_HASH_KEY,
   PRESET_PROJECT_VERSION_KEY,
   RUNTIME_OTA_STAGE_KEY,
+  RUNTIME_RULE_SET_KEY,
   RUNTIME_SCRIPT_LOAD_MODE_KEY,
   RUNTIME_SCRIPT_MODULES_KEY,
   RUNTIME_SCRIPT_POLICIES_KEY,
   SCRIPT_BUNDLE_URL_KEY,
 } from '@shared/launcher-constants'
 import { decideOtaModuleApply } from '@shared/ota-apply-policy'
+import { type RuntimeRuleSet, selectRuntimeRuleSet } from '@shared/rule-set-ota'
 import type { ScriptOtaPolicy } from '@shared/script-ota-policy'
 import { createTraceId, normalizeTraceId } from '@shared/trace-id'
 
@@ -122,6 +124,18 @@ async function readCachedScriptPolicies(cacheScope: string): Promise<Record<stri
   }
 }
 
+async function readCachedRuleSet(cacheScope: string): Promise<RuntimeRuleSet | null> {
+  const raw = (await readScopedGmValue(`${RUNTIME_RULE_SET_KEY}:${cacheScope}`, RUNTIME_RULE_SET_KEY, '')) as string
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return null
+  }
+  try {
+    return JSON.parse(raw) as RuntimeRuleSet
+  } catch {
+    return null
+  }
+}
+
 async function persistProjectVersionFromManifest(data: LoaderModuleManifest | null | undefined, cacheScope: string): Promise<void> {
   const version = data?.projectVersion
   if (typeof version === 'string' && version.trim()) {
@@ -137,6 +151,9 @@ async function persistProjectVersionFromManifest(data: LoaderModuleManifest | nu
   if (Array.isArray(data?.scriptModules)) {
     await writeScopedGmValue(`${RUNTIME_SCRIPT_MODULES_KEY}:${cacheScope}`, RUNTIME_SCRIPT_MODULES_KEY, JSON.stringify(data.scriptModules))
   }
+  if (data) {
+    await writeScopedGmValue(`${RUNTIME_RULE_SET_KEY}:${cacheScope}`, RUNTIME_RULE_SET_KEY, data.ruleSet ? JSON.stringify(data.ruleSet) : '')
+  }
 }
 
 async function applyScriptBundleUrlFromManifest(
@@ -280,12 +297,14 @@ async function buildReadyPayload(
     g.__SCRIPT_URL__ = runtimeScriptUrl
   }
   const scriptPolicies = manifest?.scriptPolicies ?? (await readCachedScriptPolicies(ctx.cacheScope))
+  const ruleSet = selectRuntimeRuleSet(manifest ? manifest.ruleSet : await readCachedRuleSet(ctx.cacheScope), ctx.acceptAlpha ? 'alpha' : 'stable')
   return {
     scriptKey: ctx.entry.scriptKey,
     gmScope: ctx.entry.gmScope,
     globals: g,
     runtimeScriptUrl: runtimeScriptUrl || String(ctx.urls.globals.__SCRIPT_URL__ || ''),
     scriptPolicies,
+    ruleSet,
     otaManualUpdate: ctx.otaManualUpdate,
     enabledScripts: ctx.entry.enabledScripts,
     contentHashByFile: ctx.entry.contentHashByFile ?? {},
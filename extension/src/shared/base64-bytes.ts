@@ -0,0 +1,28 @@
+/** Base64 ↔ bytes for binary payloads over extension messaging (JSON-only). */
+
+const CHUNK_SIZE = 0x8000
+
+/**
+ * @param bytes Raw bytes
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE))
+  }
+  return btoa(binary)
+}
+
+/**
+ * @param base64 Base64 string
+ * @returns Decoded bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
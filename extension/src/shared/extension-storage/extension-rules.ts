@@ -1,7 +1,8 @@
+import { normalizeRuleConditions, resolveRuleDecision as resolveSharedRuleDecision, type RuleEvaluationContext } from '@shared/rule-engine'
+
 import type { ExtensionConfig } from '../../types'
 import { scriptKeyRulesStorageKey } from '../extension-multi-service-pure'
 import { formatScriptSelectLabel, getEnabledScriptKeys, normalizeBaseUrl, normalizeScriptKey, resolveOtaEndpoint } from '../extension-services'
-import { matchUrl } from '../match-url'
 import { RULES_STORAGE_KEY } from './constants'
 import { dedupeManagedScriptListByFile, loadManagedScriptListFromCacheForScriptKey, loadScriptKeyScriptsGroupsFromCache } from './script-list-cache'
 import { ensureExtensionServicesState, serviceProfileToExtensionConfig } from './services-state'
@@ -20,10 +21,21 @@ function parseExtensionRules(raw: unknown): ExtensionRuleEntry[] {
         typeof (r as ExtensionRuleEntry).wildcard === 'string' &&
         typeof (r as ExtensionRuleEntry).script === 'string'
     )
-    .map((rule) => ({
-      ...rule,
-      mode: rule.mode === 'include' || rule.mode === 'exclude' || rule.mode === 'script' ? rule.mode : 'script',
-    }))
+    .map((rule) => normalizeExtensionRule(rule))
+}
+
+/**
+ * Normalize mode, priority and conditions of a stored or synced rule.
+ */
+function normalizeExtensionRule(rule: ExtensionRuleEntry): ExtensionRuleEntry {
+  const { priority, conditions, ...rest } = rule
+  const normalizedConditions = normalizeRuleConditions(conditions)
+  return {
+    ...rest,
+    mode: rule.mode === 'include' || rule.mode === 'exclude' || rule.mode === 'script' ? rule.mode : 'script',
+    ...(typeof priority === 'number' && Number.isFinite(priority) && priority !== 0 ? { priority } : {}),
+    ...(normalizedConditions ? { conditions: normalizedConditions } : {}),
+  }
 }
 
 export async function loadScriptKeyRules(scriptKey: string): Promise<ExtensionRuleEntry[]> {
@@ -252,22 +264,32 @@ export function countMatchingRules(rules: ExtensionRuleEntry[], url: string): nu
   return matched
 }
 
-function matchesRuleMode(rules: ExtensionRuleEntry[], url: string, mode: 'include' | 'exclude' | 'script'): boolean {
-  return rules.some((rule) => rule.enabled !== false && (rule.mode ?? 'script') === mode && rule.wildcard && matchUrl(rule.wildcard, url))
+/**
+ * Condition facts known outside the page: the user agent. Frame, cookie, localStorage and DOM conditions
+ * are left to the in-page check when the script starts.
+ */
+function extensionRuleContext(): RuleEvaluationContext {
+  return typeof navigator !== 'undefined' ? { userAgent: navigator.userAgent } : {}
 }
 
-export function resolveRuleDecision(rules: ExtensionRuleEntry[], url: string): { matched: boolean; source: 'include' | 'exclude' | 'script' | 'none' } {
+/**
+ * Decide a URL from one script's rules with the shared rule engine (priority, enabled flag, conditions).
+ * A script without rules matches every http(s) URL.
+ * @param rules Rules of one script
+ * @param url Tab URL
+ * @param context Condition facts; defaults to what the extension knows outside the page
+ */
+export function resolveRuleDecision(
+  rules: ExtensionRuleEntry[],
+  url: string,
+  context: RuleEvaluationContext = extensionRuleContext()
+): { matched: boolean; source: 'include' | 'exclude' | 'script' | 'none' } {
   if (!url.startsWith('http://') && !url.startsWith('https://')) {
     return { matched: false, source: 'none' }
   }
-  if (matchesRuleMode(rules, url, 'include')) {
-    return { matched: true, source: 'include' }
-  }
-  if (matchesRuleMode(rules, url, 'exclude')) {
-    return { matched: false, source: 'exclude' }
-  }
-  if (matchesRuleMode(rules, url, 'script')) {
-    return { matched: true, source: 'script' }
+  const { matched, source } = resolveSharedRuleDecision(rules, url, context)
+  if (source !== 'none') {
+    return { matched, source }
   }
   if (rules.length === 0) {
     return { matched: true, source: 'none' }
@@ -291,17 +313,21 @@ export async function syncRulesFromServer(config: ExtensionConfig): Promise<Exte
   if (!res.ok) {
     throw new Error(`Rules API HTTP ${res.status}`)
   }
-  const body = (await res.json()) as { code?: number; data?: Array<{ id: string; wildcard: string; script: string }> }
+  const body = (await res.json()) as { code?: number; data?: Array<Omit<ExtensionRuleEntry, 'enabled'> & { enabled?: boolean }> }
   if (body.code !== 0 || !Array.isArray(body.data)) {
     throw new Error('Invalid rules API response')
   }
-  const rules: ExtensionRuleEntry[] = body.data.map((r) => ({
-    id: r.id,
-    wildcard: r.wildcard,
-    script: r.script,
-    enabled: true,
-    mode: 'script',
-  }))
+  const rules: ExtensionRuleEntry[] = body.data.map((r) =>
+    normalizeExtensionRule({
+      id: r.id,
+      wildcard: r.wildcard,
+      script: r.script,
+      enabled: r.enabled !== false,
+      mode: r.mode === 'exclude' ? 'exclude' : 'script',
+      priority: r.priority,
+      conditions: r.conditions,
+    })
+  )
   await saveScriptKeyRules(scriptKey, rules)
   const { invalidateTabMatchCache } = await import('../tab-match-cache')
   await invalidateTabMatchCache()
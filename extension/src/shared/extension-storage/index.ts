@@ -30,6 +30,7 @@ export * from './script-list-cache'
 export * from './script-permission-history'
 export * from './script-permission-registry'
 export * from './script-permission-session'
+export * from './script-settings'
 export { refreshExtensionServiceData } from './service-data-sync'
 export * from './services-crud'
 export {
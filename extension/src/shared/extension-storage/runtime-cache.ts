@@ -10,6 +10,7 @@ import {
   PRESET_UPDATE_CHANNEL_KEY,
   PRESET_UPDATED_NOTIFY_KEY,
   RUNTIME_OTA_STAGE_KEY,
+  RUNTIME_RULE_SET_KEY,
   RUNTIME_SCRIPT_LOAD_MODE_KEY,
   RUNTIME_SCRIPT_MODULES_KEY,
   RUNTIME_STATE_KEY_PREFIX,
@@ -89,6 +90,7 @@ function scopedKeys(config: ExtensionConfig): string[] {
     `${SCRIPT_BUNDLE_URL_KEY}:${scope}`,
     `${RUNTIME_SCRIPT_LOAD_MODE_KEY}:${scope}`,
     `${RUNTIME_SCRIPT_MODULES_KEY}:${scope}`,
+    `${RUNTIME_RULE_SET_KEY}:${scope}`,
   ]
 }
 
@@ -1,5 +1,6 @@
 import { isManagedScriptFilename } from '@shared/managed-script-files'
 import { resolveScriptOtaPolicy, type ScriptOtaPolicy } from '@shared/script-ota-policy'
+import { normalizeScriptSettingFields } from '@shared/script-settings'
 
 import type { ExtensionConfig, PageBootstrapConfig } from '../../types'
 import { buildScriptKeyBootstrapEntriesFromState, scriptKeyListCacheStorageKey } from '../extension-multi-service-pure'
@@ -19,7 +20,7 @@ import { ensureExtensionServicesState, loadScriptKeyGroupMeta, serviceProfileToE
 import type { ManagedScriptListEntry, ScriptKeyScriptsGroupView, ScriptListCache } from './types'
 
 /** Increment when {@link ManagedScriptListEntry} / scripts API display fields change. */
-export const SCRIPT_LIST_META_SCHEMA = 3
+export const SCRIPT_LIST_META_SCHEMA = 4
 
 function scriptListScope(config: ExtensionConfig): string {
   return `${config.baseUrl}|${config.scriptKey}`
@@ -94,6 +95,7 @@ function parseManagedScriptRows(data: unknown): ManagedScriptListEntry[] {
     const updatedAt = typeof updatedAtRaw === 'number' && Number.isFinite(updatedAtRaw) ? updatedAtRaw : undefined
     const otaRaw = (row as { ota?: Partial<ScriptOtaPolicy> }).ota
     const ota = otaRaw && typeof otaRaw === 'object' ? resolveScriptOtaPolicy(otaRaw) : undefined
+    const settings = normalizeScriptSettingFields((row as ManagedScriptListEntry).settings)
     list.push({
       file,
       name,
@@ -104,6 +106,7 @@ function parseManagedScriptRows(data: unknown): ManagedScriptListEntry[] {
       ...(contentHash ? { contentHash } : {}),
       ...(updatedAt !== undefined ? { updatedAt } : {}),
       ...(ota ? { ota } : {}),
+      ...(settings.length > 0 ? { settings } : {}),
     })
   }
   return dedupeManagedScriptListByFile(list)
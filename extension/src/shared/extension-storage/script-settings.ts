@@ -0,0 +1,43 @@
+import { buildScriptSettingsGmKey, resolveScriptSettings, type ScriptSettingField, type ScriptSettings } from '@shared/script-settings'
+
+import { gmStorageKey } from './runtime-cache'
+import { loadGmScopeForScriptKey } from './services-state'
+
+/**
+ * chrome.storage.local key of a script's saved `@setting` values — the GM bridge key pages read them from.
+ * @param gmScope scriptKey GM namespace
+ * @param file Managed script filename
+ */
+export function scriptSettingsStorageKey(gmScope: string, file: string): string {
+  const logical = buildScriptSettingsGmKey(file)
+  return gmStorageKey(gmScope.trim() ? `${gmScope.trim()}_${logical}` : logical)
+}
+
+/**
+ * Effective settings of one script (saved values, defaults for the rest).
+ * @param scriptKey Script key scope
+ * @param fallbackLabel gmScope fallback when scriptKey meta is missing (service base URL)
+ * @param file Managed script filename
+ * @param fields `@setting` declarations from the script list
+ */
+export async function readScriptSettings(scriptKey: string, fallbackLabel: string, file: string, fields: ScriptSettingField[]): Promise<ScriptSettings> {
+  const key = scriptSettingsStorageKey(await loadGmScopeForScriptKey(scriptKey, fallbackLabel), file)
+  const result = await chrome.storage.local.get([key])
+  return resolveScriptSettings(fields, result[key])
+}
+
+/**
+ * Persist one script's settings; `null` clears them so scripts fall back to header defaults.
+ * @param scriptKey Script key scope
+ * @param fallbackLabel gmScope fallback when scriptKey meta is missing (service base URL)
+ * @param file Managed script filename
+ * @param settings Values to save, or null to reset
+ */
+export async function writeScriptSettings(scriptKey: string, fallbackLabel: string, file: string, settings: ScriptSettings | null): Promise<void> {
+  const key = scriptSettingsStorageKey(await loadGmScopeForScriptKey(scriptKey, fallbackLabel), file)
+  if (settings === null) {
+    await chrome.storage.local.remove(key)
+    return
+  }
+  await chrome.storage.local.set({ [key]: settings })
+}
@@ -9,6 +9,7 @@ export interface UpsertServiceInput {
 }
 
 import type { ScriptOtaPolicy } from '@shared/script-ota-policy'
+import type { ScriptSettingField } from '@shared/script-settings'
 
 export interface ManagedScriptListEntry {
   file: string
@@ -27,6 +28,8 @@ export interface ManagedScriptListEntry {
   updatedAt?: number
   /** SHA-256 from script index when available (used to confirm uninstall blacklist identity). */
   contentHash?: string
+  /** Userscript `@setting` declarations (Scripts page settings form) */
+  settings?: ScriptSettingField[]
 }
 
 export interface ScriptListCache {
@@ -44,6 +47,9 @@ export interface ExtensionRuleEntry {
   script: string
   enabled: boolean
   mode?: 'include' | 'exclude' | 'script'
+  /** Higher-priority rules decide first; 0 when omitted */
+  priority?: number
+  conditions?: RuleConditions
 }
 
 export interface QuickAddRuleContextItem {
@@ -56,6 +62,7 @@ export interface ScriptKeyScriptsGroupView extends ScriptKeyGroupMeta {
   scripts: ManagedScriptListEntry[]
 }
 
+import type { RuleConditions } from '@shared/rule-engine'
 import type { ScriptPermissionMode } from '@shared/script-permission'
 
 export interface SaveOptionsServiceInput {
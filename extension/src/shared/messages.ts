@@ -10,19 +10,38 @@ import type {
 import type { ShellLogOutputMode } from '@shared/shell-log-output'
 
 import type { RuntimeLoadResult } from '../runtime/loader-types'
+import type { BackgroundScriptGmCall, BackgroundScriptRunRequest, BackgroundScriptRunResult } from '../shell/background-scripts/background-script-types'
 import type { PermissionModalResultPayload } from '../shell/permission-manager'
 import type { AgentLlmGenerateResult, AgentLlmMessage, AgentLlmModelInfo, AgentLlmToolDefinition } from '../shell/webmcp/agent-types'
 import type { WebMcpProxyResult } from '../shell/webmcp/webmcp-types'
 import type { DebugLogAppendInput, DebugLogEntry } from './debug-log-types'
+import type { MenuCommandEntry } from './tab-menu-commands'
 
 /** Background ↔ popup/content message types (MVP). */
 export interface BridgeXhrDetails {
   method?: string
   url: string
   headers?: Record<string, string>
+  /** Request body; binary bodies (Blob, ArrayBuffer, FormData) travel base64-encoded */
   data?: string
+  dataEncoding?: 'text' | 'base64'
+  /** Whole request, headers and body, in ms */
   timeout?: number
   responseType?: 'arraybuffer' | 'blob' | 'json' | 'stream' | 'text'
+  /** Charset source for text responses instead of the response `content-type` */
+  overrideMimeType?: string
+  /** Do not send the browser's cookies for the target site */
+  anonymous?: boolean
+  /** Extra cookies appended to the request `Cookie` header (`a=1; b=2`) */
+  cookie?: string
+  redirect?: 'follow' | 'error' | 'manual'
+  /** Bypass the HTTP cache */
+  nocache?: boolean
+  /** Revalidate cached content */
+  revalidate?: boolean
+  /** HTTP basic auth; ignored when `headers` already has `Authorization` */
+  user?: string
+  password?: string
   /** Permission context verified in background before fetch (defense in depth). */
   permission?: ScriptPermissionRequest
 }
@@ -31,10 +50,64 @@ export interface BridgeXhrResponse {
   status: number
   statusText: string
   responseText: string
+  /** Body bytes for `arraybuffer` / `blob` / `stream` response types (`responseText` stays empty) */
+  responseBase64?: string
   responseHeaders?: string
   finalUrl?: string
 }
 
+/** Content script → background port for one streamed `GM_xmlhttpRequest` (one port per request). */
+export const GM_XHR_PORT_NAME = 'vws-gm-xhr'
+
+export type BridgeXhrPortRequest = { type: 'start'; details: BridgeXhrDetails } | { type: 'abort' }
+
+/**
+ * Background → content → page events of a streamed request, in order:
+ * `headers`, any number of `chunk`s, then exactly one of `load` / `error` / `timeout` / `abort`.
+ */
+export type BridgeXhrEvent =
+  | { type: 'headers'; status: number; statusText: string; responseHeaders: string; finalUrl: string; total: number | null }
+  /** Text chunks for text / json responses, base64 otherwise; `loaded` counts body bytes so far */
+  | { type: 'chunk'; data: string; encoding: 'text' | 'base64'; loaded: number; total: number | null }
+  | { type: 'load' }
+  | { type: 'error'; error: string }
+  | { type: 'timeout' }
+  | { type: 'abort' }
+
+/** `GM_cookie` filter / cookie fields (Tampermonkey shape); the page fills `url` from `location.href` when neither `url` nor `domain` is set. */
+export interface BridgeCookieDetails {
+  url?: string
+  domain?: string
+  name?: string
+  path?: string
+  value?: string
+  secure?: boolean
+  httpOnly?: boolean
+  sameSite?: 'no_restriction' | 'lax' | 'strict' | 'unspecified'
+  /** Seconds since the epoch; omit for a session cookie */
+  expirationDate?: number
+}
+
+export interface BridgeCookie {
+  domain: string
+  hostOnly: boolean
+  httpOnly: boolean
+  name: string
+  path: string
+  sameSite: string
+  secure: boolean
+  session: boolean
+  value: string
+  expirationDate?: number
+}
+
+/** One `GM_webRequest` rule: URL globs plus a cancel / redirect action. */
+export interface BridgeWebRequestRule {
+  selector: string | { include?: string | string[]; match?: string | string[]; exclude?: string | string[] }
+  /** `redirect.from` / `to` is a regex rewrite (`$1` back-references) */
+  action: 'cancel' | { cancel?: boolean; redirect?: string | { from: string; to: string } }
+}
+
 export interface WebConnectDetails {
   baseUrl: string
   scriptKey: string
@@ -138,6 +211,11 @@ export type ShellMessage =
     }
   | { type: 'VWS_PERMISSION_MODAL_RESULT'; payload: PermissionModalResultPayload }
   | { type: 'GM_XHR'; details: BridgeXhrDetails }
+  | { type: 'GM_COOKIE'; action: 'list' | 'set' | 'delete'; details: BridgeCookieDetails; permission?: ScriptPermissionRequest }
+  /** Per-tab objects for `GM_getTab` / `GM_saveTab` / `GM_getTabs`, namespaced by GM scope */
+  | { type: 'GM_TAB_OBJECT'; action: 'get' | 'save' | 'list'; scope: string; tab?: unknown; permission?: ScriptPermissionRequest }
+  | { type: 'GM_WEB_REQUEST'; rules: BridgeWebRequestRule[]; permission?: ScriptPermissionRequest }
+  | { type: 'GM_WEB_REQUEST_REMOVE'; ruleIds: number[] }
   | {
       type: 'CAPTURE_VISIBLE_TAB'
       options: { format?: 'png' | 'jpeg'; quality?: number }
@@ -149,6 +227,10 @@ export type ShellMessage =
   | { type: 'PAGE_BOOTSTRAP_SKIPPED'; details: { url: string; reason: 'no-config' | 'non-html' } }
   | { type: 'SCRIPT_TRIGGERED'; details: ScriptTriggeredDetails }
   | { type: 'SCRIPT_FAILED'; details: ScriptTriggeredDetails }
+  /** Content → background: the top frame's current `GM_registerMenuCommand` list (normalized in background). */
+  | { type: 'SET_MENU_COMMANDS'; details: { commands: unknown } }
+  | { type: 'GET_TAB_MENU_COMMANDS' }
+  | { type: 'RUN_MENU_COMMAND'; id: string }
   | { type: 'APPEND_DEBUG_LOG'; details: DebugLogAppendInput | { entries: DebugLogAppendInput[] } }
   | { type: 'GET_DEBUG_LOGS' }
   | { type: 'GET_INCOGNITO_LOG_COLLECTION' }
@@ -174,6 +256,10 @@ export type ShellMessage =
         }>
       }
     }
+  /** Service worker → offscreen runner: run one background script payload. */
+  | { type: 'BACKGROUND_SCRIPT_EXECUTE'; request: BackgroundScriptRunRequest }
+  /** Offscreen runner → service worker: GM call of a running background script. */
+  | { type: 'BACKGROUND_SCRIPT_GM'; runId: string; call: BackgroundScriptGmCall }
   | { type: 'OPEN_SIDE_PANEL' }
   | { type: 'WEBMCP_GET_SUPPORT'; tabId: number }
   | { type: 'WEBMCP_LIST_TOOLS'; tabId: number }
@@ -250,6 +336,9 @@ export type ShellResponse =
     }
   | { ok: true; xhr: BridgeXhrResponse }
   | { ok: true; dataUrl: string }
+  | { ok: true; cookies?: BridgeCookie[] }
+  | { ok: true; tabObject?: unknown; tabObjects?: Record<string, unknown> }
+  | { ok: true; webRequestRuleIds?: number[] }
   | { ok: true; quickAddRuleContext?: { activeTabUrl: string; items: QuickAddRuleContextItem[] } }
   | { ok: true; shellEnabled?: boolean }
   | { ok: true; debugLogs?: DebugLogEntry[] }
@@ -281,7 +370,9 @@ export type ShellResponse =
       }>
     }
   | { ok: true; removed?: boolean }
+  | { ok: true; menuCommands?: MenuCommandEntry[] }
   | { ok: true; runtimeLoadResults?: RuntimeLoadResult[] }
+  | { ok: true; backgroundRun?: BackgroundScriptRunResult }
   | { ok: true; cspReloadScheduled?: boolean }
   | { ok: true; webmcp?: WebMcpProxyResult<unknown> }
   | { ok: true; agentLlm?: AgentLlmGenerateResult }
@@ -0,0 +1,140 @@
+/** Session-persisted `GM_registerMenuCommand` entries per tab (popup list, context menu). Survives MV3 service worker restarts. */
+export const TAB_MENU_COMMANDS_SESSION_KEY = 'vws_tab_menu_commands'
+
+/** One registered menu command as reported by the page (top frame). */
+export interface MenuCommandEntry {
+  /** Page-local command id (`GM_registerMenuCommand` return value) */
+  id: string
+  caption: string
+  /** Single character that runs the command while the popup is open */
+  accessKey?: string
+  /** Tooltip */
+  title?: string
+  /** Close the popup after running; defaults to true */
+  autoClose?: boolean
+  /** Managed script that registered the command; absent for preset / shell commands */
+  file?: string
+  scriptKey?: string
+}
+
+const tabMenuCommands = new Map<number, MenuCommandEntry[]>()
+
+/** Single-flight hydration; cleared when simulating a service-worker restart. */
+let hydratePromise: Promise<void> | undefined
+
+/**
+ * Keep well-formed entries from an untrusted page report (first entry wins per id).
+ * @param raw Reported commands
+ */
+export function normalizeMenuCommandEntries(raw: unknown): MenuCommandEntry[] {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+  const seen = new Set<string>()
+  const entries: MenuCommandEntry[] = []
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') {
+      continue
+    }
+    const { id, caption, accessKey, title, autoClose, file, scriptKey } = item as Record<string, unknown>
+    if (typeof id !== 'string' || !id || seen.has(id) || typeof caption !== 'string' || !caption.trim()) {
+      continue
+    }
+    seen.add(id)
+    entries.push({
+      id,
+      caption: caption.trim(),
+      ...(typeof accessKey === 'string' && accessKey.trim() ? { accessKey: accessKey.trim().charAt(0) } : {}),
+      ...(typeof title === 'string' && title.trim() ? { title: title.trim() } : {}),
+      ...(autoClose === false ? { autoClose: false } : {}),
+      ...(typeof file === 'string' && file ? { file } : {}),
+      ...(typeof scriptKey === 'string' && scriptKey ? { scriptKey } : {}),
+    })
+  }
+  return entries
+}
+
+/**
+ * Drop in-memory commands and the hydration latch (session storage unchanged).
+ * Simulates an MV3 service-worker restart for tests.
+ */
+export function simulateTabMenuCommandsServiceWorkerRestart(): void {
+  tabMenuCommands.clear()
+  hydratePromise = undefined
+}
+
+function ensureTabMenuCommandsHydrated(): Promise<void> {
+  if (!hydratePromise) {
+    hydratePromise = loadTabMenuCommandsFromSession()
+  }
+  return hydratePromise
+}
+
+async function loadTabMenuCommandsFromSession(): Promise<void> {
+  try {
+    const result = await chrome.storage.session.get(TAB_MENU_COMMANDS_SESSION_KEY)
+    const raw = result[TAB_MENU_COMMANDS_SESSION_KEY] as Record<string, unknown> | undefined
+    if (!raw || typeof raw !== 'object') {
+      return
+    }
+    tabMenuCommands.clear()
+    for (const [key, commands] of Object.entries(raw)) {
+      const tabId = Number(key)
+      const entries = normalizeMenuCommandEntries(commands)
+      if (Number.isFinite(tabId) && entries.length > 0) {
+        tabMenuCommands.set(tabId, entries)
+      }
+    }
+  } catch {
+    // session storage may be unavailable in older Chromium builds
+  }
+}
+
+async function persistTabMenuCommands(): Promise<void> {
+  const blob: Record<string, MenuCommandEntry[]> = {}
+  for (const [tabId, commands] of tabMenuCommands) {
+    blob[String(tabId)] = commands
+  }
+  try {
+    await chrome.storage.session.set({ [TAB_MENU_COMMANDS_SESSION_KEY]: blob })
+  } catch {
+    // ignore persistence errors
+  }
+}
+
+/**
+ * @param tabId Chrome tab id
+ * @returns Commands registered by the tab's current document, in registration order
+ */
+export async function getTabMenuCommands(tabId: number): Promise<MenuCommandEntry[]> {
+  await ensureTabMenuCommandsHydrated()
+  return tabMenuCommands.get(tabId) ?? []
+}
+
+/**
+ * Replace the tab's commands with the page's latest snapshot.
+ * @param tabId Chrome tab id
+ * @param commands Reported commands (normalized here)
+ */
+export async function setTabMenuCommands(tabId: number, commands: unknown): Promise<void> {
+  await ensureTabMenuCommandsHydrated()
+  const entries = normalizeMenuCommandEntries(commands)
+  if (entries.length === 0) {
+    await clearTabMenuCommands(tabId)
+    return
+  }
+  tabMenuCommands.set(tabId, entries)
+  await persistTabMenuCommands()
+}
+
+/**
+ * Drop commands for a closed tab or a new document.
+ * @param tabId Chrome tab id
+ */
+export async function clearTabMenuCommands(tabId: number): Promise<void> {
+  await ensureTabMenuCommandsHydrated()
+  if (!tabMenuCommands.delete(tabId)) {
+    return
+  }
+  await persistTabMenuCommands()
+}
@@ -1,14 +1,18 @@
+import { base64ToBytes, bytesToBase64 } from '@ext/shared/base64-bytes'
 import { defaultDevelopModeForBaseUrl } from '@ext/shared/extension-services'
 import { syncRulesFromServer, upsertService } from '@ext/shared/extension-storage'
-import type { ShellMessage, ShellResponse } from '@ext/shared/messages'
+import type { BridgeXhrEvent, ShellMessage, ShellResponse } from '@ext/shared/messages'
 import type { ExtensionConfig } from '@ext/types'
-import { PERMISSION_DENIED_CODE, permissionResourceMatchesUrl } from '@shared/script-permission'
+import { PERMISSION_DENIED_CODE, permissionResourceMatchesUrl, type ScriptPermissionCapability, type ScriptPermissionRequest } from '@shared/script-permission'
 
 import type { DebugLogAppendInput } from '../shared/debug-log-types'
 import { buildDebugLogMetaFromTab } from '../shared/debug-log-utils'
 import { buildStatus } from './background-status'
 import { getActiveTab, reloadTab } from './background-tab-utils'
 import { captureVisibleTabThrottled } from './capture-visible-tab-throttle'
+import { getGmTabObject, listGmTabObjects, saveGmTabObject } from './gm-tab-objects'
+import { addGmWebRequestRules } from './gm-web-request-dnr'
+import { isTextXhrResponseType, runBridgeXhr } from './gm-xhr'
 import { ensureScriptPermissionForTab } from './permission-manager'
 
 export function enrichDebugLogFromSender(entry: DebugLogAppendInput, sender: chrome.runtime.MessageSender): DebugLogAppendInput {
@@ -37,54 +41,62 @@ export function enrichDebugLogFromSender(entry: DebugLogAppendInput, sender: chr
   }
 }
 
+/**
+ * Buffered `GM_xmlhttpRequest` for one-shot callers (`GM_XHR` message, background scripts).
+ * Binary response types come back as `responseBase64`.
+ */
 export async function handleBridgeXhr(details: Extract<ShellMessage, { type: 'GM_XHR' }>['details'], tabId?: number): Promise<ShellResponse> {
-  const method = (details.method ?? 'GET').toUpperCase()
-  const url = details.url?.trim()
-  if (!url) {
-    throw new Error('GM_XHR missing URL')
-  }
-  if (tabId != null && details.permission) {
-    if (!permissionResourceMatchesUrl(details.permission.resource, url)) {
-      throw new Error(PERMISSION_DENIED_CODE)
-    }
-    const allowed = await ensureScriptPermissionForTab(tabId, details.permission)
-    if (!allowed) {
-      throw new Error(PERMISSION_DENIED_CODE)
+  let head: Extract<BridgeXhrEvent, { type: 'headers' }> | undefined
+  let responseText = ''
+  const chunks: Uint8Array[] = []
+  let failure: string | undefined
+  await runBridgeXhr(details, tabId, (event) => {
+    switch (event.type) {
+      case 'headers':
+        head = event
+        break
+      case 'chunk':
+        if (event.encoding === 'text') {
+          responseText += event.data
+        } else {
+          chunks.push(base64ToBytes(event.data))
+        }
+        break
+      case 'error':
+        failure = event.error
+        break
+      case 'timeout':
+        failure = `GM_XHR timeout url=${details.url.slice(0, 180)}`
+        break
+      case 'abort':
+        failure = 'GM_XHR aborted'
+        break
     }
+  })
+  if (failure || !head) {
+    throw new Error(failure ?? 'GM_XHR failed')
   }
-  const controller = typeof AbortController !== 'undefined' ? new AbortController() : undefined
-  const timeout = typeof details.timeout === 'number' && details.timeout > 0 ? details.timeout : 0
-  const timer = timeout && controller ? setTimeout(() => controller.abort(), timeout) : undefined
-  let res: Response
-  try {
-    res = await fetch(url, {
-      method,
-      headers: details.headers,
-      body: method === 'GET' || method === 'HEAD' ? undefined : details.data,
-      credentials: 'omit',
-      signal: controller?.signal,
-    })
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error)
-    throw new Error(`GM_XHR fetch failed: ${message} url=${url.slice(0, 180)}`)
-  } finally {
-    if (timer) {
-      clearTimeout(timer)
+
+  let responseBase64: string | undefined
+  if (!isTextXhrResponseType(details.responseType)) {
+    const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0))
+    let offset = 0
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset)
+      offset += chunk.byteLength
     }
+    responseBase64 = bytesToBase64(bytes)
   }
-  const responseText = await res.text()
-  const responseHeaders = Array.from(res.headers.entries())
-    .map(([k, v]) => `${k}: ${v}`)
-    .join('\r\n')
 
   return {
     ok: true,
     xhr: {
-      status: res.status,
-      statusText: res.statusText,
+      status: head.status,
+      statusText: head.statusText,
       responseText,
-      responseHeaders,
-      finalUrl: res.url || url,
+      ...(responseBase64 != null ? { responseBase64 } : {}),
+      responseHeaders: head.responseHeaders,
+      finalUrl: head.finalUrl,
     },
   }
 }
@@ -113,6 +125,52 @@ export async function handleCaptureVisibleTab(
   return { ok: true, dataUrl }
 }
 
+/**
+ * Defense in depth for GM calls the page already gated: the permission must match the capability and the
+ * target, and still be allowed for the tab.
+ */
+async function assertGmPermissionForTab(tabId: number, permission: ScriptPermissionRequest | undefined, capability: ScriptPermissionCapability, target: string): Promise<void> {
+  if (!permission) {
+    return
+  }
+  if (permission.capability !== capability || !permissionResourceMatchesUrl(permission.resource, target)) {
+    throw new Error(PERMISSION_DENIED_CODE)
+  }
+  const allowed = await ensureScriptPermissionForTab(tabId, permission)
+  if (!allowed) {
+    throw new Error(PERMISSION_DENIED_CODE)
+  }
+}
+
+export async function handleGmTabObject(message: Extract<ShellMessage, { type: 'GM_TAB_OBJECT' }>, tabId: number | undefined): Promise<ShellResponse> {
+  if (tabId == null) {
+    throw new Error('GM_TAB_OBJECT missing tab')
+  }
+  await assertGmPermissionForTab(tabId, message.permission, 'tab-storage', '*')
+  const scope = message.scope ?? ''
+  switch (message.action) {
+    case 'get':
+      return { ok: true, tabObject: await getGmTabObject(scope, tabId) }
+    case 'save':
+      await saveGmTabObject(scope, tabId, message.tab)
+      return { ok: true }
+    case 'list':
+      return { ok: true, tabObjects: await listGmTabObjects(scope) }
+  }
+}
+
+export async function handleGmWebRequest(
+  message: Extract<ShellMessage, { type: 'GM_WEB_REQUEST' }>,
+  tabId: number | undefined,
+  tabUrl: string | undefined
+): Promise<ShellResponse> {
+  if (tabId == null || !tabUrl) {
+    throw new Error('GM_WEB_REQUEST missing tab')
+  }
+  await assertGmPermissionForTab(tabId, message.permission, 'web-request', tabUrl)
+  return { ok: true, webRequestRuleIds: await addGmWebRequestRules(tabId, tabUrl, message.rules) }
+}
+
 export function normalizeWebConnectConfig(details: Extract<ShellMessage, { type: 'WEB_CONNECT_EXTENSION' }>['details']): ExtensionConfig {
   const baseUrl = details.baseUrl.trim().replace(/\/+$/, '')
   return {
@@ -30,6 +30,7 @@ import {
 import { focusOrOpenExtensionPage, focusOrOpenTab } from '@ext/shared/focus-or-open-tab'
 import type { ShellMessage, ShellResponse } from '@ext/shared/messages'
 import { invalidateTabMatchCache, scheduleTabMatchRefreshForEnabledScriptKeys } from '@ext/shared/tab-match-cache'
+import { clearTabMenuCommands, getTabMenuCommands, setTabMenuCommands } from '@ext/shared/tab-menu-commands'
 import {
   clearAllTabTriggerCounts,
   ensureTabTriggerHydrated,
@@ -45,8 +46,9 @@ import {
 import { ensureRuntimeLoad } from '../runtime/module-loader'
 import { extensionLogger, permissionLogger } from '../shared/logger'
 import { refreshIncognitoLogCollectionCache, refreshShellLogOutputModeCache } from '../shared/shell-log-output-cache'
-import { enrichDebugLogFromSender, handleBridgeXhr, handleCaptureVisibleTab, handleWebConnect } from './background-bridge'
+import { enrichDebugLogFromSender, handleBridgeXhr, handleCaptureVisibleTab, handleGmTabObject, handleGmWebRequest, handleWebConnect } from './background-bridge'
 import { handleDebugClearTabSessionPermissions, handleDebugPermissionPrompt, handleDebugRunGmPermissionTest } from './background-debug-permission'
+import { handleBackgroundScriptGmCall, syncBackgroundScripts } from './background-scripts/background-script-scheduler'
 import { buildStatus, refreshAllBadges, updateBadgeForTab } from './background-status'
 import { getActiveTab, isReloadableTabUrl, reloadAllReloadableTabs, reloadTab } from './background-tab-utils'
 import { applyBootstrapRuntimeHint, scheduleInitializingIdleFallback } from './badge-controller'
@@ -54,6 +56,9 @@ import { disableCspStripForPageUrl } from './csp-dnr-rules'
 import { reloadTabOnceForCsp } from './csp-tab-reload'
 import { CSP_RELOAD_SCHEDULED_MESSAGE, executeInMainWorldScriptForTab } from './csp-user-script-executor'
 import { appendDebugLog, clearDebugLogs, getDebugLogSnapshot, initDebugLogStore, normalizeDebugLogAppendDetails } from './debug-log-store'
+import { handleGmCookie } from './gm-cookie'
+import { clearGmWebRequestRulesForTab, removeGmWebRequestRules } from './gm-web-request-dnr'
+import { invokeTabMenuCommand, syncMenuCommandContextMenu } from './menu-command-context-menu'
 import {
   applyPermissionModalResult,
   clearAllScriptPermissions,
@@ -81,6 +86,28 @@ export async function handleShellMessage(message: ShellMessage, sender: chrome.r
     case 'GM_XHR': {
       return handleBridgeXhr(message.details, sender.tab?.id)
     }
+    case 'GM_COOKIE': {
+      return handleGmCookie(message, sender.tab?.id)
+    }
+    case 'GM_TAB_OBJECT': {
+      return handleGmTabObject(message, sender.tab?.id)
+    }
+    case 'GM_WEB_REQUEST': {
+      return handleGmWebRequest(message, sender.tab?.id, sender.tab?.url)
+    }
+    case 'GM_WEB_REQUEST_REMOVE': {
+      if (sender.tab?.id != null) {
+        await removeGmWebRequestRules(sender.tab.id, message.ruleIds)
+      }
+      return { ok: true }
+    }
+    case 'BACKGROUND_SCRIPT_GM': {
+      return handleBackgroundScriptGmCall(message.runId, message.call)
+    }
+    case 'BACKGROUND_SCRIPT_EXECUTE': {
+      // Answered by the offscreen runner document
+      return
+    }
     case 'CAPTURE_VISIBLE_TAB': {
       try {
         return await handleCaptureVisibleTab(message, sender.tab?.id, sender.tab?.windowId, sender.tab?.url)
@@ -296,6 +323,7 @@ export async function handleShellMessage(message: ShellMessage, sender: chrome.r
       await refreshScriptListsForEnabledScriptKeys()
       await invalidateTabMatchCache()
       await clearAllTabTriggerCounts()
+      void syncBackgroundScripts().catch((error) => extensionLogger.warn('Background script sync failed after runtime update', error))
       await setBadgeRuntimeHint('update')
       const activeAfterUpdate = await getActiveTab()
       if (activeAfterUpdate?.id != null) {
@@ -424,6 +452,9 @@ export async function handleShellMessage(message: ShellMessage, sender: chrome.r
       const url = tab.url ?? message.details.url
       await syncShellDisableForCloudflareChallenge(tab.id, url)
       await resetTabTriggerCountsForPageLoad(tab.id, url)
+      await clearTabMenuCommands(tab.id)
+      void syncMenuCommandContextMenu()
+      await clearGmWebRequestRulesForTab(tab.id)
       scheduleInitializingIdleFallback(tab.id, updateBadgeForTab)
       await updateBadgeForTab(tab.id, url)
       return { ok: true }
@@ -478,6 +509,31 @@ export async function handleShellMessage(message: ShellMessage, sender: chrome.r
       await updateBadgeForTab(tab.id, tab.url)
       return { ok: true }
     }
+    case 'SET_MENU_COMMANDS': {
+      const tabId = sender?.tab?.id
+      if (tabId == null || sender.frameId !== 0) {
+        return { ok: true }
+      }
+      await setTabMenuCommands(tabId, message.details.commands)
+      void syncMenuCommandContextMenu()
+      return { ok: true }
+    }
+    case 'GET_TAB_MENU_COMMANDS': {
+      const tab = await getActiveTab()
+      return { ok: true, menuCommands: tab?.id == null ? [] : await getTabMenuCommands(tab.id) }
+    }
+    case 'RUN_MENU_COMMAND': {
+      const tab = await getActiveTab()
+      if (tab?.id == null) {
+        return { ok: false, error: 'No active tab.' }
+      }
+      const commands = await getTabMenuCommands(tab.id)
+      if (!commands.some((command) => command.id === message.id)) {
+        return { ok: false, error: 'Menu command is no longer registered on this page.' }
+      }
+      await invokeTabMenuCommand(tab.id, message.id)
+      return { ok: true }
+    }
     case 'APPEND_DEBUG_LOG': {
       await initDebugLogStore()
       const entries = normalizeDebugLogAppendDetails(message.details).map((entry) => enrichDebugLogFromSender(entry, sender))
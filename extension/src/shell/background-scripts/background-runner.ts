@@ -0,0 +1,69 @@
+/**
+ * Offscreen document for scheduled background scripts. Extension pages may not eval, so each run gets a fresh
+ * manifest-sandboxed iframe; this page relays its GM calls to the service worker and reports the result.
+ */
+import type { ShellMessage, ShellResponse } from '../../shared/messages'
+import {
+  BACKGROUND_SANDBOX_MESSAGE_SOURCE,
+  BACKGROUND_SANDBOX_PAGE,
+  BACKGROUND_SCRIPT_RUN_TIMEOUT_MS,
+  type BackgroundSandboxMessage,
+  type BackgroundScriptRunRequest,
+  type BackgroundScriptRunResult,
+} from './background-script-types'
+
+/** Extra time over the sandbox's own cap before the runner gives up on a frame. */
+const RUNNER_TIMEOUT_GRACE_MS = 5_000
+
+function runInSandbox(request: BackgroundScriptRunRequest): Promise<BackgroundScriptRunResult> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now()
+    const frame = document.createElement('iframe')
+    frame.src = BACKGROUND_SANDBOX_PAGE
+
+    const post = (message: BackgroundSandboxMessage) => frame.contentWindow?.postMessage(message, '*')
+    const finish = (result: BackgroundScriptRunResult) => {
+      clearTimeout(timer)
+      window.removeEventListener('message', onMessage)
+      frame.remove()
+      resolve(result)
+    }
+    const timer = setTimeout(() => finish({ status: 'timeout', durationMs: Date.now() - startedAt }), BACKGROUND_SCRIPT_RUN_TIMEOUT_MS + RUNNER_TIMEOUT_GRACE_MS)
+
+    const onMessage = (event: MessageEvent) => {
+      const data = event.data as BackgroundSandboxMessage | null
+      if (event.source !== frame.contentWindow || data?.source !== BACKGROUND_SANDBOX_MESSAGE_SOURCE) {
+        return
+      }
+      if (data.type === 'done' && data.runId === request.runId) {
+        finish(data.result)
+        return
+      }
+      if (data.type !== 'call' || data.runId !== request.runId) {
+        return
+      }
+      void (chrome.runtime.sendMessage({ type: 'BACKGROUND_SCRIPT_GM', runId: data.runId, call: data.call } satisfies ShellMessage) as Promise<ShellResponse>)
+        .then((response) => {
+          const xhr = response.ok && 'xhr' in response ? response.xhr : undefined
+          post({ source: BACKGROUND_SANDBOX_MESSAGE_SOURCE, type: 'reply', callId: data.callId, ok: response.ok, xhr, error: response.ok ? undefined : response.error })
+        })
+        .catch((error: unknown) => {
+          post({ source: BACKGROUND_SANDBOX_MESSAGE_SOURCE, type: 'reply', callId: data.callId, ok: false, error: error instanceof Error ? error.message : String(error) })
+        })
+    }
+
+    window.addEventListener('message', onMessage)
+    frame.addEventListener('load', () => post({ source: BACKGROUND_SANDBOX_MESSAGE_SOURCE, type: 'run', request }), { once: true })
+    document.body.appendChild(frame)
+  })
+}
+
+chrome.runtime.onMessage.addListener((message: ShellMessage, _sender, sendResponse) => {
+  if (message.type !== 'BACKGROUND_SCRIPT_EXECUTE') {
+    return false
+  }
+  void runInSandbox(message.request).then((backgroundRun) => {
+    sendResponse({ ok: true, backgroundRun } satisfies ShellResponse)
+  })
+  return true
+})
@@ -0,0 +1,274 @@
+/**
+ * Manifest sandbox page that runs one background script payload. It has no chrome.* APIs: GM storage writes,
+ * GM_xmlhttpRequest, notifications and logs are posted to the runner, which relays them to the service worker.
+ * GM_getValue reads a snapshot taken when the run started, like the page bridge's in-memory store.
+ */
+import { buildScriptSettingsGmKey, resolveScriptSettings, type ScriptSettingField } from '@shared/script-settings'
+
+import { base64ToBytes } from '../../shared/base64-bytes'
+import type { DebugLogLevel } from '../../shared/debug-log-types'
+import type { BridgeXhrResponse } from '../../shared/messages'
+import {
+  BACKGROUND_SANDBOX_MESSAGE_SOURCE,
+  BACKGROUND_SCRIPT_IDLE_MS,
+  BACKGROUND_SCRIPT_RUN_TIMEOUT_MS,
+  type BackgroundSandboxMessage,
+  type BackgroundScriptGmCall,
+  type BackgroundScriptRunRequest,
+  type BackgroundScriptRunResult,
+} from './background-script-types'
+
+type XhrDetails = {
+  method?: string
+  url: string
+  headers?: Record<string, string>
+  data?: unknown
+  timeout?: number
+  responseType?: 'arraybuffer' | 'blob' | 'json' | 'stream' | 'text'
+  onload?: (response: unknown) => void
+  onreadystatechange?: (response: unknown) => void
+  onerror?: (error: unknown) => void
+  onloadend?: (response: unknown) => void
+}
+
+const nativeSetTimeout = window.setTimeout.bind(window)
+const nativeClearTimeout = window.clearTimeout.bind(window)
+const nativeSetInterval = window.setInterval.bind(window)
+const nativeClearInterval = window.clearInterval.bind(window)
+const nativeFetch = window.fetch.bind(window)
+
+function formatLogArgs(args: unknown[]): string {
+  return args
+    .map((arg) => {
+      if (typeof arg === 'string') {
+        return arg
+      }
+      if (arg instanceof Error) {
+        return arg.message
+      }
+      try {
+        return JSON.stringify(arg)
+      } catch {
+        return String(arg)
+      }
+    })
+    .join(' ')
+}
+
+function runBackgroundScript(request: BackgroundScriptRunRequest, reply: (message: BackgroundSandboxMessage) => void): void {
+  const startedAt = Date.now()
+  const store: Record<string, unknown> = { ...request.values }
+  const resources: Record<string, { url: string; text: string | null }> = {}
+  const pendingCalls = new Map<number, (message: Extract<BackgroundSandboxMessage, { type: 'reply' }>) => void>()
+  const timers = new Set<number>()
+  let settingFields: ScriptSettingField[] = []
+  let nextCallId = 1
+  let pendingFetches = 0
+  let lastActivityAt = Date.now()
+  let failure: string | undefined
+  let finished = false
+
+  const touch = () => {
+    lastActivityAt = Date.now()
+  }
+
+  const call = (gmCall: BackgroundScriptGmCall): Promise<Extract<BackgroundSandboxMessage, { type: 'reply' }>> => {
+    const callId = nextCallId++
+    touch()
+    return new Promise((resolve) => {
+      pendingCalls.set(callId, (message) => {
+        pendingCalls.delete(callId)
+        touch()
+        resolve(message)
+      })
+      reply({ source: BACKGROUND_SANDBOX_MESSAGE_SOURCE, type: 'call', runId: request.runId, callId, call: gmCall })
+    })
+  }
+
+  const log = (level: DebugLogLevel, args: unknown[]) => {
+    void call({ name: 'log', level, message: formatLogArgs(args) })
+  }
+
+  const finish = (status: BackgroundScriptRunResult['status']) => {
+    if (finished) {
+      return
+    }
+    finished = true
+    nativeClearInterval(idleCheck)
+    timers.forEach((id) => nativeClearTimeout(id))
+    reply({
+      source: BACKGROUND_SANDBOX_MESSAGE_SOURCE,
+      type: 'done',
+      runId: request.runId,
+      result: { status: failure && status === 'ok' ? 'error' : status, error: failure, durationMs: Date.now() - startedAt },
+    })
+  }
+
+  window.addEventListener('message', (event: MessageEvent) => {
+    const data = event.data as BackgroundSandboxMessage | null
+    if (event.source === window.parent && data?.source === BACKGROUND_SANDBOX_MESSAGE_SOURCE && data.type === 'reply') {
+      pendingCalls.get(data.callId)?.(data)
+    }
+  })
+  window.addEventListener('error', (event) => {
+    failure ??= event.message
+    log('error', [event.message])
+  })
+  window.addEventListener('unhandledrejection', (event) => {
+    const message = event.reason instanceof Error ? event.reason.message : String(event.reason)
+    failure ??= message
+    log('error', ['Unhandled rejection:', message])
+  })
+
+  const buildXhrResponse = (xhr: BridgeXhrResponse, responseType?: XhrDetails['responseType']) => {
+    let response: unknown = xhr.responseText
+    if (xhr.responseBase64 != null) {
+      const bytes = base64ToBytes(xhr.responseBase64) as Uint8Array<ArrayBuffer>
+      const contentType = /^content-type:\s*(.*)$/im.exec(xhr.responseHeaders ?? '')?.[1]?.trim() ?? ''
+      response = responseType === 'blob' ? new Blob([bytes], { type: contentType }) : responseType === 'stream' ? new Response(bytes).body : bytes.buffer
+    } else if (responseType === 'json') {
+      try {
+        response = xhr.responseText ? JSON.parse(xhr.responseText) : null
+      } catch {
+        response = null
+      }
+    }
+    return { ...xhr, readyState: 4, response, responseXML: null }
+  }
+
+  const globals: Record<string, unknown> = {
+    unsafeWindow: window,
+    GM_info: { script: { name: request.file }, scriptHandler: 'MagickMonkey', runAt: 'background' },
+    GM_getValue: (key: string, defaultValue?: unknown) => (key in store ? store[key] : defaultValue),
+    GM_setValue: (key: string, value: unknown) => {
+      store[key] = value
+      void call({ name: 'setValue', key, value })
+    },
+    GM_deleteValue: (key: string) => {
+      delete store[key]
+      void call({ name: 'deleteValue', key })
+    },
+    GM_listValues: () => Object.keys(store),
+    GM_getValues: (keys: string[] | Record<string, unknown>) => {
+      const entries: Array<[string, unknown]> = Array.isArray(keys) ? keys.map((key) => [key, undefined]) : Object.entries(keys)
+      return Object.fromEntries(entries.map(([key, fallback]) => [key, key in store ? store[key] : fallback]))
+    },
+    GM_setValues: (values: Record<string, unknown>) => Object.entries(values).forEach(([key, value]) => (globals.GM_setValue as (k: string, v: unknown) => void)(key, value)),
+    GM_deleteValues: (keys: string[]) => keys.forEach((key) => (globals.GM_deleteValue as (k: string) => void)(key)),
+    GM_addValueChangeListener: () => 0,
+    GM_removeValueChangeListener: () => undefined,
+    GM_xmlhttpRequest: (details: XhrDetails) => {
+      const method = (details.method ?? 'GET').toUpperCase()
+      void call({
+        name: 'xhr',
+        details: {
+          method,
+          url: details.url,
+          headers: details.headers,
+          data: typeof details.data === 'string' ? details.data : details.data == null ? undefined : JSON.stringify(details.data),
+          timeout: details.timeout,
+          responseType: details.responseType,
+        },
+      }).then((message) => {
+        if (message.ok && message.xhr) {
+          const response = buildXhrResponse(message.xhr, details.responseType)
+          details.onreadystatechange?.(response)
+          details.onload?.(response)
+          details.onloadend?.(response)
+        } else {
+          details.onerror?.({ error: message.error ?? 'GM_xmlhttpRequest failed', status: 0, finalUrl: details.url })
+        }
+      })
+      return { abort: () => undefined }
+    },
+    GM_notification: (details: string | { text?: string; title?: string }, title?: unknown) => {
+      const text = typeof details === 'string' ? details : (details?.text ?? '')
+      const notificationTitle = typeof details === 'string' ? (typeof title === 'string' ? title : undefined) : details?.title
+      void call({ name: 'notification', text, title: notificationTitle })
+    },
+    GME_notification: (message: string, type?: string) => {
+      void call({ name: 'notification', text: message, title: type ? `${request.file} · ${type}` : undefined })
+      return `bg-notification-${nextCallId}`
+    },
+    GM_getResourceText: (name: string) => resources[name]?.text ?? null,
+    GM_getResourceURL: (name: string) => resources[name]?.url ?? null,
+    GM_log: (...args: unknown[]) => log('info', args),
+    GME_ok: (...args: unknown[]) => log('ok', args),
+    GME_info: (...args: unknown[]) => log('info', args),
+    GME_debug: (...args: unknown[]) => log('debug', args),
+    GME_warn: (...args: unknown[]) => log('warn', args),
+    GME_fail: (...args: unknown[]) => {
+      failure ??= formatLogArgs(args)
+      log('error', args)
+    },
+    // Hooks the compiled wrapper calls; pages get them from the preset.
+    matchScript: () => true,
+    beginScriptRunTrace: () => undefined,
+    endScriptRunTrace: () => undefined,
+    enterScriptPermissionScope: () => undefined,
+    exitScriptPermissionScope: () => undefined,
+    enterScriptLogScope: () => undefined,
+    exitScriptLogScope: () => undefined,
+    registerScriptResources: (_file: string, entries: typeof resources) => Object.assign(resources, entries),
+    registerScriptSettings: (_file: string, fields: ScriptSettingField[]) => {
+      settingFields = fields
+    },
+    GME_getSettings: () => resolveScriptSettings(settingFields, store[buildScriptSettingsGmKey(request.file)]),
+    setTimeout: (handler: TimerHandler, delay?: number, ...args: unknown[]) => {
+      const id = nativeSetTimeout(() => {
+        timers.delete(id)
+        touch()
+        if (typeof handler === 'function') {
+          ;(handler as (...handlerArgs: unknown[]) => void)(...args)
+        }
+      }, delay)
+      timers.add(id)
+      return id
+    },
+    clearTimeout: (id: number) => {
+      timers.delete(id)
+      nativeClearTimeout(id)
+    },
+    fetch: (...args: Parameters<typeof fetch>) => {
+      pendingFetches++
+      touch()
+      return nativeFetch(...args).finally(() => {
+        pendingFetches--
+        touch()
+      })
+    },
+  }
+  for (const level of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const logLevel: DebugLogLevel = level === 'log' ? 'info' : level
+    // eslint-disable-next-line no-console -- script console output goes to the debug log store
+    console[level] = (...args: unknown[]) => log(logLevel, args)
+  }
+  Object.assign(window, globals)
+
+  // Timers and pending GM calls keep the run alive; a script that stays busy is cut off at the cap.
+  const idleCheck = nativeSetInterval(() => {
+    const idle = pendingCalls.size === 0 && timers.size === 0 && pendingFetches === 0 && Date.now() - lastActivityAt >= BACKGROUND_SCRIPT_IDLE_MS
+    if (idle) {
+      finish('ok')
+    } else if (Date.now() - startedAt >= BACKGROUND_SCRIPT_RUN_TIMEOUT_MS) {
+      finish('timeout')
+    }
+  }, 100)
+
+  try {
+    // Indirect eval: the payload runs in global scope with the globals above.
+    ;(0, eval)(request.code)
+  } catch (error) {
+    failure ??= error instanceof Error ? error.message : String(error)
+  }
+  touch()
+}
+
+window.addEventListener('message', function onRun(event: MessageEvent) {
+  const data = event.data as BackgroundSandboxMessage | null
+  if (event.source !== window.parent || data?.source !== BACKGROUND_SANDBOX_MESSAGE_SOURCE || data.type !== 'run') {
+    return
+  }
+  window.removeEventListener('message', onRun)
+  runBackgroundScript(data.request, (message) => window.parent.postMessage(message, '*'))
+})
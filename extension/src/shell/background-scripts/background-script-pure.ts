@@ -0,0 +1,127 @@
+import {
+  normalizePermissionNetworkHost,
+  permissionResourceMatchesUrl,
+  resolvePersistentPermissionDecision,
+  type ScriptPermissionContext,
+  type ScriptPermissionMode,
+  type ScriptPermissionRegistry,
+} from '@shared/script-permission'
+import { validateCronSchedule } from '@shared/script-schedule'
+
+import { GM_STORAGE_PREFIX } from '../../shared/extension-storage/constants'
+import { BACKGROUND_SCRIPT_ALARM_PREFIX, type BackgroundScriptEntry } from './background-script-types'
+
+/**
+ * @param scriptKey Capability scriptKey
+ * @param file Managed script filename
+ * @returns chrome.alarms name for the script's next run
+ */
+export function buildBackgroundScriptAlarmName(scriptKey: string, file: string): string {
+  return `${BACKGROUND_SCRIPT_ALARM_PREFIX}${scriptKey}|${file}`
+}
+
+/**
+ * @param name chrome.alarms name
+ * @returns scriptKey + file, or null for alarms that are not background script runs
+ */
+export function parseBackgroundScriptAlarmName(name: string): { scriptKey: string; file: string } | null {
+  if (!name.startsWith(BACKGROUND_SCRIPT_ALARM_PREFIX)) {
+    return null
+  }
+  const rest = name.slice(BACKGROUND_SCRIPT_ALARM_PREFIX.length)
+  const separator = rest.indexOf('|')
+  if (separator <= 0 || separator === rest.length - 1) {
+    return null
+  }
+  return { scriptKey: rest.slice(0, separator), file: rest.slice(separator + 1) }
+}
+
+/**
+ * Keep well-formed module-manifest `backgroundScripts` rows (valid cron, payload URL).
+ * @param raw Manifest `backgroundScripts` value
+ */
+export function normalizeBackgroundScriptEntries(raw: unknown): BackgroundScriptEntry[] {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+  const entries: BackgroundScriptEntry[] = []
+  for (const row of raw as Array<Record<string, unknown>>) {
+    if (!row || typeof row.file !== 'string' || typeof row.url !== 'string' || typeof row.schedule !== 'string') {
+      continue
+    }
+    if (!row.file.trim() || !row.url.trim() || validateCronSchedule(row.schedule) !== null) {
+      continue
+    }
+    entries.push({
+      file: row.file,
+      schedule: row.schedule,
+      connect: Array.isArray(row.connect) ? row.connect.filter((host): host is string => typeof host === 'string' && Boolean(host.trim())) : [],
+      url: row.url,
+    })
+  }
+  return entries
+}
+
+/**
+ * Whether a background script may fetch `url`. There is no tab to prompt in, so only `@connect` hosts,
+ * persistent Admin → Permissions allows and Full trust mode authorize a request.
+ * @param context scriptKey + file of the running script
+ * @param connect Script `@connect` values
+ * @param url Request URL
+ * @param registry Persistent permission registry
+ * @param permissionMode scriptKey permission mode
+ */
+export function isBackgroundScriptRequestAllowed(
+  context: ScriptPermissionContext,
+  connect: readonly string[],
+  url: string,
+  registry: ScriptPermissionRegistry | null,
+  permissionMode: ScriptPermissionMode
+): boolean {
+  const host = normalizePermissionNetworkHost(url)
+  if (!host) {
+    return false
+  }
+  for (const value of connect) {
+    const raw = value.trim()
+    if (raw === '*') {
+      return true
+    }
+    const resource = raw.includes('*') ? null : normalizePermissionNetworkHost(raw)
+    if (resource && permissionResourceMatchesUrl(resource, url)) {
+      return true
+    }
+  }
+  const decision =
+    resolvePersistentPermissionDecision(registry, { ...context, capability: 'network', resource: host }) ??
+    resolvePersistentPermissionDecision(registry, { ...context, capability: 'network', resource: '*' })
+  if (decision) {
+    return decision === 'allow'
+  }
+  return permissionMode === 'trust'
+}
+
+/**
+ * Logical GM values of one gmScope from a chrome.storage.local snapshot (`vws_gm_{gmScope}_{key}`).
+ * @param storage chrome.storage.local contents
+ * @param gmScope scriptKey GM namespace
+ */
+export function collectGmScopeValues(storage: Record<string, unknown>, gmScope: string): Record<string, unknown> {
+  const prefix = `${GM_STORAGE_PREFIX}${gmScope}_`
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(storage)) {
+    if (key.startsWith(prefix)) {
+      values[key.slice(prefix.length)] = value
+    }
+  }
+  return values
+}
+
+/**
+ * @param gmScope scriptKey GM namespace
+ * @param key Logical GM key
+ * @returns chrome.storage.local key pages read the same value from
+ */
+export function backgroundGmStorageKey(gmScope: string, key: string): string {
+  return `${GM_STORAGE_PREFIX}${gmScope}_${key}`
+}
@@ -0,0 +1,297 @@
+import {
+  ensureExtensionServicesState,
+  getEnabledScriptKeys,
+  getShellGloballyEnabled,
+  isScriptEnabled,
+  readScriptPermissionRegistry,
+  resolveOtaEndpoint,
+} from '@ext/shared/extension-storage'
+import { fetchWithTimeout } from '@ext/shared/fetch-with-timeout'
+import { PERMISSION_DENIED_CODE } from '@shared/script-permission'
+import { getNextCronRunAt } from '@shared/script-schedule'
+import { createTraceId } from '@shared/trace-id'
+
+import { buildLauncherUrls } from '../../page/config'
+import { getGmScopeForScriptKey } from '../../shared/extension-services'
+import { loadPermissionModeForScriptKey } from '../../shared/extension-storage/services-state'
+import { extensionLogger } from '../../shared/logger'
+import type { ShellResponse } from '../../shared/messages'
+import { handleBridgeXhr } from '../background-bridge'
+import { appendDebugLog } from '../debug-log-store'
+import {
+  backgroundGmStorageKey,
+  buildBackgroundScriptAlarmName,
+  collectGmScopeValues,
+  isBackgroundScriptRequestAllowed,
+  normalizeBackgroundScriptEntries,
+  parseBackgroundScriptAlarmName,
+} from './background-script-pure'
+import {
+  BACKGROUND_RUNNER_PAGE,
+  BACKGROUND_SCRIPT_ALARM_PREFIX,
+  BACKGROUND_SCRIPT_RUN_TIMEOUT_MS,
+  BACKGROUND_SCRIPT_SYNC_ALARM,
+  BACKGROUND_SCRIPT_SYNC_PERIOD_MINUTES,
+  BACKGROUND_SCRIPTS_STORAGE_KEY,
+  type BackgroundScriptEntry,
+  type BackgroundScriptGmCall,
+  type BackgroundScriptGroup,
+  type BackgroundScriptRegistry,
+  type BackgroundScriptRunResult,
+} from './background-script-types'
+
+const MANIFEST_FETCH_TIMEOUT_MS = 10_000
+const LOG_SCOPE = 'BackgroundScript'
+
+/** Context of an in-flight run, keyed by runId, for GM calls relayed from the sandbox. */
+interface ActiveBackgroundRun {
+  scriptKey: string
+  gmScope: string
+  entry: BackgroundScriptEntry
+  traceId: string
+}
+
+const activeRuns = new Map<string, ActiveBackgroundRun>()
+let creatingRunnerDocument: Promise<void> | null = null
+
+function logRun(run: Pick<ActiveBackgroundRun, 'scriptKey' | 'traceId'> & { file: string }, level: 'debug' | 'info' | 'ok' | 'warn' | 'error', message: string): void {
+  appendDebugLog({ level, source: 'background', scope: LOG_SCOPE, message, meta: { scriptKey: run.scriptKey, file: run.file, traceId: run.traceId } })
+}
+
+async function readBackgroundScriptRegistry(): Promise<BackgroundScriptRegistry> {
+  const result = await chrome.storage.local.get(BACKGROUND_SCRIPTS_STORAGE_KEY)
+  const raw = result[BACKGROUND_SCRIPTS_STORAGE_KEY]
+  return raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as BackgroundScriptRegistry) : {}
+}
+
+async function fetchBackgroundScriptGroup(scriptKey: string): Promise<BackgroundScriptGroup | null> {
+  const state = await ensureExtensionServicesState()
+  const endpoint = resolveOtaEndpoint(scriptKey, state.services)
+  if (!endpoint) {
+    return null
+  }
+  const { moduleManifestUrl } = buildLauncherUrls({ baseUrl: endpoint.baseUrl, scriptKey, developMode: endpoint.developMode === true })
+  const res = await fetchWithTimeout(moduleManifestUrl, { credentials: 'omit', cache: 'no-store' }, MANIFEST_FETCH_TIMEOUT_MS)
+  if (!res.ok) {
+    throw new Error(`module-manifest HTTP ${res.status}`)
+  }
+  const manifest = (await res.json()) as { backgroundScripts?: unknown }
+  return {
+    baseUrl: endpoint.baseUrl,
+    gmScope: getGmScopeForScriptKey(scriptKey, state.scriptKeyMeta, endpoint.label, endpoint.baseUrl),
+    scripts: normalizeBackgroundScriptEntries(manifest.backgroundScripts),
+    syncedAt: Date.now(),
+  }
+}
+
+async function scheduleBackgroundScript(scriptKey: string, entry: BackgroundScriptEntry): Promise<void> {
+  const when = getNextCronRunAt(entry.schedule, Date.now())
+  const name = buildBackgroundScriptAlarmName(scriptKey, entry.file)
+  if (when === null) {
+    await chrome.alarms.clear(name)
+    return
+  }
+  await chrome.alarms.create(name, { when })
+}
+
+/**
+ * Refetch `backgroundScripts` from every enabled scriptKey's module manifest and (re)create their alarms.
+ * A scriptKey whose manifest cannot be fetched keeps its last known scripts.
+ * @returns Number of scheduled background scripts
+ */
+export async function syncBackgroundScripts(): Promise<number> {
+  const state = await ensureExtensionServicesState()
+  const previous = await readBackgroundScriptRegistry()
+  const registry: BackgroundScriptRegistry = {}
+  for (const scriptKey of getEnabledScriptKeys(state.services)) {
+    try {
+      const group = await fetchBackgroundScriptGroup(scriptKey)
+      if (group) {
+        registry[scriptKey] = group
+      }
+    } catch (error) {
+      extensionLogger.warn(`[${LOG_SCOPE}] manifest sync failed for ${scriptKey.slice(0, 8)}…`, error)
+      if (previous[scriptKey]) {
+        registry[scriptKey] = previous[scriptKey]
+      }
+    }
+  }
+  await chrome.storage.local.set({ [BACKGROUND_SCRIPTS_STORAGE_KEY]: registry })
+
+  const wanted = new Set<string>()
+  for (const [scriptKey, group] of Object.entries(registry)) {
+    for (const entry of group.scripts) {
+      wanted.add(buildBackgroundScriptAlarmName(scriptKey, entry.file))
+      await scheduleBackgroundScript(scriptKey, entry)
+    }
+  }
+  for (const alarm of await chrome.alarms.getAll()) {
+    if (alarm.name.startsWith(BACKGROUND_SCRIPT_ALARM_PREFIX) && !wanted.has(alarm.name)) {
+      await chrome.alarms.clear(alarm.name)
+    }
+  }
+  return wanted.size
+}
+
+async function ensureRunnerDocument(): Promise<void> {
+  const url = chrome.runtime.getURL(BACKGROUND_RUNNER_PAGE)
+  const contexts = await chrome.runtime.getContexts({ contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT], documentUrls: [url] })
+  if (contexts.length > 0) {
+    return
+  }
+  // Concurrent alarms must not race two createDocument calls (only one offscreen document is allowed).
+  creatingRunnerDocument ??= chrome.offscreen
+    .createDocument({ url: BACKGROUND_RUNNER_PAGE, reasons: [chrome.offscreen.Reason.IFRAME_SCRIPTING], justification: 'Run scheduled background userscripts' })
+    .finally(() => {
+      creatingRunnerDocument = null
+    })
+  await creatingRunnerDocument
+}
+
+async function closeIdleRunnerDocument(): Promise<void> {
+  if (activeRuns.size > 0) {
+    return
+  }
+  try {
+    await chrome.offscreen.closeDocument()
+  } catch {
+    // already closed
+  }
+}
+
+/**
+ * Run one background script now in a fresh sandbox and log the outcome to the debug log store.
+ * @param scriptKey Capability scriptKey
+ * @param file Managed script filename
+ * @returns Run result, or null when the script is unknown, disabled or the shell is off
+ */
+export async function runBackgroundScript(scriptKey: string, file: string): Promise<BackgroundScriptRunResult | null> {
+  const group = (await readBackgroundScriptRegistry())[scriptKey]
+  const entry = group?.scripts.find((script) => script.file === file)
+  if (!group || !entry) {
+    return null
+  }
+  if (!(await getShellGloballyEnabled()) || !(await isScriptEnabled(scriptKey, file))) {
+    return null
+  }
+
+  const runId = createTraceId()
+  const run: ActiveBackgroundRun = { scriptKey, gmScope: group.gmScope, entry, traceId: runId }
+  const logTarget = { scriptKey, file, traceId: runId }
+  const startedAt = Date.now()
+  let result: BackgroundScriptRunResult
+  activeRuns.set(runId, run)
+  try {
+    logRun(logTarget, 'info', `Running ${file} (@schedule ${entry.schedule})`)
+    const res = await fetchWithTimeout(entry.url, { credentials: 'omit' }, MANIFEST_FETCH_TIMEOUT_MS)
+    if (!res.ok) {
+      throw new Error(`script payload HTTP ${res.status}`)
+    }
+    const code = await res.text()
+    const values = collectGmScopeValues(await chrome.storage.local.get(null), group.gmScope)
+    await ensureRunnerDocument()
+    const response = (await chrome.runtime.sendMessage({ type: 'BACKGROUND_SCRIPT_EXECUTE', request: { runId, file, code, values } })) as ShellResponse | undefined
+    if (!response?.ok || !('backgroundRun' in response) || !response.backgroundRun) {
+      throw new Error(response && !response.ok ? response.error : 'Background runner did not answer')
+    }
+    result = response.backgroundRun
+  } catch (error) {
+    result = { status: 'error', error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - startedAt }
+  } finally {
+    activeRuns.delete(runId)
+  }
+
+  if (result.status === 'ok') {
+    logRun(logTarget, 'ok', `Finished ${file} in ${result.durationMs}ms`)
+  } else if (result.status === 'timeout') {
+    logRun(logTarget, 'warn', `${file} still running after ${BACKGROUND_SCRIPT_RUN_TIMEOUT_MS / 1000}s; stopped`)
+  } else {
+    logRun(logTarget, 'error', `${file} failed: ${result.error ?? 'unknown error'}`)
+  }
+  void closeIdleRunnerDocument()
+  return result
+}
+
+/**
+ * Handle a GM call a running background script forwarded through the runner.
+ * @param runId Run the call belongs to
+ * @param call GM storage / request / notification / log call
+ */
+export async function handleBackgroundScriptGmCall(runId: string, call: BackgroundScriptGmCall): Promise<ShellResponse> {
+  const run = activeRuns.get(runId)
+  if (!run) {
+    return { ok: false, error: 'Background script run is no longer active' }
+  }
+  const logTarget = { scriptKey: run.scriptKey, file: run.entry.file, traceId: run.traceId }
+  switch (call.name) {
+    case 'setValue': {
+      await chrome.storage.local.set({ [backgroundGmStorageKey(run.gmScope, call.key)]: call.value })
+      return { ok: true }
+    }
+    case 'deleteValue': {
+      await chrome.storage.local.remove(backgroundGmStorageKey(run.gmScope, call.key))
+      return { ok: true }
+    }
+    case 'xhr': {
+      const context = { scriptKey: run.scriptKey, file: run.entry.file }
+      const allowed = isBackgroundScriptRequestAllowed(
+        context,
+        run.entry.connect,
+        call.details.url,
+        await readScriptPermissionRegistry(),
+        await loadPermissionModeForScriptKey(run.scriptKey)
+      )
+      if (!allowed) {
+        logRun(logTarget, 'warn', `GM_xmlhttpRequest to ${call.details.url.slice(0, 180)} denied: add the host to @connect`)
+        return { ok: false, error: PERMISSION_DENIED_CODE }
+      }
+      return handleBridgeXhr(call.details)
+    }
+    case 'notification': {
+      await chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+        title: call.title || run.entry.file,
+        message: call.text,
+      })
+      return { ok: true }
+    }
+    case 'log': {
+      logRun(logTarget, call.level, call.message)
+      return { ok: true }
+    }
+  }
+}
+
+/** Alarm handler: sync on the periodic alarm, otherwise run the script and schedule its next run. */
+async function handleBackgroundScriptAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+  if (alarm.name === BACKGROUND_SCRIPT_SYNC_ALARM) {
+    await syncBackgroundScripts()
+    return
+  }
+  const target = parseBackgroundScriptAlarmName(alarm.name)
+  if (!target) {
+    return
+  }
+  await runBackgroundScript(target.scriptKey, target.file)
+  const entry = (await readBackgroundScriptRegistry())[target.scriptKey]?.scripts.find((script) => script.file === target.file)
+  if (entry) {
+    await scheduleBackgroundScript(target.scriptKey, entry)
+  }
+}
+
+/**
+ * Register the alarm listener and the periodic manifest sync (service worker start).
+ */
+export function installBackgroundScriptScheduler(): void {
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    void handleBackgroundScriptAlarm(alarm).catch((error) => {
+      extensionLogger.warn(`[${LOG_SCOPE}] alarm ${alarm.name} failed`, error)
+    })
+  })
+  void chrome.alarms.get(BACKGROUND_SCRIPT_SYNC_ALARM).then((existing) => {
+    if (!existing) {
+      void chrome.alarms.create(BACKGROUND_SCRIPT_SYNC_ALARM, { delayInMinutes: 1, periodInMinutes: BACKGROUND_SCRIPT_SYNC_PERIOD_MINUTES })
+    }
+  })
+}
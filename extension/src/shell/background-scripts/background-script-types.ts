@@ -0,0 +1,78 @@
+import type { DebugLogLevel } from '../../shared/debug-log-types'
+import type { BridgeXhrDetails, BridgeXhrResponse } from '../../shared/messages'
+
+/** chrome.storage.local: scheduled background scripts per scriptKey (from module-manifest `backgroundScripts`). */
+export const BACKGROUND_SCRIPTS_STORAGE_KEY = 'vws_background_scripts'
+
+/** Alarm name prefix; full name is `vws-bg|{scriptKey}|{file}`. */
+export const BACKGROUND_SCRIPT_ALARM_PREFIX = 'vws-bg|'
+
+/** Periodic alarm that refetches manifests so new / removed background scripts get (un)scheduled. */
+export const BACKGROUND_SCRIPT_SYNC_ALARM = 'vws-bg-sync'
+
+export const BACKGROUND_SCRIPT_SYNC_PERIOD_MINUTES = 30
+
+/** Hard cap on one run; the sandbox reports `timeout` and is torn down. */
+export const BACKGROUND_SCRIPT_RUN_TIMEOUT_MS = 60_000
+
+/** A run is finished once no GM call or timer callback has been pending for this long. */
+export const BACKGROUND_SCRIPT_IDLE_MS = 500
+
+/** Offscreen document that hosts one sandbox iframe per run. */
+export const BACKGROUND_RUNNER_PAGE = 'background-runner.html'
+
+/** Manifest sandbox page (eval allowed, no chrome.* APIs). */
+export const BACKGROUND_SANDBOX_PAGE = 'background-sandbox.html'
+
+/** postMessage `source` between the runner and its sandbox iframes. */
+export const BACKGROUND_SANDBOX_MESSAGE_SOURCE = 'vws-background-sandbox'
+
+/** One scheduled script as stored by the shell. */
+export interface BackgroundScriptEntry {
+  file: string
+  schedule: string
+  /** `@connect` hosts GM_xmlhttpRequest may reach without a prompt */
+  connect: string[]
+  /** Content-addressed payload URL */
+  url: string
+}
+
+/** Background scripts of one enabled scriptKey. */
+export interface BackgroundScriptGroup {
+  baseUrl: string
+  gmScope: string
+  scripts: BackgroundScriptEntry[]
+  syncedAt: number
+}
+
+export type BackgroundScriptRegistry = Record<string, BackgroundScriptGroup>
+
+/** GM call the sandbox forwards to the service worker. */
+export type BackgroundScriptGmCall =
+  | { name: 'setValue'; key: string; value: unknown }
+  | { name: 'deleteValue'; key: string }
+  | { name: 'xhr'; details: BridgeXhrDetails }
+  | { name: 'notification'; text: string; title?: string }
+  | { name: 'log'; level: DebugLogLevel; message: string }
+
+export interface BackgroundScriptRunRequest {
+  runId: string
+  file: string
+  /** Compiled payload from `/static/[key]/scripts/[file]` */
+  code: string
+  /** GM storage of the scriptKey's gmScope, by logical key */
+  values: Record<string, unknown>
+}
+
+export interface BackgroundScriptRunResult {
+  status: 'ok' | 'error' | 'timeout'
+  error?: string
+  durationMs: number
+}
+
+/** Runner ↔ sandbox iframe messages. */
+export type BackgroundSandboxMessage =
+  | { source: typeof BACKGROUND_SANDBOX_MESSAGE_SOURCE; type: 'run'; request: BackgroundScriptRunRequest }
+  | { source: typeof BACKGROUND_SANDBOX_MESSAGE_SOURCE; type: 'call'; runId: string; callId: number; call: BackgroundScriptGmCall }
+  | { source: typeof BACKGROUND_SANDBOX_MESSAGE_SOURCE; type: 'reply'; callId: number; ok: boolean; xhr?: BridgeXhrResponse; error?: string }
+  | { source: typeof BACKGROUND_SANDBOX_MESSAGE_SOURCE; type: 'done'; runId: string; result: BackgroundScriptRunResult }
@@ -1,6 +1,7 @@
 import { gmStorageKey, removeShellDisabledTabId, SHELL_DISABLED_TAB_IDS_STORAGE_KEY, SHELL_MASTER_ENABLED_STORAGE_KEY } from '@ext/shared/extension-storage'
-import type { ShellMessage, ShellResponse } from '@ext/shared/messages'
+import { GM_XHR_PORT_NAME, type ShellMessage, type ShellResponse } from '@ext/shared/messages'
 import { invalidateTabMatchCache, shouldInvalidateTabMatchCache } from '@ext/shared/tab-match-cache'
+import { clearTabMenuCommands } from '@ext/shared/tab-menu-commands'
 import { clearTabTriggerState, ensureTabTriggerHydrated } from '@ext/shared/tab-trigger-badge'
 import { SHELL_INCOGNITO_LOG_COLLECTION_KEY, SHELL_LOG_OUTPUT_MODE_KEY, shouldLogToMemoryForMode } from '@shared/shell-log-output'
 
@@ -10,12 +11,17 @@ import { DEBUG_LOG_PORT_NAME } from '../shared/debug-log-types'
 import { extensionLogger } from '../shared/logger'
 import { getCachedIncognitoLogCollection, getCachedShellLogOutputMode, refreshIncognitoLogCollectionCache, refreshShellLogOutputModeCache } from '../shared/shell-log-output-cache'
 import { handleShellMessage } from './background-message-handlers'
+import { installBackgroundScriptScheduler, syncBackgroundScripts } from './background-scripts/background-script-scheduler'
 import { initBackgroundDefaults, initExtensionInstall, refreshAllBadges, updateBadgeForTab } from './background-status'
 import { clearBadgeTimersForTab, scheduleInitializingIdleFallback } from './badge-controller'
 import { initBadgeNavigationListeners } from './badge-navigation'
 import { attachDebugLogPort, initDebugLogStore, setDebugLogCollectionGate, setIncognitoLogCollectionGate } from './debug-log-store'
 import { restoreAdminPageAfterDevReload } from './dev-admin-restore'
 import { initDevExtensionReload } from './dev-extension-reload'
+import { clearGmTabObjects } from './gm-tab-objects'
+import { clearGmWebRequestRulesForTab } from './gm-web-request-dnr'
+import { attachGmXhrPort } from './gm-xhr'
+import { installMenuCommandContextMenu } from './menu-command-context-menu'
 import { clearSessionPermissionsForTab } from './permission-manager'
 import { ensureOllamaOriginBypassRules } from './webmcp/agent-llm-ollama-origin-bypass'
 import { registerWebMcpSidePanelCommandListener } from './webmcp/webmcp-side-panel'
@@ -32,6 +38,10 @@ setDebugLogCollectionGate(() => shouldLogToMemoryForMode(getCachedShellLogOutput
 setIncognitoLogCollectionGate(() => getCachedIncognitoLogCollection())
 
 chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === GM_XHR_PORT_NAME) {
+    attachGmXhrPort(port)
+    return
+  }
   if (port.name !== DEBUG_LOG_PORT_NAME) {
     return
   }
@@ -42,12 +52,18 @@ chrome.runtime.onConnect.addListener((port) => {
 
 chrome.runtime.onInstalled.addListener(() => {
   void initExtensionInstall()
+  void syncBackgroundScripts().catch((error) => {
+    extensionLogger.warn('Background script sync failed onInstalled', error)
+  })
   void ensureOllamaOriginBypassRules().catch((error) => {
     extensionLogger.warn('Ollama Origin bypass DNR install failed onInstalled', error)
   })
 })
 chrome.runtime.onStartup.addListener(() => {
   void initDebugLogStore().then(() => initBackgroundDefaults())
+  void syncBackgroundScripts().catch((error) => {
+    extensionLogger.warn('Background script sync failed onStartup', error)
+  })
   void ensureOllamaOriginBypassRules().catch((error) => {
     extensionLogger.warn('Ollama Origin bypass DNR install failed onStartup', error)
   })
@@ -74,6 +90,9 @@ initBadgeNavigationListeners((tabId, url, kind) => {
 
 chrome.tabs.onRemoved.addListener((tabId) => {
   void clearTabTriggerState(tabId)
+  void clearTabMenuCommands(tabId)
+  void clearGmTabObjects(tabId)
+  void clearGmWebRequestRulesForTab(tabId)
   clearBadgeTimersForTab(tabId)
   clearSessionPermissionsForTab(tabId)
   void removeShellDisabledTabId(tabId)
@@ -118,3 +137,5 @@ initDevExtensionReload()
 registerWebMcpSidePanelCommandListener()
 void restoreAdminPageAfterDevReload()
 installPassiveOtaListener()
+installBackgroundScriptScheduler()
+installMenuCommandContextMenu()
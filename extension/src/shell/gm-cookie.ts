@@ -0,0 +1,108 @@
+import type { BridgeCookie, BridgeCookieDetails, ShellMessage, ShellResponse } from '@ext/shared/messages'
+import { normalizePermissionNetworkHost, PERMISSION_DENIED_CODE, permissionResourceMatchesUrl } from '@shared/script-permission'
+
+import { ensureScriptPermissionForTab } from './permission-manager'
+
+/**
+ * Host a `GM_cookie` call acts on (permission resource).
+ * @param details Cookie details from the page
+ * @returns Lowercase host, or null when neither `url` nor `domain` is usable
+ */
+export function resolveGmCookieHost(details: BridgeCookieDetails): string | null {
+  if (details.url) {
+    return normalizePermissionNetworkHost(details.url)
+  }
+  if (details.domain) {
+    return normalizePermissionNetworkHost(details.domain.replace(/^\./, ''))
+  }
+  return null
+}
+
+/**
+ * @param cookie `chrome.cookies` cookie
+ * @returns Tampermonkey-shaped cookie
+ */
+export function toBridgeCookie(cookie: chrome.cookies.Cookie): BridgeCookie {
+  return {
+    domain: cookie.domain,
+    hostOnly: cookie.hostOnly,
+    httpOnly: cookie.httpOnly,
+    name: cookie.name,
+    path: cookie.path,
+    sameSite: cookie.sameSite,
+    secure: cookie.secure,
+    session: cookie.session,
+    value: cookie.value,
+    ...(cookie.expirationDate != null ? { expirationDate: cookie.expirationDate } : {}),
+  }
+}
+
+/** Incognito tabs use their own cookie store; the service worker defaults to the regular one. */
+async function resolveCookieStoreId(tabId: number | undefined): Promise<string | undefined> {
+  if (tabId == null) {
+    return undefined
+  }
+  const stores = await chrome.cookies.getAllCookieStores()
+  return stores.find((store) => store.tabIds.includes(tabId))?.id
+}
+
+/**
+ * @param action `GM_cookie` method
+ * @returns Capability that gates it (listing only reads; set / delete write)
+ */
+function gmCookieCapability(action: Extract<ShellMessage, { type: 'GM_COOKIE' }>['action']): 'cookie-read' | 'cookie-write' {
+  return action === 'list' ? 'cookie-read' : 'cookie-write'
+}
+
+export async function handleGmCookie(message: Extract<ShellMessage, { type: 'GM_COOKIE' }>, tabId?: number): Promise<ShellResponse> {
+  const { action, details, permission } = message
+  const host = resolveGmCookieHost(details)
+  if (!host) {
+    throw new Error('GM_cookie needs a url or domain')
+  }
+  // Page calls always carry their script's grant; a message without one (or for another host) is refused.
+  if (tabId != null) {
+    if (!permission || permission.capability !== gmCookieCapability(action) || !permissionResourceMatchesUrl(permission.resource, host)) {
+      throw new Error(PERMISSION_DENIED_CODE)
+    }
+    const allowed = await ensureScriptPermissionForTab(tabId, permission)
+    if (!allowed) {
+      throw new Error(PERMISSION_DENIED_CODE)
+    }
+  }
+  const storeId = await resolveCookieStoreId(tabId)
+  const url = details.url ?? `https://${host}${details.path ?? '/'}`
+
+  if (action === 'list') {
+    const cookies = await chrome.cookies.getAll({
+      ...(details.url ? { url: details.url } : { domain: details.domain }),
+      ...(details.name != null ? { name: details.name } : {}),
+      ...(details.path != null ? { path: details.path } : {}),
+      ...(storeId ? { storeId } : {}),
+    })
+    return { ok: true, cookies: cookies.map(toBridgeCookie) }
+  }
+  if (!details.name) {
+    throw new Error(`GM_cookie.${action} needs a name`)
+  }
+  if (action === 'delete') {
+    await chrome.cookies.remove({ url, name: details.name, ...(storeId ? { storeId } : {}) })
+    return { ok: true }
+  }
+  const cookie = await chrome.cookies.set({
+    url,
+    name: details.name,
+    value: details.value ?? '',
+    ...(details.domain ? { domain: details.domain } : {}),
+    ...(details.path != null ? { path: details.path } : {}),
+    ...(details.secure != null ? { secure: details.secure } : {}),
+    ...(details.httpOnly != null ? { httpOnly: details.httpOnly } : {}),
+    ...(details.sameSite ? { sameSite: details.sameSite } : {}),
+    ...(details.expirationDate != null ? { expirationDate: details.expirationDate } : {}),
+    ...(storeId ? { storeId } : {}),
+  })
+  if (!cookie) {
+    throw new Error(chrome.runtime.lastError?.message ?? 'GM_cookie.set was rejected by the browser')
+  }
+  return { ok: true, cookies: [toBridgeCookie(cookie)] }
+}
@@ -0,0 +1,91 @@
+/** Session key for `GM_saveTab` objects: `{ [gmScope]: { [tabId]: object } }`. Kept until the tab closes, across navigations. */
+export const GM_TAB_OBJECTS_SESSION_KEY = 'vws_gm_tab_objects'
+
+type GmTabObjects = Record<string, Record<string, unknown>>
+
+/** Read-modify-write calls run one at a time so concurrent saves from different tabs do not drop each other. */
+let tabObjectsQueue: Promise<unknown> = Promise.resolve()
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = tabObjectsQueue.then(task, task)
+  tabObjectsQueue = run.catch(() => undefined)
+  return run
+}
+
+async function readTabObjects(): Promise<GmTabObjects> {
+  const stored = await chrome.storage.session.get(GM_TAB_OBJECTS_SESSION_KEY)
+  const raw = stored[GM_TAB_OBJECTS_SESSION_KEY]
+  return raw && typeof raw === 'object' ? (raw as GmTabObjects) : {}
+}
+
+async function writeTabObjects(objects: GmTabObjects): Promise<void> {
+  if (Object.keys(objects).length === 0) {
+    await chrome.storage.session.remove(GM_TAB_OBJECTS_SESSION_KEY)
+    return
+  }
+  await chrome.storage.session.set({ [GM_TAB_OBJECTS_SESSION_KEY]: objects })
+}
+
+/**
+ * @param scope GM scope of the calling script
+ * @param tabId Chrome tab id
+ * @returns The tab's saved object, or `{}` before the first save
+ */
+export function getGmTabObject(scope: string, tabId: number): Promise<unknown> {
+  return enqueue(async () => (await readTabObjects())[scope]?.[String(tabId)] ?? {})
+}
+
+/**
+ * @param scope GM scope of the calling script
+ * @param tabId Chrome tab id
+ * @param tab JSON-serializable object; `null` / `undefined` clears it
+ */
+export function saveGmTabObject(scope: string, tabId: number, tab: unknown): Promise<void> {
+  return enqueue(async () => {
+    const objects = await readTabObjects()
+    const byTab = { ...objects[scope] }
+    if (tab == null) {
+      delete byTab[String(tabId)]
+    } else {
+      byTab[String(tabId)] = tab
+    }
+    if (Object.keys(byTab).length === 0) {
+      delete objects[scope]
+    } else {
+      objects[scope] = byTab
+    }
+    await writeTabObjects(objects)
+  })
+}
+
+/**
+ * @param scope GM scope of the calling script
+ * @returns Saved objects of every open tab, keyed by tab id
+ */
+export function listGmTabObjects(scope: string): Promise<Record<string, unknown>> {
+  return enqueue(async () => ({ ...(await readTabObjects())[scope] }))
+}
+
+/**
+ * Drop every scope's object for a closed tab.
+ * @param tabId Chrome tab id
+ */
+export function clearGmTabObjects(tabId: number): Promise<void> {
+  return enqueue(async () => {
+    const objects = await readTabObjects()
+    let changed = false
+    for (const [scope, byTab] of Object.entries(objects)) {
+      if (!(String(tabId) in byTab)) {
+        continue
+      }
+      changed = true
+      delete byTab[String(tabId)]
+      if (Object.keys(byTab).length === 0) {
+        delete objects[scope]
+      }
+    }
+    if (changed) {
+      await writeTabObjects(objects)
+    }
+  })
+}
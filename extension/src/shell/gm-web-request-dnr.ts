@@ -0,0 +1,184 @@
+import type { BridgeWebRequestRule } from '@ext/shared/messages'
+
+/**
+ * Session DNR rule ids for `GM_webRequest` (920_000 … 929_999). Session rules, scoped with `tabIds`, only affect the
+ * tab that installed them and are dropped with the browser session or an extension reload.
+ */
+export const GM_WEB_REQUEST_DNR_RULE_ID_MIN = 920_000
+export const GM_WEB_REQUEST_DNR_RULE_ID_MAX = 929_999
+
+/** Session key: rule ids installed per tab, `{ [tabId]: number[] }`. */
+const GM_WEB_REQUEST_TAB_RULES_SESSION_KEY = 'vws_gm_web_request_rules'
+
+type TabRuleIds = Record<string, number[]>
+
+type DnrAction = { type: 'allow' | 'block' | 'redirect'; redirect?: { url?: string; regexSubstitution?: string } }
+
+let dnrQueue: Promise<unknown> = Promise.resolve()
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = dnrQueue.then(task, task)
+  dnrQueue = run.catch(() => undefined)
+  return run
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  const list = Array.isArray(value) ? value : value ? [value] : []
+  return list.map((item) => item.trim()).filter(Boolean)
+}
+
+/**
+ * Tampermonkey selector glob → DNR `urlFilter` (`*` wildcards, anchored unless the glob starts / ends with `*`).
+ * @param glob URL glob or match pattern
+ */
+export function globToDnrUrlFilter(glob: string): string {
+  const pattern = glob.trim()
+  if (pattern === '*' || pattern === '<all_urls>') {
+    return '*'
+  }
+  return `${pattern.startsWith('*') ? '' : '|'}${pattern}${pattern.endsWith('*') ? '' : '|'}`
+}
+
+/** String action types (like `csp-dnr-rules.ts`) so the builder runs without the `chrome` enums. */
+function dnrRule(id: number, priority: number, action: DnrAction, condition: chrome.declarativeNetRequest.RuleCondition): chrome.declarativeNetRequest.Rule {
+  return { id, priority, action, condition } as chrome.declarativeNetRequest.Rule
+}
+
+function isInGmWebRequestRange(id: number): boolean {
+  return id >= GM_WEB_REQUEST_DNR_RULE_ID_MIN && id <= GM_WEB_REQUEST_DNR_RULE_ID_MAX
+}
+
+/**
+ * Map `GM_webRequest` rules to DNR rules scoped to one tab and to requests its page host initiates.
+ * `include` / `match` globs become one rule each; `exclude` globs become higher-priority `allow` rules.
+ * A `redirect: { from, to }` action becomes a single `regexFilter` rule (the selector only contributes excludes).
+ * @param rules Script rules
+ * @param nextId Allocates a free rule id
+ * @param tabId Tab the rules apply to
+ * @param initiatorHost Page host the rules apply to
+ */
+export function buildGmWebRequestDnrRules(rules: BridgeWebRequestRule[], nextId: () => number, tabId: number, initiatorHost: string): chrome.declarativeNetRequest.Rule[] {
+  const dnrRules: chrome.declarativeNetRequest.Rule[] = []
+  const scope = { tabIds: [tabId], initiatorDomains: [initiatorHost] }
+  for (const rule of rules) {
+    const selector = typeof rule.selector === 'string' ? { include: rule.selector } : (rule.selector ?? {})
+    const includes = [...toList(selector.include), ...toList(selector.match)]
+    const excludes = toList(selector.exclude)
+    const action = rule.action === 'cancel' ? { cancel: true } : (rule.action ?? {})
+
+    if (action.redirect && typeof action.redirect === 'object') {
+      dnrRules.push(
+        dnrRule(nextId(), 1, { type: 'redirect', redirect: { regexSubstitution: action.redirect.to.replace(/\$(\d)/g, '\\$1') } }, { ...scope, regexFilter: action.redirect.from })
+      )
+    } else {
+      if (includes.length === 0) {
+        throw new Error('GM_webRequest rule needs a selector')
+      }
+      let dnrAction: DnrAction
+      if (typeof action.redirect === 'string') {
+        dnrAction = { type: 'redirect', redirect: { url: action.redirect } }
+      } else if (action.cancel) {
+        dnrAction = { type: 'block' }
+      } else {
+        throw new Error('GM_webRequest rule needs a cancel or redirect action')
+      }
+      for (const include of includes) {
+        dnrRules.push(dnrRule(nextId(), 1, dnrAction, { ...scope, urlFilter: globToDnrUrlFilter(include) }))
+      }
+    }
+    for (const exclude of excludes) {
+      dnrRules.push(dnrRule(nextId(), 2, { type: 'allow' }, { ...scope, urlFilter: globToDnrUrlFilter(exclude) }))
+    }
+  }
+  return dnrRules
+}
+
+async function readTabRuleIds(): Promise<TabRuleIds> {
+  const stored = await chrome.storage.session.get(GM_WEB_REQUEST_TAB_RULES_SESSION_KEY)
+  const raw = stored[GM_WEB_REQUEST_TAB_RULES_SESSION_KEY]
+  return raw && typeof raw === 'object' ? (raw as TabRuleIds) : {}
+}
+
+async function writeTabRuleIds(byTab: TabRuleIds): Promise<void> {
+  if (Object.keys(byTab).length === 0) {
+    await chrome.storage.session.remove(GM_WEB_REQUEST_TAB_RULES_SESSION_KEY)
+    return
+  }
+  await chrome.storage.session.set({ [GM_WEB_REQUEST_TAB_RULES_SESSION_KEY]: byTab })
+}
+
+/**
+ * Install a script's rules for one tab's page.
+ * @param tabId Tab that registered the rules (cleared on its next document load or close)
+ * @param pageUrl Tab URL; its host becomes the rules' initiator domain
+ * @param rules Script rules
+ * @returns Installed DNR rule ids
+ */
+export function addGmWebRequestRules(tabId: number, pageUrl: string, rules: BridgeWebRequestRule[]): Promise<number[]> {
+  return enqueue(async () => {
+    const initiatorHost = new URL(pageUrl).hostname
+    const used = new Set((await chrome.declarativeNetRequest.getSessionRules()).map((rule) => rule.id).filter(isInGmWebRequestRange))
+    let candidate = GM_WEB_REQUEST_DNR_RULE_ID_MIN
+    const nextId = () => {
+      while (used.has(candidate)) {
+        candidate++
+      }
+      if (candidate > GM_WEB_REQUEST_DNR_RULE_ID_MAX) {
+        throw new Error('GM_webRequest rule limit reached')
+      }
+      used.add(candidate)
+      return candidate
+    }
+    const dnrRules = buildGmWebRequestDnrRules(rules, nextId, tabId, initiatorHost)
+    if (dnrRules.length === 0) {
+      return []
+    }
+    await chrome.declarativeNetRequest.updateSessionRules({ addRules: dnrRules })
+    const ids = dnrRules.map((rule) => rule.id)
+    const byTab = await readTabRuleIds()
+    byTab[String(tabId)] = [...(byTab[String(tabId)] ?? []), ...ids]
+    await writeTabRuleIds(byTab)
+    return ids
+  })
+}
+
+/**
+ * Remove rules a tab installed (`abort()` from the script); ids owned by other tabs are ignored.
+ * @param tabId Tab that installed the rules
+ * @param ruleIds Ids returned by `addGmWebRequestRules`
+ */
+export function removeGmWebRequestRules(tabId: number, ruleIds: number[]): Promise<void> {
+  return enqueue(async () => {
+    const byTab = await readTabRuleIds()
+    const owned = new Set(byTab[String(tabId)] ?? [])
+    const removeRuleIds = ruleIds.filter((id) => owned.has(id))
+    if (removeRuleIds.length === 0) {
+      return
+    }
+    await chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds })
+    const remaining = [...owned].filter((id) => !removeRuleIds.includes(id))
+    if (remaining.length === 0) {
+      delete byTab[String(tabId)]
+    } else {
+      byTab[String(tabId)] = remaining
+    }
+    await writeTabRuleIds(byTab)
+  })
+}
+
+/**
+ * Drop a tab's rules when it loads a new document or closes.
+ * @param tabId Chrome tab id
+ */
+export function clearGmWebRequestRulesForTab(tabId: number): Promise<void> {
+  return enqueue(async () => {
+    const byTab = await readTabRuleIds()
+    const removeRuleIds = byTab[String(tabId)]
+    if (!removeRuleIds) {
+      return
+    }
+    await chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds })
+    delete byTab[String(tabId)]
+    await writeTabRuleIds(byTab)
+  })
+}
@@ -0,0 +1,255 @@
+import { base64ToBytes, bytesToBase64 } from '@ext/shared/base64-bytes'
+import type { BridgeXhrDetails, BridgeXhrEvent, BridgeXhrPortRequest } from '@ext/shared/messages'
+import { PERMISSION_DENIED_CODE, permissionResourceMatchesUrl } from '@shared/script-permission'
+
+import { extensionLogger } from '../shared/logger'
+import { ensureScriptPermissionForTab } from './permission-manager'
+
+/** Session DNR rule ids for per-request `cookie` headers (910_000 … 910_999, recycled). */
+const XHR_COOKIE_DNR_RULE_ID_BASE = 910_000
+const XHR_COOKIE_DNR_RULE_ID_COUNT = 1000
+
+let cookieRuleSeq = 0
+
+/**
+ * @param responseType Requested `responseType`
+ * @returns Whether the body is decoded to text in the background (text / json)
+ */
+export function isTextXhrResponseType(responseType: BridgeXhrDetails['responseType']): boolean {
+  return responseType == null || responseType === 'text' || responseType === 'json'
+}
+
+/**
+ * Charset for decoding a text response; `overrideMimeType` wins over the response header.
+ * @param contentType Response `content-type`
+ * @param overrideMimeType Script-provided MIME type
+ * @returns A label `TextDecoder` accepts (falls back to utf-8)
+ */
+export function resolveXhrCharset(contentType: string | null, overrideMimeType?: string): string {
+  const source = overrideMimeType || contentType || ''
+  const label = /charset\s*=\s*"?([^";]+)"?/i.exec(source)?.[1]?.trim()
+  if (!label) {
+    return 'utf-8'
+  }
+  try {
+    return new TextDecoder(label).encoding
+  } catch {
+    return 'utf-8'
+  }
+}
+
+/**
+ * Translate GM request details to `fetch` options.
+ * @param details Bridge request details
+ * @param signal Abort signal (abort / timeout / port disconnect)
+ */
+export function buildXhrRequestInit(details: BridgeXhrDetails, signal: AbortSignal): RequestInit {
+  const method = (details.method ?? 'GET').toUpperCase()
+  const headers = new Headers(details.headers)
+  if (details.user != null && !headers.has('authorization')) {
+    const credentials = new TextEncoder().encode(`${details.user}:${details.password ?? ''}`)
+    headers.set('authorization', `Basic ${bytesToBase64(credentials)}`)
+  }
+  let body: BodyInit | undefined
+  if (method !== 'GET' && method !== 'HEAD' && details.data != null) {
+    body = details.dataEncoding === 'base64' ? (base64ToBytes(details.data) as Uint8Array<ArrayBuffer>) : details.data
+  }
+  return {
+    method,
+    headers,
+    body,
+    credentials: details.anonymous ? 'omit' : 'include',
+    redirect: details.redirect ?? 'follow',
+    cache: details.nocache ? 'no-store' : details.revalidate ? 'no-cache' : 'default',
+    signal,
+  }
+}
+
+function formatResponseHeaders(headers: Headers): string {
+  return Array.from(headers.entries())
+    .map(([k, v]) => `${k}: ${v}`)
+    .join('\r\n')
+}
+
+function readContentLength(headers: Headers): number | null {
+  const raw = headers.get('content-length')
+  if (raw == null) {
+    return null
+  }
+  const value = Number(raw)
+  return Number.isFinite(value) && value >= 0 ? value : null
+}
+
+/**
+ * `fetch` cannot set `Cookie`; append it with a short-lived session rule scoped to extension requests for this URL.
+ * @returns Rule id to remove afterwards, or null when DNR is unavailable
+ */
+async function addXhrCookieRule(url: string, cookie: string): Promise<number | null> {
+  if (!chrome.declarativeNetRequest?.updateSessionRules) {
+    return null
+  }
+  const id = XHR_COOKIE_DNR_RULE_ID_BASE + (cookieRuleSeq++ % XHR_COOKIE_DNR_RULE_ID_COUNT)
+  try {
+    await chrome.declarativeNetRequest.updateSessionRules({
+      removeRuleIds: [id],
+      addRules: [
+        {
+          id,
+          priority: 1,
+          action: {
+            type: 'modifyHeaders',
+            requestHeaders: [{ header: 'cookie', operation: 'append', value: cookie }],
+          },
+          condition: {
+            urlFilter: `|${url.split('#')[0]}|`,
+            resourceTypes: ['xmlhttprequest', 'other'],
+            tabIds: [chrome.tabs.TAB_ID_NONE],
+          },
+        } as chrome.declarativeNetRequest.Rule,
+      ],
+    })
+    return id
+  } catch (error) {
+    extensionLogger.warn('GM_XHR cookie rule install failed', error)
+    return null
+  }
+}
+
+async function removeXhrCookieRule(id: number): Promise<void> {
+  try {
+    await chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds: [id] })
+  } catch {
+    // rule expires with the browser session anyway
+  }
+}
+
+async function isXhrPermitted(details: BridgeXhrDetails, url: string, tabId: number | undefined): Promise<boolean> {
+  if (tabId == null || !details.permission) {
+    return true
+  }
+  if (!permissionResourceMatchesUrl(details.permission.resource, url)) {
+    return false
+  }
+  return ensureScriptPermissionForTab(tabId, details.permission)
+}
+
+/**
+ * Run one `GM_xmlhttpRequest` from the background, streaming the body as it arrives.
+ * Always ends with exactly one terminal event (`load` / `error` / `timeout` / `abort`).
+ * @param details Bridge request details
+ * @param tabId Requesting tab (permission check); undefined for background scripts
+ * @param emit Receives events in order
+ * @param signal Aborts the request (script `abort()` or port disconnect)
+ */
+export async function runBridgeXhr(details: BridgeXhrDetails, tabId: number | undefined, emit: (event: BridgeXhrEvent) => void, signal?: AbortSignal): Promise<void> {
+  const url = details.url?.trim()
+  if (!url) {
+    emit({ type: 'error', error: 'GM_XHR missing URL' })
+    return
+  }
+  if (!(await isXhrPermitted(details, url, tabId))) {
+    emit({ type: 'error', error: PERMISSION_DENIED_CODE })
+    return
+  }
+  if (signal?.aborted) {
+    emit({ type: 'abort' })
+    return
+  }
+
+  const controller = new AbortController()
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort)
+  let timedOut = false
+  const timeout = typeof details.timeout === 'number' && details.timeout > 0 ? details.timeout : 0
+  const timer = timeout
+    ? setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeout)
+    : undefined
+  const cookieRuleId = details.cookie ? await addXhrCookieRule(url, details.cookie) : null
+
+  try {
+    const res = await fetch(url, buildXhrRequestInit(details, controller.signal))
+    const total = readContentLength(res.headers)
+    emit({
+      type: 'headers',
+      status: res.status,
+      statusText: res.statusText,
+      responseHeaders: formatResponseHeaders(res.headers),
+      finalUrl: res.url || url,
+      total,
+    })
+
+    const decoder = isTextXhrResponseType(details.responseType) ? new TextDecoder(resolveXhrCharset(res.headers.get('content-type'), details.overrideMimeType)) : undefined
+    let loaded = 0
+    if (res.body) {
+      const reader = res.body.getReader()
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+        loaded += value.byteLength
+        if (decoder) {
+          emit({ type: 'chunk', data: decoder.decode(value, { stream: true }), encoding: 'text', loaded, total })
+        } else {
+          emit({ type: 'chunk', data: bytesToBase64(value), encoding: 'base64', loaded, total })
+        }
+      }
+    }
+    const tail = decoder?.decode()
+    if (tail) {
+      emit({ type: 'chunk', data: tail, encoding: 'text', loaded, total })
+    }
+    emit({ type: 'load' })
+  } catch (error) {
+    if (timedOut) {
+      emit({ type: 'timeout' })
+    } else if (controller.signal.aborted) {
+      emit({ type: 'abort' })
+    } else {
+      const message = error instanceof Error ? error.message : String(error)
+      emit({ type: 'error', error: `GM_XHR fetch failed: ${message} url=${url.slice(0, 180)}` })
+    }
+  } finally {
+    if (timer) {
+      clearTimeout(timer)
+    }
+    signal?.removeEventListener('abort', onAbort)
+    if (cookieRuleId != null) {
+      await removeXhrCookieRule(cookieRuleId)
+    }
+  }
+}
+
+/**
+ * Serve one streamed request over a `GM_XHR_PORT_NAME` port from the content script.
+ * Disconnecting the port aborts the request; the content script disconnects after the terminal event.
+ * @param port Connected port
+ */
+export function attachGmXhrPort(port: chrome.runtime.Port): void {
+  const controller = new AbortController()
+  let started = false
+  let connected = true
+  port.onDisconnect.addListener(() => {
+    connected = false
+    controller.abort()
+  })
+  port.onMessage.addListener((message: BridgeXhrPortRequest) => {
+    if (message?.type === 'abort') {
+      controller.abort()
+      return
+    }
+    if (message?.type !== 'start' || started) {
+      return
+    }
+    started = true
+    const emit = (event: BridgeXhrEvent) => {
+      if (connected) {
+        port.postMessage(event)
+      }
+    }
+    void runBridgeXhr(message.details, port.sender?.tab?.id, emit, controller.signal)
+  })
+}
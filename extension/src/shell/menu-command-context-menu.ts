@@ -0,0 +1,67 @@
+import { MENU_COMMAND_INVOKE_EVENT } from '@ext/bridge/constants'
+import { getTabMenuCommands } from '@ext/shared/tab-menu-commands'
+
+import { extensionLogger } from '../shared/logger'
+import { getActiveTab } from './background-tab-utils'
+
+const CONTEXT_MENU_ROOT_ID = 'vws-menu-commands'
+const CONTEXT_MENU_ITEM_PREFIX = 'vws-menu-command:'
+
+/** Rebuilds run one at a time; `removeAll` + `create` must not interleave. */
+let contextMenuSync: Promise<void> = Promise.resolve()
+
+/**
+ * Run a page's `GM_registerMenuCommand` callback (top frame).
+ * @param tabId Chrome tab id
+ * @param id Command id reported by the page
+ */
+export async function invokeTabMenuCommand(tabId: number, id: string): Promise<void> {
+  await chrome.tabs.sendMessage(tabId, { type: MENU_COMMAND_INVOKE_EVENT, payload: { id } }, { frameId: 0 })
+}
+
+async function rebuildContextMenu(): Promise<void> {
+  await chrome.contextMenus.removeAll()
+  const tab = await getActiveTab()
+  const commands = tab?.id == null ? [] : await getTabMenuCommands(tab.id)
+  if (commands.length === 0) {
+    return
+  }
+  const created = () => void chrome.runtime.lastError
+  chrome.contextMenus.create({ id: CONTEXT_MENU_ROOT_ID, title: 'MagickMonkey', contexts: ['all'], documentUrlPatterns: ['http://*/*', 'https://*/*'] }, created)
+  for (const command of commands) {
+    chrome.contextMenus.create({ id: `${CONTEXT_MENU_ITEM_PREFIX}${command.id}`, parentId: CONTEXT_MENU_ROOT_ID, title: command.caption, contexts: ['all'] }, created)
+  }
+}
+
+/**
+ * Mirror the active tab's menu commands into the page context menu (one global menu, rebuilt on tab switch).
+ * @returns Promise that resolves when the menu matches the active tab
+ */
+export function syncMenuCommandContextMenu(): Promise<void> {
+  contextMenuSync = contextMenuSync.then(rebuildContextMenu).catch((error) => {
+    extensionLogger.warn('Menu command context menu sync failed', error)
+  })
+  return contextMenuSync
+}
+
+/** Wire context-menu clicks and active-tab changes (service worker start). */
+export function installMenuCommandContextMenu(): void {
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    const menuItemId = String(info.menuItemId)
+    if (!menuItemId.startsWith(CONTEXT_MENU_ITEM_PREFIX) || tab?.id == null) {
+      return
+    }
+    void invokeTabMenuCommand(tab.id, menuItemId.slice(CONTEXT_MENU_ITEM_PREFIX.length)).catch((error) => {
+      extensionLogger.warn('Menu command invoke failed', error)
+    })
+  })
+  chrome.tabs.onActivated.addListener(() => {
+    void syncMenuCommandContextMenu()
+  })
+  chrome.windows.onFocusChanged.addListener((windowId) => {
+    if (windowId !== chrome.windows.WINDOW_ID_NONE) {
+      void syncMenuCommandContextMenu()
+    }
+  })
+  void syncMenuCommandContextMenu()
+}
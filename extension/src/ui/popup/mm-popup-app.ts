@@ -4,6 +4,7 @@ import { buildQuickRuleScriptSelectOptions, loadExtensionConfig, loadGmScopeForS
 import { fetchExtensionUpdateInfo } from '@ext/shared/extension-update-check'
 import { sendShellMessage } from '@ext/shared/messages'
 import { reportDebugLog } from '@ext/shared/report-debug-log'
+import type { MenuCommandEntry } from '@ext/shared/tab-menu-commands'
 import { captureAdminPageForDevReload } from '@ext/shell/dev-admin-restore'
 import { openAgentSidePanelFromUserGesture } from '@ext/shell/webmcp/webmcp-side-panel'
 import type { ShellLogOutputMode } from '@shared/shell-log-output'
@@ -37,6 +38,8 @@ export class MmPopupApp extends HTMLElement {
   private versionFooterDownloadPending = false
   private static readonly QUICK_RULE_RECENT_SCRIPT_KEY = 'vws_popup_quick_rule_recent_script'
   private defaultPopupSize: { width: number; height: number } | null = null
+  private menuCommands: MenuCommandEntry[] = []
+  private readonly menuCommandKeyListener = (event: KeyboardEvent) => this.handleMenuCommandAccessKey(event)
 
   connectedCallback(): void {
     if (this.bound) {
@@ -52,7 +55,7 @@ export class MmPopupApp extends HTMLElement {
     this.ensureVersionFooterInitial()
     void this.hydrateCachedPresetVersion()
     void (async () => {
-      await this.refresh({ network: false })
+      await Promise.all([this.refresh({ network: false }), this.refreshMenuCommands()])
       requestAnimationFrame(() => {
         this.captureDefaultPopupSize()
         this.applyDefaultPopupSize()
@@ -68,6 +71,7 @@ export class MmPopupApp extends HTMLElement {
     this.versionFooterComboCleanup?.()
     this.versionFooterComboCleanup = null
     this.closeShellDisableMenu()
+    document.removeEventListener('keydown', this.menuCommandKeyListener)
   }
 
   private bindEvents(): void {
@@ -150,6 +154,81 @@ export class MmPopupApp extends HTMLElement {
     this.querySelector('[data-ref="quick-pattern"]')?.addEventListener('input', () => {
       this.syncQuickTemplateFromPatternInput()
     })
+    document.addEventListener('keydown', this.menuCommandKeyListener)
+  }
+
+  /** Load `GM_registerMenuCommand` entries of the active tab. */
+  private async refreshMenuCommands(): Promise<void> {
+    const res = await sendShellMessage({ type: 'GET_TAB_MENU_COMMANDS' })
+    this.menuCommands = res.ok && 'menuCommands' in res && res.menuCommands ? res.menuCommands : []
+    this.renderMenuCommands()
+  }
+
+  private renderMenuCommands(): void {
+    const card = this.querySelector('[data-ref="menu-commands-card"]') as HTMLElement | null
+    const list = this.querySelector('[data-ref="menu-commands"]') as HTMLElement | null
+    if (!card || !list) {
+      return
+    }
+    card.classList.toggle('hidden', this.menuCommands.length === 0)
+    list.replaceChildren(
+      ...this.menuCommands.map((command) => {
+        const button = document.createElement('button')
+        button.type = 'button'
+        button.className = 'mm-row-btn'
+        button.setAttribute('role', 'menuitem')
+        button.title = command.title ?? (command.file ? `${command.caption} (${command.file})` : command.caption)
+        const caption = document.createElement('span')
+        caption.className = 'min-w-0 flex-1 truncate'
+        caption.textContent = command.caption
+        button.appendChild(caption)
+        const hint = [command.file, command.accessKey?.toUpperCase()].filter(Boolean).join(' · ')
+        if (hint) {
+          const meta = document.createElement('span')
+          meta.className = 'shrink-0 text-xs text-mm-text-muted'
+          meta.textContent = hint
+          button.appendChild(meta)
+        }
+        button.addEventListener('click', () => {
+          void this.runMenuCommand(command)
+        })
+        return button
+      })
+    )
+  }
+
+  /** Access keys run their command while the main view has focus (not while typing in the quick-rule form). */
+  private handleMenuCommandAccessKey(event: KeyboardEvent): void {
+    if (event.ctrlKey || event.metaKey || event.altKey || event.key.length !== 1) {
+      return
+    }
+    const target = event.target
+    if (target instanceof HTMLElement && (target.isContentEditable || target.closest('input, textarea, mm-input, mm-search-select'))) {
+      return
+    }
+    if (this.querySelector('[data-ref="main-view"]')?.classList.contains('hidden')) {
+      return
+    }
+    const key = event.key.toLowerCase()
+    const command = this.menuCommands.find((entry) => entry.accessKey?.toLowerCase() === key)
+    if (command) {
+      event.preventDefault()
+      void this.runMenuCommand(command)
+    }
+  }
+
+  private async runMenuCommand(command: MenuCommandEntry): Promise<void> {
+    const res = await sendShellMessage({ type: 'RUN_MENU_COMMAND', id: command.id })
+    if (!res.ok) {
+      this.logPopupAction('menu-command', 'error', undefined, command.caption, res.error)
+      this.showToast(res.error, true)
+      await this.refreshMenuCommands()
+      return
+    }
+    this.logPopupAction('menu-command', 'info', undefined, command.caption)
+    if (command.autoClose !== false) {
+      window.close()
+    }
   }
 
   private bindVersionFooterComboDownload(): void {
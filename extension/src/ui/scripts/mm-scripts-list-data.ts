@@ -81,6 +81,7 @@ async function applyScriptGroups(host: MmScriptsListDataHost, root: HTMLElement,
         author: s.author,
         contentHash: s.contentHash,
         updatedAt: s.updatedAt,
+        settings: s.settings,
         ota,
         acceptAlpha,
         serviceLabel,
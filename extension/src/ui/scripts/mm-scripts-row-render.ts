@@ -7,6 +7,7 @@ import { formatScriptUpdatedAt } from '../shared/mm-format-relative-time'
 import { createMmScriptsSwitch } from '../shared/mm-scripts-switch'
 import type { MmToast } from '../shared/mm-toast'
 import { updateMmTooltip } from '../shared/mm-tooltip'
+import { renderScriptSettingsPanel } from './mm-scripts-settings-panel'
 import { type ScriptRow, STAGE_BADGE_CLASS } from './mm-scripts-types'
 
 export interface MmScriptsRowRenderHost {
@@ -243,6 +244,35 @@ function renderInstallButton(host: MmScriptsRowRenderHost, item: ScriptRow): HTM
   return btn
 }
 
+function renderSettingsButton(host: MmScriptsRowRenderHost, item: ScriptRow, row: HTMLElement): HTMLButtonElement {
+  const btn = document.createElement('button')
+  btn.type = 'button'
+  btn.className = 'mm-script-settings-btn mm-icon-btn-sm'
+  btn.setAttribute('aria-label', 'Script settings')
+  btn.setAttribute('aria-expanded', 'false')
+  btn.setAttribute('data-mm-tooltip', 'Script settings')
+  btn.disabled = !item.groupActive || !item.installed
+  applyScriptTooltipPlacement(btn)
+  const icon = document.createElement('span')
+  icon.className = 'mm-icon-slot'
+  icon.setAttribute('data-icon', 'settings')
+  btn.append(icon)
+
+  btn.addEventListener('click', (event) => {
+    event.stopPropagation()
+    const open = row.nextElementSibling
+    if (open instanceof HTMLElement && open.classList.contains('mm-script-settings')) {
+      open.remove()
+      btn.setAttribute('aria-expanded', 'false')
+      return
+    }
+    row.after(renderScriptSettingsPanel(host, item))
+    btn.setAttribute('aria-expanded', 'true')
+  })
+
+  return btn
+}
+
 function renderServiceCell(item: ScriptRow): HTMLDivElement {
   const cell = document.createElement('div')
   cell.className = 'mm-script-cell mm-script-cell--service'
@@ -310,6 +340,9 @@ function renderRow(host: MmScriptsRowRenderHost, item: ScriptRow, index: number)
 
   const actionsCell = document.createElement('div')
   actionsCell.className = 'mm-script-cell mm-script-cell--actions'
+  if (item.settings?.length) {
+    actionsCell.append(renderSettingsButton(host, item, row))
+  }
   actionsCell.append(rulesLink, installBtn)
 
   const rowChildren: HTMLElement[] = [
@@ -0,0 +1,232 @@
+import { readScriptSettings, writeScriptSettings } from '@ext/shared/extension-storage'
+import { coerceScriptSettingValue, type ScriptSettingField, type ScriptSettings } from '@shared/script-settings'
+
+import type { MmToast } from '../shared/mm-toast'
+import type { ScriptRow } from './mm-scripts-types'
+
+const SELECT_CHEVRON_SVG =
+  '<svg viewBox="0 0 20 20" fill="none"><path d="m6 8 4 4 4-4" stroke="currentColor" stroke-width="1.8" stroke-linecap="round" stroke-linejoin="round" /></svg>'
+
+export interface MmScriptsSettingsPanelHost {
+  toast: MmToast
+}
+
+type FieldControl = { field: ScriptSettingField; read(): unknown; setError(message: string | null): void }
+
+function fieldId(item: ScriptRow, field: ScriptSettingField): string {
+  return `mm-setting-${item.scriptKey.slice(0, 8)}-${item.file}-${field.key}`.replace(/[^\w-]/g, '_')
+}
+
+function renderSwitchField(item: ScriptRow, field: ScriptSettingField, value: boolean): { element: HTMLElement; control: FieldControl } {
+  const card = document.createElement('label')
+  card.className = 'mm-options-toggle-card'
+  const copy = document.createElement('span')
+  copy.className = 'mm-options-toggle-copy'
+  const title = document.createElement('span')
+  title.className = 'mm-options-toggle-title'
+  title.textContent = field.label
+  const key = document.createElement('span')
+  key.className = 'mm-options-toggle-text'
+  key.textContent = field.key
+  copy.append(title, key)
+
+  const switchControl = document.createElement('span')
+  switchControl.className = 'mm-switch-control'
+  const input = document.createElement('input')
+  input.type = 'checkbox'
+  input.className = 'mm-switch-input'
+  input.id = fieldId(item, field)
+  input.checked = value
+  const track = document.createElement('span')
+  track.className = 'mm-switch-track'
+  track.setAttribute('aria-hidden', 'true')
+  const thumb = document.createElement('span')
+  thumb.className = 'mm-switch-thumb'
+  thumb.setAttribute('aria-hidden', 'true')
+  switchControl.append(input, track, thumb)
+  card.append(copy, switchControl)
+
+  return { element: card, control: { field, read: () => input.checked, setError: () => undefined } }
+}
+
+function renderSelectControl(field: ScriptSettingField, value: string): { element: HTMLElement; read(): string } {
+  const select = document.createElement('mm-select')
+  const input = document.createElement('input')
+  input.type = 'hidden'
+  input.value = value
+  input.setAttribute('aria-label', field.label)
+
+  const trigger = document.createElement('button')
+  trigger.type = 'button'
+  trigger.className = 'mm-select-trigger'
+  trigger.dataset.ref = 'select-trigger'
+  trigger.setAttribute('aria-haspopup', 'listbox')
+  trigger.setAttribute('aria-expanded', 'false')
+  trigger.setAttribute('aria-label', field.label)
+  const valueEl = document.createElement('span')
+  valueEl.className = 'mm-select-value'
+  valueEl.dataset.ref = 'select-value'
+  valueEl.textContent = value
+  const chevron = document.createElement('span')
+  chevron.className = 'mm-select-chevron'
+  chevron.setAttribute('aria-hidden', 'true')
+  chevron.innerHTML = SELECT_CHEVRON_SVG
+  trigger.append(valueEl, chevron)
+
+  const menu = document.createElement('div')
+  menu.className = 'mm-select-menu'
+  menu.setAttribute('role', 'listbox')
+  for (const option of field.options ?? []) {
+    const optionEl = document.createElement('button')
+    optionEl.type = 'button'
+    optionEl.className = 'mm-select-option'
+    optionEl.dataset.value = option
+    optionEl.setAttribute('aria-selected', String(option === value))
+    optionEl.textContent = option
+    menu.append(optionEl)
+  }
+
+  select.append(input, trigger, menu)
+  return { element: select, read: () => input.value }
+}
+
+function renderInputField(item: ScriptRow, field: ScriptSettingField, value: string | number): { element: HTMLElement; control: FieldControl } {
+  const wrapper = document.createElement('mm-field')
+  wrapper.className = 'mm-options-field'
+  const label = document.createElement('label')
+  label.className = 'mm-label'
+  label.htmlFor = fieldId(item, field)
+  label.textContent = field.label
+
+  const error = document.createElement('p')
+  error.className = 'mm-field-error'
+  error.setAttribute('role', 'alert')
+  error.hidden = true
+  const setError = (message: string | null) => {
+    error.textContent = message ?? ''
+    error.hidden = !message
+  }
+
+  if (field.type === 'select') {
+    const select = renderSelectControl(field, String(value))
+    select.element.id = fieldId(item, field)
+    wrapper.append(label, select.element, error)
+    return { element: wrapper, control: { field, read: select.read, setError } }
+  }
+
+  const inputWrap = document.createElement('mm-input')
+  const input = document.createElement('input')
+  input.id = fieldId(item, field)
+  input.type = field.type === 'number' ? 'number' : 'text'
+  input.value = String(value)
+  input.autocomplete = 'off'
+  input.spellcheck = false
+  inputWrap.append(input)
+  wrapper.append(label, inputWrap, error)
+  return { element: wrapper, control: { field, read: () => input.value, setError } }
+}
+
+function collectSettings(controls: FieldControl[]): ScriptSettings | null {
+  const settings: ScriptSettings = {}
+  let valid = true
+  for (const control of controls) {
+    const value = coerceScriptSettingValue(control.field, control.read())
+    if (value === undefined) {
+      control.setError(control.field.type === 'number' ? 'Enter a number' : 'Invalid value')
+      valid = false
+      continue
+    }
+    control.setError(null)
+    settings[control.field.key] = value
+  }
+  return valid ? settings : null
+}
+
+function renderActions(host: MmScriptsSettingsPanelHost, item: ScriptRow, panel: HTMLElement, controls: FieldControl[]): HTMLElement {
+  const actions = document.createElement('div')
+  actions.className = 'mm-script-settings-actions'
+
+  const resetWrap = document.createElement('mm-button')
+  resetWrap.setAttribute('variant', 'warn')
+  const reset = document.createElement('button')
+  reset.type = 'button'
+  reset.textContent = 'Reset to defaults'
+  resetWrap.append(reset)
+
+  const saveWrap = document.createElement('mm-button')
+  saveWrap.setAttribute('variant', 'primary')
+  const save = document.createElement('button')
+  save.type = 'button'
+  save.textContent = 'Save'
+  saveWrap.append(save)
+
+  reset.addEventListener('click', () => {
+    void (async () => {
+      await writeScriptSettings(item.scriptKey, item.serviceUrl, item.file, null)
+      host.toast.show(`${item.file}: settings reset — reload tabs to apply`, 'success')
+      await fillScriptSettingsPanel(host, item, panel)
+    })()
+  })
+  save.addEventListener('click', () => {
+    const settings = collectSettings(controls)
+    if (!settings) {
+      host.toast.show(`${item.file}: fix the highlighted settings`, 'error')
+      return
+    }
+    void writeScriptSettings(item.scriptKey, item.serviceUrl, item.file, settings).then(() => {
+      host.toast.show(`${item.file}: settings saved — reload tabs to apply`, 'success')
+    })
+  })
+
+  actions.append(resetWrap, saveWrap)
+  return actions
+}
+
+/**
+ * (Re)build the form of an open settings panel from the saved values.
+ * @param host Scripts app (toasts)
+ * @param item Script row with `@setting` declarations
+ * @param panel Panel element from {@link renderScriptSettingsPanel}
+ */
+async function fillScriptSettingsPanel(host: MmScriptsSettingsPanelHost, item: ScriptRow, panel: HTMLElement): Promise<void> {
+  const fields = item.settings ?? []
+  const values = await readScriptSettings(item.scriptKey, item.serviceUrl, item.file, fields)
+
+  const grid = document.createElement('div')
+  grid.className = 'mm-options-field-grid'
+  const toggles = document.createElement('div')
+  toggles.className = 'mm-script-settings-toggles'
+  const controls: FieldControl[] = []
+  for (const field of fields) {
+    if (field.type === 'boolean') {
+      const { element, control } = renderSwitchField(item, field, values[field.key] === true)
+      toggles.append(element)
+      controls.push(control)
+    } else {
+      const { element, control } = renderInputField(item, field, values[field.key] as string | number)
+      grid.append(element)
+      controls.push(control)
+    }
+  }
+
+  panel.replaceChildren(...[grid, toggles].filter((section) => section.childElementCount > 0), renderActions(host, item, panel, controls))
+}
+
+/**
+ * Inline settings form for a script's `@setting` declarations. Values are saved to the scriptKey's
+ * GM storage, where `GME_getSettings()` reads them on the next page load.
+ * @param host Scripts app (toasts)
+ * @param item Script row with settings
+ * @returns Panel element (filled asynchronously)
+ */
+export function renderScriptSettingsPanel(host: MmScriptsSettingsPanelHost, item: ScriptRow): HTMLElement {
+  const panel = document.createElement('section')
+  panel.className = 'mm-script-settings mm-options-section'
+  panel.dataset.scriptKey = item.scriptKey
+  panel.dataset.scriptFile = item.file
+  panel.setAttribute('aria-label', `${item.label || item.file} settings`)
+  void fillScriptSettingsPanel(host, item, panel).catch((error: unknown) => {
+    host.toast.show(`${item.file}: ${error instanceof Error ? error.message : String(error)}`, 'error')
+  })
+  return panel
+}
@@ -1,5 +1,6 @@
 import type { ScriptKeyScriptsGroupView } from '@ext/shared/extension-storage'
 import type { ScriptOtaPolicy } from '@shared/script-ota-policy'
+import type { ScriptSettingField } from '@shared/script-settings'
 
 export const STAGE_BADGE_CLASS: Record<'stable' | 'alpha', string> = {
   stable: 'mm-script-stage-badge mm-script-stage-badge--stable',
@@ -25,6 +26,8 @@ export type ScriptRow = {
   installed: boolean
   enabled: boolean
   groupActive: boolean
+  /** Userscript `@setting` declarations; the row gets a settings form when present. */
+  settings?: ScriptSettingField[]
   /** Stable server list order within scriptKey group. */
   sortIndex: number
 }
@@ -24,6 +24,8 @@ const EXTENSION_ENTRIES = [
   { name: 'content-bridge', input: 'src/bridge/content.ts' },
   { name: 'page-launcher', input: 'src/page/index.ts' },
   { name: 'page-tools-main', input: 'src/shell/webmcp/page-tools/page-tools-main.ts' },
+  { name: 'background-runner', input: 'src/shell/background-scripts/background-runner.ts' },
+  { name: 'background-sandbox', input: 'src/shell/background-scripts/background-sandbox.ts' },
 ] as const
 
 const sharedResolve: UserConfig['resolve'] = {
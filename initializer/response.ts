@@ -116,6 +116,10 @@ export function unauthorized(message = 'unauthorized') {
   return standardResponseError(message, { code: 2000 })
 }
 
+export function forbidden(message = 'forbidden') {
+  return standardResponseError(message, { code: 2001 })
+}
+
 export function textInvalidParameters(message: string, options: ResponseInit = {}) {
   return invalidParameters(message).toTextResponse(400, options)
 }
@@ -131,3 +135,7 @@ export function jsonInvalidParameters(message: string, options: ErrorResponseIni
 export function jsonUnauthorized(message = 'unauthorized', options: ErrorResponseInit = {}) {
   return unauthorized(message).toJsonResponse(401, options)
 }
+
+export function jsonForbidden(message = 'forbidden', options: ErrorResponseInit = {}) {
+  return forbidden(message).toJsonResponse(403, options)
+}
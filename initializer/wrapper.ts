@@ -4,8 +4,9 @@ import type { NextRequest } from 'next/server'
 
 import type { Context } from '@/initializer/controller'
 import { jsonUnauthorized } from '@/initializer/response'
-import { validateCookie } from '@/services/auth/access'
-import { getTraceId, runWithTraceId } from '@/services/context'
+import { getSessionUser, validateCookie } from '@/services/auth/access'
+import { getRoleScopeGrant } from '@/services/auth/userRoles'
+import { getTraceId, runWithTraceId, setActor, setScopeGrant } from '@/services/context'
 
 export interface AuthContext extends Context {
   $$authorized?: boolean
@@ -42,7 +43,7 @@ function logServerActionAccess(actionHint: string): void {
 }
 
 /**
- * Wrap a Server Action with cookie auth and TraceId ALS binding.
+ * Wrap a Server Action with cookie auth and TraceId ALS binding; the session user's role becomes the scope grant.
  * Pass `{ traceId }` on any object argument to reuse a client-generated id.
  * @param request Authenticated action body
  * @returns Callable action with `$$` unauthenticated escape hatch
@@ -50,12 +51,16 @@ function logServerActionAccess(actionHint: string): void {
 export function withAuthAction<A extends any[], R>(request: (...args: A) => Promise<R>): Action<A, R> {
   const actionHint = request.name || 'action'
   const action = async (...args: A): Promise<R> => {
-    if (!(await validateCookie())) {
-      redirect('/login')
-    }
-
     const traceId = peekTraceIdFromArgs(args) ?? createTraceId()
     return runWithTraceId(traceId, async () => {
+      // Resolved inside the context so checks in the action body reuse this request's users read.
+      const user = await getSessionUser()
+      if (!user) {
+        redirect('/login')
+      }
+
+      setActor(user.username)
+      setScopeGrant(getRoleScopeGrant(user.role))
       logServerActionAccess(actionHint)
       return request(...args)
     })
@@ -35,7 +35,7 @@ export default (): Config.InitialOptions => ({
     '^@/ui/(.*)$': '<rootDir>/preset/src/ui/$1',
     '^@/helpers/(.*)$': '<rootDir>/preset/src/helpers/$1',
     // Root Next.js `services/*` must win over preset `@/services/*` (same alias prefix).
-    '^@/services/(2fa|ai|auth|context|curl|extension|fetch|gist|oauth-login|runtime|scripts|tampermonkey)(/.*)?$': '<rootDir>/services/$1$2',
+    '^@/services/(2fa|ai|auth|context|curl|extension|fetch|gist|oauth-login|runtime|scripts|storage|tampermonkey|telemetry)(/.*)?$': '<rootDir>/services/$1$2',
     '^@/services/(.*)$': '<rootDir>/preset/src/services/$1',
     ...pathsToModuleNameMapper(tsconfigPaths, {
       prefix: '<rootDir>',
@@ -1,6 +1,26 @@
 import type { NextConfig } from 'next'
 
+// The script test sandbox process loads its TypeScript sources from disk (see services/scripts/scriptTestSandbox.cjs)
+const SCRIPT_TEST_SANDBOX_FILES = [
+  './services/scripts/scriptTestSandbox.cjs',
+  './services/scripts/scriptTestSandbox.ts',
+  './services/scripts/scriptTestProtocol.ts',
+  './services/scripts/scriptTestStubs.ts',
+  './services/tampermonkey/meta.ts',
+  './shared/*.ts',
+  './lib/tampermonkey-editor-typings.generated.ts',
+]
+
 const nextConfig: NextConfig = {
+  // Type-checked validation reads TypeScript's lib .d.ts files from disk at runtime, which file tracing can't see
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./node_modules/typescript/lib/lib.*.d.ts', ...SCRIPT_TEST_SANDBOX_FILES],
+    '/editor/**/*': ['./node_modules/typescript/lib/lib.*.d.ts', ...SCRIPT_TEST_SANDBOX_FILES],
+  },
+  experimental: {
+    // Import wizard uploads script manager backups (base64) through a server action
+    serverActions: { bodySizeLimit: '4mb' },
+  },
   async headers() {
     return [
       {
@@ -24,6 +24,8 @@ export const PRESET_BUILT_HASH_KEY = 'vws_preset_built_hash'
 
 /** GM_setValue key: when true, launcher + preset may request your deployment (rules, remote script, dev SSE/HMR); default false (offline shell) */
 export const SHELL_NETWORK_ENABLED_KEY = 'vws_shell_network_enabled'
+/** GM_setValue key: when true, script executions and errors are reported to the deployment's telemetry endpoint; default false */
+export const SHELL_TELEMETRY_ENABLED_KEY = 'vws_shell_telemetry_enabled'
 /** GM_setValue key: when true, log viewer persists logs to IndexedDB across sessions; default false (memory only) */
 export const SHELL_LOG_PERSIST_ENABLED_KEY = 'vws_shell_log_persist_enabled'
 /** GM_setValue key: log output mode — console | logviewer | none */
@@ -128,6 +128,137 @@ declare function GM_xmlhttpRequest(details: GMXMLHttpRequestDetails): {
   abort: () => void
 }
 
+/** Promise-style GM APIs */
+declare namespace GM {
+  /**
+   * Promise variant of GM_xmlhttpRequest; rejects on error, timeout or abort
+   * @param details Request configuration details
+   * @returns Promise of the final response, with an abort function
+   */
+  function xmlHttpRequest(details: GMXMLHttpRequestDetails): Promise<GMXMLHttpRequestResponse> & { abort: () => void }
+  /** Same object as GM_info */
+  const info: typeof GM_info
+  /**
+   * Promise variant of GM_getValue
+   * @param key Storage key
+   * @param defaultValue Default value if key doesn't exist
+   */
+  function getValue<T = any>(key: string, defaultValue?: T): Promise<T>
+  /**
+   * Promise variant of GM_setValue
+   * @param key Storage key
+   * @param value Value to store
+   */
+  function setValue(key: string, value: any): Promise<void>
+  /**
+   * Promise variant of GM_deleteValue
+   * @param key Storage key
+   */
+  function deleteValue(key: string): Promise<void>
+  /** Promise variant of GM_listValues */
+  function listValues(): Promise<string[]>
+  /**
+   * Promise variant of GM_getValues
+   * @param keys Keys, or an object of keys to default values
+   */
+  function getValues(keys: string[] | Record<string, any>): Promise<Record<string, any>>
+  /**
+   * Promise variant of GM_setValues
+   * @param obj Key-value pairs to store
+   */
+  function setValues(obj: Record<string, any>): Promise<void>
+  /**
+   * Promise variant of GM_deleteValues
+   * @param keys Keys to delete
+   */
+  function deleteValues(keys: string[]): Promise<void>
+  /**
+   * Promise variant of GM_addValueChangeListener
+   * @returns Promise of the listener ID
+   */
+  function addValueChangeListener(key: string, callback: (name: string, oldValue: any, newValue: any, remote: boolean) => void): Promise<string>
+  /**
+   * Promise variant of GM_removeValueChangeListener
+   * @param listenerId Listener ID returned from addValueChangeListener
+   */
+  function removeValueChangeListener(listenerId: string): Promise<void>
+  /**
+   * Promise variant of GM_setClipboard; resolves once the data is on the clipboard
+   * @param data Text or image Blob
+   * @param info Content type
+   */
+  function setClipboard(data: string | Blob, info?: Parameters<typeof GM_setClipboard>[1]): Promise<void>
+  /**
+   * Promise variant of GM_notification; resolves when the notification is done
+   * @param details Notification details object or text string
+   */
+  function notification(details: Parameters<typeof GM_notification>[0]): Promise<void>
+  /**
+   * Promise variant of GM_openInTab
+   * @param url URL to open
+   * @param options Options object or boolean for loadInBackground
+   */
+  function openInTab(url: string, options?: Parameters<typeof GM_openInTab>[1]): Promise<ReturnType<typeof GM_openInTab> | null>
+  /**
+   * Promise variant of GM_registerMenuCommand
+   * @returns Promise of the menu command ID
+   */
+  function registerMenuCommand(
+    name: string,
+    callback: (event: MouseEvent | KeyboardEvent) => void,
+    optionsOrAccessKey?: Parameters<typeof GM_registerMenuCommand>[2]
+  ): Promise<number | string>
+  /**
+   * Promise variant of GM_unregisterMenuCommand
+   * @param menuCmdId Menu command ID returned from registerMenuCommand
+   */
+  function unregisterMenuCommand(menuCmdId: number | string): Promise<void>
+  /**
+   * Promise variant of GM_addElement
+   * @returns Promise of the created element
+   */
+  function addElement(tagName: string, attributes?: Record<string, any>): Promise<HTMLElement>
+  /**
+   * Promise variant of GM_addStyle
+   * @param css CSS text
+   */
+  function addStyle(css: string): Promise<HTMLStyleElement>
+  /** Promise variant of GM_log */
+  function log(...messages: any[]): Promise<void>
+  /**
+   * Promise variant of GM_download; resolves on load and rejects on error
+   * @param details Download configuration object or URL string
+   * @param name Filename (if details is string)
+   */
+  function download(details: Omit<Exclude<Parameters<typeof GM_download>[0], string>, 'onload' | 'onerror'> | string, name?: string): Promise<void>
+  /**
+   * Promise variant of GM_getResourceText
+   * @param name Resource name
+   */
+  function getResourceText(name: string): Promise<string>
+  /**
+   * Promise variant of GM_getResourceURL (Greasemonkey 4 spelling)
+   * @param name Resource name
+   */
+  function getResourceUrl(name: string): Promise<string>
+  /** Promise variant of GM_getTab */
+  function getTab(): Promise<Record<string, any>>
+  /**
+   * Promise variant of GM_saveTab; rejects when the object could not be saved
+   * @param tab JSON-serializable object for this tab
+   */
+  function saveTab(tab: any): Promise<void>
+  /** Promise variant of GM_getTabs */
+  function getTabs(): Promise<Record<string, any>>
+  /** Promise variants of GM_cookie; reject with the callback's error */
+  namespace cookie {
+    export function list(details?: GMCookieDetails): Promise<GMCookie[]>
+    export function set(details: GMCookieDetails): Promise<void>
+    function _delete(details: GMCookieDetails): Promise<void>
+    export { _delete as delete }
+  }
+}
+
 /**
  * Store a value in the script's storage
  * @param key Storage key
@@ -406,14 +537,14 @@ declare function GM_download(
 }
 
 /**
- * Get resource text by name
+ * Get the text of a `@resource` declared in this script's header (pinned when the script is saved)
  * @param name Resource name
- * @returns Resource text content
+ * @returns Resource text content (null for binary resources or unknown names)
  */
 declare function GM_getResourceText(name: string): string
 
 /**
- * Get resource URL by name
+ * Get the content-addressed URL of a `@resource` declared in this script's header
  * @param name Resource name
  * @returns Resource URL
  */
@@ -443,7 +574,7 @@ declare function GM_addStyle(css: string): HTMLStyleElement
  * Get current tab information
  * @param callback Optional callback function with tab information
  */
-declare function GM_getTab(callback?: (tab: any) => void): void
+declare function GM_getTab(callback?: (tab: Record<string, any>) => void): void
 
 /**
  * Save tab information
@@ -459,16 +590,81 @@ declare function GM_saveTab(tab: any, callback?: (error?: string) => void): void
 declare function GM_getTabs(callback?: (tabs: Record<string, any>) => void): void
 
 /**
- * Intercept and modify web requests
- * @param details Request interception details
+ * Request rule for GM_webRequest
  */
-declare function GM_webRequest(details: any): void
+declare interface GMWebRequestRule {
+  /** URL glob, or include / match / exclude globs */
+  selector: string | { include?: string | string[]; match?: string | string[]; exclude?: string | string[] }
+  /** Cancel the request, redirect to a URL, or rewrite with a regex (`$1` back-references) */
+  action: 'cancel' | { cancel?: boolean; redirect?: string | { from: string; to: string } }
+}
+
+/**
+ * Block or redirect requests made by this page (extension: declarativeNetRequest session rules for this tab until the page unloads)
+ * @param rules One rule or a list of rules
+ * @param listener Called with `'error'` when a rule cannot be installed. The extension never reports matched
+ * requests (`'ok'`): declarativeNetRequest does not tell extensions which rules matched.
+ * @returns Object with abort function that removes the rules
+ */
+declare function GM_webRequest(
+  rules: GMWebRequestRule | GMWebRequestRule[],
+  listener?: (info: 'cancel' | 'redirect', message: 'ok' | 'error', details: { rule: GMWebRequestRule; description?: string }) => void
+): { abort: () => void }
 
 /**
- * Manage cookies
- * @param details Cookie operation details
+ * Cookie returned by GM_cookie.list
  */
-declare function GM_cookie(details: any): void
+declare interface GMCookie {
+  domain: string
+  hostOnly: boolean
+  httpOnly: boolean
+  name: string
+  path: string
+  sameSite: string
+  secure: boolean
+  session: boolean
+  value: string
+  /** Seconds since the epoch; absent for session cookies */
+  expirationDate?: number
+}
+
+/**
+ * Cookie filter / fields for GM_cookie; `url` defaults to the current page
+ */
+declare interface GMCookieDetails {
+  url?: string
+  domain?: string
+  name?: string
+  path?: string
+  value?: string
+  secure?: boolean
+  httpOnly?: boolean
+  sameSite?: 'no_restriction' | 'lax' | 'strict' | 'unspecified'
+  expirationDate?: number
+}
+
+/** Manage cookies, including HttpOnly ones */
+declare namespace GM_cookie {
+  /**
+   * List cookies matching the filter
+   * @param details Filter (url, domain, name, path)
+   * @param callback Receives the cookies, or an error message
+   */
+  export function list(details?: GMCookieDetails, callback?: (cookies: GMCookie[], error?: string) => void): void
+  /**
+   * Create or overwrite a cookie
+   * @param details Cookie fields; `name` is required
+   * @param callback Receives an error message on failure
+   */
+  export function set(details: GMCookieDetails, callback?: (error?: string) => void): void
+  /**
+   * Delete a cookie by url and name
+   * @param details `name` is required
+   * @param callback Receives an error message on failure
+   */
+  function _delete(details: GMCookieDetails, callback?: (error?: string) => void): void
+  export { _delete as delete }
+}
 
 /**
  * Menu item configuration for custom menu commands
@@ -539,6 +735,17 @@ declare interface CommandPaletteCommand {
  */
 declare function GME_registerCommandPaletteCommand(command: CommandPaletteCommand): void
 
+/** Value of one `@setting` declaration */
+type GME_SettingValue = string | number | boolean
+
+/**
+ * Effective `@setting` values of the running script: saved values (Scripts page / command palette), defaults for the rest.
+ * Header syntax: `// @setting key type default [label]` with type `string`, `number`, `boolean` or `select(a|b)`.
+ * @param file Script filename; only needed in async callbacks when several scripts on the page declare settings
+ * @returns Settings keyed by setting key
+ */
+declare function GME_getSettings<T extends Record<string, GME_SettingValue> = Record<string, GME_SettingValue>>(file?: string): T
+
 /**
  * Open the MagickMonkey Agent side panel (extension shell).
  * Falls back to the keyboard shortcut ⌘⇧M / Ctrl+Shift+M when Chrome requires a user gesture.
@@ -735,7 +942,7 @@ declare interface GME_WebMcpToolDefinition {
 declare interface GME_RegisterWebMcpToolResult {
   ok: boolean
   canonicalName?: string
-  reason?: 'unsupported' | 'missing_script_key' | 'invalid_local_name' | 'duplicate' | 'register_failed'
+  reason?: 'unsupported' | 'missing_script_key' | 'invalid_local_name' | 'duplicate' | 'register_failed' | 'permission_denied'
   message?: string
 }
 
@@ -185,6 +185,20 @@ export function buildDefaultRemoteScriptUrl(): string {
   return `${base}/static/${encodeURIComponent(key)}/tampermonkey-remote.js`
 }
 
+/**
+ * Build the URL of the baseline release module of a script's active rollout (`/static/{key}/scripts/{file}?rollout=baseline`).
+ * @param file Managed script filename
+ * @returns Absolute URL or empty string
+ */
+export function buildRolloutBaselineModuleUrl(file: string): string {
+  const base = readLauncherBaseUrl()
+  const key = parseStaticKeyFromScriptUrl(readHostScriptUrl()) || readLauncherScriptKey()
+  if (!base || !key) {
+    return ''
+  }
+  return `${base}/static/${encodeURIComponent(key)}/scripts/${encodeURIComponent(file)}?rollout=baseline`
+}
+
 /**
  * Resolve remote bundle URL from arg, preset decls, launcher globals, GM cache, or defaults.
  * @param url Optional explicit URL
@@ -207,6 +221,17 @@ export function resolveLauncherScriptUrl(url?: unknown): string {
   return readHostScriptUrl() || readScriptUrlFromGmStorage() || buildDefaultRemoteScriptUrl()
 }
 
+/**
+ * Build a key-scoped deployment API URL (`/api/tampermonkey/{key}/{route}`) from launcher globals.
+ * @param route Route below the key, e.g. `telemetry`
+ * @returns Absolute URL or empty string when base URL or key is unknown
+ */
+export function buildLauncherApiUrl(route: string): string {
+  const base = readLauncherBaseUrl()
+  const key = readLauncherScriptKey() || parseStaticKeyFromScriptUrl(resolveLauncherScriptUrl()) || ''
+  return base && key ? `${base}/api/tampermonkey/${encodeURIComponent(key)}/${route}` : ''
+}
+
 /** Shorten a URL for log output (keep filename suffix when truncated). */
 export function shortUrlLabel(url: string, max = 80): string {
   if (!url) return '(none)'
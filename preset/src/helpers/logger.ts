@@ -8,6 +8,7 @@ import { enterTraceScope, exitTraceScope, getActiveTraceId, resolveLogTraceId, s
 import { buildVwsConsoleLogArgsWithTrace, buildVwsConsolePrefix, type VwsConsoleLogLevel } from '@shared/vws-console-log-styles'
 
 import { logStore } from '@/services/log-store'
+import { recordScriptTelemetryExecution } from '@/services/script-telemetry'
 import { shouldLogToConsole, shouldLogToMemory } from '@/services/shell-log-settings'
 
 type GmeStoreLevel = 'ok' | 'info' | 'warn' | 'fail' | 'debug'
@@ -60,6 +61,13 @@ function notifyExtensionScriptFailed(contents: unknown[]): void {
   reportExtensionScriptFailed(file)
 }
 
+function recordExecutionTelemetry(contents: unknown[]): void {
+  const file = parseScriptExecutingLog(contents[0])
+  if (file) {
+    recordScriptTelemetryExecution(file)
+  }
+}
+
 function isExtensionPageContext(): boolean {
   if (typeof window === 'undefined') {
     return false
@@ -202,6 +210,7 @@ function emitGmeLog(scope: string, level: VwsConsoleLogLevel, storeLevel: GmeSto
   }
   if (storeLevel === 'ok') {
     notifyExtensionScriptTriggered(contents)
+    recordExecutionTelemetry(contents)
   }
   if (storeLevel === 'fail') {
     notifyExtensionScriptFailed(contents)
@@ -225,6 +234,7 @@ function emitGmeLog(scope: string, level: VwsConsoleLogLevel, storeLevel: GmeSto
 function emitScriptLog(scope: string, level: VwsConsoleLogLevel, storeLevel: GmeStoreLevel, ...contents: any[]): void {
   if (storeLevel === 'ok') {
     notifyExtensionScriptTriggered(contents)
+    recordExecutionTelemetry(contents)
   }
   if (storeLevel === 'fail') {
     notifyExtensionScriptFailed(contents)
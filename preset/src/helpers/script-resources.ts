@@ -0,0 +1 @@
+export { installScriptResourceApi, registerScriptResources } from '@shared/script-resources'
@@ -0,0 +1 @@
+export { getScriptSettings } from '@shared/script-settings'
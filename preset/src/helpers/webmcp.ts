@@ -1,3 +1,4 @@
+import { ensureScopedScriptPermission } from '@shared/script-permission-scope'
 import { registerVwsWebMcpTool, type RegisterVwsWebMcpToolResult, type VwsWebMcpToolInput } from '@shared/webmcp/register-tool'
 
 import { GME_warn } from '@/helpers/logger'
@@ -12,6 +13,13 @@ export type GME_RegisterWebMcpToolResult = RegisterVwsWebMcpToolResult
  * @returns Structured registration result
  */
 export async function GME_registerWebMcpTool(definition: GME_WebMcpToolDefinition, options?: { signal?: AbortSignal }): Promise<GME_RegisterWebMcpToolResult> {
+  try {
+    await ensureScopedScriptPermission('webmcp-tool', String(definition?.name ?? '').trim() || '*')
+  } catch (error) {
+    const message = `[WebMCP] ${error instanceof Error ? error.message : String(error)}`
+    GME_warn(message)
+    return { ok: false, reason: 'permission_denied', message }
+  }
   return registerVwsWebMcpTool(definition, {
     signal: options?.signal,
     warn: GME_warn,
@@ -1,13 +1,16 @@
 import { formatCacheInventory, parseRulesCacheStats } from '@shared/cache-debug'
-import { RULE_CACHE_KEY } from '@shared/runtime-cache-clear'
-import { matchUrlPattern } from '@shared/url-pattern-match'
+import { createPageRuleContext, resolveRuleDecision, type RuleEngineEntry } from '@shared/rule-engine'
+import type { RuntimeRuleSetTarget } from '@shared/rule-set-ota'
+import { RULE_CACHE_KEY, RULE_SET_HASH_KEY } from '@shared/runtime-cache-clear'
+import { scriptModuleMatchesUrl } from '@shared/runtime-script-modules'
+import { matchUrlPattern, type ScriptUrlMatchRules } from '@shared/url-pattern-match'
 
 import { parseStaticKeyFromScriptUrl, readLauncherBaseUrl, readLauncherScriptKey, resolveLauncherScriptUrl, shortUrlLabel } from '@/helpers/launcher-script-url'
 import { GME_debug, GME_fail } from '@/helpers/logger'
 import { isShellNetworkEffectivelyEnabled } from '@/services/shell-network-settings'
 
 /** Global rules cache for matchRule; updated via setGlobalRules */
-let globalRules: Array<{ wildcard?: string; script?: string }> = []
+let globalRules: RuleEngineEntry[] = []
 const RULE_FETCH_RETRY_DELAYS_MS = [500, 1000] as const
 
 export function matchUrl(pattern: string, url = window.location.href) {
@@ -38,6 +41,19 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
+/**
+ * Rule set the launcher picked from the manifest for this client's track (`__VWS_RULE_SET__`).
+ * @returns URL and hash of the rule set, or null on launchers without a manifest rule set
+ */
+function readManifestRuleSet(): RuntimeRuleSetTarget | null {
+  const g = (typeof __GLOBAL__ !== 'undefined' ? __GLOBAL__ : typeof globalThis !== 'undefined' ? globalThis : {}) as Record<string, unknown>
+  const ruleSet = g.__VWS_RULE_SET__ as Partial<RuntimeRuleSetTarget> | null | undefined
+  if (!ruleSet || typeof ruleSet.url !== 'string' || !ruleSet.url || typeof ruleSet.hash !== 'string' || !ruleSet.hash) {
+    return null
+  }
+  return { url: ruleSet.url, hash: ruleSet.hash, ...(typeof ruleSet.version === 'number' ? { version: ruleSet.version } : {}) }
+}
+
 function resolveRuleApiUrl(): string {
   try {
     if (typeof __RULE_API_URL__ !== 'undefined' && __RULE_API_URL__) {
@@ -58,31 +74,44 @@ function resolveRuleApiUrl(): string {
  * Set global rules used by getMatchRule().
  * @param rules - Rules array from fetchRulesFromCache
  */
-export function setGlobalRules(rules: Array<{ wildcard?: string; script?: string }>): void {
+export function setGlobalRules(rules: RuleEngineEntry[]): void {
   globalRules = rules
 }
 
 /**
  * Snapshot of RULE rows for URL-based script module matching (Phase D).
  */
-export function getGlobalRulesSnapshot(): Array<{ wildcard?: string; script?: string }> {
+export function getGlobalRulesSnapshot(): RuleEngineEntry[] {
   return globalRules
 }
 
 /**
- * Return matchRule function for GIST scripts (matches script name and URL wildcard).
+ * Return matchRule function for GIST scripts: the script's rules decide the URL (wildcard, conditions,
+ * priority, enabled flag; see `rule-engine`).
  * Must be assigned to (g as any).matchRule so dynamically compiled scripts can resolve it.
  * @returns matchRule(name, url?) => boolean
  */
 export function getMatchRule(): (name: string, url?: string) => boolean {
   return function matchRule(name: string, url: string = window.location.href): boolean {
-    return globalRules.some(({ wildcard, script }) => {
-      if (script !== name) return false
-      return !!(wildcard && matchUrl(wildcard, url))
-    })
+    return resolveRuleDecision(
+      globalRules.filter(({ script }) => script === name),
+      url,
+      createPageRuleContext()
+    ).matched
   }
 }
 
+/**
+ * Full run decision for a compiled GIST script: header @match / @include or a RULE row,
+ * vetoed by @exclude / @exclude-match or a deciding `exclude` rule. Called by the compiled script wrapper.
+ * @param name Script filename
+ * @param rules Userscript header URL rules
+ * @param url Page URL (defaults to the current location)
+ */
+export function matchScript(name: string, rules: ScriptUrlMatchRules, url: string = window.location.href): boolean {
+  return scriptModuleMatchesUrl(name, rules, globalRules, url, createPageRuleContext())
+}
+
 async function fetchRulesOnce(url: string) {
   return new Promise((resolve, reject) => {
     GM_xmlhttpRequest({
@@ -119,8 +148,8 @@ async function fetchRulesOnce(url: string) {
   })
 }
 
-async function fetchRules() {
-  const url = resolveRuleApiUrl()
+async function fetchRules(ruleSet: RuntimeRuleSetTarget | null) {
+  const url = ruleSet?.url || resolveRuleApiUrl()
   if (!url) {
     throw new Error('Failed to load rules:missing rule API URL')
   }
@@ -144,11 +173,16 @@ async function fetchRules() {
   throw lastError instanceof Error ? lastError : new Error(String(lastError))
 }
 
+/**
+ * Fetch rules (the manifest rule set when the launcher provides one) and cache them with the rule set hash.
+ */
 export async function fetchAndCacheRules() {
-  GME_debug('[Rules] fetch:network start')
-  const rules = await fetchRules()
+  const ruleSet = readManifestRuleSet()
+  GME_debug(`[Rules] fetch:network start${ruleSet ? ` ruleSet=${ruleSet.version ? `v${ruleSet.version}` : 'working'} hash=${ruleSet.hash.slice(0, 8)}` : ''}`)
+  const rules = await fetchRules(ruleSet)
   try {
     GM_setValue(RULE_CACHE_KEY, JSON.stringify(rules))
+    GM_setValue(RULE_SET_HASH_KEY, ruleSet?.hash ?? '')
     const stats = parseRulesCacheStats(JSON.stringify(rules))
     GME_debug(
       `[Rules] fetch:network cached ${formatCacheInventory({
@@ -164,12 +198,28 @@ export async function fetchAndCacheRules() {
   return rules
 }
 
+/**
+ * Cached rules. With a manifest rule set, a cache whose hash differs (publish or rollback) is refetched before
+ * use; without one, `refetch` refreshes the cache in the background.
+ * @param refetch Refresh a cache hit in the background (launchers without a manifest rule set)
+ */
 export async function fetchRulesFromCache(refetch = false) {
   const allowNetwork = isShellNetworkEffectivelyEnabled()
   const cached = GM_getValue(RULE_CACHE_KEY)
+  const ruleSet = readManifestRuleSet()
+  if (cached && ruleSet && GM_getValue(RULE_SET_HASH_KEY) !== ruleSet.hash && allowNetwork) {
+    GME_debug(`[Rules] cache:stale hash=${ruleSet.hash.slice(0, 8)}`)
+    try {
+      return await fetchAndCacheRules()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      GME_fail('[Rules] fetch:failed', message, '(using cached rules)')
+    }
+  }
+
   if (cached) {
     logRulesCacheDebug('hit')
-    if (refetch && allowNetwork) {
+    if (refetch && allowNetwork && !ruleSet) {
       GME_debug('[Rules] cache:hit background refetch scheduled')
       void fetchAndCacheRules().catch((error) => {
         const message = error instanceof Error ? error.message : String(error)
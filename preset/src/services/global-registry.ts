@@ -14,10 +14,12 @@ import * as http from '@/helpers/http'
 import * as locator from '@/helpers/locator'
 import * as logger from '@/helpers/logger'
 import * as scriptPermissionScope from '@/helpers/script-permission-scope'
+import { installScriptResourceApi, registerScriptResources } from '@/helpers/script-resources'
+import { getScriptSettings } from '@/helpers/script-settings'
 import * as utils from '@/helpers/utils'
 import { GME_registerWebMcpTool } from '@/helpers/webmcp'
 import { findElementByXPath, generateXPath } from '@/helpers/xpath'
-import { fetchAndCacheRules, fetchRulesFromCache, matchUrl } from '@/rules'
+import { fetchAndCacheRules, fetchRulesFromCache, matchScript, matchUrl } from '@/rules'
 import { fetchScript } from '@/scripts'
 import {
   EDITOR_DEV_EVENT_KEY,
@@ -41,6 +43,8 @@ import { registerBasicMenus } from '@/services/menu'
 import { ensureOptionalUi, openOptionalLogViewer } from '@/services/optional-ui'
 import { ensureRuntimeCore } from '@/services/runtime-core'
 import { executeEditorScript, executeLocalScript, executeRemoteScript, watchHMRUpdates } from '@/services/script-execution'
+import { registerScriptSettings } from '@/services/script-settings'
+import { reportScriptTelemetryError } from '@/services/script-telemetry'
 import { getScriptUpdate } from '@/services/script-update'
 import { pushScriptUpdateToOpenTabs } from '@/services/script-update-push'
 import { getTabCommunication } from '@/services/tab-communication'
@@ -103,6 +107,11 @@ export function registerGlobals(): void {
     ...captureScreenshot,
     ...logger,
     ...scriptPermissionScope,
+    registerScriptResources,
+    // Remote module wrapper: @setting schema + one palette command per setting.
+    registerScriptSettings: (file: string, fields: Parameters<typeof registerScriptSettings>[1]) => registerScriptSettings(file, fields, registerCommandPaletteCommand),
+    GME_getSettings: getScriptSettings,
+    reportScriptTelemetryError,
     ...dom,
     ...locator,
     generateXPath,
@@ -145,6 +154,7 @@ export function registerGlobals(): void {
 
     // Rules (main.ts + matchRule; GIST may use matchUrl via matchRule)
     matchUrl,
+    matchScript,
     fetchAndCacheRules,
     fetchRulesFromCache,
 
@@ -190,4 +200,7 @@ export function registerGlobals(): void {
     GME_ensureEditorLib: ensureEditorLib,
     GME_ensureExplorerLib: ensureExplorerLib,
   })
+
+  // Remote modules register pinned @resource entries; the manager's GM_getResource* only knows the launcher's own headers.
+  installScriptResourceApi(g)
 }
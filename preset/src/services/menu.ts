@@ -7,6 +7,7 @@ import { fetchAndCacheRules } from '@/rules'
 import { EDITOR_DEV_EVENT_KEY, getActiveDevMode, getEditorDevHost, isEditorDevMode } from '@/services/dev-mode'
 import { clearAllRuntimeGmCachesInPage } from '@/services/launcher-bootstrap-storage'
 import { openOptionalLogViewer } from '@/services/optional-ui'
+import { isScriptTelemetryEnabled, setScriptTelemetryEnabled } from '@/services/script-telemetry'
 import { getScriptUpdate } from '@/services/script-update'
 import { isShellNetworkEnabled, runWithShellNetworkAsync, setShellNetworkEnabled } from '@/services/shell-network-settings'
 import { GME_notification } from '@/ui/notification/index'
@@ -37,6 +38,25 @@ function registerShellNetworkMenuItem(): void {
   })
 }
 
+/** Tampermonkey menu command id for telemetry toggle (re-registered when state changes) */
+let telemetryMenuCmdId: string | number | undefined
+/**
+ * Register or refresh telemetry menu label to match GM storage.
+ */
+function registerTelemetryMenuItem(): void {
+  if (telemetryMenuCmdId !== undefined) {
+    GM_unregisterMenuCommand(telemetryMenuCmdId)
+    telemetryMenuCmdId = undefined
+  }
+  const enabled = isScriptTelemetryEnabled()
+  telemetryMenuCmdId = GM_registerMenuCommand(`Telemetry: ${enabled ? 'On' : 'Off'}`, () => {
+    const next = !isScriptTelemetryEnabled()
+    setScriptTelemetryEnabled(next)
+    GME_notification(next ? 'Telemetry on (script runs and errors are reported to your deployment while shell network is on)' : 'Telemetry off', next ? 'success' : 'info', 3000)
+    registerTelemetryMenuItem()
+  })
+}
+
 /**
  * Register basic menu commands
  */
@@ -64,6 +84,7 @@ export function registerBasicMenus(): void {
   })
 
   registerShellNetworkMenuItem()
+  registerTelemetryMenuItem()
 
   GM_registerMenuCommand('Update Rules', async () => {
     await runWithShellNetworkAsync(async () => {
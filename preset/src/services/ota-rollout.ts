@@ -0,0 +1,83 @@
+/**
+ * Staged rollout client: stable client id placing this install in rollout cohorts, the baseline
+ * module clients outside the cohort run while a candidate is rolled out, and the telemetry fields
+ * that let the server judge the candidate.
+ */
+
+import { isClientInRolloutCohort, OTA_CLIENT_ID_KEY } from '@shared/ota-rollout'
+import { resolveScriptOtaPolicy, type ScriptOtaPolicy } from '@shared/script-ota-policy'
+
+import { GME_fetch } from '@/helpers/http'
+import { buildRolloutBaselineModuleUrl } from '@/helpers/launcher-script-url'
+import { isShellNetworkEffectivelyEnabled } from '@/services/shell-network-settings'
+
+function createClientId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Stable id of this install for staged rollout cohorts; created on first use.
+ * @returns Client id, or empty string when GM storage is unavailable
+ */
+export function getOtaClientId(): string {
+  try {
+    const existing = String(GM_getValue(OTA_CLIENT_ID_KEY, '') || '')
+    if (existing) {
+      return existing
+    }
+    const created = createClientId()
+    GM_setValue(OTA_CLIENT_ID_KEY, created)
+    return created
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Download the baseline release module of a script's active rollout, for a client outside the cohort
+ * that has no cached copy of the script yet.
+ * @param file Managed script filename
+ * @returns Compiled module block, or null when offline or the server has no baseline
+ */
+export async function fetchRolloutBaselineModule(file: string): Promise<string | null> {
+  const url = buildRolloutBaselineModuleUrl(file)
+  if (!url || !isShellNetworkEffectivelyEnabled()) {
+    return null
+  }
+  try {
+    const response = await GME_fetch(url, { method: 'GET' })
+    const body = response.ok ? await response.text() : ''
+    return body.trim() ? body : null
+  } catch {
+    return null
+  }
+}
+
+function readScriptPolicy(file: string): (ScriptOtaPolicy & { version?: string }) | null {
+  const g = (typeof __GLOBAL__ !== 'undefined' ? __GLOBAL__ : globalThis) as Record<string, unknown>
+  const policies = g.__VWS_SCRIPT_POLICIES__ as Record<string, ScriptOtaPolicy & { version?: string }> | undefined
+  const raw = policies?.[file]
+  if (!raw) {
+    return null
+  }
+  return { ...resolveScriptOtaPolicy(raw), ...(raw.version ? { version: raw.version } : {}) }
+}
+
+/**
+ * Telemetry fields reporting on a rollout candidate: only set when the script has an active rollout
+ * and this client is in its cohort, so other telemetry stays free of the client id.
+ * @param file Managed script filename
+ * @returns Candidate version and client id, or an empty object
+ */
+export function resolveRolloutTelemetryFields(file: string): { version?: string; clientId?: string } {
+  const policy = readScriptPolicy(file)
+  const rollout = policy?.rollout
+  if (!rollout || rollout.status !== 'active' || policy.version !== rollout.version) {
+    return {}
+  }
+  const clientId = getOtaClientId()
+  return clientId && isClientInRolloutCohort(rollout, file, clientId) ? { version: rollout.version, clientId } : {}
+}
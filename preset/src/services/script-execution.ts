@@ -7,7 +7,8 @@ import { buildGrantsFromGlobal, type CspScriptExecuteMode, executeWithGlobal, ex
 import { REMOTE_SCRIPT_CACHE_KEY, REMOTE_SCRIPT_ETAG_KEY, RUNTIME_SCRIPT_LOAD_MODE_KEY, RUNTIME_SCRIPT_MODULES_KEY, SCRIPT_MODULE_CACHE_KEY } from '@shared/launcher-constants'
 import { joinRemoteBundleModules, type RemoteBundleModule } from '@shared/remote-script-bundle-modules'
 import { filterDisabledRemoteModules, listDisabledRemoteModules, readExtensionEnabledScripts } from '@shared/remote-script-module-filter'
-import { buildRemoteModuleCacheFromBundle, mergeRemoteBundleWithOtaPolicy, shouldApplyRemoteScriptModuleUpgrade } from '@shared/remote-script-ota-merge'
+import { buildRemoteModuleCacheFromBundle, decideRemoteScriptModuleUpgrade, mergeRemoteBundleWithOtaPolicy } from '@shared/remote-script-ota-merge'
+import { createPageRuleContext } from '@shared/rule-engine'
 import { filterScriptModulesByUrl, type RuntimeScriptModuleCatalogEntry, topoSortScriptModulesWithDeps } from '@shared/runtime-script-modules'
 import type { ScriptOtaPolicy } from '@shared/script-ota-policy'
 import { buildWithGlobalExecutionSandbox } from '@shared/with-global-sandbox'
@@ -28,6 +29,7 @@ import { getGlobalRulesSnapshot, getRulesCacheStats } from '@/rules'
 import { fetchScript } from '@/scripts'
 import { EDITOR_DEV_EVENT_KEY, getEditorDevHost, getLocalDevHost, isEditorDevMode, isLocalDevMode, LOCAL_DEV_EVENT_KEY } from '@/services/dev-mode/constants'
 import { handlePassiveOtaUpdate } from '@/services/ota-passive-update'
+import { fetchRolloutBaselineModule, getOtaClientId } from '@/services/ota-rollout'
 import { isShellNetworkEffectivelyEnabled, isShellNetworkEnabled } from '@/services/shell-network-settings'
 
 const REMOTE_SCRIPT_REFRESH_LOCK_KEY = 'vws_remote_script_refreshing'
@@ -178,26 +180,54 @@ function writeRemoteModuleCache(content: string): void {
 function readRemoteOtaContext(): {
   scriptPolicies: Record<string, ScriptOtaPolicy & { version?: string }>
   manualUpdate: boolean
+  clientId: string
 } {
   const g = (typeof __GLOBAL__ !== 'undefined' ? __GLOBAL__ : typeof globalThis !== 'undefined' ? globalThis : {}) as Record<string, unknown>
   const policies = g.__VWS_SCRIPT_POLICIES__
   return {
     scriptPolicies: policies && typeof policies === 'object' && !Array.isArray(policies) ? (policies as Record<string, ScriptOtaPolicy & { version?: string }>) : {},
     manualUpdate: g.__VWS_OTA_MANUAL_UPDATE__ === true,
+    clientId: getOtaClientId(),
   }
 }
 
-function prepareRemoteBundleContent(rawContent: string): string {
+/**
+ * Download and cache the rollout baseline of each withheld candidate.
+ * @returns True when at least one baseline was cached
+ */
+async function cacheRolloutBaselines(files: string[], moduleCache: Record<string, string>): Promise<boolean> {
+  let cached = false
+  for (const file of files) {
+    const body = await fetchRolloutBaselineModule(file)
+    if (body) {
+      writePerFileModuleCache(file, body)
+      moduleCache[file] = body
+      cached = true
+    }
+  }
+  return cached
+}
+
+async function prepareRemoteBundleContent(rawContent: string): Promise<string> {
   const ota = readRemoteOtaContext()
-  const merged = mergeRemoteBundleWithOtaPolicy({
+  const input = {
     content: rawContent,
     scriptPolicies: ota.scriptPolicies,
     moduleCache: readRemoteModuleCache(),
     manualUpdate: ota.manualUpdate,
-  })
+    clientId: ota.clientId,
+  }
+  let merged = mergeRemoteBundleWithOtaPolicy(input)
+  // Outside a rollout cohort without a cached copy: run the baseline release instead of the candidate
+  if (merged.withheld.length > 0 && (await cacheRolloutBaselines(merged.withheld, input.moduleCache))) {
+    merged = mergeRemoteBundleWithOtaPolicy(input)
+  }
   if (merged.pinnedFromCache.length > 0) {
     GME_debug(`[Remote script] ota:pinned ${merged.pinnedFromCache.join(', ')}`)
   }
+  if (merged.withheld.length > 0) {
+    GME_debug(`[Remote script] ota:withheld ${merged.withheld.join(', ')}`)
+  }
   return merged.content
 }
 
@@ -341,10 +371,17 @@ async function fetchScriptModuleBody(entry: RuntimeScriptModuleCatalogEntry, mod
       GME_debug(`[Remote script] match-fallback: hash mismatch for ${entry.file}`)
       return null
     }
-    const applyRemote = shouldApplyRemoteScriptModuleUpgrade(entry.file, policy, hasLocalCache, ota.manualUpdate)
-    if (!applyRemote && hasLocalCache) {
+    const decision = decideRemoteScriptModuleUpgrade(entry.file, policy, hasLocalCache, ota.manualUpdate, ota.clientId)
+    if (!decision.apply && hasLocalCache) {
       return { file: entry.file, content: cached }
     }
+    if (decision.reason === 'rollout-not-in-cohort') {
+      const baseline = await fetchRolloutBaselineModule(entry.file)
+      if (baseline) {
+        writePerFileModuleCache(entry.file, baseline)
+      }
+      return baseline ? { file: entry.file, content: baseline } : null
+    }
     writePerFileModuleCache(entry.file, body)
     return { file: entry.file, content: body }
   } catch {
@@ -365,7 +402,8 @@ async function tryExecuteMatchFallbackModules(): Promise<boolean> {
     return false
   }
   const pageUrl = typeof location !== 'undefined' ? location.href : ''
-  const matched = filterScriptModulesByUrl(catalog, pageUrl, getGlobalRulesSnapshot())
+  const isTopFrame = typeof window === 'undefined' || window.top === window.self
+  const matched = filterScriptModulesByUrl(catalog, pageUrl, getGlobalRulesSnapshot(), { isTopFrame, context: createPageRuleContext() })
   if (!matched.length) {
     GME_debug('[Remote script] match-fallback: no modules matched URL')
     return false
@@ -390,7 +428,7 @@ async function tryExecuteMatchFallbackModules(): Promise<boolean> {
   }
 
   const content = joinRemoteBundleModules(modules)
-  const executable = prepareRemoteBundleContent(content)
+  const executable = await prepareRemoteBundleContent(content)
   GME_debug(`[Remote script] match-fallback: execute modules=${modules.map((m) => m.file).join(', ')} bytes=${executable.length}`)
   GME_ok('Remote script ready (match-fallback).')
   await executeScript(executable)
@@ -432,7 +470,7 @@ async function refreshRemoteScriptInBackground(url: string, previousCache: Remot
     }
 
     const etag = normalizeRemoteEtag(String(response.headers.get('etag') || ''))
-    const content = prepareRemoteBundleContent(await response.text())
+    const content = await prepareRemoteBundleContent(await response.text())
     if (!content) return
 
     const changed = !previousCache || previousCache.content !== content
@@ -467,7 +505,7 @@ export async function executeRemoteScript(url?: string): Promise<void> {
   logRemoteScriptCacheInventory(cached, scriptUrl)
 
   if (cached?.content && isShellNetworkEffectivelyEnabled()) {
-    const executable = prepareRemoteBundleContent(cached.content)
+    const executable = await prepareRemoteBundleContent(cached.content)
     if (!isRemoteBundleWithoutModules(executable)) {
       GME_debug(`[Remote script] load:cache-first bytes=${executable.length} modules=${countCompiledRemoteModules(executable)} rules=${getRulesCacheStats().ruleCount}`)
       GME_debug(`[Remote script] execute:start bytes=${executable.length} modules=${countCompiledRemoteModules(executable)} scripts=${getRulesCacheStats().scriptCount}`)
@@ -491,7 +529,7 @@ export async function executeRemoteScript(url?: string): Promise<void> {
       try {
         const fetched = await fetchScript(scriptUrl)
         if (fetched) {
-          content = prepareRemoteBundleContent(fetched)
+          content = await prepareRemoteBundleContent(fetched)
           writeRemoteScriptCache(content, '')
           GME_debug('[Remote script] Bootstrap fetch succeeded, remote script cached')
         }
@@ -513,7 +551,7 @@ export async function executeRemoteScript(url?: string): Promise<void> {
         }
       }
       if (fetched) {
-        content = prepareRemoteBundleContent(fetched)
+        content = await prepareRemoteBundleContent(fetched)
         writeRemoteScriptCache(content, '')
         GME_debug(`[Remote script] load:remote-first fetch:success bytes=${content.length}`)
       }
@@ -524,7 +562,7 @@ export async function executeRemoteScript(url?: string): Promise<void> {
           GME_debug(`[Remote script] load:remote-first fetch-error fallback=${shortUrlLabel(fallbackUrl)}`)
           const fetched = await fetchScript(fallbackUrl)
           if (fetched) {
-            content = prepareRemoteBundleContent(fetched)
+            content = await prepareRemoteBundleContent(fetched)
             writeRemoteScriptCache(content, '')
             GME_debug(`[Remote script] load:remote-first fetch:success bytes=${content.length}`)
           }
@@ -546,7 +584,7 @@ export async function executeRemoteScript(url?: string): Promise<void> {
     return
   }
 
-  const executable = prepareRemoteBundleContent(content)
+  const executable = await prepareRemoteBundleContent(content)
   GME_debug(`[Remote script] execute:start bytes=${executable.length} modules=${countCompiledRemoteModules(executable)} scripts=${getRulesCacheStats().scriptCount}`)
   GME_ok('Remote script ready.')
   await executeScript(executable)
@@ -0,0 +1,69 @@
+/**
+ * Per-script `@setting` support: the remote module wrapper registers each script's schema, and every
+ * setting becomes a command-palette entry that saves a new value (palette input) to GM storage.
+ * Scripts read the effective values with `GME_getSettings()`.
+ */
+
+import {
+  buildScriptSettingsGmKey,
+  coerceScriptSettingValue,
+  getScriptSettings,
+  registerScriptSettings as registerScriptSettingsSchema,
+  type ScriptSettingField,
+  type ScriptSettingValue,
+} from '@shared/script-settings'
+
+import type { CommandPaletteCommand } from '@/ui/command-palette/index'
+import { GME_notification } from '@/ui/notification/index'
+
+type RegisterCommand = (command: CommandPaletteCommand) => void
+
+function describeInput(field: ScriptSettingField): string {
+  switch (field.type) {
+    case 'boolean':
+      return 'run to toggle, or type true / false'
+    case 'number':
+      return 'type a number'
+    case 'select':
+      return `type one of ${field.options!.join(' | ')}`
+    case 'string':
+      return 'type the new value'
+  }
+}
+
+function buildSettingCommand(file: string, field: ScriptSettingField, register: RegisterCommand): CommandPaletteCommand {
+  const current = getScriptSettings(file)[field.key]
+  return {
+    id: `script-setting:${file}:${field.key}`,
+    title: `Settings: ${file} › ${field.label}`,
+    icon: '⚙',
+    keywords: ['settings', 'setting', file, field.key, field.label],
+    hint: `Current: ${JSON.stringify(current)} — ${describeInput(field)}`,
+    action: (input) => {
+      const value: ScriptSettingValue | undefined = field.type === 'boolean' && !input ? !getScriptSettings(file)[field.key] : coerceScriptSettingValue(field, input ?? '')
+      if (value === undefined) {
+        GME_notification(`${field.label}: ${describeInput(field)}`, 'error', 3000)
+        return
+      }
+      const gmKey = buildScriptSettingsGmKey(file)
+      const stored = GM_getValue<Record<string, ScriptSettingValue>>(gmKey, {})
+      GM_setValue(gmKey, { ...(stored && typeof stored === 'object' ? stored : {}), [field.key]: value })
+      GME_notification(`${field.label} = ${JSON.stringify(value)} — reload to apply`, 'success', 3000)
+      // Refresh the hint with the saved value.
+      register(buildSettingCommand(file, field, register))
+    },
+  }
+}
+
+/**
+ * Register a script's `@setting` schema and its command-palette entries.
+ * @param file Gist filename
+ * @param fields Setting declarations compiled into the module wrapper
+ * @param register `GME_registerCommandPaletteCommand` (queues until the palette UI loads)
+ */
+export function registerScriptSettings(file: string, fields: ScriptSettingField[], register: RegisterCommand): void {
+  registerScriptSettingsSchema(file, fields)
+  for (const field of fields) {
+    register(buildSettingCommand(file, field, register))
+  }
+}
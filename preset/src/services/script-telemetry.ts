@@ -0,0 +1,112 @@
+/**
+ * Opt-in script telemetry: queue execution and error events and send them in batches
+ * to `POST /api/tampermonkey/{key}/telemetry`.
+ */
+
+import { MAX_TELEMETRY_BATCH, type ScriptTelemetryEvent, stripTelemetryUrl } from '@shared/script-telemetry'
+import { createTraceId, resolveLogTraceId } from '@shared/trace-id'
+
+import { SHELL_TELEMETRY_ENABLED_KEY } from '@/constants'
+import { GME_fetch } from '@/helpers/http'
+import { buildLauncherApiUrl } from '@/helpers/launcher-script-url'
+import { resolveRolloutTelemetryFields } from '@/services/ota-rollout'
+import { isShellNetworkEffectivelyEnabled } from '@/services/shell-network-settings'
+
+/** Delay before a queued batch is sent, so one page load's runs share a request. */
+const TELEMETRY_FLUSH_DELAY_MS = 5000
+
+/** Events kept while offline or between flushes; oldest are dropped first. */
+const MAX_QUEUED_EVENTS = MAX_TELEMETRY_BATCH * 4
+
+const queue: ScriptTelemetryEvent[] = []
+let flushTimer: ReturnType<typeof setTimeout> | undefined
+let pageHideListening = false
+
+/**
+ * User preference: report script executions and errors to the deployment (default off).
+ */
+export function isScriptTelemetryEnabled(): boolean {
+  try {
+    return GM_getValue<boolean | undefined>(SHELL_TELEMETRY_ENABLED_KEY) === true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Persist the telemetry preference; turning it off drops queued events.
+ * @param enabled When true, executions and errors are reported
+ */
+export function setScriptTelemetryEnabled(enabled: boolean): void {
+  GM_setValue(SHELL_TELEMETRY_ENABLED_KEY, enabled)
+  if (!enabled) {
+    queue.length = 0
+  }
+}
+
+function flushScriptTelemetry(): void {
+  if (flushTimer !== undefined) {
+    clearTimeout(flushTimer)
+    flushTimer = undefined
+  }
+  if (queue.length === 0 || !isShellNetworkEffectivelyEnabled()) {
+    return
+  }
+  const url = buildLauncherApiUrl('telemetry')
+  if (!url) {
+    return
+  }
+
+  const events = queue.splice(0, MAX_TELEMETRY_BATCH)
+  void GME_fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ events }),
+  }).catch(() => {
+    // Best effort: telemetry never retries or surfaces failures
+  })
+  if (queue.length > 0) {
+    scheduleFlush()
+  }
+}
+
+function scheduleFlush(): void {
+  if (!pageHideListening && typeof window !== 'undefined') {
+    pageHideListening = true
+    window.addEventListener('pagehide', flushScriptTelemetry)
+  }
+  if (flushTimer === undefined) {
+    flushTimer = setTimeout(flushScriptTelemetry, TELEMETRY_FLUSH_DELAY_MS)
+  }
+}
+
+function enqueue(event: Omit<ScriptTelemetryEvent, 'traceId' | 'url' | 'at'>): void {
+  if (!isScriptTelemetryEnabled()) {
+    return
+  }
+  const url = typeof location !== 'undefined' ? stripTelemetryUrl(location.href) : ''
+  queue.push({ ...event, ...resolveRolloutTelemetryFields(event.file), traceId: resolveLogTraceId() ?? createTraceId(), url, at: Date.now() })
+  if (queue.length > MAX_QUEUED_EVENTS) {
+    queue.splice(0, queue.length - MAX_QUEUED_EVENTS)
+  }
+  scheduleFlush()
+}
+
+/**
+ * Record that a managed script entered its body (called from the "Executing script …" log line).
+ * @param file Managed script filename
+ */
+export function recordScriptTelemetryExecution(file: string): void {
+  enqueue({ kind: 'execution', file })
+}
+
+/**
+ * Record an error thrown by a managed script run, with its stack (called from the compiled execution wrapper).
+ * @param file Managed script filename
+ * @param error Thrown value
+ */
+export function reportScriptTelemetryError(file: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : Object.prototype.toString.call(error)
+  const stack = error instanceof Error && error.stack ? error.stack : undefined
+  enqueue({ kind: 'error', file, message, ...(stack ? { stack } : {}) })
+}
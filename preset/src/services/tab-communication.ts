@@ -4,6 +4,8 @@
  * Singleton pattern - automatically initializes on first use
  */
 
+import { ensureScopedScriptPermission } from '@shared/script-permission-scope'
+
 import { GME_debug } from '@/helpers/logger'
 
 /**
@@ -493,6 +495,7 @@ export class TabCommunication {
    * @returns Promise that resolves when message is sent
    */
   async broadcast(data: any, urlPattern?: string): Promise<void> {
+    await ensureScopedScriptPermission('tab-message', this.namespace)
     await this.ensureInitialized()
     const tabInfo = this.getCurrentTabInfo()
     GME_debug(`[TabCommunication:${this.namespace}] broadcast() called, data type: ${typeof data}, urlPattern: ${urlPattern || 'none'}`)
@@ -528,6 +531,7 @@ export class TabCommunication {
    * @returns Promise that resolves with the reply
    */
   async send(toTabId: string, data: any, timeout = 10000): Promise<any> {
+    await ensureScopedScriptPermission('tab-message', this.namespace)
     await this.ensureInitialized()
     const messageId = `${this.tabId}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
     GME_debug(`[TabCommunication:${this.namespace}] send() called, toTabId: ${toTabId}, messageId: ${messageId}, timeout: ${timeout}ms`)
@@ -580,6 +584,7 @@ export class TabCommunication {
    * @param toTabId Target tab ID
    */
   async reply(messageId: string, data: any, toTabId: string): Promise<void> {
+    await ensureScopedScriptPermission('tab-message', this.namespace)
     await this.ensureInitialized()
     const tabInfo = this.getCurrentTabInfo()
     await this.broadcastInternal({
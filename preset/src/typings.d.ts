@@ -100,8 +100,8 @@ declare function GM_download(
 ): {
   abort: () => void
 }
-declare function GM_getResourceText(name: string): string
-declare function GM_getResourceURL(name: string): string
+declare function GM_getResourceText(name: string): string | null
+declare function GM_getResourceURL(name: string): string | null
 declare const GM_info: {
   container?: {
     id: string
@@ -259,16 +259,98 @@ declare interface GMXMLHttpRequestDetails {
 declare function GM_xmlhttpRequest(details: GMXMLHttpRequestDetails): {
   abort: () => void
 }
-declare function GM_getTab(callback?: (tab: any) => void): void
+declare namespace GM {
+  function xmlHttpRequest(details: GMXMLHttpRequestDetails): Promise<GMXMLHttpRequestResponse> & { abort: () => void }
+  const info: typeof GM_info
+  function getValue<T = any>(key: string, defaultValue?: T): Promise<T>
+  function setValue(key: string, value: any): Promise<void>
+  function deleteValue(key: string): Promise<void>
+  function listValues(): Promise<string[]>
+  function getValues(keys: string[] | Record<string, any>): Promise<Record<string, any>>
+  function setValues(obj: Record<string, any>): Promise<void>
+  function deleteValues(keys: string[]): Promise<void>
+  function addValueChangeListener(key: string, callback: (name: string, oldValue: any, newValue: any, remote: boolean) => void): Promise<string>
+  function removeValueChangeListener(listenerId: string): Promise<void>
+  function setClipboard(data: string | Blob, info?: any): Promise<void>
+  function notification(details: Parameters<typeof GM_notification>[0]): Promise<void>
+  function openInTab(url: string, options?: any): Promise<any>
+  function registerMenuCommand(name: string, callback: (event: MouseEvent | KeyboardEvent) => void, optionsOrAccessKey?: any): Promise<number | string>
+  function unregisterMenuCommand(menuCmdId: number | string): Promise<void>
+  function addElement(tagName: string, attributes?: Record<string, any>): Promise<HTMLElement>
+  function addStyle(css: string): Promise<HTMLStyleElement>
+  function log(...messages: any[]): Promise<void>
+  function download(details: { url: string | Blob | File; name?: string } | string, name?: string): Promise<void>
+  function getResourceText(name: string): Promise<string>
+  function getResourceUrl(name: string): Promise<string>
+  function getTab(): Promise<Record<string, any>>
+  function saveTab(tab: any): Promise<void>
+  function getTabs(): Promise<Record<string, any>>
+  namespace cookie {
+    export function list(details?: GMCookieDetails): Promise<GMCookie[]>
+    export function set(details: GMCookieDetails): Promise<void>
+    function _delete(details: GMCookieDetails): Promise<void>
+    export { _delete as delete }
+  }
+}
+declare function GM_getTab(callback?: (tab: Record<string, any>) => void): void
 declare function GM_saveTab(tab: any, callback?: (error?: string) => void): void
 declare function GM_getTabs(callback?: (tabs: Record<string, any>) => void): void
-declare function GM_webRequest(details: any): void
-declare function GM_cookie(details: any): void
+declare interface GMWebRequestRule {
+  selector: string | { include?: string | string[]; match?: string | string[]; exclude?: string | string[] }
+  action: 'cancel' | { cancel?: boolean; redirect?: string | { from: string; to: string } }
+}
+/** In the extension `listener` only receives install errors: declarativeNetRequest does not report matched requests */
+declare function GM_webRequest(
+  rules: GMWebRequestRule | GMWebRequestRule[],
+  listener?: (info: 'cancel' | 'redirect', message: 'ok' | 'error', details: { rule: GMWebRequestRule; description?: string }) => void
+): { abort: () => void }
+declare interface GMCookie {
+  domain: string
+  hostOnly: boolean
+  httpOnly: boolean
+  name: string
+  path: string
+  sameSite: string
+  secure: boolean
+  session: boolean
+  value: string
+  expirationDate?: number
+}
+declare interface GMCookieDetails {
+  url?: string
+  domain?: string
+  name?: string
+  path?: string
+  value?: string
+  secure?: boolean
+  httpOnly?: boolean
+  sameSite?: 'no_restriction' | 'lax' | 'strict' | 'unspecified'
+  expirationDate?: number
+}
+declare namespace GM_cookie {
+  export function list(details?: GMCookieDetails, callback?: (cookies: GMCookie[], error?: string) => void): void
+  export function set(details: GMCookieDetails, callback?: (error?: string) => void): void
+  function _delete(details: GMCookieDetails, callback?: (error?: string) => void): void
+  export { _delete as delete }
+}
 declare const unsafeWindow: Window
 
+/** One `@setting` field a compiled script registers (same shape as `ScriptSettingField` in shared/script-settings.ts) */
+interface ScriptSettingDeclaration {
+  key: string
+  type: 'string' | 'number' | 'boolean' | 'select'
+  label: string
+  default: string | number | boolean
+  options?: string[]
+}
+
 declare function fetchScript(url: string): Promise<string>
 declare function fetchRulesFromCache(refetch?: boolean): Promise<any[]>
 declare function matchUrl(pattern: string, url?: string): boolean
+declare function matchScript(name: string, rules: { match?: string[]; include?: string[]; exclude?: string[]; excludeMatch?: string[] }, url?: string): boolean
+declare function registerScriptResources(file: string, resources: Record<string, { url: string; text: string | null }>): void
+declare function registerScriptSettings(file: string, fields: ScriptSettingDeclaration[]): void
+declare function reportScriptTelemetryError(file: string, error: unknown): void
 
 // Tab communication service types and functions (defined in services/tab-communication.ts)
 // These are global types and functions, available in all files
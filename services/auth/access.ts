@@ -5,6 +5,7 @@ import { verifyToken } from '@/utils/jwt'
 
 import { getReqHeaders } from '../context'
 import { AUTH_TOKEN_NAME } from './constants'
+import { resolveSessionUser, type SessionUser } from './users'
 
 export interface CheckAccessOptions {
   loginUrl?: string
@@ -12,24 +13,47 @@ export interface CheckAccessOptions {
   isApiRouter?: boolean
 }
 
-export async function validateCookie() {
+/**
+ * Resolve the session user from the auth cookie.
+ * @returns JWT subject (`admin` for legacy tokens without one), or null when the cookie is missing or invalid
+ */
+export async function getSessionSubject(): Promise<string | null> {
   const cookieStore = await cookies()
   const authInfo = cookieStore.get(AUTH_TOKEN_NAME)
   if (!authInfo) {
-    return false
+    return null
   }
 
   const token = authInfo.value
   const user = token ? await verifyToken(token) : null
   if (!user) {
-    return false
+    return null
   }
 
-  return true
+  return typeof user.sub === 'string' && user.sub ? user.sub : 'admin'
+}
+
+/**
+ * Resolve the session user and their current role from the auth cookie.
+ * @returns Principal, or null when the cookie is missing / invalid or the account was deleted
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const subject = await getSessionSubject()
+  return subject ? resolveSessionUser(subject) : null
+}
+
+export async function validateCookie() {
+  return (await getSessionUser()) !== null
+}
+
+function redirectToLogin(options?: CheckAccessOptions): never {
+  const { redirectUrl = '/editor', loginUrl = '/login' } = options || {}
+  const url = redirectUrl ? `${loginUrl}?redirectUrl=${encodeURIComponent(redirectUrl)}` : loginUrl
+  redirect(url)
 }
 
 export async function checkAccess(options?: CheckAccessOptions) {
-  const { redirectUrl = '/editor', loginUrl = '/login', isApiRouter = true } = options || {}
+  const { isApiRouter = true } = options || {}
   if (await validateCookie()) {
     return true
   }
@@ -38,8 +62,16 @@ export async function checkAccess(options?: CheckAccessOptions) {
     return false
   }
 
-  const url = redirectUrl ? `${loginUrl}?redirectUrl=${encodeURIComponent(redirectUrl)}` : loginUrl
-  redirect(url)
+  redirectToLogin(options)
+}
+
+/**
+ * Resolve the session user of a page in one lookup, redirecting to the login page when there is none.
+ * @param options Login and return URLs
+ * @returns Principal
+ */
+export async function requireSessionUser(options?: Omit<CheckAccessOptions, 'isApiRouter'>): Promise<SessionUser> {
+  return (await getSessionUser()) ?? redirectToLogin(options)
 }
 
 export interface CheckUnAccessOptions {
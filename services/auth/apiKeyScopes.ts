@@ -0,0 +1,70 @@
+/** Permissions an API key can hold. */
+export const API_KEY_SCOPES = ['scripts:read', 'scripts:write', 'ota:publish', 'rules:write'] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+/** Settings page labels */
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'scripts:read': 'Read scripts, revisions, rules and OTA state (implied by every other scope)',
+  'scripts:write': 'Create, edit, rename, delete and restore scripts',
+  'ota:publish': 'Publish stable, lock versions and manage rollouts',
+  'rules:write': 'Edit URL rules',
+}
+
+/** Scopes whose access can be narrowed to filename globs. */
+const FILE_SCOPED: readonly ApiKeyScope[] = ['scripts:write', 'ota:publish']
+
+/** What a caller may do: every scope (`*`, admin session or legacy key) or a key's scopes. */
+export interface ScopeGrant {
+  scopes: readonly ApiKeyScope[] | '*'
+  /** Filename globs limiting `scripts:write` and `ota:publish`; empty means every file */
+  files: readonly string[]
+}
+
+/** Grant of admin sessions and the legacy `SCRIPTS_MCP_HEADERS` key. */
+export const FULL_SCOPE_GRANT: ScopeGrant = { scopes: '*', files: [] }
+
+/**
+ * Whether a value is a known scope.
+ * @param value Untrusted input
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value)
+}
+
+/**
+ * Match a flat filename against a glob (`*` any run of characters, `?` one character).
+ * @param filename Script filename
+ * @param pattern Glob such as `shop-*.ts`
+ */
+export function matchesFileGlob(filename: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('')
+  return new RegExp(`^${source}$`).test(filename)
+}
+
+/**
+ * Check a grant against one operation. Any scope implies `scripts:read`.
+ * @param grant Caller grant
+ * @param scope Required scope
+ * @param filename Target file, for file-scoped operations
+ * @returns Denial message, or null when allowed
+ */
+export function checkScopeGrant(grant: ScopeGrant, scope: ApiKeyScope, filename?: string): string | null {
+  if (grant.scopes === '*') {
+    return null
+  }
+
+  // Every scope implies read access: writers need the current content to edit it
+  const held = scope === 'scripts:read' ? grant.scopes.length > 0 : grant.scopes.includes(scope)
+  if (!held) {
+    return `API key lacks the ${scope} scope`
+  }
+
+  if (filename && FILE_SCOPED.includes(scope) && grant.files.length > 0 && !grant.files.some((pattern) => matchesFileGlob(filename, pattern))) {
+    return `API key ${scope} scope does not cover ${filename}`
+  }
+  return null
+}
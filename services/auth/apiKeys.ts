@@ -0,0 +1,232 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+
+import { API_KEY_USAGE_FILE, API_KEYS_FILE } from '@/constants/file'
+import { getScriptStorage } from '@/services/storage'
+
+import { type ApiKeyScope, isApiKeyScope, type ScopeGrant } from './apiKeyScopes'
+
+/** Prefix of issued keys, so leaked keys are recognizable in logs and secret scanners. */
+const API_KEY_PREFIX = 'mmk_'
+
+/** `lastUsedAt` is only persisted when older than this, so busy keys don't write storage on every request. */
+export const API_KEY_LAST_USED_RESOLUTION_MS = 5 * 60 * 1000
+
+const API_KEY_RE = /^mmk_([0-9a-f]{8})_[A-Za-z0-9_-]{32}$/
+
+/** Stored API key (the key itself is only shown once, at creation); last use lives in `API_KEY_USAGE_FILE` */
+interface StoredApiKey extends Omit<ApiKey, 'lastUsedAt'> {
+  /** SHA-256 of the full key (hex) */
+  hash: string
+}
+
+/** API key metadata as listed on the settings page */
+export interface ApiKey extends ScopeGrant {
+  /** Short public id, also embedded in the key */
+  id: string
+  name: string
+  scopes: ApiKeyScope[]
+  files: string[]
+  createdAt: number
+  /** Session user that created the key */
+  createdBy: string
+  /** Expiry (ms since epoch); null never expires */
+  expiresAt: number | null
+  /** Last successful authentication, at {@link API_KEY_LAST_USED_RESOLUTION_MS} resolution */
+  lastUsedAt: number | null
+}
+
+/** Input of {@link createApiKey} */
+export interface CreateApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  /** Filename globs limiting `scripts:write` / `ota:publish` (empty: every file) */
+  files?: string[]
+  /** Expiry (ms since epoch); omit for keys that never expire */
+  expiresAt?: number | null
+  createdBy: string
+}
+
+/** Persisted API keys (`API_KEYS_FILE`); only written by the settings page */
+interface ApiKeysFile {
+  version: 1
+  keys: StoredApiKey[]
+}
+
+/** Persisted last use (`API_KEY_USAGE_FILE`), written on authentication */
+interface ApiKeyUsageFile {
+  version: 1
+  /** Key id → last successful authentication (ms since epoch) */
+  lastUsedAt: Record<string, number>
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf8').digest('hex')
+}
+
+function toApiKey({ id, name, scopes, files, createdAt, createdBy, expiresAt }: StoredApiKey, usage: Record<string, number>): ApiKey {
+  return { id, name, scopes, files, createdAt, createdBy, expiresAt, lastUsedAt: usage[id] ?? null }
+}
+
+function parseApiKeysFile(content?: string): StoredApiKey[] {
+  if (!content) {
+    return []
+  }
+  try {
+    const parsed = JSON.parse(content) as Partial<ApiKeysFile>
+    return Array.isArray(parsed.keys) ? parsed.keys : []
+  } catch {
+    return []
+  }
+}
+
+function parseApiKeyUsageFile(content?: string): Record<string, number> {
+  if (!content) {
+    return {}
+  }
+  try {
+    const parsed = JSON.parse(content) as Partial<ApiKeyUsageFile>
+    return parsed.lastUsedAt && typeof parsed.lastUsedAt === 'object' ? parsed.lastUsedAt : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Read one optional file for authentication; a missing or unreadable file reads as empty, which rejects the key.
+ */
+async function readOptionalFile(fileName: string): Promise<string | undefined> {
+  try {
+    return await getScriptStorage().readFile(fileName)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Read keys and their last use before changing or listing them. A storage failure rejects instead of reading as
+ * empty, so it cannot overwrite every key.
+ */
+async function readStoredApiKeys(): Promise<{ keys: StoredApiKey[]; usage: Record<string, number> }> {
+  const { files } = await getScriptStorage().fetchSnapshot()
+  return { keys: parseApiKeysFile(files[API_KEYS_FILE]?.content), usage: parseApiKeyUsageFile(files[API_KEY_USAGE_FILE]?.content) }
+}
+
+async function writeStoredApiKeys(keys: StoredApiKey[]): Promise<void> {
+  const file: ApiKeysFile = { version: 1, keys }
+  await getScriptStorage().writeFiles([{ file: API_KEYS_FILE, content: `${JSON.stringify(file, null, 2)}\n` }])
+}
+
+async function writeApiKeyUsage(lastUsedAt: Record<string, number>): Promise<void> {
+  const file: ApiKeyUsageFile = { version: 1, lastUsedAt }
+  await getScriptStorage().writeFiles([{ file: API_KEY_USAGE_FILE, content: `${JSON.stringify(file, null, 2)}\n` }])
+}
+
+/**
+ * List API keys, newest first.
+ * @returns Key metadata without hashes
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const { keys, usage } = await readStoredApiKeys()
+  return keys.map((key) => toApiKey(key, usage)).sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Issue a new API key.
+ * @param input Name, scopes, optional file globs and expiry
+ * @returns Stored metadata and the key, which is not retrievable later
+ */
+export async function createApiKey(input: CreateApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+  const name = input.name.trim()
+  if (!name) {
+    throw new Error('API key name is required')
+  }
+  const scopes = [...new Set(input.scopes)]
+  if (scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    throw new Error('API key needs at least one valid scope')
+  }
+  const files = [...new Set((input.files ?? []).map((pattern) => pattern.trim()).filter(Boolean))]
+  if (files.some((pattern) => pattern.includes('/') || pattern.includes('\\'))) {
+    throw new Error('API key file globs match flat script filenames and cannot contain path separators')
+  }
+  const now = Date.now()
+  if (input.expiresAt != null && (!Number.isFinite(input.expiresAt) || input.expiresAt <= now)) {
+    throw new Error('API key expiry must be in the future')
+  }
+
+  const { keys } = await readStoredApiKeys()
+  let id = randomBytes(4).toString('hex')
+  while (keys.some((existing) => existing.id === id)) {
+    id = randomBytes(4).toString('hex')
+  }
+  const key = `${API_KEY_PREFIX}${id}_${randomBytes(24).toString('base64url')}`
+  const stored: StoredApiKey = {
+    id,
+    name,
+    scopes,
+    files,
+    createdAt: now,
+    createdBy: input.createdBy,
+    expiresAt: input.expiresAt ?? null,
+    hash: hashApiKey(key),
+  }
+
+  await writeStoredApiKeys([...keys, stored])
+  return { apiKey: toApiKey(stored, {}), key }
+}
+
+/**
+ * Revoke an API key; requests using it fail from now on.
+ * @param id Key id
+ */
+export async function revokeApiKey(id: string): Promise<void> {
+  const { keys } = await readStoredApiKeys()
+  const remaining = keys.filter((key) => key.id !== id)
+  if (remaining.length === keys.length) {
+    throw new Error(`API key ${id} not found`)
+  }
+  await writeStoredApiKeys(remaining)
+}
+
+/**
+ * Resolve an `x-api-key` header to a stored, unexpired key and record its use. Only the key list is read and only the
+ * usage file is written, so a concurrent revoke can never be undone by an authentication.
+ * @param key Presented key
+ * @returns Key metadata, or null when unknown, revoked or expired
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKey | null> {
+  const id = API_KEY_RE.exec(key)?.[1]
+  if (!id) {
+    return null
+  }
+
+  const keys = parseApiKeysFile(await readOptionalFile(API_KEYS_FILE))
+  const stored = keys.find((candidate) => candidate.id === id)
+  const expected = Buffer.from(stored?.hash ?? '', 'hex')
+  const actual = Buffer.from(hashApiKey(key), 'hex')
+  if (!stored || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+  const now = Date.now()
+  if (stored.expiresAt !== null && stored.expiresAt <= now) {
+    return null
+  }
+
+  const usage = parseApiKeyUsageFile(await readOptionalFile(API_KEY_USAGE_FILE))
+  const lastUsedAt = usage[stored.id]
+  if (lastUsedAt === undefined || now - lastUsedAt >= API_KEY_LAST_USED_RESOLUTION_MS) {
+    // Entries of revoked keys are dropped here; a lost concurrent update only costs a timestamp.
+    const next = Object.fromEntries(keys.filter((candidate) => usage[candidate.id] !== undefined).map((candidate) => [candidate.id, usage[candidate.id]]))
+    next[stored.id] = now
+    await writeApiKeyUsage(next)
+    return toApiKey(stored, next)
+  }
+  return toApiKey(stored, usage)
+}
+
+/**
+ * Whether a header value looks like an issued scoped key (rather than the legacy `SCRIPTS_MCP_HEADERS` key).
+ * @param key Presented key
+ */
+export function isScopedApiKey(key: string): boolean {
+  return key.startsWith(API_KEY_PREFIX)
+}
@@ -2,7 +2,12 @@ import { timingSafeEqual } from 'node:crypto'
 
 import type { NextRequest } from 'next/server'
 
-import { validateCookie } from '@/services/auth/access'
+import { getSessionUser } from '@/services/auth/access'
+import { getScopeGrant, setActor, setScopeGrant } from '@/services/context'
+
+import { authenticateApiKey, isScopedApiKey } from './apiKeys'
+import { type ApiKeyScope, checkScopeGrant, FULL_SCOPE_GRANT } from './apiKeyScopes'
+import { getRoleScopeGrant } from './userRoles'
 
 /**
  * Parse MCP headers from env SCRIPTS_MCP_HEADERS.
@@ -51,25 +56,67 @@ function timingSafeStringEqual(a: string, b: string): boolean {
 }
 
 /**
- * Authorize script integration routes (REST v1, MCP): session cookie or x-api-key.
+ * Authorize script integration routes (REST v1, MCP): session cookie (scoped by the user's role), a scoped API key, or the legacy
+ * `SCRIPTS_MCP_HEADERS` x-api-key. Records the caller's actor and scope grant for {@link checkScriptScope}.
  * @param req Incoming Next.js request
- * @returns True when the caller may use script CRUD integration APIs
+ * @returns True when the caller is authenticated; scopes are checked per operation
  */
 export async function authorizeScriptIntegration(req: NextRequest): Promise<boolean> {
-  if (await validateCookie()) {
+  const user = await getSessionUser()
+  if (user) {
+    setActor(user.username)
+    setScopeGrant(getRoleScopeGrant(user.role))
+    return true
+  }
+
+  const headerKey = req.headers.get('x-api-key')?.trim() ?? ''
+  if (!headerKey) {
+    return false
+  }
+
+  if (isScopedApiKey(headerKey)) {
+    const apiKey = await authenticateApiKey(headerKey)
+    if (!apiKey) {
+      return false
+    }
+    setActor(`api-key:${apiKey.name}`)
+    setScopeGrant({ scopes: apiKey.scopes, files: apiKey.files })
     return true
   }
 
   const configuredHeaders = getConfiguredMCPHeaders()
   const configuredApiKey = Object.entries(configuredHeaders).find(([headerName]) => headerName.toLowerCase() === 'x-api-key')?.[1]
-  if (!configuredApiKey) {
+  if (!configuredApiKey || !timingSafeStringEqual(headerKey, configuredApiKey)) {
     return false
   }
 
-  const headerKey = req.headers.get('x-api-key')?.trim() ?? ''
-  if (!headerKey) {
-    return false
+  setActor('api-key')
+  setScopeGrant(FULL_SCOPE_GRANT)
+  return true
+}
+
+/**
+ * Check the authenticated caller's grant for one operation.
+ * @param scope Required scope
+ * @param filename Target script, for `scripts:write` / `ota:publish`
+ * @returns Denial message, or null when allowed
+ */
+export function checkScriptScope(scope: ApiKeyScope, filename?: string): string | null {
+  const grant = getScopeGrant()
+  if (!grant) {
+    return 'unauthorized'
   }
+  return checkScopeGrant(grant, scope, filename)
+}
 
-  return timingSafeStringEqual(headerKey, configuredApiKey)
+/**
+ * Throw when the authenticated caller may not perform an operation (MCP tools, Server Actions).
+ * @param scope Required scope
+ * @param filename Target script, for `scripts:write` / `ota:publish`
+ */
+export function assertScriptScope(scope: ApiKeyScope, filename?: string): void {
+  const denied = checkScriptScope(scope, filename)
+  if (denied) {
+    throw new Error(denied)
+  }
 }
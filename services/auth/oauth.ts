@@ -3,6 +3,7 @@ import { serialize } from 'cookie'
 import { generateToken, type JWTPayload, verifyJwtWithSecret } from '@/utils/jwt'
 
 import { AUTH_TOKEN_NAME } from './constants'
+import { findUserByIdentity } from './users'
 
 const COOKIE_MAX_AGE = 24 * 60 * 60
 
@@ -18,17 +19,15 @@ export async function exchangeOAuthSession(token: string) {
   }
 
   const payload = await verifyThirdPartyToken(token)
-  const allowedUsername = getAllowedUsername()
-
-  if (!payload.username || payload.username !== allowedUsername) {
-    throw new Error('Third-party token does not match the configured ACCESS_USERNAME.')
+  if (!payload.username) {
+    throw new Error('Third-party token has no username.')
   }
 
   if (!payload.authenticated) {
     throw new Error('Third-party token is not marked as authenticated.')
   }
 
-  const username = payload.username
+  const username = await resolveOAuthUsername(payload.username)
 
   const sessionToken = await generateToken({
     authenticated: true,
@@ -74,10 +73,17 @@ function getOAuthSecret() {
   return secret
 }
 
-function getAllowedUsername() {
-  const username = process.env.ACCESS_USERNAME
-  if (!username) {
-    throw new Error('ACCESS_USERNAME is required to validate third-party tokens.')
+/**
+ * Map a third-party username to a session subject: the bootstrap admin (`ACCESS_USERNAME`), or a user linked to `oauth:<username>`.
+ */
+async function resolveOAuthUsername(username: string): Promise<string> {
+  if (process.env.ACCESS_USERNAME && username === process.env.ACCESS_USERNAME) {
+    return username
+  }
+
+  const user = await findUserByIdentity(`oauth:${username}`)
+  if (!user) {
+    throw new Error('Third-party token does not match ACCESS_USERNAME or a user with a linked oauth identity.')
   }
-  return username
+  return user.username
 }
@@ -0,0 +1,36 @@
+import { type ApiKeyScope, FULL_SCOPE_GRANT, type ScopeGrant } from './apiKeyScopes'
+
+/** Roles of user accounts, from least to most privileged. */
+export const USER_ROLES = ['viewer', 'editor', 'publisher', 'admin'] as const
+
+export type UserRole = (typeof USER_ROLES)[number]
+
+/** Settings page labels */
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Read scripts, rules, history and telemetry',
+  editor: 'Viewer, plus edit scripts and rules',
+  publisher: 'Editor, plus publish stable, lock versions and manage rollouts',
+  admin: 'Publisher, plus manage users and API keys',
+}
+
+const ROLE_SCOPES: Record<Exclude<UserRole, 'admin'>, readonly ApiKeyScope[]> = {
+  viewer: ['scripts:read'],
+  editor: ['scripts:read', 'scripts:write', 'rules:write'],
+  publisher: ['scripts:read', 'scripts:write', 'rules:write', 'ota:publish'],
+}
+
+/**
+ * Whether a value is a known role.
+ * @param value Untrusted input
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * What a signed-in user may do, in the same terms as API key scopes.
+ * @param role User role
+ */
+export function getRoleScopeGrant(role: UserRole): ScopeGrant {
+  return role === 'admin' ? FULL_SCOPE_GRANT : { scopes: ROLE_SCOPES[role], files: [] }
+}
@@ -0,0 +1,361 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+import { USERS_FILE } from '@/constants/file'
+import { type Context, getContext } from '@/services/context'
+import { getScriptStorage } from '@/services/storage'
+
+import { isUserRole, type UserRole } from './userRoles'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const PASSWORD_KEY_LENGTH = 64
+
+const USERNAME_RE = /^[A-Za-z0-9._@-]{1,64}$/
+
+/** `provider:subject` of an external login linked to a user (e.g. `oauth:alice`, `signet:u_123`). */
+const IDENTITY_RE = /^(oauth|signet):\S{1,256}$/
+
+/** Prefix of credentials sealed with {@link sealSecret} */
+const SEALED_SECRET_PREFIX = 'aes-256-gcm:'
+
+/** Users file read once per request, keyed by the request's ALS context */
+const requestUsers = new WeakMap<Context, Promise<StoredUser[]>>()
+
+/** Stored user account; credentials are sealed because the users file lives in script storage next to the scripts */
+interface StoredUser extends User {
+  /** Sealed `scrypt:{salt hex}:{hash hex}`; absent for accounts that only sign in through a linked identity */
+  passwordHash?: string
+  /** Sealed TOTP secret required at password login */
+  totpSecret?: string
+}
+
+/** User account as listed on the settings page */
+export interface User {
+  username: string
+  role: UserRole
+  /** Linked OAuth / Signet identities (`provider:subject`) */
+  identities: string[]
+  createdAt: number
+  /** User that created the account */
+  createdBy: string
+  hasPassword?: boolean
+  has2FA?: boolean
+}
+
+/** Signed-in principal resolved from a session */
+export interface SessionUser {
+  username: string
+  role: UserRole
+}
+
+/** Input of {@link createUser} */
+export interface CreateUserInput {
+  username: string
+  role: UserRole
+  password?: string
+  totpSecret?: string
+  identities?: string[]
+  createdBy: string
+}
+
+/** Changes accepted by {@link updateUser}; omitted fields are kept */
+export interface UpdateUserInput {
+  role?: UserRole
+  /** New password; empty string removes password login */
+  password?: string
+  /** New TOTP secret; empty string turns 2FA off */
+  totpSecret?: string
+  identities?: string[]
+}
+
+/** Persisted users (`USERS_FILE`) */
+interface UsersFile {
+  version: 1
+  users: StoredUser[]
+}
+
+/**
+ * Name of the bootstrap admin configured through `ACCESS_USERNAME` / `ACCESS_PASSWORD` (`admin` for legacy sessions).
+ * The name is reserved: stored accounts cannot use it.
+ */
+export function getBootstrapAdminUsername(): string {
+  return process.env.ACCESS_USERNAME || 'admin'
+}
+
+/**
+ * Key sealing stored credentials, derived from `ACCESS_SECRETS_KEY` (falls back to `JWT_SECRET`).
+ */
+function getSecretsKey(): Buffer {
+  const secret = process.env.ACCESS_SECRETS_KEY || process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error('ACCESS_SECRETS_KEY or JWT_SECRET is required to store user credentials')
+  }
+  return Buffer.from(hkdfSync('sha256', secret, '', 'magickmonkey:users', 32))
+}
+
+function sealSecret(value: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getSecretsKey(), iv)
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+  return `${SEALED_SECRET_PREFIX}${[iv, cipher.getAuthTag(), data].map((part) => part.toString('base64url')).join(':')}`
+}
+
+function openSecret(sealed: string): string {
+  const [iv, tag, data] = sealed.slice(SEALED_SECRET_PREFIX.length).split(':')
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', getSecretsKey(), Buffer.from(iv, 'base64url'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8')
+  } catch {
+    throw new Error('Stored user credentials cannot be decrypted; ACCESS_SECRETS_KEY (or JWT_SECRET) changed since they were written')
+  }
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)
+  return sealSecret(`scrypt:${salt.toString('hex')}:${hash.toString('hex')}`)
+}
+
+async function verifyPasswordHash(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = openSecret(stored).split(':')
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false
+  }
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+function toUser({ passwordHash, totpSecret, ...user }: StoredUser): User {
+  return { ...user, hasPassword: Boolean(passwordHash), has2FA: Boolean(totpSecret) }
+}
+
+function parseUsersFile(content?: string): StoredUser[] {
+  if (!content) {
+    return []
+  }
+  try {
+    const parsed = JSON.parse(content) as Partial<UsersFile>
+    return Array.isArray(parsed.users) ? parsed.users.filter((user) => typeof user?.username === 'string' && isUserRole(user.role)) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Read stored accounts for sign-in and session checks, once per request: a request resolves its session several times
+ * (route wrapper, scope checks, admin checks), and only `USERS_FILE` is read instead of the whole storage.
+ * @returns Accounts; none when `USERS_FILE` is missing or unreadable, which leaves only the bootstrap admin able to sign in
+ */
+function readUsers(): Promise<StoredUser[]> {
+  const context = getContext()
+  const cached = context && requestUsers.get(context)
+  if (cached) {
+    return cached
+  }
+
+  const pending = getScriptStorage()
+    .readFile(USERS_FILE)
+    .then(parseUsersFile, () => [])
+  if (context) {
+    requestUsers.set(context, pending)
+  }
+  return pending
+}
+
+/**
+ * Read stored accounts before changing them. Unlike {@link readUsers} a storage failure rejects, so it can never be
+ * mistaken for an empty file and overwrite every account.
+ */
+async function readStoredUsersForUpdate(): Promise<StoredUser[]> {
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  return parseUsersFile(snapshot.files[USERS_FILE]?.content)
+}
+
+async function writeStoredUsers(users: StoredUser[]): Promise<void> {
+  const file: UsersFile = { version: 1, users }
+  await getScriptStorage().writeFiles([{ file: USERS_FILE, content: `${JSON.stringify(file, null, 2)}\n` }])
+  const context = getContext()
+  if (context) {
+    requestUsers.delete(context)
+  }
+}
+
+function normalizeIdentities(identities: string[], users: StoredUser[], username: string): string[] {
+  const normalized = [...new Set(identities.map((identity) => identity.trim()).filter(Boolean))]
+  for (const identity of normalized) {
+    if (!IDENTITY_RE.test(identity)) {
+      throw new Error(`Identity "${identity}" must look like oauth:<username> or signet:<subject>`)
+    }
+    const owner = users.find((user) => user.username !== username && user.identities.includes(identity))
+    if (owner) {
+      throw new Error(`Identity ${identity} is already linked to ${owner.username}`)
+    }
+  }
+  return normalized
+}
+
+/**
+ * Keep at least one admin able to sign in when no bootstrap admin is configured.
+ */
+function assertAdminRemains(users: StoredUser[]): void {
+  if (process.env.ACCESS_USERNAME && process.env.ACCESS_PASSWORD) {
+    return
+  }
+  if (users.length > 0 && !users.some((user) => user.role === 'admin')) {
+    throw new Error('At least one admin is required')
+  }
+}
+
+/**
+ * List user accounts, oldest first.
+ * @returns Accounts without password hashes or 2FA secrets
+ */
+export async function listUsers(): Promise<User[]> {
+  const users = await readUsers()
+  return users.map(toUser).sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Create a user account.
+ * @param input Username, role, optional password / 2FA secret and linked identities
+ * @returns Created account
+ */
+export async function createUser(input: CreateUserInput): Promise<User> {
+  const username = input.username.trim()
+  if (!USERNAME_RE.test(username)) {
+    throw new Error('Username must be 1-64 letters, digits, ".", "_", "@" or "-"')
+  }
+  if (username === getBootstrapAdminUsername()) {
+    throw new Error(`Username ${username} is reserved for the bootstrap admin`)
+  }
+  if (!isUserRole(input.role)) {
+    throw new Error('Unknown role')
+  }
+
+  const users = await readStoredUsersForUpdate()
+  if (users.some((user) => user.username === username)) {
+    throw new Error(`User ${username} already exists`)
+  }
+  const identities = normalizeIdentities(input.identities ?? [], users, username)
+  if (!input.password && identities.length === 0) {
+    throw new Error('User needs a password or a linked identity to sign in')
+  }
+
+  const stored: StoredUser = {
+    username,
+    role: input.role,
+    identities,
+    createdAt: Date.now(),
+    createdBy: input.createdBy,
+    ...(input.password ? { passwordHash: await hashPassword(input.password) } : {}),
+    ...(input.totpSecret?.trim() ? { totpSecret: sealSecret(input.totpSecret.trim()) } : {}),
+  }
+  await writeStoredUsers([...users, stored])
+  return toUser(stored)
+}
+
+/**
+ * Change a user's role, password, 2FA secret or linked identities.
+ * @param username Account to change
+ * @param input Fields to change
+ * @returns Updated account
+ */
+export async function updateUser(username: string, input: UpdateUserInput): Promise<User> {
+  const users = await readStoredUsersForUpdate()
+  const existing = users.find((user) => user.username === username)
+  if (!existing) {
+    throw new Error(`User ${username} not found`)
+  }
+  if (input.role !== undefined && !isUserRole(input.role)) {
+    throw new Error('Unknown role')
+  }
+
+  const next: StoredUser = { ...existing, ...(input.role ? { role: input.role } : {}) }
+  if (input.identities) {
+    next.identities = normalizeIdentities(input.identities, users, username)
+  }
+  if (input.password !== undefined) {
+    delete next.passwordHash
+    if (input.password) {
+      next.passwordHash = await hashPassword(input.password)
+    }
+  }
+  if (input.totpSecret !== undefined) {
+    delete next.totpSecret
+    if (input.totpSecret.trim()) {
+      next.totpSecret = sealSecret(input.totpSecret.trim())
+    }
+  }
+  if (!next.passwordHash && next.identities.length === 0) {
+    throw new Error('User needs a password or a linked identity to sign in')
+  }
+
+  const nextUsers = users.map((user) => (user.username === username ? next : user))
+  assertAdminRemains(nextUsers)
+  await writeStoredUsers(nextUsers)
+  return toUser(next)
+}
+
+/**
+ * Delete a user account; its sessions stop working on their next request.
+ * @param username Account to delete
+ */
+export async function deleteUser(username: string): Promise<void> {
+  const users = await readStoredUsersForUpdate()
+  const remaining = users.filter((user) => user.username !== username)
+  if (remaining.length === users.length) {
+    throw new Error(`User ${username} not found`)
+  }
+  assertAdminRemains(remaining)
+  await writeStoredUsers(remaining)
+}
+
+/**
+ * Check a password login against the bootstrap admin and stored accounts.
+ * @param username Login name
+ * @param password Password
+ * @returns Matching principal and the TOTP secret it must also present, or null
+ */
+export async function verifyUserPassword(username: string, password: string): Promise<(SessionUser & { totpSecret?: string }) | null> {
+  if (process.env.ACCESS_USERNAME && process.env.ACCESS_PASSWORD && username === process.env.ACCESS_USERNAME) {
+    if (password !== process.env.ACCESS_PASSWORD) {
+      return null
+    }
+    return { username, role: 'admin', ...(process.env.ACCESS_2FA_SECRET ? { totpSecret: process.env.ACCESS_2FA_SECRET } : {}) }
+  }
+
+  const user = (await readUsers()).find((candidate) => candidate.username === username)
+  if (!user?.passwordHash || !(await verifyPasswordHash(password, user.passwordHash))) {
+    return null
+  }
+  return { username: user.username, role: user.role, ...(user.totpSecret ? { totpSecret: openSecret(user.totpSecret) } : {}) }
+}
+
+/**
+ * Resolve an external login to the user account it is linked to.
+ * @param identity `provider:subject`
+ * @returns Principal, or null when the identity is not linked
+ */
+export async function findUserByIdentity(identity: string): Promise<SessionUser | null> {
+  const users = await readUsers()
+  const user = users.find((candidate) => candidate.identities.includes(identity))
+  return user ? { username: user.username, role: user.role } : null
+}
+
+/**
+ * Resolve a session subject to its current role, so role changes and deletions apply to existing sessions.
+ * Only the bootstrap admin (`ACCESS_USERNAME`) exists without an account; everyone else needs one in `USERS_FILE`.
+ * @param subject JWT `sub`
+ * @returns Principal, or null when the account does not exist (anymore)
+ */
+export async function resolveSessionUser(subject: string): Promise<SessionUser | null> {
+  // The bootstrap name is reserved, so no stored account can shadow it.
+  if (subject === getBootstrapAdminUsername()) {
+    return { username: subject, role: 'admin' }
+  }
+  const user = (await readUsers()).find((candidate) => candidate.username === subject)
+  return user ? { username: user.username, role: user.role } : null
+}
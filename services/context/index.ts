@@ -1,22 +1,32 @@
 import { createTraceId, normalizeTraceId, readTraceIdFromHeaders, TRACE_ID_HEADER } from '@shared/trace-id'
 import type { NextRequest } from 'next/server'
 
+import type { ScopeGrant } from '@/services/auth/apiKeyScopes'
+
 export interface Context {
   headers: Headers
   req: NextRequest
   /** Correlation id for this request / action (echoed as x-vws-trace-id). */
   traceId: string
+  /** Authenticated principal (session user name or `api-key`), set once auth succeeds. */
+  actor?: string
+  /** What the authenticated principal may do, set with the actor. */
+  grant?: ScopeGrant
 }
 
 const storage = new AsyncLocalStorage<Context>()
 
 /**
  * Run work inside a request-bound ALS context (API routes).
+ * Reuses the active context when it already belongs to `req`, so a route can authorize before handing off to a wrapped handler.
  * @param req Incoming Next.js request
  * @param fn Work to run
  * @returns Result of `fn`
  */
 export function runWithContext<T>(req: NextRequest, fn: () => T): T {
+  if (storage.getStore()?.req === req) {
+    return fn()
+  }
   return storage.run(createContext(req), fn)
 }
 
@@ -69,6 +79,22 @@ export function getTraceId(): string | undefined {
   return storage.getStore()?.traceId
 }
 
+/**
+ * Active authenticated principal from ALS, used to attribute script revisions.
+ * @returns Actor or undefined outside an authenticated context
+ */
+export function getActor(): string | undefined {
+  return storage.getStore()?.actor
+}
+
+/**
+ * Active principal's scope grant from ALS.
+ * @returns Grant or undefined outside an authenticated context
+ */
+export function getScopeGrant(): ScopeGrant | undefined {
+  return storage.getStore()?.grant
+}
+
 type TrimFirst<T extends any[]> = T extends [any, ...infer B] ? B : never
 
 export function withContext<T extends (ctx: Context, ...args: any[]) => any>(fn: T) {
@@ -99,3 +125,11 @@ export const setHeaders = withContext((ctx, headers: Headers | Record<string, st
     ctx.headers.set(key, value)
   }
 })
+
+export const setActor = withContext((ctx, actor: string) => {
+  ctx.actor = actor
+})
+
+export const setScopeGrant = withContext((ctx, grant: ScopeGrant) => {
+  ctx.grant = grant
+})
@@ -11,6 +11,8 @@ export interface Gist {
     {
       content: string
       raw_url: string
+      /** Set when `content` holds only the first 1 MB of the file */
+      truncated?: boolean
     }
   >
   created_at: string
@@ -35,7 +37,22 @@ export async function fetchGist(params: FetchGistFileParams): Promise<Gist> {
     throw new Error('Failed to fetch gist')
   }
 
-  return response.json()
+  const gist: Gist = await response.json()
+  // The API inlines only the first 1 MB of each file; larger files are read in full from their raw URL.
+  await Promise.all(
+    Object.values(gist.files)
+      .filter((file) => file.truncated)
+      .map(async (file) => {
+        const raw = await fetch(file.raw_url, { cache: 'no-store', headers: { Authorization: `token ${gistToken}` } })
+        if (!raw.ok) {
+          throw new Error('Failed to fetch gist')
+        }
+        file.content = await raw.text()
+        file.truncated = false
+      })
+  )
+
+  return gist
 }
 
 export interface ReadGistFileParams extends FetchGistFileParams {
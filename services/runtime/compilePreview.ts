@@ -0,0 +1,173 @@
+import { isManagedScriptFilename } from '@/constants/file'
+import {
+  type CompiledRuntimeScriptModule,
+  compileRuntimeScriptModules,
+  isBackgroundScriptModule,
+  orderRuntimeScriptModules,
+  type RuntimeScriptModule,
+  type RuntimeScriptPolicies,
+  toRuntimeScriptModule,
+} from '@/services/runtime/moduleManifest'
+import { previewManagedScriptFiles, type ScriptFileMeta, validateManagedScriptSources } from '@/services/scripts/gistScripts'
+import type { ScriptDiagnostic } from '@/services/scripts/scriptDiagnostics'
+import { getTampermonkeyScriptKey } from '@/services/tampermonkey/createBanner'
+import { buildScriptPolicySummary, type ScriptBundleTrack } from '@/shared/script-ota-policy'
+
+/** Compiled payload of one script module affected by the previewed writes */
+export interface ScriptCompilePreviewModule {
+  file: string
+  track: ScriptBundleTrack
+  /** SHA-1 of `content` */
+  hash: string
+  /** Payload as served from `/static/[key]/scripts/[file]` */
+  content: string
+  /** Payload hash before the writes; null when the module is new */
+  previousHash: string | null
+}
+
+/** A `scriptModules` entry of `module-manifest.json` that the writes add, remove or change */
+export interface RuntimeScriptModuleChange {
+  file: string
+  type: 'added' | 'removed' | 'changed'
+  before: RuntimeScriptModule | null
+  after: RuntimeScriptModule | null
+}
+
+/** A `scriptPolicies` entry of `module-manifest.json` that the writes add, remove or change */
+export interface RuntimeScriptPolicyChange {
+  file: string
+  before: RuntimeScriptPolicies[string] | null
+  after: RuntimeScriptPolicies[string] | null
+}
+
+/** Values collected from the script headers, with what the writes add and remove */
+export interface CollectedHeaderValues {
+  values: string[]
+  added: string[]
+  removed: string[]
+}
+
+/** Dry-run result of compiling unsaved buffers into the runtime modules */
+export interface ScriptCompilePreview {
+  /** Payloads of the written scripts and of every module whose payload changes (e.g. importers of a changed helper) */
+  modules: ScriptCompilePreviewModule[]
+  /** `module-manifest.json` entries the writes would change */
+  manifest: {
+    scriptModules: RuntimeScriptModuleChange[]
+    scriptPolicies: RuntimeScriptPolicyChange[]
+  }
+  /** `@grant` values across all managed scripts */
+  grants: CollectedHeaderValues
+  /** `@connect` values across all managed scripts */
+  connects: CollectedHeaderValues
+  /** Header / transpile / import diagnostics of the written scripts, plus compile failures of any module */
+  diagnostics: ScriptDiagnostic[]
+}
+
+function collectHeaderValues(scripts: ScriptFileMeta[], pick: (script: ScriptFileMeta) => string[] | undefined): Set<string> {
+  return new Set(scripts.flatMap((script) => pick(script) ?? []).filter(Boolean))
+}
+
+function diffHeaderValues(before: Set<string>, after: Set<string>): CollectedHeaderValues {
+  return {
+    values: Array.from(after).sort(),
+    added: Array.from(after)
+      .filter((value) => !before.has(value))
+      .sort(),
+    removed: Array.from(before)
+      .filter((value) => !after.has(value))
+      .sort(),
+  }
+}
+
+function diffScriptModules(before: RuntimeScriptModule[], after: RuntimeScriptModule[]): RuntimeScriptModuleChange[] {
+  const previous = new Map(before.map((entry) => [entry.file, entry]))
+  const next = new Map(after.map((entry) => [entry.file, entry]))
+  const files = Array.from(new Set([...previous.keys(), ...next.keys()])).sort()
+  const changes: RuntimeScriptModuleChange[] = []
+  for (const file of files) {
+    const entryBefore = previous.get(file) ?? null
+    const entryAfter = next.get(file) ?? null
+    if (!entryBefore || !entryAfter) {
+      changes.push({ file, type: entryAfter ? 'added' : 'removed', before: entryBefore, after: entryAfter })
+    } else if (JSON.stringify(entryBefore) !== JSON.stringify(entryAfter)) {
+      changes.push({ file, type: 'changed', before: entryBefore, after: entryAfter })
+    }
+  }
+  return changes
+}
+
+function diffScriptPolicies(before: ScriptFileMeta[], after: ScriptFileMeta[]): RuntimeScriptPolicyChange[] {
+  const previous = new Map(before.map((script) => [script.filename, buildScriptPolicySummary(script)]))
+  const next = new Map(after.map((script) => [script.filename, buildScriptPolicySummary(script)]))
+  const files = Array.from(new Set([...previous.keys(), ...next.keys()])).sort()
+  return files
+    .map((file) => ({ file, before: previous.get(file) ?? null, after: next.get(file) ?? null }))
+    .filter((change) => JSON.stringify(change.before) !== JSON.stringify(change.after))
+}
+
+/**
+ * Compile unsaved buffers the way a save followed by a launcher fetch would, without writing to storage.
+ * Both sides are compiled with the current snapshot timestamp so only content changes show up in the hashes;
+ * a real save re-stamps every module.
+ * @param writes Unsaved buffers (null content deletes the file)
+ * @param options `baseUrl` for module URLs; `saveAsDebug` previews a debug save (written scripts on the alpha track)
+ * @returns Per-module payloads, manifest changes, collected grants / connects and diagnostics
+ */
+export async function previewScriptCompile(
+  writes: Array<{ file: string; content: string | null }>,
+  options: { baseUrl: string; saveAsDebug?: boolean }
+): Promise<ScriptCompilePreview> {
+  const { current, next, updatedAt } = await previewManagedScriptFiles(writes, { saveAsDebug: options.saveAsDebug })
+  const key = getTampermonkeyScriptKey()
+
+  const sources = Object.fromEntries(writes.filter(({ file, content }) => content !== null && isManagedScriptFilename(file)).map(({ file, content }) => [file, content!]))
+  const validations = await validateManagedScriptSources(sources)
+  const diagnostics: ScriptDiagnostic[] = validations.flatMap((validation) => validation.details)
+  const failed = new Set(diagnostics.filter((diagnostic) => diagnostic.severity === 'error').map((diagnostic) => diagnostic.file))
+
+  const compiledBefore = await compileRuntimeScriptModules(current.index.scripts, current.files, updatedAt, () => {})
+  const compiledAfter = await compileRuntimeScriptModules(next.index.scripts, next.files, updatedAt, (file, error) => {
+    // Header / transpile errors of written files are already reported with positions
+    if (failed.has(file)) {
+      return
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    diagnostics.push({ file, line: 1, column: 1, severity: 'error', code: 'compile', message })
+  })
+
+  const previousHashes = new Map(compiledBefore.map((module) => [module.script.filename, module.payload.hash]))
+  const isAffected = (module: CompiledRuntimeScriptModule) => module.script.filename in sources || previousHashes.get(module.script.filename) !== module.payload.hash
+
+  return {
+    modules: compiledAfter.filter(isAffected).map(({ script, track, payload }) => ({
+      file: script.filename,
+      track,
+      hash: payload.hash,
+      content: payload.content,
+      previousHash: previousHashes.get(script.filename) ?? null,
+    })),
+    manifest: {
+      scriptModules: diffScriptModules(
+        orderRuntimeScriptModules(
+          compiledBefore.filter((module) => !isBackgroundScriptModule(module)).map((module) => toRuntimeScriptModule(options.baseUrl, key, module)),
+          current.index.scripts
+        ),
+        orderRuntimeScriptModules(
+          compiledAfter.filter((module) => !isBackgroundScriptModule(module)).map((module) => toRuntimeScriptModule(options.baseUrl, key, module)),
+          next.index.scripts
+        )
+      ),
+      scriptPolicies: diffScriptPolicies(current.index.scripts, next.index.scripts),
+    },
+    grants: diffHeaderValues(
+      collectHeaderValues(current.index.scripts, (script) => script.grants),
+      collectHeaderValues(next.index.scripts, (script) => script.grants)
+    ),
+    connects: diffHeaderValues(
+      collectHeaderValues(current.index.scripts, (script) => script.connect),
+      collectHeaderValues(next.index.scripts, (script) => script.connect)
+    ),
+    diagnostics,
+  }
+}
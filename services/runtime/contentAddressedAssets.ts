@@ -68,6 +68,17 @@ export function buildVersionedScriptModuleUrl(baseUrl: string, scriptKey: string
   return `${baseUrl}/static/${encodedKey}/${encodeURIComponent(hash)}/scripts/${alphaPrefix}${encodedFile}`
 }
 
+/**
+ * Build URL of a pinned `@resource` asset under `/static/{key}/{sha1}/assets/{name}` (always content-addressed).
+ * @param baseUrl Origin (no trailing slash); empty for a root-relative path resolved at runtime
+ * @param scriptKey Tampermonkey script key
+ * @param hash SHA-1 of the asset bytes
+ * @param name File name shown in the URL (resource name)
+ */
+export function buildVersionedScriptAssetUrl(baseUrl: string, scriptKey: string, hash: string, name: string): string {
+  return `${baseUrl}/static/${encodeURIComponent(scriptKey)}/${encodeURIComponent(hash)}/assets/${encodeURIComponent(name)}`
+}
+
 /**
  * Whether the request `h` query matches the currently deployed artifact hash (safe for immutable caching).
  * @param hParam Raw `h` query value
@@ -1,11 +1,16 @@
 import { createHash } from 'crypto'
 
-import { fetchGist, getGistInfo } from '@/services/gist'
 import { buildVersionedScriptModuleUrl, buildVersionedStaticModuleUrl } from '@/services/runtime/contentAddressedAssets'
 import type { ScriptFileMeta } from '@/services/scripts/gistScripts'
 import { readManagedScriptIndex } from '@/services/scripts/gistScripts'
+import { buildRuntimeRuleSet } from '@/services/scripts/ruleSetReleases'
+import { createScriptAssetResolver } from '@/services/scripts/scriptAssets'
+import { buildScriptDependencyGraph, listLoadOrderDependencies } from '@/services/scripts/scriptDependencyGraph'
+import { collectScriptModuleSources } from '@/services/scripts/scriptModules'
+import { getScriptStorage } from '@/services/storage'
 import { getEditorLibManifest, getExplorerLibManifest, getPresetManifest, getPresetUiManifest } from '@/services/tampermonkey/gmCore'
-import { buildRemoteScriptBundlesFromGist, compileRemoteScriptModulePayload } from '@/services/tampermonkey/remoteScriptBundle.server'
+import { buildRemoteScriptBundlesFromGist, compileRemoteScriptModulePayload, type RemoteScriptBundlePayload } from '@/services/tampermonkey/remoteScriptBundle.server'
+import type { RuntimeRuleSet } from '@/shared/rule-set-ota'
 import { buildScriptFilesForBundleTrack } from '@/shared/script-bundle-track'
 import {
   buildScriptPolicySummary,
@@ -15,6 +20,7 @@ import {
   type ScriptBundleTrack,
   type ScriptOtaPolicy,
 } from '@/shared/script-ota-policy'
+import { isBackgroundRunAt } from '@/shared/script-schedule'
 
 import pkg from '../../package.json'
 
@@ -66,12 +72,28 @@ export type RuntimeScriptPolicies = Record<string, ScriptOtaPolicy & { version?:
 export interface RuntimeScriptModule {
   file: string
   match: string[]
+  include?: string[]
+  exclude?: string[]
+  excludeMatch?: string[]
+  noframes?: boolean
   track: ScriptBundleTrack
   url: string
   hash: RuntimeModuleHash
   dependsOn: string[]
 }
 
+/** `@run-at background` script the extension shell runs on its `@schedule` without a page. */
+export interface RuntimeBackgroundScript {
+  file: string
+  /** Cron expression from `@schedule` */
+  schedule: string
+  /** `@connect` hosts its GM_xmlhttpRequest calls may reach */
+  connect: string[]
+  track: ScriptBundleTrack
+  url: string
+  hash: RuntimeModuleHash
+}
+
 /**
  * Runtime module manifest response contract.
  */
@@ -85,19 +107,39 @@ export interface RuntimeModuleManifest {
   modules: RuntimeModuleDefinition[]
   /** Per-file script modules for match-fallback loading. */
   scriptModules?: RuntimeScriptModule[]
+  /** Scheduled background scripts (never part of page loads). */
+  backgroundScripts?: RuntimeBackgroundScript[]
+  /** URL rule set clients fetch for their track; refetched when the hash changes. */
+  ruleSet?: RuntimeRuleSet
+}
+
+/** One managed script compiled to its per-script module payload. */
+export interface CompiledRuntimeScriptModule {
+  script: ScriptFileMeta
+  track: ScriptBundleTrack
+  payload: RemoteScriptBundlePayload
 }
 
 /**
- * Build per-script module catalog entries for manifest (Phase D).
+ * Compile every indexed script to the per-script module payload served from `/static/[key]/scripts/[file]`.
+ * @param scripts Script index rows
+ * @param gistFiles All storage files
+ * @param gistUpdatedAtMs Stable timestamp for log wrappers
+ * @param onError When given, scripts that fail to compile are reported and skipped instead of failing the whole compile
+ * @returns Compiled modules in index order
  */
-async function buildScriptModulesForManifest(
-  baseUrl: string,
-  scriptKey: string,
+export async function compileRuntimeScriptModules(
   scripts: ScriptFileMeta[],
   gistFiles: Record<string, { content: string }>,
-  gistUpdatedAtMs: number
-): Promise<RuntimeScriptModule[]> {
-  const modules: RuntimeScriptModule[] = []
+  gistUpdatedAtMs: number,
+  onError?: (filename: string, error: unknown) => void
+): Promise<CompiledRuntimeScriptModule[]> {
+  const compiled: CompiledRuntimeScriptModule[] = []
+  const assets = createScriptAssetResolver(gistFiles)
+  const moduleSources: Record<ScriptBundleTrack, Record<string, string>> = {
+    stable: collectScriptModuleSources(gistFiles, buildScriptFilesForBundleTrack(scripts, gistFiles, 'stable')),
+    alpha: collectScriptModuleSources(gistFiles, buildScriptFilesForBundleTrack(scripts, gistFiles, 'alpha')),
+  }
   for (const script of scripts) {
     const ota = resolveScriptOtaPolicy(script.ota)
     const track: ScriptBundleTrack = ota.stage === 'alpha' ? 'alpha' : 'stable'
@@ -106,20 +148,101 @@ async function buildScriptModulesForManifest(
     if (!source) {
       continue
     }
-    const payload = await compileRemoteScriptModulePayload(script.filename, source, track, gistUpdatedAtMs)
-    if (!payload) {
+    let payload: RemoteScriptBundlePayload | null
+    try {
+      payload = await compileRemoteScriptModulePayload(script.filename, source, track, gistUpdatedAtMs, assets, moduleSources[track])
+    } catch (error) {
+      if (!onError) {
+        throw error
+      }
+      onError(script.filename, error)
       continue
     }
-    modules.push({
-      file: script.filename,
-      match: Array.isArray(script.match) ? script.match.filter((pattern): pattern is string => typeof pattern === 'string' && Boolean(pattern)) : [],
-      track,
-      url: buildVersionedScriptModuleUrl(baseUrl, scriptKey, script.filename, payload.hash, track),
-      hash: { algorithm: 'sha1', value: payload.hash },
-      dependsOn: Array.isArray(script.dependsOn) ? script.dependsOn.filter((dep): dep is string => typeof dep === 'string' && Boolean(dep.trim())) : [],
-    })
+    if (payload) {
+      compiled.push({ script, track, payload })
+    }
+  }
+  return compiled
+}
+
+/**
+ * Build the manifest catalog entry for a compiled script module.
+ * @param baseUrl Current request base URL
+ * @param scriptKey Tampermonkey script key
+ * @param module Compiled script module
+ */
+export function toRuntimeScriptModule(baseUrl: string, scriptKey: string, { script, track, payload }: CompiledRuntimeScriptModule): RuntimeScriptModule {
+  return {
+    file: script.filename,
+    match: Array.isArray(script.match) ? script.match.filter((pattern): pattern is string => typeof pattern === 'string' && Boolean(pattern)) : [],
+    ...(script.include?.length ? { include: script.include } : {}),
+    ...(script.exclude?.length ? { exclude: script.exclude } : {}),
+    ...(script.excludeMatch?.length ? { excludeMatch: script.excludeMatch } : {}),
+    ...(script.noframes ? { noframes: true } : {}),
+    track,
+    url: buildVersionedScriptModuleUrl(baseUrl, scriptKey, script.filename, payload.hash, track),
+    hash: { algorithm: 'sha1', value: payload.hash },
+    dependsOn: Array.isArray(script.dependsOn) ? script.dependsOn.filter((dep): dep is string => typeof dep === 'string' && Boolean(dep.trim())) : [],
   }
+}
+
+/**
+ * Put manifest modules in `@depends-on` load order (dependencies first, ties by filename). Missing dependencies
+ * and edges inside a cycle are dropped from `dependsOn` so the runtime can still load every module.
+ * @param modules Manifest script modules
+ * @param scripts Script index entries the modules were compiled from
+ */
+export function orderRuntimeScriptModules(modules: RuntimeScriptModule[], scripts: ScriptFileMeta[]): RuntimeScriptModule[] {
+  const graph = buildScriptDependencyGraph(scripts)
+  const position = new Map(graph.order.map((file, index) => [file, index]))
   return modules
+    .map((module) => ({ ...module, dependsOn: listLoadOrderDependencies(graph, module.file) }))
+    .sort((a, b) => (position.get(a.file) ?? Infinity) - (position.get(b.file) ?? Infinity) || a.file.localeCompare(b.file))
+}
+
+/**
+ * Whether a compiled module is a `@run-at background` script rather than a page module.
+ * @param module Compiled script module
+ */
+export function isBackgroundScriptModule({ script }: CompiledRuntimeScriptModule): boolean {
+  return isBackgroundRunAt(script.runAt)
+}
+
+/**
+ * Build the manifest entry for a compiled background script.
+ * @param baseUrl Current request base URL
+ * @param scriptKey Tampermonkey script key
+ * @param module Compiled background script module
+ */
+export function toRuntimeBackgroundScript(baseUrl: string, scriptKey: string, { script, track, payload }: CompiledRuntimeScriptModule): RuntimeBackgroundScript {
+  return {
+    file: script.filename,
+    schedule: script.schedule ?? '',
+    connect: script.connect ?? [],
+    track,
+    url: buildVersionedScriptModuleUrl(baseUrl, scriptKey, script.filename, payload.hash, track),
+    hash: { algorithm: 'sha1', value: payload.hash },
+  }
+}
+
+/**
+ * Build per-script module catalog entries for manifest (Phase D), with background scripts listed apart.
+ */
+async function buildScriptModulesForManifest(
+  baseUrl: string,
+  scriptKey: string,
+  scripts: ScriptFileMeta[],
+  gistFiles: Record<string, { content: string }>,
+  gistUpdatedAtMs: number
+): Promise<{ scriptModules: RuntimeScriptModule[]; backgroundScripts: RuntimeBackgroundScript[] }> {
+  const compiled = await compileRuntimeScriptModules(scripts, gistFiles, gistUpdatedAtMs)
+  return {
+    scriptModules: orderRuntimeScriptModules(
+      compiled.filter((module) => !isBackgroundScriptModule(module)).map((module) => toRuntimeScriptModule(baseUrl, scriptKey, module)),
+      scripts
+    ),
+    backgroundScripts: compiled.filter(isBackgroundScriptModule).map((module) => toRuntimeBackgroundScript(baseUrl, scriptKey, module)),
+  }
 }
 
 /**
@@ -144,18 +267,21 @@ export async function buildRuntimeModuleManifest(baseUrl: string, key: string):
   let scriptPolicies: RuntimeScriptPolicies = {}
   let runtimePolicy: RuntimeOtaPolicy = resolveRuntimeOtaPolicy(null, presetManifest?.projectVersion?.trim() || defaultProjectVersion)
   let scriptModules: RuntimeScriptModule[] = []
+  let backgroundScripts: RuntimeBackgroundScript[] = []
+  let ruleSet: RuntimeRuleSet | undefined
   try {
     const index = await readManagedScriptIndex()
     scriptPolicies = Object.fromEntries(index.scripts.map((script) => [script.filename, buildScriptPolicySummary(script)]))
     runtimePolicy = resolveRuntimeOtaPolicy(index.runtime ?? null, presetManifest?.projectVersion?.trim() || defaultProjectVersion)
     try {
-      const { gistId, gistToken } = getGistInfo()
-      const gist = await fetchGist({ gistId, gistToken })
-      const gistFiles = Object.fromEntries(Object.entries(gist.files).map(([name, file]) => [name, { content: file.content }]))
-      const gistUpdatedAtMs = new Date(gist.updated_at).getTime()
-      scriptModules = await buildScriptModulesForManifest(baseUrl, key, index.scripts, gistFiles, gistUpdatedAtMs)
+      const snapshot = await getScriptStorage().fetchSnapshot()
+      const gistFiles = Object.fromEntries(Object.entries(snapshot.files).map(([name, file]) => [name, { content: file.content }]))
+      const gistUpdatedAtMs = new Date(snapshot.updatedAt).getTime()
+      ruleSet = buildRuntimeRuleSet(baseUrl, key, gistFiles)
+      ;({ scriptModules, backgroundScripts } = await buildScriptModulesForManifest(baseUrl, key, index.scripts, gistFiles, gistUpdatedAtMs))
     } catch {
       scriptModules = []
+      backgroundScripts = []
     }
   } catch {
     runtimePolicy = resolveRuntimeOtaPolicy(null, presetManifest?.projectVersion?.trim() || defaultProjectVersion)
@@ -258,6 +384,8 @@ export async function buildRuntimeModuleManifest(baseUrl: string, key: string):
     scriptPolicies,
     modules,
     ...(scriptModules.length > 0 ? { scriptModules } : {}),
+    ...(backgroundScripts.length > 0 ? { backgroundScripts } : {}),
+    ...(ruleSet ? { ruleSet } : {}),
   }
 }
 
@@ -275,6 +403,8 @@ export function buildRuntimeModuleManifestEtag(manifest: RuntimeModuleManifest):
     scriptPolicies: manifest.scriptPolicies,
     modules: manifest.modules,
     scriptModules: manifest.scriptModules ?? [],
+    backgroundScripts: manifest.backgroundScripts ?? [],
+    ruleSet: manifest.ruleSet ?? null,
   }
   return createHash('sha1').update(JSON.stringify(stable), 'utf8').digest('hex')
 }
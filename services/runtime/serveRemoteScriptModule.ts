@@ -19,10 +19,12 @@ export interface ServeRemoteScriptModuleParams {
   file: string
   hash?: string
   track?: ScriptBundleTrack
+  /** Serve the baseline release of an active rollout (`?rollout=baseline`) */
+  rolloutBaseline?: boolean
 }
 
 /**
- * Serve one compiled Gist script module (stable or alpha track).
+ * Serve one compiled Gist script module (stable or alpha track), or the baseline of its active rollout.
  */
 export async function serveRemoteScriptModule(req: Request, params: ServeRemoteScriptModuleParams): Promise<NextResponse> {
   const scriptKey = getTampermonkeyScriptKey()
@@ -39,7 +41,7 @@ export async function serveRemoteScriptModule(req: Request, params: ServeRemoteS
   }
 
   try {
-    const bundle = await buildRemoteScriptModuleFromGist(filename, track)
+    const bundle = await buildRemoteScriptModuleFromGist(filename, track, { rolloutBaseline: params.rolloutBaseline })
     if (!bundle) {
       return new NextResponse(`console.warn("[remote-script-module] No compiled module for ${filename}");`, {
         status: 404,
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+
+import { CONTENT_ADDRESSED_CACHE_CONTROL, isSha1ContentHash } from '@/services/runtime/contentAddressedAssets'
+import { readPinnedScriptAsset } from '@/services/scripts/scriptAssets'
+import { getScriptStorage } from '@/services/storage'
+import { getTampermonkeyScriptKey } from '@/services/tampermonkey/createBanner'
+
+export interface ServeScriptAssetParams {
+  key: string
+  hash: string
+}
+
+/**
+ * Serve one pinned `@resource` / `@require` asset by its SHA-1 (immutable; the file segment is cosmetic).
+ */
+export async function serveScriptAsset(req: Request, params: ServeScriptAssetParams): Promise<NextResponse> {
+  if (params.key !== getTampermonkeyScriptKey() || !isSha1ContentHash(params.hash)) {
+    return new NextResponse('Not Found', { status: 404 })
+  }
+
+  const sha1 = params.hash.toLowerCase()
+  const etag = `"${sha1}"`
+  if (req.headers.get('If-None-Match')?.replace(/^W\//i, '') === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag, 'Cache-Control': CONTENT_ADDRESSED_CACHE_CONTROL } })
+  }
+
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const asset = readPinnedScriptAsset(snapshot.files, sha1)
+  if (!asset) {
+    return new NextResponse('Not Found', { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(asset.bytes), {
+    headers: {
+      'Content-Type': asset.entry.contentType,
+      'Cache-Control': CONTENT_ADDRESSED_CACHE_CONTROL,
+      // GM_getResourceURL results are loaded from arbitrary page origins.
+      'Access-Control-Allow-Origin': '*',
+      ETag: etag,
+    },
+  })
+}
@@ -2,21 +2,34 @@ import { createHash } from 'crypto'
 import * as ts from 'typescript'
 
 import { EXCLUDED_FILES, isManagedScriptFilename, SCRIPT_INDEX_FILE } from '@/constants/file'
-import { fetchGist, getGistInfo, readGistFile, writeGistFiles } from '@/services/gist'
+import { getActor, getTraceId } from '@/services/context'
+import { getScriptStorage, type ScriptStorageFile } from '@/services/storage'
 import {
   buildReleaseSnapshotPath,
   LEGACY_SCRIPT_OTA_DEFAULTS,
   NEW_SCRIPT_OTA_DEFAULTS,
+  parseReleaseSnapshotPath,
   resolveRuntimeOtaPolicy,
   resolveScriptOtaPolicy,
+  resolveScriptOtaRollout,
   type RuntimeOtaPolicy,
   type ScriptOtaPolicy,
+  type ScriptOtaRollout,
 } from '@/shared/script-ota-policy'
-import { isScriptSemverVersion, isStrictSemverVersion } from '@/shared/semver-compare'
-
-/** Metadata for one script file in the backing Gist */
+import { isBackgroundRunAt, validateCronSchedule } from '@/shared/script-schedule'
+import { normalizeScriptSettingFields, parseScriptSettingDeclarations, type ScriptSettingField } from '@/shared/script-settings'
+import { compareSemver, isScriptSemverVersion, isStrictSemverVersion } from '@/shared/semver-compare'
+
+import { buildScriptAssetWrites } from './scriptAssets'
+import { buildScriptDependencyGraph, type ScriptDependencyGraph, type ScriptDependencyIssue } from './scriptDependencyGraph'
+import { formatScriptDiagnostic, type ScriptDiagnostic } from './scriptDiagnostics'
+import { collectScriptModuleDiagnostics, collectScriptModuleSources, listScriptModuleImports } from './scriptModules'
+import { buildScriptRevisionWrites, type ScriptRevisionNote } from './scriptRevisionLog'
+import { fromTypeScriptDiagnostic, typeCheckScript } from './scriptTypeCheck'
+
+/** Metadata for one script file in the script storage backend */
 export interface ScriptFileMeta {
-  /** File name in the Gist */
+  /** Flat file name in storage */
   filename: string
   /** UTF-8 byte length of content */
   byteLength: number
@@ -30,24 +43,42 @@ export interface ScriptFileMeta {
   version?: string
   /** Userscript @run-at */
   runAt?: string
+  /** Userscript @schedule cron expression (`@run-at background` scripts) */
+  schedule?: string
   /** Userscript @icon */
   icon?: string
   /** Userscript @author */
   author?: string
   /** Userscript @match values */
   match?: string[]
-  /** Other Gist filenames that must load before this module (Phase D). */
+  /** Userscript @include values (globs or `/regex/`) */
+  include?: string[]
+  /** Userscript @exclude values (globs or `/regex/`) */
+  exclude?: string[]
+  /** Userscript @exclude-match values */
+  excludeMatch?: string[]
+  /** Userscript @noframes: run in the top-level frame only */
+  noframes?: boolean
+  /** Userscript @depends-on: other managed filenames that must load before this module */
   dependsOn?: string[]
   /** Userscript @grant values */
   grants?: string[]
   /** Userscript @connect values */
   connect?: string[]
+  /** Userscript @setting declarations (settings form + `GME_getSettings`) */
+  settings?: ScriptSettingField[]
   /** Human-maintained search aliases preserved from the index */
   aliases?: string[]
   /** Human-maintained search keywords preserved from the index */
   keywords?: string[]
   /** Last content change time for this file (epoch ms) */
   updatedAt?: number
+  /** User or API key that made the last content change */
+  updatedBy?: string
+  /** Last stable publish time (epoch ms) */
+  publishedAt?: number
+  /** User or API key that last published stable */
+  publishedBy?: string
   /** SERVER OTA publish policy */
   ota?: ScriptOtaPolicy
 }
@@ -56,7 +87,7 @@ export interface ScriptFileMeta {
 export interface ListScriptFilesResult {
   /** Script files eligible for integration CRUD */
   files: ScriptFileMeta[]
-  /** Gist `updated_at` as epoch ms */
+  /** Storage `updatedAt` (Gist `updated_at`) as epoch ms */
   gistUpdatedAt: number
 }
 
@@ -103,10 +134,21 @@ export interface ScriptIndexFile {
   updatedAt: string
   runtime?: RuntimeOtaPolicy
   scripts: ScriptFileMeta[]
+  /** Missing and cyclic `@depends-on` found when the index was built */
+  dependencyIssues?: ScriptDependencyIssue[]
 }
 
 type ManualScriptIndexMeta = Pick<ScriptFileMeta, 'aliases' | 'keywords' | 'ota'>
 
+/** Staged rollout settings for {@link publishManagedScriptStable}. */
+export interface ScriptRolloutOptions {
+  /** Share of clients (1–99) that receive the new version first */
+  percent: number
+  failureThreshold?: number
+  minSamples?: number
+  autoPromote?: boolean
+}
+
 export interface ScriptSnippetOptions {
   filename: string
   startLine: number
@@ -157,6 +199,13 @@ export interface ScriptValidationResult {
     closeCount: number
   }
   diagnostics: string[]
+  /** Structured form of `diagnostics` with positions and severity */
+  details: ScriptDiagnostic[]
+}
+
+export interface ScriptValidationOptions {
+  /** Also type-check against the GM / GME typings, managed `.d.ts` files and imported scripts */
+  typeCheck?: boolean
 }
 
 function sha256(content: string): string {
@@ -167,6 +216,26 @@ function uniqueSorted(values: string[]): string[] {
   return [...new Set(values.map((value) => value.trim()).filter(Boolean))].sort((a, b) => a.localeCompare(b))
 }
 
+/**
+ * Raw `@setting` values of a userscript header, in declaration order.
+ * @param content Script source
+ */
+function readSettingDeclarations(content: string): string[] {
+  const open = content.indexOf('// ==UserScript==')
+  const close = content.indexOf('// ==/UserScript==')
+  if (open === -1 || close === -1 || close < open) {
+    return []
+  }
+  const values: string[] = []
+  for (const line of content.slice(open, close).split('\n')) {
+    const matched = line.match(/^\s*\/\/\s*@setting\s+(.*)$/)
+    if (matched?.[1].trim()) {
+      values.push(matched[1].trim())
+    }
+  }
+  return values
+}
+
 function parseUserscriptHeader(content: string): Omit<ScriptFileMeta, 'filename' | 'byteLength' | 'contentHash' | 'aliases' | 'keywords'> {
   const open = content.indexOf('// ==UserScript==')
   const close = content.indexOf('// ==/UserScript==')
@@ -176,8 +245,12 @@ function parseUserscriptHeader(content: string): Omit<ScriptFileMeta, 'filename'
 
   const metadata: Omit<ScriptFileMeta, 'filename' | 'byteLength' | 'contentHash' | 'aliases' | 'keywords'> = {}
   const match: string[] = []
+  const include: string[] = []
+  const exclude: string[] = []
+  const excludeMatch: string[] = []
   const grants: string[] = []
   const connect: string[] = []
+  const dependsOn: string[] = []
   const header = content.slice(open, close).split('\n')
 
   for (const line of header) {
@@ -186,6 +259,10 @@ function parseUserscriptHeader(content: string): Omit<ScriptFileMeta, 'filename'
 
     const key = matched[1]
     const value = matched[2].trim()
+    if (key === 'noframes') {
+      metadata.noframes = true
+      continue
+    }
     if (!value) continue
 
     if (key === 'name') {
@@ -196,27 +273,44 @@ function parseUserscriptHeader(content: string): Omit<ScriptFileMeta, 'filename'
       metadata.version = value
     } else if (key === 'run-at') {
       metadata.runAt = value
+    } else if (key === 'schedule') {
+      metadata.schedule = value
     } else if (key === 'icon') {
       metadata.icon = value
     } else if (key === 'author') {
       metadata.author = value
     } else if (key === 'match') {
       match.push(value)
+    } else if (key === 'include') {
+      include.push(value)
+    } else if (key === 'exclude') {
+      exclude.push(value)
+    } else if (key === 'exclude-match') {
+      excludeMatch.push(value)
     } else if (key === 'grant') {
       grants.push(value)
     } else if (key === 'connect') {
       connect.push(value)
+    } else if (key === 'depends-on') {
+      dependsOn.push(value)
     }
   }
 
   if (match.length > 0) metadata.match = uniqueSorted(match)
+  if (include.length > 0) metadata.include = uniqueSorted(include)
+  if (exclude.length > 0) metadata.exclude = uniqueSorted(exclude)
+  if (excludeMatch.length > 0) metadata.excludeMatch = uniqueSorted(excludeMatch)
   if (grants.length > 0) metadata.grants = uniqueSorted(grants)
   if (connect.length > 0) metadata.connect = uniqueSorted(connect)
+  if (dependsOn.length > 0) metadata.dependsOn = uniqueSorted(dependsOn)
+
+  const { fields: settings } = parseScriptSettingDeclarations(readSettingDeclarations(content))
+  if (settings.length > 0) metadata.settings = settings
 
   return metadata
 }
 
-function parsePreviousScriptIndexEntries(content?: string): Map<string, Pick<ScriptFileMeta, 'contentHash' | 'updatedAt' | 'ota'>> {
+function parsePreviousScriptIndexEntries(content?: string): Map<string, Pick<ScriptFileMeta, 'contentHash' | 'updatedAt' | 'updatedBy' | 'publishedAt' | 'publishedBy' | 'ota'>> {
   if (!content) {
     return new Map()
   }
@@ -235,6 +329,9 @@ function parsePreviousScriptIndexEntries(content?: string): Map<string, Pick<Scr
           {
             contentHash: typeof script.contentHash === 'string' ? script.contentHash : undefined,
             updatedAt: typeof script.updatedAt === 'number' && Number.isFinite(script.updatedAt) ? script.updatedAt : undefined,
+            updatedBy: typeof script.updatedBy === 'string' ? script.updatedBy : undefined,
+            publishedAt: typeof script.publishedAt === 'number' && Number.isFinite(script.publishedAt) ? script.publishedAt : undefined,
+            publishedBy: typeof script.publishedBy === 'string' ? script.publishedBy : undefined,
             ota: script.ota && typeof script.ota === 'object' ? resolveScriptOtaPolicy(script.ota as Partial<ScriptOtaPolicy>) : undefined,
           },
         ])
@@ -283,6 +380,7 @@ export interface ScriptDisplayMeta {
   version?: string
   author?: string
   contentHash?: string
+  settings?: ScriptSettingField[]
 }
 
 /**
@@ -325,6 +423,10 @@ export function buildScriptDisplayMetaByFilenameFromIndexContent(indexContent: s
       if (typeof normalized.contentHash === 'string' && normalized.contentHash.trim()) {
         meta.contentHash = normalized.contentHash.trim()
       }
+      const settings = normalizeScriptSettingFields(normalized.settings)
+      if (settings.length > 0) {
+        meta.settings = settings
+      }
       if (Object.keys(meta).length > 0) {
         map.set(script.filename, meta)
       }
@@ -393,14 +495,13 @@ function parsePersistedScriptIndex(content: string): ScriptIndexFile {
         })
       )
       .sort((a, b) => a.filename.localeCompare(b.filename)),
+    ...(Array.isArray(parsed.dependencyIssues) && parsed.dependencyIssues.length > 0 ? { dependencyIssues: parsed.dependencyIssues } : {}),
   }
 }
 
 async function readPersistedScriptIndex(): Promise<ScriptIndexFile> {
-  const { gistId, gistToken } = getGistInfo()
-
   try {
-    const content = await readGistFile({ gistId, gistToken, fileName: SCRIPT_INDEX_FILE })
+    const content = await getScriptStorage().readFile(SCRIPT_INDEX_FILE)
     return parsePersistedScriptIndex(content)
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
@@ -408,11 +509,20 @@ async function readPersistedScriptIndex(): Promise<ScriptIndexFile> {
   }
 }
 
+/** Who is writing the index, for `updatedBy` / `publishedBy` */
+interface ScriptIndexAttribution {
+  /** Current user or API key (`getActor()`) */
+  actor?: string
+  /** Files being published stable in this write */
+  published?: ReadonlySet<string>
+}
+
 function buildScriptIndex(
   files: Record<string, { content: string }>,
   updatedAt: string = new Date().toISOString(),
   manualMetadataOverrides: Map<string, ManualScriptIndexMeta> = new Map(),
-  runtimeOverride?: RuntimeOtaPolicy
+  runtimeOverride?: RuntimeOtaPolicy,
+  attribution: ScriptIndexAttribution = {}
 ): ScriptIndexFile {
   const previousIndexRuntime = (() => {
     try {
@@ -437,7 +547,12 @@ function buildScriptIndex(
     const manual = manualMetadataOverrides.get(filename) ?? manualMetadata.get(filename)
     const contentHash = sha256(content)
     const previous = previousEntries.get(filename)
-    const fileUpdatedAt = previous?.contentHash === contentHash && typeof previous.updatedAt === 'number' ? previous.updatedAt : writeNow
+    const unchanged = previous?.contentHash === contentHash
+    const fileUpdatedAt = unchanged && typeof previous.updatedAt === 'number' ? previous.updatedAt : writeNow
+    const updatedBy = unchanged ? previous.updatedBy : attribution.actor
+    const published = attribution.published?.has(filename)
+      ? { publishedAt: writeNow, publishedBy: attribution.actor }
+      : { publishedAt: previous?.publishedAt, publishedBy: previous?.publishedBy }
     const ota = manual?.ota ?? previous?.ota
 
     scripts.push({
@@ -445,6 +560,9 @@ function buildScriptIndex(
       byteLength: Buffer.byteLength(content, 'utf8'),
       contentHash,
       updatedAt: fileUpdatedAt,
+      ...(updatedBy ? { updatedBy } : {}),
+      ...(published.publishedAt ? { publishedAt: published.publishedAt } : {}),
+      ...(published.publishedBy ? { publishedBy: published.publishedBy } : {}),
       ...parseUserscriptHeader(content),
       ...(manual?.aliases && manual.aliases.length > 0 ? { aliases: manual.aliases } : {}),
       ...(manual?.keywords && manual.keywords.length > 0 ? { keywords: manual.keywords } : {}),
@@ -453,12 +571,14 @@ function buildScriptIndex(
   }
 
   scripts.sort((a, b) => a.filename.localeCompare(b.filename))
+  const { issues: dependencyIssues } = buildScriptDependencyGraph(scripts)
 
   return {
     version: 1,
     updatedAt,
     ...(runtimeOverride ? { runtime: runtimeOverride } : previousIndexRuntime ? { runtime: previousIndexRuntime } : {}),
     scripts,
+    ...(dependencyIssues.length > 0 ? { dependencyIssues } : {}),
   }
 }
 
@@ -466,10 +586,7 @@ function stringifyScriptIndex(index: ScriptIndexFile): string {
   return `${JSON.stringify(index, null, 2)}\n`
 }
 
-function applyFileWritesToGistFiles(
-  files: Record<string, { content: string; raw_url?: string }>,
-  writes: Array<{ file: string; content: string | null }>
-): Record<string, { content: string; raw_url?: string }> {
+function applyFileWritesToStorageFiles(files: Record<string, ScriptStorageFile>, writes: Array<{ file: string; content: string | null }>): Record<string, ScriptStorageFile> {
   const nextFiles = { ...files }
 
   for (const { file, content } of writes) {
@@ -486,10 +603,22 @@ function applyFileWritesToGistFiles(
   return nextFiles
 }
 
+/**
+ * Single write path for managed scripts: validate, rebuild the index, pin @require / @resource assets,
+ * record revisions, then write one change set.
+ * @param writes File writes (null content deletes)
+ * @param manualMetadataOverrides Index metadata to apply instead of the persisted values
+ * @param runtimeOverride Runtime OTA policy to persist
+ * @param revisionNote Extra details for recorded revisions (restore)
+ * @param publishedFiles Files published stable by this write, attributed to the current actor
+ * @returns Rebuilt script index
+ */
 async function writeManagedScriptFilesWithIndex(
   writes: Array<{ file: string; content: string | null }>,
   manualMetadataOverrides: Map<string, ManualScriptIndexMeta> = new Map(),
-  runtimeOverride?: RuntimeOtaPolicy
+  runtimeOverride?: RuntimeOtaPolicy,
+  revisionNote?: ScriptRevisionNote,
+  publishedFiles?: ReadonlySet<string>
 ): Promise<ScriptIndexFile> {
   const managedWrites = writes.filter(({ file, content }) => isManagedScriptFilename(file) && content !== null)
 
@@ -500,37 +629,52 @@ async function writeManagedScriptFilesWithIndex(
     }
   }
 
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  const nextFiles = writes.length > 0 ? applyFileWritesToGistFiles(gist.files, writes) : gist.files
-  const index = buildScriptIndex(nextFiles, new Date().toISOString(), manualMetadataOverrides, runtimeOverride)
-
-  const gistWrites: Array<{ file: string; content: string | null }> =
-    writes.length > 0 ? [...writes, { file: SCRIPT_INDEX_FILE, content: stringifyScriptIndex(index) }] : [{ file: SCRIPT_INDEX_FILE, content: stringifyScriptIndex(index) }]
+  const storage = getScriptStorage()
+  const snapshot = await storage.fetchSnapshot()
+  const nextFiles = writes.length > 0 ? applyFileWritesToStorageFiles(snapshot.files, writes) : snapshot.files
+  const index = buildScriptIndex(nextFiles, new Date().toISOString(), manualMetadataOverrides, runtimeOverride, { actor: getActor(), published: publishedFiles })
+  const writtenFiles = new Set(managedWrites.map(({ file }) => file))
+  const cycle = index.dependencyIssues?.find((issue) => issue.kind === 'cycle' && issue.cycle?.some((file) => writtenFiles.has(file)))
+  if (cycle) {
+    throw new Error(cycle.message)
+  }
 
-  await writeGistFiles({
-    gistId,
-    gistToken,
-    files: gistWrites,
+  const revisionWrites = buildScriptRevisionWrites(snapshot.files, writes, {
+    author: getActor(),
+    traceId: getTraceId(),
+    now: Date.now(),
+    baselineAt: new Date(snapshot.updatedAt).getTime() || Date.now(),
+    note: revisionNote,
   })
 
+  // Pin @require / @resource before writing so a failed fetch or integrity mismatch rejects the save.
+  const assetWrites = await buildScriptAssetWrites(snapshot.files, writes)
+
+  const storageWrites: Array<{ file: string; content: string | null }> = [
+    ...writes,
+    ...assetWrites,
+    ...revisionWrites,
+    { file: SCRIPT_INDEX_FILE, content: stringifyScriptIndex(index) },
+  ]
+
+  await storage.writeFiles(storageWrites)
+
   return index
 }
 
 export { isManagedScriptFilename } from '@/constants/file'
 
 /**
- * List managed script files from the configured Gist.
+ * List managed script files from the configured storage backend.
  * @returns File names and sizes (not full content)
  */
 export async function listManagedScriptFiles(): Promise<ListScriptFilesResult> {
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  const index = buildScriptIndex(gist.files, gist.updated_at)
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const index = buildScriptIndex(snapshot.files, snapshot.updatedAt)
 
   return {
     files: index.scripts,
-    gistUpdatedAt: new Date(gist.updated_at).getTime(),
+    gistUpdatedAt: new Date(snapshot.updatedAt).getTime(),
   }
 }
 
@@ -585,17 +729,30 @@ function assertExpectedCount(actual: number, expected?: number): void {
 function validateScriptContent(content: string, filename?: string): ScriptValidationResult {
   const openCount = (content.match(/\/\/ ==UserScript==/g) || []).length
   const closeCount = (content.match(/\/\/ ==\/UserScript==/g) || []).length
-  const diagnostics: string[] = []
+  const file = filename ?? ''
+  const details: ScriptDiagnostic[] = []
+  const reportHeader = (message: string) => details.push({ file, line: 1, column: 1, severity: 'error', code: 'header', message })
 
   if (openCount !== 1 || closeCount !== 1) {
-    diagnostics.push('Userscript header block must be present exactly once')
+    reportHeader('Userscript header block must be present exactly once')
   }
 
   const headerMeta = parseUserscriptHeader(content)
   if (!headerMeta.version) {
-    diagnostics.push('@version is required in userscript header')
+    reportHeader('@version is required in userscript header')
   } else if (!isScriptSemverVersion(headerMeta.version)) {
-    diagnostics.push(`@version must be semver x.x.x or x.x.x-prerelease (got "${headerMeta.version}")`)
+    reportHeader(`@version must be semver x.x.x or x.x.x-prerelease (got "${headerMeta.version}")`)
+  }
+  if (isBackgroundRunAt(headerMeta.runAt)) {
+    const scheduleError = headerMeta.schedule ? validateCronSchedule(headerMeta.schedule) : '@schedule is required for @run-at background scripts'
+    if (scheduleError) {
+      reportHeader(scheduleError)
+    }
+  } else if (headerMeta.schedule) {
+    details.push({ file, line: 1, column: 1, severity: 'warning', code: 'header', message: '@schedule only applies to @run-at background scripts' })
+  }
+  for (const settingError of parseScriptSettingDeclarations(readSettingDeclarations(content)).errors) {
+    reportHeader(settingError)
   }
 
   const transpileResult = ts.transpileModule(content, {
@@ -610,18 +767,32 @@ function validateScriptContent(content: string, filename?: string): ScriptValida
     reportDiagnostics: true,
   })
   for (const diagnostic of transpileResult.diagnostics ?? []) {
-    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
-    diagnostics.push(message)
+    details.push(fromTypeScriptDiagnostic(diagnostic, file))
   }
 
   return {
-    ok: diagnostics.length === 0,
+    ok: !details.some((detail) => detail.severity === 'error'),
     filename,
     header: {
       openCount,
       closeCount,
     },
-    diagnostics,
+    diagnostics: details.map((detail) => detail.message),
+    details,
+  }
+}
+
+/**
+ * Append diagnostics that need the other stored scripts (imports, type-check) to a content validation.
+ * Positioned diagnostics are listed as `file (line:column): message`.
+ */
+function withScriptDiagnostics(validation: ScriptValidationResult, details: ScriptDiagnostic[]): ScriptValidationResult {
+  const merged = [...validation.details, ...details]
+  return {
+    ...validation,
+    ok: !merged.some((detail) => detail.severity === 'error'),
+    diagnostics: [...validation.diagnostics, ...details.map(formatScriptDiagnostic)],
+    details: merged,
   }
 }
 
@@ -655,16 +826,15 @@ function applyPatchOperations(content: string, operations: ScriptPatchOperation[
 }
 
 /**
- * Read one managed script file from the Gist.
- * @param filename Gist file name
+ * Read one managed script file from storage.
+ * @param filename Storage file name
  * @returns File content
  */
 export async function getManagedScriptFile(filename: string): Promise<{ filename: string; content: string }> {
   if (!isManagedScriptFilename(filename)) {
     throw new Error('File is not a managed script path')
   }
-  const { gistId, gistToken } = getGistInfo()
-  const content = await readGistFile({ gistId, gistToken, fileName: filename })
+  const content = await getScriptStorage().readFile(filename)
   return { filename, content }
 }
 
@@ -674,14 +844,13 @@ export async function getManagedScriptFile(filename: string): Promise<{ filename
  * @returns Search matches with bounded context
  */
 export async function searchManagedScriptFiles(options: ScriptSearchOptions): Promise<{ matches: ScriptSearchMatch[] }> {
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
+  const snapshot = await getScriptStorage().fetchSnapshot()
   const matcher = buildSearchRegExp(options.query, options.regex, options.caseSensitive)
   const contextLines = Math.max(0, Math.min(options.contextLines ?? 1, 5))
   const maxResults = Math.max(1, Math.min(options.maxResults ?? 50, 200))
   const matches: ScriptSearchMatch[] = []
 
-  for (const [filename, { content }] of Object.entries(gist.files).sort(([a], [b]) => a.localeCompare(b))) {
+  for (const [filename, { content }] of Object.entries(snapshot.files).sort(([a], [b]) => a.localeCompare(b))) {
     if (!isManagedScriptFilename(filename) || (options.filename && filename !== options.filename)) {
       continue
     }
@@ -733,6 +902,7 @@ export async function findManagedScriptFiles(options: ScriptFindOptions): Promis
       { label: 'alias', value: script.aliases, weight: 7 },
       { label: 'keyword', value: script.keywords, weight: 6 },
       { label: 'match', value: script.match, weight: 2 },
+      { label: 'include', value: script.include, weight: 2 },
       { label: 'author', value: script.author, weight: 3 },
     ]
     let score = 0
@@ -766,19 +936,16 @@ export async function findManagedScriptFiles(options: ScriptFindOptions): Promis
 }
 
 /**
- * Rebuild and persist the generated script index from current Gist files.
+ * Rebuild and persist the generated script index from current storage files. Missing and cyclic
+ * `@depends-on` are recorded in `dependencyIssues`.
  * @returns Rebuilt index
  */
 export async function rebuildManagedScriptIndex(): Promise<ScriptIndexFile> {
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  const index = buildScriptIndex(gist.files)
-
-  await writeGistFiles({
-    gistId,
-    gistToken,
-    files: [{ file: SCRIPT_INDEX_FILE, content: stringifyScriptIndex(index) }],
-  })
+  const storage = getScriptStorage()
+  const snapshot = await storage.fetchSnapshot()
+  const index = buildScriptIndex(snapshot.files)
+
+  await storage.writeFiles([{ file: SCRIPT_INDEX_FILE, content: stringifyScriptIndex(index) }])
 
   return index
 }
@@ -793,13 +960,13 @@ export async function updateManagedScriptIndexMetadata(options: ScriptIndexMetad
     throw new Error('File is not a managed script path')
   }
 
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  if (!gist.files[options.filename]) {
-    throw new Error(`File ${options.filename} not found in gist ${gistId}`)
+  const storage = getScriptStorage()
+  const snapshot = await storage.fetchSnapshot()
+  if (!snapshot.files[options.filename]) {
+    throw new Error(`File ${options.filename} not found in ${storage.kind} storage ${storage.id}`)
   }
 
-  const existingManual = parseScriptIndex(gist.files[SCRIPT_INDEX_FILE]?.content).get(options.filename)
+  const existingManual = parseScriptIndex(snapshot.files[SCRIPT_INDEX_FILE]?.content).get(options.filename)
   const overrides = new Map<string, ManualScriptIndexMeta>()
   overrides.set(options.filename, {
     aliases: options.aliases === undefined ? existingManual?.aliases : uniqueSorted(options.aliases),
@@ -807,12 +974,8 @@ export async function updateManagedScriptIndexMetadata(options: ScriptIndexMetad
     ota: options.ota ? resolveScriptOtaPolicy({ ...existingManual?.ota, ...options.ota }) : existingManual?.ota,
   })
 
-  const index = buildScriptIndex(gist.files, new Date().toISOString(), overrides)
-  await writeGistFiles({
-    gistId,
-    gistToken,
-    files: [{ file: SCRIPT_INDEX_FILE, content: stringifyScriptIndex(index) }],
-  })
+  const index = buildScriptIndex(snapshot.files, new Date().toISOString(), overrides)
+  await storage.writeFiles([{ file: SCRIPT_INDEX_FILE, content: stringifyScriptIndex(index) }])
 
   const updated = index.scripts.find((script) => script.filename === options.filename)
   if (!updated) {
@@ -842,11 +1005,12 @@ export async function getManagedScriptSnippet(
 }
 
 /**
- * Create or replace a managed script file in the Gist.
- * @param filename Gist file name
+ * Create or replace a managed script file in storage.
+ * @param filename Storage file name
  * @param content New file body
+ * @param options `saveAsDebug` marks the script alpha; `revision` annotates the recorded revision (restore)
  */
-export async function upsertManagedScriptFile(filename: string, content: string, options?: { saveAsDebug?: boolean }): Promise<void> {
+export async function upsertManagedScriptFile(filename: string, content: string, options?: { saveAsDebug?: boolean; revision?: ScriptRevisionNote }): Promise<void> {
   if (!isManagedScriptFilename(filename)) {
     throw new Error('File is not a managed script path')
   }
@@ -855,50 +1019,156 @@ export async function upsertManagedScriptFile(filename: string, content: string,
     throw new Error(validation.diagnostics.join('; '))
   }
 
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  const isNew = !gist.files[filename]
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const isNew = !snapshot.files[filename]
   const overrides = new Map<string, ManualScriptIndexMeta>()
   if (isNew || options?.saveAsDebug === true) {
     overrides.set(filename, { ota: { ...NEW_SCRIPT_OTA_DEFAULTS } })
   }
 
-  await writeManagedScriptFilesWithIndex([{ file: filename, content }], overrides)
+  await writeManagedScriptFilesWithIndex([{ file: filename, content }], overrides, undefined, options?.revision)
 }
 
 /**
- * Batch write managed and auxiliary Gist files while rebuilding the script index.
+ * Batch write managed and auxiliary storage files while rebuilding the script index.
  * @param writes File writes (null content deletes)
  * @param options When `saveAsDebug` is true, managed script writes get alpha OTA defaults
  * @returns Rebuilt script index
  */
 export async function saveManagedScriptFiles(writes: Array<{ file: string; content: string | null }>, options?: { saveAsDebug?: boolean }): Promise<ScriptIndexFile> {
+  return writeManagedScriptFilesWithIndex(writes, buildSaveOverrides(writes, options))
+}
+
+/**
+ * Index metadata overrides applied by {@link saveManagedScriptFiles}: debug saves put every written script on the alpha track.
+ */
+function buildSaveOverrides(writes: Array<{ file: string; content: string | null }>, options?: { saveAsDebug?: boolean }): Map<string, ManualScriptIndexMeta> {
   const overrides = new Map<string, ManualScriptIndexMeta>()
-  if (options?.saveAsDebug === true && writes.length > 0) {
-    const { gistId, gistToken } = getGistInfo()
-    const gist = await fetchGist({ gistId, gistToken })
-    for (const { file, content } of writes) {
-      if (content === null || !isManagedScriptFilename(file)) {
-        continue
-      }
-      const isNew = !gist.files[file]
-      if (isNew || options.saveAsDebug) {
-        overrides.set(file, { ota: { ...NEW_SCRIPT_OTA_DEFAULTS } })
-      }
+  if (options?.saveAsDebug !== true) {
+    return overrides
+  }
+  for (const { file, content } of writes) {
+    if (content !== null && isManagedScriptFilename(file)) {
+      overrides.set(file, { ota: { ...NEW_SCRIPT_OTA_DEFAULTS } })
     }
   }
+  return overrides
+}
+
+/** Storage files and script index before and after a set of writes */
+export interface ManagedScriptFilesPreview {
+  /** Current storage files and index (rebuilt from the files) */
+  current: { files: Record<string, { content: string }>; index: ScriptIndexFile }
+  /** Storage files and index a save of the writes would produce */
+  next: { files: Record<string, { content: string }>; index: ScriptIndexFile }
+  /** Storage snapshot `updatedAt` (epoch ms) */
+  updatedAt: number
+}
 
-  return writeManagedScriptFilesWithIndex(writes, overrides)
+/**
+ * Apply writes to the stored files in memory and rebuild the index the way {@link saveManagedScriptFiles} would,
+ * without validating, pinning assets or writing anything.
+ * @param writes File writes (null content deletes)
+ * @param options Same options as {@link saveManagedScriptFiles}
+ * @returns Current and resulting files and index
+ */
+export async function previewManagedScriptFiles(writes: Array<{ file: string; content: string | null }>, options?: { saveAsDebug?: boolean }): Promise<ManagedScriptFilesPreview> {
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const nextFiles = applyFileWritesToStorageFiles(snapshot.files, writes)
+  return {
+    current: { files: snapshot.files, index: buildScriptIndex(snapshot.files, snapshot.updatedAt) },
+    next: { files: nextFiles, index: buildScriptIndex(nextFiles, snapshot.updatedAt, buildSaveOverrides(writes, options), undefined, { actor: getActor() }) },
+    updatedAt: new Date(snapshot.updatedAt).getTime(),
+  }
 }
 
 /**
- * Validate one managed script file without returning its content.
- * @param filename Gist file name
+ * Create or replace managed scripts from an import in one write. Imported scripts start on the alpha
+ * track (not auto-upgraded) with the given search aliases and keywords.
+ * @param scripts Scripts to write
+ * @returns Rebuilt script index
+ */
+export async function importManagedScriptFiles(scripts: Array<{ filename: string; content: string; aliases?: string[]; keywords?: string[] }>): Promise<ScriptIndexFile> {
+  const overrides = new Map<string, ManualScriptIndexMeta>()
+  for (const { filename, aliases, keywords } of scripts) {
+    if (!isManagedScriptFilename(filename)) {
+      throw new Error(`${filename} is not a managed script path`)
+    }
+    overrides.set(filename, {
+      ...(aliases && aliases.length > 0 ? { aliases: uniqueSorted(aliases) } : {}),
+      ...(keywords && keywords.length > 0 ? { keywords: uniqueSorted(keywords) } : {}),
+      ota: { ...NEW_SCRIPT_OTA_DEFAULTS },
+    })
+  }
+
+  return writeManagedScriptFilesWithIndex(
+    scripts.map(({ filename, content }) => ({ file: filename, content })),
+    overrides
+  )
+}
+
+/**
+ * Validate one managed script file without returning its content. Scripts with imports are also checked
+ * against the stored scripts for unresolvable imports, missing exports and import cycles, and scripts with
+ * `@depends-on` for missing and cyclic dependencies.
+ * @param filename Storage file name
+ * @param options `typeCheck` also checks types against the GM / GME typings
  * @returns Validation result
  */
-export async function validateManagedScriptFile(filename: string): Promise<ScriptValidationResult> {
+export async function validateManagedScriptFile(filename: string, options?: ScriptValidationOptions): Promise<ScriptValidationResult> {
   const { content } = await getManagedScriptFile(filename)
-  return validateScriptContent(content, filename)
+  const [validation] = await validateManagedScriptSources({ [filename]: content }, options)
+  return validation
+}
+
+/**
+ * Validate unsaved script sources (e.g. the editor's buffers) as if they replaced the stored files.
+ * @param sources Script sources by filename
+ * @param options `typeCheck` also checks types against the GM / GME typings
+ * @returns One validation result per source, in input order
+ */
+export async function validateManagedScriptSources(sources: Record<string, string>, options?: ScriptValidationOptions): Promise<ScriptValidationResult[]> {
+  const typeCheck = options?.typeCheck === true
+  const entries = Object.entries(sources)
+  const declaresDependencies = entries.some(([, content]) => parseUserscriptHeader(content).dependsOn)
+  const needsStorage = typeCheck || declaresDependencies || entries.some(([, content]) => listScriptModuleImports(content).length > 0)
+  const modules = needsStorage ? collectScriptModuleSources((await getScriptStorage().fetchSnapshot()).files, sources) : sources
+  const dependencyIssues = declaresDependencies
+    ? buildScriptDependencyGraph(Object.entries(modules).map(([filename, content]) => ({ filename, ...parseUserscriptHeader(content) }))).issues
+    : []
+
+  return entries.map(([filename, content]) => {
+    const validation = validateScriptContent(content, filename)
+    const details = listScriptModuleImports(content).length > 0 ? collectScriptModuleDiagnostics(filename, content, modules) : []
+    // The checker would only repeat syntax and import errors, so it runs once those are fixed
+    if (typeCheck && details.length === 0 && validation.details.every((detail) => detail.code === 'header')) {
+      details.push(...typeCheckScript(filename, content, modules))
+    }
+    for (const issue of dependencyIssues) {
+      if (issue.kind === 'missing' ? issue.file === filename : issue.cycle?.includes(filename)) {
+        details.push({ file: filename, line: 1, column: 1, severity: issue.kind === 'cycle' ? 'error' : 'warning', code: 'header', message: issue.message })
+      }
+    }
+    return withScriptDiagnostics(validation, details)
+  })
+}
+
+/**
+ * Dependency graph of the managed scripts (`@depends-on` load order, imports, `@match` coverage) with unsaved
+ * editor buffers applied over the stored files.
+ * @param sources Unsaved sources by filename (null drops a file)
+ * @returns Graph nodes, edges, load order and missing / cyclic `@depends-on`
+ */
+export async function buildManagedScriptDependencyGraph(sources: Record<string, string | null> = {}): Promise<ScriptDependencyGraph> {
+  const files = applyFileWritesToStorageFiles(
+    (await getScriptStorage().fetchSnapshot()).files,
+    Object.entries(sources).map(([file, content]) => ({ file, content }))
+  )
+  const modules = collectScriptModuleSources(files)
+  return buildScriptDependencyGraph(
+    Object.entries(modules).map(([filename, content]) => ({ filename, ...parseUserscriptHeader(content) })),
+    modules
+  )
 }
 
 /**
@@ -1015,8 +1285,8 @@ export async function batchPatchManagedScriptFiles(
 }
 
 /**
- * Remove a managed script file from the Gist.
- * @param filename Gist file name
+ * Remove a managed script file from storage.
+ * @param filename Storage file name
  */
 export async function deleteManagedScriptFile(filename: string): Promise<void> {
   if (!isManagedScriptFilename(filename)) {
@@ -1026,11 +1296,11 @@ export async function deleteManagedScriptFile(filename: string): Promise<void> {
 }
 
 /**
- * Rename a managed script file inside the backing Gist.
+ * Rename a managed script file inside the storage backend.
  *
  * Implemented as: read old content -> upsert new filename -> delete old filename.
- * @param fromFilename Existing managed script file name in the Gist
- * @param toFilename New managed script file name in the Gist
+ * @param fromFilename Existing managed script file name in storage
+ * @param toFilename New managed script file name in storage
  * @returns Confirmation object for the rename operation
  */
 export async function renameManagedScriptFile(fromFilename: string, toFilename: string): Promise<{ ok: true; fromFilename: string; toFilename: string }> {
@@ -1045,9 +1315,8 @@ export async function renameManagedScriptFile(fromFilename: string, toFilename:
   }
 
   const { content } = await getManagedScriptFile(fromFilename)
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  const manual = parseScriptIndex(gist.files[SCRIPT_INDEX_FILE]?.content).get(fromFilename)
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const manual = parseScriptIndex(snapshot.files[SCRIPT_INDEX_FILE]?.content).get(fromFilename)
   const manualOverrides = new Map<string, ManualScriptIndexMeta>()
   if (manual) {
     manualOverrides.set(toFilename, manual)
@@ -1065,7 +1334,7 @@ export async function renameManagedScriptFile(fromFilename: string, toFilename:
 }
 
 /**
- * Read the persisted managed script index from Gist.
+ * Read the persisted managed script index from storage.
  * @returns Parsed script index including runtime OTA policy
  */
 export async function readManagedScriptIndex(): Promise<ScriptIndexFile> {
@@ -1074,10 +1343,12 @@ export async function readManagedScriptIndex(): Promise<ScriptIndexFile> {
 
 /**
  * Publish a managed script to stable: write releases snapshot and set OTA policy.
+ * With `rollout`, only that share of clients applies the new version; the rest keep the previous release.
  * @param filename Managed script filename
+ * @param options Optional staged rollout
  * @returns Updated script index entry
  */
-export async function publishManagedScriptStable(filename: string): Promise<ScriptFileMeta> {
+export async function publishManagedScriptStable(filename: string, options?: { rollout?: ScriptRolloutOptions }): Promise<ScriptFileMeta> {
   if (!isManagedScriptFilename(filename)) {
     throw new Error('File is not a managed script path')
   }
@@ -1088,12 +1359,14 @@ export async function publishManagedScriptStable(filename: string): Promise<Scri
     throw new Error(`publish stable requires @version x.x.x (got "${headerMeta.version ?? ''}")`)
   }
 
+  const rollout = options?.rollout ? await buildScriptRollout(filename, headerMeta.version, options.rollout) : undefined
   const snapshotPath = buildReleaseSnapshotPath(filename, headerMeta.version)
   const overrides = new Map<string, ManualScriptIndexMeta>()
   overrides.set(filename, {
     ota: {
       stage: 'stable',
       autoUpgrade: true,
+      ...(rollout ? { rollout } : {}),
     },
   })
 
@@ -1102,7 +1375,10 @@ export async function publishManagedScriptStable(filename: string): Promise<Scri
       { file: filename, content },
       { file: snapshotPath, content },
     ],
-    overrides
+    overrides,
+    undefined,
+    undefined,
+    new Set([filename])
   )
 
   const updated = index.scripts.find((script) => script.filename === filename)
@@ -1112,6 +1388,98 @@ export async function publishManagedScriptStable(filename: string): Promise<Scri
   return updated
 }
 
+/**
+ * Start a staged rollout of `version`, falling back to the newest earlier release snapshot.
+ */
+async function buildScriptRollout(filename: string, version: string, options: ScriptRolloutOptions): Promise<ScriptOtaRollout> {
+  if (!Number.isInteger(options.percent) || options.percent < 1 || options.percent > 99) {
+    throw new Error('rollout percent must be an integer from 1 to 99')
+  }
+
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const baselineVersion = Object.keys(snapshot.files)
+    .map((path) => parseReleaseSnapshotPath(path))
+    .filter((release): release is { filename: string; version: string } => release?.filename === filename && compareSemver(release.version, version) < 0)
+    .map((release) => release.version)
+    .sort(compareSemver)
+    .pop()
+  if (!baselineVersion) {
+    throw new Error(`staged rollout needs an earlier stable release of ${filename} to fall back to`)
+  }
+
+  return resolveScriptOtaRollout({
+    version,
+    baselineVersion,
+    percent: options.percent,
+    status: 'active',
+    failureThreshold: options.failureThreshold,
+    minSamples: options.minSamples,
+    autoPromote: options.autoPromote,
+    startedAt: Date.now(),
+  })!
+}
+
+/**
+ * Change, promote or roll back the staged rollout of a managed script.
+ * @param filename Managed script filename
+ * @param update Next rollout (undefined ends it) from the current active one
+ * @returns Updated script index entry
+ */
+async function updateManagedScriptRollout(filename: string, update: (rollout: ScriptOtaRollout) => ScriptOtaRollout | undefined): Promise<ScriptFileMeta> {
+  if (!isManagedScriptFilename(filename)) {
+    throw new Error('File is not a managed script path')
+  }
+
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const existingManual = parseScriptIndex(snapshot.files[SCRIPT_INDEX_FILE]?.content).get(filename)
+  const { rollout, ...ota } = resolveScriptOtaPolicy(existingManual?.ota)
+  if (rollout?.status !== 'active') {
+    throw new Error(`${filename} has no active rollout`)
+  }
+
+  const next = update(rollout)
+  const overrides = new Map<string, ManualScriptIndexMeta>()
+  overrides.set(filename, { ...existingManual, ota: { ...ota, ...(next ? { rollout: next } : {}) } })
+
+  const index = await writeManagedScriptFilesWithIndex([], overrides)
+  const updated = index.scripts.find((script) => script.filename === filename)
+  if (!updated) {
+    throw new Error(`File ${filename} not found in rebuilt index`)
+  }
+  return updated
+}
+
+/**
+ * Widen or narrow the share of clients in an active rollout.
+ * @param filename Managed script filename
+ * @param percent New share (1–99)
+ * @returns Updated script index entry
+ */
+export async function setManagedScriptRolloutPercent(filename: string, percent: number): Promise<ScriptFileMeta> {
+  if (!Number.isInteger(percent) || percent < 1 || percent > 99) {
+    throw new Error('rollout percent must be an integer from 1 to 99')
+  }
+  return updateManagedScriptRollout(filename, (rollout) => ({ ...rollout, percent }))
+}
+
+/**
+ * End an active rollout by releasing the candidate to every client.
+ * @param filename Managed script filename
+ * @returns Updated script index entry
+ */
+export async function promoteManagedScriptRollout(filename: string): Promise<ScriptFileMeta> {
+  return updateManagedScriptRollout(filename, () => undefined)
+}
+
+/**
+ * Withdraw an active rollout: stable builds serve the baseline release to every client again.
+ * @param filename Managed script filename
+ * @returns Updated script index entry
+ */
+export async function rollbackManagedScriptRollout(filename: string): Promise<ScriptFileMeta> {
+  return updateManagedScriptRollout(filename, (rollout) => ({ ...rollout, status: 'rolled-back', rolledBackAt: Date.now() }))
+}
+
 /**
  * Fleet-lock a managed script to its current @version (stable track uses releases snapshot).
  * @param filename Managed script filename
@@ -1141,9 +1509,8 @@ export async function lockManagedScriptVersion(filename: string, version?: strin
   })
 
   const writes: Array<{ file: string; content: string | null }> = []
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  if (!gist.files[snapshotPath]) {
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  if (!snapshot.files[snapshotPath]) {
     writes.push({ file: snapshotPath, content })
   }
 
@@ -1165,9 +1532,8 @@ export async function unlockManagedScriptVersion(filename: string): Promise<Scri
     throw new Error('File is not a managed script path')
   }
 
-  const { gistId, gistToken } = getGistInfo()
-  const gist = await fetchGist({ gistId, gistToken })
-  const existingManual = parseScriptIndex(gist.files[SCRIPT_INDEX_FILE]?.content).get(filename)
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const existingManual = parseScriptIndex(snapshot.files[SCRIPT_INDEX_FILE]?.content).get(filename)
   const currentOta = resolveScriptOtaPolicy(existingManual?.ota)
   const { lockedVersion, ...otaWithoutLock } = currentOta
   void lockedVersion
@@ -8,7 +8,7 @@ export const SCRIPTS_OPENAPI_V1 = {
     title: 'MagickMonkey — Script files API',
     version: '1.0.0',
     description:
-      'CRUD for user script files stored in the configured GitHub Gist. Only .ts/.js files outside generated entry/rules are writable. Authenticate with session cookie or x-api-key configured via SCRIPTS_MCP_HEADERS.',
+      'CRUD for user script files stored in the configured GitHub Gist. Only .ts/.js files outside generated entry/rules are writable. Authenticate with session cookie, a scoped API key issued on the settings page, or the x-api-key configured via SCRIPTS_MCP_HEADERS. Scoped keys only reach the operations their scopes (scripts:read, scripts:write, ota:publish, rules:write) and file globs allow.',
   },
   servers: [{ url: '/', description: 'Deployment origin' }],
   security: [{ ScriptsApiKey: [] }, { cookieAuth: [] }],
@@ -55,6 +55,7 @@ export const SCRIPTS_OPENAPI_V1 = {
             },
           },
           '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
         },
       },
     },
@@ -94,6 +95,7 @@ export const SCRIPTS_OPENAPI_V1 = {
           },
           '400': { description: 'Not a managed script file' },
           '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
           '404': { description: 'Not found' },
         },
       },
@@ -134,6 +136,7 @@ export const SCRIPTS_OPENAPI_V1 = {
           },
           '400': { description: 'Invalid body or filename' },
           '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
         },
       },
       delete: {
@@ -161,13 +164,41 @@ export const SCRIPTS_OPENAPI_V1 = {
           },
           '400': { description: 'Not a managed script file' },
           '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
         },
       },
     },
     '/api/v1/scripts/{filename}/ota': {
+      get: {
+        operationId: 'getScriptRollout',
+        summary: 'Staged rollout state and its health in script telemetry',
+        parameters: [
+          {
+            name: 'filename',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'URL-encoded managed script filename',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Current rollout (null when none) and distinct telemetry clients of its candidate',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ScriptRolloutStatusResponse' },
+              },
+            },
+          },
+          '400': { description: 'Not a managed script file' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+          '404': { description: 'Script not found' },
+        },
+      },
       post: {
         operationId: 'postScriptOta',
-        summary: 'OTA publish-stable, lock, or unlock',
+        summary: 'OTA publish-stable (optionally staged), lock, unlock, or steer a staged rollout',
         parameters: [
           {
             name: 'filename',
@@ -184,6 +215,10 @@ export const SCRIPTS_OPENAPI_V1 = {
               schema: { $ref: '#/components/schemas/ScriptOtaActionRequest' },
               examples: {
                 publishStable: { value: { action: 'publish-stable' } },
+                publishStaged: { value: { action: 'publish-stable', rollout: { percent: 10, failureThreshold: 0.05, minSamples: 20 } } },
+                rolloutPercent: { value: { action: 'rollout-percent', percent: 50 } },
+                promote: { value: { action: 'promote' } },
+                rollback: { value: { action: 'rollback' } },
                 lock: { value: { action: 'lock', version: '1.2.0' } },
                 unlock: { value: { action: 'unlock' } },
               },
@@ -201,6 +236,289 @@ export const SCRIPTS_OPENAPI_V1 = {
           },
           '400': { description: 'Invalid action or filename' },
           '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+        },
+      },
+    },
+    '/api/v1/scripts/{filename}/validate': {
+      get: {
+        operationId: 'validateScript',
+        summary: 'Validate a script (header, syntax, imports; types with typeCheck=true)',
+        parameters: [
+          {
+            name: 'filename',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'URL-encoded managed script filename',
+          },
+          {
+            name: 'typeCheck',
+            in: 'query',
+            required: false,
+            schema: { type: 'boolean', default: false },
+            description: 'Also type-check against the GM / GME typings, managed `.d.ts` files and imported scripts',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Validation result (`ok` is false when any error diagnostic is reported)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ValidateScriptResponse' },
+              },
+            },
+          },
+          '400': { description: 'Not a managed script file' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+          '404': { description: 'Script not found' },
+        },
+      },
+    },
+    '/api/v1/scripts/{filename}/revisions': {
+      get: {
+        operationId: 'listScriptRevisions',
+        summary: 'List recorded revisions of a script (newest first)',
+        parameters: [
+          {
+            name: 'filename',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'URL-encoded managed script filename',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Revision history without content',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ListScriptRevisionsResponse' },
+              },
+            },
+          },
+          '400': { description: 'Not a managed script file' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+        },
+      },
+    },
+    '/api/v1/scripts/{filename}/revisions/{id}': {
+      get: {
+        operationId: 'getScriptRevision',
+        summary: 'Read one revision with its content',
+        parameters: [
+          {
+            name: 'filename',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'URL-encoded managed script filename',
+          },
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer', minimum: 1 },
+            description: 'Revision id (per-file sequence number)',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Revision and content (null for delete revisions)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/GetScriptRevisionResponse' },
+              },
+            },
+          },
+          '400': { description: 'Invalid filename or revision id' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+          '404': { description: 'Revision not found' },
+        },
+      },
+    },
+    '/api/v1/scripts/{filename}/revisions/{id}/diff': {
+      get: {
+        operationId: 'diffScriptRevision',
+        summary: 'Unified diff of a revision against another revision or the current content',
+        parameters: [
+          {
+            name: 'filename',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'URL-encoded managed script filename',
+          },
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer', minimum: 1 },
+            description: 'Revision id (per-file sequence number)',
+          },
+          {
+            name: 'against',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', default: 'current' },
+            description: '`current` (default) or another revision id',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Unified diff',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ScriptRevisionDiffResponse' },
+              },
+            },
+          },
+          '400': { description: 'Invalid filename, revision id or against' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+          '404': { description: 'Revision not found' },
+        },
+      },
+    },
+    '/api/v1/scripts/{filename}/revisions/{id}/restore': {
+      post: {
+        operationId: 'restoreScriptRevision',
+        summary: 'Roll a script back to a revision (recorded as a new restore revision)',
+        parameters: [
+          {
+            name: 'filename',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'URL-encoded managed script filename',
+          },
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer', minimum: 1 },
+            description: 'Revision id (per-file sequence number)',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Restored revision and the new head revision',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RestoreScriptRevisionResponse' },
+              },
+            },
+          },
+          '400': { description: 'Invalid input, unknown revision, or a delete revision' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+        },
+      },
+    },
+    '/api/v1/rules': {
+      get: {
+        operationId: 'getRules',
+        summary: 'List URL rules (wildcard → script)',
+        responses: {
+          '200': {
+            description: 'Current rules',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RulesResponse' },
+              },
+            },
+          },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+        },
+      },
+      put: {
+        operationId: 'putRules',
+        summary: 'Replace all URL rules (requires rules:write)',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { rules: { type: 'array', items: { $ref: '#/components/schemas/RuleConfig' } } },
+                required: ['rules'],
+              },
+              examples: {
+                replace: { value: { rules: [{ id: 'r1', wildcard: 'https://example.com/*', script: 'demo.ts' }] } },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Saved rules',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RulesResponse' },
+              },
+            },
+          },
+          '400': { description: 'Body is not { rules: RuleConfig[] }' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+        },
+      },
+    },
+    '/api/v1/rules/ota': {
+      get: {
+        operationId: 'getRuleSetOta',
+        summary: 'Rule set releases, the release stable clients receive and whether the working rules are unpublished',
+        responses: {
+          '200': {
+            description: 'Rule set release state',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RuleSetReleaseStatusResponse' },
+              },
+            },
+          },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
+        },
+      },
+      post: {
+        operationId: 'postRuleSetOta',
+        summary: 'Publish the working rules as a release or roll stable clients back (requires rules:write and ota:publish)',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  action: { type: 'string', enum: ['publish', 'rollback'] },
+                  version: { type: 'integer', description: 'rollback: release to restore; defaults to the one before the current stable release' },
+                },
+                required: ['action'],
+              },
+              examples: {
+                publish: { value: { action: 'publish' } },
+                rollback: { value: { action: 'rollback', version: 2 } },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Updated rule set release state',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RuleSetReleaseStatusResponse' },
+              },
+            },
+          },
+          '400': { description: 'Unknown action, nothing to publish, or no release to roll back to' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'API key lacks the required scope or file glob' },
         },
       },
     },
@@ -234,6 +552,9 @@ export const SCRIPTS_OPENAPI_V1 = {
           aliases: { type: 'array', items: { type: 'string' }, description: 'Human-maintained search aliases preserved from the script index.' },
           keywords: { type: 'array', items: { type: 'string' }, description: 'Human-maintained search keywords preserved from the script index.' },
           updatedAt: { type: 'integer', description: 'Last content change time for this file (epoch ms).' },
+          updatedBy: { type: 'string', description: 'User (or `api-key:<name>`) that made the last content change.' },
+          publishedAt: { type: 'integer', description: 'Last stable publish time (epoch ms).' },
+          publishedBy: { type: 'string', description: 'User (or `api-key:<name>`) that last published stable.' },
           ota: { $ref: '#/components/schemas/ScriptOtaPolicy' },
         },
         required: ['filename', 'byteLength'],
@@ -244,17 +565,68 @@ export const SCRIPTS_OPENAPI_V1 = {
           stage: { type: 'string', enum: ['stable', 'alpha'], description: 'SERVER release stage for this script.' },
           autoUpgrade: { type: 'boolean', description: 'Whether clients may auto-apply newer artifact hashes.' },
           lockedVersion: { type: 'string', description: 'Fleet pin: stable builds use releases.{file}@{version} when set.' },
+          rollout: { $ref: '#/components/schemas/ScriptOtaRollout' },
         },
         required: ['stage', 'autoUpgrade'],
       },
+      ScriptOtaRollout: {
+        type: 'object',
+        properties: {
+          version: { type: 'string', description: 'Candidate version being rolled out.' },
+          baselineVersion: { type: 'string', description: 'Earlier release kept outside the cohort and restored on rollback.' },
+          percent: { type: 'integer', minimum: 0, maximum: 100, description: 'Share of clients, chosen by a stable client id, that apply the candidate.' },
+          status: { type: 'string', enum: ['active', 'rolled-back'] },
+          failureThreshold: { type: 'number', description: 'Failure rate (0-1) among cohort clients in script telemetry that rolls back automatically.' },
+          minSamples: { type: 'integer', description: 'Cohort clients in script telemetry needed before automatic promotion or rollback.' },
+          autoPromote: { type: 'boolean', description: 'Release to every client once minSamples report below the threshold.' },
+          startedAt: { type: 'integer' },
+          rolledBackAt: { type: 'integer' },
+        },
+        required: ['version', 'baselineVersion', 'percent', 'status', 'failureThreshold', 'minSamples', 'autoPromote', 'startedAt'],
+      },
       ScriptOtaActionRequest: {
         type: 'object',
         properties: {
-          action: { type: 'string', enum: ['publish-stable', 'lock', 'unlock'] },
+          action: { type: 'string', enum: ['publish-stable', 'lock', 'unlock', 'rollout-percent', 'promote', 'rollback'] },
           version: { type: 'string', description: 'Required for lock when not inferring from @version' },
+          rollout: {
+            type: 'object',
+            description: 'publish-stable only: stage the release to a share of clients (needs an earlier release snapshot).',
+            properties: {
+              percent: { type: 'integer', minimum: 1, maximum: 99 },
+              failureThreshold: { type: 'number' },
+              minSamples: { type: 'integer' },
+              autoPromote: { type: 'boolean' },
+            },
+            required: ['percent'],
+          },
+          percent: { type: 'integer', minimum: 1, maximum: 99, description: 'rollout-percent only: new share of clients' },
         },
         required: ['action'],
       },
+      ScriptRolloutStatusResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  filename: { type: 'string' },
+                  rollout: { allOf: [{ $ref: '#/components/schemas/ScriptOtaRollout' }], nullable: true },
+                  health: {
+                    type: 'object',
+                    properties: { successes: { type: 'integer' }, failures: { type: 'integer' } },
+                    required: ['successes', 'failures'],
+                  },
+                },
+                required: ['filename', 'rollout', 'health'],
+              },
+            },
+          },
+        ],
+      },
       ScriptOtaActionResponse: {
         allOf: [
           { $ref: '#/components/schemas/StandardEnvelope' },
@@ -328,13 +700,220 @@ export const SCRIPTS_OPENAPI_V1 = {
           },
         ],
       },
+      ScriptDiagnostic: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          line: { type: 'integer', description: '1-based line' },
+          column: { type: 'integer', description: '1-based column' },
+          severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+          code: { type: 'string', description: '`TS<number>` for TypeScript diagnostics; `header` or `import` otherwise.' },
+          message: { type: 'string' },
+        },
+        required: ['file', 'line', 'column', 'severity', 'code', 'message'],
+      },
+      ValidateScriptResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  ok: { type: 'boolean' },
+                  filename: { type: 'string' },
+                  header: {
+                    type: 'object',
+                    properties: { openCount: { type: 'integer' }, closeCount: { type: 'integer' } },
+                    required: ['openCount', 'closeCount'],
+                  },
+                  diagnostics: { type: 'array', items: { type: 'string' }, description: 'Messages of `details`, as plain strings.' },
+                  details: { type: 'array', items: { $ref: '#/components/schemas/ScriptDiagnostic' } },
+                },
+                required: ['ok', 'header', 'diagnostics', 'details'],
+              },
+            },
+          },
+        ],
+      },
+      ScriptRevision: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Per-file sequence number, starting at 1.' },
+          action: { type: 'string', enum: ['baseline', 'create', 'update', 'delete', 'restore'] },
+          contentHash: { type: 'string', description: 'SHA-256 of the revision content; absent for delete.' },
+          byteLength: { type: 'integer' },
+          author: { type: 'string', description: 'Session user name, `api-key`, or `system`.' },
+          traceId: { type: 'string', description: 'TraceId of the write that recorded the revision.' },
+          createdAt: { type: 'integer', description: 'Record time (epoch ms).' },
+          restoredFrom: { type: 'integer', description: 'Revision id a restore was taken from.' },
+          renamedFrom: { type: 'string' },
+          renamedTo: { type: 'string' },
+        },
+        required: ['id', 'action', 'byteLength', 'author', 'createdAt'],
+      },
+      ListScriptRevisionsResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  filename: { type: 'string' },
+                  revisions: { type: 'array', items: { $ref: '#/components/schemas/ScriptRevision' } },
+                },
+                required: ['filename', 'revisions'],
+              },
+            },
+          },
+        ],
+      },
+      GetScriptRevisionResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  filename: { type: 'string' },
+                  revision: { $ref: '#/components/schemas/ScriptRevision' },
+                  content: { type: 'string', nullable: true },
+                },
+                required: ['filename', 'revision', 'content'],
+              },
+            },
+          },
+        ],
+      },
+      ScriptRevisionDiffResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  filename: { type: 'string' },
+                  from: { type: 'integer' },
+                  to: { oneOf: [{ type: 'integer' }, { type: 'string', enum: ['current'] }] },
+                  patch: { type: 'string', description: 'Unified diff hunks; empty when identical.' },
+                  additions: { type: 'integer' },
+                  deletions: { type: 'integer' },
+                },
+                required: ['filename', 'from', 'to', 'patch', 'additions', 'deletions'],
+              },
+            },
+          },
+        ],
+      },
+      RestoreScriptRevisionResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  filename: { type: 'string' },
+                  restoredFrom: { $ref: '#/components/schemas/ScriptRevision' },
+                  revision: { $ref: '#/components/schemas/ScriptRevision' },
+                },
+                required: ['filename', 'restoredFrom'],
+              },
+            },
+          },
+        ],
+      },
+      RuleConfig: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          wildcard: { type: 'string', description: 'URL wildcard the rule matches' },
+          script: { type: 'string', description: 'Managed script filename run on matching URLs' },
+          mode: { type: 'string', enum: ['script', 'exclude'], description: 'exclude keeps the script off matching URLs, even when its @match covers them' },
+          enabled: { type: 'boolean', description: 'Disabled when false' },
+          priority: { type: 'number', description: 'Higher-priority rules decide first (default 0)' },
+          conditions: { $ref: '#/components/schemas/RuleConditions' },
+        },
+        required: ['id', 'wildcard', 'script'],
+      },
+      RuleConditions: {
+        type: 'object',
+        description: 'All given conditions must hold for the rule to apply',
+        properties: {
+          frame: { type: 'string', enum: ['top', 'iframe'] },
+          time: {
+            type: 'object',
+            description: 'Local time window; to before from wraps past midnight',
+            properties: {
+              from: { type: 'string', example: '09:00' },
+              to: { type: 'string', example: '18:00' },
+              days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: '0 = Sunday' },
+            },
+            required: ['from', 'to'],
+          },
+          cookie: { type: 'string', description: 'Cookie name that must be set' },
+          localStorage: { type: 'string', description: 'localStorage key that must be set' },
+          userAgent: { type: 'string', description: 'Case-insensitive substring or /regex/flags' },
+          device: { type: 'string', enum: ['mobile', 'desktop'] },
+          selector: { type: 'string', description: 'CSS selector that must match an element' },
+        },
+      },
+      RulesResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: { type: 'object', properties: { rules: { type: 'array', items: { $ref: '#/components/schemas/RuleConfig' } } }, required: ['rules'] },
+            },
+          },
+        ],
+      },
+      RuleSetRelease: {
+        type: 'object',
+        properties: {
+          version: { type: 'integer' },
+          hash: { type: 'string', description: 'SHA-1 of the published rules file' },
+          publishedAt: { type: 'number' },
+          publishedBy: { type: 'string' },
+        },
+        required: ['version', 'hash', 'publishedAt'],
+      },
+      RuleSetReleaseStatusResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/StandardEnvelope' },
+          {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  stableVersion: { type: 'integer', nullable: true, description: 'null while the working rules are served to every client' },
+                  releases: { type: 'array', items: { $ref: '#/components/schemas/RuleSetRelease' }, description: 'Newest first' },
+                  workingHash: { type: 'string', nullable: true },
+                  unpublishedChanges: { type: 'boolean', description: 'Working rules only reach clients that accept alpha' },
+                },
+                required: ['stableVersion', 'releases', 'workingHash', 'unpublishedChanges'],
+              },
+            },
+          },
+        ],
+      },
     },
     securitySchemes: {
       ScriptsApiKey: {
         type: 'apiKey',
         in: 'header',
         name: 'x-api-key',
-        description: 'Value must match x-api-key defined in env SCRIPTS_MCP_HEADERS',
+        description: 'Scoped API key (mmk_…) issued on the settings page, or the x-api-key defined in env SCRIPTS_MCP_HEADERS (full access)',
       },
       cookieAuth: {
         type: 'apiKey',
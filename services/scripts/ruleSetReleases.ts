@@ -0,0 +1,185 @@
+import { createHash } from 'crypto'
+
+import { ENTRY_SCRIPT_RULES_FILE, RULE_SET_RELEASES_FILE } from '@/constants/file'
+import { getActor } from '@/services/context'
+import { getScriptStorage } from '@/services/storage'
+import { resolveRuleSetOtaState, type RuleSetOtaState, type RuleSetRelease, type RuntimeRuleSet } from '@/shared/rule-set-ota'
+import { buildReleaseSnapshotPath, type OtaReleaseStage } from '@/shared/script-ota-policy'
+
+/** Rule set release state for the editor and REST clients */
+export interface RuleSetReleaseStatus {
+  /** Release stable clients receive; null while the working rules are served to every client */
+  stableVersion: number | null
+  /** Newest first */
+  releases: RuleSetRelease[]
+  /** SHA-1 of the working rules file; null when there is none */
+  workingHash: string | null
+  /** Working rules differ from the stable release (only alpha clients see them) */
+  unpublishedChanges: boolean
+}
+
+/** Rules file content served to one track */
+interface ServedRuleSet {
+  content: string
+  hash: string
+  version?: number
+}
+
+/**
+ * SHA-1 of a rules file, used as its identity in the manifest.
+ * @param content Rules file content
+ */
+export function hashRuleSetContent(content: string): string {
+  return createHash('sha1').update(content, 'utf8').digest('hex')
+}
+
+function parseRuleSetOtaState(content?: string): RuleSetOtaState {
+  if (!content) {
+    return { releases: [] }
+  }
+  try {
+    return resolveRuleSetOtaState(JSON.parse(content))
+  } catch {
+    return { releases: [] }
+  }
+}
+
+function stringifyRuleSetOtaState(state: RuleSetOtaState): string {
+  return `${JSON.stringify({ version: 1, ...state }, null, 2)}\n`
+}
+
+/**
+ * Rules file a track is served from storage files: alpha gets the working file; stable gets the stable release,
+ * or the working file before the first publish.
+ * @param files Storage files
+ * @param stage Client track
+ * @returns Content, hash and release number, or null when there are no rules
+ */
+export function resolveServedRuleSet(files: Record<string, { content: string }>, stage: OtaReleaseStage): ServedRuleSet | null {
+  const { stableVersion } = parseRuleSetOtaState(files[RULE_SET_RELEASES_FILE]?.content)
+  if (stage === 'stable' && stableVersion) {
+    const content = files[buildReleaseSnapshotPath(ENTRY_SCRIPT_RULES_FILE, String(stableVersion))]?.content
+    if (content !== undefined) {
+      return { content, hash: hashRuleSetContent(content), version: stableVersion }
+    }
+  }
+  const content = files[ENTRY_SCRIPT_RULES_FILE]?.content
+  return content === undefined ? null : { content, hash: hashRuleSetContent(content) }
+}
+
+/**
+ * Content of one published rule set release.
+ * @param files Storage files
+ * @param version Release number
+ * @returns Rules file content, or null when the release does not exist
+ */
+export function readRuleSetReleaseContent(files: Record<string, { content: string }>, version: number): string | null {
+  return files[buildReleaseSnapshotPath(ENTRY_SCRIPT_RULES_FILE, String(version))]?.content ?? null
+}
+
+/**
+ * Build the manifest `ruleSet` block.
+ * @param baseUrl Current request base URL
+ * @param scriptKey Tampermonkey script key
+ * @param files Storage files
+ * @returns Stable (and differing alpha) rule set, or undefined when there are no rules
+ */
+export function buildRuntimeRuleSet(baseUrl: string, scriptKey: string, files: Record<string, { content: string }>): RuntimeRuleSet | undefined {
+  const stable = resolveServedRuleSet(files, 'stable')
+  if (!stable) {
+    return undefined
+  }
+  const ruleUrl = `${baseUrl}/api/tampermonkey/${encodeURIComponent(scriptKey)}/rule`
+  const alpha = resolveServedRuleSet(files, 'alpha')
+  return {
+    url: stable.version ? `${ruleUrl}?version=${stable.version}` : ruleUrl,
+    hash: stable.hash,
+    ...(stable.version ? { version: stable.version } : {}),
+    ...(alpha && alpha.hash !== stable.hash ? { alpha: { url: `${ruleUrl}?track=alpha`, hash: alpha.hash } } : {}),
+  }
+}
+
+/**
+ * Release state of the URL rule set.
+ * @returns Stable release, releases newest first and whether the working rules are unpublished
+ */
+export async function getRuleSetReleaseStatus(): Promise<RuleSetReleaseStatus> {
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const state = parseRuleSetOtaState(snapshot.files[RULE_SET_RELEASES_FILE]?.content)
+  const working = snapshot.files[ENTRY_SCRIPT_RULES_FILE]?.content
+  const workingHash = working === undefined ? null : hashRuleSetContent(working)
+  const stableHash = state.releases.find((release) => release.version === state.stableVersion)?.hash
+  return {
+    stableVersion: state.stableVersion ?? null,
+    releases: [...state.releases].reverse(),
+    workingHash,
+    unpublishedChanges: Boolean(state.stableVersion) && workingHash !== stableHash,
+  }
+}
+
+/**
+ * Publish the working rules as the next release and serve it to stable clients.
+ * From then on, rule edits only reach alpha clients until they are published.
+ * @returns Updated release state
+ */
+export async function publishRuleSet(): Promise<RuleSetReleaseStatus> {
+  const storage = getScriptStorage()
+  const snapshot = await storage.fetchSnapshot()
+  const content = snapshot.files[ENTRY_SCRIPT_RULES_FILE]?.content
+  if (content === undefined) {
+    throw new Error(`${ENTRY_SCRIPT_RULES_FILE} does not exist`)
+  }
+  try {
+    if (!Array.isArray(JSON.parse(content))) {
+      throw new Error('not an array')
+    }
+  } catch {
+    throw new Error(`${ENTRY_SCRIPT_RULES_FILE} is not a JSON array of rules`)
+  }
+
+  const state = parseRuleSetOtaState(snapshot.files[RULE_SET_RELEASES_FILE]?.content)
+  const hash = hashRuleSetContent(content)
+  const stable = state.releases.find((release) => release.version === state.stableVersion)
+  if (stable?.hash === hash) {
+    throw new Error(`Rule set ${stable.version} already matches the working rules`)
+  }
+
+  const version = (state.releases[state.releases.length - 1]?.version ?? 0) + 1
+  const actor = getActor()
+  const release: RuleSetRelease = { version, hash, publishedAt: Date.now(), ...(actor ? { publishedBy: actor } : {}) }
+  const next: RuleSetOtaState = { stableVersion: version, releases: [...state.releases, release] }
+  await storage.writeFiles([
+    { file: buildReleaseSnapshotPath(ENTRY_SCRIPT_RULES_FILE, String(version)), content },
+    { file: RULE_SET_RELEASES_FILE, content: stringifyRuleSetOtaState(next) },
+  ])
+  return getRuleSetReleaseStatus()
+}
+
+/**
+ * Serve an earlier release to stable clients again. The working rules are left untouched.
+ * @param version Release to restore; defaults to the release published before the current stable one
+ * @returns Updated release state
+ */
+export async function rollbackRuleSet(version?: number): Promise<RuleSetReleaseStatus> {
+  const storage = getScriptStorage()
+  const snapshot = await storage.fetchSnapshot()
+  const state = parseRuleSetOtaState(snapshot.files[RULE_SET_RELEASES_FILE]?.content)
+  if (!state.stableVersion) {
+    throw new Error('Rules have not been published yet')
+  }
+
+  const target =
+    version === undefined ? state.releases.filter((release) => release.version < state.stableVersion!).pop() : state.releases.find((release) => release.version === version)
+  if (!target) {
+    throw new Error(version === undefined ? `No release before rule set ${state.stableVersion} to roll back to` : `Rule set ${version} does not exist`)
+  }
+  if (target.version === state.stableVersion) {
+    throw new Error(`Rule set ${target.version} is already stable`)
+  }
+  if (readRuleSetReleaseContent(snapshot.files, target.version) === null) {
+    throw new Error(`Rule set ${target.version} snapshot is missing`)
+  }
+
+  await storage.writeFiles([{ file: RULE_SET_RELEASES_FILE, content: stringifyRuleSetOtaState({ ...state, stableVersion: target.version }) }])
+  return getRuleSetReleaseStatus()
+}
@@ -0,0 +1,431 @@
+import { createHash } from 'crypto'
+import { lookup } from 'dns/promises'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import { Readable } from 'stream'
+
+import { ASSETS_PREFIX, isManagedScriptFilename, SCRIPT_ASSETS_FILE } from '@/constants/file'
+import { SCRIPT_STORAGE_FILE_MAX_BYTES, type ScriptStorageFile, type ScriptStorageWrite } from '@/services/storage'
+
+/** Largest stored `@require` / `@resource` content, measured after base64 encoding for binary resources. */
+export const SCRIPT_ASSET_MAX_BYTES = SCRIPT_STORAGE_FILE_MAX_BYTES
+
+/** Per-URL fetch timeout when pinning assets. */
+const SCRIPT_ASSET_FETCH_TIMEOUT_MS = 15_000
+
+/** Redirects followed when pinning an asset; every hop's host is checked again. */
+const SCRIPT_ASSET_MAX_REDIRECTS = 5
+
+/**
+ * Addresses an asset host may not resolve to: the server fetches assets and republishes them, so these would let a
+ * script author read loopback, private-network and cloud metadata (link-local) endpoints.
+ */
+const NON_PUBLIC_ADDRESSES = (() => {
+  const list = new BlockList()
+  const ipv4: Array<[string, number]> = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+  ]
+  const ipv6: Array<[string, number]> = [
+    ['::', 127],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ]
+  ipv4.forEach(([network, prefix]) => list.addSubnet(network, prefix, 'ipv4'))
+  ipv6.forEach(([network, prefix]) => list.addSubnet(network, prefix, 'ipv6'))
+  return list
+})()
+
+/** Hash algorithms accepted in `#sha256=` / `#sha384-` URL fragments (Tampermonkey SRI hints). */
+const SRI_ALGORITHMS = ['sha256', 'sha384', 'sha512'] as const
+
+type SriAlgorithm = (typeof SRI_ALGORITHMS)[number]
+
+/** One `@require` / `@resource` header reference */
+export interface ScriptAssetRef {
+  kind: 'require' | 'resource'
+  /** Fetch URL without the integrity fragment */
+  url: string
+  /** `@resource` name */
+  name?: string
+  /** Expected digest from the URL fragment, e.g. `sha256=<hex>` or `sha384-<base64>` */
+  integrity?: string
+}
+
+/** Pinned asset metadata (content lives in `assets.{sha1}`) */
+export interface ScriptAssetEntry {
+  /** SRI string (`sha384-<base64>`) of the pinned bytes */
+  integrity: string
+  /** SHA-1 hex of the bytes; content address for storage and `/static/.../assets/` URLs */
+  sha1: string
+  byteLength: number
+  contentType: string
+  /** Storage encoding of the content file */
+  encoding: 'utf8' | 'base64'
+  /** Pin time (epoch ms) */
+  fetchedAt: number
+}
+
+/** Persisted asset lock (`SCRIPT_ASSETS_FILE`) keyed by fetch URL */
+export interface ScriptAssetLock {
+  version: 1
+  assets: Record<string, ScriptAssetEntry>
+}
+
+/** Compile-time view of pinned assets */
+export interface ScriptAssetResolver {
+  /** Library source for a `@require` URL, or null when not pinned */
+  require(url: string): string | null
+  /** Pinned `@resource`: entry plus UTF-8 text (null for binary) */
+  resource(url: string): { entry: ScriptAssetEntry; text: string | null } | null
+}
+
+/**
+ * Split an asset URL from its Tampermonkey integrity fragment.
+ * @param raw Header value, e.g. `https://cdn/lib.js#sha256=abc…`
+ * @returns URL without a recognized fragment and the expected digest
+ */
+export function parseScriptAssetUrl(raw: string): { url: string; integrity?: string } {
+  const hashIndex = raw.indexOf('#')
+  if (hashIndex === -1) {
+    return { url: raw }
+  }
+
+  const fragment = raw.slice(hashIndex + 1)
+  const integrity = fragment
+    .split(/[,;]/)
+    .map((part) => part.trim())
+    .find((part) => SRI_ALGORITHMS.some((algorithm) => part.startsWith(`${algorithm}=`) || part.startsWith(`${algorithm}-`)))
+  return integrity ? { url: raw.slice(0, hashIndex), integrity } : { url: raw }
+}
+
+/**
+ * Read `@require` and `@resource` references from a userscript header.
+ * @param content Script source
+ * @returns References in header order
+ */
+export function parseScriptAssetRefs(content: string): ScriptAssetRef[] {
+  const open = content.indexOf('// ==UserScript==')
+  const close = content.indexOf('// ==/UserScript==')
+  if (open === -1 || close === -1 || close < open) {
+    return []
+  }
+
+  const refs: ScriptAssetRef[] = []
+  for (const line of content.slice(open, close).split('\n')) {
+    const matched = line.match(/^\s*\/\/\s*@(require|resource)\s+(.+)$/)
+    if (!matched) continue
+
+    const value = matched[2].trim()
+    if (matched[1] === 'require') {
+      refs.push({ kind: 'require', ...parseScriptAssetUrl(value) })
+      continue
+    }
+
+    const [name, url] = value.split(/\s+/, 2)
+    if (name && url) {
+      refs.push({ kind: 'resource', name, ...parseScriptAssetUrl(url) })
+    }
+  }
+  return refs
+}
+
+/**
+ * Parse the persisted asset lock, tolerating a missing or corrupt file.
+ * @param content Raw `SCRIPT_ASSETS_FILE` content
+ */
+export function parseScriptAssetLock(content?: string): ScriptAssetLock {
+  if (!content) {
+    return { version: 1, assets: {} }
+  }
+
+  try {
+    const parsed = JSON.parse(content) as Partial<ScriptAssetLock>
+    const assets: Record<string, ScriptAssetEntry> = {}
+    if (parsed.assets && typeof parsed.assets === 'object') {
+      for (const [url, entry] of Object.entries(parsed.assets)) {
+        if (entry && typeof entry.sha1 === 'string' && typeof entry.integrity === 'string') {
+          assets[url] = entry
+        }
+      }
+    }
+    return { version: 1, assets }
+  } catch {
+    return { version: 1, assets: {} }
+  }
+}
+
+/**
+ * Storage file holding the bytes of one pinned asset.
+ * @param sha1 SHA-1 hex of the asset bytes
+ */
+export function buildScriptAssetStoragePath(sha1: string): string {
+  return `${ASSETS_PREFIX}${sha1}`
+}
+
+function isTextContentType(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase()
+  return type.startsWith('text/') || /^application\/(?:(?:x-)?javascript|ecmascript|json|xml)$/.test(type) || type.endsWith('+json') || type.endsWith('+xml')
+}
+
+function digest(algorithm: SriAlgorithm | 'sha1', bytes: Buffer, encoding: 'hex' | 'base64'): string {
+  return createHash(algorithm).update(bytes).digest(encoding)
+}
+
+/**
+ * Check bytes against a `sha256=<hex>` / `sha384-<base64>` expectation.
+ * @param bytes Fetched bytes
+ * @param integrity Expected digest
+ */
+export function verifyScriptAssetIntegrity(bytes: Buffer, integrity: string): boolean {
+  const matched = integrity.match(/^(sha256|sha384|sha512)([=-])(.+)$/)
+  if (!matched) {
+    return false
+  }
+  const [, algorithm, separator, expected] = matched
+  if (separator === '=') {
+    return digest(algorithm as SriAlgorithm, bytes, 'hex') === expected.toLowerCase()
+  }
+  return digest(algorithm as SriAlgorithm, bytes, 'base64') === expected
+}
+
+/** Statuses a `Response` may not carry a body for */
+const NULL_BODY_STATUSES = new Set([204, 205, 304])
+
+/**
+ * Resolve a host once and reject it when any address is non-public.
+ * @param url Asset URL or redirect target
+ * @returns DNS lookup answering only with the checked addresses, so the connection cannot be rebound to another one
+ */
+async function resolvePublicHost(url: URL): Promise<LookupFunction> {
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1')
+  const family = isIP(host)
+  const addresses = family ? [{ address: host, family }] : await lookup(host, { all: true, verbatim: true })
+  const blocked = addresses.find(({ address, family }) => NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))
+  if (blocked) {
+    throw new Error(`Refusing to fetch ${url.href}: ${url.hostname} resolves to non-public address ${blocked.address}`)
+  }
+
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  }
+}
+
+/**
+ * One GET without following redirects, connecting only to the addresses `lookup` returns.
+ * (`fetch` resolves the host again on its own, which would reopen the DNS rebinding gap.)
+ * @param url Request URL
+ * @param lookup Pinned lookup from {@link resolvePublicHost}
+ * @param signal Abort signal for the request and its body
+ */
+function requestPinned(url: URL, lookup: LookupFunction, signal: AbortSignal): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest
+    const request = send(url, { lookup, signal, headers: { accept: '*/*', 'accept-encoding': 'identity' } }, (message) => {
+      const headers = new Headers()
+      for (const [name, value] of Object.entries(message.headers)) {
+        for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+          headers.append(name, item)
+        }
+      }
+
+      const status = message.statusCode ?? 502
+      let body: ReadableStream<Uint8Array> | null = null
+      if (NULL_BODY_STATUSES.has(status)) {
+        message.resume()
+      } else {
+        body = Readable.toWeb(message) as unknown as ReadableStream<Uint8Array>
+      }
+      resolve(new Response(body, { status, statusText: message.statusMessage, headers }))
+    })
+    request.on('error', reject)
+    request.end()
+  })
+}
+
+/**
+ * Fetch an http(s) URL, following redirects by hand so every hop goes through {@link resolvePublicHost} and connects
+ * to the address that was checked.
+ * @param url Asset URL
+ * @param timeoutMs Limit for the whole redirect chain
+ * @returns Final non-redirect response
+ */
+export async function fetchPublicUrl(url: URL, timeoutMs = SCRIPT_ASSET_FETCH_TIMEOUT_MS): Promise<Response> {
+  const signal = AbortSignal.timeout(timeoutMs)
+  for (let hop = 0; hop <= SCRIPT_ASSET_MAX_REDIRECTS; hop++) {
+    const response = await requestPinned(url, await resolvePublicHost(url), signal)
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response
+    }
+    await response.body?.cancel()
+
+    const next = new URL(location, url)
+    if (next.protocol !== 'http:' && next.protocol !== 'https:') {
+      throw new Error(`Refusing to follow redirect from ${url.href} to ${next.href}; only http(s) can be pinned`)
+    }
+    url = next
+  }
+  throw new Error(`Too many redirects fetching ${url.href}`)
+}
+
+/**
+ * Fetch one asset, enforce the size limit and the optional integrity hint, and build its lock entry.
+ * @param ref Header reference
+ * @returns Lock entry plus storage content (base64 for binary `@resource` types; `@require` is always text)
+ */
+export async function fetchScriptAsset(ref: Pick<ScriptAssetRef, 'kind' | 'url' | 'integrity'>): Promise<{ entry: ScriptAssetEntry; content: string }> {
+  if (!/^https?:\/\//i.test(ref.url)) {
+    throw new Error(`Unsupported asset URL ${ref.url}; only http(s) can be pinned`)
+  }
+
+  const response = await fetchPublicUrl(new URL(ref.url))
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${ref.url}: ${response.status} ${response.statusText}`)
+  }
+
+  const bytes = Buffer.from(await response.arrayBuffer())
+  if (ref.integrity && !verifyScriptAssetIntegrity(bytes, ref.integrity)) {
+    throw new Error(`Integrity check failed for ${ref.url} (expected ${ref.integrity})`)
+  }
+
+  const contentType = response.headers.get('content-type')?.trim() || 'application/octet-stream'
+  const encoding = ref.kind === 'require' || isTextContentType(contentType) ? 'utf8' : 'base64'
+  // The limit applies to what is stored: base64 grows binary resources by a third.
+  const content = bytes.toString(encoding)
+  const storedBytes = Buffer.byteLength(content, 'utf8')
+  if (storedBytes > SCRIPT_ASSET_MAX_BYTES) {
+    throw new Error(`${ref.url} is ${storedBytes} bytes as stored (${encoding}); assets are limited to ${SCRIPT_ASSET_MAX_BYTES}`)
+  }
+
+  return {
+    entry: {
+      integrity: `sha384-${digest('sha384', bytes, 'base64')}`,
+      sha1: digest('sha1', bytes, 'hex'),
+      byteLength: bytes.byteLength,
+      contentType,
+      encoding,
+      fetchedAt: Date.now(),
+    },
+    content,
+  }
+}
+
+/**
+ * Compute the storage writes that pin every `@require` / `@resource` of the scripts after a batch:
+ * new URLs are fetched once and locked; already locked URLs are reused as-is; assets no longer
+ * referenced by any script are dropped.
+ * @param files Storage files before the batch is applied
+ * @param writes Batch about to be written (null content deletes)
+ * @returns Writes to append to the batch (empty when nothing changed)
+ */
+export async function buildScriptAssetWrites(files: Record<string, ScriptStorageFile>, writes: ScriptStorageWrite[]): Promise<ScriptStorageWrite[]> {
+  const nextContent = new Map(Object.entries(files).map(([file, { content }]) => [file, content as string | null]))
+  for (const { file, content } of writes) {
+    nextContent.set(file, content)
+  }
+
+  const refs = new Map<string, ScriptAssetRef>()
+  for (const [file, content] of nextContent) {
+    if (content === null || !isManagedScriptFilename(file)) {
+      continue
+    }
+    for (const ref of parseScriptAssetRefs(content)) {
+      refs.set(ref.url, refs.get(ref.url) ?? ref)
+    }
+  }
+
+  const current = parseScriptAssetLock(files[SCRIPT_ASSETS_FILE]?.content)
+  if (refs.size === 0 && Object.keys(current.assets).length === 0) {
+    return []
+  }
+
+  const next: ScriptAssetLock = { version: 1, assets: {} }
+  const fetched: ScriptStorageWrite[] = []
+  for (const [url, ref] of [...refs].sort(([a], [b]) => a.localeCompare(b))) {
+    const locked = current.assets[url]
+    const stored = locked ? files[buildScriptAssetStoragePath(locked.sha1)] : undefined
+    // A changed integrity hint on a pinned URL forces a re-fetch.
+    if (locked && stored && (!ref.integrity || verifyScriptAssetIntegrity(Buffer.from(stored.content, locked.encoding), ref.integrity))) {
+      next.assets[url] = locked
+      continue
+    }
+
+    const { entry, content } = await fetchScriptAsset(ref)
+    next.assets[url] = entry
+    fetched.push({ file: buildScriptAssetStoragePath(entry.sha1), content })
+  }
+
+  const keptHashes = new Set(Object.values(next.assets).map((entry) => entry.sha1))
+  const pruned = new Set<string>()
+  for (const entry of Object.values(current.assets)) {
+    const path = buildScriptAssetStoragePath(entry.sha1)
+    if (!keptHashes.has(entry.sha1) && files[path]) {
+      pruned.add(path)
+    }
+  }
+
+  const result: ScriptStorageWrite[] = [...[...pruned].map((file) => ({ file, content: null })), ...fetched]
+  const serialized = `${JSON.stringify(next, null, 2)}\n`
+  if (result.length === 0 && files[SCRIPT_ASSETS_FILE]?.content === serialized) {
+    return []
+  }
+  result.push({ file: SCRIPT_ASSETS_FILE, content: serialized })
+  return result
+}
+
+/**
+ * Resolve pinned assets from a storage snapshot for the compiler.
+ * @param files Storage files
+ */
+export function createScriptAssetResolver(files: Record<string, { content: string }>): ScriptAssetResolver {
+  const lock = parseScriptAssetLock(files[SCRIPT_ASSETS_FILE]?.content)
+
+  function load(url: string): { entry: ScriptAssetEntry; content: string } | null {
+    const entry = lock.assets[parseScriptAssetUrl(url).url]
+    const stored = entry ? files[buildScriptAssetStoragePath(entry.sha1)] : undefined
+    return entry && stored ? { entry, content: stored.content } : null
+  }
+
+  return {
+    require(url) {
+      const asset = load(url)
+      return asset && asset.entry.encoding === 'utf8' ? asset.content : null
+    },
+    resource(url) {
+      const asset = load(url)
+      return asset ? { entry: asset.entry, text: asset.entry.encoding === 'utf8' ? asset.content : null } : null
+    },
+  }
+}
+
+/**
+ * Find a pinned asset by its content address.
+ * @param files Storage files
+ * @param sha1 SHA-1 hex of the asset bytes
+ * @returns Lock entry and decoded bytes, or null when unknown
+ */
+export function readPinnedScriptAsset(files: Record<string, { content: string }>, sha1: string): { entry: ScriptAssetEntry; bytes: Buffer } | null {
+  const lock = parseScriptAssetLock(files[SCRIPT_ASSETS_FILE]?.content)
+  const entry = Object.values(lock.assets).find((asset) => asset.sha1 === sha1)
+  const stored = files[buildScriptAssetStoragePath(sha1)]
+  if (!entry || !stored) {
+    return null
+  }
+  const bytes = Buffer.from(stored.content, entry.encoding)
+  return digest('sha1', bytes, 'hex') === sha1 ? { entry, bytes } : null
+}
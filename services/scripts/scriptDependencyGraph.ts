@@ -0,0 +1,218 @@
+import { listScriptModuleImports, resolveScriptModuleSpecifier } from './scriptModules'
+
+/** Script fields the dependency graph reads (a script index entry or a parsed unsaved header). */
+export interface ScriptDependencyGraphInput {
+  filename: string
+  name?: string
+  runAt?: string
+  match?: string[]
+  include?: string[]
+  exclude?: string[]
+  excludeMatch?: string[]
+  noframes?: boolean
+  dependsOn?: string[]
+}
+
+/** One script in the graph with its URL coverage */
+export interface ScriptDependencyGraphNode {
+  file: string
+  name?: string
+  runAt?: string
+  match: string[]
+  include?: string[]
+  exclude?: string[]
+  excludeMatch?: string[]
+  noframes?: boolean
+}
+
+/**
+ * `dependsOn`: `@depends-on` load order (the dependency module runs first).
+ * `import`: bundled into the importing module; shown for context, never affects load order.
+ */
+export type ScriptDependencyEdgeKind = 'dependsOn' | 'import'
+
+export interface ScriptDependencyEdge {
+  from: string
+  to: string
+  kind: ScriptDependencyEdgeKind
+  /** `dependsOn` edge inside a cycle; ignored for load order */
+  cyclic?: boolean
+}
+
+/** A `@depends-on` problem recorded in the script index */
+export interface ScriptDependencyIssue {
+  /** Script declaring the dependency */
+  file: string
+  kind: 'missing' | 'cycle'
+  /** Missing dependency filename */
+  dependency?: string
+  /** Files of the cycle in dependency order, first file repeated at the end */
+  cycle?: string[]
+  message: string
+}
+
+export interface ScriptDependencyGraph {
+  nodes: ScriptDependencyGraphNode[]
+  edges: ScriptDependencyEdge[]
+  /** All files, dependencies before dependents (ties by filename); edges inside a cycle are ignored */
+  order: string[]
+  issues: ScriptDependencyIssue[]
+}
+
+/**
+ * Groups of files that depend on each other through `@depends-on` (strongly connected components with a cycle).
+ */
+function findDependencyCycleGroups(dependsOn: Map<string, string[]>): string[][] {
+  const groups: string[][] = []
+  const indexOf = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+
+  const connect = (file: string) => {
+    indexOf.set(file, indexOf.size)
+    lowLink.set(file, indexOf.get(file)!)
+    stack.push(file)
+    onStack.add(file)
+    for (const dep of dependsOn.get(file) ?? []) {
+      if (!indexOf.has(dep)) {
+        connect(dep)
+        lowLink.set(file, Math.min(lowLink.get(file)!, lowLink.get(dep)!))
+      } else if (onStack.has(dep)) {
+        lowLink.set(file, Math.min(lowLink.get(file)!, indexOf.get(dep)!))
+      }
+    }
+    if (lowLink.get(file) === indexOf.get(file)) {
+      const group: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        group.push(member)
+      } while (member !== file)
+      if (group.length > 1 || dependsOn.get(file)?.includes(file)) {
+        groups.push(group.sort((a, b) => a.localeCompare(b)))
+      }
+    }
+  }
+
+  for (const file of [...dependsOn.keys()].sort((a, b) => a.localeCompare(b))) {
+    if (!indexOf.has(file)) {
+      connect(file)
+    }
+  }
+  return groups.sort((a, b) => a[0].localeCompare(b[0]))
+}
+
+/**
+ * Shortest dependency path from the group's first file back to itself, e.g. `[a, b, a]`.
+ */
+function traceDependencyCycle(group: string[], dependsOn: Map<string, string[]>): string[] {
+  const [start] = group
+  const members = new Set(group)
+  const previous = new Map<string, string>()
+  const queue = [start]
+  while (queue.length > 0) {
+    const file = queue.shift()!
+    for (const dep of dependsOn.get(file) ?? []) {
+      if (dep === start) {
+        const path = [file]
+        for (let step = file; step !== start; step = previous.get(step)!) {
+          path.unshift(previous.get(step)!)
+        }
+        return [...path, start]
+      }
+      if (members.has(dep) && !previous.has(dep)) {
+        previous.set(dep, file)
+        queue.push(dep)
+      }
+    }
+  }
+  return [...group, start]
+}
+
+/**
+ * Build the script dependency graph: `@depends-on` load-order edges, bundled import edges, a topological
+ * load order, and missing / cyclic `@depends-on` issues.
+ * @param scripts Script index entries (or parsed headers of unsaved buffers)
+ * @param sources Script sources by filename; when given, import edges are included
+ */
+export function buildScriptDependencyGraph(scripts: readonly ScriptDependencyGraphInput[], sources: Record<string, string> = {}): ScriptDependencyGraph {
+  const files = new Set(scripts.map((script) => script.filename))
+  const nodes: ScriptDependencyGraphNode[] = []
+  const edges: ScriptDependencyEdge[] = []
+  const issues: ScriptDependencyIssue[] = []
+  const dependsOn = new Map<string, string[]>()
+
+  for (const script of [...scripts].sort((a, b) => a.filename.localeCompare(b.filename))) {
+    nodes.push({
+      file: script.filename,
+      ...(script.name ? { name: script.name } : {}),
+      ...(script.runAt ? { runAt: script.runAt } : {}),
+      match: script.match ?? [],
+      ...(script.include?.length ? { include: script.include } : {}),
+      ...(script.exclude?.length ? { exclude: script.exclude } : {}),
+      ...(script.excludeMatch?.length ? { excludeMatch: script.excludeMatch } : {}),
+      ...(script.noframes ? { noframes: true } : {}),
+    })
+
+    const deps: string[] = []
+    for (const dep of new Set(script.dependsOn ?? [])) {
+      if (!files.has(dep)) {
+        issues.push({ file: script.filename, kind: 'missing', dependency: dep, message: `@depends-on ${dep}: no managed script with that name` })
+        continue
+      }
+      deps.push(dep)
+      edges.push({ from: script.filename, to: dep, kind: 'dependsOn' })
+    }
+    dependsOn.set(script.filename, deps)
+
+    const content = sources[script.filename]
+    if (content) {
+      const imported = new Set<string>()
+      for (const specifier of listScriptModuleImports(content)) {
+        const target = resolveScriptModuleSpecifier(specifier, sources)
+        if (target && target !== script.filename && files.has(target) && !imported.has(target)) {
+          imported.add(target)
+          edges.push({ from: script.filename, to: target, kind: 'import' })
+        }
+      }
+    }
+  }
+
+  const groups = findDependencyCycleGroups(dependsOn)
+  for (const group of groups) {
+    const cycle = traceDependencyCycle(group, dependsOn)
+    issues.push({ file: cycle[0], kind: 'cycle', cycle, message: `Circular @depends-on: ${cycle.join(' → ')}` })
+  }
+
+  // Edges inside a cycle are ignored for load order; Kahn's algorithm then takes the smallest ready filename first.
+  const groupOf = new Map(groups.flatMap((group, index) => group.map((file) => [file, index] as const)))
+  const isCyclic = (file: string, dep: string) => groupOf.has(file) && groupOf.get(file) === groupOf.get(dep)
+  for (const edge of edges) {
+    if (edge.kind === 'dependsOn' && isCyclic(edge.from, edge.to)) {
+      edge.cyclic = true
+    }
+  }
+  const pending = new Map([...dependsOn].map(([file, deps]) => [file, deps.filter((dep) => !isCyclic(file, dep))]))
+  const order: string[] = []
+  while (pending.size > 0) {
+    const file = [...pending]
+      .filter(([, deps]) => deps.every((dep) => !pending.has(dep)))
+      .map(([ready]) => ready)
+      .sort((a, b) => a.localeCompare(b))[0]
+    pending.delete(file)
+    order.push(file)
+  }
+
+  return { nodes, edges, order, issues }
+}
+
+/**
+ * `@depends-on` files a module can safely wait for at runtime: declared, present, and not part of a cycle.
+ * @param graph Dependency graph
+ * @param file Script filename
+ */
+export function listLoadOrderDependencies(graph: ScriptDependencyGraph, file: string): string[] {
+  return graph.edges.filter((edge) => edge.kind === 'dependsOn' && edge.from === file && !edge.cyclic).map((edge) => edge.to)
+}
@@ -0,0 +1,21 @@
+export type ScriptDiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/** One validation finding with a 1-based source position */
+export interface ScriptDiagnostic {
+  /** File the position refers to */
+  file: string
+  line: number
+  column: number
+  severity: ScriptDiagnosticSeverity
+  /** `TS2353` for TypeScript diagnostics; `header` / `import` for MagickMonkey checks */
+  code: string
+  message: string
+}
+
+/**
+ * Render a diagnostic as `file (line:column): message`.
+ * @param diagnostic Structured diagnostic
+ */
+export function formatScriptDiagnostic(diagnostic: ScriptDiagnostic): string {
+  return `${diagnostic.file} (${diagnostic.line}:${diagnostic.column}): ${diagnostic.message}`
+}
@@ -2,6 +2,7 @@ import type { ScriptOtaPolicy } from '@shared/script-ota-policy'
 import { z } from 'zod'
 
 import { type Tool, tool } from '@/initializer/mcp/tool'
+import { assertScriptScope } from '@/services/auth/integrationAuth'
 import {
   batchPatchManagedScriptFiles,
   deleteManagedScriptFile,
@@ -11,16 +12,22 @@ import {
   listManagedScriptFiles,
   lockManagedScriptVersion,
   patchManagedScriptFile,
+  promoteManagedScriptRollout,
   publishManagedScriptStable,
   rebuildManagedScriptIndex,
   renameManagedScriptFile,
   replaceManagedScriptFile,
+  rollbackManagedScriptRollout,
   searchManagedScriptFiles,
+  setManagedScriptRolloutPercent,
   unlockManagedScriptVersion,
   updateManagedScriptIndexMetadata,
   upsertManagedScriptFile,
   validateManagedScriptFile,
 } from '@/services/scripts/gistScripts'
+import { diffManagedScriptRevision, getManagedScriptRevision, listManagedScriptRevisions, restoreManagedScriptRevision } from '@/services/scripts/scriptRevisions'
+import { getManagedScriptRolloutStatus } from '@/services/scripts/scriptRollouts'
+import { runScriptTests } from '@/services/scripts/scriptTests'
 
 /**
  * Build a compact runtime summary that tells AI callers which APIs exist at execution time.
@@ -80,6 +87,7 @@ function buildRuntimeSummary() {
       ],
       activationPolicy: [
         'Scripts can activate through header @match patterns or configured UI/API rules keyed by filename via matchRule(file).',
+        'Header @include (globs, .tld, /regex/) also activates; @exclude / @exclude-match veto header and rule activation; @noframes limits execution to the top frame.',
         'Ask whether activation should be fixed in the header, dynamic through rules, or both.',
         'Avoid broad header @match patterns when rule-based activation is the better fit.',
       ],
@@ -133,6 +141,7 @@ function buildRuntimeSummary() {
     gmeApis: {
       menu: ['GME_registerMenuCommand', 'GME_updateMenuCommand'],
       commandPalette: ['GME_registerCommandPaletteCommand', 'GME_openCommandPalette'],
+      settings: ['GME_getSettings'],
       nodeToolbar: ['GME_registerNodeToolbar', 'GME_registerNodeToolbarQuery', 'GME_unregisterNodeToolbar'],
       editorLib: ['GME_ensureEditorLib'],
       networkAndTooling: ['GME_fetch', 'GME_curl', 'GME_preview', 'GME_captureScreenshot'],
@@ -171,11 +180,25 @@ function buildRuntimeSummary() {
         stage: 'stable | alpha — which artifact track clients auto-subscribe to',
         autoUpgrade: 'When false, clients keep cached hash until manual update',
         lockedVersion: 'Fleet pin to releases.{file}@{version} snapshot',
+        rollout:
+          'Staged rollout: candidate version reaches `percent` of clients by stable client id; everyone else runs the previous release until it is promoted or rolled back, automatically from script telemetry or by hand',
       },
-      mcpTools: ['scripts_ota_publish_stable', 'scripts_ota_lock_version', 'scripts_ota_unlock_version'],
+      mcpTools: ['scripts_ota_publish_stable', 'scripts_ota_lock_version', 'scripts_ota_unlock_version', 'scripts_ota_rollout'],
       restEndpoint: 'POST /api/v1/scripts/{filename}/ota',
       docsSection: 'public/docs/scripts-ai-skill.md#ota-publish-policy-server-authoritative',
     },
+    revisionHistory: {
+      metadata: 'Every managed script write is recorded in magickmonkey.scripts.revisions.json with author, traceId and contentHash',
+      retention: 'Newest 30 revisions per file, stored with their content in the one revision log file; the oldest revisions across all files are dropped once it passes 768 KB',
+      mcpTools: ['scripts_revisions_list', 'scripts_revision_get', 'scripts_revision_diff', 'scripts_revision_restore'],
+      restEndpoints: [
+        'GET /api/v1/scripts/{filename}/revisions',
+        'GET /api/v1/scripts/{filename}/revisions/{id}',
+        'GET /api/v1/scripts/{filename}/revisions/{id}/diff?against=current|{id}',
+        'POST /api/v1/scripts/{filename}/revisions/{id}/restore',
+      ],
+      rollbackFlow: 'List revisions, diff the candidate against current, then restore; the restore is itself recorded and can be undone the same way.',
+    },
     globalApiGuidance: {
       preferredDefault: 'Prefer GME_* helpers when they match the task.',
       editorLib:
@@ -210,7 +233,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
     'scripts_list',
     'List MagickMonkey-managed userscript / Tampermonkey / Greasemonkey / browser user script .ts/.js files in the Gist (excludes generated entry and rules JSON).',
     z.object({}),
-    async () => listManagedScriptFiles()
+    async () => {
+      assertScriptScope('scripts:read')
+      return listManagedScriptFiles()
+    }
   )
 
   const search = tool(
@@ -224,7 +250,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       contextLines: z.number().int().min(0).max(5).optional(),
       maxResults: z.number().int().min(1).max(200).optional(),
     }),
-    async (options) => searchManagedScriptFiles(options)
+    async (options) => {
+      assertScriptScope('scripts:read')
+      return searchManagedScriptFiles(options)
+    }
   )
 
   const find = tool(
@@ -235,7 +264,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       caseSensitive: z.boolean().optional(),
       maxResults: z.number().int().min(1).max(100).optional(),
     }),
-    async (options) => findManagedScriptFiles(options)
+    async (options) => {
+      assertScriptScope('scripts:read')
+      return findManagedScriptFiles(options)
+    }
   )
 
   const snippet = tool(
@@ -246,7 +278,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       startLine: z.number().int().min(1),
       endLine: z.number().int().min(1),
     }),
-    async (options) => getManagedScriptSnippet(options)
+    async (options) => {
+      assertScriptScope('scripts:read')
+      return getManagedScriptSnippet(options)
+    }
   )
 
   const get = tool(
@@ -255,7 +290,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
     z.object({
       filename: z.string().min(1).describe('Exact file name in the Gist (e.g. my-script.ts)'),
     }),
-    async ({ filename }) => getManagedScriptFile(filename)
+    async ({ filename }) => {
+      assertScriptScope('scripts:read')
+      return getManagedScriptFile(filename)
+    }
   )
 
   const upsert = tool(
@@ -266,6 +304,7 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       content: z.string(),
     }),
     async ({ filename, content }) => {
+      assertScriptScope('scripts:write', filename)
       await upsertManagedScriptFile(filename, content)
       return { ok: true as const, filename }
     }
@@ -283,7 +322,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       expectedCount: z.number().int().min(0).optional(),
       validate: z.boolean().optional(),
     }),
-    async (options) => replaceManagedScriptFile(options)
+    async (options) => {
+      assertScriptScope('scripts:write', options.filename)
+      return replaceManagedScriptFile(options)
+    }
   )
 
   const patchOperationSchema = z.discriminatedUnion('type', [
@@ -315,7 +357,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       operations: z.array(patchOperationSchema).min(1),
       validate: z.boolean().optional(),
     }),
-    async (options) => patchManagedScriptFile(options)
+    async (options) => {
+      assertScriptScope('scripts:write', options.filename)
+      return patchManagedScriptFile(options)
+    }
   )
 
   const batchPatch = tool(
@@ -334,23 +379,48 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       validate: z.boolean().optional(),
       atomic: z.boolean().optional().describe('Reserved for compatibility; batch writes are prepared before the single Gist update.'),
     }),
-    async (options) => batchPatchManagedScriptFiles(options)
+    async (options) => {
+      for (const file of options.files) {
+        assertScriptScope('scripts:write', file.filename)
+      }
+      return batchPatchManagedScriptFiles(options)
+    }
   )
 
   const validate = tool(
     'scripts_validate',
-    'Validate one MagickMonkey-managed userscript file for Tampermonkey or browser user scripts without returning full content. Checks userscript header sanity.',
+    'Validate one MagickMonkey-managed userscript file for Tampermonkey or browser user scripts without returning full content. Checks userscript header sanity and, for scripts with imports, unresolvable imports, missing exports and import cycles. With typeCheck, also type-checks against the GM_* / GME_* typings, managed .d.ts files and imported scripts. details lists each diagnostic with line, column and severity.',
     z.object({
       filename: z.string().min(1),
+      typeCheck: z.boolean().optional().describe('Also report type errors (e.g. misspelled GME_waitFor options).'),
+    }),
+    async ({ filename, typeCheck }) => {
+      assertScriptScope('scripts:read')
+      return validateManagedScriptFile(filename, { typeCheck })
+    }
+  )
+
+  const testRun = tool(
+    'scripts_test_run',
+    'Run MagickMonkey script tests (`name.test.ts` next to `name.ts`) in a sandboxed fake page. Each test calls load(url, { html, values, responses }) to run the compiled userscript against a jsdom document with recorded GM_* / GME_* stubs, then asserts on page.document and page.gm (values, notifications, menuCommands, requests, logs). Pass sources to test unsaved content without writing it.',
+    z.object({
+      files: z.array(z.string().min(1)).optional().describe('Test files to run (default: every *.test.ts / *.test.js).'),
+      sources: z.record(z.string(), z.string()).optional().describe('Unsaved file contents (scripts or tests) taking precedence over stored files.'),
     }),
-    async ({ filename }) => validateManagedScriptFile(filename)
+    async ({ files, sources }) => {
+      assertScriptScope('scripts:write')
+      return runScriptTests({ files, sources })
+    }
   )
 
   const indexRebuild = tool(
     'scripts_index_rebuild',
-    'Rebuild and persist magickmonkey.scripts.index.json from current managed userscript files, preserving aliases/keywords already present in the index.',
+    'Rebuild and persist magickmonkey.scripts.index.json from current managed userscript files, preserving aliases/keywords already present in the index. Missing and circular @depends-on are returned in dependencyIssues.',
     z.object({}),
-    async () => rebuildManagedScriptIndex()
+    async () => {
+      assertScriptScope('scripts:write')
+      return rebuildManagedScriptIndex()
+    }
   )
 
   const scriptOtaPolicySchema = z.object({
@@ -369,6 +439,7 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       ota: scriptOtaPolicySchema.optional(),
     }),
     async (options) => {
+      assertScriptScope(options.ota == null ? 'scripts:write' : 'ota:publish', options.filename)
       const ota: Partial<ScriptOtaPolicy> | undefined =
         options.ota == null
           ? undefined
@@ -387,6 +458,7 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       filename: z.string().min(1),
     }),
     async ({ filename }) => {
+      assertScriptScope('scripts:write', filename)
       await deleteManagedScriptFile(filename)
       return { ok: true as const, filename }
     }
@@ -400,6 +472,8 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       toFilename: z.string().min(1).describe('New managed script file name in the Gist (e.g. hello.ts)'),
     }),
     async ({ fromFilename, toFilename }) => {
+      assertScriptScope('scripts:write', fromFilename)
+      assertScriptScope('scripts:write', toFilename)
       await renameManagedScriptFile(fromFilename, toFilename)
       return { ok: true as const, fromFilename, toFilename }
     }
@@ -409,17 +483,53 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
     'scripts_runtime_summary',
     'Return routing hints and runtime/preset capability summary for MagickMonkey-managed userscript authoring: usage boundaries, GM_*/GME_* (including GME_registerWebMcpTool / page WebMCP), integrationPaths (HTTP MCP vs page WebMCP vs extension Agent), OTA publish policy tools, constants, and authoring constraints. Call before generating script content.',
     z.object({}),
-    async () => buildRuntimeSummary()
+    async () => {
+      assertScriptScope('scripts:read')
+      return buildRuntimeSummary()
+    }
   )
 
   const otaPublishStable = tool(
     'scripts_ota_publish_stable',
-    'Publish a managed userscript to stable: write releases.{file}@{version} snapshot and set OTA policy stage=stable with autoUpgrade=true. Requires valid @version in the script header.',
+    'Publish a managed userscript to stable: write releases.{file}@{version} snapshot and set OTA policy stage=stable with autoUpgrade=true. Requires valid @version in the script header. With rollout, only rollout.percent of clients apply the new version while the rest run the previous release; the rollout is promoted or rolled back automatically from script telemetry of the cohort.',
     z.object({
       filename: z.string().min(1).describe('Managed script filename (e.g. my-script.ts)'),
+      rollout: z
+        .object({
+          percent: z.number().int().min(1).max(99).describe('Share of clients that receive the new version first'),
+          failureThreshold: z.number().gt(0).max(1).optional().describe('Failure rate that rolls back automatically (default 0.05)'),
+          minSamples: z.number().int().min(1).optional().describe('Cohort clients in script telemetry before promotion or rollback (default 20)'),
+          autoPromote: z.boolean().optional().describe('Promote automatically when healthy (default true)'),
+        })
+        .optional(),
     }),
-    async ({ filename }) => {
-      const script = await publishManagedScriptStable(filename)
+    async ({ filename, rollout }) => {
+      assertScriptScope('ota:publish', filename)
+      const script = await publishManagedScriptStable(filename, { rollout })
+      return { ok: true as const, filename, script }
+    }
+  )
+
+  const otaRollout = tool(
+    'scripts_ota_rollout',
+    'Inspect or steer the staged rollout of a managed userscript: status (rollout and its success/failure clients in script telemetry), percent (change the share of clients), promote (release to everyone), rollback (serve the previous release again).',
+    z.object({
+      filename: z.string().min(1),
+      action: z.enum(['status', 'percent', 'promote', 'rollback']),
+      percent: z.number().int().min(1).max(99).optional().describe('Required for action=percent'),
+    }),
+    async ({ filename, action, percent }) => {
+      if (action === 'status') {
+        assertScriptScope('scripts:read')
+        return getManagedScriptRolloutStatus(filename)
+      }
+      assertScriptScope('ota:publish', filename)
+      const script =
+        action === 'percent'
+          ? await setManagedScriptRolloutPercent(filename, percent ?? NaN)
+          : action === 'promote'
+            ? await promoteManagedScriptRollout(filename)
+            : await rollbackManagedScriptRollout(filename)
       return { ok: true as const, filename, script }
     }
   )
@@ -432,6 +542,7 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       version: z.string().min(1).optional().describe('Explicit semver; defaults to @version from the script header'),
     }),
     async ({ filename, version }) => {
+      assertScriptScope('ota:publish', filename)
       const script = await lockManagedScriptVersion(filename, version)
       return { ok: true as const, filename, script }
     }
@@ -444,11 +555,68 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
       filename: z.string().min(1),
     }),
     async ({ filename }) => {
+      assertScriptScope('ota:publish', filename)
       const script = await unlockManagedScriptVersion(filename)
       return { ok: true as const, filename, script }
     }
   )
 
+  const revisionsList = tool(
+    'scripts_revisions_list',
+    'List recorded revisions of a managed userscript (newest first): id, action, author, traceId, contentHash, createdAt. No content.',
+    z.object({
+      filename: z.string().min(1),
+    }),
+    async ({ filename }) => {
+      assertScriptScope('scripts:read')
+      return listManagedScriptRevisions(filename)
+    }
+  )
+
+  const revisionGet = tool(
+    'scripts_revision_get',
+    'Read one recorded revision of a managed userscript including its full content (null for delete revisions). Prefer scripts_revision_diff to save tokens.',
+    z.object({
+      filename: z.string().min(1),
+      id: z.number().int().positive().describe('Revision id from scripts_revisions_list'),
+    }),
+    async ({ filename, id }) => {
+      assertScriptScope('scripts:read')
+      return getManagedScriptRevision(filename, id)
+    }
+  )
+
+  const revisionDiff = tool(
+    'scripts_revision_diff',
+    'Unified line diff from a recorded revision to another revision or the current content of a managed userscript.',
+    z.object({
+      filename: z.string().min(1),
+      id: z.number().int().positive().describe('Revision id (old side)'),
+      against: z
+        .union([z.literal('current'), z.number().int().positive()])
+        .optional()
+        .describe('Revision id or "current" (default)'),
+    }),
+    async ({ filename, id, against }) => {
+      assertScriptScope('scripts:read')
+      return diffManagedScriptRevision(filename, id, against ?? 'current')
+    }
+  )
+
+  const revisionRestore = tool(
+    'scripts_revision_restore',
+    'Roll a managed userscript back to a recorded revision. The rollback is saved as a new restore revision, so it can itself be undone.',
+    z.object({
+      filename: z.string().min(1),
+      id: z.number().int().positive().describe('Revision id to restore'),
+    }),
+    async ({ filename, id }) => {
+      assertScriptScope('scripts:write', filename)
+      const result = await restoreManagedScriptRevision(filename, id)
+      return { ok: true as const, ...result }
+    }
+  )
+
   return new Map([
     [list.name, list],
     [search.name, search],
@@ -460,6 +628,7 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
     [patch.name, patch],
     [batchPatch.name, batchPatch],
     [validate.name, validate],
+    [testRun.name, testRun],
     [indexRebuild.name, indexRebuild],
     [indexUpdateMetadata.name, indexUpdateMetadata],
     [del.name, del],
@@ -468,5 +637,10 @@ export function buildScriptMcpToolsMap(): Map<string, Tool> {
     [otaPublishStable.name, otaPublishStable],
     [otaLockVersion.name, otaLockVersion],
     [otaUnlockVersion.name, otaUnlockVersion],
+    [otaRollout.name, otaRollout],
+    [revisionsList.name, revisionsList],
+    [revisionGet.name, revisionGet],
+    [revisionDiff.name, revisionDiff],
+    [revisionRestore.name, revisionRestore],
   ])
 }
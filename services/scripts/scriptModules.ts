@@ -0,0 +1,580 @@
+import * as ts from 'typescript'
+
+import { isManagedScriptFilename } from '@/constants/file'
+
+import { formatScriptDiagnostic, type ScriptDiagnostic } from './scriptDiagnostics'
+
+/** Prefix of the per-module bindings emitted into a bundled script payload. */
+const MODULE_BINDING_PREFIX = '__vws_module_'
+
+/** Local name given to an anonymous `export default …`. */
+const DEFAULT_EXPORT_LOCAL = '__vws_default'
+
+/** All value exports of a module (`import * as ns`, `export *`). */
+const ALL_EXPORTS = '*'
+
+interface ImportBinding {
+  /** Export name in the imported module (`default`, `*` for namespace imports) */
+  imported: string
+  local: string
+  typeOnly: boolean
+}
+
+interface ParsedImport {
+  specifier: string
+  statement: ts.Statement
+  bindings: ImportBinding[]
+  /** `export … from` rather than `import` */
+  reexport: boolean
+  typeOnly: boolean
+  /** 1-based position for diagnostics */
+  position: { line: number; column: number }
+}
+
+interface ParsedExport {
+  /** Local binding holding the value */
+  local?: string
+  /** Re-exported binding of another module */
+  from?: { specifier: string; imported: string }
+  typeOnly: boolean
+}
+
+interface ParsedStatement {
+  node: ts.Statement
+  declares: string[]
+  references: Set<string>
+}
+
+interface ParsedScriptModule {
+  file: string
+  source: ts.SourceFile
+  imports: ParsedImport[]
+  exports: Map<string, ParsedExport>
+  /** Specifiers of `export * from` */
+  starExports: string[]
+  statements: ParsedStatement[]
+  hasModuleSyntax: boolean
+}
+
+interface ScriptModuleAnalysis {
+  modules: Map<string, ParsedScriptModule>
+  /** Import resolution of each parsed module: specifier → filename (null when unresolved) */
+  resolved: Map<string, Map<string, string | null>>
+  diagnostics: Map<string, ScriptDiagnostic[]>
+  /** First import cycle found, as a closed path of filenames */
+  cycle: string[] | null
+  /** Reachable modules with dependencies before their importers (entry last) */
+  order: string[]
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind)
+}
+
+function collectBindingNames(name: ts.BindingName, names: string[]): void {
+  if (ts.isIdentifier(name)) {
+    names.push(name.text)
+    return
+  }
+  for (const element of name.elements) {
+    if (!ts.isOmittedExpression(element)) {
+      collectBindingNames(element.name, names)
+    }
+  }
+}
+
+function collectDeclaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    const names: string[] = []
+    statement.declarationList.declarations.forEach((declaration) => collectBindingNames(declaration.name, names))
+    return names
+  }
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isImportEqualsDeclaration(statement)
+  ) {
+    return statement.name ? [statement.name.text] : []
+  }
+  if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+    return [statement.name.text]
+  }
+  return []
+}
+
+function collectReferences(node: ts.Node): Set<string> {
+  const references = new Set<string>()
+  const visit = (child: ts.Node) => {
+    if (ts.isIdentifier(child)) {
+      const parent = child.parent
+      const isMemberName =
+        (ts.isPropertyAccessExpression(parent) && parent.name === child) ||
+        (ts.isPropertyAssignment(parent) && parent.name === child) ||
+        (ts.isQualifiedName(parent) && parent.right === child)
+      if (!isMemberName) {
+        references.add(child.text)
+      }
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+  return references
+}
+
+function readPosition(source: ts.SourceFile, node: ts.Node): { line: number; column: number } {
+  const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source))
+  return { line: line + 1, column: character + 1 }
+}
+
+function importDiagnostic(file: string, entry: ParsedImport, message: string): ScriptDiagnostic {
+  return { file, ...entry.position, severity: 'error', code: 'import', message }
+}
+
+function parseScriptModule(file: string, content: string): ParsedScriptModule {
+  const source = ts.createSourceFile(file, content, ts.ScriptTarget.ESNext, true, file.endsWith('.js') ? ts.ScriptKind.JS : ts.ScriptKind.TS)
+  const parsed: ParsedScriptModule = { file, source, imports: [], exports: new Map(), starExports: [], statements: [], hasModuleSyntax: false }
+
+  for (const statement of source.statements) {
+    const position = readPosition(source, statement)
+
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      parsed.hasModuleSyntax = true
+      const clause = statement.importClause
+      const typeOnly = Boolean(clause?.isTypeOnly)
+      const bindings: ImportBinding[] = []
+      if (clause?.name) {
+        bindings.push({ imported: 'default', local: clause.name.text, typeOnly })
+      }
+      const named = clause?.namedBindings
+      if (named && ts.isNamespaceImport(named)) {
+        bindings.push({ imported: ALL_EXPORTS, local: named.name.text, typeOnly })
+      } else if (named) {
+        for (const element of named.elements) {
+          bindings.push({ imported: (element.propertyName ?? element.name).text, local: element.name.text, typeOnly: typeOnly || element.isTypeOnly })
+        }
+      }
+      parsed.imports.push({ specifier: statement.moduleSpecifier.text, statement, bindings, reexport: false, typeOnly, position })
+      parsed.statements.push({ node: statement, declares: bindings.map((binding) => binding.local), references: new Set() })
+      continue
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      parsed.hasModuleSyntax = true
+      const typeOnly = statement.isTypeOnly
+      const clause = statement.exportClause
+      const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined
+      if (specifier) {
+        parsed.imports.push({ specifier, statement, bindings: [], reexport: true, typeOnly, position })
+      }
+
+      if (!clause) {
+        if (specifier && !typeOnly) {
+          parsed.starExports.push(specifier)
+        }
+      } else if (ts.isNamespaceExport(clause)) {
+        parsed.exports.set(clause.name.text, { from: { specifier: specifier!, imported: ALL_EXPORTS }, typeOnly })
+      } else {
+        for (const element of clause.elements) {
+          const name = (element.propertyName ?? element.name).text
+          const entry: ParsedExport = specifier ? { from: { specifier, imported: name }, typeOnly } : { local: name, typeOnly }
+          parsed.exports.set(element.name.text, { ...entry, typeOnly: typeOnly || element.isTypeOnly })
+        }
+      }
+      continue
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      parsed.hasModuleSyntax = true
+      parsed.exports.set('default', { local: DEFAULT_EXPORT_LOCAL, typeOnly: false })
+      parsed.statements.push({ node: statement, declares: [DEFAULT_EXPORT_LOCAL], references: collectReferences(statement.expression) })
+      continue
+    }
+
+    const declares = collectDeclaredNames(statement)
+    if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      parsed.hasModuleSyntax = true
+      const typeOnly = ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || hasModifier(statement, ts.SyntaxKind.DeclareKeyword)
+      if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+        if (declares.length === 0) {
+          declares.push(DEFAULT_EXPORT_LOCAL)
+        }
+        parsed.exports.set('default', { local: declares[0], typeOnly })
+      } else {
+        declares.forEach((name) => parsed.exports.set(name, { local: name, typeOnly }))
+      }
+    }
+    parsed.statements.push({ node: statement, declares, references: collectReferences(statement) })
+  }
+
+  return parsed
+}
+
+/**
+ * Resolve an import specifier to a managed script. Scripts live side by side, so only `./name`
+ * (with or without `.ts` / `.js`) resolves.
+ * @param specifier Specifier as written in the import
+ * @param modules Managed script sources by filename
+ * @returns Filename, or null when no managed script matches
+ */
+export function resolveScriptModuleSpecifier(specifier: string, modules: Record<string, string>): string | null {
+  if (!specifier.startsWith('./')) {
+    return null
+  }
+  const name = specifier.slice(2)
+  if (!name || name.includes('/')) {
+    return null
+  }
+  for (const candidate of [name, `${name}.ts`, `${name}.js`]) {
+    if (candidate in modules && isManagedScriptFilename(candidate)) {
+      return candidate
+    }
+  }
+  return null
+}
+
+/**
+ * Specifiers of the value imports and re-exports of a script (type-only imports are erased and not listed).
+ * @param content Script source
+ */
+export function listScriptModuleImports(content: string): string[] {
+  if (!/\b(?:import|export)\b/.test(content)) {
+    return []
+  }
+  const parsed = parseScriptModule('script.ts', content)
+  return [...new Set(parsed.imports.filter((entry) => !entry.typeOnly).map((entry) => entry.specifier))]
+}
+
+/**
+ * Collect the managed script sources imports resolve against. Helpers missing from `overrides` (e.g. an
+ * alpha-only helper imported by a stable script) fall back to their latest saved source.
+ * @param files Storage files
+ * @param overrides Sources taking precedence (track releases, unsaved editor buffers)
+ */
+export function collectScriptModuleSources(files: Record<string, { content: string }>, overrides: Record<string, string> = {}): Record<string, string> {
+  const sources: Record<string, string> = {}
+  for (const [file, { content }] of Object.entries(files)) {
+    if (isManagedScriptFilename(file)) {
+      sources[file] = content
+    }
+  }
+  return { ...sources, ...overrides }
+}
+
+/**
+ * Whether a module exports a name, directly, re-exported, or through `export *`.
+ */
+function findExport(analysis: ScriptModuleAnalysis, file: string, name: string, seen = new Set<string>()): ParsedExport | null {
+  const parsed = analysis.modules.get(file)
+  if (!parsed || seen.has(file)) {
+    return null
+  }
+  seen.add(file)
+
+  const direct = parsed.exports.get(name)
+  if (direct) {
+    return direct
+  }
+  if (name === 'default') {
+    return null
+  }
+  for (const specifier of parsed.starExports) {
+    const target = analysis.resolved.get(file)?.get(specifier)
+    const found = target ? findExport(analysis, target, name, seen) : null
+    if (found) {
+      return found
+    }
+  }
+  return null
+}
+
+function analyzeScriptModules(entry: string, content: string, modules: Record<string, string>): ScriptModuleAnalysis {
+  const analysis: ScriptModuleAnalysis = { modules: new Map(), resolved: new Map(), diagnostics: new Map(), cycle: null, order: [] }
+
+  const load = (file: string) => {
+    if (analysis.modules.has(file)) {
+      return
+    }
+    const parsed = parseScriptModule(file, file === entry ? content : modules[file])
+    const resolved = new Map<string, string | null>()
+    const diagnostics: ScriptDiagnostic[] = []
+    analysis.modules.set(file, parsed)
+    analysis.resolved.set(file, resolved)
+    analysis.diagnostics.set(file, diagnostics)
+
+    for (const entry of parsed.imports) {
+      if (entry.typeOnly) {
+        continue
+      }
+      const target = resolveScriptModuleSpecifier(entry.specifier, modules)
+      resolved.set(entry.specifier, target)
+      if (target) {
+        load(target)
+      } else if (entry.specifier.startsWith('.')) {
+        diagnostics.push(importDiagnostic(file, entry, `Cannot resolve import "${entry.specifier}"; imports must name a managed script ("./name")`))
+      } else {
+        diagnostics.push(importDiagnostic(file, entry, `Only managed scripts can be imported ("${entry.specifier}"); load libraries with @require`))
+      }
+    }
+  }
+  load(entry)
+
+  for (const [file, parsed] of analysis.modules) {
+    for (const entry of parsed.imports) {
+      const target = analysis.resolved.get(file)?.get(entry.specifier)
+      if (!target || entry.typeOnly) {
+        continue
+      }
+      const names = entry.reexport
+        ? [...parsed.exports.values()].flatMap((exported) => (exported.from?.specifier === entry.specifier && !exported.typeOnly ? [exported.from.imported] : []))
+        : entry.bindings.filter((binding) => !binding.typeOnly).map((binding) => binding.imported)
+      for (const name of names) {
+        if (name !== ALL_EXPORTS && !findExport(analysis, target, name)) {
+          analysis.diagnostics.get(file)!.push(importDiagnostic(file, entry, `"${entry.specifier}" has no export named "${name}"`))
+        }
+      }
+    }
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>()
+  const stack: string[] = []
+  const visit = (file: string) => {
+    if (state.get(file) === 'done' || analysis.cycle) {
+      return
+    }
+    if (state.get(file) === 'visiting') {
+      analysis.cycle = [...stack.slice(stack.indexOf(file)), file]
+      return
+    }
+    state.set(file, 'visiting')
+    stack.push(file)
+    for (const target of analysis.resolved.get(file)!.values()) {
+      if (target) {
+        visit(target)
+      }
+    }
+    stack.pop()
+    state.set(file, 'done')
+    analysis.order.push(file)
+  }
+  visit(entry)
+
+  return analysis
+}
+
+/**
+ * Diagnostic for the analysis' import cycle, positioned at the import that closes into it.
+ */
+function cycleDiagnostic(analysis: ScriptModuleAnalysis): ScriptDiagnostic | null {
+  if (!analysis.cycle) {
+    return null
+  }
+  const [from, to] = analysis.cycle
+  const edge = analysis.modules.get(from)!.imports.find((entry) => analysis.resolved.get(from)?.get(entry.specifier) === to)!
+  return importDiagnostic(from, edge, `Circular import ${analysis.cycle.join(' → ')}`)
+}
+
+/**
+ * Import diagnostics for one script: unresolvable or non-managed specifiers, missing export names,
+ * and import cycles reachable from it.
+ * @param file Script filename
+ * @param content Script source
+ * @param modules Managed script sources by filename
+ * @returns Diagnostics (empty when the import graph is sound)
+ */
+export function collectScriptModuleDiagnostics(file: string, content: string, modules: Record<string, string>): ScriptDiagnostic[] {
+  const analysis = analyzeScriptModules(file, content, modules)
+  const cycle = cycleDiagnostic(analysis)
+  return [...(analysis.diagnostics.get(file) ?? []), ...(cycle ? [cycle] : [])]
+}
+
+/**
+ * Keep the statements of a dependency needed for the requested exports: every statement without
+ * declarations (side effects) plus declarations reachable from those and from the exports.
+ */
+function shakeStatements(parsed: ParsedScriptModule, locals: Set<string>): Set<ParsedStatement> {
+  const kept = new Set<ParsedStatement>()
+  const pending = [...locals]
+  const keep = (statement: ParsedStatement) => {
+    if (!kept.has(statement)) {
+      kept.add(statement)
+      pending.push(...statement.references)
+    }
+  }
+
+  parsed.statements.filter((statement) => statement.declares.length === 0).forEach(keep)
+  const seen = new Set<string>()
+  while (pending.length > 0) {
+    const name = pending.pop()!
+    if (seen.has(name)) {
+      continue
+    }
+    seen.add(name)
+    parsed.statements.filter((statement) => statement.declares.includes(name)).forEach(keep)
+  }
+  return kept
+}
+
+function removeRanges(text: string, base: number, nodes: ts.Node[], source: ts.SourceFile): string {
+  let result = text
+  for (const node of [...nodes].sort((a, b) => b.getStart(source) - a.getStart(source))) {
+    const start = node.getStart(source) - base
+    const end = node.end - base
+    result = result.slice(0, start) + result.slice(end).replace(/^\s+/, '')
+  }
+  return result
+}
+
+/**
+ * Rewrite one statement for a bundle: imports become reads of the dependency bindings, `export`
+ * keywords are dropped (exports are returned from the module wrapper instead).
+ * @returns Replacement text ('' drops the statement)
+ */
+function transformStatement(analysis: ScriptModuleAnalysis, parsed: ParsedScriptModule, statement: ts.Statement, bindingNames: Map<string, string>): string {
+  const { source } = parsed
+  const text = source.text.slice(statement.getStart(source), statement.end)
+
+  if (ts.isImportDeclaration(statement)) {
+    const entry = parsed.imports.find((item) => item.statement === statement)!
+    const target = analysis.resolved.get(parsed.file)?.get(entry.specifier)
+    if (entry.typeOnly || !target) {
+      return ''
+    }
+    const binding = bindingNames.get(target)!
+    const values = entry.bindings.filter((item) => !item.typeOnly && !(item.imported !== ALL_EXPORTS && findExport(analysis, target, item.imported)?.typeOnly))
+    const lines = values.filter((item) => item.imported === ALL_EXPORTS).map((item) => `const ${item.local} = ${binding};`)
+    const named = values.filter((item) => item.imported !== ALL_EXPORTS).map((item) => `${JSON.stringify(item.imported)}: ${item.local}`)
+    if (named.length > 0) {
+      lines.push(`const { ${named.join(', ')} } = ${binding};`)
+    }
+    return lines.join('\n')
+  }
+
+  if (ts.isExportDeclaration(statement)) {
+    return ''
+  }
+
+  if (ts.isExportAssignment(statement)) {
+    return `const ${DEFAULT_EXPORT_LOCAL} = ${source.text.slice(statement.expression.getStart(source), statement.expression.end)};`
+  }
+
+  if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+    return text
+  }
+  const modifiers = (ts.getModifiers(statement as ts.HasModifiers) ?? []).filter(
+    (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword || modifier.kind === ts.SyntaxKind.DefaultKeyword
+  )
+  const stripped = removeRanges(text, statement.getStart(source), modifiers, source)
+  const anonymousDefault = (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && !statement.name
+  return anonymousDefault ? `const ${DEFAULT_EXPORT_LOCAL} = ${stripped};` : stripped
+}
+
+/**
+ * Inline the managed scripts a script imports. Each dependency becomes one wrapper holding only the
+ * statements its importers need (tree-shaken at top-level declaration granularity); imports in the
+ * script become reads of those wrappers and its own `export` keywords are dropped.
+ * @param file Script filename
+ * @param content Script source (header may be stripped)
+ * @param modules Managed script sources imports resolve against
+ * @returns Script source free of import / export syntax
+ */
+export function bundleScriptModule(file: string, content: string, modules: Record<string, string>): string {
+  const analysis = analyzeScriptModules(file, content, modules)
+  const cycle = cycleDiagnostic(analysis)
+  const diagnostics = [...[...analysis.diagnostics.values()].flat(), ...(cycle ? [cycle] : [])]
+  if (diagnostics.length > 0) {
+    throw new Error(diagnostics.map(formatScriptDiagnostic).join('\n'))
+  }
+
+  const bindingNames = new Map(analysis.order.map((dependency, index) => [dependency, `${MODULE_BINDING_PREFIX}${index}_${dependency.replace(/[^A-Za-z0-9_$]/g, '_')}`]))
+  const requests = new Map<string, Set<string>>(analysis.order.map((dependency) => [dependency, new Set()]))
+  const keptStatements = new Map<string, Set<ParsedStatement>>()
+
+  // Importers come before their dependencies here, so a module's requests are complete when it is reached.
+  for (const current of [...analysis.order].reverse()) {
+    const parsed = analysis.modules.get(current)!
+    const resolved = analysis.resolved.get(current)!
+    const requested = requests.get(current)!
+    const request = (specifier: string, name: string) => {
+      const target = resolved.get(specifier)
+      if (target) {
+        requests.get(target)!.add(name)
+      }
+    }
+
+    const exportedNames = requested.has(ALL_EXPORTS) ? [...parsed.exports.keys()] : [...requested]
+    const locals = new Set<string>()
+    for (const name of exportedNames) {
+      const exported = parsed.exports.get(name)
+      if (exported?.typeOnly) continue
+      if (exported?.local) locals.add(exported.local)
+      else if (exported?.from) request(exported.from.specifier, exported.from.imported)
+      else parsed.starExports.forEach((specifier) => request(specifier, name))
+    }
+    if (requested.has(ALL_EXPORTS)) {
+      parsed.starExports.forEach((specifier) => request(specifier, ALL_EXPORTS))
+    }
+
+    const kept = current === file ? new Set(parsed.statements) : shakeStatements(parsed, locals)
+    keptStatements.set(current, kept)
+
+    const used = new Set([...kept].flatMap((statement) => [...statement.references]))
+    for (const entry of parsed.imports) {
+      // Re-exports were forwarded with the requested names; every reachable module is emitted for its side effects.
+      entry.bindings.filter((binding) => current === file || used.has(binding.local)).forEach((binding) => request(entry.specifier, binding.imported))
+    }
+  }
+
+  const blocks: string[] = []
+  for (const dependency of analysis.order) {
+    if (dependency === file) {
+      continue
+    }
+    const parsed = analysis.modules.get(dependency)!
+    const kept = keptStatements.get(dependency)!
+    const body = parsed.statements
+      .filter((statement) => kept.has(statement))
+      .map((statement) => transformStatement(analysis, parsed, statement.node, bindingNames))
+      .filter(Boolean)
+
+    const requested = requests.get(dependency)!
+    const properties: string[] = []
+    for (const name of requested.has(ALL_EXPORTS) ? parsed.exports.keys() : requested) {
+      const exported = parsed.exports.get(name)
+      if (!exported || exported.typeOnly) continue
+      if (exported.local) {
+        properties.push(`${JSON.stringify(name)}: ${exported.local}`)
+      } else if (exported.from) {
+        const target = bindingNames.get(analysis.resolved.get(dependency)!.get(exported.from.specifier)!)!
+        properties.push(`${JSON.stringify(name)}: ${exported.from.imported === ALL_EXPORTS ? target : `${target}[${JSON.stringify(exported.from.imported)}]`}`)
+      }
+    }
+    const spreads = parsed.starExports.map((specifier) => `...${bindingNames.get(analysis.resolved.get(dependency)!.get(specifier)!)}`)
+
+    blocks.push(`const ${bindingNames.get(dependency)} = (() => {
+${body.join('\n')}
+return { ${[...spreads, ...properties].join(', ')} };
+})();`)
+  }
+
+  const parsed = analysis.modules.get(file)!
+  let entrySource = content
+  for (const statement of [...parsed.statements.map((item) => item.node), ...parsed.source.statements.filter(ts.isExportDeclaration)].sort(
+    (a, b) => b.getStart(parsed.source) - a.getStart(parsed.source)
+  )) {
+    const replacement = transformStatement(analysis, parsed, statement, bindingNames)
+    entrySource = entrySource.slice(0, statement.getStart(parsed.source)) + replacement + entrySource.slice(statement.end)
+  }
+
+  return [...blocks, entrySource].join('\n\n')
+}
+
+/**
+ * Whether a script uses `import` / `export` and must go through {@link bundleScriptModule}.
+ * @param content Script source
+ */
+export function hasScriptModuleSyntax(content: string): boolean {
+  return /\b(?:import|export)\b/.test(content) && parseScriptModule('script.ts', content).hasModuleSyntax
+}
@@ -0,0 +1,284 @@
+import { createHash } from 'crypto'
+
+import { isManagedScriptFilename, SCRIPT_REVISIONS_FILE } from '@/constants/file'
+import { SCRIPT_STORAGE_FILE_MAX_BYTES, type ScriptStorageFile, type ScriptStorageWrite } from '@/services/storage'
+
+/** Revisions kept per script; older entries and their unreferenced contents are pruned. */
+export const SCRIPT_REVISION_LIMIT = 30
+
+/** Size cap of the serialized revision log; the oldest revisions across all scripts are dropped until the log fits. */
+export const SCRIPT_REVISIONS_MAX_BYTES = SCRIPT_STORAGE_FILE_MAX_BYTES
+
+/** Author recorded when no authenticated actor is bound (scripts, migrations). */
+export const UNKNOWN_REVISION_AUTHOR = 'system'
+
+/**
+ * What produced a revision.
+ * `baseline` captures content that existed before history was recorded for the file.
+ */
+export type ScriptRevisionAction = 'baseline' | 'create' | 'update' | 'delete' | 'restore'
+
+/** One recorded change of a managed script */
+export interface ScriptRevision {
+  /** Per-file sequence number, starting at 1 */
+  id: number
+  action: ScriptRevisionAction
+  /** SHA-256 of the content; absent for `delete` */
+  contentHash?: string
+  /** UTF-8 byte length of the content (0 for `delete`) */
+  byteLength: number
+  /** Session user name, `api-key`, or `system` */
+  author: string
+  /** TraceId of the request / action that wrote the revision */
+  traceId?: string
+  /** Record time (epoch ms) */
+  createdAt: number
+  /** Revision id this one was restored from */
+  restoredFrom?: number
+  /** Previous filename when the script was created by a rename */
+  renamedFrom?: string
+  /** New filename when the script was deleted by a rename */
+  renamedTo?: string
+}
+
+/** Persisted revision log (`SCRIPT_REVISIONS_FILE`); one file, so history never adds files to the storage */
+export interface ScriptRevisionLog {
+  version: 1
+  /** Managed filename → revisions, oldest first */
+  files: Record<string, ScriptRevision[]>
+  /** Content hash → content of every revision still in `files` */
+  contents: Record<string, string>
+}
+
+/** Caller-provided details for the revisions produced by one write */
+export interface ScriptRevisionNote {
+  action?: Extract<ScriptRevisionAction, 'restore'>
+  restoredFrom?: number
+}
+
+export interface ScriptRevisionWriteContext {
+  author?: string
+  traceId?: string
+  /** Record time (epoch ms) */
+  now: number
+  /** Time stamped on `baseline` entries (epoch ms), usually the storage updated time */
+  baselineAt: number
+  note?: ScriptRevisionNote
+}
+
+/**
+ * SHA-256 hex digest used as the revision content address.
+ * @param content UTF-8 content
+ */
+export function hashRevisionContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Parse the persisted revision log, tolerating a missing or corrupt file.
+ * @param content Raw `SCRIPT_REVISIONS_FILE` content
+ * @returns Revision log (empty when unreadable)
+ */
+export function parseScriptRevisionLog(content?: string): ScriptRevisionLog {
+  if (!content) {
+    return { version: 1, files: {}, contents: {} }
+  }
+
+  try {
+    const parsed = JSON.parse(content) as Partial<ScriptRevisionLog>
+    const files: Record<string, ScriptRevision[]> = {}
+    if (parsed.files && typeof parsed.files === 'object') {
+      for (const [filename, entries] of Object.entries(parsed.files)) {
+        if (Array.isArray(entries)) {
+          files[filename] = entries.filter((entry): entry is ScriptRevision => !!entry && typeof entry.id === 'number' && typeof entry.action === 'string')
+        }
+      }
+    }
+    const contents: Record<string, string> = {}
+    if (parsed.contents && typeof parsed.contents === 'object') {
+      for (const [hash, value] of Object.entries(parsed.contents)) {
+        if (typeof value === 'string') {
+          contents[hash] = value
+        }
+      }
+    }
+    return { version: 1, files, contents }
+  } catch {
+    return { version: 1, files: {}, contents: {} }
+  }
+}
+
+function stringifyScriptRevisionLog(log: ScriptRevisionLog): string {
+  return `${JSON.stringify(log, null, 2)}\n`
+}
+
+/**
+ * File whose oldest remaining revision is the oldest in the log.
+ * @param log Revision log
+ * @returns Filename, or null when the log is empty
+ */
+function findOldestRevisionFile(log: ScriptRevisionLog): string | null {
+  let oldest: string | null = null
+  for (const [filename, entries] of Object.entries(log.files)) {
+    if (entries.length > 0 && (oldest === null || entries[0].createdAt < log.files[oldest][0].createdAt)) {
+      oldest = filename
+    }
+  }
+  return oldest
+}
+
+/**
+ * Keep the newest `SCRIPT_REVISION_LIMIT` revisions per touched file, then drop the oldest revisions across all files
+ * until the log fits `SCRIPT_REVISIONS_MAX_BYTES`. Contents no revision references any more are removed.
+ * @param log Revision log (mutated)
+ * @param touched Files that received revisions in this batch
+ */
+function compactScriptRevisionLog(log: ScriptRevisionLog, touched: Set<string>): void {
+  for (const filename of touched) {
+    log.files[filename] = log.files[filename].slice(-SCRIPT_REVISION_LIMIT)
+  }
+
+  const references = new Map<string, number>()
+  for (const entries of Object.values(log.files)) {
+    for (const { contentHash } of entries) {
+      if (contentHash) {
+        references.set(contentHash, (references.get(contentHash) ?? 0) + 1)
+      }
+    }
+  }
+  for (const hash of Object.keys(log.contents)) {
+    if (!references.has(hash)) {
+      delete log.contents[hash]
+    }
+  }
+
+  let size = Buffer.byteLength(stringifyScriptRevisionLog(log), 'utf8')
+  while (size > SCRIPT_REVISIONS_MAX_BYTES) {
+    // Byte estimates only decide how much to drop per pass; the size is measured again after each pass.
+    for (let excess = size - SCRIPT_REVISIONS_MAX_BYTES; excess > 0; ) {
+      const filename = findOldestRevisionFile(log)
+      if (!filename) {
+        return
+      }
+
+      const entry = log.files[filename].shift()!
+      if (log.files[filename].length === 0) {
+        delete log.files[filename]
+      }
+      excess -= Buffer.byteLength(JSON.stringify(entry), 'utf8')
+
+      const hash = entry.contentHash
+      if (!hash) {
+        continue
+      }
+      const remaining = (references.get(hash) ?? 1) - 1
+      references.set(hash, remaining)
+      if (remaining === 0) {
+        excess -= Buffer.byteLength(JSON.stringify(log.contents[hash] ?? ''), 'utf8')
+        delete log.contents[hash]
+      }
+    }
+    size = Buffer.byteLength(stringifyScriptRevisionLog(log), 'utf8')
+  }
+}
+
+/**
+ * Compute the extra storage write that records revisions for one batch of script writes: the updated log.
+ * Non-managed files and unchanged content are ignored.
+ * @param files Storage files before the batch is applied
+ * @param writes Batch about to be written (null content deletes)
+ * @param context Author, TraceId and timestamps for the new entries
+ * @returns Writes to append to the batch (empty when nothing changed)
+ */
+export function buildScriptRevisionWrites(files: Record<string, ScriptStorageFile>, writes: ScriptStorageWrite[], context: ScriptRevisionWriteContext): ScriptStorageWrite[] {
+  const managedWrites = writes.filter(({ file }) => isManagedScriptFilename(file))
+  if (managedWrites.length === 0) {
+    return []
+  }
+
+  const log = parseScriptRevisionLog(files[SCRIPT_REVISIONS_FILE]?.content)
+  const author = context.author || UNKNOWN_REVISION_AUTHOR
+  const touched = new Set<string>()
+
+  // A delete + create of identical content in one batch is a rename.
+  const deletedHashes = new Map<string, string>()
+  for (const { file, content } of managedWrites) {
+    const previous = files[file]?.content
+    if (content === null && previous !== undefined) {
+      deletedHashes.set(hashRevisionContent(previous), file)
+    }
+  }
+  const renames = new Map<string, string>()
+  for (const { file, content } of managedWrites) {
+    if (content !== null && files[file] === undefined) {
+      const from = deletedHashes.get(hashRevisionContent(content))
+      if (from) {
+        renames.set(file, from)
+        renames.set(from, file)
+      }
+    }
+  }
+
+  function push(filename: string, entry: Omit<ScriptRevision, 'id'>, content?: string): void {
+    const entries = (log.files[filename] ??= [])
+    entries.push({ id: (entries[entries.length - 1]?.id ?? 0) + 1, ...entry })
+    if (content !== undefined && entry.contentHash) {
+      log.contents[entry.contentHash] = content
+    }
+    touched.add(filename)
+  }
+
+  function ensureBaseline(filename: string, previous: string | undefined): void {
+    if (previous === undefined || (log.files[filename]?.length ?? 0) > 0) {
+      return
+    }
+    const contentHash = hashRevisionContent(previous)
+    push(filename, { action: 'baseline', contentHash, byteLength: Buffer.byteLength(previous, 'utf8'), author: UNKNOWN_REVISION_AUTHOR, createdAt: context.baselineAt }, previous)
+  }
+
+  for (const { file, content } of managedWrites) {
+    const previous = files[file]?.content
+    const traceId = context.traceId ? { traceId: context.traceId } : {}
+
+    if (content === null) {
+      if (previous === undefined) {
+        continue
+      }
+      ensureBaseline(file, previous)
+      const renamedTo = renames.get(file)
+      push(file, { action: 'delete', byteLength: 0, author, createdAt: context.now, ...traceId, ...(renamedTo ? { renamedTo } : {}) })
+      continue
+    }
+
+    const contentHash = hashRevisionContent(content)
+    if (previous !== undefined && hashRevisionContent(previous) === contentHash) {
+      continue
+    }
+
+    ensureBaseline(file, previous)
+    const renamedFrom = renames.get(file)
+    const action: ScriptRevisionAction = context.note?.action ?? (previous === undefined ? 'create' : 'update')
+    push(
+      file,
+      {
+        action,
+        contentHash,
+        byteLength: Buffer.byteLength(content, 'utf8'),
+        author,
+        createdAt: context.now,
+        ...traceId,
+        ...(action === 'restore' && context.note?.restoredFrom !== undefined ? { restoredFrom: context.note.restoredFrom } : {}),
+        ...(renamedFrom ? { renamedFrom } : {}),
+      },
+      content
+    )
+  }
+
+  if (touched.size === 0) {
+    return []
+  }
+
+  compactScriptRevisionLog(log, touched)
+
+  return [{ file: SCRIPT_REVISIONS_FILE, content: stringifyScriptRevisionLog(log) }]
+}
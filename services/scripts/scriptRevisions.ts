@@ -0,0 +1,117 @@
+import { isManagedScriptFilename, SCRIPT_REVISIONS_FILE } from '@/constants/file'
+import { getScriptStorage } from '@/services/storage'
+import { createUnifiedLineDiff } from '@/shared/line-diff'
+
+import { upsertManagedScriptFile } from './gistScripts'
+import { parseScriptRevisionLog, type ScriptRevision, type ScriptRevisionLog } from './scriptRevisionLog'
+
+export { SCRIPT_REVISION_LIMIT, type ScriptRevision, type ScriptRevisionAction } from './scriptRevisionLog'
+
+/** Diff endpoint: the other side is another revision id or the current stored content */
+export type ScriptRevisionDiffTarget = number | 'current'
+
+export interface ScriptRevisionDiff {
+  filename: string
+  /** Older side (revision id) */
+  from: number
+  /** Newer side (revision id or `current`) */
+  to: ScriptRevisionDiffTarget
+  /** Unified diff hunks; empty when identical */
+  patch: string
+  additions: number
+  deletions: number
+}
+
+function assertManagedScriptFilename(filename: string): void {
+  if (!isManagedScriptFilename(filename)) {
+    throw new Error('File is not a managed script path')
+  }
+}
+
+/**
+ * Load the storage snapshot and the revisions recorded for one script.
+ * @param filename Managed script filename
+ */
+async function loadRevisions(filename: string) {
+  assertManagedScriptFilename(filename)
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const log = parseScriptRevisionLog(snapshot.files[SCRIPT_REVISIONS_FILE]?.content)
+  return { snapshot, log, revisions: log.files[filename] ?? [] }
+}
+
+/**
+ * Resolve one revision and its content from an already loaded revision log.
+ * @param log Revision log
+ * @param filename Managed script filename
+ * @param id Revision id
+ * @returns Revision plus content (null for `delete`)
+ */
+function resolveRevision(log: ScriptRevisionLog, filename: string, id: number) {
+  const revision = log.files[filename]?.find((entry) => entry.id === id)
+  if (!revision) {
+    throw new Error(`Revision ${id} not found for ${filename}`)
+  }
+  if (!revision.contentHash) {
+    return { revision, content: null }
+  }
+
+  const content = log.contents[revision.contentHash]
+  if (content === undefined) {
+    throw new Error(`Revision ${id} content for ${filename} is missing from storage`)
+  }
+  return { revision, content }
+}
+
+/**
+ * List recorded revisions of a managed script, newest first.
+ * @param filename Managed script filename
+ * @returns Revisions (no content)
+ */
+export async function listManagedScriptRevisions(filename: string): Promise<{ filename: string; revisions: ScriptRevision[] }> {
+  const { revisions } = await loadRevisions(filename)
+  return { filename, revisions: [...revisions].reverse() }
+}
+
+/**
+ * Read one revision including its content.
+ * @param filename Managed script filename
+ * @param id Revision id
+ * @returns Revision and content (null when the revision is a delete)
+ */
+export async function getManagedScriptRevision(filename: string, id: number): Promise<{ filename: string; revision: ScriptRevision; content: string | null }> {
+  const { log } = await loadRevisions(filename)
+  return { filename, ...resolveRevision(log, filename, id) }
+}
+
+/**
+ * Diff a revision against another revision or the current content.
+ * @param filename Managed script filename
+ * @param id Revision id (old side)
+ * @param against Revision id or `current` (new side)
+ * @returns Unified line diff
+ */
+export async function diffManagedScriptRevision(filename: string, id: number, against: ScriptRevisionDiffTarget = 'current'): Promise<ScriptRevisionDiff> {
+  const { snapshot, log } = await loadRevisions(filename)
+  const from = resolveRevision(log, filename, id)
+  const toContent = against === 'current' ? (snapshot.files[filename]?.content ?? null) : resolveRevision(log, filename, against).content
+  const { patch, additions, deletions } = createUnifiedLineDiff(from.content ?? '', toContent ?? '')
+  return { filename, from: id, to: against, patch, additions, deletions }
+}
+
+/**
+ * Roll a managed script back to a recorded revision. Writes through the normal save path,
+ * so the rollback itself is recorded as a `restore` revision and the index is rebuilt.
+ * @param filename Managed script filename
+ * @param id Revision id to restore
+ * @returns The revision that was restored and the newest revision after the write
+ */
+export async function restoreManagedScriptRevision(filename: string, id: number): Promise<{ filename: string; restoredFrom: ScriptRevision; revision?: ScriptRevision }> {
+  const { revision, content } = await getManagedScriptRevision(filename, id)
+  if (content === null) {
+    throw new Error(`Revision ${id} of ${filename} is a delete and has no content to restore`)
+  }
+
+  await upsertManagedScriptFile(filename, content, { revision: { action: 'restore', restoredFrom: id } })
+  const { revisions } = await listManagedScriptRevisions(filename)
+  return { filename, restoredFrom: revision, revision: revisions[0] }
+}
@@ -0,0 +1,124 @@
+import { getTelemetrySink } from '@/services/telemetry'
+import { evaluateRolloutHealth, isClientInRolloutCohort, type RolloutHealth, type RolloutVerdict } from '@/shared/ota-rollout'
+import { resolveScriptOtaPolicy, type ScriptOtaRollout } from '@/shared/script-ota-policy'
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+import { promoteManagedScriptRollout, readManagedScriptIndex, rollbackManagedScriptRollout } from './gistScripts'
+
+/** Shortest gap between two rollout evaluations triggered by telemetry in one server instance. */
+export const ROLLOUT_EVALUATION_INTERVAL_MS = 60_000
+
+let lastEvaluationAt = 0
+
+/** Promotion or rollback applied by an evaluation */
+export interface RolloutTransition {
+  file: string
+  version: string
+  verdict: Exclude<RolloutVerdict, null>
+}
+
+/**
+ * Distinct clients of a rollout candidate in its telemetry: a client with any error counts as failed.
+ * Only events carrying the candidate version from a client id inside the cohort count; no real client outside the
+ * cohort runs the candidate, so those reports are stale or forged.
+ * @param events Telemetry events
+ * @param file Managed script filename
+ * @param rollout Active rollout
+ * @returns Succeeding and failing clients
+ */
+export function summarizeRolloutHealth(events: ScriptTelemetryEvent[], file: string, rollout: ScriptOtaRollout): RolloutHealth {
+  const succeeded = new Set<string>()
+  const failed = new Set<string>()
+  for (const { kind, file: eventFile, version, clientId, at } of events) {
+    if (eventFile !== file || version !== rollout.version || !clientId || at < rollout.startedAt || !isClientInRolloutCohort(rollout, file, clientId)) {
+      continue
+    }
+    if (kind === 'error') {
+      failed.add(clientId)
+    } else {
+      succeeded.add(clientId)
+    }
+  }
+  return { successes: [...succeeded].filter((clientId) => !failed.has(clientId)).length, failures: failed.size }
+}
+
+async function readRolloutTelemetry(since: number): Promise<ScriptTelemetryEvent[]> {
+  const sink = getTelemetrySink()
+  return sink ? sink.read(since) : []
+}
+
+/**
+ * Active rollouts from the script index, by filename.
+ */
+async function readActiveRollouts(): Promise<Map<string, ScriptOtaRollout>> {
+  const index = await readManagedScriptIndex()
+  const rollouts = new Map<string, ScriptOtaRollout>()
+  for (const script of index.scripts) {
+    const { rollout } = resolveScriptOtaPolicy(script.ota)
+    if (rollout?.status === 'active') {
+      rollouts.set(script.filename, rollout)
+    }
+  }
+  return rollouts
+}
+
+/**
+ * Judge every active rollout from retained script telemetry, then promote or roll back those whose health crossed a threshold.
+ * @returns Applied transitions
+ */
+export async function evaluateScriptRollouts(): Promise<RolloutTransition[]> {
+  const active = await readActiveRollouts()
+  if (active.size === 0) {
+    return []
+  }
+
+  const events = await readRolloutTelemetry(Math.min(...[...active.values()].map(({ startedAt }) => startedAt)))
+  const transitions: RolloutTransition[] = []
+  for (const [file, rollout] of active) {
+    const verdict = evaluateRolloutHealth(rollout, summarizeRolloutHealth(events, file, rollout))
+    if (!verdict) {
+      continue
+    }
+    try {
+      await (verdict === 'rollback' ? rollbackManagedScriptRollout(file) : promoteManagedScriptRollout(file))
+    } catch {
+      // Another instance already ended this rollout
+      continue
+    }
+    transitions.push({ file, version: rollout.version, verdict })
+  }
+  return transitions
+}
+
+/**
+ * Evaluate rollouts after ingesting telemetry that reports on rollout candidates, at most once per
+ * {@link ROLLOUT_EVALUATION_INTERVAL_MS} per server instance so ingestion does not read the index on every batch.
+ * @param events Ingested events
+ * @returns Applied transitions (empty when skipped)
+ */
+export async function evaluateScriptRolloutsFromTelemetry(events: ScriptTelemetryEvent[]): Promise<RolloutTransition[]> {
+  const now = Date.now()
+  if (!events.some(({ clientId }) => clientId) || now - lastEvaluationAt < ROLLOUT_EVALUATION_INTERVAL_MS) {
+    return []
+  }
+  lastEvaluationAt = now
+  return evaluateScriptRollouts()
+}
+
+/**
+ * Rollout state and telemetry health of one managed script.
+ * @param filename Managed script filename
+ * @returns Current rollout (null when none) and distinct clients of its candidate in script telemetry
+ */
+export async function getManagedScriptRolloutStatus(filename: string): Promise<{ filename: string; rollout: ScriptOtaRollout | null; health: RolloutHealth }> {
+  const index = await readManagedScriptIndex()
+  const script = index.scripts.find((entry) => entry.filename === filename)
+  if (!script) {
+    throw new Error(`File ${filename} not found`)
+  }
+  const { rollout } = resolveScriptOtaPolicy(script.ota)
+  if (!rollout) {
+    return { filename, rollout: null, health: { successes: 0, failures: 0 } }
+  }
+  return { filename, rollout, health: summarizeRolloutHealth(await readRolloutTelemetry(rollout.startedAt), filename, rollout) }
+}
@@ -0,0 +1,36 @@
+/**
+ * What the server and the script test sandbox process exchange. No imports: the server side must not pull the
+ * sandbox's own modules (jsdom, vm) into its bundle.
+ */
+
+/** Per-test limit, covering page loads and awaited assertions */
+export const SCRIPT_TEST_TIMEOUT_MS = 5000
+
+/** Outcome of one `test(...)` */
+export interface ScriptTestCaseResult {
+  name: string
+  status: 'passed' | 'failed'
+  durationMs: number
+  error?: string
+}
+
+/** What the server sends the sandbox process */
+export interface ScriptTestSandboxJob {
+  /** Test filename (for error positions) */
+  testFile: string
+  /** Test file transpiled to JavaScript */
+  testCode: string
+  /** Script under test */
+  target: string
+  /** Script source (for GM_info) */
+  targetSource: string
+  /** Compiled wrapper of the script */
+  compiled: string
+}
+
+/** What the sandbox process reports back, in order: `collected`, then one `case` per test, then `done` */
+export type ScriptTestSandboxMessage =
+  | { type: 'log'; line: string }
+  | { type: 'collected'; names: string[] }
+  | { type: 'case'; result: ScriptTestCaseResult }
+  | { type: 'done'; error?: string }
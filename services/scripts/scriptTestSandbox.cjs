@@ -0,0 +1,31 @@
+/**
+ * Entry of the script test sandbox process forked by `scriptTests.ts`. Plain CommonJS so it runs without a build step:
+ * `.ts` modules and `@/` imports are transpiled on require, then the job the server sends over IPC runs in
+ * `scriptTestSandbox.ts`. The server kills the process once it reports `done`.
+ */
+
+const fs = require('fs')
+const Module = require('module')
+const path = require('path')
+const ts = require('typescript')
+
+const ROOT = path.join(__dirname, '../..')
+
+const resolveFilename = Module._resolveFilename
+Module._resolveFilename = function (request, ...args) {
+  return resolveFilename.call(this, request.startsWith('@/') ? path.join(ROOT, request.slice(2)) : request, ...args)
+}
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+    fileName: filename,
+  })
+  module._compile(outputText, filename)
+}
+
+const { runScriptTestSandboxJob } = require('./scriptTestSandbox.ts')
+
+process.once('message', (job) => {
+  runScriptTestSandboxJob(job, (message) => process.send(message))
+})
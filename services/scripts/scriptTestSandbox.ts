@@ -0,0 +1,249 @@
+/**
+ * Code of the script test sandbox process. Only `scriptTestSandbox.cjs` loads this module: test files and the script
+ * under test run here, in a child process without the server's environment, never in the server itself.
+ *
+ * The vm contexts below separate test code from this module's globals but are not a security boundary: values such as
+ * `expect(...)` matchers and `page.gm` come from this realm. The process is the boundary. It has no environment, may
+ * only read its own modules and is killed when a test blocks, but Node's permission model cannot restrict sockets, so
+ * test code can reach whatever the server host can reach on the network. Deployments that run untrusted tests should
+ * put the server in a network-restricted container.
+ */
+
+import { JSDOM, VirtualConsole } from 'jsdom'
+import { format } from 'util'
+import * as vm from 'vm'
+
+import { SCRIPT_TEST_TIMEOUT_MS, type ScriptTestSandboxJob, type ScriptTestSandboxMessage } from './scriptTestProtocol'
+import type { ScriptTestLoadOptions, ScriptTestPage } from './scriptTests'
+import { createScriptTestGlobals } from './scriptTestStubs'
+
+/** Time given to a loaded page for the script's idle run and its first timers */
+const PAGE_SETTLE_MS = 25
+
+interface ScriptTestCase {
+  name: string
+  run: (context: { load: (url: string, options?: ScriptTestLoadOptions) => Promise<ScriptTestPage> }) => unknown
+}
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/** Structural equality that ignores prototypes: test files, stubs and pages each run in their own realm */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (Object.is(actual, expected)) {
+    return true
+  }
+  if (typeof actual !== 'object' || typeof expected !== 'object' || actual === null || expected === null) {
+    return false
+  }
+  if (Array.isArray(actual) !== Array.isArray(expected)) {
+    return false
+  }
+  const actualKeys = Object.keys(actual)
+  const expectedKeys = Object.keys(expected)
+  return (
+    actualKeys.length === expectedKeys.length &&
+    actualKeys.every((key) => Object.prototype.hasOwnProperty.call(expected, key) && isEqual((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key]))
+  )
+}
+
+function isIterable(value: unknown): value is Iterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.iterator in value
+}
+
+function lengthOf(value: unknown): unknown {
+  return typeof value === 'string' || (typeof value === 'object' && value !== null) ? (value as { length?: unknown }).length : undefined
+}
+
+/**
+ * Timers created inside `context`. Handing it this realm's `setTimeout` would let test code climb
+ * `setTimeout.constructor.constructor` out of the context, and Node's `Timeout` handles expose the same; the
+ * in-context wrappers only pass numeric ids across.
+ * @param context vm context of a test file
+ */
+function createContextTimers(context: vm.Context): { setTimeout: unknown; clearTimeout: unknown } {
+  const handles = new Map<number, NodeJS.Timeout>()
+  let nextId = 1
+  const host = {
+    set: (callback: () => void, ms: number) => {
+      const id = nextId++
+      handles.set(
+        id,
+        setTimeout(() => {
+          handles.delete(id)
+          callback()
+        }, ms)
+      )
+      return id
+    },
+    clear: (id: number) => {
+      clearTimeout(handles.get(id))
+      handles.delete(id)
+    },
+  }
+  const create = new vm.Script(
+    `(host) => ({
+      setTimeout: (callback, ms, ...args) => host.set(() => callback(...args), Number(ms) || 0),
+      clearTimeout: (id) => host.clear(Number(id)),
+    })`
+  ).runInContext(context)
+  return create(host)
+}
+
+/**
+ * Minimal Jest-style `expect` for script tests; every matcher supports `.not`.
+ */
+function createExpect() {
+  const matchers = (actual: unknown, negate: boolean) => {
+    const assert = (pass: boolean, message: string) => {
+      if (pass === negate) {
+        throw new Error(`expect(received)${negate ? '.not' : ''}.${message}`)
+      }
+    }
+    const show = (value: unknown) => format('%o', value)
+
+    return {
+      toBe: (expected: unknown) => assert(Object.is(actual, expected), `toBe(${show(expected)})\nReceived: ${show(actual)}`),
+      toEqual: (expected: unknown) => assert(isEqual(actual, expected), `toEqual(${show(expected)})\nReceived: ${show(actual)}`),
+      toBeTruthy: () => assert(Boolean(actual), `toBeTruthy()\nReceived: ${show(actual)}`),
+      toBeFalsy: () => assert(!actual, `toBeFalsy()\nReceived: ${show(actual)}`),
+      toBeNull: () => assert(actual === null, `toBeNull()\nReceived: ${show(actual)}`),
+      toBeUndefined: () => assert(actual === undefined, `toBeUndefined()\nReceived: ${show(actual)}`),
+      toBeDefined: () => assert(actual !== undefined, `toBeDefined()\nReceived: ${show(actual)}`),
+      toContain: (expected: unknown) =>
+        assert(
+          typeof actual === 'string' ? actual.includes(String(expected)) : isIterable(actual) && Array.from(actual).some((item) => isEqual(item, expected)),
+          `toContain(${show(expected)})\nReceived: ${show(actual)}`
+        ),
+      toHaveLength: (expected: number) => assert(lengthOf(actual) === expected, `toHaveLength(${expected})\nReceived length: ${show(lengthOf(actual))}`),
+      toMatch: (expected: RegExp | string) =>
+        assert(
+          typeof actual === 'string' && (typeof expected === 'string' ? actual.includes(expected) : expected.test(actual)),
+          `toMatch(${show(expected)})\nReceived: ${show(actual)}`
+        ),
+      toBeGreaterThan: (expected: number) => assert(typeof actual === 'number' && actual > expected, `toBeGreaterThan(${expected})\nReceived: ${show(actual)}`),
+      toBeLessThan: (expected: number) => assert(typeof actual === 'number' && actual < expected, `toBeLessThan(${expected})\nReceived: ${show(actual)}`),
+    }
+  }
+
+  return (actual: unknown) => ({ ...matchers(actual, false), not: matchers(actual, true) })
+}
+
+/**
+ * Collect the `test(...)` cases a test file declares.
+ * @param file Test filename (for error positions)
+ * @param code Transpiled test file
+ * @param log Receives the file's console output
+ */
+function collectScriptTestCases(file: string, code: string, log: (line: string) => void): ScriptTestCase[] {
+  const cases: ScriptTestCase[] = []
+  const prefixes: string[] = []
+  const logLevel =
+    (level: string) =>
+    (...args: unknown[]) =>
+      log(`${level}: ${format(...args)}`)
+  const context = vm.createContext({
+    test: (name: string, run: ScriptTestCase['run']) => cases.push({ name: [...prefixes, name].join(' › '), run }),
+    describe: (name: string, declare: () => void) => {
+      prefixes.push(name)
+      try {
+        declare()
+      } finally {
+        prefixes.pop()
+      }
+    },
+    expect: createExpect(),
+    console: { log: logLevel('log'), info: logLevel('info'), warn: logLevel('warn'), error: logLevel('error'), debug: logLevel('debug') },
+  })
+  Object.assign(context, createContextTimers(context))
+  new vm.Script(code, { filename: file }).runInContext(context, { timeout: SCRIPT_TEST_TIMEOUT_MS })
+  return cases
+}
+
+/**
+ * Open a jsdom page at `url`, install the GM stubs and run the compiled script wrapper in it.
+ * @param job Script under test
+ * @param url Page URL
+ * @param options Page HTML, seeded GM storage and canned responses
+ */
+async function loadScriptTestPage(job: ScriptTestSandboxJob, url: string, options: ScriptTestLoadOptions = {}): Promise<{ page: ScriptTestPage; close: () => void }> {
+  const virtualConsole = new VirtualConsole()
+  const dom = new JSDOM(options.html ?? '<!DOCTYPE html><html><head></head><body></body></html>', {
+    url,
+    runScripts: 'outside-only',
+    pretendToBeVisual: true,
+    virtualConsole,
+  })
+  const { window } = dom
+  const { globals, gm } = createScriptTestGlobals(window, { file: job.target, source: job.targetSource, values: options.values, responses: options.responses })
+
+  for (const level of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    virtualConsole.on(level, (...args: unknown[]) => gm.logs.push(`${level}: ${format(...args)}`))
+  }
+  virtualConsole.on('jsdomError', (error) => gm.errors.push(error.message))
+  Object.assign(window, globals)
+
+  const wait = (ms = PAGE_SETTLE_MS) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+  new vm.Script(job.compiled, { filename: job.target }).runInContext(dom.getInternalVMContext(), { timeout: SCRIPT_TEST_TIMEOUT_MS })
+  if (window.document.readyState !== 'complete') {
+    await new Promise<void>((resolve) => window.addEventListener('load', () => resolve(), { once: true }))
+  }
+  await wait()
+
+  return {
+    page: { window: window as unknown as Window, document: window.document, gm, wait },
+    close: () => window.close(),
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Run every test of a test file, reporting progress as it goes so the server can stop the process when a test
+ * blocks the event loop.
+ * @param job Test file and the compiled script under test
+ * @param report Sends a message to the server
+ */
+export async function runScriptTestSandboxJob(job: ScriptTestSandboxJob, report: (message: ScriptTestSandboxMessage) => void): Promise<void> {
+  let cases: ScriptTestCase[]
+  try {
+    cases = collectScriptTestCases(job.testFile, job.testCode, (line) => report({ type: 'log', line }))
+  } catch (error) {
+    report({ type: 'done', error: formatError(error) })
+    return
+  }
+  report({ type: 'collected', names: cases.map(({ name }) => name) })
+
+  for (const testCase of cases) {
+    const testStartedAt = Date.now()
+    const pages: Array<() => void> = []
+    const load = async (url: string, loadOptions?: ScriptTestLoadOptions) => {
+      const { page, close } = await loadScriptTestPage(job, url, loadOptions)
+      pages.push(close)
+      return page
+    }
+
+    try {
+      await withTimeout(
+        Promise.resolve().then(() => testCase.run({ load })),
+        SCRIPT_TEST_TIMEOUT_MS,
+        `Test timed out after ${SCRIPT_TEST_TIMEOUT_MS}ms`
+      )
+      report({ type: 'case', result: { name: testCase.name, status: 'passed', durationMs: Date.now() - testStartedAt } })
+    } catch (error) {
+      report({ type: 'case', result: { name: testCase.name, status: 'failed', durationMs: Date.now() - testStartedAt, error: formatError(error) } })
+    } finally {
+      pages.forEach((close) => close())
+    }
+  }
+
+  report({ type: 'done' })
+}
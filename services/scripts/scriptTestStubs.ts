@@ -0,0 +1,348 @@
+import type { DOMWindow } from 'jsdom'
+
+import { editorTypingsSource } from '@/lib/tampermonkey-editor-typings.generated'
+import { extractMeta } from '@/services/tampermonkey/meta'
+import { buildScriptSettingsGmKey, resolveScriptSettings, type ScriptSettingField } from '@/shared/script-settings'
+import { matchScriptUrl, type ScriptUrlMatchRules } from '@/shared/url-pattern-match'
+
+/** One recorded GM_* / GME_* call */
+export interface ScriptTestCall {
+  name: string
+  args: unknown[]
+}
+
+/** A notification shown through GM_notification or GME_notification */
+export interface ScriptTestNotification {
+  id: string
+  text: string
+  title?: string
+  /** GME_notification type (`success`, `error`, …) */
+  type?: string
+  closed: boolean
+}
+
+/** A menu command registered through GM_registerMenuCommand or GME_registerMenuCommand */
+export interface ScriptTestMenuCommand {
+  id: string
+  name: string
+  /** Invoke the command as if it was clicked in the menu */
+  run: () => void
+}
+
+/** A GM_xmlhttpRequest / GME_fetch request */
+export interface ScriptTestRequest {
+  method: string
+  url: string
+  headers: Record<string, string>
+  data?: unknown
+}
+
+/** Canned response for a request URL; a string is a 200 body */
+export type ScriptTestResponse = string | { status?: number; body?: string; headers?: Record<string, string> }
+
+/** Recorded GM state of one test page, exposed to tests as `page.gm` */
+export interface ScriptTestGm {
+  /** GM storage (GM_setValue / GM_getValue); seeded from the load options */
+  values: Record<string, unknown>
+  /** Every GM_* / GME_* call, in order */
+  calls: ScriptTestCall[]
+  notifications: ScriptTestNotification[]
+  menuCommands: ScriptTestMenuCommand[]
+  /** GM_log, GME_ok / GME_info / GME_warn / GME_fail and console output, as `level: message` */
+  logs: string[]
+  requests: ScriptTestRequest[]
+  /** URLs opened with GM_openInTab */
+  tabs: string[]
+  /** Text copied with GM_setClipboard */
+  clipboard: string[]
+  /** Errors the script threw while running, and page errors */
+  errors: string[]
+  /**
+   * Calls of one GM function
+   * @param name Function name, e.g. `GM_setValue`
+   */
+  called: (name: string) => ScriptTestCall[]
+}
+
+/** Options for the GM stubs of one test page */
+export interface ScriptTestStubOptions {
+  /** Script under test */
+  file: string
+  /** Script source (for GM_info) */
+  source: string
+  values?: Record<string, unknown>
+  responses?: Record<string, ScriptTestResponse>
+}
+
+const DECLARED_GM_FUNCTION_RE = /^declare function (GM_\w+|GME_\w+)\b/gm
+
+/**
+ * GM_* / GME_* functions declared in the editor typings; those without a stub are recorded and return undefined.
+ */
+function listDeclaredGmFunctions(): string[] {
+  return Array.from(new Set(Array.from(editorTypingsSource.matchAll(DECLARED_GM_FUNCTION_RE), (match) => match[1])))
+}
+
+function formatLogArgs(args: unknown[]): string {
+  return args.map((arg) => (typeof arg === 'string' ? arg : arg instanceof Error ? arg.message : JSON.stringify(arg))).join(' ')
+}
+
+/** Round-trip through JSON like the real value storage, so tests see what a reload would */
+function cloneValue<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T)
+}
+
+function toResponse(response: ScriptTestResponse | undefined): { status: number; body: string; headers: Record<string, string> } {
+  if (response === undefined) {
+    return { status: 404, body: '', headers: {} }
+  }
+  if (typeof response === 'string') {
+    return { status: 200, body: response, headers: {} }
+  }
+  return { status: response.status ?? 200, body: response.body ?? '', headers: response.headers ?? {} }
+}
+
+/**
+ * Build the globals a compiled script wrapper expects (runtime hooks, injected constants and GM_* / GME_* APIs),
+ * backed by an in-memory recorder instead of the preset.
+ * @param window Test page window
+ * @param options Script and seeded state
+ * @returns Globals to install on the window and the recorder tests inspect
+ */
+export function createScriptTestGlobals(window: DOMWindow, options: ScriptTestStubOptions): { globals: Record<string, unknown>; gm: ScriptTestGm } {
+  const gm: ScriptTestGm = {
+    values: cloneValue(options.values ?? {}),
+    calls: [],
+    notifications: [],
+    menuCommands: [],
+    logs: [],
+    requests: [],
+    tabs: [],
+    clipboard: [],
+    errors: [],
+    called: (name) => gm.calls.filter((call) => call.name === name),
+  }
+  const valueListeners = new Map<string, { key: string; callback: (name: string, oldValue: unknown, newValue: unknown, remote: boolean) => void }>()
+  let settingFields: ScriptSettingField[] = []
+  const resources: Record<string, { url: string; text: string | null }> = {}
+  let nextId = 0
+  const createId = (prefix: string) => `${prefix}-${++nextId}`
+
+  const setValue = (key: string, value: unknown) => {
+    const oldValue = gm.values[key]
+    if (value === undefined) {
+      delete gm.values[key]
+    } else {
+      gm.values[key] = cloneValue(value)
+    }
+    for (const listener of valueListeners.values()) {
+      if (listener.key === key) listener.callback(key, cloneValue(oldValue), cloneValue(value), false)
+    }
+  }
+
+  const request = (details: { method?: string; url: string; headers?: Record<string, string>; data?: unknown }) => {
+    const url = new URL(details.url, window.location.href).href
+    gm.requests.push({ method: (details.method ?? 'GET').toUpperCase(), url, headers: details.headers ?? {}, ...(details.data !== undefined ? { data: details.data } : {}) })
+    return toResponse(options.responses?.[url] ?? options.responses?.[details.url])
+  }
+
+  const meta = extractMeta(options.source)
+  const metaList = (value: string | string[] | undefined) => (value === undefined ? [] : Array.isArray(value) ? value : [value])
+
+  const api: Record<string, (...args: any[]) => unknown> = {
+    GM_setValue: (key: string, value: unknown) => setValue(key, value),
+    GM_getValue: (key: string, defaultValue?: unknown) => (key in gm.values ? cloneValue(gm.values[key]) : defaultValue),
+    GM_deleteValue: (key: string) => setValue(key, undefined),
+    GM_listValues: () => Object.keys(gm.values),
+    GM_setValues: (values: Record<string, unknown>) => Object.entries(values).forEach(([key, value]) => setValue(key, value)),
+    GM_getValues: (keys: string[] | Record<string, unknown>) =>
+      Object.fromEntries(
+        (Array.isArray(keys) ? keys.map((key) => [key, undefined] as const) : Object.entries(keys))
+          .filter(([key, defaultValue]) => key in gm.values || defaultValue !== undefined)
+          .map(([key, defaultValue]) => [key, key in gm.values ? cloneValue(gm.values[key]) : defaultValue])
+      ),
+    GM_deleteValues: (keys: string[]) => keys.forEach((key) => setValue(key, undefined)),
+    GM_addValueChangeListener: (key: string, callback: (name: string, oldValue: unknown, newValue: unknown, remote: boolean) => void) => {
+      const id = createId('listener')
+      valueListeners.set(id, { key, callback })
+      return id
+    },
+    GM_removeValueChangeListener: (id: string) => valueListeners.delete(id),
+    GM_log: (...messages: unknown[]) => gm.logs.push(`log: ${formatLogArgs(messages)}`),
+    GM_setClipboard: (data: unknown) => gm.clipboard.push(String(data)),
+    GM_registerMenuCommand: (name: string, callback: (event: unknown) => void, optionsOrAccessKey?: { id?: number | string } | string) => {
+      const id = typeof optionsOrAccessKey === 'object' && optionsOrAccessKey.id !== undefined ? String(optionsOrAccessKey.id) : createId('menu')
+      gm.menuCommands = gm.menuCommands.filter((command) => command.id !== id)
+      gm.menuCommands.push({ id, name, run: () => callback(new window.MouseEvent('click')) })
+      return id
+    },
+    GM_unregisterMenuCommand: (id: number | string) => {
+      gm.menuCommands = gm.menuCommands.filter((command) => command.id !== String(id))
+    },
+    GME_registerMenuCommand: (item: { id: string; text: string; action?: () => void }) => {
+      gm.menuCommands = gm.menuCommands.filter((command) => command.id !== item.id)
+      gm.menuCommands.push({ id: item.id, name: item.text, run: () => item.action?.() })
+      return item.id
+    },
+    GM_notification: (details: { text: string; title?: string; onclick?: () => void } | string, titleOrOndone?: string | (() => void)) => {
+      const text = typeof details === 'string' ? details : details.text
+      const title = typeof details === 'string' ? (typeof titleOrOndone === 'string' ? titleOrOndone : undefined) : details.title
+      gm.notifications.push({ id: createId('notification'), text, ...(title ? { title } : {}), closed: false })
+    },
+    GME_notification: (message: string, type = 'info') => {
+      const id = createId('notification')
+      gm.notifications.push({ id, text: message, type, closed: false })
+      return id
+    },
+    GME_notification_update: (id: string, updates: { message?: string; type?: string }) => {
+      const notification = gm.notifications.find((entry) => entry.id === id)
+      if (!notification) return
+      if (updates.message !== undefined) notification.text = updates.message
+      if (updates.type !== undefined) notification.type = updates.type
+    },
+    GME_notification_close: (id: string) => {
+      const notification = gm.notifications.find((entry) => entry.id === id)
+      if (notification) notification.closed = true
+    },
+    GM_openInTab: (url: string) => {
+      gm.tabs.push(url)
+      return { close: () => {}, closed: false, onclose: null }
+    },
+    GM_getResourceText: (name: string) => resources[name]?.text ?? null,
+    GM_getResourceURL: (name: string) => resources[name]?.url ?? null,
+    GM_addStyle: (css: string) => {
+      const style = window.document.createElement('style')
+      style.textContent = css
+      ;(window.document.head ?? window.document.documentElement).appendChild(style)
+      return style
+    },
+    GM_addElement: (...args: unknown[]) => {
+      const [parent, tag, attributes] = typeof args[0] === 'string' ? [window.document.head ?? window.document.documentElement, args[0], args[1]] : args
+      const element = window.document.createElement(tag as string)
+      for (const [name, value] of Object.entries((attributes as Record<string, unknown>) ?? {})) {
+        if (name === 'textContent') element.textContent = String(value)
+        else element.setAttribute(name, String(value))
+      }
+      ;(parent as Element).appendChild(element)
+      return element
+    },
+    GM_xmlhttpRequest: (details: {
+      method?: string
+      url: string
+      headers?: Record<string, string>
+      data?: unknown
+      onload?: (response: unknown) => void
+      onloadend?: (response: unknown) => void
+    }) => {
+      const { status, body, headers } = request(details)
+      const response = {
+        status,
+        statusText: status === 200 ? 'OK' : String(status),
+        responseText: body,
+        response: body,
+        responseHeaders: Object.entries(headers)
+          .map(([name, value]) => `${name}: ${value}`)
+          .join('\r\n'),
+        finalUrl: new URL(details.url, window.location.href).href,
+        readyState: 4,
+      }
+      window.setTimeout(() => {
+        details.onload?.(response)
+        details.onloadend?.(response)
+      }, 0)
+      return { abort: () => {} }
+    },
+    GME_fetch: async (input: string | URL | { url: string }, init?: { method?: string; headers?: Record<string, string>; body?: unknown }) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+      const { status, body, headers } = request({ method: init?.method, url, headers: init?.headers, data: init?.body })
+      return new Response(status === 204 ? null : body, { status, headers })
+    },
+    GME_ok: (...contents: unknown[]) => gm.logs.push(`ok: ${formatLogArgs(contents)}`),
+    GME_info: (...contents: unknown[]) => gm.logs.push(`info: ${formatLogArgs(contents)}`),
+    GME_warn: (...contents: unknown[]) => gm.logs.push(`warn: ${formatLogArgs(contents)}`),
+    GME_fail: (...contents: unknown[]) => gm.logs.push(`fail: ${formatLogArgs(contents)}`),
+    GME_sleep: (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms)),
+    GME_uuid: () => crypto.randomUUID(),
+    GME_isVisible: (element: Element | null | undefined) => Boolean(element?.isConnected),
+    GME_debounce: (fn: (...args: unknown[]) => void, wait: number) => {
+      let timer: number | undefined
+      return (...args: unknown[]) => {
+        window.clearTimeout(timer)
+        timer = window.setTimeout(() => fn(...args), wait)
+      }
+    },
+    GME_throttle: (fn: (...args: unknown[]) => void, wait: number) => {
+      let last = 0
+      return (...args: unknown[]) => {
+        const now = Date.now()
+        if (now - last >= wait) {
+          last = now
+          fn(...args)
+        }
+      }
+    },
+    GME_waitFor: async (query: () => unknown, options?: { timeout?: boolean | number }) => {
+      const timeout = typeof options?.timeout === 'number' ? options.timeout : 3000
+      const deadline = Date.now() + timeout
+      for (;;) {
+        const result = await query()
+        const found = Array.isArray(result) ? result.length > 0 : result instanceof window.NodeList ? result.length > 0 : Boolean(result)
+        if (found) return result
+        if (Date.now() >= deadline) throw new Error('GME_waitFor timed out')
+        await new Promise((resolve) => window.setTimeout(resolve, 20))
+      }
+    },
+  }
+
+  const recorded = (name: string, fn: (...args: any[]) => unknown = () => undefined) =>
+    function (...args: unknown[]) {
+      gm.calls.push({ name, args })
+      return fn(...args)
+    }
+
+  const globals: Record<string, unknown> = {}
+  for (const name of new Set([...listDeclaredGmFunctions(), ...Object.keys(api)])) {
+    globals[name] = recorded(name, api[name])
+  }
+
+  Object.assign(globals, {
+    GM_info: {
+      scriptHandler: 'MagickMonkey script tests',
+      version: 'test',
+      script: {
+        name: meta.name ?? options.file,
+        namespace: meta.namespace ?? null,
+        version: meta.version ?? '0.0.0',
+        description: meta.description ?? '',
+        grant: metaList(meta.grant),
+        connects: metaList(meta.connect),
+        matches: metaList(meta.match),
+      },
+    },
+    unsafeWindow: window,
+    __GLOBAL__: window,
+    __BASE_URL__: window.location.origin,
+    __RULE_API_URL__: `${window.location.origin}/api/tampermonkey/test/rule`,
+    __EDITOR_URL__: `${window.location.origin}/editor`,
+    __PROJECT_VERSION__: 'test',
+    __SCRIPT_UPDATED_AT__: String(Date.now()),
+    __PRESET_BUILD_HASH__: 'test',
+    // Runtime hooks the compiled wrapper calls (see getExecutionWrapper); RULE wildcards do not apply here
+    matchScript: (_file: string, rules: ScriptUrlMatchRules) => matchScriptUrl(rules, window.location.href),
+    beginScriptRunTrace: () => 'script-test',
+    endScriptRunTrace: () => {},
+    enterScriptPermissionScope: () => {},
+    exitScriptPermissionScope: () => {},
+    enterScriptLogScope: () => {},
+    exitScriptLogScope: () => {},
+    seedScriptConnectPermissions: () => {},
+    registerScriptResources: (_file: string, entries: Record<string, { url: string; text: string | null }>) => Object.assign(resources, entries),
+    registerScriptSettings: (_file: string, fields: ScriptSettingField[]) => {
+      settingFields = fields
+    },
+    GME_getSettings: () => resolveScriptSettings(settingFields, gm.values[buildScriptSettingsGmKey(options.file)]),
+    reportScriptTelemetryError: (_file: string, error: unknown) => gm.errors.push(error instanceof Error ? error.message : String(error)),
+  })
+
+  return { globals, gm }
+}
@@ -0,0 +1,252 @@
+import { fork } from 'child_process'
+import { join } from 'path'
+import * as ts from 'typescript'
+
+import { getScriptTestTargetCandidates, isManagedScriptFilename, isScriptTestFilename } from '@/constants/file'
+import { getScriptStorage } from '@/services/storage'
+import { getRemoteScriptContent } from '@/services/tampermonkey/createUserScript.server'
+
+import { createScriptAssetResolver } from './scriptAssets'
+import { collectScriptModuleSources, hasScriptModuleSyntax } from './scriptModules'
+import { SCRIPT_TEST_TIMEOUT_MS, type ScriptTestCaseResult, type ScriptTestSandboxJob, type ScriptTestSandboxMessage } from './scriptTestProtocol'
+import type { ScriptTestGm, ScriptTestResponse } from './scriptTestStubs'
+
+export type { ScriptTestCaseResult } from './scriptTestProtocol'
+
+/** Outcome of one `*.test.ts` file */
+export interface ScriptTestFileResult {
+  file: string
+  /** Managed script the file tests; null when none exists */
+  target: string | null
+  tests: ScriptTestCaseResult[]
+  passed: number
+  failed: number
+  /** Set when the file could not run at all (missing target, compile or syntax error) */
+  error?: string
+  /** Console output of the test file */
+  logs: string[]
+  durationMs: number
+}
+
+/** Options of `load(url, options)` in a test */
+export interface ScriptTestLoadOptions {
+  /** Page HTML (default: an empty document) */
+  html?: string
+  /** Seeded GM storage */
+  values?: Record<string, unknown>
+  /** Canned responses for GM_xmlhttpRequest / GME_fetch by URL; other URLs get a 404 */
+  responses?: Record<string, ScriptTestResponse>
+}
+
+/** Page a test loaded, with the script already run against it */
+export interface ScriptTestPage {
+  window: Window
+  document: Document
+  gm: ScriptTestGm
+  /** Let the page's timers and promises run */
+  wait: (ms?: number) => Promise<void>
+}
+
+/** Entry of the sandbox process; test files and scripts never run in the server process */
+const SANDBOX_ENTRY_PATH = join(process.cwd(), 'services/scripts/scriptTestSandbox.cjs')
+
+// Resolved, never loaded: only the sandbox process uses jsdom, but it has to stay in the server's file trace.
+require.resolve('jsdom')
+
+/** Directories the sandbox may read: its own modules and their dependencies, not the project root and its `.env*` files */
+const SANDBOX_READ_PATHS = ['node_modules', 'services', 'shared', 'lib'].map((directory) => join(process.cwd(), directory))
+
+/** Time the sandbox has to load its modules and collect the tests */
+const SANDBOX_START_TIMEOUT_MS = 30_000
+
+/** Time over the per-test limit after which a silent sandbox is killed (a test blocking its event loop) */
+const SANDBOX_KILL_GRACE_MS = 2000
+
+const SANDBOX_MAX_OLD_SPACE_MB = 256
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Transpile a test file; type errors are left to the editor, syntax errors fail the file.
+ * @param file Test filename (for error positions)
+ * @param source Test source; plain TypeScript without imports
+ */
+function transpileScriptTestFile(file: string, source: string): string {
+  if (hasScriptModuleSyntax(source)) {
+    throw new Error(`${file}: script tests cannot use import / export; \`test\`, \`expect\` and \`load\` are globals`)
+  }
+
+  const { outputText, diagnostics } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.None, target: ts.ScriptTarget.ES2022, removeComments: true },
+    fileName: file,
+    reportDiagnostics: true,
+  })
+  const error = diagnostics?.find((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+  if (error) {
+    const position = error.file && error.start !== undefined ? error.file.getLineAndCharacterOfPosition(error.start) : null
+    throw new Error(`${file}${position ? ` (${position.line + 1}:${position.character + 1})` : ''}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`)
+  }
+  return outputText
+}
+
+/** Memory cap and, where Node supports it, the permission model: no child processes, workers or addons, reads limited to SANDBOX_READ_PATHS */
+function getSandboxExecArgv(): string[] {
+  const flags = process.allowedNodeEnvironmentFlags
+  const permission = flags.has('--permission') ? '--permission' : flags.has('--experimental-permission') ? '--experimental-permission' : null
+  return [`--max-old-space-size=${SANDBOX_MAX_OLD_SPACE_MB}`, ...(permission ? [permission, ...SANDBOX_READ_PATHS.map((directory) => `--allow-fs-read=${directory}`)] : [])]
+}
+
+/**
+ * Run a test file in a fresh sandbox process. The process gets an empty environment (no server secrets) and is
+ * killed with SIGKILL when it reports `done`, exits, or stays silent longer than a test may take; a test that loops
+ * after an `await` fails with a timeout instead of blocking the server.
+ * @param job Test file and the compiled script under test
+ * @param logs Receives the test file's console output
+ */
+function runInSandbox(job: ScriptTestSandboxJob, logs: string[]): Promise<{ tests: ScriptTestCaseResult[]; error?: string }> {
+  return new Promise((resolve) => {
+    const tests: ScriptTestCaseResult[] = []
+    let names: string[] | null = null
+    let caseStartedAt = Date.now()
+    let stderr = ''
+    let timer: NodeJS.Timeout | undefined
+    let settled = false
+
+    const child = fork(SANDBOX_ENTRY_PATH, [], { env: {} as NodeJS.ProcessEnv, execArgv: getSandboxExecArgv(), stdio: ['ignore', 'ignore', 'pipe', 'ipc'] })
+
+    const finish = (error?: string) => {
+      if (settled) {
+        return
+      }
+      settled = true
+      clearTimeout(timer)
+      child.kill('SIGKILL')
+      resolve({ tests, ...(error ? { error } : {}) })
+    }
+
+    const onTimeout = () => {
+      if (!names) {
+        finish(`Script test sandbox did not start within ${SANDBOX_START_TIMEOUT_MS}ms`)
+        return
+      }
+      names.slice(tests.length).forEach((name, index) => {
+        tests.push(
+          index === 0
+            ? { name, status: 'failed', durationMs: Date.now() - caseStartedAt, error: `Test timed out after ${SCRIPT_TEST_TIMEOUT_MS}ms` }
+            : { name, status: 'failed', durationMs: 0, error: 'Not run: the sandbox was stopped after a timeout' }
+        )
+      })
+      finish()
+    }
+
+    const watch = (ms: number) => {
+      clearTimeout(timer)
+      timer = setTimeout(onTimeout, ms)
+    }
+
+    child.on('message', (message: ScriptTestSandboxMessage) => {
+      switch (message.type) {
+        case 'log':
+          logs.push(message.line)
+          return
+        case 'collected':
+          names = message.names
+          break
+        case 'case':
+          tests.push(message.result)
+          break
+        case 'done':
+          finish(message.error)
+          return
+      }
+      caseStartedAt = Date.now()
+      watch(SCRIPT_TEST_TIMEOUT_MS + SANDBOX_KILL_GRACE_MS)
+    })
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-4096)
+    })
+    child.on('error', (error) => finish(formatError(error)))
+    child.on('exit', (code, signal) => {
+      const reason = stderr.match(/^\w*Error\b.*$/m)?.[0]
+      finish(`Script test sandbox exited (${signal ?? code})${reason ? `: ${reason}` : ''}`)
+    })
+
+    watch(SANDBOX_START_TIMEOUT_MS)
+    child.send(job)
+  })
+}
+
+/**
+ * Run one script test file against its target script (`demo.test.ts` tests `demo.ts` / `demo.js`).
+ * Each test gets `load(url, options)`, which runs the target, compiled as the launcher serves it, in a fresh jsdom
+ * page with recorded GM_* stubs. Tests and the script run in a sandbox process (see `runInSandbox`), not in the server.
+ * @param testFile Test filename
+ * @param options `sources` are unsaved buffers taking precedence over stored files
+ * @returns Per-test results; a file that cannot run reports `error` and no tests
+ */
+export async function runScriptTestFile(testFile: string, options: { sources?: Record<string, string> } = {}): Promise<ScriptTestFileResult> {
+  const startedAt = Date.now()
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const sources = options.sources ?? {}
+  const readSource = (file: string) => sources[file] ?? snapshot.files[file]?.content
+
+  const logs: string[] = []
+  const target = getScriptTestTargetCandidates(testFile).find((candidate) => readSource(candidate) !== undefined) ?? null
+  const result: ScriptTestFileResult = { file: testFile, target, tests: [], passed: 0, failed: 0, logs, durationMs: 0 }
+  const finish = (error?: string) => ({ ...result, ...(error ? { error } : {}), durationMs: Date.now() - startedAt })
+
+  const testSource = readSource(testFile)
+  if (!isScriptTestFilename(testFile) || testSource === undefined) {
+    return finish(`Script test not found: ${testFile}`)
+  }
+  if (!target) {
+    return finish(`No script to test: expected one of ${getScriptTestTargetCandidates(testFile).join(', ')}`)
+  }
+
+  const targetSource = readSource(target)!
+  let testCode: string
+  let compiled: string
+  try {
+    testCode = transpileScriptTestFile(testFile, testSource)
+    const overrides = Object.fromEntries(Object.entries(sources).filter(([file]) => isManagedScriptFilename(file)))
+    compiled = await getRemoteScriptContent(
+      { [target]: targetSource },
+      {
+        strictCompile: true,
+        scriptBuiltAt: startedAt,
+        assets: createScriptAssetResolver(snapshot.files),
+        modules: collectScriptModuleSources(snapshot.files, overrides),
+        includeBackground: true,
+      }
+    )
+  } catch (error) {
+    return finish(formatError(error))
+  }
+
+  const { tests, error } = await runInSandbox({ testFile, testCode, target, targetSource, compiled }, logs)
+  result.tests = tests
+  result.passed = tests.filter(({ status }) => status === 'passed').length
+  result.failed = tests.length - result.passed
+  return finish(error)
+}
+
+/**
+ * Run script test files; by default every `*.test.ts` / `*.test.js` in storage and in `sources`.
+ * @param options `files` limits the run; `sources` are unsaved buffers taking precedence over stored files
+ * @returns One result per test file, in filename order
+ */
+export async function runScriptTests(options: { files?: string[]; sources?: Record<string, string> } = {}): Promise<ScriptTestFileResult[]> {
+  let files = options.files
+  if (!files) {
+    const snapshot = await getScriptStorage().fetchSnapshot()
+    files = Array.from(new Set([...Object.keys(snapshot.files), ...Object.keys(options.sources ?? {})])).filter(isScriptTestFilename)
+  }
+
+  const results: ScriptTestFileResult[] = []
+  for (const file of Array.from(new Set(files)).sort()) {
+    results.push(await runScriptTestFile(file, { sources: options.sources }))
+  }
+  return results
+}
@@ -0,0 +1,417 @@
+import * as ts from 'typescript'
+
+import { ENTRY_SCRIPT_RULES_FILE, isManagedScriptFilename, SCRIPT_INDEX_FILE } from '@/constants/file'
+import { getScriptStorage } from '@/services/storage'
+import { clearMeta, extractMeta } from '@/services/tampermonkey/meta'
+import { isRuleConfig, type RuleConfig } from '@/services/tampermonkey/types'
+import { isScriptSemverVersion, normalizeSemverVersion } from '@/shared/semver-compare'
+
+import { importManagedScriptFiles, type ScriptFileMeta } from './gistScripts'
+import { fetchPublicUrl, SCRIPT_ASSET_MAX_BYTES } from './scriptAssets'
+import { bundleScriptModule, hasScriptModuleSyntax } from './scriptModules'
+import { readZipArchive, writeZipArchive, type ZipEntry } from './zipArchive'
+
+/** Timeout when fetching a `.user.js` to import. */
+const USERSCRIPT_FETCH_TIMEOUT_MS = 15_000
+
+/** Directory of raw managed sources inside a backup archive. */
+const BACKUP_SCRIPTS_DIR = 'scripts/'
+
+/** Violentmonkey backup manifest (script states keyed by script name). */
+const VIOLENTMONKEY_MANIFEST = 'violentmonkey'
+
+const HEADER_RE = /\/\/ ==UserScript==[\s\S]*?\/\/ ==\/UserScript==/
+
+const USERSCRIPT_SUFFIX = '.user.js'
+
+/** One script found in an import source, ready to be written as a managed script */
+export interface ScriptImportCandidate {
+  /** Managed filename the script is written to */
+  filename: string
+  /** Archive entry or URL the script came from */
+  source: string
+  /** Userscript @name */
+  name: string
+  /** @version after normalization */
+  version: string
+  /** Source with a managed-script compatible header */
+  content: string
+  /** Search aliases for the script index (localized `@name:xx` values) */
+  aliases: string[]
+  /** Search keywords for the script index (`@tag` values) */
+  keywords: string[]
+  /** False when the source script manager had the script disabled */
+  enabled: boolean
+  /** A managed script with this filename already exists */
+  exists: boolean
+  /** Changes made to fit managed scripts, e.g. a normalized @version */
+  warnings: string[]
+}
+
+/** Scripts and rules found in an import source */
+export interface ScriptImportPreview {
+  scripts: ScriptImportCandidate[]
+  /** URL rules of a backup archive; null for other sources */
+  rules: RuleConfig[] | null
+  /** Entries that cannot be imported, with the reason */
+  skipped: Array<{ source: string; reason: string }>
+}
+
+/** Where scripts are imported from */
+export type ScriptImportSource =
+  /** Tampermonkey / Violentmonkey zip export, or a backup archive from {@link buildScriptBackupArchive} */
+  | { kind: 'archive'; data: Buffer }
+  /** One uploaded `.user.js` */
+  | { kind: 'userscript'; name: string; content: string }
+  /** URL of a `.user.js` */
+  | { kind: 'url'; url: string }
+
+/** Script selected in the import wizard */
+export type ScriptImportWrite = Pick<ScriptImportCandidate, 'filename' | 'content' | 'aliases' | 'keywords'>
+
+function metaValues(value: string | string[] | undefined): string[] {
+  const values = !value ? [] : Array.isArray(value) ? value : [value]
+  return values.map((item) => item.trim()).filter(Boolean)
+}
+
+/**
+ * Managed filename for an imported script: its @name (or source file name) as a lowercase slug.
+ * @param name Userscript @name or source file name
+ */
+export function toImportedScriptFilename(name: string): string {
+  const slug = name
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/\.user\.js$|\.js$|\.ts$/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64)
+    .replace(/-+$/, '')
+  return `${slug || 'script'}.js`
+}
+
+/**
+ * Turn a version used by other script managers into the semver managed scripts require.
+ * @param version Raw @version (may be missing)
+ * @returns Semver version, or null when `version` is already valid
+ */
+function normalizeImportedVersion(version: string | undefined): string | null {
+  if (version && isScriptSemverVersion(version)) {
+    return null
+  }
+  const parts = (version ? normalizeSemverVersion(version) : '').match(/\d+/g) ?? []
+  if (parts.length === 0) {
+    return '1.0.0'
+  }
+  return [...parts, '0', '0'].slice(0, 3).map(Number).join('.')
+}
+
+/**
+ * Convert a userscript from another script manager into a managed script candidate.
+ * @param content `.user.js` source
+ * @param source Archive entry or URL, for messages
+ * @param options Target filename and index metadata to use instead of the header-derived values
+ * @returns Candidate (not yet checked against storage)
+ */
+export function convertUserscriptForImport(
+  content: string,
+  source: string,
+  options: { filename?: string; enabled?: boolean; aliases?: string[]; keywords?: string[] } = {}
+): ScriptImportCandidate {
+  const header = HEADER_RE.exec(content)?.[0]
+  if (!header) {
+    throw new Error('No // ==UserScript== header')
+  }
+
+  const meta = extractMeta(content)
+  const name = metaValues(meta.name)[0] ?? source.split('/').pop() ?? source
+  const warnings: string[] = []
+  let nextHeader = header
+
+  const rawVersion = metaValues(meta.version)[0]
+  const normalized = normalizeImportedVersion(rawVersion)
+  if (normalized) {
+    if (rawVersion) {
+      nextHeader = nextHeader.replace(/^(\s*\/\/\s*@version\s+)[^\r\n]*$/m, `$1${normalized}`)
+      warnings.push(`@version ${rawVersion} normalized to ${normalized}`)
+    } else {
+      nextHeader = nextHeader.replace(/\/\/ ==\/UserScript==$/, `// @version      ${normalized}\n// ==/UserScript==`)
+      warnings.push(`Missing @version set to ${normalized}`)
+    }
+  }
+
+  const localizedNames = Object.entries(meta)
+    .filter(([key]) => key.startsWith('name:'))
+    .flatMap(([, value]) => metaValues(value))
+
+  return {
+    filename: options.filename ?? toImportedScriptFilename(name),
+    source,
+    name,
+    version: normalized ?? normalizeSemverVersion(rawVersion!),
+    content: content.replace(header, nextHeader),
+    aliases: options.aliases ?? localizedNames,
+    keywords: options.keywords ?? metaValues(meta.tag),
+    enabled: options.enabled ?? true,
+    exists: false,
+    warnings,
+  }
+}
+
+function parseJsonEntry(entry: ZipEntry | undefined): unknown {
+  if (!entry) {
+    return undefined
+  }
+  try {
+    return JSON.parse(entry.content.toString('utf8'))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether a Tampermonkey `.options.json` or the Violentmonkey manifest marks a script disabled.
+ */
+function isEnabledInSourceManager(entries: Map<string, ZipEntry>, entryName: string, scriptName: string): boolean {
+  const options = parseJsonEntry(entries.get(`${entryName.slice(0, -USERSCRIPT_SUFFIX.length)}.options.json`)) as { settings?: { enabled?: unknown } } | undefined
+  if (options?.settings && options.settings.enabled === false) {
+    return false
+  }
+  const manifest = parseJsonEntry(entries.get(VIOLENTMONKEY_MANIFEST)) as { scripts?: Record<string, { config?: { enabled?: unknown } }> } | undefined
+  const state = manifest?.scripts?.[scriptName]?.config?.enabled
+  return state !== 0 && state !== false
+}
+
+function parseBackupArchive(entries: Map<string, ZipEntry>, preview: ScriptImportPreview): void {
+  const index = parseJsonEntry(entries.get(SCRIPT_INDEX_FILE)) as { scripts?: Array<Partial<ScriptFileMeta>> } | undefined
+  const indexEntries = new Map((index?.scripts ?? []).filter((script) => typeof script.filename === 'string').map((script) => [script.filename!, script]))
+
+  for (const [entryName, entry] of entries) {
+    if (!entryName.startsWith(BACKUP_SCRIPTS_DIR)) {
+      continue
+    }
+    const filename = entryName.slice(BACKUP_SCRIPTS_DIR.length)
+    if (!isManagedScriptFilename(filename)) {
+      preview.skipped.push({ source: entryName, reason: 'Not a managed script filename' })
+      continue
+    }
+    const indexEntry = indexEntries.get(filename)
+    try {
+      preview.scripts.push(
+        convertUserscriptForImport(entry.content.toString('utf8'), entryName, {
+          filename,
+          aliases: Array.isArray(indexEntry?.aliases) ? indexEntry.aliases : [],
+          keywords: Array.isArray(indexEntry?.keywords) ? indexEntry.keywords : [],
+        })
+      )
+    } catch (error) {
+      preview.skipped.push({ source: entryName, reason: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const rules = parseJsonEntry(entries.get(ENTRY_SCRIPT_RULES_FILE))
+  preview.rules = Array.isArray(rules) ? rules.filter(isRuleConfig) : null
+}
+
+function parseScriptManagerArchive(entries: Map<string, ZipEntry>, preview: ScriptImportPreview): void {
+  for (const [entryName, entry] of entries) {
+    if (!entryName.endsWith(USERSCRIPT_SUFFIX) || entryName.startsWith('__MACOSX/')) {
+      continue
+    }
+    try {
+      const candidate = convertUserscriptForImport(entry.content.toString('utf8'), entryName)
+      candidate.enabled = isEnabledInSourceManager(entries, entryName, candidate.name)
+      preview.scripts.push(candidate)
+    } catch (error) {
+      preview.skipped.push({ source: entryName, reason: error instanceof Error ? error.message : String(error) })
+    }
+  }
+}
+
+/**
+ * List the scripts of an archive: a backup archive restores its managed sources, index metadata and
+ * rules; Tampermonkey / Violentmonkey exports contribute every `.user.js`.
+ * @param data Zip bytes
+ * @returns Preview (filenames not yet checked against storage)
+ */
+export function parseScriptImportArchive(data: Buffer): ScriptImportPreview {
+  const entries = new Map(readZipArchive(data).map((entry) => [entry.name, entry] as const))
+  const preview: ScriptImportPreview = { scripts: [], rules: null, skipped: [] }
+  const isBackup = entries.has(SCRIPT_INDEX_FILE) && [...entries.keys()].some((name) => name.startsWith(BACKUP_SCRIPTS_DIR))
+
+  if (isBackup) {
+    parseBackupArchive(entries, preview)
+  } else {
+    parseScriptManagerArchive(entries, preview)
+  }
+  if (preview.scripts.length === 0 && preview.skipped.length === 0) {
+    throw new Error('Archive contains no .user.js scripts')
+  }
+  return preview
+}
+
+async function fetchUserscript(url: string): Promise<string> {
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error('Only http(s) URLs can be imported')
+  }
+  const response = await fetchPublicUrl(new URL(url), USERSCRIPT_FETCH_TIMEOUT_MS)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+  }
+  const bytes = Buffer.from(await response.arrayBuffer())
+  if (bytes.byteLength > SCRIPT_ASSET_MAX_BYTES) {
+    throw new Error(`${url} is ${bytes.byteLength} bytes; imported scripts are limited to ${SCRIPT_ASSET_MAX_BYTES}`)
+  }
+  return bytes.toString('utf8')
+}
+
+/**
+ * Read an import source and describe what importing it would write. Duplicate target filenames get a
+ * numeric suffix; `exists` flags scripts that would replace a stored one.
+ * @param source Archive, uploaded `.user.js` or URL
+ * @returns Import preview
+ */
+export async function previewScriptImport(source: ScriptImportSource): Promise<ScriptImportPreview> {
+  let preview: ScriptImportPreview
+  if (source.kind === 'archive') {
+    preview = parseScriptImportArchive(source.data)
+  } else {
+    const content = source.kind === 'url' ? await fetchUserscript(source.url) : source.content
+    const origin = source.kind === 'url' ? source.url : source.name
+    preview = { scripts: [convertUserscriptForImport(content, origin)], rules: null, skipped: [] }
+  }
+
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const taken = new Set<string>()
+  for (const candidate of preview.scripts) {
+    const [base, extension] = [candidate.filename.replace(/\.(ts|js)$/, ''), candidate.filename.slice(candidate.filename.lastIndexOf('.'))]
+    for (let suffix = 2; taken.has(candidate.filename); suffix++) {
+      candidate.filename = `${base}-${suffix}${extension}`
+    }
+    taken.add(candidate.filename)
+    candidate.exists = Boolean(snapshot.files[candidate.filename])
+  }
+  return preview
+}
+
+/**
+ * Write the scripts chosen in the import wizard.
+ * @param scripts Scripts to write
+ * @param options `overwrite` replaces stored scripts with the same filename (otherwise they are rejected)
+ * @returns Written filenames
+ */
+export async function applyScriptImport(scripts: ScriptImportWrite[], options: { overwrite?: boolean } = {}): Promise<string[]> {
+  if (scripts.length === 0) {
+    throw new Error('Select at least one script to import')
+  }
+  const filenames = scripts.map((script) => script.filename)
+  const duplicate = filenames.find((filename, index) => filenames.indexOf(filename) !== index)
+  if (duplicate) {
+    throw new Error(`${duplicate} is imported more than once`)
+  }
+  if (!options.overwrite) {
+    const snapshot = await getScriptStorage().fetchSnapshot()
+    const existing = filenames.filter((filename) => snapshot.files[filename])
+    if (existing.length > 0) {
+      throw new Error(`${existing.join(', ')} already exist; rename them or choose to overwrite`)
+    }
+  }
+
+  await importManagedScriptFiles(scripts)
+  return filenames
+}
+
+/**
+ * Name of the standalone export of a managed script.
+ * @param filename Managed filename
+ * @returns e.g. `demo.user.js` for `demo.ts`
+ */
+export function toUserscriptExportName(filename: string): string {
+  return `${filename.replace(/\.(ts|js)$/, '')}${USERSCRIPT_SUFFIX}`
+}
+
+/**
+ * Build a standalone, installable `.user.js` from a managed script: the header is kept as written,
+ * imported managed scripts are inlined and TypeScript is compiled away. GME_* helpers of the launcher
+ * are not available in other script managers.
+ * @param filename Managed filename
+ * @param modules Managed script sources (the script and everything it imports)
+ * @returns `.user.js` source
+ */
+export function buildStandaloneUserscript(filename: string, modules: Record<string, string>): string {
+  const content = modules[filename]
+  if (content === undefined) {
+    throw new Error(`File ${filename} not found`)
+  }
+  const header = HEADER_RE.exec(content)?.[0]
+  if (!header) {
+    throw new Error(`${filename} has no userscript header`)
+  }
+
+  const body = clearMeta(content)
+  const source = hasScriptModuleSyntax(body) ? bundleScriptModule(filename, body, modules) : body
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.None, target: ts.ScriptTarget.ESNext, allowJs: true, removeComments: false },
+    fileName: filename,
+  })
+  return `${header}\n\n${outputText.trim()}\n`
+}
+
+async function readManagedSources(filenames: string[]): Promise<{ files: Record<string, { content: string }>; modules: Record<string, string> }> {
+  if (filenames.length === 0) {
+    throw new Error('Select at least one script to export')
+  }
+  const snapshot = await getScriptStorage().fetchSnapshot()
+  const modules = Object.fromEntries(Object.entries(snapshot.files).flatMap(([file, { content }]) => (isManagedScriptFilename(file) ? [[file, content] as const] : [])))
+  for (const filename of filenames) {
+    if (!isManagedScriptFilename(filename) || modules[filename] === undefined) {
+      throw new Error(`File ${filename} not found`)
+    }
+  }
+  return { files: snapshot.files, modules }
+}
+
+/**
+ * Export managed scripts as installable userscripts: one `.user.js`, or a zip of them for several scripts.
+ * @param filenames Managed filenames
+ * @returns Download name and bytes
+ */
+export async function exportStandaloneUserscripts(filenames: string[]): Promise<{ name: string; contentType: string; data: Buffer }> {
+  const { modules } = await readManagedSources(filenames)
+  if (filenames.length === 1) {
+    const [filename] = filenames
+    return { name: toUserscriptExportName(filename), contentType: 'text/javascript; charset=utf-8', data: Buffer.from(buildStandaloneUserscript(filename, modules), 'utf8') }
+  }
+  const entries = filenames.map((filename) => ({ name: toUserscriptExportName(filename), content: buildStandaloneUserscript(filename, modules) }))
+  return { name: 'userscripts.zip', contentType: 'application/zip', data: writeZipArchive(entries) }
+}
+
+/**
+ * Build a backup archive of managed scripts: raw sources under `scripts/`, their script index entries,
+ * the URL rules, and an installable `.user.js` per script (so the archive also imports into Tampermonkey).
+ * @param filenames Managed filenames
+ * @returns Zip bytes
+ */
+export async function buildScriptBackupArchive(filenames: string[]): Promise<Buffer> {
+  const { files, modules } = await readManagedSources(filenames)
+  const selected = new Set(filenames)
+
+  const index = (() => {
+    try {
+      const parsed = JSON.parse(files[SCRIPT_INDEX_FILE]?.content ?? '') as { scripts?: ScriptFileMeta[] }
+      return { ...parsed, scripts: (parsed.scripts ?? []).filter((script) => selected.has(script.filename)) }
+    } catch {
+      return { version: 1, scripts: [] }
+    }
+  })()
+
+  const entries: Array<{ name: string; content: string }> = [{ name: SCRIPT_INDEX_FILE, content: `${JSON.stringify(index, null, 2)}\n` }]
+  if (files[ENTRY_SCRIPT_RULES_FILE]) {
+    entries.push({ name: ENTRY_SCRIPT_RULES_FILE, content: files[ENTRY_SCRIPT_RULES_FILE].content })
+  }
+  for (const filename of filenames) {
+    entries.push({ name: `${BACKUP_SCRIPTS_DIR}${filename}`, content: modules[filename] })
+    entries.push({ name: toUserscriptExportName(filename), content: buildStandaloneUserscript(filename, modules) })
+  }
+  return writeZipArchive(entries)
+}
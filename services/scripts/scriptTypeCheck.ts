@@ -0,0 +1,99 @@
+import * as ts from 'typescript'
+
+import { editorTypingsSource } from '@/lib/tampermonkey-editor-typings.generated'
+
+import type { ScriptDiagnostic } from './scriptDiagnostics'
+
+/** Virtual directory holding the checked script and the managed scripts it can import. */
+const SCRIPTS_ROOT = '/scripts/'
+
+/** Virtual path of the GM / GME globals (`preset/src/editor-typings.d.ts`). */
+const EDITOR_TYPINGS_PATH = '/typings/editor-typings.d.ts'
+
+/**
+ * Mirrors the editor's Monaco defaults (ESNext + DOM, JS checked, non-strict) so the server reports
+ * what the editor underlines; module settings only differ to resolve `./name` imports between scripts.
+ */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  lib: ['lib.esnext.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  allowImportingTsExtensions: true,
+  allowJs: true,
+  checkJs: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+}
+
+/** Parsed lib and typings files; they never change during a process, and parsing lib.dom dominates a check. */
+const sharedSourceFiles = new Map<string, ts.SourceFile>()
+
+/**
+ * Convert a TypeScript diagnostic.
+ * @param diagnostic Compiler diagnostic
+ * @param file Filename reported when the diagnostic has no source file (or a virtual path)
+ */
+export function fromTypeScriptDiagnostic(diagnostic: ts.Diagnostic, file: string): ScriptDiagnostic {
+  const position = diagnostic.file && diagnostic.start !== undefined ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start) : { line: 0, character: 0 }
+  const severity = diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info'
+  return {
+    file,
+    line: position.line + 1,
+    column: position.character + 1,
+    severity,
+    code: `TS${diagnostic.code}`,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  }
+}
+
+/**
+ * Type-check one script against the GM / GME typings, managed `.d.ts` files and the managed scripts it imports.
+ * Top-level declarations are module-scoped, as they are inside the runtime wrapper, so scripts don't clash.
+ * @param filename Script filename
+ * @param content Script source
+ * @param modules Managed script sources by filename (imports and `.d.ts` files are read from here)
+ * @returns Syntactic and semantic diagnostics of the script itself
+ */
+export function typeCheckScript(filename: string, content: string, modules: Record<string, string>): ScriptDiagnostic[] {
+  const entryPath = `${SCRIPTS_ROOT}${filename}`
+  const sources = new Map<string, string>()
+  for (const [file, source] of Object.entries(modules)) {
+    sources.set(`${SCRIPTS_ROOT}${file}`, source)
+  }
+  sources.set(entryPath, `${content}\nexport {}\n`)
+  sources.set(EDITOR_TYPINGS_PATH, editorTypingsSource)
+
+  const host = ts.createCompilerHost(COMPILER_OPTIONS)
+  const readHostFile = host.readFile
+  const getHostSourceFile = host.getSourceFile
+  host.fileExists = (path) => sources.has(path) || (!path.startsWith(SCRIPTS_ROOT) && ts.sys.fileExists(path))
+  host.directoryExists = (path) => `${path}/` === SCRIPTS_ROOT || ts.sys.directoryExists(path)
+  host.readFile = (path) => sources.get(path) ?? (path.startsWith(SCRIPTS_ROOT) ? undefined : readHostFile(path))
+  host.getSourceFile = (path, languageVersion, onError, shouldCreate) => {
+    const source = sources.get(path)
+    if (source !== undefined && path.startsWith(SCRIPTS_ROOT)) {
+      return ts.createSourceFile(path, source, languageVersion, true)
+    }
+    if (path.startsWith(SCRIPTS_ROOT)) {
+      return undefined
+    }
+
+    const cached = sharedSourceFiles.get(path)
+    if (cached) {
+      return cached
+    }
+    const sourceFile = source !== undefined ? ts.createSourceFile(path, source, languageVersion, true) : getHostSourceFile(path, languageVersion, onError, shouldCreate)
+    if (sourceFile) {
+      sharedSourceFiles.set(path, sourceFile)
+    }
+    return sourceFile
+  }
+  host.writeFile = () => {}
+
+  const declarationFiles = [...sources.keys()].filter((path) => path.startsWith(SCRIPTS_ROOT) && path.endsWith('.d.ts') && path !== entryPath)
+  const program = ts.createProgram({ rootNames: [entryPath, EDITOR_TYPINGS_PATH, ...declarationFiles], options: COMPILER_OPTIONS, host })
+  const entry = program.getSourceFile(entryPath)!
+  return [...program.getSyntacticDiagnostics(entry), ...program.getSemanticDiagnostics(entry)].map((diagnostic) => fromTypeScriptDiagnostic(diagnostic, filename))
+}
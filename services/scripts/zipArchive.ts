@@ -0,0 +1,177 @@
+import { crc32, deflateRawSync, inflateRawSync } from 'node:zlib'
+
+/** Largest archive accepted for import, compressed (uploads go through a 4 MB server action body as base64). */
+export const ZIP_ARCHIVE_MAX_BYTES = 3 * 1024 * 1024
+
+/** Largest total uncompressed size of an imported archive (guards against zip bombs). */
+const ZIP_ARCHIVE_MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024
+
+const ZIP_ARCHIVE_MAX_ENTRIES = 2000
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+
+/** General purpose flag: file names are UTF-8 */
+const UTF8_FLAG = 0x0800
+
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+
+/** One file in a ZIP archive */
+export interface ZipEntry {
+  /** Path inside the archive (`/` separated) */
+  name: string
+  content: Buffer
+}
+
+/**
+ * Read the files of a ZIP archive (stored or deflated entries; directories are skipped).
+ * @param bytes Archive bytes
+ * @returns Files in central directory order
+ */
+export function readZipArchive(bytes: Buffer): ZipEntry[] {
+  if (bytes.byteLength > ZIP_ARCHIVE_MAX_BYTES) {
+    throw new Error(`Archive is ${bytes.byteLength} bytes; archives are limited to ${ZIP_ARCHIVE_MAX_BYTES}`)
+  }
+
+  const end = findEndOfCentralDirectory(bytes)
+  const count = bytes.readUInt16LE(end + 10)
+  const directoryOffset = bytes.readUInt32LE(end + 16)
+  if (count > ZIP_ARCHIVE_MAX_ENTRIES) {
+    throw new Error(`Archive has ${count} entries; archives are limited to ${ZIP_ARCHIVE_MAX_ENTRIES}`)
+  }
+
+  const entries: ZipEntry[] = []
+  let offset = directoryOffset
+  let uncompressedTotal = 0
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.byteLength || bytes.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Archive central directory is corrupt')
+    }
+    const flags = bytes.readUInt16LE(offset + 8)
+    const method = bytes.readUInt16LE(offset + 10)
+    const checksum = bytes.readUInt32LE(offset + 16)
+    const compressedSize = bytes.readUInt32LE(offset + 20)
+    const uncompressedSize = bytes.readUInt32LE(offset + 24)
+    const nameLength = bytes.readUInt16LE(offset + 28)
+    const extraLength = bytes.readUInt16LE(offset + 30)
+    const commentLength = bytes.readUInt16LE(offset + 32)
+    const localOffset = bytes.readUInt32LE(offset + 42)
+    const name = bytes.subarray(offset + 46, offset + 46 + nameLength).toString(flags & UTF8_FLAG ? 'utf8' : 'latin1')
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) {
+      continue
+    }
+    if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`${name}: ZIP64 archives are not supported`)
+    }
+    uncompressedTotal += uncompressedSize
+    if (uncompressedTotal > ZIP_ARCHIVE_MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(`Archive expands to more than ${ZIP_ARCHIVE_MAX_UNCOMPRESSED_BYTES} bytes`)
+    }
+
+    if (localOffset + 30 > bytes.byteLength || bytes.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error(`${name}: local file header is corrupt`)
+    }
+    const dataStart = localOffset + 30 + bytes.readUInt16LE(localOffset + 26) + bytes.readUInt16LE(localOffset + 28)
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    let content: Buffer
+    if (method === METHOD_STORE) {
+      content = Buffer.from(data)
+    } else if (method === METHOD_DEFLATE) {
+      content = inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) })
+    } else {
+      throw new Error(`${name}: unsupported compression method ${method}`)
+    }
+    if (content.byteLength !== uncompressedSize || crc32(content) >>> 0 !== checksum) {
+      throw new Error(`${name}: checksum mismatch`)
+    }
+
+    entries.push({ name, content })
+  }
+
+  return entries
+}
+
+function findEndOfCentralDirectory(bytes: Buffer): number {
+  // The record is followed by an optional comment of up to 64 KiB
+  const lowest = Math.max(0, bytes.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff)
+  for (let offset = bytes.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+    if (bytes.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset
+    }
+  }
+  throw new Error('Not a ZIP archive')
+}
+
+/**
+ * Write files into a deflated ZIP archive.
+ * @param entries Files to add (names use `/` separators)
+ * @param modifiedAt Modification time recorded for every entry
+ * @returns Archive bytes
+ */
+export function writeZipArchive(entries: Array<{ name: string; content: string | Buffer }>, modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt)
+  const locals: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const content = typeof entry.content === 'string' ? Buffer.from(entry.content, 'utf8') : entry.content
+    const compressed = deflateRawSync(content)
+    const checksum = crc32(content) >>> 0
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(UTF8_FLAG, 6)
+    local.writeUInt16LE(METHOD_DEFLATE, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(compressed.byteLength, 18)
+    local.writeUInt32LE(content.byteLength, 22)
+    local.writeUInt16LE(name.byteLength, 26)
+    locals.push(local, name, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(UTF8_FLAG, 8)
+    central.writeUInt16LE(METHOD_DEFLATE, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(compressed.byteLength, 20)
+    central.writeUInt32LE(content.byteLength, 24)
+    central.writeUInt16LE(name.byteLength, 28)
+    central.writeUInt32LE(offset, 42)
+    directory.push(central, name)
+
+    offset += local.byteLength + name.byteLength + compressed.byteLength
+  }
+
+  const directoryBytes = Buffer.concat(directory)
+  const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directoryBytes.byteLength, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directoryBytes, end])
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(value.getFullYear(), 1980)
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  }
+}
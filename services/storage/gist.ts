@@ -0,0 +1,30 @@
+import { fetchGist, getGistInfo, readGistFile, writeGistFile, writeGistFiles } from '@/services/gist'
+
+import type { ScriptStorage } from './types'
+
+/**
+ * GitHub Gist backend (default). Reads `GIST_ID` / `GIST_TOKEN`.
+ * @returns Storage backed by one Gist
+ */
+export function createGistScriptStorage(): ScriptStorage {
+  const { gistId, gistToken } = getGistInfo()
+
+  return {
+    kind: 'gist',
+    id: gistId,
+    async fetchSnapshot() {
+      const gist = await fetchGist({ gistId, gistToken })
+      const files = Object.fromEntries(Object.entries(gist.files).map(([name, { content, raw_url: rawUrl }]) => [name, { content, rawUrl }]))
+      return { files, updatedAt: gist.updated_at }
+    },
+    async readFile(fileName) {
+      return readGistFile({ gistId, gistToken, fileName })
+    },
+    async writeFiles(files) {
+      await writeGistFiles({ gistId, gistToken, files })
+    },
+    async writeFile(fileName, content) {
+      await writeGistFile({ gistId, gistToken, fileName, content })
+    },
+  }
+}
@@ -0,0 +1,228 @@
+import { EXCLUDED_FILES } from '@/constants/file'
+
+import type { ScriptStorage, ScriptStorageWrite } from './types'
+
+/** Default commit message when a caller does not provide one */
+const DEFAULT_COMMIT_MESSAGE = 'chore(scripts): update managed scripts'
+
+export interface GithubStorageInfo {
+  /** GitHub REST API root (GitHub Enterprise uses `https://host/api/v3`) */
+  apiUrl: string
+  /** `owner/repo` */
+  repository: string
+  /** Branch that receives one commit per save */
+  branch: string
+  /** Token with `contents:write` on the repository */
+  token: string
+  /** Directory inside the repository holding the flat file set ('' = repository root) */
+  directory: string
+}
+
+interface GithubTreeEntry {
+  name: string
+  type: 'blob' | 'tree' | 'commit'
+  object: { oid: string; text?: string | null; isBinary?: boolean | null; isTruncated?: boolean }
+}
+
+interface GithubHead {
+  oid: string
+  committedDate: string
+  tree: { oid: string }
+}
+
+/** One GraphQL round-trip: branch head, and the directory's entries (with contents when `$withText`) */
+const HEAD_QUERY = `query ($owner: String!, $name: String!, $ref: String!, $directory: String!, $withText: Boolean!) {
+  repository(owner: $owner, name: $name) {
+    ref(qualifiedName: $ref) { target { ... on Commit { oid committedDate tree { oid } } } }
+    object(expression: $directory) {
+      ... on Tree { entries { name type object { oid ... on Blob @include(if: $withText) { text isBinary isTruncated } } } }
+    }
+  }
+}`
+
+/** One GraphQL round-trip for a single file */
+const FILE_QUERY = `query ($owner: String!, $name: String!, $expression: String!) {
+  repository(owner: $owner, name: $name) {
+    object(expression: $expression) { ... on Blob { oid text isBinary isTruncated } }
+  }
+}`
+
+/**
+ * Read GitHub backend settings from env (`SCRIPTS_GITHUB_REPOSITORY`, `SCRIPTS_GITHUB_TOKEN`, optional branch / directory / API URL).
+ * @returns Normalized settings
+ */
+export function getGithubStorageInfo(): GithubStorageInfo {
+  const repository = process.env.SCRIPTS_GITHUB_REPOSITORY?.trim()
+  const token = process.env.SCRIPTS_GITHUB_TOKEN?.trim()
+
+  if (!repository || !/^[\w.-]+\/[\w.-]+$/.test(repository)) {
+    throw new Error('process.env.SCRIPTS_GITHUB_REPOSITORY is not set (expected owner/repo)')
+  }
+
+  if (!token) {
+    throw new Error('process.env.SCRIPTS_GITHUB_TOKEN is not set')
+  }
+
+  const branch = process.env.SCRIPTS_GITHUB_BRANCH?.trim() || 'main'
+  if (!/^[\w./-]+$/.test(branch) || branch.includes('..')) {
+    throw new Error(`process.env.SCRIPTS_GITHUB_BRANCH is not a valid branch name: ${branch}`)
+  }
+
+  return {
+    apiUrl: (process.env.SCRIPTS_GITHUB_API_URL?.trim() || 'https://api.github.com').replace(/\/+$/, ''),
+    repository,
+    branch,
+    token,
+    directory: (process.env.SCRIPTS_GITHUB_DIRECTORY ?? '').trim().replace(/^\/+|\/+$/g, ''),
+  }
+}
+
+/**
+ * GraphQL endpoint next to a REST API root: `https://api.github.com/graphql`, or `https://host/api/graphql` on GitHub Enterprise.
+ * @param apiUrl REST API root
+ */
+function getGraphqlUrl(apiUrl: string): string {
+  return `${apiUrl.replace(/\/v3$/, '')}/graphql`
+}
+
+/**
+ * GitHub repository backend: reads go through one GraphQL query, every save is one commit on the configured branch
+ * through the REST Git Data API. Only GitHub and GitHub Enterprise; the `git` backend covers other remotes without the API.
+ * @param info Settings (defaults to env)
+ * @returns Storage backed by one repository branch
+ */
+export function createGithubScriptStorage(info: GithubStorageInfo = getGithubStorageInfo()): ScriptStorage {
+  const { apiUrl, repository, branch, token, directory } = info
+  const prefix = directory ? `${directory}/` : ''
+  const [owner, repo] = repository.split('/')
+
+  async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${apiUrl}/repos/${repository}${path}`, {
+      cache: 'no-store',
+      ...init,
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github+json',
+        ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+        ...init?.headers,
+      },
+    })
+
+    if (!response.ok) {
+      const message = await response.text()
+      throw new Error(`GitHub storage request failed (${init?.method ?? 'GET'} ${path}). Status:${response.status}. ${message}`)
+    }
+
+    return response.json() as Promise<T>
+  }
+
+  async function graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await fetch(getGraphqlUrl(apiUrl), {
+      method: 'POST',
+      cache: 'no-store',
+      headers: { Authorization: `bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables: { owner, name: repo, ...variables } }),
+    })
+
+    // GraphQL reports failures such as a bad token scope in `errors` with a 200 status.
+    const body = response.ok ? ((await response.json()) as { data?: T; errors?: Array<{ message: string }> }) : null
+    if (!body?.data || body.errors?.length) {
+      const message = body ? (body.errors ?? []).map((error) => error.message).join('; ') : await response.text()
+      throw new Error(`GitHub storage request failed (POST /graphql). Status:${response.status}. ${message}`)
+    }
+
+    return body.data
+  }
+
+  async function readHead(withText: boolean) {
+    const data = await graphql<{ repository: { ref: { target: GithubHead } | null; object: { entries?: GithubTreeEntry[] } | null } | null }>(HEAD_QUERY, {
+      ref: `refs/heads/${branch}`,
+      directory: `${branch}:${directory}`,
+      withText,
+    })
+
+    const head = data.repository?.ref?.target
+    if (!head) {
+      throw new Error(`Branch ${branch} not found in ${repository}`)
+    }
+
+    // A missing directory reads as empty; only flat files directly under it belong to the file set.
+    const entries = (data.repository?.object?.entries ?? []).filter((entry) => entry.type === 'blob')
+    return { head, entries }
+  }
+
+  async function readBlob(sha: string): Promise<string> {
+    const blob = await request<{ content: string; encoding: string }>(`/git/blobs/${sha}`)
+    return blob.encoding === 'base64' ? Buffer.from(blob.content, 'base64').toString('utf8') : blob.content
+  }
+
+  /** GraphQL leaves `text` out for binary and truncates large blobs; only those fall back to a blob request. */
+  async function readEntry({ oid, text, isBinary, isTruncated }: GithubTreeEntry['object']): Promise<string> {
+    return typeof text === 'string' && !isBinary && !isTruncated ? text : readBlob(oid)
+  }
+
+  async function commit(writes: ScriptStorageWrite[], message = DEFAULT_COMMIT_MESSAGE): Promise<void> {
+    if (writes.length === 0) {
+      return
+    }
+
+    const { head, entries } = await readHead(false)
+    const existing = new Set(entries.map(({ name }) => `${prefix}${name}`))
+    const tree = writes
+      .map(({ file, content }) => {
+        const path = `${prefix}${file}`
+        if (content === null) {
+          // Deleting a path that is not in the tree makes the API reject the whole commit.
+          return existing.has(path) ? { path, mode: '100644', type: 'blob', sha: null } : null
+        }
+        return { path, mode: '100644', type: 'blob', content }
+      })
+      .filter(Boolean)
+
+    if (tree.length === 0) {
+      return
+    }
+
+    const nextTree = await request<{ sha: string }>('/git/trees', {
+      method: 'POST',
+      body: JSON.stringify({ base_tree: head.tree.oid, tree }),
+    })
+    const nextCommit = await request<{ sha: string }>('/git/commits', {
+      method: 'POST',
+      body: JSON.stringify({ message, tree: nextTree.sha, parents: [head.oid] }),
+    })
+
+    // Non-forced update: a concurrent save makes this fail instead of dropping the other commit.
+    await request(`/git/refs/heads/${branch}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ sha: nextCommit.sha, force: false }),
+    })
+  }
+
+  return {
+    kind: 'github',
+    id: `${repository}#${branch}${directory ? `:${directory}` : ''}`,
+    async fetchSnapshot() {
+      const { head, entries } = await readHead(true)
+      const files = Object.fromEntries(await Promise.all(entries.map(async (entry) => [entry.name, { content: await readEntry(entry.object) }] as const)))
+      return { files, updatedAt: head.committedDate }
+    },
+    async readFile(fileName) {
+      const data = await graphql<{ repository: { object: GithubTreeEntry['object'] | null } | null }>(FILE_QUERY, { expression: `${branch}:${prefix}${fileName}` })
+      const blob = data.repository?.object
+      if (!blob?.oid) {
+        throw new Error(`File ${fileName} not found in ${repository}#${branch}`)
+      }
+      return readEntry(blob)
+    },
+    async writeFiles(files, options) {
+      await commit(
+        files.filter(({ file }) => !EXCLUDED_FILES.includes(file)),
+        options?.message
+      )
+    },
+    async writeFile(fileName, content, options) {
+      await commit([{ file: fileName, content }], options?.message)
+    },
+  }
+}
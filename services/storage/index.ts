@@ -0,0 +1,49 @@
+import { createGistScriptStorage } from './gist'
+import { createGitScriptStorage } from './git'
+import { createGithubScriptStorage } from './github'
+import { createLocalScriptStorage } from './local'
+import type { ScriptStorage, ScriptStorageKind } from './types'
+
+export type { ScriptStorage, ScriptStorageFile, ScriptStorageKind, ScriptStorageSnapshot, ScriptStorageWrite, ScriptStorageWriteOptions } from './types'
+
+/**
+ * Largest file the server writes to script storage. The Gist API only returns the first 1 MB of a file inline, so
+ * generated files (revision log, pinned assets) stay well below it on every backend.
+ */
+export const SCRIPT_STORAGE_FILE_MAX_BYTES = 768 * 1024
+
+const STORAGE_KINDS: readonly ScriptStorageKind[] = ['gist', 'git', 'github', 'local']
+
+/**
+ * Backend selected by `SCRIPTS_STORAGE` (`gist` when unset).
+ * @returns Storage kind
+ */
+export function getScriptStorageKind(): ScriptStorageKind {
+  const raw = process.env.SCRIPTS_STORAGE?.trim().toLowerCase()
+  if (!raw) {
+    return 'gist'
+  }
+
+  if (!STORAGE_KINDS.includes(raw as ScriptStorageKind)) {
+    throw new Error(`process.env.SCRIPTS_STORAGE must be one of ${STORAGE_KINDS.join(', ')} (got "${raw}")`)
+  }
+
+  return raw as ScriptStorageKind
+}
+
+/**
+ * Create the configured script storage backend. Every script service reads and writes through this.
+ * @returns Storage for the current env
+ */
+export function getScriptStorage(): ScriptStorage {
+  switch (getScriptStorageKind()) {
+    case 'git':
+      return createGitScriptStorage()
+    case 'github':
+      return createGithubScriptStorage()
+    case 'local':
+      return createLocalScriptStorage()
+    default:
+      return createGistScriptStorage()
+  }
+}
@@ -0,0 +1,90 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises'
+import { resolve } from 'path'
+
+import { EXCLUDED_FILES } from '@/constants/file'
+
+import type { ScriptStorage, ScriptStorageWrite } from './types'
+
+/**
+ * Read the local backend directory from env (`SCRIPTS_STORAGE_DIR`).
+ * @returns Absolute directory path
+ */
+export function getLocalStorageDirectory(): string {
+  const directory = process.env.SCRIPTS_STORAGE_DIR?.trim()
+  if (!directory) {
+    throw new Error('process.env.SCRIPTS_STORAGE_DIR is not set')
+  }
+
+  return resolve(directory)
+}
+
+/**
+ * Resolve a flat file name inside the storage directory, refusing anything that could escape it.
+ * @param directory Storage directory
+ * @param fileName Flat file name
+ */
+function resolveFilePath(directory: string, fileName: string): string {
+  if (!fileName || fileName.includes('/') || fileName.includes('\\') || fileName === '.' || fileName === '..') {
+    throw new Error(`Invalid storage file name: ${fileName}`)
+  }
+
+  return resolve(directory, fileName)
+}
+
+/**
+ * Local directory backend: one flat directory, one file per entry, no database. Intended for self-hosted / offline deployments.
+ * @param directory Storage directory (defaults to env)
+ * @returns Storage backed by a local directory
+ */
+export function createLocalScriptStorage(directory: string = getLocalStorageDirectory()): ScriptStorage {
+  async function apply(writes: ScriptStorageWrite[]): Promise<void> {
+    await mkdir(directory, { recursive: true })
+
+    for (const { file, content } of writes) {
+      const path = resolveFilePath(directory, file)
+      if (content === null) {
+        await rm(path, { force: true })
+      } else {
+        await writeFile(path, content, 'utf8')
+      }
+    }
+  }
+
+  return {
+    kind: 'local',
+    id: directory,
+    async fetchSnapshot() {
+      await mkdir(directory, { recursive: true })
+
+      const entries = await readdir(directory, { withFileTypes: true })
+      const files: Record<string, { content: string }> = {}
+      let updatedAtMs = 0
+
+      for (const entry of entries) {
+        if (!entry.isFile() || entry.name.startsWith('.')) {
+          continue
+        }
+
+        const path = resolveFilePath(directory, entry.name)
+        const [content, stats] = await Promise.all([readFile(path, 'utf8'), stat(path)])
+        files[entry.name] = { content }
+        updatedAtMs = Math.max(updatedAtMs, stats.mtimeMs)
+      }
+
+      return { files, updatedAt: new Date(updatedAtMs || Date.now()).toISOString() }
+    },
+    async readFile(fileName) {
+      try {
+        return await readFile(resolveFilePath(directory, fileName), 'utf8')
+      } catch {
+        throw new Error(`File ${fileName} not found in ${directory}`)
+      }
+    },
+    async writeFiles(files) {
+      await apply(files.filter(({ file }) => !EXCLUDED_FILES.includes(file)))
+    },
+    async writeFile(fileName, content) {
+      await apply([{ file: fileName, content }])
+    },
+  }
+}
@@ -0,0 +1,48 @@
+/** Supported script storage backends (selected by `SCRIPTS_STORAGE`). */
+export type ScriptStorageKind = 'gist' | 'git' | 'github' | 'local'
+
+/** One file as read from the storage backend */
+export interface ScriptStorageFile {
+  /** UTF-8 file content */
+  content: string
+  /** Direct download URL when the backend exposes one (Gist `raw_url`) */
+  rawUrl?: string
+}
+
+/** Full read of every file in the backend, in one round-trip where possible */
+export interface ScriptStorageSnapshot {
+  /** File name → file */
+  files: Record<string, ScriptStorageFile>
+  /** Last backend-level change time (ISO 8601) */
+  updatedAt: string
+}
+
+/** One file write; `null` content deletes the file */
+export interface ScriptStorageWrite {
+  file: string
+  content: string | null
+}
+
+export interface ScriptStorageWriteOptions {
+  /** Commit message for backends that keep history (Git, GitHub) */
+  message?: string
+}
+
+/**
+ * Backend-neutral access to the flat file set holding managed scripts, rules and the script index.
+ * File names are flat (no `/`), matching the Gist model every backend must stay compatible with.
+ */
+export interface ScriptStorage {
+  /** Backend kind */
+  readonly kind: ScriptStorageKind
+  /** Stable backend identity (Gist id, `remote#branch`, `owner/repo#branch`, directory path); seeds the script key */
+  readonly id: string
+  /** Read every file plus the backend updated time */
+  fetchSnapshot(): Promise<ScriptStorageSnapshot>
+  /** Read one file; rejects when it does not exist */
+  readFile(fileName: string): Promise<string>
+  /** Apply writes and deletes as one change set; entries for `EXCLUDED_FILES` are skipped */
+  writeFiles(files: ScriptStorageWrite[], options?: ScriptStorageWriteOptions): Promise<void>
+  /** Write one file as-is, including excluded files such as the RULE config */
+  writeFile(fileName: string, content: string, options?: ScriptStorageWriteOptions): Promise<void>
+}
@@ -1,6 +1,6 @@
 import { createHash } from 'crypto'
 
-import { getGistInfo } from '@/services/gist'
+import { getScriptStorage } from '@/services/storage'
 
 import { buildPresetVariableDeclarations, getPresetBundle } from './gmCore'
 import { GRANTS } from './grant'
@@ -92,6 +92,7 @@ ${presetWithGist}
 }
 
 export function getTampermonkeyScriptKey() {
-  const { gistId } = getGistInfo()
-  return createHash('sha256').update(gistId).digest('hex')
+  // Gist ids are hashed as before so existing install URLs keep working; other backends hash their own identity.
+  const { id } = getScriptStorage()
+  return createHash('sha256').update(id).digest('hex')
 }
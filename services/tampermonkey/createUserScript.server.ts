@@ -3,12 +3,19 @@
 import * as prettier from 'prettier'
 import * as ts from 'typescript'
 
-import { EXCLUDED_FILES, SCRIPTS_FILE_EXTENSION } from '@/constants/file'
+import { EXCLUDED_FILES, isScriptTestFilename, SCRIPTS_FILE_EXTENSION } from '@/constants/file'
+import { buildVersionedScriptAssetUrl } from '@/services/runtime/contentAddressedAssets'
+import { parseScriptAssetRefs, type ScriptAssetResolver } from '@/services/scripts/scriptAssets'
+import { bundleScriptModule, hasScriptModuleSyntax } from '@/services/scripts/scriptModules'
 import { buildExtensionScriptEnabledGuard } from '@/shared/extension-script-enabled-guard'
+import { REMOTE_MODULE_MARKER_RE } from '@/shared/remote-script-bundle-modules'
+import { isBackgroundRunAt } from '@/shared/script-schedule'
+import { parseScriptSettingDeclarations, type ScriptSettingField } from '@/shared/script-settings'
 import { formatScriptExecutingFailureLog, formatScriptExecutingLog } from '@/shared/script-trigger-log'
+import type { ScriptUrlMatchRules } from '@/shared/url-pattern-match'
 
-import { createBanner } from './createBanner'
-import { clearMeta, extractMeta } from './meta'
+import { createBanner, getTampermonkeyScriptKey } from './createBanner'
+import { clearMeta, extractMeta, extractUrlMatchMeta } from './meta'
 
 /**
  * RunAt execution timing values for Tampermonkey scripts
@@ -18,6 +25,8 @@ enum RunAt {
   DocumentBody = 'document-body',
   DocumentEnd = 'document-end',
   DocumentIdle = 'document-idle',
+  /** No page: the extension shell runs the script on its `@schedule` */
+  Background = 'background',
 }
 
 const PRETTIER_CONFIG: prettier.Options = {
@@ -74,6 +83,12 @@ export interface CompileScriptsOptions {
    * remote bundles so content hash matches between manifest and `/static/.../tampermonkey-remote.js`; omit for `Date.now()`.
    */
   scriptBuiltAt?: number
+  /** Pinned `@require` / `@resource` assets; scripts referencing unpinned assets fail a strict compile. */
+  assets?: ScriptAssetResolver
+  /** Managed script sources `import` statements resolve against (default: the compiled files). */
+  modules?: Record<string, string>
+  /** Keep `@run-at background` scripts; page bundles leave them out since the extension shell runs them on their own. */
+  includeBackground?: boolean
 }
 
 /**
@@ -88,6 +103,9 @@ export async function getRemoteScriptContent(files: Record<string, string>, opti
   const { content } = compileScripts(files, {
     strictCompile: options.strictCompile !== false,
     scriptBuiltAt: options.scriptBuiltAt,
+    assets: options.assets,
+    modules: options.modules,
+    includeBackground: options.includeBackground,
   })
   return content
 }
@@ -122,7 +140,12 @@ function formatTranspileErrors(displayFile: string, diagnostics: readonly ts.Dia
 function compileScripts(files: Record<string, string>, options?: CompileScriptsOptions) {
   const strictCompile = options?.strictCompile !== false
   const scriptBuiltAt = options?.scriptBuiltAt !== undefined ? options.scriptBuiltAt : Date.now()
-  const { compile, grants, connects } = createScriptCompiler(scriptBuiltAt, { strictCompile })
+  const { compile, grants, connects } = createScriptCompiler(scriptBuiltAt, {
+    strictCompile,
+    assets: options?.assets,
+    modules: options?.modules ?? files,
+    includeBackground: options?.includeBackground,
+  })
 
   const parts: string[] = []
   for (const name of Object.keys(files).sort()) {
@@ -141,7 +164,46 @@ function compileScripts(files: Record<string, string>, options?: CompileScriptsO
   return { content, grant, connect }
 }
 
-function createScriptCompiler(scriptBuiltAt: number, options?: { strictCompile: boolean }) {
+/**
+ * Resolve a script's `@require` sources and `@resource` entries from pinned assets.
+ * @param file Script filename
+ * @param content Script source
+ * @param assets Pinned asset resolver
+ * @returns Library sources in header order, resources by name, and references that are not pinned
+ */
+function resolveScriptAssets(file: string, content: string, assets: ScriptAssetResolver | undefined) {
+  const requires: string[] = []
+  const resources: Record<string, { url: string; text: string | null }> = {}
+  const missing: string[] = []
+
+  for (const ref of parseScriptAssetRefs(content)) {
+    if (ref.kind === 'require') {
+      const source = assets?.require(ref.url) ?? null
+      if (source === null) {
+        missing.push(`@require ${ref.url}`)
+      } else {
+        // Library comments shaped like `// file.js` would be read as remote bundle module markers.
+        requires.push(`// @require ${ref.url}\n${source.replace(REMOTE_MODULE_MARKER_RE, (line) => line.replace('//', '//:'))}`)
+      }
+      continue
+    }
+
+    const resource = assets?.resource(ref.url) ?? null
+    if (resource === null) {
+      missing.push(`@resource ${ref.name} ${ref.url}`)
+    } else {
+      resources[ref.name!] = { url: buildVersionedScriptAssetUrl('', getTampermonkeyScriptKey(), resource.entry.sha1, ref.name!), text: resource.text }
+    }
+  }
+
+  const error = missing.length > 0 ? `${file}: ${missing.join(', ')} not pinned; save the script to fetch and pin its assets` : ''
+  return { requires, resources, error }
+}
+
+function createScriptCompiler(
+  scriptBuiltAt: number,
+  options?: { strictCompile: boolean; assets?: ScriptAssetResolver; modules?: Record<string, string>; includeBackground?: boolean }
+) {
   const strictCompile = options?.strictCompile ?? false
   const matches = new Set<string>()
   const grants = new Set<string>()
@@ -157,18 +219,31 @@ function createScriptCompiler(scriptBuiltAt: number, options?: { strictCompile:
       return
     }
 
+    // Script tests (`*.test.ts`) only run in the test harness
+    if (isScriptTestFilename(file)) {
+      return
+    }
+
     // Only compile script files (.ts, .js), skip config files like package.json, tsconfig.json, etc.
     if (!SCRIPTS_FILE_EXTENSION.some((ext) => file.endsWith(ext))) {
       return
     }
 
     const meta = extractMeta(content)
-    const match = !meta.match ? [] : Array.isArray(meta.match) ? meta.match : [meta.match]
-    match.forEach((match) => typeof match === 'string' && match && matches.add(match))
+    // Extract runAt meta value
+    const runAt = extractMetaValue(meta.runAt, RunAt.DocumentIdle)
+    if (isBackgroundRunAt(runAt) && !options?.includeBackground) {
+      return
+    }
+
+    const { noframes, ...urlRules } = extractUrlMatchMeta(meta)
+    urlRules.match.forEach((match) => matches.add(match))
 
     const connect = !meta.connect ? [] : Array.isArray(meta.connect) ? meta.connect : [meta.connect]
     connect.forEach((connect) => typeof connect === 'string' && connect && connects.add(connect))
     const connectHosts = connect.filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+    // Invalid declarations fail validation on save; the wrapper registers the valid ones.
+    const { fields: settings } = parseScriptSettingDeclarations(!meta.setting ? [] : Array.isArray(meta.setting) ? meta.setting : [meta.setting])
 
     if (meta.grant) {
       const grant = Array.isArray(meta.grant) ? meta.grant : [meta.grant]
@@ -179,13 +254,21 @@ function createScriptCompiler(scriptBuiltAt: number, options?: { strictCompile:
     const defaultModuleName = file.replace(/\.[^/.]+$/, '')
     const moduleName = extractMetaValue(meta.namespace, defaultModuleName)
 
-    // Extract runAt meta value
-    const runAt = extractMetaValue(meta.runAt, RunAt.DocumentIdle)
+    const scriptAssets = resolveScriptAssets(file, content, options?.assets)
+    if (scriptAssets.error) {
+      if (strictCompile) {
+        throw new Error(scriptAssets.error)
+      }
+      // eslint-disable-next-line no-console
+      console.error(scriptAssets.error)
+    }
 
     const clearedContent = clearMeta(content)
     const compiledContent = (() => {
       try {
-        const result = ts.transpileModule(clearedContent, {
+        // Imported managed scripts are inlined (tree-shaken) so each payload stays self-contained.
+        const source = hasScriptModuleSyntax(clearedContent) ? bundleScriptModule(file, clearedContent, options?.modules ?? { [file]: content }) : clearedContent
+        const result = ts.transpileModule(source, {
           compilerOptions: {
             module: ts.ModuleKind.None,
             target: ts.ScriptTarget.ESNext,
@@ -221,7 +304,8 @@ function createScriptCompiler(scriptBuiltAt: number, options?: { strictCompile:
       return
     }
 
-    const executionWrapper = getExecutionWrapper(runAt, moduleName, match, file, compiledContent, scriptBuiltAt, connectHosts)
+    const wrapperRunAt = isBackgroundRunAt(runAt) ? RunAt.Background : runAt
+    const executionWrapper = getExecutionWrapper(wrapperRunAt, moduleName, urlRules, noframes, file, compiledContent, scriptBuiltAt, connectHosts, scriptAssets, settings)
 
     return `
       // ${file}
@@ -236,31 +320,62 @@ function createScriptCompiler(scriptBuiltAt: number, options?: { strictCompile:
  * Get execution wrapper based on runAt value
  * @param runAt The @run-at meta value
  * @param moduleName Module name for logging
- * @param match Match patterns for URL matching
+ * @param urlRules Header @match / @include / @exclude / @exclude-match rules
+ * @param noframes Skip execution inside frames (@noframes)
  * @param file File name
  * @param compiledContent Compiled script content
  * @param scriptBuiltAt Build timestamp for "Executing script" log
+ * @param connectHosts @connect hosts seeded as pre-authorized
+ * @param scriptAssets Inlined @require sources and @resource entries registered for GM_getResource*
+ * @param settings @setting declarations registered for GME_getSettings and the settings UI
  * @returns Execution wrapper code
  */
-function getExecutionWrapper(runAt: string, moduleName: string, match: string[], file: string, compiledContent: string, scriptBuiltAt: number, connectHosts: string[]): string {
+function getExecutionWrapper(
+  runAt: string,
+  moduleName: string,
+  urlRules: ScriptUrlMatchRules,
+  noframes: boolean,
+  file: string,
+  compiledContent: string,
+  scriptBuiltAt: number,
+  connectHosts: string[],
+  scriptAssets: { requires: string[]; resources: Record<string, { url: string; text: string | null }> },
+  settings: ScriptSettingField[]
+): string {
+  const rules = JSON.stringify(Object.fromEntries(Object.entries(urlRules).filter(([, values]) => Array.isArray(values) && values.length > 0)))
+  // matchScript: header rules or RULE wildcards, vetoed by excludes; @noframes scripts only run in the top-level frame.
+  // Background scripts have no page to match; the shell decides when they run.
+  const urlGuard = runAt === RunAt.Background ? 'true' : `${noframes ? 'window.top === window.self && ' : ''}matchScript(${JSON.stringify(file)}, ${rules})`
   const builtAtDisplay = scriptBuiltAt > 0 && Number.isFinite(scriptBuiltAt) ? new Date(scriptBuiltAt).toLocaleString() : 'unknown'
   const connectSeed = connectHosts.length > 0 ? `typeof seedScriptConnectPermissions === 'function' && seedScriptConnectPermissions(${JSON.stringify(connectHosts)});` : ''
+  const resourceRegistration =
+    Object.keys(scriptAssets.resources).length > 0
+      ? `typeof registerScriptResources === 'function' && registerScriptResources(${JSON.stringify(file)}, ${JSON.stringify(scriptAssets.resources)});`
+      : ''
+  const settingsRegistration =
+    settings.length > 0 ? `typeof registerScriptSettings === 'function' && registerScriptSettings(${JSON.stringify(file)}, ${JSON.stringify(settings)});` : ''
+  // @require libraries share the script's scope and run right before its body, as in Tampermonkey.
+  const requireContent = scriptAssets.requires.join('\n;\n')
   // Shell: preset GME_ok for "Executing script …". Body: enterScriptLogScope so bare GME_* → emitScriptLog.
   // beginScriptRunTrace wraps both so Executing + body share one TraceId in Admin Logs / Log Viewer.
   const scriptContent = `
         try {${buildExtensionScriptEnabledGuard(file)}
-          if (${JSON.stringify(match)}.some((m) => matchUrl(m)) || matchRule(${JSON.stringify(file)})) {
+          if (${urlGuard}) {
             beginScriptRunTrace();
             try {
               GME_ok(${JSON.stringify(formatScriptExecutingLog(file, builtAtDisplay))});
               enterScriptPermissionScope(${JSON.stringify(file)});
               ${connectSeed}
+              ${resourceRegistration}
+              ${settingsRegistration}
               enterScriptLogScope(${JSON.stringify(moduleName)})
               try {
+                ${requireContent}
                 ${compiledContent}
               } catch (error) {
                 const message = error instanceof Error ? error.message : Object.prototype.toString.call(error)
                 GME_fail(${JSON.stringify(formatScriptExecutingFailureLog(file))}, message)
+                typeof reportScriptTelemetryError === 'function' && reportScriptTelemetryError(${JSON.stringify(file)}, error)
               } finally {
                 exitScriptPermissionScope();
                 exitScriptLogScope()
@@ -272,11 +387,13 @@ function getExecutionWrapper(runAt: string, moduleName: string, match: string[],
         } catch (error) {
           const message = error instanceof Error ? error.message : Object.prototype.toString.call(error)
           GME_fail(${JSON.stringify(formatScriptExecutingFailureLog(file))}, message)
+          typeof reportScriptTelemetryError === 'function' && reportScriptTelemetryError(${JSON.stringify(file)}, error)
         }
       `
 
   switch (runAt) {
     case RunAt.DocumentStart:
+    case RunAt.Background:
       // Execute immediately when script loads
       return `;(function() {${scriptContent}})()`
 
@@ -289,12 +289,207 @@ ${grantLines}
     return true;
   }
 
+  /**
+   * Promise-style GM.* (Greasemonkey 4) over the granted GM_* callbacks, for imported community scripts.
+   * Only granted functions get a GM.* member (typeof guards: reading a missing grant throws). Methods Tampermonkey
+   * already exposes on its own GM object are kept as-is.
+   */
+  function createGmNamespace() {
+    function promisify(fn) {
+      return function () {
+        var args = arguments;
+        return new Promise(function (resolve, reject) {
+          try {
+            resolve(fn.apply(null, args));
+          } catch (e) {
+            reject(e);
+          }
+        });
+      };
+    }
+    function toError(e, fallback) {
+      if (e instanceof Error) return e;
+      return new Error(e && e.error ? String(e.error) : e ? String(e) : fallback);
+    }
+    function withCallback(fn) {
+      return function (details) {
+        return new Promise(function (resolve, reject) {
+          fn(details || {}, function (result, error) {
+            if (error) {
+              reject(toError(error));
+            } else {
+              resolve(result);
+            }
+          });
+        });
+      };
+    }
+    var ns = {};
+    if (typeof GM_info !== 'undefined') ns.info = GM_info;
+    var sync = {
+      getValue: typeof GM_getValue === 'function' ? GM_getValue : null,
+      setValue: typeof GM_setValue === 'function' ? GM_setValue : null,
+      deleteValue: typeof GM_deleteValue === 'function' ? GM_deleteValue : null,
+      listValues: typeof GM_listValues === 'function' ? GM_listValues : null,
+      getValues: typeof GM_getValues === 'function' ? GM_getValues : null,
+      setValues: typeof GM_setValues === 'function' ? GM_setValues : null,
+      deleteValues: typeof GM_deleteValues === 'function' ? GM_deleteValues : null,
+      addValueChangeListener: typeof GM_addValueChangeListener === 'function' ? GM_addValueChangeListener : null,
+      removeValueChangeListener: typeof GM_removeValueChangeListener === 'function' ? GM_removeValueChangeListener : null,
+      registerMenuCommand: typeof GM_registerMenuCommand === 'function' ? GM_registerMenuCommand : null,
+      unregisterMenuCommand: typeof GM_unregisterMenuCommand === 'function' ? GM_unregisterMenuCommand : null,
+      addElement: typeof GM_addElement === 'function' ? GM_addElement : null,
+      addStyle: typeof GM_addStyle === 'function' ? GM_addStyle : null,
+      log: typeof GM_log === 'function' ? GM_log : null,
+      openInTab: typeof GM_openInTab === 'function' ? GM_openInTab : null,
+      getResourceText: typeof GM_getResourceText === 'function' ? GM_getResourceText : null,
+      getResourceUrl: typeof GM_getResourceURL === 'function' ? GM_getResourceURL : null,
+    };
+    for (var name in sync) {
+      if (sync[name]) ns[name] = promisify(sync[name]);
+    }
+    if (typeof GM_xmlhttpRequest === 'function') {
+      ns.xmlHttpRequest = function (details) {
+        var handle = null;
+        var promise = new Promise(function (resolve, reject) {
+          // Settle before the caller's callback so a throwing callback cannot leave the promise pending
+          function fail(callback, fallback) {
+            return function (res) {
+              reject(toError(res, fallback));
+              if (typeof callback === 'function') callback(res);
+            };
+          }
+          var opts = Object.assign({}, details, {
+            onload: function (res) {
+              resolve(res);
+              if (typeof details.onload === 'function') details.onload(res);
+            },
+            onerror: fail(details.onerror, 'GM.xmlHttpRequest failed'),
+            ontimeout: fail(details.ontimeout, 'GM.xmlHttpRequest timed out'),
+            onabort: fail(details.onabort, 'GM.xmlHttpRequest aborted'),
+          });
+          handle = GM_xmlhttpRequest(opts);
+        });
+        promise.abort = function () {
+          if (handle && typeof handle.abort === 'function') handle.abort();
+        };
+        return promise;
+      };
+    }
+    if (typeof GM_setClipboard === 'function') {
+      ns.setClipboard = function (data, info) {
+        return new Promise(function (resolve, reject) {
+          GM_setClipboard(data, info, function (error) {
+            if (error) {
+              reject(toError(error));
+            } else {
+              resolve();
+            }
+          });
+        });
+      };
+    }
+    if (typeof GM_notification === 'function') {
+      ns.notification = function (details) {
+        return new Promise(function (resolve, reject) {
+          var opts = details;
+          if (details && typeof details === 'object') {
+            opts = Object.assign({}, details, {
+              onerror: function (e) {
+                reject(toError(e, 'GM.notification failed'));
+                if (typeof details.onerror === 'function') details.onerror(e);
+              },
+            });
+          }
+          GM_notification(opts, function () {
+            resolve();
+          });
+        });
+      };
+    }
+    if (typeof GM_download === 'function') {
+      ns.download = function (details, name) {
+        var target = typeof details === 'string' ? { url: details, name: name } : details;
+        return new Promise(function (resolve, reject) {
+          GM_download(
+            Object.assign({}, target, {
+              onload: function () {
+                resolve();
+              },
+              onerror: function (e) {
+                reject(toError(e, 'GM.download failed'));
+              },
+            })
+          );
+        });
+      };
+    }
+    if (typeof GM_getTab === 'function') {
+      ns.getTab = function () {
+        return new Promise(function (resolve) {
+          GM_getTab(resolve);
+        });
+      };
+    }
+    if (typeof GM_saveTab === 'function') {
+      ns.saveTab = function (tab) {
+        return new Promise(function (resolve, reject) {
+          GM_saveTab(tab, function (error) {
+            if (error) {
+              reject(toError(error));
+            } else {
+              resolve();
+            }
+          });
+        });
+      };
+    }
+    if (typeof GM_getTabs === 'function') {
+      ns.getTabs = function () {
+        return new Promise(function (resolve) {
+          GM_getTabs(resolve);
+        });
+      };
+    }
+    if (typeof GM_cookie !== 'undefined' && GM_cookie) {
+      ns.cookie = {};
+      if (typeof GM_cookie.list === 'function') ns.cookie.list = withCallback(GM_cookie.list);
+      if (typeof GM_cookie.set === 'function') {
+        ns.cookie.set = withCallback(function (details, done) {
+          GM_cookie.set(details, function (error) {
+            done(undefined, error);
+          });
+        });
+      }
+      if (typeof GM_cookie.delete === 'function') {
+        ns.cookie.delete = withCallback(function (details, done) {
+          GM_cookie.delete(details, function (error) {
+            done(undefined, error);
+          });
+        });
+      }
+    }
+    var native = typeof GM !== 'undefined' && GM ? GM : {};
+    for (var key in native) {
+      if (native[key] !== undefined && native[key] !== null) {
+        ns[key] = native[key];
+      }
+    }
+    return ns;
+  }
+
   function runPreset(presetCode) {
     var bytes = presetCode && typeof presetCode === 'string' ? presetCode.length : 0;
     bootLog('info', MODULE_LOG_PREFIX, 'execute:start bytes=' + bytes);
     const g = typeof globalThis !== 'undefined' ? globalThis : typeof window !== 'undefined' ? window : {};
     g.__VWS_SCRIPT_POLICIES__ = (lastManifestData && lastManifestData.scriptPolicies) ? lastManifestData.scriptPolicies : {};
+    g.__VWS_RULE_SET__ = (lastManifestData && lastManifestData.ruleSet) ? lastManifestData.ruleSet : null;
     g.__VWS_OTA_MANUAL_UPDATE__ = otaManualUpdateForLoad;
+    try {
+      g.GM = createGmNamespace();
+    } catch (e) {
+      bootLog('warn', MODULE_LOG_PREFIX, 'gm-namespace:failed', e && e.message ? e.message : String(e));
+    }
     try {
       var body = ASSIGN_GLOBALS + '\\nwith(g) {\\n' + PRESET_VAR_DECLS + '\\n' + presetCode + '\\n}';
       new Function(${grantParamList}, body)(${grantArgList});
@@ -911,4 +1106,5 @@ ${grantLines}
 `
 }
 
-const GRANTS_STRING = GRANTS.map((g) => `...(typeof ${g} !== 'undefined' ? { ${g} } : {})`).join(', ')
+/** `GM` is not an `@grant` entry: the launcher builds the promise namespace itself (see createGmNamespace). */
+const GRANTS_STRING = [...GRANTS, 'GM'].map((g) => `...(typeof ${g} !== 'undefined' ? { ${g} } : {})`).join(', ')
@@ -1,3 +1,5 @@
+import type { ScriptUrlMatchRules } from '@/shared/url-pattern-match'
+
 const OPEN_TAG = `// ==UserScript==`
 const CLOSE_TAG = `// ==/UserScript==`
 
@@ -39,6 +41,26 @@ export function extractMeta(content: string) {
   return meta
 }
 
+function extractMetaList(value: string | string[] | undefined): string[] {
+  const values = !value ? [] : Array.isArray(value) ? value : [value]
+  return values.filter((item) => typeof item === 'string' && item.trim().length > 0)
+}
+
+/**
+ * Read the URL rules of a userscript header (`@match`, `@include`, `@exclude`, `@exclude-match`, `@noframes`).
+ * @param meta Result of `extractMeta`
+ * @returns Match rules plus whether the script is limited to the top-level frame
+ */
+export function extractUrlMatchMeta(meta: Record<string, string | string[]>): Required<ScriptUrlMatchRules> & { noframes: boolean } {
+  return {
+    match: extractMetaList(meta.match),
+    include: extractMetaList(meta.include),
+    exclude: extractMetaList(meta.exclude),
+    excludeMatch: extractMetaList(meta['exclude-match']),
+    noframes: 'noframes' in meta,
+  }
+}
+
 export function prependMeta(content: string, info: Record<string, string | string[]>) {
   const remarks = Object.entries(info).map(([key, value]) => {
     if (Array.isArray(value)) {
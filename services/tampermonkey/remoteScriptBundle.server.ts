@@ -1,9 +1,11 @@
 import { createHash } from 'crypto'
 
 import { SCRIPT_INDEX_FILE } from '@/constants/file'
-import { fetchGist, getGistInfo } from '@/services/gist'
 import type { ScriptFileMeta } from '@/services/scripts/gistScripts'
-import { buildScriptFilesForBundleTrack } from '@/shared/script-bundle-track'
+import { createScriptAssetResolver, type ScriptAssetResolver } from '@/services/scripts/scriptAssets'
+import { collectScriptModuleSources } from '@/services/scripts/scriptModules'
+import { getScriptStorage } from '@/services/storage'
+import { buildScriptFilesForBundleTrack, resolveRolloutBaselineSource } from '@/shared/script-bundle-track'
 import { type ScriptBundleTrack } from '@/shared/script-ota-policy'
 
 import { getRemoteScriptContent } from './createUserScript.server'
@@ -28,10 +30,20 @@ export interface RemoteScriptBundlePayload {
  * @param files Filename → source
  * @param track Bundle track label
  * @param scriptBuiltAt Stable timestamp for log wrappers
+ * @param assets Pinned `@require` / `@resource` assets
+ * @param modules Managed script sources imports resolve against (default: `files`)
+ * @param includeBackground Keep `@run-at background` scripts (per-script payloads the extension shell runs on a schedule)
  * @returns Payload or null when compile yields empty
  */
-export async function compileRemoteScriptBundlePayload(files: Record<string, string>, track: ScriptBundleTrack, scriptBuiltAt: number): Promise<RemoteScriptBundlePayload | null> {
-  const raw = await getRemoteScriptContent(files, { strictCompile: true, scriptBuiltAt })
+export async function compileRemoteScriptBundlePayload(
+  files: Record<string, string>,
+  track: ScriptBundleTrack,
+  scriptBuiltAt: number,
+  assets?: ScriptAssetResolver,
+  modules?: Record<string, string>,
+  includeBackground = false
+): Promise<RemoteScriptBundlePayload | null> {
+  const raw = await getRemoteScriptContent(files, { strictCompile: true, scriptBuiltAt, assets, modules, includeBackground })
   const content = `// vws-wrapper:${REMOTE_SCRIPT_WRAPPER_VERSION}\n// vws-track:${track}\n${raw.replace(/\r\n/g, '\n')}`
   if (!content.trim()) {
     return null
@@ -41,26 +53,39 @@ export async function compileRemoteScriptBundlePayload(files: Record<string, str
 }
 
 /**
- * Compile a single Gist script file into a remote module payload.
+ * Compile a single Gist script file into a remote module payload (background scripts included).
  * @param file Managed script filename
  * @param source Script source text
  * @param track Bundle track
  * @param scriptBuiltAt Stable timestamp for log wrappers
+ * @param assets Pinned `@require` / `@resource` assets
+ * @param modules Managed script sources its imports resolve against; imported helpers are tree-shaken into the payload
  */
-export async function compileRemoteScriptModulePayload(file: string, source: string, track: ScriptBundleTrack, scriptBuiltAt: number): Promise<RemoteScriptBundlePayload | null> {
-  return compileRemoteScriptBundlePayload({ [file]: source }, track, scriptBuiltAt)
+export async function compileRemoteScriptModulePayload(
+  file: string,
+  source: string,
+  track: ScriptBundleTrack,
+  scriptBuiltAt: number,
+  assets?: ScriptAssetResolver,
+  modules?: Record<string, string>
+): Promise<RemoteScriptBundlePayload | null> {
+  return compileRemoteScriptBundlePayload({ [file]: source }, track, scriptBuiltAt, assets, modules && { ...modules, [file]: source }, true)
 }
 
 /**
  * Fetch and compile one script module from Gist for the given track.
  * @param filename Managed script filename
  * @param track Bundle track
+ * @param options `rolloutBaseline` compiles the baseline release of an active rollout instead of the candidate
  */
-export async function buildRemoteScriptModuleFromGist(filename: string, track: ScriptBundleTrack = 'stable'): Promise<RemoteScriptBundlePayload | null> {
+export async function buildRemoteScriptModuleFromGist(
+  filename: string,
+  track: ScriptBundleTrack = 'stable',
+  options?: { rolloutBaseline?: boolean }
+): Promise<RemoteScriptBundlePayload | null> {
   try {
-    const { gistId, gistToken } = getGistInfo()
-    const gist = await fetchGist({ gistId, gistToken })
-    const gistFiles = Object.fromEntries(Object.entries(gist.files).map(([name, file]) => [name, { content: file.content }]))
+    const snapshot = await getScriptStorage().fetchSnapshot()
+    const gistFiles = Object.fromEntries(Object.entries(snapshot.files).map(([name, file]) => [name, { content: file.content }]))
 
     let scripts: ScriptFileMeta[] = []
     const indexContent = gistFiles[SCRIPT_INDEX_FILE]?.content
@@ -77,13 +102,13 @@ export async function buildRemoteScriptModuleFromGist(filename: string, track: S
     if (!script) {
       return null
     }
-    const files = buildScriptFilesForBundleTrack([script], gistFiles, track)
-    const source = files[filename]
+    const source = options?.rolloutBaseline ? resolveRolloutBaselineSource(script, gistFiles) : buildScriptFilesForBundleTrack([script], gistFiles, track)[filename]
     if (!source) {
       return null
     }
-    const gistUpdatedAtMs = new Date(gist.updated_at).getTime()
-    return compileRemoteScriptModulePayload(filename, source, track, gistUpdatedAtMs)
+    const gistUpdatedAtMs = new Date(snapshot.updatedAt).getTime()
+    const modules = collectScriptModuleSources(gistFiles, buildScriptFilesForBundleTrack(scripts, gistFiles, track))
+    return compileRemoteScriptModulePayload(filename, source, track, gistUpdatedAtMs, createScriptAssetResolver(gistFiles), modules)
   } catch {
     return null
   }
@@ -96,9 +121,8 @@ export async function buildRemoteScriptModuleFromGist(filename: string, track: S
  */
 export async function buildRemoteScriptBundleFromGist(track: ScriptBundleTrack = 'stable'): Promise<RemoteScriptBundlePayload | null> {
   try {
-    const { gistId, gistToken } = getGistInfo()
-    const gist = await fetchGist({ gistId, gistToken })
-    const gistFiles = Object.fromEntries(Object.entries(gist.files).map(([name, file]) => [name, { content: file.content }]))
+    const snapshot = await getScriptStorage().fetchSnapshot()
+    const gistFiles = Object.fromEntries(Object.entries(snapshot.files).map(([name, file]) => [name, { content: file.content }]))
 
     let scripts: ScriptFileMeta[] = []
     const indexContent = gistFiles[SCRIPT_INDEX_FILE]?.content
@@ -112,8 +136,8 @@ export async function buildRemoteScriptBundleFromGist(track: ScriptBundleTrack =
     }
 
     const files = buildScriptFilesForBundleTrack(scripts, gistFiles, track)
-    const gistUpdatedAtMs = new Date(gist.updated_at).getTime()
-    return compileRemoteScriptBundlePayload(files, track, gistUpdatedAtMs)
+    const gistUpdatedAtMs = new Date(snapshot.updatedAt).getTime()
+    return compileRemoteScriptBundlePayload(files, track, gistUpdatedAtMs, createScriptAssetResolver(gistFiles), collectScriptModuleSources(gistFiles, files))
   } catch {
     return null
   }
@@ -128,9 +152,8 @@ export async function buildRemoteScriptBundlesFromGist(): Promise<{
   alpha: RemoteScriptBundlePayload | null
 }> {
   try {
-    const { gistId, gistToken } = getGistInfo()
-    const gist = await fetchGist({ gistId, gistToken })
-    const gistFiles = Object.fromEntries(Object.entries(gist.files).map(([name, file]) => [name, { content: file.content }]))
+    const snapshot = await getScriptStorage().fetchSnapshot()
+    const gistFiles = Object.fromEntries(Object.entries(snapshot.files).map(([name, file]) => [name, { content: file.content }]))
 
     let scripts: ScriptFileMeta[]
     const indexContent = gistFiles[SCRIPT_INDEX_FILE]?.content
@@ -141,13 +164,14 @@ export async function buildRemoteScriptBundlesFromGist(): Promise<{
       scripts = []
     }
 
-    const gistUpdatedAtMs = new Date(gist.updated_at).getTime()
+    const gistUpdatedAtMs = new Date(snapshot.updatedAt).getTime()
     const stableFiles = buildScriptFilesForBundleTrack(scripts, gistFiles, 'stable')
     const alphaFiles = buildScriptFilesForBundleTrack(scripts, gistFiles, 'alpha')
 
+    const assets = createScriptAssetResolver(gistFiles)
     const [stable, alpha] = await Promise.all([
-      compileRemoteScriptBundlePayload(stableFiles, 'stable', gistUpdatedAtMs),
-      compileRemoteScriptBundlePayload(alphaFiles, 'alpha', gistUpdatedAtMs),
+      compileRemoteScriptBundlePayload(stableFiles, 'stable', gistUpdatedAtMs, assets, collectScriptModuleSources(gistFiles, stableFiles)),
+      compileRemoteScriptBundlePayload(alphaFiles, 'alpha', gistUpdatedAtMs, assets, collectScriptModuleSources(gistFiles, alphaFiles)),
     ])
     return { stable, alpha }
   } catch {
@@ -1,7 +1,17 @@
+import type { RuleConditions } from '@/shared/rule-engine'
+
 export interface RuleConfig {
   id: string
   wildcard: string
   script: string
+  /** `exclude` keeps the script off matching URLs, even when its `@match` covers them; `script` when omitted */
+  mode?: 'script' | 'exclude'
+  /** Disabled when false */
+  enabled?: boolean
+  /** Higher-priority rules decide first; 0 when omitted */
+  priority?: number
+  /** Frame, time window, cookie / localStorage, user agent / device and DOM conditions */
+  conditions?: RuleConditions
 }
 
 export function isRuleConfig(rule: any): rule is RuleConfig {
@@ -9,5 +19,13 @@ export function isRuleConfig(rule: any): rule is RuleConfig {
     return false
   }
 
-  return typeof rule.id === 'string' && typeof rule.wildcard === 'string' && typeof rule.script === 'string'
+  return (
+    typeof rule.id === 'string' &&
+    typeof rule.wildcard === 'string' &&
+    typeof rule.script === 'string' &&
+    (rule.mode === undefined || rule.mode === 'script' || rule.mode === 'exclude') &&
+    (rule.enabled === undefined || typeof rule.enabled === 'boolean') &&
+    (rule.priority === undefined || Number.isFinite(rule.priority)) &&
+    (rule.conditions === undefined || (typeof rule.conditions === 'object' && rule.conditions !== null && !Array.isArray(rule.conditions)))
+  )
 }
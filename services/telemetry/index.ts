@@ -0,0 +1,72 @@
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+import { createMemoryTelemetrySink } from './memory'
+import { createStorageTelemetrySink } from './storage'
+import { type ScriptTelemetrySummary, summarizeScriptTelemetry } from './summary'
+import type { TelemetrySink, TelemetrySinkKind } from './types'
+
+export type { FailingUrl, ScriptTelemetryError, ScriptTelemetryScriptSummary, ScriptTelemetrySummary } from './summary'
+export type { TelemetrySink, TelemetrySinkKind } from './types'
+
+const SINK_KINDS: readonly TelemetrySinkKind[] = ['none', 'memory', 'storage']
+
+/** Default dashboard window. */
+export const TELEMETRY_SUMMARY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Sink selected by `SCRIPTS_TELEMETRY_SINK` (`none` when unset: telemetry is opt-in).
+ * @returns Sink kind
+ */
+export function getTelemetrySinkKind(): TelemetrySinkKind {
+  const raw = process.env.SCRIPTS_TELEMETRY_SINK?.trim().toLowerCase()
+  if (!raw) {
+    return 'none'
+  }
+
+  if (!SINK_KINDS.includes(raw as TelemetrySinkKind)) {
+    throw new Error(`process.env.SCRIPTS_TELEMETRY_SINK must be one of ${SINK_KINDS.join(', ')} (got "${raw}")`)
+  }
+
+  return raw as TelemetrySinkKind
+}
+
+/**
+ * Create the configured telemetry sink.
+ * @returns Sink for the current env, or null when telemetry is disabled
+ */
+export function getTelemetrySink(): TelemetrySink | null {
+  switch (getTelemetrySinkKind()) {
+    case 'memory':
+      return createMemoryTelemetrySink()
+    case 'storage':
+      return createStorageTelemetrySink()
+    default:
+      return null
+  }
+}
+
+/**
+ * Store a batch of normalized client events.
+ * @param events Normalized events
+ * @returns Stored event count (0 when telemetry is disabled)
+ */
+export async function recordScriptTelemetry(events: ScriptTelemetryEvent[]): Promise<number> {
+  const sink = getTelemetrySink()
+  if (!sink || events.length === 0) {
+    return 0
+  }
+  await sink.write(events)
+  return events.length
+}
+
+/**
+ * Per-script error rates and top failing URLs over the recent window.
+ * @param windowMs Window length (defaults to 7 days)
+ * @returns Sink kind and summary (empty when telemetry is disabled)
+ */
+export async function getScriptTelemetrySummary(windowMs = TELEMETRY_SUMMARY_WINDOW_MS): Promise<{ sink: TelemetrySinkKind } & ScriptTelemetrySummary> {
+  const since = Date.now() - windowMs
+  const sink = getTelemetrySink()
+  const events = sink ? await sink.read(since) : []
+  return { sink: sink?.kind ?? 'none', ...summarizeScriptTelemetry(events, since) }
+}
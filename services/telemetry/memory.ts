@@ -0,0 +1,27 @@
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+import type { TelemetrySink } from './types'
+
+/** Events kept by the memory sink; older events are dropped first. */
+export const MEMORY_TELEMETRY_LIMIT = 5000
+
+const events: ScriptTelemetryEvent[] = []
+
+/**
+ * In-process sink: events live until the server instance restarts. Intended for development and single-instance hosts.
+ * @returns Memory-backed sink
+ */
+export function createMemoryTelemetrySink(): TelemetrySink {
+  return {
+    kind: 'memory',
+    async write(batch) {
+      events.push(...batch)
+      if (events.length > MEMORY_TELEMETRY_LIMIT) {
+        events.splice(0, events.length - MEMORY_TELEMETRY_LIMIT)
+      }
+    },
+    async read(since) {
+      return events.filter((event) => event.at >= since)
+    },
+  }
+}
@@ -0,0 +1,114 @@
+import { SCRIPT_TELEMETRY_FILE } from '@/constants/file'
+import { getScriptStorage } from '@/services/storage'
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+import type { TelemetrySink } from './types'
+
+/** Events kept in `SCRIPT_TELEMETRY_FILE`; older events are dropped first so the file stays small. */
+export const STORAGE_TELEMETRY_LIMIT = 1000
+
+/** Delay between the first buffered batch and the storage write that flushes the buffer. */
+export const STORAGE_TELEMETRY_FLUSH_INTERVAL_MS = 30_000
+
+/** Persisted telemetry (`SCRIPT_TELEMETRY_FILE`) */
+interface TelemetryFile {
+  version: 1
+  events: ScriptTelemetryEvent[]
+}
+
+/** Batches received since the last flush, shared by every sink in this server instance. */
+const buffer: ScriptTelemetryEvent[] = []
+/** Batch being written by the running flush, still visible to reads until the write lands. */
+let flushingEvents: ScriptTelemetryEvent[] = []
+let flushTimer: ReturnType<typeof setTimeout> | undefined
+let flushing: Promise<void> | undefined
+
+async function readTelemetryEvents(): Promise<ScriptTelemetryEvent[]> {
+  const content = await getScriptStorage()
+    .readFile(SCRIPT_TELEMETRY_FILE)
+    .catch(() => '')
+  if (!content) {
+    return []
+  }
+  try {
+    const parsed = JSON.parse(content) as Partial<TelemetryFile>
+    return Array.isArray(parsed.events) ? parsed.events : []
+  } catch {
+    return []
+  }
+}
+
+async function writeBufferedEvents(): Promise<void> {
+  const batch = buffer.splice(0, buffer.length)
+  if (batch.length === 0) {
+    return
+  }
+  flushingEvents = batch
+  try {
+    const events = [...(await readTelemetryEvents()), ...batch].slice(-STORAGE_TELEMETRY_LIMIT)
+    const file: TelemetryFile = { version: 1, events }
+    await getScriptStorage().writeFiles([{ file: SCRIPT_TELEMETRY_FILE, content: `${JSON.stringify(file)}\n` }])
+  } catch (error) {
+    // Keep the batch for the next flush; newer events win when the buffer overflows
+    buffer.unshift(...batch)
+    buffer.splice(0, Math.max(0, buffer.length - STORAGE_TELEMETRY_LIMIT))
+    throw error
+  } finally {
+    flushingEvents = []
+  }
+}
+
+/**
+ * Write buffered events to `SCRIPT_TELEMETRY_FILE` now (one read and one write of that file).
+ * Called by the flush timer; tests and shutdown hooks may call it directly.
+ */
+export async function flushStorageTelemetry(): Promise<void> {
+  if (flushTimer !== undefined) {
+    clearTimeout(flushTimer)
+    flushTimer = undefined
+  }
+  while (flushing) {
+    await flushing
+  }
+  flushing = writeBufferedEvents().finally(() => {
+    flushing = undefined
+  })
+  await flushing
+}
+
+function scheduleFlush(): void {
+  if (flushTimer !== undefined) {
+    return
+  }
+  flushTimer = setTimeout(() => {
+    flushTimer = undefined
+    flushStorageTelemetry().catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error('[telemetry] storage flush failed:', error)
+      scheduleFlush()
+    })
+  }, STORAGE_TELEMETRY_FLUSH_INTERVAL_MS)
+  flushTimer.unref?.()
+}
+
+/**
+ * Script storage sink: batches are buffered in memory and written to one file next to the scripts (Gist, GitHub or
+ * local directory backend) at most once per {@link STORAGE_TELEMETRY_FLUSH_INTERVAL_MS}, so ingestion never waits on
+ * storage and shares little of its rate limit. Instances flushing at the same moment can still drop each other's
+ * events, and a buffer is lost when its instance stops; this suits small fleets.
+ * @returns Storage-backed sink
+ */
+export function createStorageTelemetrySink(): TelemetrySink {
+  return {
+    kind: 'storage',
+    async write(batch) {
+      buffer.push(...batch)
+      buffer.splice(0, Math.max(0, buffer.length - STORAGE_TELEMETRY_LIMIT))
+      scheduleFlush()
+    },
+    async read(since) {
+      const stored = await readTelemetryEvents()
+      return [...stored, ...flushingEvents, ...buffer].filter((event) => event.at >= since)
+    },
+  }
+}
@@ -0,0 +1,95 @@
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+/** Failing URLs listed per script and overall. */
+export const TOP_FAILING_URL_LIMIT = 5
+
+/** Error count on one page URL */
+export interface FailingUrl {
+  url: string
+  errors: number
+  /** Scripts that failed on this URL */
+  files: string[]
+}
+
+/** Latest error of a script, for the dashboard detail row */
+export interface ScriptTelemetryError {
+  traceId: string
+  url: string
+  at: number
+  message?: string
+  stack?: string
+}
+
+/** Execution and error counts of one script */
+export interface ScriptTelemetryScriptSummary {
+  file: string
+  executions: number
+  errors: number
+  /** errors / executions, capped at 1 (0 without executions) */
+  errorRate: number
+  topFailingUrls: FailingUrl[]
+  lastError: ScriptTelemetryError | null
+}
+
+/** Dashboard view of the retained telemetry window */
+export interface ScriptTelemetrySummary {
+  since: number
+  /** Scripts with errors first (by error rate, then errors), then by executions */
+  scripts: ScriptTelemetryScriptSummary[]
+  topFailingUrls: FailingUrl[]
+}
+
+function rankFailingUrls(byUrl: Map<string, { errors: number; files: Set<string> }>): FailingUrl[] {
+  return [...byUrl.entries()]
+    .map(([url, { errors, files }]) => ({ url, errors, files: [...files].sort() }))
+    .sort((a, b) => b.errors - a.errors || a.url.localeCompare(b.url))
+    .slice(0, TOP_FAILING_URL_LIMIT)
+}
+
+function countFailingUrl(byUrl: Map<string, { errors: number; files: Set<string> }>, event: ScriptTelemetryEvent): void {
+  const url = event.url || '(unknown)'
+  const entry = byUrl.get(url) ?? { errors: 0, files: new Set<string>() }
+  entry.errors++
+  entry.files.add(event.file)
+  byUrl.set(url, entry)
+}
+
+/**
+ * Aggregate raw events into per-script error rates and top failing URLs.
+ * @param events Events oldest first
+ * @param since Window start (ms since epoch), echoed in the summary
+ * @returns Dashboard summary
+ */
+export function summarizeScriptTelemetry(events: ScriptTelemetryEvent[], since: number): ScriptTelemetrySummary {
+  const scripts = new Map<string, { executions: number; errors: number; urls: Map<string, { errors: number; files: Set<string> }>; lastError: ScriptTelemetryError | null }>()
+  const allUrls = new Map<string, { errors: number; files: Set<string> }>()
+
+  for (const event of events) {
+    const script = scripts.get(event.file) ?? { executions: 0, errors: 0, urls: new Map(), lastError: null }
+    scripts.set(event.file, script)
+    if (event.kind === 'execution') {
+      script.executions++
+      continue
+    }
+
+    script.errors++
+    countFailingUrl(script.urls, event)
+    countFailingUrl(allUrls, event)
+    if (!script.lastError || event.at >= script.lastError.at) {
+      const { traceId, url, at, message, stack } = event
+      script.lastError = { traceId, url, at, ...(message ? { message } : {}), ...(stack ? { stack } : {}) }
+    }
+  }
+
+  const summaries = [...scripts.entries()].map(([file, { executions, errors, urls, lastError }]) => ({
+    file,
+    executions,
+    errors,
+    errorRate: executions > 0 ? Math.min(1, errors / executions) : errors > 0 ? 1 : 0,
+    topFailingUrls: rankFailingUrls(urls),
+    lastError,
+  }))
+  summaries.sort((a, b) => b.errorRate - a.errorRate || b.errors - a.errors || b.executions - a.executions || a.file.localeCompare(b.file))
+
+  return { since, scripts: summaries, topFailingUrls: rankFailingUrls(allUrls) }
+}
@@ -0,0 +1,17 @@
+import type { ScriptTelemetryEvent } from '@/shared/script-telemetry'
+
+/** Supported telemetry sinks (selected by `SCRIPTS_TELEMETRY_SINK`); `none` disables ingestion. */
+export type TelemetrySinkKind = 'none' | 'memory' | 'storage'
+
+/**
+ * Destination of ingested script telemetry. Sinks keep a bounded window of recent events;
+ * aggregation for the dashboard happens on read.
+ */
+export interface TelemetrySink {
+  /** Sink kind */
+  readonly kind: Exclude<TelemetrySinkKind, 'none'>
+  /** Append a batch of normalized events */
+  write(events: ScriptTelemetryEvent[]): Promise<void>
+  /** Read retained events at or after `since` (ms since epoch), oldest first */
+  read(since: number): Promise<ScriptTelemetryEvent[]>
+}
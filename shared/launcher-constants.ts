@@ -49,6 +49,8 @@ export const RUNTIME_SCRIPT_LOAD_MODE_KEY = 'vws_runtime_script_load_mode'
 export const RUNTIME_SCRIPT_MODULES_KEY = 'vws_runtime_script_modules'
 /** GM_setValue key: JSON map of per-file OTA policies from manifest.scriptPolicies */
 export const RUNTIME_SCRIPT_POLICIES_KEY = 'vws_runtime_script_policies'
+/** GM_setValue key: JSON manifest.ruleSet (URL rule set per track) */
+export const RUNTIME_RULE_SET_KEY = 'vws_runtime_rule_set'
 
 /** Ring buffer key on globalThis (must match preset log-store) */
 export const BOOT_LOG_KEY = '__VWS_BOOT_LOG__'
@@ -0,0 +1,146 @@
+/** One line in a line diff */
+export interface LineDiffOp {
+  type: 'equal' | 'add' | 'remove'
+  line: string
+}
+
+/** Unified line diff result */
+export interface LineDiffResult {
+  /** Unified diff body (`@@` hunks, no file headers); empty when both sides match */
+  patch: string
+  additions: number
+  deletions: number
+}
+
+/** Above this many LCS cells the changed middle is reported as a full replace instead. */
+const MAX_LCS_CELLS = 4_000_000
+
+function splitLines(content: string): string[] {
+  if (!content) {
+    return []
+  }
+  const lines = content.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
+
+/**
+ * Line-level diff (common prefix/suffix trimmed, LCS on the changed middle).
+ * @param before Old content
+ * @param after New content
+ * @returns Ordered diff operations
+ */
+export function diffLines(before: string, after: string): LineDiffOp[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const ops: LineDiffOp[] = a.slice(0, start).map((line) => ({ type: 'equal', line }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line) => ({ type: 'remove' as const, line })), ...midB.map((line) => ({ type: 'add' as const, line })))
+  } else {
+    const cols = midB.length + 1
+    const lcs = new Uint32Array((midA.length + 1) * cols)
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j] ? lcs[(i + 1) * cols + j + 1] + 1 : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: 'equal', line: midA[i] })
+        i++
+        j++
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        ops.push({ type: 'remove', line: midA[i++] })
+      } else {
+        ops.push({ type: 'add', line: midB[j++] })
+      }
+    }
+    while (i < midA.length) ops.push({ type: 'remove', line: midA[i++] })
+    while (j < midB.length) ops.push({ type: 'add', line: midB[j++] })
+  }
+
+  ops.push(...a.slice(endA).map((line) => ({ type: 'equal' as const, line })))
+  return ops
+}
+
+/**
+ * Build a unified diff (`@@ -a,b +c,d @@` hunks) between two contents.
+ * @param before Old content
+ * @param after New content
+ * @param context Unchanged lines kept around each change
+ * @returns Patch text with addition / deletion counts
+ */
+export function createUnifiedLineDiff(before: string, after: string, context = 3): LineDiffResult {
+  const ops = diffLines(before, after)
+  const additions = ops.filter((op) => op.type === 'add').length
+  const deletions = ops.filter((op) => op.type === 'remove').length
+  if (additions === 0 && deletions === 0) {
+    return { patch: '', additions, deletions }
+  }
+
+  // Line numbers before each op, so hunks can be cut anywhere.
+  const oldLineAt: number[] = []
+  const newLineAt: number[] = []
+  let oldLine = 1
+  let newLine = 1
+  for (const op of ops) {
+    oldLineAt.push(oldLine)
+    newLineAt.push(newLine)
+    if (op.type !== 'add') oldLine++
+    if (op.type !== 'remove') newLine++
+  }
+
+  const hunks: string[] = []
+  let index = 0
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].type === 'equal') {
+      index++
+    }
+    if (index >= ops.length) {
+      break
+    }
+
+    const hunkStart = Math.max(0, index - context)
+    let hunkEnd = index
+    let lastChange = index
+    while (hunkEnd < ops.length && hunkEnd - lastChange <= context * 2) {
+      if (ops[hunkEnd].type !== 'equal') {
+        lastChange = hunkEnd
+      }
+      hunkEnd++
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1)
+
+    const slice = ops.slice(hunkStart, hunkEnd)
+    const oldCount = slice.filter((op) => op.type !== 'add').length
+    const newCount = slice.filter((op) => op.type !== 'remove').length
+    const oldStart = oldCount === 0 ? oldLineAt[hunkStart] - 1 : oldLineAt[hunkStart]
+    const newStart = newCount === 0 ? newLineAt[hunkStart] - 1 : newLineAt[hunkStart]
+    const body = slice.map((op) => `${op.type === 'add' ? '+' : op.type === 'remove' ? '-' : ' '}${op.line}`)
+    hunks.push([`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body].join('\n'))
+
+    index = hunkEnd
+  }
+
+  return { patch: `${hunks.join('\n')}\n`, additions, deletions }
+}
@@ -7,20 +7,81 @@ export const ENTRY_SCRIPT_RULES_FILE = 'tampermonkey.rules.json'
 /** Generated script index for search / MCP. */
 export const SCRIPT_INDEX_FILE = 'magickmonkey.scripts.index.json'
 
+/** Per-file revision history log, including the content of every kept revision (one file, size-capped). */
+export const SCRIPT_REVISIONS_FILE = 'magickmonkey.scripts.revisions.json'
+
+/** Pinned `@require` / `@resource` lock (URL → integrity, SHA-1, content type; contents live in `assets.*`). */
+export const SCRIPT_ASSETS_FILE = 'magickmonkey.scripts.assets.json'
+
+/** URL rule set releases: published versions and the one stable clients receive (contents live in `releases.tampermonkey.rules.json@{version}`). */
+export const RULE_SET_RELEASES_FILE = 'magickmonkey.rules.releases.json'
+
+/** Script execution / error telemetry written by the `storage` telemetry sink (newest events last). */
+export const SCRIPT_TELEMETRY_FILE = 'magickmonkey.scripts.telemetry.json'
+
+/** Scoped integration API keys (SHA-256 hashes only, never the keys themselves). */
+export const API_KEYS_FILE = 'magickmonkey.apikeys.json'
+
+/** Last use per API key id, kept apart so authentication never rewrites the key list. */
+export const API_KEY_USAGE_FILE = 'magickmonkey.apikeys.usage.json'
+
+/** User accounts and roles (password hashes and 2FA secrets encrypted with a server-side key). */
+export const USERS_FILE = 'magickmonkey.users.json'
+
+/** Prefix of content-addressed asset contents: `assets.{sha1}`. */
+export const ASSETS_PREFIX = 'assets.'
+
 export const EXCLUDED_FILES = [ENTRY_SCRIPT_FILE, ENTRY_SCRIPT_RULES_FILE]
 
 export const SCRIPTS_FILE_EXTENSION = ['.ts', '.js'] as const
 
+/** Script test files sit next to the script they test: `demo.test.ts` tests `demo.ts` (or `demo.js`). */
+const SCRIPT_TEST_FILE_RE = /\.test\.(?:ts|js)$/
+
 /**
- * Whether a Gist filename is a managed userscript (not entry, rules, or index).
+ * Whether a Gist filename is a managed userscript (not entry, rules, index, or a script test).
  * @param filename Gist file name
  */
 export function isManagedScriptFilename(filename: string): boolean {
   if (!filename || filename.includes('/') || filename.includes('\\') || filename.includes('..')) {
     return false
   }
-  if (EXCLUDED_FILES.includes(filename) || filename === SCRIPT_INDEX_FILE) {
+  if (EXCLUDED_FILES.includes(filename) || filename === SCRIPT_INDEX_FILE || SCRIPT_TEST_FILE_RE.test(filename)) {
     return false
   }
   return SCRIPTS_FILE_EXTENSION.some((ext) => filename.endsWith(ext))
 }
+
+/**
+ * Whether a Gist filename is a script test file (`*.test.ts` / `*.test.js`); never compiled into the bundles.
+ * @param filename Gist file name
+ */
+export function isScriptTestFilename(filename: string): boolean {
+  return Boolean(filename) && !filename.includes('/') && !filename.includes('\\') && SCRIPT_TEST_FILE_RE.test(filename)
+}
+
+/**
+ * Managed script filenames a test file may target, in lookup order (`demo.test.ts` → `demo.ts`, `demo.js`).
+ * @param testFilename Script test filename
+ */
+export function getScriptTestTargetCandidates(testFilename: string): string[] {
+  const base = testFilename.replace(SCRIPT_TEST_FILE_RE, '')
+  const ownExtension = testFilename.endsWith('.js') ? '.js' : '.ts'
+  return [`${base}${ownExtension}`, ...SCRIPTS_FILE_EXTENSION.filter((ext) => ext !== ownExtension).map((ext) => `${base}${ext}`)]
+}
+
+/**
+ * Whether a storage file belongs to revision history (the log); hidden from the editor file list.
+ * @param filename Storage file name
+ */
+export function isScriptRevisionStorageFile(filename: string): boolean {
+  return filename === SCRIPT_REVISIONS_FILE
+}
+
+/**
+ * Whether a storage file holds pinned `@require` / `@resource` assets (the lock or a content file); hidden from the editor file list.
+ * @param filename Storage file name
+ */
+export function isScriptAssetStorageFile(filename: string): boolean {
+  return filename === SCRIPT_ASSETS_FILE || filename.startsWith(ASSETS_PREFIX)
+}
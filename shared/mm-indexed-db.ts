@@ -12,4 +12,4 @@ export const MM_LOG_STORE_STORAGE_KEY = 'buffer'
 /** Web script editor (files, tabs, layout) */
 export const MM_SCRIPT_EDITOR_DB_NAME = 'mm_script_editor'
 /** Previous name: script_editor_storage (v5). Renamed DB requires version bump. */
-export const MM_SCRIPT_EDITOR_DB_VERSION = 6
+export const MM_SCRIPT_EDITOR_DB_VERSION = 7
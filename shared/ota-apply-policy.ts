@@ -1,3 +1,4 @@
+import { isClientInRolloutCohort } from './ota-rollout'
 import type { OtaReleaseStage, RuntimeOtaPolicy, ScriptOtaPolicy } from './script-ota-policy'
 
 /** Client preferences for OTA module application. */
@@ -6,6 +7,8 @@ export interface OtaClientPreferences {
   acceptAlpha?: boolean
   /** Manual update from popup bypasses autoUpgrade=false when true. */
   manualUpdate?: boolean
+  /** Stable client id placing this install in staged rollout cohorts. */
+  clientId?: string
 }
 
 /** Inputs for deciding whether to apply a remote module revision. */
@@ -84,5 +87,13 @@ export function decideOtaModuleApply(input: OtaApplyDecisionInput): OtaApplyDeci
     }
   }
 
+  // Outside the cohort the candidate never runs, cached or not: clients keep (or fetch) the baseline until the rollout is promoted
+  const rollout = policy && 'rollout' in policy ? policy.rollout : undefined
+  if (rollout?.status === 'active' && input.scriptPolicy?.version === rollout.version) {
+    if (!isClientInRolloutCohort(rollout, input.moduleId, input.clientPrefs?.clientId)) {
+      return { apply: false, reason: 'rollout-not-in-cohort' }
+    }
+  }
+
   return { apply: true, reason: manualUpdate ? 'manual-update' : 'policy-allowed' }
 }
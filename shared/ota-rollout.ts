@@ -0,0 +1,70 @@
+import type { ScriptOtaRollout } from './script-ota-policy'
+
+/** GM storage key holding the random client id that places this install in rollout cohorts. */
+export const OTA_CLIENT_ID_KEY = 'vws_ota_client_id'
+
+/** Distinct reporting clients of one rollout candidate (a client that failed once counts as failed). */
+export interface RolloutHealth {
+  successes: number
+  failures: number
+}
+
+/** Automatic transition of a staged rollout. */
+export type RolloutVerdict = 'promote' | 'rollback' | null
+
+/**
+ * Deterministic 0–99 bucket for a client and rollout candidate (FNV-1a). Keyed by file and version so
+ * each rollout samples a different cohort while a client's bucket stays stable across reloads.
+ * @param clientId Stable client id
+ * @param file Managed script filename
+ * @param version Candidate version
+ */
+export function computeRolloutBucket(clientId: string, file: string, version: string): number {
+  let hash = 0x811c9dc5
+  const input = `${clientId}|${file}|${version}`
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % 100
+}
+
+/**
+ * Whether a client belongs to the cohort receiving an active rollout's candidate.
+ * Clients without an id stay on the baseline.
+ * @param rollout Resolved rollout
+ * @param file Managed script filename
+ * @param clientId Stable client id
+ */
+export function isClientInRolloutCohort(rollout: ScriptOtaRollout, file: string, clientId: string | null | undefined): boolean {
+  if (rollout.status !== 'active') {
+    return false
+  }
+  if (rollout.percent >= 100) {
+    return true
+  }
+  if (!clientId) {
+    return false
+  }
+  return computeRolloutBucket(clientId, file, rollout.version) < rollout.percent
+}
+
+/**
+ * Decide whether reported health promotes or rolls back an active rollout.
+ * @param rollout Resolved rollout
+ * @param health Distinct reporting clients
+ * @returns `rollback` once the failure rate reaches the threshold, `promote` when healthy and auto-promotion is on
+ */
+export function evaluateRolloutHealth(rollout: ScriptOtaRollout, health: RolloutHealth): RolloutVerdict {
+  if (rollout.status !== 'active') {
+    return null
+  }
+  const total = health.successes + health.failures
+  if (total < rollout.minSamples) {
+    return null
+  }
+  if (health.failures / total >= rollout.failureThreshold) {
+    return 'rollback'
+  }
+  return rollout.autoPromote ? 'promote' : null
+}
@@ -1,4 +1,4 @@
-import { decideOtaModuleApply } from './ota-apply-policy'
+import { decideOtaModuleApply, type OtaApplyDecision } from './ota-apply-policy'
 import { joinRemoteBundleModules, type RemoteBundleModule, splitRemoteBundleModules } from './remote-script-bundle-modules'
 import { resolveScriptOtaPolicy, type ScriptOtaPolicy } from './script-ota-policy'
 export interface RemoteBundleOtaMergeInput {
@@ -6,6 +6,8 @@ export interface RemoteBundleOtaMergeInput {
   scriptPolicies?: Record<string, ScriptOtaPolicy & { version?: string }>
   moduleCache?: Record<string, string>
   manualUpdate?: boolean
+  /** Stable client id for staged rollout cohorts */
+  clientId?: string
 }
 
 /** Result of merging a remote bundle with per-file OTA caches. */
@@ -13,43 +15,72 @@ export interface RemoteBundleOtaMergeResult {
   content: string
   /** Filenames whose blocks were taken from cache instead of the downloaded bundle. */
   pinnedFromCache: string[]
+  /** Rollout candidates left out because this client is outside the cohort and has no baseline cached. */
+  withheld: string[]
 }
 
 /**
- * Decide whether a downloaded per-file module block should replace the cached copy.
+ * Decide whether a downloaded per-file module block should replace the cached copy, with the reason.
  * @param file Managed script filename
  * @param policy Resolved SERVER policy
  * @param hasLocalCache Whether a prior module body exists locally
  * @param manualUpdate Popup Update flag (bypasses autoUpgrade only)
- * @returns True when the downloaded block should be used
+ * @param clientId Stable client id for staged rollout cohorts
+ * @returns Apply flag and diagnostic reason (`rollout-not-in-cohort` when the block is a candidate this client must not run)
  */
-export function shouldApplyRemoteScriptModuleUpgrade(file: string, policy: ScriptOtaPolicy & { version?: string }, hasLocalCache: boolean, manualUpdate: boolean): boolean {
-  const decision = decideOtaModuleApply({
+export function decideRemoteScriptModuleUpgrade(
+  file: string,
+  policy: ScriptOtaPolicy & { version?: string },
+  hasLocalCache: boolean,
+  manualUpdate: boolean,
+  clientId?: string
+): OtaApplyDecision {
+  return decideOtaModuleApply({
     moduleId: file,
     remoteHash: 'remote',
     localHash: 'local',
     hasLocalCache,
     scriptPolicy: policy,
-    clientPrefs: { manualUpdate },
+    clientPrefs: { manualUpdate, clientId },
   })
-  return decision.apply
+}
+
+/**
+ * Decide whether a downloaded per-file module block should replace the cached copy.
+ * @param file Managed script filename
+ * @param policy Resolved SERVER policy
+ * @param hasLocalCache Whether a prior module body exists locally
+ * @param manualUpdate Popup Update flag (bypasses autoUpgrade only)
+ * @param clientId Stable client id for staged rollout cohorts
+ * @returns True when the downloaded block should be used
+ */
+export function shouldApplyRemoteScriptModuleUpgrade(
+  file: string,
+  policy: ScriptOtaPolicy & { version?: string },
+  hasLocalCache: boolean,
+  manualUpdate: boolean,
+  clientId?: string
+): boolean {
+  return decideRemoteScriptModuleUpgrade(file, policy, hasLocalCache, manualUpdate, clientId).apply
 }
 
 /**
  * Merge a downloaded aggregate bundle with per-file caches for scripts blocked by OTA policy.
+ * Rollout candidates outside this client's cohort run from the cached baseline, or not at all until one is cached.
  * @param input Bundle body and policy context
- * @returns Merged bundle and list of files pinned from cache
+ * @returns Merged bundle, files pinned from cache and withheld rollout candidates
  */
 export function mergeRemoteBundleWithOtaPolicy(input: RemoteBundleOtaMergeInput): RemoteBundleOtaMergeResult {
   const modules = splitRemoteBundleModules(input.content)
   if (!modules.length) {
-    return { content: input.content, pinnedFromCache: [] }
+    return { content: input.content, pinnedFromCache: [], withheld: [] }
   }
 
   const cache = input.moduleCache ?? {}
   const policies = input.scriptPolicies ?? {}
   const manualUpdate = input.manualUpdate === true
   const pinnedFromCache: string[] = []
+  const withheld: string[] = []
   const merged: RemoteBundleModule[] = []
 
   for (const module of modules) {
@@ -60,19 +91,24 @@ export function mergeRemoteBundleWithOtaPolicy(input: RemoteBundleOtaMergeInput)
     }
     const cached = cache[module.file]
     const hasLocalCache = typeof cached === 'string' && cached.length > 0
-    const applyRemote = shouldApplyRemoteScriptModuleUpgrade(module.file, resolvedPolicy, hasLocalCache, manualUpdate)
+    const decision = decideRemoteScriptModuleUpgrade(module.file, resolvedPolicy, hasLocalCache, manualUpdate, input.clientId)
 
-    if (!applyRemote && hasLocalCache) {
+    if (!decision.apply && hasLocalCache) {
       merged.push({ file: module.file, content: cached })
       pinnedFromCache.push(module.file)
       continue
     }
+    if (decision.reason === 'rollout-not-in-cohort') {
+      withheld.push(module.file)
+      continue
+    }
     merged.push(module)
   }
 
   return {
     content: joinRemoteBundleModules(merged),
     pinnedFromCache,
+    withheld,
   }
 }
 
@@ -0,0 +1,284 @@
+/**
+ * URL rule engine shared by the preset (`matchRule` / `matchScript`), the extension (tab-match / inject gating)
+ * and the editor rule panel.
+ *
+ * A rule is active when it is enabled, its wildcard matches the URL and every condition holds. The active rule
+ * with the highest priority decides; on a tie `include` beats `exclude` beats `script`.
+ * Conditions whose facts are not available where the rule is evaluated (e.g. DOM or localStorage in the
+ * extension service worker) are assumed to hold; the in-page check when the script starts is authoritative.
+ */
+
+import { matchUrlPattern } from './url-pattern-match'
+
+/** `script`: run the script here; `include` / `exclude`: force it on / off (exclude also vetoes header `@match`) */
+export type RuleMode = 'script' | 'include' | 'exclude'
+
+/** Daily time window in local time; `to` before `from` wraps past midnight */
+export interface RuleTimeWindow {
+  /** `HH:MM` (inclusive) */
+  from: string
+  /** `HH:MM` (exclusive) */
+  to: string
+  /** Days of week the window applies to, 0 = Sunday; every day when omitted */
+  days?: number[]
+}
+
+/** Extra conditions on top of the URL wildcard; all given conditions must hold */
+export interface RuleConditions {
+  /** Top-level document or iframes only */
+  frame?: 'top' | 'iframe'
+  time?: RuleTimeWindow
+  /** Cookie name that must be set */
+  cookie?: string
+  /** localStorage key that must be set */
+  localStorage?: string
+  /** Case-insensitive substring of the user agent, or `/regex/flags` */
+  userAgent?: string
+  device?: 'mobile' | 'desktop'
+  /** CSS selector that must match an element */
+  selector?: string
+}
+
+/** Fields of a RULE row the engine reads (server `RuleConfig`, extension `ExtensionRuleEntry`, RULE cache rows) */
+export interface RuleEngineEntry {
+  wildcard?: string
+  script?: string
+  mode?: RuleMode
+  /** Disabled when false */
+  enabled?: boolean
+  /** Higher runs first; 0 when omitted */
+  priority?: number
+  conditions?: RuleConditions
+}
+
+/** Page facts for conditions; omitted facts make their conditions pass */
+export interface RuleEvaluationContext {
+  isTopFrame?: boolean
+  /** Defaults to the current time */
+  now?: Date
+  userAgent?: string
+  hasCookie?: (name: string) => boolean
+  hasLocalStorageKey?: (key: string) => boolean
+  hasElement?: (selector: string) => boolean
+}
+
+export interface RuleDecision<T extends RuleEngineEntry = RuleEngineEntry> {
+  matched: boolean
+  source: RuleMode | 'none'
+  /** Deciding rule */
+  rule?: T
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/i
+const MOBILE_USER_AGENT = /Mobi|Android|iPhone|iPad|iPod/i
+const MODE_RANK: Record<RuleMode, number> = { include: 0, exclude: 1, script: 2 }
+
+function parseMinutes(value: string): number | null {
+  const matched = value.match(TIME_PATTERN)
+  return matched ? Number(matched[1]) * 60 + Number(matched[2]) : null
+}
+
+function matchesUserAgent(pattern: string, userAgent: string): boolean {
+  const regex = pattern.match(REGEX_PATTERN)
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]).test(userAgent)
+    } catch {
+      return false
+    }
+  }
+  return userAgent.toLowerCase().includes(pattern.toLowerCase())
+}
+
+function isWithinTimeWindow(range: RuleTimeWindow, now: Date): boolean {
+  const from = parseMinutes(range.from)
+  const to = parseMinutes(range.to)
+  if (from === null || to === null) {
+    return false
+  }
+  const minutes = now.getHours() * 60 + now.getMinutes()
+  // Past midnight, the window belongs to the day it started on
+  const wrapped = from > to && minutes < to
+  const day = wrapped ? (now.getDay() + 6) % 7 : now.getDay()
+  if (range.days?.length && !range.days.includes(day)) {
+    return false
+  }
+  if (from === to) {
+    return true
+  }
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to
+}
+
+/**
+ * Problems in a rule's conditions (for the editor and API validation).
+ * @param conditions Rule conditions
+ * @returns Messages; empty when valid
+ */
+export function validateRuleConditions(conditions: RuleConditions | undefined): string[] {
+  if (!conditions) {
+    return []
+  }
+  const errors: string[] = []
+  if (conditions.frame !== undefined && conditions.frame !== 'top' && conditions.frame !== 'iframe') {
+    errors.push('frame must be "top" or "iframe"')
+  }
+  if (conditions.device !== undefined && conditions.device !== 'mobile' && conditions.device !== 'desktop') {
+    errors.push('device must be "mobile" or "desktop"')
+  }
+  if (conditions.time) {
+    if (parseMinutes(conditions.time.from) === null || parseMinutes(conditions.time.to) === null) {
+      errors.push('time window must use HH:MM (00:00–23:59)')
+    }
+    if (conditions.time.days?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      errors.push('time window days must be 0 (Sunday) to 6 (Saturday)')
+    }
+  }
+  const userAgentRegex = conditions.userAgent?.match(REGEX_PATTERN)
+  if (userAgentRegex) {
+    try {
+      new RegExp(userAgentRegex[1], userAgentRegex[2])
+    } catch {
+      errors.push(`userAgent ${conditions.userAgent} is not a valid regular expression`)
+    }
+  }
+  if (conditions.selector !== undefined && !conditions.selector.trim()) {
+    errors.push('selector must not be empty')
+  }
+  return errors
+}
+
+/**
+ * Keep well-formed conditions from untrusted JSON (rules file, RULE cache, extension storage).
+ * @param raw `conditions` value
+ * @returns Conditions, or undefined when none are set
+ */
+export function normalizeRuleConditions(raw: unknown): RuleConditions | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return undefined
+  }
+  const input = raw as Record<string, unknown>
+  const conditions: RuleConditions = {}
+  if (input.frame === 'top' || input.frame === 'iframe') {
+    conditions.frame = input.frame
+  }
+  if (input.device === 'mobile' || input.device === 'desktop') {
+    conditions.device = input.device
+  }
+  const time = input.time as Partial<RuleTimeWindow> | undefined
+  if (time && typeof time === 'object' && typeof time.from === 'string' && typeof time.to === 'string') {
+    const days = Array.isArray(time.days) ? time.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6) : []
+    conditions.time = { from: time.from, to: time.to, ...(days.length > 0 ? { days } : {}) }
+  }
+  for (const key of ['cookie', 'localStorage', 'userAgent', 'selector'] as const) {
+    const value = input[key]
+    if (typeof value === 'string' && value.trim()) {
+      conditions[key] = value.trim()
+    }
+  }
+  return Object.keys(conditions).length > 0 ? conditions : undefined
+}
+
+/**
+ * Whether every condition of a rule holds in the given context.
+ * @param conditions Rule conditions
+ * @param context Page facts
+ */
+export function evaluateRuleConditions(conditions: RuleConditions | undefined, context: RuleEvaluationContext = {}): boolean {
+  if (!conditions) {
+    return true
+  }
+  if (conditions.frame && context.isTopFrame !== undefined && (conditions.frame === 'top') !== context.isTopFrame) {
+    return false
+  }
+  if (conditions.time && !isWithinTimeWindow(conditions.time, context.now ?? new Date())) {
+    return false
+  }
+  if (context.userAgent !== undefined) {
+    if (conditions.userAgent && !matchesUserAgent(conditions.userAgent, context.userAgent)) {
+      return false
+    }
+    if (conditions.device && (conditions.device === 'mobile') !== MOBILE_USER_AGENT.test(context.userAgent)) {
+      return false
+    }
+  }
+  if (conditions.cookie && context.hasCookie && !context.hasCookie(conditions.cookie)) {
+    return false
+  }
+  if (conditions.localStorage && context.hasLocalStorageKey && !context.hasLocalStorageKey(conditions.localStorage)) {
+    return false
+  }
+  if (conditions.selector && context.hasElement && !context.hasElement(conditions.selector)) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Whether a rule applies to a URL: enabled, wildcard matches and conditions hold.
+ * @param rule RULE row
+ * @param url Page URL
+ * @param context Page facts
+ */
+export function isRuleActive(rule: RuleEngineEntry, url: string, context?: RuleEvaluationContext): boolean {
+  return rule.enabled !== false && Boolean(rule.wildcard) && matchUrlPattern(rule.wildcard!, url) && evaluateRuleConditions(rule.conditions, context)
+}
+
+/**
+ * Rules in evaluation order: priority descending, then `include`, `exclude`, `script`; stable otherwise.
+ * @param rules RULE rows
+ */
+export function sortRulesByPriority<T extends RuleEngineEntry>(rules: readonly T[]): T[] {
+  return [...rules].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0) || MODE_RANK[a.mode ?? 'script'] - MODE_RANK[b.mode ?? 'script'])
+}
+
+/**
+ * Decide a URL from one script's rules: the first active rule in {@link sortRulesByPriority} order wins.
+ * @param rules RULE rows of one script
+ * @param url Page URL
+ * @param context Page facts
+ * @returns `matched` true for `include` / `script`, false for `exclude`; source `none` when no rule applies
+ */
+export function resolveRuleDecision<T extends RuleEngineEntry>(rules: readonly T[], url: string, context?: RuleEvaluationContext): RuleDecision<T> {
+  const rule = sortRulesByPriority(rules).find((entry) => isRuleActive(entry, url, context))
+  if (!rule) {
+    return { matched: false, source: 'none' }
+  }
+  const source = rule.mode ?? 'script'
+  return { matched: source !== 'exclude', source, rule }
+}
+
+/**
+ * Condition facts of the current page (preset, extension content world).
+ * @returns Context reading frame, user agent, cookies, localStorage and the DOM lazily
+ */
+export function createPageRuleContext(): RuleEvaluationContext {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return {}
+  }
+  return {
+    isTopFrame: (() => {
+      try {
+        return window.self === window.top
+      } catch {
+        return false
+      }
+    })(),
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+    hasCookie: (name) => document.cookie.split(';').some((part) => part.split('=')[0].trim() === name),
+    hasLocalStorageKey: (key) => {
+      try {
+        return window.localStorage.getItem(key) !== null
+      } catch {
+        return false
+      }
+    },
+    hasElement: (selector) => {
+      try {
+        return document.querySelector(selector) !== null
+      } catch {
+        return false
+      }
+    },
+  }
+}
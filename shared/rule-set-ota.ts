@@ -0,0 +1,74 @@
+import type { OtaReleaseStage } from './script-ota-policy'
+
+/** One published rule set (`releases.tampermonkey.rules.json@{version}`). */
+export interface RuleSetRelease {
+  /** Sequential release number, starting at 1 */
+  version: number
+  /** SHA-1 of the published rules file */
+  hash: string
+  publishedAt: number
+  publishedBy?: string
+}
+
+/**
+ * SERVER-authoritative release state of the URL rule set.
+ * Before the first publish the working rules file is served to every client (legacy, no staging); afterwards
+ * stable clients get release `stableVersion` and only clients that accept alpha get the working file.
+ */
+export interface RuleSetOtaState {
+  /** Release stable clients receive; undefined until the first publish */
+  stableVersion?: number
+  /** Oldest first */
+  releases: RuleSetRelease[]
+}
+
+/** Rule set a client fetches for its track, as listed in `module-manifest.json`. */
+export interface RuntimeRuleSetTarget {
+  url: string
+  /** SHA-1 of the rules file; clients refetch when it differs from the cached rule set */
+  hash: string
+  /** Release number; absent for the working rules */
+  version?: number
+}
+
+/** Manifest `ruleSet` block: stable rules for every client, working rules for alpha clients when they differ. */
+export interface RuntimeRuleSet extends RuntimeRuleSetTarget {
+  alpha?: RuntimeRuleSetTarget
+}
+
+/**
+ * Normalize the persisted release state.
+ * @param raw Parsed releases file
+ * @returns State with well-formed releases sorted by version; `stableVersion` dropped when it names no release
+ */
+export function resolveRuleSetOtaState(raw: unknown): RuleSetOtaState {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { releases: [] }
+  }
+  const input = raw as Partial<RuleSetOtaState>
+  const releases = (Array.isArray(input.releases) ? input.releases : [])
+    .filter(
+      (release): release is RuleSetRelease =>
+        Boolean(release) && Number.isInteger(release.version) && release.version > 0 && typeof release.hash === 'string' && typeof release.publishedAt === 'number'
+    )
+    .map(({ version, hash, publishedAt, publishedBy }) => ({ version, hash, publishedAt, ...(typeof publishedBy === 'string' ? { publishedBy } : {}) }))
+    .sort((a, b) => a.version - b.version)
+  const stableVersion = releases.some((release) => release.version === input.stableVersion) ? input.stableVersion : undefined
+  return { ...(stableVersion ? { stableVersion } : {}), releases }
+}
+
+/**
+ * Rule set a client should apply.
+ * @param ruleSet Manifest `ruleSet` block
+ * @param stage `alpha` for clients that accept alpha builds
+ * @returns Target to fetch, or null when the manifest has no rule set
+ */
+export function selectRuntimeRuleSet(ruleSet: RuntimeRuleSet | null | undefined, stage: OtaReleaseStage): RuntimeRuleSetTarget | null {
+  if (!ruleSet || typeof ruleSet.url !== 'string' || typeof ruleSet.hash !== 'string') {
+    return null
+  }
+  if (stage === 'alpha' && ruleSet.alpha?.url && ruleSet.alpha.hash) {
+    return { url: ruleSet.alpha.url, hash: ruleSet.alpha.hash }
+  }
+  return { url: ruleSet.url, hash: ruleSet.hash, ...(typeof ruleSet.version === 'number' ? { version: ruleSet.version } : {}) }
+}
@@ -4,6 +4,9 @@ import { SHELL_INCOGNITO_LOG_COLLECTION_KEY, SHELL_LOG_OUTPUT_MODE_KEY } from '.
 /** Tampermonkey rules JSON cache (legacy key; not under `vws_`). */
 export const RULE_CACHE_KEY = '#RuleCache@WebScripts'
 
+/** GM key: hash of the cached rule set (manifest `ruleSet`), compared to decide a refetch. */
+export const RULE_SET_HASH_KEY = '#RuleSetHash@WebScripts'
+
 /** Prefix for legacy rules-related GM keys. */
 export const RULE_CACHE_KEY_PREFIX = '#Rule'
 
@@ -1,9 +1,15 @@
-import { matchUrlPattern } from './url-pattern-match'
+import { resolveRuleDecision, type RuleEngineEntry, type RuleEvaluationContext } from './rule-engine'
+import { isUrlExcludedByScriptRules, isUrlIncludedByScriptRules, type ScriptUrlMatchRules } from './url-pattern-match'
 
 /** Per-script module entry from module-manifest `scriptModules`. */
 export interface RuntimeScriptModuleCatalogEntry {
   file: string
   match: string[]
+  include?: string[]
+  exclude?: string[]
+  excludeMatch?: string[]
+  /** Userscript @noframes */
+  noframes?: boolean
   track: 'stable' | 'alpha'
   url: string
   hash: { algorithm: 'sha1'; value: string }
@@ -11,23 +17,37 @@ export interface RuntimeScriptModuleCatalogEntry {
 }
 
 /** RULE row used for matchRule-style URL matching. */
-export interface ScriptModuleRuleEntry {
-  script?: string
-  wildcard?: string
-}
+export type ScriptModuleRuleEntry = RuleEngineEntry
 
 /**
- * Whether a script file matches the page URL via @match headers and/or RULE wildcards.
+ * Whether a script file matches the page URL via header rules and/or RULE rows (see `rule-engine`).
+ * `@exclude` / `@exclude-match` and a deciding `exclude` rule veto both header and RULE matches.
  * @param file Gist script filename
- * @param headerMatch Userscript @match values
+ * @param headerRules Userscript @match values, or the full @match / @include / @exclude set
  * @param rules RULE cache rows
  * @param pageUrl Full page URL
+ * @param context Page facts for rule conditions
  */
-export function scriptModuleMatchesUrl(file: string, headerMatch: string[], rules: ScriptModuleRuleEntry[], pageUrl: string): boolean {
-  if (headerMatch.some((pattern) => pattern && matchUrlPattern(pattern, pageUrl))) {
+export function scriptModuleMatchesUrl(
+  file: string,
+  headerRules: string[] | ScriptUrlMatchRules,
+  rules: ScriptModuleRuleEntry[],
+  pageUrl: string,
+  context?: RuleEvaluationContext
+): boolean {
+  const header: ScriptUrlMatchRules = Array.isArray(headerRules) ? { match: headerRules } : headerRules
+  const decision = resolveRuleDecision(
+    rules.filter((rule) => rule.script === file),
+    pageUrl,
+    context
+  )
+  if (decision.source === 'exclude' || isUrlExcludedByScriptRules(header, pageUrl)) {
+    return false
+  }
+  if (isUrlIncludedByScriptRules(header, pageUrl)) {
     return true
   }
-  return rules.some((rule) => rule.script === file && rule.wildcard && matchUrlPattern(rule.wildcard, pageUrl))
+  return decision.matched
 }
 
 /**
@@ -35,9 +55,26 @@ export function scriptModuleMatchesUrl(file: string, headerMatch: string[], rule
  * @param modules Manifest script module catalog
  * @param pageUrl Page URL
  * @param rules RULE rows (same semantics as tab-match API)
+ * @param options `isTopFrame: false` drops `@noframes` modules; `context` feeds rule conditions
  */
-export function filterScriptModulesByUrl(modules: RuntimeScriptModuleCatalogEntry[], pageUrl: string, rules: ScriptModuleRuleEntry[]): RuntimeScriptModuleCatalogEntry[] {
-  return modules.filter((module) => scriptModuleMatchesUrl(module.file, module.match ?? [], rules, pageUrl))
+export function filterScriptModulesByUrl(
+  modules: RuntimeScriptModuleCatalogEntry[],
+  pageUrl: string,
+  rules: ScriptModuleRuleEntry[],
+  options: { isTopFrame?: boolean; context?: RuleEvaluationContext } = {}
+): RuntimeScriptModuleCatalogEntry[] {
+  return modules.filter((module) => {
+    if (module.noframes && options.isTopFrame === false) {
+      return false
+    }
+    return scriptModuleMatchesUrl(
+      module.file,
+      { match: module.match ?? [], include: module.include, exclude: module.exclude, excludeMatch: module.excludeMatch },
+      rules,
+      pageUrl,
+      options.context
+    )
+  })
 }
 
 /**
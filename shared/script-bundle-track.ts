@@ -1,4 +1,4 @@
-import { buildReleaseSnapshotPath, resolveScriptOtaPolicy, type ScriptBundleTrack, type ScriptOtaPolicy } from './script-ota-policy'
+import { buildReleaseSnapshotPath, resolveScriptOtaPolicy, resolveScriptPinnedVersion, type ScriptBundleTrack, type ScriptOtaPolicy } from './script-ota-policy'
 
 /** Minimal script row for bundle track resolution. */
 export interface ScriptBundleSourceRow {
@@ -20,8 +20,9 @@ export function resolveScriptSourceForBundleTrack(script: ScriptBundleSourceRow,
     return null
   }
 
-  if (ota.lockedVersion) {
-    const snapshotPath = buildReleaseSnapshotPath(script.filename, ota.lockedVersion)
+  const pinnedVersion = resolveScriptPinnedVersion(ota)
+  if (pinnedVersion) {
+    const snapshotPath = buildReleaseSnapshotPath(script.filename, pinnedVersion)
     const snapshot = gistFiles[snapshotPath]?.content
     if (snapshot) {
       return snapshot
@@ -31,6 +32,20 @@ export function resolveScriptSourceForBundleTrack(script: ScriptBundleSourceRow,
   return gistFiles[script.filename]?.content ?? null
 }
 
+/**
+ * Resolve the baseline release source of an active rollout, served to clients outside the cohort that have no cached copy.
+ * @param script Script index metadata
+ * @param gistFiles All Gist files
+ * @returns Baseline snapshot text, or null when the script has no active rollout
+ */
+export function resolveRolloutBaselineSource(script: ScriptBundleSourceRow, gistFiles: Record<string, { content: string }>): string | null {
+  const { rollout } = resolveScriptOtaPolicy(script.ota)
+  if (rollout?.status !== 'active') {
+    return null
+  }
+  return gistFiles[buildReleaseSnapshotPath(script.filename, rollout.baselineVersion)]?.content ?? null
+}
+
 /**
  * Build the file map passed to the remote script compiler for a track.
  * @param scripts Script index rows
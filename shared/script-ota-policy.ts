@@ -1,6 +1,28 @@
 /** OTA release stage for scripts and platform runtime. */
 export type OtaReleaseStage = 'stable' | 'alpha'
 
+/** `active` while the candidate reaches a share of clients; `rolled-back` once it was withdrawn for failing. */
+export type ScriptOtaRolloutStatus = 'active' | 'rolled-back'
+
+/** Staged (canary) rollout of a stable version to a percentage of clients. */
+export interface ScriptOtaRollout {
+  /** Candidate version being rolled out (header @version at publish time). */
+  version: string
+  /** Previous stable release clients outside the cohort keep, and everyone returns to on rollback. */
+  baselineVersion: string
+  /** Share of clients (0–100) that apply the candidate, chosen by a stable client id. */
+  percent: number
+  status: ScriptOtaRolloutStatus
+  /** Failure rate (0–1) among reporting clients that triggers an automatic rollback. */
+  failureThreshold: number
+  /** Reporting clients needed before the rollout is promoted or rolled back automatically. */
+  minSamples: number
+  /** Promote to every client once `minSamples` report with a failure rate below the threshold. */
+  autoPromote: boolean
+  startedAt: number
+  rolledBackAt?: number
+}
+
 /** SERVER-authoritative OTA policy for one managed script file. */
 export interface ScriptOtaPolicy {
   /** Release stage; omitted in storage is resolved at read time. */
@@ -9,6 +31,8 @@ export interface ScriptOtaPolicy {
   autoUpgrade: boolean
   /** Fleet pin: stable builds use the matching releases snapshot when set. */
   lockedVersion?: string
+  /** Staged rollout of the current stable version; absent once promoted. */
+  rollout?: ScriptOtaRollout
 }
 
 /** How clients load Gist script modules (Phase D). */
@@ -45,6 +69,12 @@ export const NEW_SCRIPT_OTA_DEFAULTS: ScriptOtaPolicy = {
   autoUpgrade: false,
 }
 
+/** Default failure rate that rolls a staged rollout back. */
+export const DEFAULT_ROLLOUT_FAILURE_THRESHOLD = 0.05
+
+/** Default number of reporting clients before a staged rollout is judged. */
+export const DEFAULT_ROLLOUT_MIN_SAMPLES = 20
+
 /** Default platform runtime policy when index has no `runtime` block. */
 export const DEFAULT_RUNTIME_OTA: RuntimeOtaPolicy = {
   stage: 'stable',
@@ -106,6 +136,50 @@ export function parseReleaseSnapshotPath(path: string): { filename: string; vers
   }
 }
 
+/**
+ * Normalize a raw persisted `ota.rollout` block.
+ * @param raw Unknown value from script index
+ * @returns Resolved rollout, or undefined when versions are missing
+ */
+export function resolveScriptOtaRollout(raw: Partial<ScriptOtaRollout> | undefined | null): ScriptOtaRollout | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined
+  }
+  const version = typeof raw.version === 'string' ? raw.version.trim() : ''
+  const baselineVersion = typeof raw.baselineVersion === 'string' ? raw.baselineVersion.trim() : ''
+  if (!version || !baselineVersion) {
+    return undefined
+  }
+  const percent = typeof raw.percent === 'number' && Number.isFinite(raw.percent) ? Math.min(100, Math.max(0, Math.round(raw.percent))) : 0
+  const failureThreshold =
+    typeof raw.failureThreshold === 'number' && raw.failureThreshold > 0 && raw.failureThreshold <= 1 ? raw.failureThreshold : DEFAULT_ROLLOUT_FAILURE_THRESHOLD
+  const minSamples = typeof raw.minSamples === 'number' && raw.minSamples >= 1 ? Math.floor(raw.minSamples) : DEFAULT_ROLLOUT_MIN_SAMPLES
+  return {
+    version,
+    baselineVersion,
+    percent,
+    status: raw.status === 'rolled-back' ? 'rolled-back' : 'active',
+    failureThreshold,
+    minSamples,
+    autoPromote: raw.autoPromote !== false,
+    startedAt: typeof raw.startedAt === 'number' ? raw.startedAt : 0,
+    ...(typeof raw.rolledBackAt === 'number' ? { rolledBackAt: raw.rolledBackAt } : {}),
+  }
+}
+
+/**
+ * Release snapshot version stable builds serve instead of the head file: the fleet lock, or the
+ * baseline of a rolled-back rollout.
+ * @param ota Resolved policy
+ * @returns Pinned version, or undefined to serve the head file
+ */
+export function resolveScriptPinnedVersion(ota: ScriptOtaPolicy): string | undefined {
+  if (ota.lockedVersion) {
+    return ota.lockedVersion
+  }
+  return ota.rollout?.status === 'rolled-back' ? ota.rollout.baselineVersion : undefined
+}
+
 /**
  * Normalize raw persisted `ota` JSON into a full policy object.
  * @param raw Unknown value from script index
@@ -120,10 +194,12 @@ export function resolveScriptOtaPolicy(raw: Partial<ScriptOtaPolicy> | undefined
   const stage: OtaReleaseStage = raw.stage === 'alpha' ? 'alpha' : raw.stage === 'stable' ? 'stable' : fallback.stage
   const autoUpgrade = typeof raw.autoUpgrade === 'boolean' ? raw.autoUpgrade : stage === 'alpha' ? false : fallback.autoUpgrade
   const lockedVersion = typeof raw.lockedVersion === 'string' && raw.lockedVersion.trim() ? raw.lockedVersion.trim() : undefined
+  const rollout = stage === 'stable' ? resolveScriptOtaRollout(raw.rollout) : undefined
   return {
     stage,
     autoUpgrade,
     ...(lockedVersion ? { lockedVersion } : {}),
+    ...(rollout ? { rollout } : {}),
   }
 }
 
@@ -160,8 +236,10 @@ export function resolveRuntimeOtaPolicy(raw: Partial<RuntimeOtaPolicy> | undefin
  */
 export function buildScriptPolicySummary(script: { filename: string; version?: string; ota?: Partial<ScriptOtaPolicy> }): ScriptOtaPolicy & { version?: string } {
   const ota = resolveScriptOtaPolicy(script.ota)
+  // A rolled-back rollout serves its baseline, so clients must compare against that version
+  const version = ota.rollout?.status === 'rolled-back' ? ota.rollout.baselineVersion : script.version?.trim()
   return {
     ...ota,
-    ...(script.version?.trim() ? { version: script.version.trim() } : {}),
+    ...(version ? { version } : {}),
   }
 }
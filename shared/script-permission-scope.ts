@@ -1,3 +1,5 @@
+import type { ScriptPermissionCapability } from './script-permission'
+
 /** Shared page-global permission scope stack (preset + extension gm-bridge). */
 export const SCRIPT_PERMISSION_STACK_KEY = '__VWS_PERMISSION_STACK__'
 
@@ -9,6 +11,18 @@ export const SCRIPT_PERMISSION_ENFORCE_KEY = '__VWS_SCRIPT_PERMISSION_ENFORCE__'
 /** Script keys configured for Servers → Full trust (page-world snapshot from bootstrap). */
 export const PERMISSION_TRUST_SCRIPT_KEYS = '__VWS_PERMISSION_TRUST_SCRIPT_KEYS__'
 
+/** Page-global gate the extension installs so preset services can check permissions (absent under Tampermonkey). */
+export const SCRIPT_PERMISSION_GATE_KEY = '__VWS_SCRIPT_PERMISSION_GATE__'
+
+export interface ScriptPermissionGate {
+  /** Prompts when needed; rejects when denied. The caller's context is read synchronously. */
+  ensure: (capability: ScriptPermissionCapability, resource: string) => Promise<void>
+  /** For synchronous APIs: throws until allowed, prompting in the background on the first call. */
+  ensureSync: (capability: ScriptPermissionCapability, resource: string) => void
+  /** Whether an allow is already cached, without prompting; `frame` checks for that script instead of the active one. */
+  isAllowedSync: (capability: ScriptPermissionCapability, resource: string, frame?: ScriptPermissionStackFrame) => boolean
+}
+
 export interface ScriptPermissionStackFrame {
   file: string
   contentHash?: string
@@ -124,3 +138,52 @@ export function exitScriptPermissionScope(): void {
   }
   setScriptPermissionEnforced(stack.length > 0)
 }
+
+function readScriptPermissionGate(): ScriptPermissionGate | null {
+  for (const host of readPermissionHosts()) {
+    const gate = host[SCRIPT_PERMISSION_GATE_KEY] as ScriptPermissionGate | undefined
+    if (gate && typeof gate.ensure === 'function' && typeof gate.ensureSync === 'function' && typeof gate.isAllowedSync === 'function') {
+      return gate
+    }
+  }
+  return null
+}
+
+/**
+ * Gate a preset service call made by a user script. No-op outside a script scope (preset internals)
+ * and when no gate is installed (Tampermonkey has no permission prompts).
+ * Call before the first await so the calling script's scope is still active.
+ * @param capability Permission capability id
+ * @param resource Resource key
+ */
+export function ensureScopedScriptPermission(capability: ScriptPermissionCapability, resource: string): Promise<void> {
+  if (readScriptPermissionStack().length === 0) {
+    return Promise.resolve()
+  }
+  return readScriptPermissionGate()?.ensure(capability, resource) ?? Promise.resolve()
+}
+
+/**
+ * Synchronous variant of {@link ensureScopedScriptPermission}; throws until the user allows it.
+ * @param capability Permission capability id
+ * @param resource Resource key
+ */
+export function ensureScopedScriptPermissionSync(capability: ScriptPermissionCapability, resource: string): void {
+  if (readScriptPermissionStack().length === 0) {
+    return
+  }
+  readScriptPermissionGate()?.ensureSync(capability, resource)
+}
+
+/**
+ * Non-prompting check for filtering (e.g. `GM_listValues`): true outside a script scope and without a gate.
+ * @param capability Permission capability id
+ * @param resource Resource key
+ * @param frame Script to check for (a listener's registering script); defaults to the active scope
+ */
+export function isScopedScriptPermissionAllowed(capability: ScriptPermissionCapability, resource: string, frame?: ScriptPermissionStackFrame): boolean {
+  if (!frame && readScriptPermissionStack().length === 0) {
+    return true
+  }
+  return readScriptPermissionGate()?.isAllowedSync(capability, resource, frame) ?? true
+}
@@ -1,5 +1,27 @@
 /** High-sensitivity script capabilities gated at runtime (extension path). */
-export type ScriptPermissionCapability = 'network' | 'clipboard-write' | 'open-tab' | 'download' | 'capture-screenshot' | 'unsafe-window'
+export type ScriptPermissionCapability =
+  | 'network'
+  | 'clipboard-write'
+  | 'open-tab'
+  | 'download'
+  | 'capture-screenshot'
+  | 'unsafe-window'
+  /** `GM_cookie.list`; resource is the cookie host */
+  | 'cookie-read'
+  /** `GM_cookie.set` / `GM_cookie.delete`; resource is the cookie host */
+  | 'cookie-write'
+  /** `GM_webRequest`; resource is the page host whose requests are rewritten */
+  | 'web-request'
+  /** `GM_getTab` / `GM_saveTab` / `GM_getTabs` */
+  | 'tab-storage'
+  /** `TabCommunication` broadcast / send / reply; resource is the channel namespace */
+  | 'tab-message'
+  /** `GME_registerWebMcpTool`; resource is the local tool name */
+  | 'webmcp-tool'
+  /** GM storage keys another script owns (its settings, or keys it wrote first); resource is that script's file */
+  | 'cross-script-storage'
+  /** `GM_addElement('script', …)`; resource is the `src` host, or `*` for inline code */
+  | 'inject-script'
 
 export const SCRIPT_PERMISSION_CAPABILITIES: readonly ScriptPermissionCapability[] = [
   'network',
@@ -8,6 +30,14 @@ export const SCRIPT_PERMISSION_CAPABILITIES: readonly ScriptPermissionCapability
   'download',
   'capture-screenshot',
   'unsafe-window',
+  'cookie-read',
+  'cookie-write',
+  'web-request',
+  'tab-storage',
+  'tab-message',
+  'webmcp-tool',
+  'cross-script-storage',
+  'inject-script',
 ] as const
 
 export const PERMISSION_DENIED_CODE = 'PERMISSION_DENIED'
@@ -163,6 +193,22 @@ export function formatPermissionCapabilityLabel(capability: ScriptPermissionCapa
       return 'Capture page screenshot'
     case 'unsafe-window':
       return 'Access page window'
+    case 'cookie-read':
+      return 'Read cookies'
+    case 'cookie-write':
+      return 'Change cookies'
+    case 'web-request':
+      return 'Block or redirect requests'
+    case 'tab-storage':
+      return 'Per-tab storage'
+    case 'tab-message':
+      return 'Message other tabs'
+    case 'webmcp-tool':
+      return 'Register WebMCP tools'
+    case 'cross-script-storage':
+      return "Access another script's storage"
+    case 'inject-script':
+      return 'Inject page scripts'
     default:
       return capability
   }
@@ -173,4 +219,5 @@ export const TRUST_TIER1_PERMISSION_SEEDS: ReadonlyArray<{ capability: ScriptPer
   { capability: 'unsafe-window', resource: '*' },
   { capability: 'clipboard-write', resource: '*' },
   { capability: 'download', resource: '*' },
+  { capability: 'tab-storage', resource: '*' },
 ]
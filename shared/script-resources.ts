@@ -0,0 +1,109 @@
+import { readPermissionHosts, readScriptPermissionStack, resolvePermissionHost } from './script-permission-scope'
+
+/** Page-global registry of pinned `@resource` entries by script file (preset + extension gm-bridge). */
+export const SCRIPT_RESOURCES_KEY = '__VWS_SCRIPT_RESOURCES__'
+
+/** One `@resource` as compiled into the remote module wrapper */
+export interface ScriptResourceEntry {
+  /** Content-addressed asset URL (root-relative until resolved against `__BASE_URL__`) */
+  url: string
+  /** UTF-8 text; null for binary resources */
+  text: string | null
+}
+
+type ScriptResourceRegistry = Record<string, Record<string, ScriptResourceEntry>>
+
+function readRegistry(): ScriptResourceRegistry | null {
+  for (const host of readPermissionHosts()) {
+    const registry = host[SCRIPT_RESOURCES_KEY]
+    if (registry && typeof registry === 'object') {
+      return registry as ScriptResourceRegistry
+    }
+  }
+  return null
+}
+
+function readBaseUrl(): string {
+  for (const host of readPermissionHosts()) {
+    const value = host.__BASE_URL__
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim().replace(/\/+$/, '')
+    }
+  }
+  return ''
+}
+
+/**
+ * Register a script's pinned resources (called by the remote module wrapper before the body runs).
+ * @param file Gist filename
+ * @param resources Resource name → entry
+ */
+export function registerScriptResources(file: string, resources: Record<string, ScriptResourceEntry>): void {
+  const host = resolvePermissionHost()
+  const registry = (readRegistry() ?? {}) as ScriptResourceRegistry
+  const baseUrl = readBaseUrl()
+  registry[file] = Object.fromEntries(Object.entries(resources).map(([name, entry]) => [name, { ...entry, url: entry.url.startsWith('/') ? `${baseUrl}${entry.url}` : entry.url }]))
+  host[SCRIPT_RESOURCES_KEY] = registry
+}
+
+/**
+ * Look up a resource for the running script: the active permission scope's file first, otherwise
+ * the only script that declares the name (async callbacks run outside the scope).
+ * @param name `@resource` name
+ * @returns Entry or null when no script declares it
+ */
+export function resolveScriptResource(name: string): ScriptResourceEntry | null {
+  const registry = readRegistry()
+  if (!registry) {
+    return null
+  }
+
+  const stack = readScriptPermissionStack()
+  const activeFile = stack[stack.length - 1]?.file
+  if (activeFile && registry[activeFile]?.[name]) {
+    return registry[activeFile][name]
+  }
+
+  const declaring = Object.values(registry).filter((resources) => resources[name])
+  return declaring.length === 1 ? declaring[0][name] : null
+}
+
+/**
+ * Build `GM_getResourceText` / `GM_getResourceURL` backed by the registry, deferring to the host manager
+ * (Tampermonkey's own `@resource` of the launcher) for names no script registered.
+ * @param fallback Existing implementations, if any
+ */
+export function createScriptResourceApi(fallback: { GM_getResourceText?: unknown; GM_getResourceURL?: unknown } = {}) {
+  return {
+    GM_getResourceText(name: string): string | null {
+      const entry = resolveScriptResource(name)
+      if (entry) {
+        return entry.text
+      }
+      return typeof fallback.GM_getResourceText === 'function' ? fallback.GM_getResourceText(name) : null
+    },
+    GM_getResourceURL(name: string): string | null {
+      const entry = resolveScriptResource(name)
+      if (entry) {
+        return entry.url
+      }
+      return typeof fallback.GM_getResourceURL === 'function' ? fallback.GM_getResourceURL(name) : null
+    },
+  }
+}
+
+const INSTALLED_MARK = '__vwsScriptResources'
+
+/**
+ * Replace `GM_getResourceText` / `GM_getResourceURL` on a host with registry-backed versions (idempotent).
+ * @param host Launcher sandbox or page global holding the GM_* grants
+ */
+export function installScriptResourceApi(host: Record<string, unknown>): void {
+  const current = host.GM_getResourceText as { [INSTALLED_MARK]?: boolean } | undefined
+  if (current?.[INSTALLED_MARK]) {
+    return
+  }
+  const api = createScriptResourceApi({ GM_getResourceText: host.GM_getResourceText, GM_getResourceURL: host.GM_getResourceURL })
+  Object.assign(api.GM_getResourceText, { [INSTALLED_MARK]: true })
+  Object.assign(host, api)
+}
@@ -0,0 +1,166 @@
+/**
+ * Background script scheduling: `@run-at background` scripts run without a page, on the `@schedule` cron expression.
+ * Shared by the server (header validation, manifest) and the extension shell (alarm scheduling).
+ */
+
+/** `@run-at` value for scripts the extension shell runs in its offscreen runner instead of a page */
+export const BACKGROUND_RUN_AT = 'background'
+
+/** Parsed 5-field cron expression (`minute hour day-of-month month day-of-week`), evaluated in local time */
+export interface CronSchedule {
+  /** Normalized source expression */
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  /** 0 = Sunday; `7` is folded into 0 */
+  daysOfWeek: Set<number>
+  /** Day-of-month field was `*` */
+  anyDayOfMonth: boolean
+  /** Day-of-week field was `*` */
+  anyDayOfWeek: boolean
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const
+
+/** Upper bound on search steps in `getNextCronRunAt` (covers several years of day/hour skips) */
+const MAX_SEARCH_STEPS = 50_000
+
+/**
+ * Whether a `@run-at` value marks a background script.
+ * @param runAt Header `@run-at` value
+ */
+export function isBackgroundRunAt(runAt: string | null | undefined): boolean {
+  return typeof runAt === 'string' && runAt.trim().toLowerCase() === BACKGROUND_RUN_AT
+}
+
+function parseCronField(value: string, field: (typeof CRON_FIELDS)[number]): Set<number> {
+  const values = new Set<number>()
+  for (const part of value.split(',')) {
+    const matched = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (!matched) {
+      throw new Error(`Invalid cron ${field.name} "${part}"`)
+    }
+    const step = matched[4] === undefined ? 1 : Number(matched[4])
+    let start: number = field.min
+    let end: number = field.max
+    if (matched[1] !== '*') {
+      start = Number(matched[2])
+      // `5/15` means "from 5 every 15", like `5-59/15`
+      end = matched[3] !== undefined ? Number(matched[3]) : matched[4] !== undefined ? field.max : start
+    }
+    if (step < 1 || start < field.min || end > field.max || start > end) {
+      throw new Error(`Cron ${field.name} "${part}" is out of range ${field.min}-${field.max}`)
+    }
+    for (let current = start; current <= end; current += step) {
+      values.add(current)
+    }
+  }
+  return values
+}
+
+/**
+ * Parse a cron expression: five fields with `*`, lists, ranges and steps, or a macro such as `@hourly` / `@daily`.
+ * @param expression Header `@schedule` value
+ * @returns Parsed schedule
+ * @throws When the expression is malformed or out of range
+ */
+export function parseCronSchedule(expression: string): CronSchedule {
+  const trimmed = expression.trim().replace(/\s+/g, ' ')
+  const source = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed
+  const parts = source.split(' ')
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression "${trimmed}" must have 5 fields (minute hour day-of-month month day-of-week) or be a macro like @hourly`)
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]))
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0)
+  }
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  }
+}
+
+/**
+ * Validate a `@schedule` value without throwing.
+ * @param expression Header `@schedule` value
+ * @returns Error message, or null when valid
+ */
+export function validateCronSchedule(expression: string): string | null {
+  try {
+    parseCronSchedule(expression)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay())
+  // Standard cron: when both day fields are restricted, either one matching is enough.
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+/**
+ * Next time the schedule fires strictly after `fromMs` (whole minutes, local time).
+ * @param schedule Parsed schedule or cron expression
+ * @param fromMs Reference epoch ms
+ * @returns Epoch ms of the next run, or null when the schedule never fires (e.g. `0 0 31 2 *`)
+ */
+export function getNextCronRunAt(schedule: CronSchedule | string, fromMs: number): number | null {
+  const cron = typeof schedule === 'string' ? parseCronSchedule(schedule) : schedule
+  const date = new Date(fromMs)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0)
+      continue
+    }
+    return date.getTime()
+  }
+  return null
+}
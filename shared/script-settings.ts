@@ -0,0 +1,290 @@
+import { ensureScopedScriptPermissionSync, readPermissionHosts, readScriptPermissionStack, resolvePermissionHost } from './script-permission-scope'
+
+/** Page-global registry of `@setting` schemas by script file (preset + extension gm-bridge). */
+export const SCRIPT_SETTINGS_KEY = '__VWS_SCRIPT_SETTINGS__'
+
+/** Logical GM key prefix holding one script's saved settings object (scoped by gmScope like any GM value). */
+export const SCRIPT_SETTINGS_GM_KEY_PREFIX = 'vws_settings:'
+
+export type ScriptSettingType = 'string' | 'number' | 'boolean' | 'select'
+
+export type ScriptSettingValue = string | number | boolean
+
+/** One `@setting` header declaration */
+export interface ScriptSettingField {
+  key: string
+  type: ScriptSettingType
+  /** Form label; the key when the header gives none */
+  label: string
+  default: ScriptSettingValue
+  /** Allowed values of a `select` setting */
+  options?: string[]
+}
+
+export type ScriptSettings = Record<string, ScriptSettingValue>
+
+const SETTING_KEY_PATTERN = /^[A-Za-z_][\w-]*$/
+const SELECT_TYPE_PATTERN = /^select\(([^)]*)\)$/
+const QUOTED_DEFAULT_PATTERN = /^"(?:[^"\\]|\\.)*"/
+
+/**
+ * @param file Managed script filename
+ * @returns Logical GM key of the script's saved settings
+ */
+export function buildScriptSettingsGmKey(file: string): string {
+  return `${SCRIPT_SETTINGS_GM_KEY_PREFIX}${file}`
+}
+
+/**
+ * @param key Logical GM key
+ * @returns Script file whose settings the key holds, or null for other keys
+ */
+export function parseScriptSettingsGmKey(key: string): string | null {
+  return key.startsWith(SCRIPT_SETTINGS_GM_KEY_PREFIX) ? key.slice(SCRIPT_SETTINGS_GM_KEY_PREFIX.length) || null : null
+}
+
+/**
+ * Scripts under one scriptKey share a GM namespace; another script's settings are its storage and need `cross-script-storage`.
+ * Throws (prompting in the background) until allowed; no-op outside a script scope or for the script's own file.
+ * @param file Script file whose settings are read
+ */
+export function ensureScriptSettingsReadAccess(file: string): void {
+  const stack = readScriptPermissionStack()
+  const activeFile = stack[stack.length - 1]?.file
+  if (activeFile && activeFile !== file) {
+    ensureScopedScriptPermissionSync('cross-script-storage', file)
+  }
+}
+
+/**
+ * Coerce a stored or typed-in value to the field type.
+ * @param field Setting declaration
+ * @param raw Stored value or form / palette input
+ * @returns Typed value, or undefined when it does not fit the field
+ */
+export function coerceScriptSettingValue(field: Pick<ScriptSettingField, 'type' | 'options'>, raw: unknown): ScriptSettingValue | undefined {
+  switch (field.type) {
+    case 'boolean':
+      if (typeof raw === 'boolean') {
+        return raw
+      }
+      if (raw === 'true' || raw === 'false') {
+        return raw === 'true'
+      }
+      return undefined
+    case 'number': {
+      if (typeof raw === 'string' && !raw.trim()) {
+        return undefined
+      }
+      const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw.trim()) : NaN
+      return Number.isFinite(value) ? value : undefined
+    }
+    case 'select':
+      return typeof raw === 'string' && field.options?.includes(raw) ? raw : undefined
+    case 'string':
+      return typeof raw === 'string' ? raw : undefined
+  }
+}
+
+/**
+ * Parse one `@setting` header value: `key type default [label]`, e.g.
+ * `refreshSeconds number 30 Refresh interval` or `theme select(light|dark) dark Theme`.
+ * String defaults with spaces are JSON-quoted (`"Hello world"`, `""` for empty).
+ * @param value Header value after `@setting`
+ * @returns Setting declaration
+ */
+export function parseScriptSettingDeclaration(value: string): ScriptSettingField {
+  const [key = '', typeToken = '', ...restTokens] = value.trim().split(/\s+/)
+  if (!key || !typeToken) {
+    throw new Error(`@setting "${value.trim()}" must be "key type default [label]"`)
+  }
+  if (!SETTING_KEY_PATTERN.test(key)) {
+    throw new Error(`@setting key "${key}" must start with a letter or _ and contain only letters, digits, _ or -`)
+  }
+
+  let type: ScriptSettingType
+  let options: string[] | undefined
+  const select = typeToken.match(SELECT_TYPE_PATTERN)
+  if (select) {
+    type = 'select'
+    options = [...new Set(select[1].split('|').map((option) => option.trim()))].filter(Boolean)
+    if (options.length === 0) {
+      throw new Error(`@setting ${key}: select() needs at least one option`)
+    }
+  } else if (typeToken === 'string' || typeToken === 'number' || typeToken === 'boolean') {
+    type = typeToken
+  } else {
+    throw new Error(`@setting ${key}: unknown type "${typeToken}" (use string, number, boolean or select(a|b))`)
+  }
+
+  const rest = restTokens.join(' ')
+  let rawDefault: unknown
+  let label: string
+  const quoted = rest.match(QUOTED_DEFAULT_PATTERN)
+  if (quoted) {
+    rawDefault = JSON.parse(quoted[0])
+    label = rest.slice(quoted[0].length).trim()
+  } else {
+    const [first = '', ...labelTokens] = restTokens
+    rawDefault = first
+    label = labelTokens.join(' ')
+  }
+  if (rawDefault === '' && !quoted) {
+    throw new Error(`@setting ${key}: default value is required (use "" for an empty string)`)
+  }
+
+  const defaultValue = coerceScriptSettingValue({ type, options }, rawDefault)
+  if (defaultValue === undefined) {
+    throw new Error(`@setting ${key}: default ${JSON.stringify(rawDefault)} is not a valid ${type === 'select' ? `option of ${options!.join('|')}` : type}`)
+  }
+
+  return { key, type, label: label || key, default: defaultValue, ...(options ? { options } : {}) }
+}
+
+/**
+ * Parse all `@setting` values of a header.
+ * @param values Header values in declaration order
+ * @returns Valid declarations (first one wins for duplicate keys) and per-declaration errors
+ */
+export function parseScriptSettingDeclarations(values: readonly string[]): { fields: ScriptSettingField[]; errors: string[] } {
+  const fields: ScriptSettingField[] = []
+  const errors: string[] = []
+  for (const value of values) {
+    try {
+      const field = parseScriptSettingDeclaration(value)
+      if (fields.some((existing) => existing.key === field.key)) {
+        errors.push(`@setting ${field.key} is declared more than once`)
+        continue
+      }
+      fields.push(field)
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error))
+    }
+  }
+  return { fields, errors }
+}
+
+/**
+ * Keep well-formed setting declarations from untrusted JSON (script index, scripts API, cached lists).
+ * @param raw `settings` value
+ */
+export function normalizeScriptSettingFields(raw: unknown): ScriptSettingField[] {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+  const fields: ScriptSettingField[] = []
+  for (const row of raw as Array<Partial<ScriptSettingField> | null>) {
+    if (!row || typeof row.key !== 'string' || !SETTING_KEY_PATTERN.test(row.key) || fields.some((field) => field.key === row.key)) {
+      continue
+    }
+    if (row.type !== 'string' && row.type !== 'number' && row.type !== 'boolean' && row.type !== 'select') {
+      continue
+    }
+    const options =
+      row.type === 'select' && Array.isArray(row.options) ? row.options.filter((option): option is string => typeof option === 'string' && Boolean(option)) : undefined
+    if (row.type === 'select' && !options?.length) {
+      continue
+    }
+    const defaultValue = coerceScriptSettingValue({ type: row.type, options }, row.default)
+    if (defaultValue === undefined) {
+      continue
+    }
+    fields.push({
+      key: row.key,
+      type: row.type,
+      label: typeof row.label === 'string' && row.label.trim() ? row.label.trim() : row.key,
+      default: defaultValue,
+      ...(options ? { options } : {}),
+    })
+  }
+  return fields
+}
+
+/**
+ * Effective settings: saved values that still fit their declaration, defaults for the rest.
+ * Saved keys that are no longer declared are dropped.
+ * @param fields Setting declarations
+ * @param stored Saved settings object (GM value)
+ */
+export function resolveScriptSettings(fields: readonly ScriptSettingField[], stored: unknown): ScriptSettings {
+  const saved = stored && typeof stored === 'object' && !Array.isArray(stored) ? (stored as Record<string, unknown>) : {}
+  const settings: ScriptSettings = {}
+  for (const field of fields) {
+    settings[field.key] = coerceScriptSettingValue(field, saved[field.key]) ?? field.default
+  }
+  return settings
+}
+
+type ScriptSettingsRegistry = Record<string, ScriptSettingField[]>
+
+function readRegistry(): ScriptSettingsRegistry | null {
+  for (const host of readPermissionHosts()) {
+    const registry = host[SCRIPT_SETTINGS_KEY]
+    if (registry && typeof registry === 'object') {
+      return registry as ScriptSettingsRegistry
+    }
+  }
+  return null
+}
+
+function readGmGetValue(): ((key: string, defaultValue?: unknown) => unknown) | null {
+  for (const host of readPermissionHosts()) {
+    if (typeof host.GM_getValue === 'function') {
+      return host.GM_getValue as (key: string, defaultValue?: unknown) => unknown
+    }
+  }
+  return null
+}
+
+/**
+ * Register a script's `@setting` schema (called by the remote module wrapper before the body runs).
+ * @param file Gist filename
+ * @param fields Setting declarations
+ */
+export function registerScriptSettings(file: string, fields: ScriptSettingField[]): void {
+  const host = resolvePermissionHost()
+  const registry = readRegistry() ?? {}
+  registry[file] = normalizeScriptSettingFields(fields)
+  host[SCRIPT_SETTINGS_KEY] = registry
+}
+
+/**
+ * @returns Registered setting schemas by script file
+ */
+export function listRegisteredScriptSettings(): Array<{ file: string; fields: ScriptSettingField[] }> {
+  return Object.entries(readRegistry() ?? {}).map(([file, fields]) => ({ file, fields }))
+}
+
+/**
+ * Resolve the file `GME_getSettings` reads: the explicit file, the active permission scope's file,
+ * otherwise the only script that declares settings (async callbacks run outside the scope).
+ * @param file Optional explicit script filename
+ */
+function resolveSettingsFile(registry: ScriptSettingsRegistry, file?: string): string | null {
+  if (file) {
+    return registry[file] ? file : null
+  }
+  const stack = readScriptPermissionStack()
+  const activeFile = stack[stack.length - 1]?.file
+  if (activeFile && registry[activeFile]) {
+    return activeFile
+  }
+  const declaring = Object.keys(registry)
+  return declaring.length === 1 ? declaring[0] : null
+}
+
+/**
+ * `GME_getSettings`: effective settings of the running script from GM storage, defaults filled in.
+ * @param file Optional script filename (needed in async callbacks when several scripts declare settings)
+ * @returns Settings object; empty when the script declares none
+ */
+export function getScriptSettings<T extends ScriptSettings = ScriptSettings>(file?: string): T {
+  const registry = readRegistry() ?? {}
+  const target = resolveSettingsFile(registry, file)
+  if (!target) {
+    return {} as T
+  }
+  ensureScriptSettingsReadAccess(target)
+  const stored = readGmGetValue()?.(buildScriptSettingsGmKey(target), {})
+  return resolveScriptSettings(registry[target], stored) as T
+}
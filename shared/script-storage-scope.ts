@@ -0,0 +1,111 @@
+import { ensureScopedScriptPermissionSync, isScopedScriptPermissionAllowed, readScriptPermissionStack, type ScriptPermissionStackFrame } from './script-permission-scope'
+import { parseScriptSettingsGmKey } from './script-settings'
+
+/** Logical GM key recording which script owns each key (scoped by gmScope like the keys it lists); reserved for the bridge. */
+export const SCRIPT_STORAGE_OWNERS_GM_KEY = 'vws_storage_owners'
+
+/** Logical GM key → file of the script that wrote it first */
+export type ScriptStorageOwners = Record<string, string>
+
+function hasOwner(owners: ScriptStorageOwners, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(owners, key)
+}
+
+/**
+ * @param value Stored owners value
+ * @returns Owners with non-string entries dropped
+ */
+export function normalizeScriptStorageOwners(value: unknown): ScriptStorageOwners {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {}
+  }
+  const owners: ScriptStorageOwners = {}
+  for (const [key, file] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof file === 'string' && file) {
+      owners[key] = file
+    }
+  }
+  return owners
+}
+
+/** @returns The running script's scope frame, or null outside a script scope (preset internals) */
+export function readActiveScriptStorageFrame(): ScriptPermissionStackFrame | null {
+  const stack = readScriptPermissionStack()
+  return stack[stack.length - 1] ?? null
+}
+
+/**
+ * Settings keys belong to the script they configure; any other key to the script that wrote it first.
+ * @param key Logical GM key
+ * @param owners Current owners
+ * @returns Owning script file, or null for a key no script has claimed
+ */
+export function resolveScriptStorageOwner(key: string, owners: ScriptStorageOwners): string | null {
+  return parseScriptSettingsGmKey(key) ?? (hasOwner(owners, key) ? owners[key] : null)
+}
+
+/**
+ * Gate a read, write, delete or listener on one GM key: a key another script owns needs `cross-script-storage`
+ * for that script's file. Throws (prompting in the background) until allowed; no-op outside a script scope.
+ * @param key Logical GM key
+ * @param owners Current owners
+ */
+export function ensureScriptStorageAccess(key: string, owners: ScriptStorageOwners): void {
+  const frame = readActiveScriptStorageFrame()
+  if (!frame) {
+    return
+  }
+  if (key === SCRIPT_STORAGE_OWNERS_GM_KEY) {
+    throw new Error(`GM key ${key} is reserved`)
+  }
+  const owner = resolveScriptStorageOwner(key, owners)
+  if (owner && owner !== frame.file) {
+    ensureScopedScriptPermissionSync('cross-script-storage', owner)
+  }
+}
+
+/**
+ * Non-prompting variant of {@link ensureScriptStorageAccess} for `GM_listValues` and change events.
+ * @param key Logical GM key
+ * @param owners Current owners
+ * @param frame Script to check for (a listener's registering script); defaults to the running one
+ */
+export function isScriptStorageAccessAllowed(key: string, owners: ScriptStorageOwners, frame = readActiveScriptStorageFrame()): boolean {
+  if (!frame) {
+    return true
+  }
+  if (key === SCRIPT_STORAGE_OWNERS_GM_KEY) {
+    return false
+  }
+  const owner = resolveScriptStorageOwner(key, owners)
+  return !owner || owner === frame.file || isScopedScriptPermissionAllowed('cross-script-storage', owner, frame)
+}
+
+/**
+ * Make the running script the owner of an unclaimed key it writes.
+ * @param key Logical GM key
+ * @param owners Current owners
+ * @returns Updated owners, or null when nothing changed
+ */
+export function claimScriptStorageKey(key: string, owners: ScriptStorageOwners): ScriptStorageOwners | null {
+  const frame = readActiveScriptStorageFrame()
+  if (!frame || resolveScriptStorageOwner(key, owners)) {
+    return null
+  }
+  return { ...owners, [key]: frame.file }
+}
+
+/**
+ * Drop the owner of a deleted key so the next script to write it claims it.
+ * @param key Logical GM key
+ * @param owners Current owners
+ * @returns Updated owners, or null when the key had none
+ */
+export function releaseScriptStorageKey(key: string, owners: ScriptStorageOwners): ScriptStorageOwners | null {
+  if (!hasOwner(owners, key)) {
+    return null
+  }
+  const next = { ...owners }
+  delete next[key]
+  return next
+}
@@ -0,0 +1,88 @@
+import { normalizeTraceId } from './trace-id'
+
+/** Kind of a script telemetry event: a run entered its body, or a run threw. */
+export type ScriptTelemetryEventKind = 'execution' | 'error'
+
+/** One execution or error report sent to `POST /api/tampermonkey/{key}/telemetry`. */
+export interface ScriptTelemetryEvent {
+  kind: ScriptTelemetryEventKind
+  /** Managed script filename */
+  file: string
+  /** TraceId of the run (`shared/trace-id.ts`), shared with console and Log Viewer lines */
+  traceId: string
+  /** Page URL without query string or hash */
+  url: string
+  /** Client time (ms since epoch) */
+  at: number
+  /** Error message (errors only) */
+  message?: string
+  /** Error stack (errors only) */
+  stack?: string
+  /** Rollout candidate version the run used (only sent by clients in an active rollout cohort, with `clientId`) */
+  version?: string
+  /** Stable client id placing the client in the rollout cohort (`shared/ota-rollout.ts`) */
+  clientId?: string
+}
+
+/** Events accepted per request. */
+export const MAX_TELEMETRY_BATCH = 50
+
+const MAX_FILE_LENGTH = 256
+const MAX_URL_LENGTH = 512
+const MAX_MESSAGE_LENGTH = 1000
+const MAX_STACK_LENGTH = 4000
+const MAX_VERSION_LENGTH = 64
+const MAX_CLIENT_ID_LENGTH = 128
+
+/**
+ * Reduce a page URL to origin + path so query strings and fragments (tokens, search terms) never leave the page,
+ * and so failures on the same page aggregate under one URL.
+ * @param url Page URL
+ * @returns Origin + path, or empty string when not an http(s) URL
+ */
+export function stripTelemetryUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return ''
+    }
+    return `${parsed.origin}${parsed.pathname}`.slice(0, MAX_URL_LENGTH)
+  } catch {
+    return ''
+  }
+}
+
+function truncate(value: unknown, maxLength: number): string | undefined {
+  return typeof value === 'string' && value ? value.slice(0, maxLength) : undefined
+}
+
+/**
+ * Validate one untrusted telemetry event and clamp its free-text fields.
+ * @param raw Event from a request body
+ * @returns Normalized event, or null when a required field is missing or invalid
+ */
+export function normalizeScriptTelemetryEvent(raw: unknown): ScriptTelemetryEvent | null {
+  if (!raw || typeof raw !== 'object') {
+    return null
+  }
+  const event = raw as Partial<Record<keyof ScriptTelemetryEvent, unknown>>
+  const kind = event.kind === 'execution' || event.kind === 'error' ? event.kind : null
+  const file = typeof event.file === 'string' ? event.file.trim() : ''
+  const traceId = normalizeTraceId(event.traceId)
+  const at = typeof event.at === 'number' && Number.isFinite(event.at) && event.at > 0 ? Math.floor(event.at) : 0
+  if (!kind || !file || file.length > MAX_FILE_LENGTH || !traceId || !at) {
+    return null
+  }
+
+  const url = typeof event.url === 'string' ? stripTelemetryUrl(event.url) : ''
+  // Rollout fields only count together; an over-long value is dropped rather than truncated into another id
+  const version = typeof event.version === 'string' && event.version.length <= MAX_VERSION_LENGTH ? event.version : ''
+  const clientId = typeof event.clientId === 'string' && event.clientId.length <= MAX_CLIENT_ID_LENGTH ? event.clientId : ''
+  const rollout = version && clientId ? { version, clientId } : {}
+  if (kind === 'execution') {
+    return { kind, file, traceId, url, at, ...rollout }
+  }
+  const message = truncate(event.message, MAX_MESSAGE_LENGTH)
+  const stack = truncate(event.stack, MAX_STACK_LENGTH)
+  return { kind, file, traceId, url, at, ...(message ? { message } : {}), ...(stack ? { stack } : {}), ...rollout }
+}
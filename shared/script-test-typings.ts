@@ -0,0 +1,69 @@
+/**
+ * Editor typings for script test files (`*.test.ts`): the globals `services/scripts/scriptTests.ts` provides.
+ * Kept in sync with `ScriptTestPage` / `ScriptTestGm` there.
+ */
+export const SCRIPT_TEST_TYPINGS = `
+interface ScriptTestGm {
+  /** GM storage (GM_setValue / GM_getValue) */
+  values: Record<string, any>
+  /** Every GM_* / GME_* call, in order */
+  calls: Array<{ name: string; args: any[] }>
+  notifications: Array<{ id: string; text: string; title?: string; type?: string; closed: boolean }>
+  /** Registered menu commands; run() invokes one as if clicked */
+  menuCommands: Array<{ id: string; name: string; run(): void }>
+  /** GM_log, GME_ok / GME_info / GME_warn / GME_fail and console output, as \`level: message\` */
+  logs: string[]
+  requests: Array<{ method: string; url: string; headers: Record<string, string>; data?: unknown }>
+  /** URLs opened with GM_openInTab */
+  tabs: string[]
+  /** Text copied with GM_setClipboard */
+  clipboard: string[]
+  /** Errors the script threw and page errors */
+  errors: string[]
+  /** Calls of one GM function, e.g. called('GM_setValue') */
+  called(name: string): Array<{ name: string; args: any[] }>
+}
+
+interface ScriptTestPage {
+  window: Window
+  document: Document
+  gm: ScriptTestGm
+  /** Let timers and pending requests run (default 25ms) */
+  wait(ms?: number): Promise<void>
+}
+
+interface ScriptTestLoadOptions {
+  /** Page HTML (default: an empty document) */
+  html?: string
+  /** Seeded GM storage */
+  values?: Record<string, unknown>
+  /** Canned responses for GM_xmlhttpRequest / GME_fetch by URL; a string is a 200 body. Other URLs get a 404. */
+  responses?: Record<string, string | { status?: number; body?: string; headers?: Record<string, string> }>
+}
+
+interface ScriptTestContext {
+  /** Run the script under test in a fresh page at url (header @match / @exclude apply) */
+  load(url: string, options?: ScriptTestLoadOptions): Promise<ScriptTestPage>
+}
+
+interface ScriptTestMatchers {
+  toBe(expected: unknown): void
+  toEqual(expected: unknown): void
+  toBeTruthy(): void
+  toBeFalsy(): void
+  toBeNull(): void
+  toBeUndefined(): void
+  toBeDefined(): void
+  toContain(expected: unknown): void
+  toHaveLength(expected: number): void
+  toMatch(expected: RegExp | string): void
+  toBeGreaterThan(expected: number): void
+  toBeLessThan(expected: number): void
+}
+
+/** Declare a test; each test times out after 5s */
+declare function test(name: string, run: (context: ScriptTestContext) => unknown): void
+/** Group tests under a name prefix */
+declare function describe(name: string, declare: () => void): void
+declare function expect(actual: unknown): ScriptTestMatchers & { not: ScriptTestMatchers }
+`
@@ -1,10 +1,186 @@
 /**
- * Tampermonkey-style @match URL pattern test (shared across WEB, preset, extension, server).
- * @param pattern Match pattern (may contain `*`)
+ * Tampermonkey-compatible URL matching (shared across WEB, preset, extension, server).
+ *
+ * - `@match` / `@exclude-match`: match patterns (`scheme://host/path`). `*` scheme is http|https,
+ *   `*.example.com` is the apex or any subdomain (never `evil-example.com`), a host without a port matches any port,
+ *   path `*` is a glob over path + query.
+ *   Patterns that are not valid match patterns fall back to `@include` globbing for compatibility.
+ * - `@include` / `@exclude`: `/regex/flags`, or a glob where `*` matches anything (host `*` stops at `/`)
+ *   and `.tld` matches any top-level domain.
+ * - `<all_urls>` matches every http(s), file, ftp and ws(s) URL.
+ */
+
+/** Header rules deciding whether a script runs on a URL */
+export interface ScriptUrlMatchRules {
+  /** `@match` patterns */
+  match?: string[]
+  /** `@include` globs or `/regex/` */
+  include?: string[]
+  /** `@exclude` globs or `/regex/` */
+  exclude?: string[]
+  /** `@exclude-match` patterns */
+  excludeMatch?: string[]
+}
+
+const ALL_URLS = '<all_urls>'
+const ALL_URLS_SCHEMES = /^(?:https?|file|ftp|wss?):/i
+const MATCH_PATTERN = /^(\*|https?|file|ftp|wss?|urn):\/\/(\*|\*\.[^/*]+|[^/*]*)(\/.*)$/i
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/i
+const TLD_SOURCE = '\\.[a-z][a-z0-9-]*(?:\\.[a-z]{2})?'
+
+const compiledCache = new Map<string, RegExp | null>()
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Compile an `@include` glob to a regex source. `*` in the host never crosses `/`; a leading `*.` host
+ * also matches the apex domain.
+ */
+function globToRegExpSource(glob: string): string {
+  const schemeEnd = glob.indexOf('://')
+  if (schemeEnd === -1) {
+    return escapeRegExp(glob).replace(/\\\*/g, '.*')
+  }
+
+  const scheme = glob.slice(0, schemeEnd)
+  const rest = glob.slice(schemeEnd + 3)
+  const pathStart = rest.indexOf('/')
+  const host = pathStart === -1 ? rest : rest.slice(0, pathStart)
+  const path = pathStart === -1 ? '' : rest.slice(pathStart)
+
+  const schemeSource = scheme === '*' ? '[a-z][a-z0-9+.-]*' : escapeRegExp(scheme).replace(/\\\*/g, '[a-z0-9+.-]*')
+  let hostSource: string
+  if (host === '*') {
+    hostSource = '[^/]*'
+  } else {
+    const leadingWildcard = host.startsWith('*.')
+    const body = leadingWildcard ? host.slice(2) : host
+    const tld = body.endsWith('.tld')
+    const bodySource = escapeRegExp(tld ? body.slice(0, -4) : body).replace(/\\\*/g, '[^/]*')
+    hostSource = `${leadingWildcard ? '(?:[^/]*\\.)?' : ''}${bodySource}${tld ? TLD_SOURCE : ''}(?::\\d+)?`
+  }
+  const pathSource = escapeRegExp(path).replace(/\\\*/g, '.*')
+
+  return `${schemeSource}:\\/\\/${hostSource}${pathSource}`
+}
+
+/**
+ * Compile a match pattern (`scheme://host/path`) to a regex over `scheme://host` + path + query.
+ * @returns Regex source, or null when the pattern is not a valid match pattern
+ */
+function matchPatternToRegExpSource(pattern: string): string | null {
+  const parsed = MATCH_PATTERN.exec(pattern)
+  if (!parsed) {
+    return null
+  }
+
+  const [, scheme, host, path] = parsed
+  if (!host && scheme.toLowerCase() !== 'file') {
+    return null
+  }
+
+  const schemeSource = scheme === '*' ? 'https?' : escapeRegExp(scheme)
+  const hostName = host === '*' ? '[^/:]*' : host.startsWith('*.') ? `(?:[^/]*\\.)?${escapeRegExp(host.slice(2))}` : escapeRegExp(host)
+  // A pattern without a port matches any port.
+  const hostSource = host.includes(':') ? hostName : `${hostName}(?::\\d+)?`
+  const pathSource = escapeRegExp(path).replace(/\\\*/g, '.*')
+  return `${schemeSource}:\\/\\/${hostSource}${pathSource}`
+}
+
+function compile(kind: 'match' | 'include', pattern: string): RegExp | null {
+  const key = `${kind}\u0000${pattern}`
+  if (compiledCache.has(key)) {
+    return compiledCache.get(key)!
+  }
+
+  let regex: RegExp | null = null
+  try {
+    const literal = REGEX_PATTERN.exec(pattern)
+    if (kind === 'include' && literal) {
+      regex = new RegExp(literal[1], literal[2].replace(/[gy]/g, ''))
+    } else {
+      const source = (kind === 'match' ? matchPatternToRegExpSource(pattern) : null) ?? globToRegExpSource(pattern)
+      regex = new RegExp(`^${source}$`, 'i')
+    }
+  } catch {
+    regex = null
+  }
+
+  compiledCache.set(key, regex)
+  return regex
+}
+
+/**
+ * Strip the fragment and normalize a bare origin to end with `/`, the shape match patterns expect.
+ * @param url Page URL
+ */
+function normalizeUrl(url: string): string {
+  const hashIndex = url.indexOf('#')
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex)
+  return /^[a-z][a-z0-9+.-]*:\/\/[^/?]*$/i.test(withoutHash) ? `${withoutHash}/` : withoutHash
+}
+
+/**
+ * Test one `@match` / `@exclude-match` pattern (also used for RULE wildcards and `matchUrl`).
+ * @param pattern Match pattern, `<all_urls>`, or a legacy glob
  * @param url Page URL to test
  */
 export function matchUrlPattern(pattern: string, url: string): boolean {
-  const regexPattern = pattern.replace(/([\.\?])/g, '\\$1').replace(/\*/g, '.*')
-  const regex = new RegExp(`^${regexPattern}$`)
-  return regex.test(url)
+  const trimmed = pattern.trim()
+  if (!trimmed) {
+    return false
+  }
+  if (trimmed === ALL_URLS) {
+    return ALL_URLS_SCHEMES.test(url)
+  }
+  return compile('match', trimmed)?.test(normalizeUrl(url)) ?? false
+}
+
+/**
+ * Test one `@include` / `@exclude` value.
+ * @param pattern `/regex/flags`, `<all_urls>`, or a glob (`*`, `.tld`)
+ * @param url Page URL to test
+ */
+export function matchIncludePattern(pattern: string, url: string): boolean {
+  const trimmed = pattern.trim()
+  if (!trimmed) {
+    return false
+  }
+  if (trimmed === ALL_URLS || trimmed === '*') {
+    return ALL_URLS_SCHEMES.test(url)
+  }
+  const regex = compile('include', trimmed)
+  if (!regex) {
+    return false
+  }
+  return REGEX_PATTERN.test(trimmed) ? regex.test(url) : regex.test(normalizeUrl(url))
+}
+
+/**
+ * Whether any exclude rule vetoes the URL.
+ * @param rules Header rules
+ * @param url Page URL
+ */
+export function isUrlExcludedByScriptRules(rules: ScriptUrlMatchRules, url: string): boolean {
+  return (rules.exclude ?? []).some((pattern) => matchIncludePattern(pattern, url)) || (rules.excludeMatch ?? []).some((pattern) => matchUrlPattern(pattern, url))
+}
+
+/**
+ * Whether the header includes the URL (any `@match` or `@include`), ignoring excludes.
+ * @param rules Header rules
+ * @param url Page URL
+ */
+export function isUrlIncludedByScriptRules(rules: ScriptUrlMatchRules, url: string): boolean {
+  return (rules.match ?? []).some((pattern) => matchUrlPattern(pattern, url)) || (rules.include ?? []).some((pattern) => matchIncludePattern(pattern, url))
+}
+
+/**
+ * Tampermonkey header decision: included by `@match` / `@include` and not vetoed by `@exclude` / `@exclude-match`.
+ * @param rules Header rules
+ * @param url Page URL
+ */
+export function matchScriptUrl(rules: ScriptUrlMatchRules, url: string): boolean {
+  return isUrlIncludedByScriptRules(rules, url) && !isUrlExcludedByScriptRules(rules, url)
 }
@@ -4,6 +4,30 @@ declare namespace NodeJS {
     GIST_ID: string
     /** GitHub Gist Token */
     GIST_TOKEN: string
+    /** Script storage backend: `gist` (default), `git`, `github` or `local` */
+    SCRIPTS_STORAGE?: string
+    /** Git backend remote URL (credentials in the URL or from the server's git / SSH setup) */
+    SCRIPTS_GIT_REMOTE?: string
+    /** Git backend branch (default `main`) */
+    SCRIPTS_GIT_BRANCH?: string
+    /** Git backend directory inside the repository (default repository root) */
+    SCRIPTS_GIT_DIRECTORY?: string
+    /** Git backend cache repository path (default under the OS temp directory) */
+    SCRIPTS_GIT_CACHE_DIR?: string
+    /** GitHub backend repository (`owner/repo`) */
+    SCRIPTS_GITHUB_REPOSITORY?: string
+    /** GitHub backend token with contents write access */
+    SCRIPTS_GITHUB_TOKEN?: string
+    /** GitHub backend branch (default `main`) */
+    SCRIPTS_GITHUB_BRANCH?: string
+    /** GitHub backend directory inside the repository (default repository root) */
+    SCRIPTS_GITHUB_DIRECTORY?: string
+    /** GitHub backend REST API root (default `https://api.github.com`) */
+    SCRIPTS_GITHUB_API_URL?: string
+    /** Local directory backend path */
+    SCRIPTS_STORAGE_DIR?: string
+    /** Script telemetry sink: `none` (default), `memory` or `storage` */
+    SCRIPTS_TELEMETRY_SINK?: string
     /** Admin Username */
     ACCESS_USERNAME: string
     /** Admin Password */
@@ -12,6 +36,8 @@ declare namespace NodeJS {
     ACCESS_2FA_SECRET?: string
     /** JWT Secret */
     JWT_SECRET: string
+    /** Key encrypting stored user credentials (defaults to JWT_SECRET) */
+    ACCESS_SECRETS_KEY?: string
     /** JWT Token Expiration Time */
     JWT_EXPIRES_IN: string
     /** Custom third-party OAuth login entry URL */
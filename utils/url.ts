@@ -1,3 +1,5 @@
+import { matchUrlPattern } from '@/shared/url-pattern-match'
+
 /** validate URL */
 export function isValidUrl(url: string) {
   if (!url.includes('.')) {
@@ -25,8 +27,7 @@ export function tryGetDomain(url: string) {
   }
 }
 
+/** Tampermonkey @match test (see `@/shared/url-pattern-match`) */
 export function matchUrl(pattern: string, url: string) {
-  const regexPattern = pattern.replace(/([\.\?])/g, '\\$1').replace(/\*/g, '.*')
-  const regex = new RegExp(`^${regexPattern}$`)
-  return regex.test(url)
+  return matchUrlPattern(pattern, url)
 }